@@ -0,0 +1,166 @@
+/**
+ * Partial-Order Reduction Tests
+ *
+ * Tests that exploring ample sets instead of every interleaving:
+ * - Gives the same verdict as full exploration on every example protocol
+ * - Still finds mismatches that only show up in a postponed interleaving
+ * - Still finds deadlocks
+ * - Collapses the interleavings of independent roles, and reports how many
+ *   states it skipped
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { parse } from '../../core/parser/parser';
+import { buildCFG } from '../../core/cfg/builder';
+import { projectAll } from '../../core/projection/projector';
+import { BasicSafety } from '../../core/safety/safety-checker';
+import { DeadlockFreedom } from '../../core/safety/progress-checker';
+import { ContextReducer } from '../../core/safety/context-reducer';
+import { createInitialContext } from '../../core/safety/utils';
+import { checkProtocolSafety } from '../../core/safety-api';
+import type { GlobalProtocolDeclaration } from '../../core/ast/types';
+import type { CFSM, CFSMTransition } from '../../core/projection/types';
+import type { TypingContext } from '../../core/safety/types';
+
+function scribbleFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+    entry.isDirectory()
+      ? scribbleFiles(join(dir, entry.name))
+      : entry.name.endsWith('.scr') ? [join(dir, entry.name)] : []
+  );
+}
+
+function contextOf(source: string): TypingContext {
+  const cfg = buildCFG(parse(source).declarations[0] as GlobalProtocolDeclaration);
+  return createInitialContext(projectAll(cfg).cfsms);
+}
+
+/**
+ * Helper: Create a CFSM from its transitions, written `q0 -B!Msg-> q1`
+ * (initial q0, terminal qf)
+ */
+function machine(role: string, ...transitions: string[]): CFSM {
+  const parsed = transitions.map((line, i): CFSMTransition => {
+    const [, from, peer, direction, label, to] = line.match(/^(\w+) -(\w+)([!?])(\w+)-> (\w+)$/)!;
+    const message = { type: 'Message' as const, label };
+    return {
+      id: `t${i}`,
+      from,
+      to,
+      action: direction === '!'
+        ? { type: 'send', to: peer, message }
+        : { type: 'receive', from: peer, message },
+    };
+  });
+  const states = new Set(['q0', 'qf', ...parsed.flatMap(t => [t.from, t.to])]);
+  return {
+    role,
+    protocolName: 'System',
+    parameters: [],
+    states: [...states].map(id => ({ id })),
+    transitions: parsed,
+    initialState: 'q0',
+    terminalStates: ['qf'],
+  };
+}
+
+/**
+ * Six payer/payee pairs settling bilaterally, in parallel (12 roles)
+ */
+function settlement(pairs: number): string {
+  const roles: string[] = [];
+  const branches = Array.from({ length: pairs }, (_, i) => {
+    const payer = `Payer${i + 1}`;
+    const payee = `Payee${i + 1}`;
+    roles.push(payer, payee);
+    return `{ ${payer} -> ${payee}: Pay(Int); ${payee} -> ${payer}: Ack(); ${payer} -> ${payee}: Confirm(); }`;
+  });
+  return `protocol Settlement(${roles.map(role => `role ${role}`).join(', ')}) {
+  par ${branches.join(' and ')}
+}`;
+}
+
+describe('Partial-Order Reduction', () => {
+  describe('Same verdict as full exploration', () => {
+    const files = [...scribbleFiles('examples'), ...scribbleFiles('tests/golden/protocols')]
+      .filter(file => !file.includes('map-reduce'));
+
+    it.each(files)('%s', file => {
+      const context = contextOf(readFileSync(file, 'utf-8'));
+
+      const reduced = new BasicSafety().check(context);
+      const full = new BasicSafety({ partialOrderReduction: false }).check(context);
+
+      expect(reduced.safe).toBe(full.safe);
+      expect(reduced.diagnostics!.statesExplored).toBeLessThanOrEqual(full.diagnostics!.statesExplored!);
+    });
+  });
+
+  it('should find a mismatch reached only by postponing an independent communication', () => {
+    // A -> B: X and C -> D: Y are independent, but C then sends Z to A,
+    // which A can only receive after X. Taking Y first is unsafe.
+    const context = createInitialContext(new Map([
+      ['A', machine('A', 'q0 -B!X-> q1', 'q1 -C?Z-> qf')],
+      ['B', machine('B', 'q0 -A?X-> qf')],
+      ['C', machine('C', 'q0 -D!Y-> q1', 'q1 -A!Z-> qf')],
+      ['D', machine('D', 'q0 -C?Y-> qf')],
+    ]));
+
+    const reduced = new BasicSafety().check(context);
+    const full = new BasicSafety({ partialOrderReduction: false }).check(context);
+
+    expect(full.safe).toBe(false);
+    expect(reduced.safe).toBe(false);
+    expect(reduced.violations[0].message).toBe("C can send 'Z' to A, but A cannot receive it at state q0");
+  });
+
+  it('should find a deadlock among independent pairs', () => {
+    const context = createInitialContext(new Map([
+      ['A', machine('A', 'q0 -B!X-> qf')],
+      ['B', machine('B', 'q0 -A?X-> qf')],
+      ['C', machine('C', 'q0 -D!Y-> q1', 'q1 -D?W-> qf')],
+      ['D', machine('D', 'q0 -C?Y-> q1', 'q1 -C?V-> qf')],
+    ]));
+
+    const result = new DeadlockFreedom().check(context);
+
+    expect(result.safe).toBe(false);
+    expect(result.violations[0].roles).toEqual(['C', 'D']);
+  });
+
+  it('should collapse the interleavings of a 12-role settlement', () => {
+    const context = contextOf(settlement(6));
+
+    const reduced = new BasicSafety().check(context);
+    const full = new BasicSafety({ partialOrderReduction: false }).check(context);
+
+    expect(reduced.safe).toBe(true);
+    expect(full.safe).toBe(true);
+    // One step at a time: 6 pairs × 3 messages, plus the initial context
+    expect(reduced.diagnostics!.statesExplored).toBe(19);
+    expect(reduced.diagnostics!.statesPruned).toBeGreaterThan(0);
+    // Every interleaving: 4 positions in each of the 6 pairs
+    expect(full.diagnostics!.statesExplored).toBe(4 ** 6);
+    expect(full.diagnostics!.statesPruned).toBe(0);
+  });
+
+  it('should report explored and pruned states through the API', () => {
+    const result = checkProtocolSafety(settlement(6), { property: 'df' });
+    if ('type' in result) throw new Error(result.message);
+
+    expect(result.safe).toBe(true);
+    expect(result.metrics.statesExplored).toBe(19);
+    expect(result.metrics.statesPruned).toBeGreaterThan(0);
+  });
+
+  it('should keep a single communication of each pair in the ample set', () => {
+    const reducer = new ContextReducer();
+    const context = contextOf(settlement(3));
+
+    expect(reducer.findEnabledCommunications(context).communications).toHaveLength(3);
+    expect(reducer.findAmpleCommunications(context).map(c => `${c.sender}->${c.receiver}`))
+      .toEqual(['Payer1->Payee1']);
+  });
+});
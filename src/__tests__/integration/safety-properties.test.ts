@@ -0,0 +1,175 @@
+/**
+ * Safety Property Hierarchy Tests
+ *
+ * Tests the properties above basic safety (Scalas & Yoshida, POPL 2019, §5):
+ * - DeadlockFreedom rejects contexts stuck before termination
+ * - Liveness rejects contexts where a pending role can never communicate
+ * - LivePlus rejects contexts where a fair scheduler can starve a role
+ * - Each violation carries the reductions that lead to it
+ * - checkProtocolSafety selects the property with the `property` option
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BasicSafety } from '../../core/safety/safety-checker';
+import { DeadlockFreedom, Liveness, LivePlus } from '../../core/safety/progress-checker';
+import { createInitialContext } from '../../core/safety/utils';
+import { checkProtocolSafety, type ProtocolCheckResult } from '../../core/safety-api';
+import type { CFSM, CFSMTransition } from '../../core/projection/types';
+
+type Action =
+  | { type: 'send'; to: string; message: { label: string } }
+  | { type: 'receive'; from: string; message: { label: string } };
+
+/**
+ * Helper: Create a CFSM from its transitions (initial q0, terminal qf)
+ */
+function createCFSM(role: string, transitions: Array<{ from: string; to: string; action: Action }>): CFSM {
+  const stateIds = new Set(['q0', 'qf', ...transitions.flatMap(t => [t.from, t.to])]);
+  return {
+    role,
+    protocolName: 'TestProtocol',
+    parameters: [],
+    states: [...stateIds].map(id => ({ id })),
+    transitions: transitions.map((t, i): CFSMTransition => ({ id: `t${i}`, ...t, action: t.action as any })),
+    initialState: 'q0',
+    terminalStates: ['qf'],
+  };
+}
+
+const send = (to: string, label: string): Action => ({ type: 'send', to, message: { label } });
+const receive = (from: string, label: string): Action => ({ type: 'receive', from, message: { label } });
+
+function contextOf(...cfsms: CFSM[]) {
+  return createInitialContext(new Map(cfsms.map(cfsm => [cfsm.role, cfsm])), 'TestProtocol');
+}
+
+function checked(code: string, property: 'safe' | 'df' | 'live' | 'live+'): ProtocolCheckResult {
+  const result = checkProtocolSafety(code, { property });
+  if ('type' in result) throw new Error(result.message);
+  return result;
+}
+
+describe('Safety Property Hierarchy', () => {
+  describe('DeadlockFreedom', () => {
+    it('should reject a context stuck after some reductions, with the path to it', () => {
+      // A -> B: Hello, then A and B each wait for the other
+      const context = contextOf(
+        createCFSM('A', [
+          { from: 'q0', to: 'q1', action: send('B', 'Hello') },
+          { from: 'q1', to: 'qf', action: receive('B', 'Reply') },
+        ]),
+        createCFSM('B', [
+          { from: 'q0', to: 'q1', action: receive('A', 'Hello') },
+          { from: 'q1', to: 'qf', action: receive('A', 'Done') },
+        ])
+      );
+
+      expect(new BasicSafety().check(context).safe).toBe(true);
+
+      const result = new DeadlockFreedom().check(context);
+      expect(result.safe).toBe(false);
+      expect(result.violations).toHaveLength(1);
+
+      const [violation] = result.violations;
+      expect(violation.type).toBe('deadlock');
+      expect(violation.roles).toEqual(['A', 'B']);
+      expect(violation.path?.map(c => `${c.sender}->${c.receiver}:${c.message}`)).toEqual(['A->B:Hello']);
+    });
+
+    it('should accept a context where every role terminates', () => {
+      const context = contextOf(
+        createCFSM('A', [{ from: 'q0', to: 'qf', action: send('B', 'Hello') }]),
+        createCFSM('B', [{ from: 'q0', to: 'qf', action: receive('A', 'Hello') }])
+      );
+
+      expect(new DeadlockFreedom().check(context).safe).toBe(true);
+    });
+  });
+
+  describe('Liveness', () => {
+    // A and B ping forever; C waits for a Go that nobody sends
+    const starving = () => contextOf(
+      createCFSM('A', [{ from: 'q0', to: 'q0', action: send('B', 'Ping') }]),
+      createCFSM('B', [{ from: 'q0', to: 'q0', action: receive('A', 'Ping') }]),
+      createCFSM('C', [{ from: 'q0', to: 'qf', action: receive('A', 'Go') }])
+    );
+
+    it('should accept a role that never communicates as deadlock-free', () => {
+      expect(new DeadlockFreedom().check(starving()).safe).toBe(true);
+    });
+
+    it('should report the role that can never communicate', () => {
+      const result = new Liveness().check(starving());
+
+      expect(result.safe).toBe(false);
+      expect(result.violations[0].type).toBe('starvation');
+      expect(result.violations[0].roles).toEqual(['C']);
+      expect(result.violations[0].path).toEqual([]);
+    });
+  });
+
+  describe('LivePlus', () => {
+    // A: μX. B⊕{ More.X, Stop.C⊕Go.end }   B: μX. A&{ More.X, Stop.end }   C: A&Go.end
+    const unfair = () => contextOf(
+      createCFSM('A', [
+        { from: 'q0', to: 'q0', action: send('B', 'More') },
+        { from: 'q0', to: 'q1', action: send('B', 'Stop') },
+        { from: 'q1', to: 'qf', action: send('C', 'Go') },
+      ]),
+      createCFSM('B', [
+        { from: 'q0', to: 'q0', action: receive('A', 'More') },
+        { from: 'q0', to: 'qf', action: receive('A', 'Stop') },
+      ]),
+      createCFSM('C', [{ from: 'q0', to: 'qf', action: receive('A', 'Go') }])
+    );
+
+    it('should accept the context as live, since C can still get Go', () => {
+      expect(new Liveness().check(unfair()).safe).toBe(true);
+    });
+
+    it('should reject it as live+, with the fair cycle that starves C', () => {
+      const result = new LivePlus().check(unfair());
+
+      expect(result.safe).toBe(false);
+      const [violation] = result.violations;
+      expect(violation.type).toBe('starvation');
+      expect(violation.roles).toEqual(['C']);
+      expect(violation.message).toContain('A → B: More');
+      expect(violation.details?.cycle.map((c: { message: string }) => c.message)).toEqual(['More']);
+    });
+  });
+
+  describe('checkProtocolSafety', () => {
+    const loop = `protocol Loop(role A, role B) {
+  rec X {
+    choice at A { A -> B: More(); continue X; } or { A -> B: Stop(); }
+  }
+}`;
+
+    it('should check basic safety by default', () => {
+      const result = checkProtocolSafety(loop);
+      if ('type' in result) throw new Error(result.message);
+
+      expect(result.property).toBe('safe');
+      expect(result.safe).toBe(true);
+    });
+
+    it.each(['df', 'live', 'live+'] as const)('should check %s when asked', property => {
+      const result = checked(loop, property);
+
+      expect(result.property).toBe(property);
+      expect(result.safe).toBe(true);
+    });
+
+    it('should treat a multicast as a single reduction', () => {
+      const multicast = `protocol Broadcast(role P, role S1, role S2) {
+  P -> S1, S2: News(String);
+  S1 -> P: Ack();
+  P -> S2: Done();
+}`;
+
+      expect(checked(multicast, 'df').safe).toBe(true);
+      expect(checked(multicast, 'live+').safe).toBe(true);
+    });
+  });
+});
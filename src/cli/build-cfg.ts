@@ -9,7 +9,7 @@
  *   npm run build-cfg -- --stdin [options]
  *
  * Options:
- *   --format <fmt>    Output format: json (default), dot, text
+ *   --format <fmt>    Output format: json (default), dot, mermaid, graphml, text
  *   --output <file>   Save output to file
  *   --stdin           Read from standard input
  *   --help            Show this help message
@@ -17,16 +17,19 @@
  * Examples:
  *   npm run build-cfg examples/two-phase.scr
  *   npm run build-cfg examples/two-phase.scr --format dot
+ *   npm run build-cfg examples/two-phase.scr --format mermaid --output cfg.mmd
  *   npm run build-cfg examples/two-phase.scr --output cfg.json
  *   echo "protocol Test(role A, role B) { A -> B: Msg(); }" | npm run build-cfg -- --stdin
  */
 
-import { parse } from '../core/parser/parser';
 import { buildCFG } from '../core/cfg/builder';
 import type { GlobalProtocolDeclaration } from '../core/ast/types';
+import type { LoadedProgram } from '../core/protocol-registry/module-loader';
 import type { CFG } from '../core/cfg/types';
+import { cfgDiagram, cfgNodeLabel, renderDiagram } from '../core/diagrams';
 import {
   readInput,
+  loadInput,
   writeOutput,
   handleError,
   printHeader,
@@ -37,69 +40,6 @@ import {
   type CLIOptions,
 } from './shared';
 
-// ============================================================================
-// CFG to DOT Format
-// ============================================================================
-
-function cfgToDot(cfg: CFG, protocolName: string): string {
-  const lines: string[] = [];
-  lines.push(`digraph "${protocolName}" {`);
-  lines.push('  rankdir=TB;');
-  lines.push('  node [shape=box, style=rounded];');
-  lines.push('');
-
-  // Nodes
-  for (const node of cfg.nodes) {
-    const shape = node.type === 'initial' || node.type === 'terminal' ? 'circle' : 'box';
-    const label = formatNodeLabel(node);
-    lines.push(`  ${node.id} [label="${label}", shape=${shape}];`);
-  }
-
-  lines.push('');
-
-  // Edges
-  for (const edge of cfg.edges) {
-    const label = edge.label ? ` [label="${edge.label}"]` : '';
-    const style = edge.edgeType === 'continue' ? ' [style=dashed, color=blue]' : '';
-    lines.push(`  ${edge.from} -> ${edge.to}${label}${style};`);
-  }
-
-  lines.push('}');
-  return lines.join('\n');
-}
-
-function formatNodeLabel(node: any): string {
-  switch (node.type) {
-    case 'initial':
-      return 'START';
-    case 'terminal':
-      return 'END';
-    case 'action':
-      if (node.action.kind === 'message') {
-        const { from, to, label } = node.action;
-        const toStr = Array.isArray(to) ? to.join(',') : to;
-        return `${from} → ${toStr}: ${label}`;
-      } else if (node.action.kind === 'parallel') {
-        return `parallel ${node.action.parallel_id}`;
-      } else if (node.action.kind === 'subprotocol') {
-        return `do ${node.action.protocol}`;
-      }
-      return 'action';
-    case 'branch':
-      return `branch at ${node.at}`;
-    case 'merge':
-      return 'merge';
-    case 'fork':
-      return `fork ${node.parallel_id}`;
-    case 'join':
-      return `join ${node.parallel_id}`;
-    case 'recursive':
-      return `rec ${node.label}`;
-    default:
-      return node.type;
-  }
-}
-
 // ============================================================================
 // CFG to Text Format
 // ============================================================================
@@ -119,7 +59,7 @@ function cfgToText(cfg: CFG, protocolName: string): string {
   // Nodes
   lines.push('Nodes:');
   for (const node of cfg.nodes) {
-    const label = formatNodeLabel(node);
+    const label = cfgNodeLabel(node);
     lines.push(`  ${node.id}: [${node.type}] ${label}`);
   }
   lines.push('');
@@ -149,7 +89,7 @@ USAGE:
   npm run build-cfg -- --stdin [options]
 
 OPTIONS:
-  --format <fmt>    Output format: json (default), dot, text
+  --format <fmt>    Output format: json (default), dot, mermaid, graphml, text
   --output <file>   Save output to file instead of stdout
   --stdin           Read from standard input
   --help, -h        Show this help message
@@ -157,6 +97,8 @@ OPTIONS:
 OUTPUT FORMATS:
   json              JSON representation of CFG (for programmatic use)
   dot               GraphViz DOT format (for visualization)
+  mermaid           Mermaid stateDiagram-v2 (for Markdown docs)
+  graphml           GraphML (for yEd, Gephi, ...)
   text              Human-readable text format
 
 EXAMPLES:
@@ -169,6 +111,9 @@ EXAMPLES:
   # Save to file
   npm run build-cfg examples/two-phase.scr --output cfg.json
 
+  # Mermaid diagram to paste into a design doc
+  npm run build-cfg examples/two-phase.scr --format mermaid --output cfg.mmd
+
   # Generate and visualize with GraphViz
   npm run build-cfg examples/two-phase.scr --format dot | dot -Tpng > cfg.png
 
@@ -194,7 +139,7 @@ function main(): void {
   const args = process.argv.slice(2);
 
   // Parse arguments
-  const options = parseCommonArgs(args) as CLIOptions;
+  const options = parseCommonArgs(args, ['json', 'text', 'dot', 'mermaid', 'graphml']) as CLIOptions;
 
   // Show help if requested or no input
   if (options.help || args.length === 0) {
@@ -209,12 +154,13 @@ function main(): void {
   printDivider();
 
   // Parse
-  let ast;
+  let program: LoadedProgram;
   try {
-    ast = parse(source);
+    program = loadInput({ source, filename });
   } catch (error: any) {
     handleError(error, 'Parse');
   }
+  const ast = program.entry.module;
 
   // Find global protocol
   const globalProtocol = ast.declarations.find(
@@ -257,8 +203,8 @@ function main(): void {
   let output: string;
   if (options.format === 'json') {
     output = JSON.stringify(cfg, null, 2);
-  } else if (options.format === 'dot') {
-    output = cfgToDot(cfg, globalProtocol.name);
+  } else if (options.format === 'dot' || options.format === 'mermaid' || options.format === 'graphml') {
+    output = renderDiagram(cfgDiagram(cfg, { sourceName: options.inputFile }), options.format);
   } else {
     output = cfgToText(cfg, globalProtocol.name);
   }
@@ -0,0 +1,310 @@
+#!/usr/bin/env node
+/**
+ * CLI utility for checking LTL properties of protocols
+ *
+ * Checks temporal properties over every run of a protocol, and prints a
+ * counterexample run for each property that fails.
+ *
+ * Usage:
+ *   npm run check-ltl <file.scr> [options]
+ *   npm run check-ltl -- --stdin --property <formula> [options]
+ *
+ * Options:
+ *   --properties <file>  Property file (default: <file>.ltl next to the protocol)
+ *   --property <ltl>     Check a formula instead (repeatable)
+ *   --format <fmt>       Output format: json, text (default)
+ *   --output <file>      Save output to file
+ *   --stdin              Read from standard input
+ *   --help               Show this help message
+ *
+ * Examples:
+ *   npm run check-ltl examples/buyer-seller-agency.scr
+ *   npm run check-ltl examples/two-phase-commit.scr --property "F Participant1?Commit"
+ *   npm run check-ltl examples/buyer-seller-agency.scr --format json
+ */
+
+import * as fs from 'fs';
+import { buildCFG } from '../core/cfg/builder';
+import { projectAll } from '../core/projection/projector';
+import { createInitialContext } from '../core/safety/utils';
+import {
+  checkLTL,
+  formatCounterexample,
+  parseLTL,
+  parseProperties,
+  LTLSyntaxError,
+  type LTLProperty,
+  type LTLResult,
+} from '../core/verification/ltl';
+import type { GlobalProtocolDeclaration } from '../core/ast/types';
+import type { LoadedProgram } from '../core/protocol-registry/module-loader';
+import {
+  readInput,
+  loadInput,
+  writeOutput,
+  handleError,
+  printDivider,
+  printSuccess,
+  printInfo,
+  parseCommonArgs,
+  type CLIOptions,
+} from './shared';
+
+// ============================================================================
+// Extended Options
+// ============================================================================
+
+interface CheckLTLCLIOptions extends CLIOptions {
+  properties?: string;
+  property: string[];
+}
+
+// ============================================================================
+// Output Formatting
+// ============================================================================
+
+function formatResultsText(results: Array<{ property: LTLProperty; result: LTLResult }>): string {
+  const lines: string[] = [];
+
+  lines.push('LTL Report');
+  lines.push('═'.repeat(80));
+  lines.push('');
+
+  for (const { property, result } of results) {
+    lines.push(`🔍 ${property.name}`);
+    lines.push('─'.repeat(80));
+    if (property.name !== property.text) lines.push(`   ${result.formula}`);
+    if (result.holds) {
+      lines.push('✅ HOLDS on every run');
+    } else {
+      lines.push('❌ FAILED');
+      lines.push(`   Counterexample: ${formatCounterexample(result.counterexample!)}`);
+    }
+    for (const warning of result.warnings) {
+      lines.push(`⚠️  ${warning}`);
+    }
+    lines.push('');
+  }
+
+  const failed = results.filter(({ result }) => !result.holds).length;
+  lines.push('═'.repeat(80));
+  lines.push(failed === 0
+    ? `🎉 ALL ${results.length} PROPERTIES HOLD`
+    : `❌ ${failed} of ${results.length} properties failed`);
+
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Main CLI Logic
+// ============================================================================
+
+function parseArgs(args: string[]): CheckLTLCLIOptions {
+  // Values of our own options are kept from parseCommonArgs, which would
+  // take them for the input file
+  const common: string[] = [];
+  const own: Partial<CheckLTLCLIOptions> = { property: [] };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--properties') {
+      own.properties = args[++i];
+    } else if (arg === '--property') {
+      own.property!.push(args[++i]);
+    } else {
+      common.push(arg);
+    }
+  }
+
+  return { ...parseCommonArgs(common, ['json', 'text']), ...own } as CheckLTLCLIOptions;
+}
+
+/**
+ * Properties from --property, or else from the property file
+ */
+function readProperties(options: CheckLTLCLIOptions): LTLProperty[] {
+  if (options.property.length > 0) {
+    return options.property.map(text => {
+      try {
+        return { name: text, text, formula: parseLTL(text), line: 1 };
+      } catch (error) {
+        if (error instanceof LTLSyntaxError) {
+          throw new Error(`Invalid formula "${text}" at column ${error.column}: ${error.message}`);
+        }
+        throw error;
+      }
+    });
+  }
+
+  if (!options.properties && !options.inputFile) {
+    throw new Error('No properties to check (use --property or --properties)');
+  }
+  const file = options.properties ?? options.inputFile!.replace(/\.scr$/, '') + '.ltl';
+  if (!fs.existsSync(file)) {
+    throw new Error(`Property file not found: ${file} (use --property or --properties)`);
+  }
+
+  try {
+    return parseProperties(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    if (error instanceof LTLSyntaxError) {
+      throw new Error(`${file}:${error.line}:${error.column}: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+function showHelp(): void {
+  console.log(`
+Scribble Protocol LTL Checker
+
+Checks temporal properties over every run of a protocol. Each property
+that fails comes with a counterexample run: the communications leading
+to a cycle, and the cycle repeated forever (or where the run stops).
+
+USAGE:
+  npm run check-ltl <file.scr> [options]
+  npm run check-ltl -- --stdin --property <formula> [options]
+
+OPTIONS:
+  --properties <file>  Property file (default: <file>.ltl next to the protocol)
+  --property <ltl>     Check a formula instead (repeatable)
+  --format <fmt>       Output format: text (default), json
+  --output <file>      Save output to file
+  --stdin              Read from standard input
+  --help, -h           Show this help message
+
+FORMULAS:
+  Buyer!Order          Buyer sends Order
+  Seller?Order         Seller receives Order
+  end                  Every role has terminated
+  true, false
+  !φ  φ && ψ  φ || ψ  φ -> ψ  φ <-> ψ
+  X φ                  φ holds after the next communication
+  F φ, <> φ            φ eventually holds
+  G φ, [] φ            φ always holds
+  φ U ψ, φ R ψ, φ W ψ  Until, release, weak until
+
+PROPERTY FILES:
+  One property per line, optionally named; # and // start comments.
+
+    # Every order is invoiced
+    order-invoiced: G(Buyer!Order -> F Buyer?Invoice)
+    F end
+
+EXAMPLES:
+  # Check the properties in examples/buyer-seller-agency.ltl
+  npm run check-ltl examples/buyer-seller-agency.scr
+
+  # Check one formula
+  npm run check-ltl examples/two-phase-commit.scr --property "F Participant1?Commit"
+
+  # JSON output for programmatic use
+  npm run check-ltl examples/buyer-seller-agency.scr --format json
+
+EXIT CODES:
+  0: All properties hold
+  1: Some property fails, or the protocol does not parse
+  2: Invalid arguments or formulas
+
+SEE ALSO:
+  - npm run verify     - Verify protocol safety properties
+  - npm run simulate   - Simulate protocol execution
+`);
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+
+  // Parse arguments
+  const options = parseArgs(args);
+
+  // Show help if requested or no input
+  if (options.help || args.length === 0) {
+    showHelp();
+    process.exit(options.help ? 0 : 2);
+  }
+
+  // Read input
+  const { source, filename } = readInput(options);
+
+  let properties: LTLProperty[];
+  try {
+    properties = readProperties(options);
+  } catch (error: any) {
+    console.error(`Error: ${error.message}`);
+    process.exit(2);
+  }
+
+  console.log(`📖 Parsing: ${filename}`);
+  printDivider();
+
+  // Parse
+  let program: LoadedProgram;
+  try {
+    program = loadInput({ source, filename });
+  } catch (error: any) {
+    handleError(error, 'Parse');
+  }
+  const ast = program.entry.module;
+
+  // Find global protocol
+  const globalProtocol = ast.declarations.find(
+    (d) => d.type === 'GlobalProtocolDeclaration'
+  ) as GlobalProtocolDeclaration | undefined;
+
+  if (!globalProtocol) {
+    console.error('Error: No global protocol declaration found in input.');
+    process.exit(1);
+  }
+
+  printSuccess('Parse successful!');
+  printInfo('Protocol', globalProtocol.name);
+  printInfo('Roles', globalProtocol.roles.map((r) => r.name).join(', '));
+  printInfo('Properties', String(properties.length));
+  console.log('');
+
+  // Check every property on the runs of the projections
+  let results: Array<{ property: LTLProperty; result: LTLResult }>;
+  try {
+    const context = createInitialContext(projectAll(buildCFG(globalProtocol)).cfsms, globalProtocol.name);
+    results = properties.map(property => ({ property, result: checkLTL(context, property.formula) }));
+  } catch (error: any) {
+    handleError(error, 'LTL Check');
+  }
+
+  // Format output
+  let output: string;
+  if (options.format === 'json') {
+    output = JSON.stringify(results.map(({ property, result }) => ({
+      name: property.name,
+      line: property.line,
+      ...result,
+      ...(result.counterexample && {
+        counterexample: {
+          prefix: result.counterexample.prefix,
+          cycle: result.counterexample.cycle,
+          description: formatCounterexample(result.counterexample),
+        },
+      }),
+    })), null, 2);
+  } else {
+    output = formatResultsText(results);
+  }
+
+  if (options.output) {
+    writeOutput(output, options.output);
+    console.log('');
+  } else {
+    console.log(output);
+  }
+
+  process.exit(results.every(({ result }) => result.holds) ? 0 : 1);
+}
+
+// ============================================================================
+// Entry Point
+// ============================================================================
+
+main();
@@ -0,0 +1,180 @@
+#!/usr/bin/env node
+/**
+ * CLI utility for formatting Scribble protocols
+ *
+ * Prints protocols in canonical form, keeping their comments.
+ *
+ * Usage:
+ *   npm run fmt <file.scr...> [options]
+ *   npm run fmt -- --stdin
+ *
+ * Options:
+ *   --check           List files that are not formatted (exit 1 if any)
+ *   --write           Format files in place
+ *   --indent <n>      Spaces per indentation level (default: 2)
+ *   --stdin           Read from standard input
+ *   --help            Show this help message
+ *
+ * Examples:
+ *   npm run fmt examples/two-phase.scr
+ *   npm run fmt examples/*.scr --write
+ *   npm run fmt examples/*.scr --check
+ */
+
+import * as fs from 'fs';
+import { formatSource } from '../core/serializer/scribble-formatter';
+import { ParseError } from '../core/parser/parser';
+import { formatSyntaxDiagnostic } from '../core/parser/syntax-diagnostics';
+import { readInput } from './shared';
+
+// ============================================================================
+// Options
+// ============================================================================
+
+interface FmtCLIOptions {
+  files: string[];
+  stdin: boolean;
+  check: boolean;
+  write: boolean;
+  indent: number;
+  help: boolean;
+}
+
+function parseArgs(args: string[]): FmtCLIOptions {
+  const options: FmtCLIOptions = { files: [], stdin: false, check: false, write: false, indent: 2, help: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--help' || arg === '-h') {
+      options.help = true;
+    } else if (arg === '--stdin') {
+      options.stdin = true;
+    } else if (arg === '--check') {
+      options.check = true;
+    } else if (arg === '--write' || arg === '-w') {
+      options.write = true;
+    } else if (arg === '--indent') {
+      const indent = Number(args[++i]);
+      if (!Number.isInteger(indent) || indent < 0) {
+        console.error(`Error: Invalid indent "${args[i]}". Must be a number of spaces`);
+        process.exit(2);
+      }
+      options.indent = indent;
+    } else if (!arg.startsWith('-')) {
+      options.files.push(arg);
+    }
+  }
+
+  return options;
+}
+
+function showHelp(): void {
+  console.log(`
+Scribble Protocol Formatter
+
+Prints Scribble protocols in canonical form: consistent indentation,
+braces on the line they open, arrow messages with comma-separated
+receivers. Comments are kept.
+
+USAGE:
+  npm run fmt <file.scr...> [options]
+  npm run fmt -- --stdin
+
+OPTIONS:
+  --check           List files that are not formatted (exit 1 if any)
+  --write, -w       Format files in place
+  --indent <n>      Spaces per indentation level (default: 2)
+  --stdin           Read from standard input
+  --help, -h        Show this help message
+
+EXAMPLES:
+  # Print a formatted protocol
+  npm run fmt examples/two-phase.scr
+
+  # Format files in place
+  npm run fmt examples/*.scr --write
+
+  # Check formatting (e.g. in CI)
+  npm run fmt examples/*.scr --check
+
+  # Read from stdin
+  echo "protocol Test(role A,role B){A->B:Msg();}" | npm run fmt -- --stdin
+
+EXIT CODES:
+  0: Success (all files formatted, with --check)
+  1: Some files are not formatted (with --check)
+  2: Invalid arguments or syntax errors
+
+SEE ALSO:
+  - npm run verify     - Verify protocol safety properties
+`);
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+/**
+ * Format one source, printing its syntax errors if it doesn't parse
+ */
+function format(source: string, filename: string, indent: number): string | undefined {
+  try {
+    return formatSource(source, { indent: ' '.repeat(indent) });
+  } catch (error: any) {
+    if (!(error instanceof ParseError)) throw error;
+    for (const diagnostic of error.diagnostics) {
+      const { line, column } = diagnostic.location.start;
+      console.error(`${filename}:${line}:${column}: ${formatSyntaxDiagnostic(diagnostic)}`);
+    }
+    return undefined;
+  }
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const options = parseArgs(args);
+
+  if (options.help || args.length === 0) {
+    showHelp();
+    process.exit(options.help ? 0 : 2);
+  }
+
+  const inputs = options.stdin
+    ? [readInput({ stdin: true })]
+    : options.files.map(file => readInput({ stdin: false, inputFile: file }));
+
+  let failed = false;
+  const unformatted: string[] = [];
+
+  for (const { source, filename } of inputs) {
+    const formatted = format(source, filename, options.indent);
+    if (formatted === undefined) {
+      failed = true;
+    } else if (options.check) {
+      if (formatted !== source) unformatted.push(filename);
+    } else if (options.write && !options.stdin) {
+      if (formatted !== source) {
+        fs.writeFileSync(filename, formatted, 'utf-8');
+        console.log(`✏️  Formatted: ${filename}`);
+      }
+    } else {
+      process.stdout.write(formatted);
+    }
+  }
+
+  if (failed) process.exit(2);
+
+  if (options.check) {
+    for (const filename of unformatted) {
+      console.log(filename);
+    }
+    if (unformatted.length > 0) {
+      console.error(`✗ ${unformatted.length} file${unformatted.length > 1 ? 's are' : ' is'} not formatted (run with --write to fix)`);
+      process.exit(1);
+    }
+    console.log(`✅ ${inputs.length} file${inputs.length > 1 ? 's' : ''} formatted`);
+  }
+}
+
+main();
@@ -0,0 +1,21 @@
+/**
+ * File system module resolver for CLI tools
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ModuleResolver } from '../core/protocol-registry/module-loader';
+
+/**
+ * Resolves imports against the importing file's directory
+ * (the working directory for stdin)
+ */
+export class FileSystemModuleResolver implements ModuleResolver {
+  resolve(importPath: string, fromPath: string): string {
+    return path.resolve(fromPath ? path.dirname(fromPath) : process.cwd(), importPath);
+  }
+
+  read(filePath: string): string | undefined {
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : undefined;
+  }
+}
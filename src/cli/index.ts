@@ -11,8 +11,11 @@
  *   parse        - Parse Scribble protocols to AST
  *   build-cfg    - Build Control Flow Graph from protocol
  *   verify       - Verify protocol safety properties
+ *   check-ltl    - Check LTL properties of protocol runs
  *   project      - Project global protocol to local protocols
  *   simulate     - Simulate protocol execution
+ *   fmt          - Format Scribble protocols
+ *   lsp          - Language server for editors (stdio)
  *   help         - Show this help message
  *
  * Examples:
@@ -54,6 +57,11 @@ const COMMANDS: Command[] = [
     description: 'Verify protocol safety properties',
     scriptPath: 'src/cli/verify.ts',
   },
+  {
+    name: 'check-ltl',
+    description: 'Check LTL properties of protocol runs',
+    scriptPath: 'src/cli/check-ltl.ts',
+  },
   {
     name: 'project',
     description: 'Project global protocol to local protocols',
@@ -64,6 +72,16 @@ const COMMANDS: Command[] = [
     description: 'Simulate protocol execution',
     scriptPath: 'src/cli/simulate.ts',
   },
+  {
+    name: 'fmt',
+    description: 'Format Scribble protocols',
+    scriptPath: 'src/cli/fmt.ts',
+  },
+  {
+    name: 'lsp',
+    description: 'Language server for editors (stdio)',
+    scriptPath: 'src/cli/lsp.ts',
+  },
 ];
 
 // ============================================================================
@@ -115,12 +133,19 @@ QUICK START EXAMPLES:
   # Verify safety properties
   npm run smpst verify examples/two-phase.scr
 
+  # Check temporal properties (from examples/buyer-seller-agency.ltl)
+  npm run smpst check-ltl examples/buyer-seller-agency.scr
+
   # Project to local protocols
   npm run smpst project examples/buyer-seller-agency.scr --output-dir ./local
 
   # Simulate execution
   npm run smpst simulate examples/login-or-register.scr
 
+  # Check formatting, or format in place
+  npm run smpst fmt examples/*.scr --check
+  npm run smpst fmt examples/*.scr --write
+
   # Build CFG and export as DOT for visualization
   npm run smpst build-cfg examples/two-phase.scr --format dot | dot -Tpng > cfg.png
 
@@ -143,8 +168,10 @@ GET HELP FOR SPECIFIC COMMANDS:
   npm run smpst parse --help
   npm run smpst build-cfg --help
   npm run smpst verify --help
+  npm run smpst check-ltl --help
   npm run smpst project --help
   npm run smpst simulate --help
+  npm run smpst fmt --help
 
 COMMON OPTIONS (varies by command):
 
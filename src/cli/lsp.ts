@@ -0,0 +1,344 @@
+#!/usr/bin/env node
+/**
+ * Language Server for Scribble files
+ *
+ * Speaks the Language Server Protocol (JSON-RPC over stdio) so that any
+ * LSP-capable editor gets the IDE's checks on `.scr` files.
+ *
+ * Features:
+ *   - Diagnostics (parse, imports, sub-protocols, verification, subtyping)
+ *   - Hover on messages, roles, protocols and type aliases
+ *   - Go to definition of `do` targets and type aliases (across imports)
+ *   - Find references of roles
+ *   - Keyword and role completion
+ *
+ * Usage:
+ *   npm run --silent lsp
+ *   npm run --silent smpst lsp
+ *
+ * Editor setup: run `npx tsx src/cli/lsp.ts` as the language server
+ * command for `.scr` files (npm's banner would corrupt stdout without
+ * --silent).
+ */
+
+import { fileURLToPath, pathToFileURL } from 'url';
+import {
+  analyzeDocument,
+  getHover,
+  getDefinition,
+  getReferences,
+  getCompletions,
+  type ScribbleDocument,
+  type DefinitionLocation,
+  type Position,
+} from '../core/language-service';
+import type { ModuleResolver } from '../core/protocol-registry/module-loader';
+import { FileSystemModuleResolver } from './fs-module-resolver';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface RpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+const PARSE_ERROR = -32700;
+const INVALID_PARAMS = -32602;
+const METHOD_NOT_FOUND = -32601;
+const INTERNAL_ERROR = -32603;
+const TEXT_DOCUMENT_SYNC_FULL = 1;
+
+// ============================================================================
+// Transport
+// ============================================================================
+
+/**
+ * Content-Length framed JSON-RPC messages on stdin/stdout
+ */
+class StdioConnection {
+  private buffer = Buffer.alloc(0);
+
+  constructor(private readonly onMessage: (message: RpcMessage) => void) {
+    process.stdin.on('data', chunk => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      this.drain();
+    });
+  }
+
+  send(message: Omit<RpcMessage, 'jsonrpc'>): void {
+    const body = JSON.stringify({ jsonrpc: '2.0', ...message });
+    process.stdout.write(`Content-Length: ${Buffer.byteLength(body, 'utf-8')}\r\n\r\n${body}`);
+  }
+
+  private drain(): void {
+    for (;;) {
+      const headerEnd = this.buffer.indexOf('\r\n\r\n');
+      if (headerEnd < 0) return;
+
+      const header = this.buffer.subarray(0, headerEnd).toString('ascii');
+      const match = /Content-Length: *(\d+)/i.exec(header);
+      if (!match) {
+        // Unframed input: drop the header
+        this.buffer = this.buffer.subarray(headerEnd + 4);
+        continue;
+      }
+
+      const length = Number(match[1]);
+      const start = headerEnd + 4;
+      if (this.buffer.length < start + length) return;
+
+      const body = this.buffer.subarray(start, start + length).toString('utf-8');
+      this.buffer = this.buffer.subarray(start + length);
+
+      let message: unknown;
+      try {
+        message = JSON.parse(body);
+      } catch (error) {
+        // Malformed message: answer it and go on with the next one
+        console.error(`[smpst lsp] Malformed message skipped: ${(error as Error).message}`);
+        this.send({ id: null, error: { code: PARSE_ERROR, message: 'Parse error' } });
+        continue;
+      }
+      if (!isRecord(message)) {
+        this.send({ id: null, error: { code: PARSE_ERROR, message: 'Parse error: not a JSON-RPC message' } });
+        continue;
+      }
+      this.onMessage(message as unknown as RpcMessage);
+    }
+  }
+}
+
+// ============================================================================
+// Params
+// ============================================================================
+
+/**
+ * Error answered to a request (JSON-RPC error code and message)
+ */
+class RpcError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+    this.name = 'RpcError';
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function field(params: unknown, name: string): unknown {
+  return isRecord(params) ? params[name] : undefined;
+}
+
+function documentUri(params: unknown): string {
+  const uri = field(field(params, 'textDocument'), 'uri');
+  if (typeof uri !== 'string') {
+    throw new RpcError(INVALID_PARAMS, 'Missing textDocument.uri');
+  }
+  return uri;
+}
+
+function documentText(params: unknown): string {
+  const text = field(field(params, 'textDocument'), 'text');
+  if (typeof text !== 'string') {
+    throw new RpcError(INVALID_PARAMS, 'Missing textDocument.text');
+  }
+  return text;
+}
+
+/**
+ * Text of a full-sync change: the last change holds the whole text
+ */
+function changedText(params: unknown): string {
+  const changes = field(params, 'contentChanges');
+  const last = Array.isArray(changes) ? changes[changes.length - 1] : undefined;
+  const text = field(last, 'text');
+  if (typeof text !== 'string') {
+    throw new RpcError(INVALID_PARAMS, 'Missing contentChanges text');
+  }
+  return text;
+}
+
+function position(params: unknown): Position {
+  const value = field(params, 'position');
+  const line = field(value, 'line');
+  const character = field(value, 'character');
+  if (typeof line !== 'number' || typeof character !== 'number') {
+    throw new RpcError(INVALID_PARAMS, 'Missing position');
+  }
+  return { line, character };
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+/**
+ * Resolves imports to open documents first, then to files on disk
+ */
+class WorkspaceModuleResolver implements ModuleResolver {
+  private readonly files = new FileSystemModuleResolver();
+
+  constructor(private readonly openDocuments: Map<string, string>) {}
+
+  resolve(importPath: string, fromPath: string): string {
+    return this.files.resolve(importPath, fromPath);
+  }
+
+  read(path: string): string | undefined {
+    return this.openDocuments.get(path) ?? this.files.read(path);
+  }
+}
+
+class ScribbleLanguageServer {
+  private readonly connection: StdioConnection;
+  private readonly texts = new Map<string, string>();          // path → text
+  private readonly uris = new Map<string, string>();           // path → uri
+  private readonly documents = new Map<string, ScribbleDocument>(); // path → analysis
+  private readonly resolver = new WorkspaceModuleResolver(this.texts);
+  private shutdownRequested = false;
+
+  constructor() {
+    this.connection = new StdioConnection(message => this.handle(message));
+  }
+
+  private handle(message: RpcMessage): void {
+    if (!message.method) return; // Responses to server requests (none sent)
+
+    try {
+      const result = this.dispatch(message.method, message.params);
+      if (message.id !== undefined && result !== undefined) {
+        this.connection.send({ id: message.id, result });
+      } else if (message.id !== undefined) {
+        this.connection.send({ id: message.id, error: { code: METHOD_NOT_FOUND, message: `Unhandled method ${message.method}` } });
+      }
+    } catch (error) {
+      const code = error instanceof RpcError ? error.code : INTERNAL_ERROR;
+      const text = error instanceof Error ? error.message : String(error);
+      const detail = error instanceof Error && !(error instanceof RpcError) ? error.stack ?? text : text;
+      console.error(`[smpst lsp] ${message.method} failed: ${detail}`);
+      if (message.id !== undefined) {
+        this.connection.send({ id: message.id, error: { code, message: text } });
+      }
+    }
+  }
+
+  /**
+   * @returns the response, or undefined for notifications and unknown methods
+   */
+  private dispatch(method: string, params: unknown): unknown {
+    switch (method) {
+      case 'initialize':
+        return {
+          capabilities: {
+            textDocumentSync: TEXT_DOCUMENT_SYNC_FULL,
+            hoverProvider: true,
+            definitionProvider: true,
+            referencesProvider: true,
+            completionProvider: { triggerCharacters: ['.'] },
+          },
+          serverInfo: { name: 'smpst' },
+        };
+      case 'shutdown':
+        this.shutdownRequested = true;
+        return null;
+      case 'exit':
+        process.exit(this.shutdownRequested ? 0 : 1);
+
+      case 'textDocument/didOpen':
+        this.update(documentUri(params), documentText(params));
+        return undefined;
+      case 'textDocument/didChange':
+        this.update(documentUri(params), changedText(params));
+        return undefined;
+      case 'textDocument/didClose': {
+        const uri = documentUri(params);
+        const path = toPath(uri);
+        this.texts.delete(path);
+        this.uris.delete(path);
+        this.documents.delete(path);
+        this.publish(uri, []);
+        return undefined;
+      }
+
+      case 'textDocument/hover':
+        return this.withDocument(params, document => getHover(document, position(params)));
+      case 'textDocument/definition':
+        return this.withDocument(params, document => {
+          const definition = getDefinition(document, position(params));
+          return definition ? this.toLocation(definition) : null;
+        });
+      case 'textDocument/references': {
+        const includeDeclaration = field(field(params, 'context'), 'includeDeclaration');
+        return this.withDocument(params, document =>
+          getReferences(document, position(params), includeDeclaration !== false)
+            .map(location => this.toLocation(location))
+        );
+      }
+      case 'textDocument/completion':
+        return this.withDocument(params, document => getCompletions(document, position(params)));
+
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Re-analyze a document, and the open documents that import it
+   */
+  private update(uri: string, text: string): void {
+    const path = toPath(uri);
+    this.texts.set(path, text);
+    this.uris.set(path, uri);
+
+    const stale = [path, ...[...this.documents.values()]
+      .filter(d => d.path !== path && d.program?.modules.has(path))
+      .map(d => d.path)];
+
+    for (const changed of stale) {
+      const document = analyzeDocument(changed, this.texts.get(changed)!, this.resolver);
+      this.documents.set(changed, document);
+      this.publish(this.uris.get(changed)!, document.diagnostics);
+    }
+  }
+
+  private withDocument<T>(params: unknown, feature: (document: ScribbleDocument) => T): T | null {
+    const document = this.documents.get(toPath(documentUri(params)));
+    return document ? feature(document) : null;
+  }
+
+  private publish(uri: string, diagnostics: unknown[]): void {
+    this.connection.send({ method: 'textDocument/publishDiagnostics', params: { uri, diagnostics } });
+  }
+
+  private toLocation(location: DefinitionLocation): { uri: string; range: DefinitionLocation['range'] } {
+    return { uri: this.uris.get(location.path) ?? pathToFileURL(location.path).href, range: location.range };
+  }
+}
+
+function toPath(uri: string): string {
+  return uri.startsWith('file:') ? fileURLToPath(uri) : uri;
+}
+
+
+// ============================================================================
+// Entry Point
+// ============================================================================
+
+function main(): void {
+  if (process.argv.includes('--help') || process.argv.includes('-h')) {
+    console.log('Usage: npm run --silent smpst lsp\n\nStarts a Language Server for .scr files on stdin/stdout.');
+    process.exit(0);
+  }
+
+  new ScribbleLanguageServer();
+  console.error('[smpst lsp] Listening on stdio');
+}
+
+main();
@@ -3,6 +3,11 @@
  */
 
 import * as fs from 'fs';
+import { ModuleLoader, type LoadedProgram, type LoadOptions } from '../core/protocol-registry/module-loader';
+import { formatSyntaxDiagnostic } from '../core/parser/syntax-diagnostics';
+import { instantiateFamilies, symbolicBounds, type IndexBounds } from '../core/families';
+import type { GlobalProtocolDeclaration } from '../core/ast/types';
+import { FileSystemModuleResolver } from './fs-module-resolver';
 
 // ============================================================================
 // Types
@@ -11,12 +16,14 @@ import * as fs from 'fs';
 export interface CLIOptions {
   inputFile?: string;
   stdin: boolean;
-  format: 'json' | 'text' | 'dot';
+  format: OutputFormat;
   output?: string;
   help: boolean;
   [key: string]: any; // Allow additional options
 }
 
+export type OutputFormat = 'json' | 'text' | 'dot' | 'mermaid' | 'graphml' | 'plantuml';
+
 export interface ParsedInput {
   source: string;
   filename: string;
@@ -51,6 +58,67 @@ export function readInput(options: Pick<CLIOptions, 'stdin' | 'inputFile'>): Par
   return { source, filename };
 }
 
+/**
+ * Parse input together with the modules it imports
+ * (imports of stdin resolve against the working directory)
+ */
+export function loadInput(input: ParsedInput, options?: LoadOptions): LoadedProgram {
+  return new ModuleLoader(new FileSystemModuleResolver()).load(input.filename, input.source, options);
+}
+
+/**
+ * Print the syntax errors of every module (loaded with `recover`)
+ *
+ * @returns the number of errors
+ */
+export function printSyntaxErrors(program: LoadedProgram): number {
+  let count = 0;
+  for (const module of program.modules.values()) {
+    for (const error of module.syntaxErrors) {
+      const { line, column } = error.location.start;
+      console.error(`${module.path}:${line}:${column}: ${formatSyntaxDiagnostic(error)}`);
+      count++;
+    }
+  }
+  return count;
+}
+
+// ============================================================================
+// Role Families
+// ============================================================================
+
+/**
+ * Parse `--bounds N=4,M=2`
+ */
+export function parseBounds(text: string): IndexBounds {
+  const bounds: Record<string, number> = {};
+  for (const entry of text.split(',').filter(e => e.trim() !== '')) {
+    const [name, value] = entry.split('=').map(part => part.trim());
+    if (!name || !value || !Number.isInteger(Number(value))) {
+      throw new Error(`Invalid bound "${entry}" (expected NAME=INTEGER)`);
+    }
+    bounds[name] = Number(value);
+  }
+  return bounds;
+}
+
+/**
+ * Instantiate the role families of a protocol with the sizes of `--bounds`
+ *
+ * @throws Error if a bound is invalid or a size has no value
+ */
+export function instantiateWithBounds(
+  protocol: GlobalProtocolDeclaration,
+  text: string
+): { protocol: GlobalProtocolDeclaration; bounds: IndexBounds } {
+  const bounds = parseBounds(text);
+  const missing = symbolicBounds(protocol).filter(name => bounds[name] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`No value for ${missing.join(', ')} (use --bounds ${missing.map(n => `${n}=3`).join(',')})`);
+  }
+  return { protocol: instantiateFamilies(protocol, bounds), bounds };
+}
+
 // ============================================================================
 // Output Formatting
 // ============================================================================
@@ -85,7 +153,10 @@ export function writeOutput(content: string, outputPath?: string): void {
 /**
  * Parse common CLI arguments
  */
-export function parseCommonArgs(args: string[]): Partial<CLIOptions> {
+export function parseCommonArgs(
+  args: string[],
+  formats: readonly OutputFormat[] = ['json', 'text', 'dot']
+): Partial<CLIOptions> {
   const options: Partial<CLIOptions> = {
     stdin: false,
     format: 'text',
@@ -101,11 +172,14 @@ export function parseCommonArgs(args: string[]): Partial<CLIOptions> {
       options.stdin = true;
     } else if (arg === '--format' || arg === '-f') {
       const fmt = args[++i];
-      if (fmt !== 'json' && fmt !== 'text' && fmt !== 'dot') {
-        console.error(`Error: Invalid format "${fmt}". Must be: json, text, or dot`);
+      if (!formats.includes(fmt as OutputFormat)) {
+        const expected = formats.length > 1
+          ? `${formats.slice(0, -1).join(', ')}, or ${formats[formats.length - 1]}`
+          : formats[0];
+        console.error(`Error: Invalid format "${fmt}". Must be: ${expected}`);
         process.exit(1);
       }
-      options.format = fmt as 'json' | 'text' | 'dot';
+      options.format = fmt as OutputFormat;
     } else if (arg === '--output' || arg === '-o') {
       options.output = args[++i];
     } else if (!arg.startsWith('-')) {
@@ -0,0 +1,73 @@
+// @vitest-environment node
+/**
+ * Simulate CLI Tests
+ *
+ * Tests record and replay end to end, through the command line:
+ * - --record saves a run that --replay re-executes decision by decision
+ * - A protocol that no longer allows the run makes --replay fail
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseReplayLog } from '../core/simulation/replay';
+
+const GATHER = `
+  protocol Gather(role A, role B, role C) {
+    A -> B: Left(Int);
+    C -> B: Right(Int);
+    B -> A: Sum(Int);
+  }
+`;
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'smpst-simulate-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function simulate(...args: string[]) {
+  return spawnSync(process.execPath, ['--import', 'tsx', 'src/cli/simulate.ts', ...args], { encoding: 'utf-8' });
+}
+
+function file(name: string, content: string): string {
+  const filePath = path.join(dir, name);
+  fs.writeFileSync(filePath, content, 'utf-8');
+  return filePath;
+}
+
+describe('Simulate CLI - Record and Replay', () => {
+  it('should replay a recorded run with the same decisions', () => {
+    const protocol = file('gather.scr', GATHER);
+    const log = path.join(dir, 'run.log');
+    const replayed = path.join(dir, 'replay.json');
+
+    const recording = simulate(protocol, '--choice', 'random', '--record', log);
+    expect(recording.status).toBe(0);
+    const recorded = parseReplayLog(JSON.parse(fs.readFileSync(log, 'utf-8')));
+    expect(recorded.simulator).toBe('distributed');
+    expect(recorded.decisions.filter(d => d.kind === 'schedule').length).toBeGreaterThan(0);
+
+    const replay = simulate(protocol, '--replay', log, '--format', 'json', '--output', replayed);
+    expect(replay.status).toBe(0);
+    const result = JSON.parse(fs.readFileSync(replayed, 'utf-8'));
+    expect(result.protocolChanged).toBe(false);
+    expect(result.run.success).toBe(true);
+    expect(result.log.decisions).toEqual(recorded.decisions);
+  }, 30000);
+
+  it('should fail to replay a run the protocol no longer allows', () => {
+    const log = path.join(dir, 'run.log');
+    expect(simulate(file('gather.scr', GATHER), '--record', log).status).toBe(0);
+
+    const replay = simulate(file('changed.scr', GATHER.replace('Right', 'Other')), '--replay', log);
+    expect(replay.status).toBe(1);
+    expect(replay.stderr).toContain('REPLAY DIVERGED');
+  }, 30000);
+});
@@ -12,8 +12,12 @@
  *   --mode <mode>         Simulation mode: cfg (default), cfsm, distributed
  *   --max-steps <n>       Maximum steps (default: 1000)
  *   --choice <strategy>   Choice strategy: manual, random, first (default: first)
- *   --format <fmt>        Output format: json, text (default)
+ *   --format <fmt>        Output format: json, text (default), mermaid, plantuml
  *   --output <file>       Save output to file
+ *   --chaos <plan.json>   Run the roles under the faults of a plan, and report
+ *                         the guarantees they break
+ *   --record <run.log>    Run the projected roles and save the run for --replay
+ *   --replay <run.log>    Re-execute a recorded run, failing if it diverges
  *   --stdin               Read from standard input
  *   --help                Show this help message
  *
@@ -22,15 +26,33 @@
  *   npm run simulate examples/two-phase.scr --max-steps 100
  *   npm run simulate examples/two-phase.scr --choice random
  *   npm run simulate examples/two-phase.scr --format json
+ *   npm run simulate examples/two-phase.scr --format mermaid --output run.mmd
+ *   npm run simulate examples/buyer-seller-agency.scr --chaos examples/buyer-seller-agency.chaos.json
+ *   npm run simulate examples/two-phase.scr --choice random --record run.log
+ *   npm run simulate examples/two-phase.scr --replay run.log
  */
 
-import { parse } from '../core/parser/parser';
+import * as fs from 'fs';
 import { buildCFG } from '../core/cfg/builder';
+import { projectAll } from '../core/projection/projector';
 import { CFGSimulator } from '../core/simulation/cfg-simulator';
+import { DistributedSimulator } from '../core/simulation/distributed-simulator';
+import { createCallStackManager } from '../core/simulation/call-stack-manager';
+import { ChaosSimulator } from '../core/runtime/chaos-simulator';
+import { parseFaultPlan } from '../core/runtime/chaos-transport';
+import { ReplaySession, parseReplayLog, describeDecision, ReplayDivergenceError } from '../core/simulation/replay';
+import type { ReplayLog } from '../core/simulation/replay';
+import { replay } from '../core/simulation/replayer';
+import type { ReplayResult } from '../core/simulation/replayer';
+import type { ChaosReport, FaultPlan, ProtocolGuarantee } from '../core/runtime/types';
 import type { GlobalProtocolDeclaration } from '../core/ast/types';
+import type { LoadedProgram } from '../core/protocol-registry/module-loader';
+import type { IProtocolRegistry } from '../core/protocol-registry/registry';
 import type { CFGExecutionTrace, CFGExecutionEvent } from '../core/simulation/types';
+import { renderSequence, traceSequenceDiagram } from '../core/diagrams';
 import {
   readInput,
+  loadInput,
   writeOutput,
   handleError,
   printHeader,
@@ -50,6 +72,9 @@ interface SimulateCLIOptions extends CLIOptions {
   maxSteps?: number;
   choice?: 'manual' | 'random' | 'first';
   role?: string;
+  chaos?: string;
+  record?: string;
+  replay?: string;
 }
 
 // ============================================================================
@@ -99,6 +124,11 @@ function formatEvent(step: number, event: CFGExecutionEvent): string {
       const toStr = Array.isArray(event.to) ? event.to.join(', ') : event.to;
       return `${prefix} ${event.from} → ${toStr}: ${event.label}`;
 
+    case 'exception': {
+      const to = Array.isArray(event.to) ? event.to.join(', ') : event.to;
+      return `${prefix} ${event.from} throws ${event.label} → ${to} (handler ${event.handlerNodeId})`;
+    }
+
     case 'choice':
       return `${prefix} Choice at ${event.role}, selected: ${event.selectedBranch}`;
 
@@ -130,12 +160,121 @@ function formatEvent(step: number, event: CFGExecutionEvent): string {
   }
 }
 
+const GUARANTEES: ProtocolGuarantee[] = [
+  'progress',
+  'conformance',
+  'delivery',
+  'exactly-once',
+  'fifo',
+  'integrity',
+  'orphan-freedom',
+];
+
+function formatChaosReportText(report: ChaosReport, protocolName: string): string {
+  const lines: string[] = [];
+
+  lines.push(`Chaos Report: ${protocolName}`);
+  lines.push('═'.repeat(80));
+  lines.push('');
+
+  const status = report.completed ? '✅ Completed' : report.deadlocked ? '🔒 Deadlocked' : '❌ Stopped';
+  lines.push(`Status: ${status}`);
+  lines.push(`Seed: ${report.seed}`);
+  lines.push(`Total Steps: ${report.state.step}`);
+  lines.push('');
+
+  lines.push(`Faults Injected (${report.faults.length}):`);
+  lines.push('─'.repeat(80));
+  for (const fault of report.faults) {
+    const delay = fault.delay !== undefined ? ` (${Math.round(fault.delay)}ms)` : '';
+    lines.push(`  ${fault.fault.padEnd(10)} ${fault.from} → ${fault.to}: ${fault.message.label}${delay}`);
+  }
+  if (report.faults.length === 0) {
+    lines.push('  (none)');
+  }
+  lines.push('');
+
+  lines.push('Guarantees:');
+  lines.push('─'.repeat(80));
+  for (const guarantee of GUARANTEES) {
+    const violations = report.violations.filter(v => v.guarantee === guarantee);
+    lines.push(violations.length === 0 ? `✅ ${guarantee}` : `❌ ${guarantee}`);
+    for (const violation of violations) {
+      const where = [
+        violation.role && violation.state && `${violation.role} in ${violation.state}`,
+        violation.channel && `channel ${violation.channel.from} → ${violation.channel.to}`,
+        violation.eventIndex !== undefined && `event ${violation.eventIndex + 1}`,
+      ].filter(Boolean).join(', ');
+      lines.push(`   ${violation.message}${where ? ` [${where}]` : ''}`);
+    }
+  }
+
+  lines.push('');
+  lines.push('═'.repeat(80));
+  lines.push(report.violations.length === 0
+    ? '🎉 NO GUARANTEE BROKEN'
+    : `❌ ${new Set(report.violations.map(v => v.guarantee)).size} of ${GUARANTEES.length} guarantees broken`);
+
+  return lines.join('\n');
+}
+
+function replayStatus(result: ReplayResult): string {
+  switch (result.simulator) {
+    case 'cfsm':
+    case 'distributed':
+      return result.run.success ? '✅ Completed' : `❌ ${result.run.error?.message ?? 'Stopped'}`;
+    case 'runtime':
+      return result.run.completed ? '✅ Completed' : result.run.deadlocked ? '🔒 Deadlocked' : '❌ Stopped';
+  }
+}
+
+function formatReplayText(result: ReplayResult, protocolName: string, recorded = false): string {
+  const lines: string[] = [];
+
+  lines.push(`${recorded ? 'Recording' : 'Replay'}: ${protocolName}`);
+  lines.push('═'.repeat(80));
+  lines.push('');
+
+  lines.push(`Simulator: ${result.simulator}`);
+  lines.push(`Run Status: ${replayStatus(result)}`);
+  lines.push(`Decisions: ${result.log.decisions.length}`);
+  lines.push('');
+
+  lines.push(recorded ? 'Decisions Recorded:' : 'Decisions Replayed:');
+  lines.push('─'.repeat(80));
+  result.log.decisions.forEach((decision, i) => {
+    lines.push(`${String(i + 1).padStart(4)}. ${describeDecision(decision)}`);
+  });
+  if (result.log.decisions.length === 0) {
+    lines.push('  (none)');
+  }
+
+  return lines.join('\n');
+}
+
+function formatReplayJson(result: ReplayResult): string {
+  return JSON.stringify({
+    simulator: result.simulator,
+    protocolChanged: result.protocolChanged,
+    run: result.simulator === 'runtime'
+      ? { completed: result.run.completed, deadlocked: result.run.deadlocked, trace: result.trace }
+      : result.simulator === 'distributed'
+        ? { ...result.run, state: undefined, traces: Object.fromEntries(result.run.traces) }
+        : { ...result.run, state: undefined },
+    log: result.log,
+  }, null, 2);
+}
+
 // ============================================================================
 // Main CLI Logic
 // ============================================================================
 
 function parseArgs(args: string[]): SimulateCLIOptions {
-  const baseOptions = parseCommonArgs(args) as SimulateCLIOptions;
+  // Values of our own options are kept from parseCommonArgs, which would
+  // take them for the input file
+  const valued = new Set(['--mode', '--max-steps', '--choice', '--role', '--chaos', '--record', '--replay']);
+  const common = args.filter((arg, i) => !valued.has(arg) && !valued.has(args[i - 1]));
+  const baseOptions = parseCommonArgs(common, ['text', 'json', 'mermaid', 'plantuml']) as SimulateCLIOptions;
 
   // Defaults
   baseOptions.mode = 'cfg';
@@ -167,6 +306,12 @@ function parseArgs(args: string[]): SimulateCLIOptions {
       baseOptions.choice = choice;
     } else if (arg === '--role') {
       baseOptions.role = args[++i];
+    } else if (arg === '--chaos') {
+      baseOptions.chaos = args[++i];
+    } else if (arg === '--record') {
+      baseOptions.record = args[++i];
+    } else if (arg === '--replay') {
+      baseOptions.replay = args[++i];
     }
   }
 
@@ -187,8 +332,11 @@ OPTIONS:
   --mode <mode>         Simulation mode: cfg, cfsm, distributed (default: cfg)
   --max-steps <n>       Maximum execution steps (default: 1000)
   --choice <strategy>   Choice strategy: manual, random, first (default: first)
-  --format <fmt>        Output format: text (default), json
+  --format <fmt>        Output format: text (default), json, mermaid, plantuml
   --output <file>       Save output to file
+  --chaos <plan.json>   Run the roles under the faults of a plan (see CHAOS)
+  --record <run.log>    Run the projected roles and save the run (see REPLAY)
+  --replay <run.log>    Re-execute a recorded run (see REPLAY)
   --stdin               Read from standard input
   --help, -h            Show this help message
 
@@ -209,6 +357,37 @@ SIMULATION MODES:
                         - Asynchronous message passing
                         - Realistic distributed execution
 
+CHAOS:
+  --chaos runs the projected roles over a transport that drops,
+  duplicates, reorders, delays or corrupts messages as a fault plan says,
+  and reports which guarantees of the run broke and where. The same seed
+  injects the same faults. Formats: text, json. Exits 1 if any broke.
+
+    {
+      "seed": 42,
+      "faults": [
+        { "fault": "drop", "from": "Buyer", "to": "Seller", "probability": 0.3 },
+        { "fault": "delay", "label": "Invoice", "delay": [5, 50] },
+        { "fault": "duplicate", "count": 1 }
+      ]
+    }
+
+  Each rule may filter on from, to (the channel) and label, and limit
+  itself with probability and count; the first rule that hits a message
+  applies.
+
+REPLAY:
+  --record runs the projected roles with the distributed simulator
+  (scheduled at random with --choice random, else in turn) and saves the
+  run to a log. --replay re-executes a logged run of the cfsm, distributed
+  or runtime simulator (recorded here, or in code with a ReplaySession):
+  the same roles scheduled, choices taken, payloads sent and inputs
+  received, in the same order. Formats: text, json.
+
+  The protocol is projected again. If a decision of the log is no longer
+  possible, the replay stops there and exits 1; if the protocol changed
+  but the log still replays, a warning says so.
+
 CHOICE STRATEGIES:
   first                 Always select first branch (deterministic)
   random                Random branch selection
@@ -227,12 +406,22 @@ EXAMPLES:
   # JSON output for programmatic use
   npm run simulate examples/two-phase.scr --format json
 
+  # Sequence diagram of the run (Mermaid or PlantUML)
+  npm run simulate examples/two-phase.scr --format mermaid --output run.mmd
+
   # CFSM mode for single role
   npm run simulate examples/two-phase.scr --mode cfsm --role Client
 
   # Save trace to file
   npm run simulate examples/two-phase.scr --output trace.json --format json
 
+  # Run under network faults
+  npm run simulate examples/buyer-seller-agency.scr --chaos examples/buyer-seller-agency.chaos.json
+
+  # Record a run, then reproduce it
+  npm run simulate examples/two-phase.scr --choice random --record run.log
+  npm run simulate examples/two-phase.scr --replay run.log
+
   # Read from stdin
   echo "protocol Test(role A, role B) { A -> B: Msg(); }" | npm run simulate -- --stdin
 
@@ -269,6 +458,39 @@ function main(): void {
     process.exit(1);
   }
 
+  let plan: FaultPlan | undefined;
+  if (options.chaos) {
+    if (options.format !== 'text' && options.format !== 'json') {
+      console.error('Error: --chaos reports in text or json format only');
+      process.exit(1);
+    }
+    plan = readFaultPlan(options.chaos);
+  }
+
+  let replayLog: ReplayLog | undefined;
+  if (options.replay) {
+    if (plan) {
+      console.error('Error: --chaos and --replay cannot be combined');
+      process.exit(1);
+    }
+    if (options.format !== 'text' && options.format !== 'json') {
+      console.error('Error: --replay reports in text or json format only');
+      process.exit(1);
+    }
+    replayLog = readReplayLog(options.replay);
+  }
+
+  if (options.record) {
+    if (plan || replayLog) {
+      console.error('Error: --record cannot be combined with --chaos or --replay');
+      process.exit(1);
+    }
+    if (options.format !== 'text' && options.format !== 'json') {
+      console.error('Error: --record reports in text or json format only');
+      process.exit(1);
+    }
+  }
+
   // Read input
   const { source, filename } = readInput(options);
 
@@ -276,12 +498,13 @@ function main(): void {
   printDivider();
 
   // Parse
-  let ast;
+  let program: LoadedProgram;
   try {
-    ast = parse(source);
+    program = loadInput({ source, filename });
   } catch (error: any) {
     handleError(error, 'Parse');
   }
+  const ast = program.entry.module;
 
   // Find global protocol
   const globalProtocol = ast.declarations.find(
@@ -313,8 +536,14 @@ function main(): void {
   console.log('');
 
   // Simulate based on mode
-  if (options.mode === 'cfg') {
-    simulateCFG(cfg, globalProtocol.name, options);
+  if (options.record) {
+    simulateRecord(cfg, globalProtocol.name, options.record, options).catch(error => handleError(error, 'Recording'));
+  } else if (replayLog) {
+    simulateReplay(cfg, globalProtocol.name, replayLog, options).catch(error => handleError(error, 'Replay'));
+  } else if (plan) {
+    simulateChaos(cfg, globalProtocol.name, plan, options).catch(error => handleError(error, 'Chaos Simulation'));
+  } else if (options.mode === 'cfg') {
+    simulateCFG(cfg, globalProtocol.name, options, program.registry);
   } else if (options.mode === 'cfsm') {
     console.error('Error: CFSM mode not yet implemented in CLI');
     console.error('Use CFG mode for now: npm run simulate protocol.scr --mode cfg');
@@ -329,7 +558,8 @@ function main(): void {
 function simulateCFG(
   cfg: any,
   protocolName: string,
-  options: SimulateCLIOptions
+  options: SimulateCLIOptions,
+  registry: IProtocolRegistry
 ): void {
   console.log('▶️  Running CFG Simulation...');
   printDivider();
@@ -340,6 +570,9 @@ function simulateCFG(
       maxSteps: options.maxSteps,
       recordTrace: true,
       choiceStrategy: options.choice || 'first',
+      // Sub-protocols (`do`) from this file and its imports
+      protocolRegistry: registry,
+      callStackManager: createCallStackManager(),
     });
   } catch (error: any) {
     handleError(error, 'Simulator Initialization');
@@ -392,6 +625,8 @@ function simulateCFG(
   let output: string;
   if (options.format === 'json') {
     output = JSON.stringify(trace, null, 2);
+  } else if (options.format === 'mermaid' || options.format === 'plantuml') {
+    output = renderSequence(traceSequenceDiagram(trace, { title: protocolName }), options.format);
   } else {
     output = formatTraceText(trace, protocolName);
   }
@@ -411,6 +646,164 @@ function simulateCFG(
   process.exit(0);
 }
 
+/**
+ * Fault plan from a JSON file (exits on a missing or invalid plan)
+ */
+function readFaultPlan(file: string): FaultPlan {
+  if (!fs.existsSync(file)) {
+    console.error(`Error: Fault plan not found: ${file}`);
+    process.exit(1);
+  }
+
+  try {
+    return parseFaultPlan(JSON.parse(fs.readFileSync(file, 'utf-8')));
+  } catch (error: any) {
+    console.error(`Error: Invalid fault plan ${file}: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+async function simulateChaos(
+  cfg: any,
+  protocolName: string,
+  plan: FaultPlan,
+  options: SimulateCLIOptions
+): Promise<void> {
+  console.log(`🌪️  Running Chaos Simulation (${plan.faults.length} fault rules)...`);
+  printDivider();
+
+  const simulator = new ChaosSimulator({
+    roles: projectAll(cfg).cfsms,
+    plan,
+    options: { maxSteps: options.maxSteps },
+  });
+  const report = await simulator.run();
+
+  printSuccess('Simulation complete!');
+  printInfo('Faults Injected', String(report.faults.length));
+  printInfo('Guarantees Broken', String(new Set(report.violations.map(v => v.guarantee)).size));
+  console.log('');
+
+  let output: string;
+  if (options.format === 'json') {
+    output = JSON.stringify({
+      ...report,
+      state: { ...report.state, roles: Object.fromEntries(report.state.roles) },
+    }, null, 2);
+  } else {
+    output = formatChaosReportText(report, protocolName);
+  }
+
+  if (options.output) {
+    writeOutput(output, options.output);
+    console.log('');
+  } else {
+    console.log(output);
+  }
+
+  process.exit(report.violations.length === 0 ? 0 : 1);
+}
+
+/**
+ * Run the projected roles with a ReplaySession, and save its log
+ */
+async function simulateRecord(
+  cfg: any,
+  protocolName: string,
+  file: string,
+  options: SimulateCLIOptions
+): Promise<void> {
+  console.log('⏺️  Recording Distributed Simulation...');
+  printDivider();
+
+  const session = new ReplaySession();
+  const simulator = new DistributedSimulator(projectAll(cfg).cfsms, {
+    maxSteps: options.maxSteps,
+    recordTrace: true,
+    schedulingStrategy: options.choice === 'random' ? 'random' : 'round-robin',
+    replay: session,
+  });
+  const run = await simulator.run();
+  const result: ReplayResult = { simulator: 'distributed', run, log: session.getLog(), protocolChanged: false };
+
+  fs.writeFileSync(file, JSON.stringify(result.log, null, 2), 'utf-8');
+  printSuccess('Simulation complete!');
+  printInfo('Run Status', replayStatus(result));
+  printInfo('Run Log', file);
+  console.log('');
+
+  const output = options.format === 'json'
+    ? formatReplayJson(result)
+    : formatReplayText(result, protocolName, true);
+
+  if (options.output) {
+    writeOutput(output, options.output);
+    console.log('');
+  } else {
+    console.log(output);
+  }
+
+  process.exit(0);
+}
+
+/**
+ * Replay log from a JSON file (exits on a missing or invalid log)
+ */
+function readReplayLog(file: string): ReplayLog {
+  if (!fs.existsSync(file)) {
+    console.error(`Error: Replay log not found: ${file}`);
+    process.exit(1);
+  }
+
+  try {
+    return parseReplayLog(JSON.parse(fs.readFileSync(file, 'utf-8')));
+  } catch (error: any) {
+    console.error(`Error: Invalid replay log ${file}: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+async function simulateReplay(
+  cfg: any,
+  protocolName: string,
+  log: ReplayLog,
+  options: SimulateCLIOptions
+): Promise<void> {
+  console.log(`⏪ Replaying ${log.simulator} run (${log.decisions.length} decisions)...`);
+  printDivider();
+
+  let result: ReplayResult;
+  try {
+    result = await replay(log, projectAll(cfg).cfsms);
+  } catch (error: any) {
+    if (!(error instanceof ReplayDivergenceError)) throw error;
+    console.error('');
+    console.error('❌ REPLAY DIVERGED');
+    console.error(`   ${error.message}`);
+    process.exit(1);
+  }
+
+  printSuccess('Replay complete!');
+  printInfo('Run Status', replayStatus(result));
+  if (result.protocolChanged) {
+    console.warn('⚠️  The protocol has changed since the run was recorded (the log still replays)');
+  }
+  console.log('');
+
+  const output = options.format === 'json'
+    ? formatReplayJson(result)
+    : formatReplayText(result, protocolName);
+
+  if (options.output) {
+    writeOutput(output, options.output);
+    console.log('');
+  } else {
+    console.log(output);
+  }
+
+  process.exit(0);
+}
+
 // ============================================================================
 // Entry Point
 // ============================================================================
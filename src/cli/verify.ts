@@ -14,6 +14,7 @@
  *   --output <file>   Save output to file
  *   --stdin           Read from standard input
  *   --strict          Fail on warnings too
+ *   --bounds <list>   Sizes of role families, e.g. N=4,M=2
  *   --help            Show this help message
  *
  * Examples:
@@ -21,17 +22,23 @@
  *   npm run verify examples/two-phase.scr --checks deadlock,liveness
  *   npm run verify examples/two-phase.scr --format json
  *   npm run verify examples/two-phase.scr --strict
+ *   npm run verify examples/map-reduce.scr --bounds N=4
  */
 
-import { parse } from '../core/parser/parser';
 import { buildCFG } from '../core/cfg/builder';
 import { verifyProtocol } from '../core/verification/verifier';
+import { checkTypes } from '../core/type-checker';
+import { hasRoleFamilies, type IndexBounds } from '../core/families';
 import type { GlobalProtocolDeclaration } from '../core/ast/types';
+import type { LoadedProgram } from '../core/protocol-registry/module-loader';
 import type { CompleteVerification, VerificationOptions } from '../core/verification/types';
 import {
   readInput,
+  loadInput,
+  instantiateWithBounds,
   writeOutput,
   handleError,
+  printSyntaxErrors,
   printHeader,
   printDivider,
   printSuccess,
@@ -47,6 +54,7 @@ import {
 interface VerifyCLIOptions extends CLIOptions {
   checks?: string;
   strict?: boolean;
+  bounds?: string;
 }
 
 // ============================================================================
@@ -275,6 +283,34 @@ function formatVerificationText(result: CompleteVerification, strict: boolean):
   }
   lines.push('');
 
+  // Deadlines (Timed Session Types)
+  lines.push('🔍 Deadline Satisfiability (Timed Session Types)');
+  lines.push('─'.repeat(80));
+  if (!result.deadlines.isSatisfiable) {
+    lines.push(`❌ FAILED: ${result.deadlines.violations.length} unmeetable deadline(s)`);
+    totalErrors++;
+    for (const violation of result.deadlines.violations) {
+      lines.push(`   ${violation.description}`);
+    }
+  } else {
+    lines.push('✅ PASSED: All deadlines can be met');
+  }
+  lines.push('');
+
+  // Crash Tolerance (Crash-Stop Failures)
+  lines.push('🔍 Crash Tolerance (Crash-Stop Failures)');
+  lines.push('─'.repeat(80));
+  if (!result.crashTolerance.isTolerant) {
+    lines.push(`❌ FAILED: ${result.crashTolerance.violations.length} unhandled crash(es)`);
+    totalErrors++;
+    for (const violation of result.crashTolerance.violations) {
+      lines.push(`   ${violation.description}`);
+    }
+  } else {
+    lines.push('✅ PASSED: Every crash of an unreliable role is handled');
+  }
+  lines.push('');
+
   // Summary
   lines.push('═'.repeat(80));
   lines.push('Summary');
@@ -303,19 +339,26 @@ function formatVerificationText(result: CompleteVerification, strict: boolean):
 // ============================================================================
 
 function parseArgs(args: string[]): VerifyCLIOptions {
-  const baseOptions = parseCommonArgs(args) as VerifyCLIOptions;
+  // Values of our own options are kept from parseCommonArgs, which would
+  // take them for the input file
+  const common: string[] = [];
+  const own: Partial<VerifyCLIOptions> = {};
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
 
     if (arg === '--checks') {
-      baseOptions.checks = args[++i];
+      own.checks = args[++i];
     } else if (arg === '--strict') {
-      baseOptions.strict = true;
+      own.strict = true;
+    } else if (arg === '--bounds') {
+      own.bounds = args[++i];
+    } else {
+      common.push(arg);
     }
   }
 
-  return baseOptions;
+  return { ...parseCommonArgs(common), ...own } as VerifyCLIOptions;
 }
 
 function showHelp(): void {
@@ -333,13 +376,14 @@ OPTIONS:
   --format <fmt>    Output format: text (default), json
   --output <file>   Save output to file
   --strict          Treat warnings as errors
+  --bounds <list>   Sizes of role families: N=4,M=2 (role Worker[1..N])
   --stdin           Read from standard input
   --help, -h        Show this help message
 
 AVAILABLE CHECKS:
   all               All verification checks (default)
   deadlock          Deadlock detection (cycle detection)
-  liveness          Liveness checking (progress guarantee)
+  liveness          Liveness checking (every role can eventually progress)
   parallel          Parallel deadlock detection
   race              Race condition detection
   progress          Progress checking
@@ -353,6 +397,8 @@ AVAILABLE CHECKS:
   self-comm         Self-communication detection (P2)
   empty-branch      Empty choice branch detection (P2)
   merge-reach       Merge reachability (P3)
+  deadlines         Deadline satisfiability (timed types)
+  crash-tolerance   Crash handling of unreliable roles (crash-stop)
 
 EXAMPLES:
   # Run all checks
@@ -370,6 +416,9 @@ EXAMPLES:
   # Save to file
   npm run verify examples/two-phase.scr --output report.txt
 
+  # Protocol with a role family Worker[1..N], for 4 workers
+  npm run verify examples/map-reduce.scr --bounds N=4
+
   # Read from stdin
   echo "protocol Test(role A, role B) { A -> B: Msg(); }" | npm run verify -- --stdin
 
@@ -381,7 +430,7 @@ PRIORITY LEVELS:
 
 EXIT CODES:
   0: All checks passed
-  1: Verification failed (errors found)
+  1: Verification failed (errors or payload type errors found)
   2: Invalid arguments or parse error
 
 SEE ALSO:
@@ -410,12 +459,19 @@ function main(): void {
   printDivider();
 
   // Parse
-  let ast;
+  // Report every syntax error, and verify what parsed
+  let program: LoadedProgram;
   try {
-    ast = parse(source);
+    program = loadInput({ source, filename }, { recover: true });
   } catch (error: any) {
     handleError(error, 'Parse');
   }
+  const syntaxErrors = printSyntaxErrors(program);
+  if (syntaxErrors > 0) {
+    console.error(`✗ ${syntaxErrors} syntax error${syntaxErrors > 1 ? 's' : ''}`);
+    console.error('');
+  }
+  const ast = program.entry.module;
 
   // Find global protocol
   const globalProtocol = ast.declarations.find(
@@ -427,18 +483,48 @@ function main(): void {
     process.exit(1);
   }
 
-  printSuccess('Parse successful!');
+  if (syntaxErrors === 0) {
+    printSuccess('Parse successful!');
+  }
   printInfo('Protocol', globalProtocol.name);
   printInfo('Roles', globalProtocol.roles.map((r) => r.name).join(', '));
   console.log('');
 
+  // Type check (also resolves the payload types carried by the CFG)
+  for (const module of program.modules.values()) {
+    if (module !== program.entry) checkTypes(module.module, { types: program.types });
+  }
+  const typeCheck = checkTypes(ast, { types: program.types });
+  for (const error of typeCheck.errors) {
+    const position = error.location ? `:${error.location.start.line}:${error.location.start.column}` : '';
+    console.error(`${filename}${position}: ${error.message}`);
+  }
+  if (!typeCheck.valid) {
+    const count = typeCheck.errors.length;
+    console.error(`✗ ${count} type error${count > 1 ? 's' : ''}`);
+    console.error('');
+  }
+
+  // Role families are verified for concrete sizes
+  let protocol = globalProtocol;
+  if (hasRoleFamilies(globalProtocol)) {
+    let bounds: IndexBounds;
+    try {
+      ({ protocol, bounds } = instantiateWithBounds(globalProtocol, options.bounds ?? ''));
+    } catch (error: any) {
+      handleError(error, 'Instantiation');
+    }
+    printInfo('Instantiated', Object.entries(bounds).map(([name, value]) => `${name} = ${value}`).join(', '));
+    console.log('');
+  }
+
   // Build CFG
   console.log('🔨 Building Control Flow Graph...');
   printDivider();
 
   let cfg;
   try {
-    cfg = buildCFG(globalProtocol);
+    cfg = buildCFG(protocol);
   } catch (error: any) {
     handleError(error, 'CFG Build');
   }
@@ -489,11 +575,13 @@ function main(): void {
     !result.forkJoinStructure.isValid ||
     !result.selfCommunication.isValid ||
     !result.emptyChoiceBranch.isValid ||
-    !result.mergeReachability.isValid;
+    !result.mergeReachability.isValid ||
+    !result.deadlines.isSatisfiable ||
+    !result.crashTolerance.isTolerant;
 
   const hasWarnings = !result.multicast.isValid;
 
-  if (hasErrors || (options.strict && hasWarnings)) {
+  if (hasErrors || syntaxErrors > 0 || !typeCheck.valid || (options.strict && hasWarnings)) {
     process.exit(1);
   }
 
@@ -27,7 +27,7 @@ export type ModuleDeclaration =
   | TypeDeclaration
   | GlobalProtocolDeclaration
   | LocalProtocolDeclaration
-  | ProtocolExtension;  // Subtyping (future feature)
+  | ProtocolExtension;  // Subtyping
 
 export interface ImportDeclaration {
   type: 'ImportDeclaration';
@@ -67,6 +67,8 @@ export interface RoleDeclaration {
   type: 'RoleDeclaration';
   name: string;
   isDynamic?: boolean; // DMst: true if declared with 'new role'
+  range?: IndexRange;  // Role family: role Worker[1..N]
+  unreliable?: boolean; // Crash-stop: may crash at any point (role Worker unreliable)
   location?: SourceLocation;
 }
 
@@ -83,6 +85,8 @@ export type GlobalInteraction =
   | Throw        // Exception handling
   | TimedMessage // Timed types
   | Timeout      // Timed types
+  | CrashHandler // Crash-stop failures
+  | Foreach      // Role families
   | DynamicRoleDeclaration  // DMst
   | ProtocolCall            // DMst
   | CreateParticipants      // DMst
@@ -115,7 +119,8 @@ export type LocalInteraction =
   | Do
   | Try      // Exception handling
   | Throw    // Exception handling
-  | Timeout; // Timed types
+  | Timeout  // Timed types
+  | CrashHandler; // Crash-stop failures
 
 // ============================================================================
 // Message Transfer (Global)
@@ -133,12 +138,14 @@ export interface Message {
   type: 'Message';
   label: string;
   payload?: Payload;
+  predicate?: Expression; // Refinement: Pay(amount: Int) where amount > 0
   location?: SourceLocation;
 }
 
 export interface Payload {
   type: 'Payload';
   payloadType: Type;
+  resolvedType?: ResolvedType; // Set by the type checker
   location?: SourceLocation;
 }
 
@@ -150,6 +157,7 @@ export interface Send {
   type: 'Send';
   message: Message;
   to: string | string[];  // string[] for multicast
+  deadline?: TimeConstraint; // Timed types: projected from `within`
   location?: SourceLocation;
 }
 
@@ -157,6 +165,7 @@ export interface Receive {
   type: 'Receive';
   message: Message;
   from: string;
+  deadline?: TimeConstraint; // Timed types: projected from `within`
   location?: SourceLocation;
 }
 
@@ -377,7 +386,10 @@ export interface UpdatableRecursion {
 
 export type Type =
   | SimpleType
-  | ParametricType;
+  | ParametricType
+  | RecordType
+  | UnionType
+  | OptionalType;
 
 export interface SimpleType {
   type: 'SimpleType';
@@ -392,6 +404,120 @@ export interface ParametricType {
   location?: SourceLocation;
 }
 
+/**
+ * Record: { id: Int, items: List<Item> }
+ * Also the payload of a message with named arguments: Order(id: Int, items: List<Item>)
+ */
+export interface RecordType {
+  type: 'RecordType';
+  fields: RecordField[];
+  location?: SourceLocation;
+}
+
+export interface RecordField {
+  type: 'RecordField';
+  name: string;
+  fieldType: Type;
+  location?: SourceLocation;
+}
+
+/**
+ * Union: Int | String
+ */
+export interface UnionType {
+  type: 'UnionType';
+  alternatives: Type[];
+  location?: SourceLocation;
+}
+
+/**
+ * Optional: Int?
+ */
+export interface OptionalType {
+  type: 'OptionalType';
+  valueType: Type;
+  location?: SourceLocation;
+}
+
+// ============================================================================
+// Resolved Types (set by the type checker, see core/type-checker)
+// ============================================================================
+
+/**
+ * Meaning of a Type once aliases are expanded: what generators and the
+ * runtime work with
+ */
+export type ResolvedType =
+  | { kind: 'primitive'; name: PrimitiveTypeName }
+  | { kind: 'list'; element: ResolvedType }
+  | { kind: 'set'; element: ResolvedType }
+  | { kind: 'map'; key: ResolvedType; value: ResolvedType }
+  | { kind: 'optional'; value: ResolvedType }
+  | { kind: 'record'; fields: Array<{ name: string; type: ResolvedType }> }
+  | { kind: 'union'; alternatives: ResolvedType[] }
+  | { kind: 'parameter'; name: string } // Type parameter of the protocol (<type T>)
+  | { kind: 'unknown'; name: string };  // Undeclared type (reported by the checker)
+
+export type PrimitiveTypeName = 'Int' | 'Long' | 'Float' | 'Double' | 'Bool' | 'String';
+
+// ============================================================================
+// Predicates (message refinements, see core/predicates)
+// ============================================================================
+
+/**
+ * Boolean expression over payload values, after `where`:
+ *   Pay(amount: Int) where amount > 0 && amount <= limit
+ * Variables are the named arguments of this message or of earlier ones.
+ */
+export type Expression =
+  | LiteralExpression
+  | VariableExpression
+  | FieldExpression
+  | UnaryExpression
+  | BinaryExpression;
+
+export interface LiteralExpression {
+  type: 'LiteralExpression';
+  value: number | string | boolean | null;
+  location?: SourceLocation;
+}
+
+export interface VariableExpression {
+  type: 'VariableExpression';
+  name: string;
+  location?: SourceLocation;
+}
+
+/**
+ * Field of a record value: order.total
+ */
+export interface FieldExpression {
+  type: 'FieldExpression';
+  object: Expression;
+  field: string;
+  location?: SourceLocation;
+}
+
+export interface UnaryExpression {
+  type: 'UnaryExpression';
+  operator: '!' | '-';
+  operand: Expression;
+  location?: SourceLocation;
+}
+
+export interface BinaryExpression {
+  type: 'BinaryExpression';
+  operator: BinaryOperator;
+  left: Expression;
+  right: Expression;
+  location?: SourceLocation;
+}
+
+export type BinaryOperator =
+  | '||' | '&&'
+  | '==' | '!=' | '<' | '<=' | '>' | '>='
+  | '+' | '-' | '*' | '/' | '%';
+
 // ============================================================================
 // Type Guards
 // ============================================================================
@@ -408,6 +534,8 @@ export function isGlobalInteraction(node: any): node is GlobalInteraction {
     node.type === 'Throw' ||
     node.type === 'TimedMessage' ||
     node.type === 'Timeout' ||
+    node.type === 'CrashHandler' ||
+    node.type === 'Foreach' ||
     node.type === 'DynamicRoleDeclaration' ||
     node.type === 'ProtocolCall' ||
     node.type === 'CreateParticipants' ||
@@ -427,7 +555,8 @@ export function isLocalInteraction(node: any): node is LocalInteraction {
     node.type === 'Do' ||
     node.type === 'Try' ||
     node.type === 'Throw' ||
-    node.type === 'Timeout'
+    node.type === 'Timeout' ||
+    node.type === 'CrashHandler'
   );
 }
 
@@ -456,7 +585,7 @@ export function isDo(node: any): node is Do {
 }
 
 // ============================================================================
-// Exception Handling (Future Feature)
+// Exception Handling
 // Based on docs/theory/exception-handling.md
 // ============================================================================
 
@@ -467,7 +596,7 @@ export function isDo(node: any): node is Do {
  *   try {
  *     Client -> Server: Request();
  *     Server -> Client: Response();
- *   } catch Error {
+ *   } catch Error(String) {
  *     Server -> Client: ErrorMsg();
  *   }
  */
@@ -481,6 +610,7 @@ export interface Try {
 export interface CatchHandler {
   type: 'CatchHandler';
   exceptionLabel: string;  // Exception label to catch
+  payload?: Payload;       // Optional: expected exception payload type
   body: GlobalProtocolBody | LocalProtocolBody;
   location?: SourceLocation;
 }
@@ -489,23 +619,28 @@ export interface CatchHandler {
  * Throw exception
  *
  * Example:
- *   throw Error;
+ *   throw Error(String) from Server;
  */
 export interface Throw {
   type: 'Throw';
   exceptionLabel: string;
+  payload?: Payload;
   from?: string;  // Optional: role throwing (for global protocols)
   location?: SourceLocation;
 }
 
 // ============================================================================
-// Timed Session Types (Future Feature)
+// Timed Session Types
 // Based on docs/theory/timed-session-types.md
 // ============================================================================
 
 /**
  * Timed message with deadline constraint
  *
+ * The deadline is measured on each participant's own clock, i.e. from
+ * that role's previous send/receive: the sender must send, and every
+ * receiver must receive, within the given time.
+ *
  * Example:
  *   Client -> Server: Request() within 5s;
  */
@@ -531,10 +666,17 @@ export interface TimeConstraint {
 /**
  * Timeout handler
  *
+ * Guards the message interaction that follows it in the same block. The
+ * sender of the handler's first message observes the timeout: if the
+ * guarded interaction has not happened within the given time (on that
+ * role's clock), the handler runs instead of it. Both paths continue with
+ * the rest of the block.
+ *
  * Example:
  *   timeout(5s) {
- *     // Handler if message not received within 5s
+ *     Server -> Client: Busy();
  *   }
+ *   Server -> Client: Response();
  */
 export interface Timeout {
   type: 'Timeout';
@@ -544,13 +686,91 @@ export interface Timeout {
 }
 
 // ============================================================================
-// Asynchronous Subtyping (Future Feature)
+// Crash-Stop Failures
+// Based on docs/theory/crash-stop-failures.md
+// ============================================================================
+
+/**
+ * Crash handler
+ *
+ * Guards the rest of the block that follows it against the crash of an
+ * unreliable role. The sender of the handler's first message detects the
+ * crash when it waits for a message from the crashed role: the handler
+ * then runs instead of the rest of the block, and the protocol continues
+ * after the block. The crashed role takes no part in the handler.
+ *
+ * Example:
+ *   on crash(Worker) {
+ *     Master -> Client: Failed();
+ *   }
+ *   Master -> Worker: Task(Int);
+ *   Worker -> Master: Result(Int);
+ *   Master -> Client: Answer(Int);
+ */
+export interface CrashHandler {
+  type: 'CrashHandler';
+  role: string; // Unreliable role whose crash is handled
+  body: GlobalProtocolBody | LocalProtocolBody;
+  location?: SourceLocation;
+}
+
+export function isCrashHandler(node: any): node is CrashHandler {
+  return node?.type === 'CrashHandler';
+}
+
+// ============================================================================
+// Role Families (see core/families)
+// ============================================================================
+
+/**
+ * Index range of a role family or a foreach: 1..N
+ *
+ * Bounds are index expressions (numbers, symbolic bounds such as N, and
+ * loop variables, with + - * / %), fixed when the protocol is instantiated.
+ */
+export interface IndexRange {
+  type: 'IndexRange';
+  lower: Expression;
+  upper: Expression;
+  location?: SourceLocation;
+}
+
+/**
+ * Body repeated for each index of a range, in order
+ *
+ * Members of a family are referred to as `Worker[i]` (a role name string,
+ * with the index expression formatted canonically).
+ *
+ * Example:
+ *   foreach i in 1..N {
+ *     Master -> Worker[i]: Task(Int);
+ *   }
+ */
+export interface Foreach {
+  type: 'Foreach';
+  variable: string;
+  range: IndexRange;
+  body: GlobalProtocolBody;
+  location?: SourceLocation;
+}
+
+export function isForeach(node: any): node is Foreach {
+  return node?.type === 'Foreach';
+}
+
+// ============================================================================
+// Protocol Subtyping
 // Based on docs/theory/asynchronous-subtyping.md
 // ============================================================================
 
 /**
  * Protocol extension for subtyping
  *
+ * The body is the complete definition of the extending protocol; `extends`
+ * names the protocol it is meant to safely replace. Role arguments map the
+ * base protocol's roles (by position) to this protocol's roles and default
+ * to this protocol's roles in declaration order.
+ *
  * Example:
  *   protocol Enhanced(role A, role B) extends Basic(A, B) {
  *     // Additional or refined behavior
@@ -559,6 +779,8 @@ export interface Timeout {
 export interface ProtocolExtension {
   type: 'ProtocolExtension';
   name: string;
+  parameters: ProtocolParameter[];
+  roles: RoleDeclaration[];
   extends: string;  // Base protocol name
   typeArguments?: Type[];
   roleArguments: string[];
@@ -33,6 +33,7 @@ import {
   branchesMatchMerges,
   hasNoOrphanedNodes,
   allEdgesValid,
+  findNextMerge,
   getCFGStats,
 } from './test-utils';
 
@@ -707,6 +708,298 @@ describe('CFG Builder - Edge Cases', () => {
   });
 });
 
+describe('CFG Builder - Exception Handling', () => {
+  const build = (source: string) => buildCFG(parse(source).declarations[0] as any);
+
+  it('should route a throw to its catch handler through an exception edge', () => {
+    const cfg = build(`
+      protocol TryCatch(role Client, role Server, role Logger) {
+        try {
+          Client -> Server: Request();
+          choice at Server {
+            Server -> Client: Response();
+          } or {
+            throw Failure(String) from Server;
+          }
+        } catch Failure(String) {
+          Client -> Logger: Report();
+        }
+        Client -> Server: Done();
+      }
+    `);
+
+    const throwNode = cfg.nodes.find(
+      n => isActionNode(n) && isMessageAction(n.action) && n.action.exception
+    ) as ActionNode;
+    expect(throwNode).toBeDefined();
+
+    const action = throwNode.action as any;
+    expect(action.from).toBe('Server');
+    expect(action.label).toBe('Failure');
+    // Every other participant of the try block is notified
+    expect(action.to).toEqual(['Client', 'Logger']);
+
+    const outgoing = cfg.edges.filter(e => e.from === throwNode.id);
+    expect(outgoing).toHaveLength(1);
+    expect(outgoing[0].edgeType).toBe('exception');
+
+    const handlerEntry = cfg.nodes.find(n => n.id === outgoing[0].to) as ActionNode;
+    expect((handlerEntry.action as any).label).toBe('Report');
+
+    // Handler and normal path both continue after the try block
+    const done = cfg.nodes.find(
+      n => isActionNode(n) && isMessageAction(n.action) && n.action.label === 'Done'
+    )!;
+    expect(canReach(cfg, handlerEntry.id, done.id)).toBe(true);
+    expect(validateCFG(cfg).valid).toBe(true);
+  });
+
+  it('should give the throw notification its payload type', () => {
+    const cfg = build(`
+      protocol Typed(role A, role B) {
+        try {
+          A -> B: Start();
+          throw Failure(List<String>) from A;
+        } catch Failure(List<String>) {
+          B -> A: Ack();
+        }
+      }
+    `);
+
+    const throwNode = cfg.nodes.find(
+      n => isActionNode(n) && isMessageAction(n.action) && n.action.exception
+    ) as ActionNode;
+    expect((throwNode.action as any).payloadType).toBe('List<String>');
+  });
+
+  it('should resolve a throw against the innermost matching handler', () => {
+    const cfg = build(`
+      protocol Nested(role A, role B) {
+        try {
+          try {
+            throw Outer() from A;
+          } catch Inner() {
+            A -> B: InnerHandled();
+          }
+        } catch Outer() {
+          A -> B: OuterHandled();
+        }
+      }
+    `);
+
+    const exceptionEdge = cfg.edges.find(e => e.edgeType === 'exception')!;
+    const target = cfg.nodes.find(n => n.id === exceptionEdge.to) as ActionNode;
+    expect((target.action as any).label).toBe('OuterHandled');
+  });
+
+  it('should reject an uncaught exception', () => {
+    expect(() => build(`
+      protocol Uncaught(role A, role B) {
+        try {
+          throw Failure() from A;
+        } catch Other() {
+          A -> B: M();
+        }
+      }
+    `)).toThrow(/Uncaught exception 'Failure'/);
+  });
+
+  it('should reject a throw without a throwing role', () => {
+    expect(() => build(`
+      protocol NoRole(role A, role B) {
+        try {
+          A -> B: M();
+          throw Failure;
+        } catch Failure {
+          A -> B: N();
+        }
+      }
+    `)).toThrow(/must name the throwing role/);
+  });
+
+  it('should reject interactions after a throw', () => {
+    expect(() => build(`
+      protocol AfterThrow(role A, role B) {
+        try {
+          throw Failure() from A;
+          A -> B: Never();
+        } catch Failure() {
+          A -> B: N();
+        }
+      }
+    `)).toThrow(/Unreachable interaction/);
+  });
+
+  it('should reject a payload that does not match the handler', () => {
+    expect(() => build(`
+      protocol Mismatch(role A, role B) {
+        try {
+          throw Failure(Int) from A;
+        } catch Failure(String) {
+          A -> B: N();
+        }
+      }
+    `)).toThrow(/thrown with payload \(Int\) but caught as \(String\)/);
+  });
+
+  it('should reject an exception escaping a parallel branch', () => {
+    expect(() => build(`
+      protocol ParEscape(role A, role B, role C) {
+        try {
+          par {
+            throw Failure() from A;
+          } and {
+            A -> C: M();
+          }
+        } catch Failure() {
+          A -> B: N();
+        }
+      }
+    `)).toThrow(/cannot propagate out of a par block/);
+  });
+});
+
+describe('CFG Builder - Timed Session Types', () => {
+  const build = (source: string) => buildCFG(parse(source).declarations[0] as any);
+
+  it('should put a deadline for both participants on the edge into a timed message', () => {
+    const cfg = build(`
+      protocol Timed(role Client, role Server) {
+        Client -> Server: Request() within 2s;
+      }
+    `);
+
+    const request = cfg.nodes.find(isActionNode)!;
+    const incoming = cfg.edges.filter(e => e.to === request.id);
+    expect(incoming).toHaveLength(1);
+    expect(incoming[0].clockConstraints).toEqual([
+      { clock: 'Client', operator: '<=', bound: 2000 },
+      { clock: 'Server', operator: '<=', bound: 2000 },
+    ]);
+  });
+
+  it('should build a timeout as a branch at the observer between message and handler', () => {
+    const cfg = build(`
+      protocol Quote(role Client, role Server) {
+        Client -> Server: Request();
+        timeout(5s) {
+          Client -> Server: Cancel();
+        }
+        Server -> Client: Response();
+      }
+    `);
+
+    const branch = cfg.nodes.find(isBranchNode) as BranchNode;
+    expect(branch.at).toBe('Client');
+
+    const edges = cfg.edges.filter(e => e.from === branch.id);
+    const guarded = edges.find(e => e.label === 'Response')!;
+    const timedOut = edges.find(e => e.label === 'timeout')!;
+    expect(guarded.clockConstraints).toEqual([{ clock: 'Client', operator: '<', bound: 5000 }]);
+    expect(timedOut.clockConstraints).toEqual([{ clock: 'Client', operator: '>=', bound: 5000 }]);
+
+    // Both paths continue after the same merge
+    expect(findNextMerge(cfg, guarded.to)).toBe(findNextMerge(cfg, timedOut.to));
+    expect(validateCFG(cfg).valid).toBe(true);
+  });
+
+  it('should reject a timeout that does not guard a message', () => {
+    expect(() => build(`
+      protocol Bad(role A, role B) {
+        timeout(1s) {
+          A -> B: Cancel();
+        }
+      }
+    `)).toThrow(/must be followed by the message interaction it guards/);
+  });
+
+  it('should reject a timeout observed by a role outside the guarded message', () => {
+    expect(() => build(`
+      protocol Bad(role A, role B, role C) {
+        timeout(1s) {
+          C -> A: Cancel();
+        }
+        A -> B: M();
+      }
+    `)).toThrow(/observed by C, which does not take part/);
+  });
+});
+
+describe('CFG Builder - Crash-Stop Failures', () => {
+  const build = (source: string) => buildCFG(parse(source).declarations[0] as any);
+
+  it('should branch at the detector between each guarded message and the handler', () => {
+    const cfg = build(`
+      protocol Offload(role Master, role Worker unreliable, role Client) {
+        on crash(Worker) {
+          Master -> Client: Failed();
+        }
+        Master -> Worker: Task(Int);
+        Worker -> Master: Result(Int);
+        Master -> Client: Answer(Int);
+      }
+    `);
+
+    expect(cfg.unreliableRoles).toEqual(['Worker']);
+
+    // Only messages from the crashed role to the detector are guarded
+    const branches = cfg.nodes.filter(isBranchNode) as BranchNode[];
+    expect(branches).toHaveLength(1);
+    expect(branches[0].at).toBe('Master');
+
+    const edges = cfg.edges.filter(e => e.from === branches[0].id);
+    expect(edges.map(e => [e.edgeType, e.label])).toEqual([
+      ['branch', 'Result'],
+      ['crash', 'crash(Worker)'],
+    ]);
+
+    const detection = cfg.nodes.find(n => n.id === edges[1].to) as ActionNode;
+    expect(detection.action).toMatchObject({ kind: 'crash-detection', detector: 'Master', crashed: 'Worker' });
+    expect(validateCFG(cfg).valid).toBe(true);
+  });
+
+  it('should leave protocols without unreliable roles unmarked', () => {
+    const cfg = build(`
+      protocol Plain(role A, role B) {
+        A -> B: M();
+      }
+    `);
+
+    expect(cfg.unreliableRoles).toBeUndefined();
+  });
+
+  it('should reject a handler for a role not declared unreliable', () => {
+    expect(() => build(`
+      protocol Bad(role A, role B) {
+        on crash(B) {
+          A -> A: Retry();
+        }
+        B -> A: M();
+      }
+    `)).toThrow(/declare it as 'role B unreliable'/);
+  });
+
+  it('should reject a handler that involves the crashed role or guards nothing', () => {
+    expect(() => build(`
+      protocol Bad(role A, role B unreliable) {
+        on crash(B) {
+          A -> B: Abort();
+        }
+        B -> A: M();
+      }
+    `)).toThrow(/cannot involve the crashed role B/);
+
+    expect(() => build(`
+      protocol Bad(role A, role B unreliable, role C) {
+        B -> A: M();
+        on crash(B) {
+          A -> C: Failed();
+        }
+      }
+    `)).toThrow(/must be followed by the interactions it guards/);
+  });
+});
+
 // ============================================================================
 // Level 5: Statistics and Debugging
 // ============================================================================
@@ -13,6 +13,14 @@ import type {
   Recursion,
   Continue,
   Do,
+  Try,
+  Throw,
+  TimedMessage,
+  Timeout,
+  TimeConstraint,
+  CrashHandler,
+  Payload,
+  Type,
   // DMst (Castro-Perez & Yoshida, ECOOP 2023)
   DynamicRoleDeclaration,
   ProtocolCall,
@@ -34,6 +42,8 @@ import type {
   RecursiveNode,
   MessageAction,
   SubProtocolAction,
+  CrashDetectionAction,
+  ClockConstraint,
   // DMst action types
   DynamicRoleDeclarationAction,
   ProtocolCallAction,
@@ -42,6 +52,7 @@ import type {
   UpdatableRecursionAction,
   Action,
 } from './types';
+import { formatType } from '../type-checker/type-checker';
 
 // ============================================================================
 // ID Generation
@@ -78,14 +89,49 @@ interface BuilderContext {
   edges: Edge[];
   roles: string[];
   recursionLabels: Map<string, string>; // label name -> recursive node id
+  exceptionScopes: ExceptionScope[]; // enclosing try blocks, innermost last
+  deadlines: Map<string, ClockConstraint[]>; // timed message node -> constraints of its incoming edges
+  unreliableRoles: Set<string>; // roles that may crash
+  crashScopes: CrashScope[]; // enclosing crash handlers, innermost last
 }
 
-function createContext(roles: string[]): BuilderContext {
+/**
+ * Exception scope of an enclosing try block (or a par barrier)
+ *
+ * Throws resolve against the innermost scope that catches their label.
+ * Parallel branches push a barrier: an exception cannot abort a sibling
+ * branch, so it must be caught inside the branch that raised it.
+ */
+interface ExceptionScope {
+  handlers: Map<string, { entry: string; payload?: Payload }>; // label -> handler
+  participants: Set<string>; // roles of the try body and its handlers
+  barrier?: boolean; // true for par branches
+}
+
+/**
+ * Crash scope of an `on crash(R)` handler: the rest of its block
+ *
+ * Messages from R to the detector inside the scope are crash detection
+ * points. Like exceptions, a crash cannot abort a sibling parallel branch:
+ * par branches are built without the enclosing crash scopes.
+ */
+interface CrashScope {
+  handler: CrashHandler;
+  detector: string; // sender of the handler's first message
+  exit: string; // node after the guarded block
+  outer: CrashScope[]; // scopes the handler itself is built under
+}
+
+function createContext(roles: string[], unreliableRoles: string[] = []): BuilderContext {
   return {
     nodes: [],
     edges: [],
     roles,
     recursionLabels: new Map(),
+    exceptionScopes: [],
+    deadlines: new Map(),
+    unreliableRoles: new Set(unreliableRoles),
+    crashScopes: [],
   };
 }
 
@@ -108,6 +154,11 @@ function addEdge(
     edgeType,
     label,
   };
+  // Every way into a timed message carries its deadline
+  const deadline = ctx.deadlines.get(to);
+  if (deadline) {
+    edge.clockConstraints = [...deadline];
+  }
   ctx.edges.push(edge);
   return edge;
 }
@@ -192,8 +243,17 @@ export function buildCFG(protocol: GlobalProtocolDeclaration): CFG {
   // Don't reset counters - maintain global uniqueness across protocol builds
   // resetCounters();
 
+  const family = protocol.roles.find(r => r.range);
+  if (family) {
+    throw new Error(
+      `Role family ${family.name} of ${protocol.name} has no concrete size: ` +
+      `instantiate the protocol with its bounds first (instantiateFamilies)`
+    );
+  }
+
   const roles = protocol.roles.map(r => r.name);
-  const ctx = createContext(roles);
+  const unreliableRoles = protocol.roles.filter(r => r.unreliable).map(r => r.name);
+  const ctx = createContext(roles, unreliableRoles);
 
   // Create initial and terminal nodes
   const initial = addNode(ctx, createInitialNode());
@@ -220,6 +280,7 @@ export function buildCFG(protocol: GlobalProtocolDeclaration): CFG {
     // ENRICHED: Protocol metadata for code generation
     protocolName: protocol.name,
     parameters: protocol.parameters,
+    ...(unreliableRoles.length > 0 && { unreliableRoles }),
   };
 }
 
@@ -302,10 +363,11 @@ function fixBackEdgeTypes(ctx: BuilderContext): void {
     );
 
     // Mark edges from body nodes back to THIS SPECIFIC rec node as 'continue'
-    // Note: These edges can be either 'sequence' (direct continue) or 'branch' (continue inside choice)
+    // Note: These edges can be either 'sequence' (direct continue), 'branch' (continue inside choice)
+    // or 'exception' (throw whose handler immediately continues)
     for (const edge of ctx.edges) {
       if (edge.to === recNode.id &&
-          (edge.edgeType === 'sequence' || edge.edgeType === 'branch') &&
+          (edge.edgeType === 'sequence' || edge.edgeType === 'branch' || edge.edgeType === 'exception') &&
           bodyNodes.has(edge.from)) {
         edge.edgeType = 'continue';
       }
@@ -422,12 +484,40 @@ function buildProtocolBody(
     return exitNodeId;
   }
 
+  // A throw aborts the enclosing block, so it must be the block's last interaction
+  const throwIndex = body.findIndex(interaction => interaction.type === 'Throw');
+  if (throwIndex !== -1 && throwIndex < body.length - 1) {
+    const thrown = body[throwIndex] as Throw;
+    throw new Error(
+      `Unreachable interaction after 'throw ${thrown.exceptionLabel}': ` +
+      `a throw must be the last interaction of its block`
+    );
+  }
+
+  // A crash handler guards the rest of its block: its scope is open while
+  // the interactions after it are built, and closed when it is reached
+  openCrashScopes(ctx, body, exitNodeId);
+
   // Build interactions from right to left (reverse order)
   // This ensures proper sequencing
   let currentExit = exitNodeId;
 
   for (let i = body.length - 1; i >= 0; i--) {
     const interaction = body[i];
+
+    if (interaction.type === 'CrashHandler') {
+      ctx.crashScopes = ctx.crashScopes.slice(0, -1);
+      continue;
+    }
+
+    // A timeout handler guards the interaction that follows it
+    const previous = body[i - 1];
+    if (previous?.type === 'Timeout') {
+      currentExit = buildTimeout(ctx, previous, interaction, currentExit);
+      i--;
+      continue;
+    }
+
     const entry = buildInteraction(ctx, interaction, currentExit);
     currentExit = entry;
   }
@@ -446,7 +536,7 @@ function buildInteraction(
 ): string {
   switch (interaction.type) {
     case 'MessageTransfer':
-      return buildMessageTransfer(ctx, interaction, exitNodeId);
+      return guardCrash(ctx, interaction, buildMessageTransfer(ctx, interaction, exitNodeId));
 
     case 'Choice':
       return buildChoice(ctx, interaction, exitNodeId);
@@ -463,6 +553,25 @@ function buildInteraction(
     case 'Do':
       return buildDo(ctx, interaction, exitNodeId);
 
+    case 'Try':
+      return buildTry(ctx, interaction, exitNodeId);
+
+    case 'Throw':
+      return buildThrow(ctx, interaction, exitNodeId);
+
+    case 'TimedMessage':
+      return guardCrash(ctx, interaction, buildTimedMessage(ctx, interaction, exitNodeId));
+
+    case 'Timeout':
+      // Guarded timeouts are built by buildProtocolBody
+      throw new Error(
+        `timeout(${formatTimeConstraint(interaction.constraint)}) must be followed by the message interaction it guards`
+      );
+
+    case 'CrashHandler':
+      // Crash scopes are opened and closed by buildProtocolBody
+      throw new Error(`on crash(${interaction.role}) must be part of a protocol block`);
+
     // DMst (Castro-Perez & Yoshida, ECOOP 2023)
     case 'DynamicRoleDeclaration':
       return buildDynamicRoleDeclaration(ctx, interaction, exitNodeId);
@@ -479,6 +588,11 @@ function buildInteraction(
     case 'UpdatableRecursion':
       return buildUpdatableRecursion(ctx, interaction, exitNodeId);
 
+    case 'Foreach':
+      throw new Error(
+        `foreach ${interaction.variable} must be unrolled: instantiate the protocol with its bounds first (instantiateFamilies)`
+      );
+
     default:
       throw new Error(`Unknown interaction type: ${(interaction as any).type}`);
   }
@@ -576,6 +690,10 @@ function buildParallel(
   const forkNode = addNode(ctx, createForkNode(parallelId));
 
   // Build each parallel branch
+  // Exceptions and crashes may not escape a branch (see ExceptionScope, CrashScope)
+  ctx.exceptionScopes.push({ handlers: new Map(), participants: new Set(), barrier: true });
+  const crashScopes = ctx.crashScopes;
+  ctx.crashScopes = [];
   for (let i = 0; i < parallel.branches.length; i++) {
     const branch = parallel.branches[i];
     const branchEntry = buildProtocolBody(ctx, branch.body, joinNode.id);
@@ -583,6 +701,8 @@ function buildParallel(
     // Connect fork node to this branch's entry
     addEdge(ctx, forkNode.id, branchEntry, 'fork', `branch${i + 1}`);
   }
+  ctx.crashScopes = crashScopes;
+  ctx.exceptionScopes.pop();
 
   return forkNode.id;
 }
@@ -674,6 +794,403 @@ function buildDo(
   return actionNode.id;
 }
 
+// ============================================================================
+// Exception Handling (docs/theory/exception-handling.md)
+// ============================================================================
+
+/**
+ * Try-catch block
+ *
+ * Projection distributes over try (docs/FUTURE_FEATURES.md):
+ *   (try { G } catch l { H }) ↓ p = try { G↓p } catch l { H↓p }
+ *
+ * The body and every handler exit to the same node. Handlers have no
+ * sequence predecessor: they are entered only through 'exception' edges
+ * from throw nodes in the body. Handlers are built first, under the outer
+ * scopes, so that a throw inside a handler propagates outwards.
+ */
+function buildTry(
+  ctx: BuilderContext,
+  tryBlock: Try,
+  exitNodeId: string
+): string {
+  const scope: ExceptionScope = {
+    handlers: new Map(),
+    participants: collectRoles(tryBlock.body as GlobalProtocolBody),
+  };
+
+  for (const handler of tryBlock.catchHandlers) {
+    if (scope.handlers.has(handler.exceptionLabel)) {
+      throw new Error(
+        `Duplicate catch handler for exception '${handler.exceptionLabel}'`
+      );
+    }
+    const handlerBody = handler.body as GlobalProtocolBody;
+    collectRoles(handlerBody).forEach(r => scope.participants.add(r));
+    scope.handlers.set(handler.exceptionLabel, {
+      entry: buildProtocolBody(ctx, handlerBody, exitNodeId),
+      payload: handler.payload,
+    });
+  }
+
+  ctx.exceptionScopes.push(scope);
+  const bodyEntry = buildProtocolBody(ctx, tryBlock.body as GlobalProtocolBody, exitNodeId);
+  ctx.exceptionScopes.pop();
+
+  return bodyEntry;
+}
+
+/**
+ * Throw statement
+ *
+ * Creates a message action flagged as an exception, sent by the thrower to
+ * every other participant of the innermost try block catching the label,
+ * followed by an 'exception' edge to that handler. Interactions after the
+ * throw are rejected by buildProtocolBody, so the exit node is not used.
+ */
+function buildThrow(
+  ctx: BuilderContext,
+  thrown: Throw,
+  _exitNodeId: string
+): string {
+  const label = thrown.exceptionLabel;
+
+  if (!thrown.from) {
+    throw new Error(`Throw of '${label}' must name the throwing role: throw ${label}() from <Role>;`);
+  }
+  if (!ctx.roles.includes(thrown.from)) {
+    throw new Error(
+      `Throw of '${label}' from undeclared role '${thrown.from}'. ` +
+      `Available roles: [${ctx.roles.join(', ')}]`
+    );
+  }
+
+  // Resolve the innermost handler for this label
+  let scope: ExceptionScope | undefined;
+  let crossesBarrier = false;
+  for (let i = ctx.exceptionScopes.length - 1; i >= 0; i--) {
+    const candidate = ctx.exceptionScopes[i];
+    if (candidate.barrier) {
+      crossesBarrier = true;
+      continue;
+    }
+    if (candidate.handlers.has(label)) {
+      scope = candidate;
+      break;
+    }
+  }
+
+  if (!scope) {
+    throw new Error(`Uncaught exception '${label}': no enclosing try block has a 'catch ${label}' handler`);
+  }
+  if (crossesBarrier) {
+    throw new Error(
+      `Exception '${label}' cannot propagate out of a par block: ` +
+      `catch it inside the parallel branch that throws it`
+    );
+  }
+
+  const handler = scope.handlers.get(label)!;
+  if (handler.payload && !sameType(handler.payload.payloadType, thrown.payload?.payloadType)) {
+    throw new Error(
+      `Exception '${label}' thrown with payload (${formatOptionalType(thrown.payload?.payloadType)}) ` +
+      `but caught as (${formatType(handler.payload.payloadType)})`
+    );
+  }
+
+  const receivers = [...scope.participants].filter(r => r !== thrown.from);
+  if (receivers.length === 0) {
+    throw new Error(`Throw of '${label}' has no other participant of the try block to notify`);
+  }
+
+  const action: MessageAction = {
+    kind: 'message',
+    from: thrown.from,
+    to: receivers.length === 1 ? receivers[0] : receivers,
+    message: {
+      type: 'Message',
+      label,
+      payload: thrown.payload,
+      location: thrown.location,
+    },
+    label,
+    payloadType: thrown.payload ? formatType(thrown.payload.payloadType) : undefined,
+    location: thrown.location,
+    exception: true,
+  };
+
+  const actionNode = addNode(ctx, createActionNode(action));
+  addEdge(ctx, actionNode.id, handler.entry, 'exception', label);
+
+  return actionNode.id;
+}
+
+/**
+ * Collect the roles mentioned by a protocol body (try participants)
+ */
+export function collectRoles(body: GlobalProtocolBody, roles: Set<string> = new Set()): Set<string> {
+  for (const interaction of body) {
+    switch (interaction.type) {
+      case 'MessageTransfer':
+      case 'TimedMessage':
+        roles.add(interaction.from);
+        (typeof interaction.to === 'string' ? [interaction.to] : interaction.to)
+          .forEach(r => roles.add(r));
+        break;
+      case 'Choice':
+        roles.add(interaction.at);
+        interaction.branches.forEach(b => collectRoles(b.body, roles));
+        break;
+      case 'Parallel':
+        interaction.branches.forEach(b => collectRoles(b.body, roles));
+        break;
+      case 'Recursion':
+        collectRoles(interaction.body as GlobalProtocolBody, roles);
+        break;
+      case 'Do':
+        interaction.roleArguments.forEach(r => roles.add(r));
+        break;
+      case 'Try':
+        collectRoles(interaction.body as GlobalProtocolBody, roles);
+        interaction.catchHandlers.forEach(h => collectRoles(h.body as GlobalProtocolBody, roles));
+        break;
+      case 'Throw':
+        if (interaction.from) roles.add(interaction.from);
+        break;
+      case 'Timeout':
+      case 'CrashHandler':
+        collectRoles(interaction.body as GlobalProtocolBody, roles);
+        break;
+    }
+  }
+  return roles;
+}
+
+function formatOptionalType(type?: Type): string {
+  return type ? formatType(type) : '';
+}
+
+function sameType(a?: Type, b?: Type): boolean {
+  return formatOptionalType(a) === formatOptionalType(b);
+}
+
+// ============================================================================
+// Timed Session Types (docs/theory/timed-session-types.md)
+// ============================================================================
+
+/**
+ * Timed message: p→q:m within d
+ *
+ * Built as a plain message; the deadline p ≤ d, q ≤ d is attached to every
+ * edge entering the action node (see addEdge).
+ */
+function buildTimedMessage(
+  ctx: BuilderContext,
+  timed: TimedMessage,
+  exitNodeId: string
+): string {
+  const entry = buildMessageTransfer(
+    ctx,
+    {
+      type: 'MessageTransfer',
+      from: timed.from,
+      to: timed.to,
+      message: timed.message,
+      location: timed.location,
+    },
+    exitNodeId
+  );
+
+  const bound = toMilliseconds(timed.deadline);
+  const recipients = typeof timed.to === 'string' ? [timed.to] : timed.to;
+  ctx.deadlines.set(
+    entry,
+    [timed.from, ...recipients].map(clock => ({ clock, operator: '<=' as const, bound }))
+  );
+
+  return entry;
+}
+
+/**
+ * Timeout handler: timeout(d) { H } G
+ *
+ * A timed choice at the role r that sends the first message of H, which
+ * must take part in the guarded message G:
+ *
+ *   branch(r) --[r < d]--> G --> merge
+ *             --[r ≥ d]--> H --> merge
+ *
+ * The handler edge is labelled 'timeout'.
+ */
+function buildTimeout(
+  ctx: BuilderContext,
+  timeout: Timeout,
+  guarded: GlobalInteraction,
+  exitNodeId: string
+): string {
+  const constraint = formatTimeConstraint(timeout.constraint);
+
+  if (guarded.type !== 'MessageTransfer' && guarded.type !== 'TimedMessage') {
+    throw new Error(`timeout(${constraint}) must guard a message interaction, found ${guarded.type}`);
+  }
+
+  const handler = timeout.body as GlobalProtocolBody;
+  const first = handler[0];
+  if (!first || (first.type !== 'MessageTransfer' && first.type !== 'TimedMessage')) {
+    throw new Error(`timeout(${constraint}) handler must start with a message`);
+  }
+
+  // The sender of the handler's first message observes the timeout
+  const observer = first.from;
+  const participants = [guarded.from, ...(typeof guarded.to === 'string' ? [guarded.to] : guarded.to)];
+  if (!participants.includes(observer)) {
+    throw new Error(
+      `timeout(${constraint}) is observed by ${observer}, which does not take part in ` +
+      `'${guarded.message.label}' from ${guarded.from}`
+    );
+  }
+
+  const bound = toMilliseconds(timeout.constraint);
+
+  const mergeNode = addNode(ctx, createMergeNode());
+  addEdge(ctx, mergeNode.id, exitNodeId, 'sequence');
+
+  const branchNode = addNode(ctx, createBranchNode(observer));
+
+  const guardedEntry = buildInteraction(ctx, guarded, mergeNode.id);
+  const guardedEdge = addEdge(ctx, branchNode.id, guardedEntry, 'branch', guarded.message.label);
+  guardedEdge.clockConstraints = [
+    { clock: observer, operator: '<', bound },
+    ...(guardedEdge.clockConstraints ?? []),
+  ];
+
+  const handlerEntry = buildProtocolBody(ctx, handler, mergeNode.id);
+  const handlerEdge = addEdge(ctx, branchNode.id, handlerEntry, 'branch', 'timeout');
+  handlerEdge.clockConstraints = [
+    { clock: observer, operator: '>=', bound },
+    ...(handlerEdge.clockConstraints ?? []),
+  ];
+
+  return branchNode.id;
+}
+
+function toMilliseconds(constraint: TimeConstraint): number {
+  switch (constraint.unit) {
+    case 'ms':
+      return constraint.value;
+    case 's':
+      return constraint.value * 1000;
+    case 'min':
+      return constraint.value * 60_000;
+  }
+}
+
+function formatTimeConstraint(constraint: TimeConstraint): string {
+  return `${constraint.value}${constraint.unit}`;
+}
+
+// ============================================================================
+// Crash-Stop Failures (docs/theory/crash-stop-failures.md)
+// ============================================================================
+
+/**
+ * Open the crash scopes of the handlers of a block, in order (so that the
+ * scope of a later handler, which guards less, is innermost)
+ *
+ * The detector of `on crash(R) { H }` is the sender of H's first message.
+ * H runs instead of the rest of the block, without R, so it must neither
+ * involve R nor start with a message from R.
+ */
+function openCrashScopes(ctx: BuilderContext, body: GlobalProtocolBody, exitNodeId: string): void {
+  const outer = ctx.crashScopes;
+  const handled = new Set<string>();
+
+  body.forEach((interaction, i) => {
+    if (interaction.type !== 'CrashHandler') return;
+    const crashed = interaction.role;
+
+    if (!ctx.roles.includes(crashed)) {
+      throw new Error(
+        `on crash(${crashed}) handles the crash of undeclared role '${crashed}'. ` +
+        `Available roles: [${ctx.roles.join(', ')}]`
+      );
+    }
+    if (!ctx.unreliableRoles.has(crashed)) {
+      throw new Error(
+        `on crash(${crashed}) handles the crash of a reliable role: declare it as 'role ${crashed} unreliable'`
+      );
+    }
+    if (handled.has(crashed)) {
+      throw new Error(`Duplicate crash handler for ${crashed} in the same block`);
+    }
+    handled.add(crashed);
+    if (i === body.length - 1) {
+      throw new Error(`on crash(${crashed}) must be followed by the interactions it guards`);
+    }
+
+    const handler = interaction.body as GlobalProtocolBody;
+    const first = handler[0];
+    if (!first || (first.type !== 'MessageTransfer' && first.type !== 'TimedMessage')) {
+      throw new Error(`on crash(${crashed}) handler must start with a message`);
+    }
+    if (collectRoles(handler).has(crashed)) {
+      throw new Error(`on crash(${crashed}) handler cannot involve the crashed role ${crashed}`);
+    }
+
+    ctx.crashScopes = [
+      ...ctx.crashScopes,
+      { handler: interaction, detector: first.from, exit: exitNodeId, outer },
+    ];
+  });
+}
+
+/**
+ * Crash detection point: p→q:m where p is unreliable and q detects the
+ * crash of p for the innermost crash scope of p
+ *
+ *   branch(q) --[m]--------> p→q:m
+ *             --[crash]----> crash-detection(q, p) --> H --> exit
+ *
+ * Waiting for m, q either receives it or finds out that p has crashed, and
+ * runs a fresh copy of the handler H, which leaves the guarded block.
+ */
+function guardCrash(
+  ctx: BuilderContext,
+  msg: MessageTransfer | TimedMessage,
+  entry: string
+): string {
+  let scope: CrashScope | undefined;
+  for (let i = ctx.crashScopes.length - 1; i >= 0 && !scope; i--) {
+    if (ctx.crashScopes[i].handler.role === msg.from) scope = ctx.crashScopes[i];
+  }
+
+  const recipients = typeof msg.to === 'string' ? [msg.to] : msg.to;
+  if (!scope || !recipients.includes(scope.detector)) {
+    return entry;
+  }
+
+  const branchNode = addNode(ctx, createBranchNode(scope.detector));
+  addEdge(ctx, branchNode.id, entry, 'branch', msg.message.label);
+
+  const action: CrashDetectionAction = {
+    kind: 'crash-detection',
+    detector: scope.detector,
+    crashed: msg.from,
+    location: scope.handler.location,
+  };
+  const detectionNode = addNode(ctx, createActionNode(action));
+  addEdge(ctx, branchNode.id, detectionNode.id, 'crash', `crash(${msg.from})`);
+
+  // The handler is outside the guarded block: build it under the outer scopes
+  const inner = ctx.crashScopes;
+  ctx.crashScopes = scope.outer;
+  const handlerEntry = buildProtocolBody(ctx, scope.handler.body as GlobalProtocolBody, scope.exit);
+  ctx.crashScopes = inner;
+  addEdge(ctx, detectionNode.id, handlerEntry, 'sequence');
+
+  return branchNode.id;
+}
+
 // ============================================================================
 // DMst Transformation Rules (Castro-Perez & Yoshida, ECOOP 2023)
 // ============================================================================
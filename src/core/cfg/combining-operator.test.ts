@@ -0,0 +1,168 @@
+/**
+ * Combining Operator Tests
+ *
+ * Tests G ♢ G' for channel- and sender-disjoint protocols:
+ * - The combined CFG is a parallel block, linear in the size of G and G'
+ * - Its projections are the per-role interleavings of the original ones
+ * - The combined protocol verifies as one protocol
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parse } from '../parser/parser';
+import { buildCFG } from './builder';
+import { validateCFG } from './test-utils';
+import type { CFG } from './types';
+import {
+  checkChannelDisjointness,
+  checkCombinedProjections,
+  combineProtocols,
+  interleavingCompose,
+  sequentialCompose,
+} from './combining-operator';
+import { project } from '../projection/projector';
+import { extractTraces } from '../projection/lts-analysis';
+import { verifyProtocol } from '../verification/verifier';
+
+function cfgOf(source: string): CFG {
+  return buildCFG(parse(source).declarations[0] as any);
+}
+
+const ORDER = cfgOf(`protocol Order(role Buyer, role Seller) {
+  Buyer -> Seller: Order(Int);
+  choice at Seller {
+    Seller -> Buyer: Confirm();
+  } or {
+    Seller -> Buyer: Reject();
+  }
+}`);
+
+const SHIPPING = cfgOf(`protocol Shipping(role Seller, role Courier) {
+  rec Track {
+    choice at Courier {
+      Courier -> Seller: Position(Int);
+      continue Track;
+    } or {
+      Courier -> Seller: Delivered();
+    }
+  }
+}`);
+
+function traceLabels(cfg: CFG, role: string): Set<string> {
+  return new Set(
+    extractTraces(project(cfg, role), 12)
+      .map(trace => trace.map(action => ('label' in action ? action.label : action.type)).join(' '))
+  );
+}
+
+describe('Combining Operator - Interleaving', () => {
+  it('should combine disjoint protocols as a parallel block', () => {
+    const result = combineProtocols(ORDER, SHIPPING);
+
+    expect(result.success).toBe(true);
+    const combined = result.combined!;
+    expect(validateCFG(combined).valid).toBe(true);
+    expect(combined.roles).toEqual(['Buyer', 'Seller', 'Courier']);
+    expect(combined.protocolName).toBe('Order_combine_Shipping');
+
+    // Initial and terminal nodes of G and G' are replaced by 4 new nodes
+    expect(combined.nodes.length).toBe(ORDER.nodes.length + SHIPPING.nodes.length);
+    expect(combined.nodes.filter(n => n.type === 'fork').map(n => n.id)).toContain('combine_fork');
+    expect(new Set(combined.nodes.map(n => n.id)).size).toBe(combined.nodes.length);
+  });
+
+  it('should let a role in both protocols take either next step', () => {
+    const combined = combineProtocols(ORDER, SHIPPING).combined!;
+
+    const traces = traceLabels(combined, 'Seller');
+    // Not only the sequential composition G; G'
+    expect(traces).toContain('Order Delivered Confirm');
+    expect(traces).toContain('Delivered Order Reject');
+    expect(traces).toContain('Position Order Position Confirm Delivered');
+
+    const sequential = traceLabels(sequentialCompose(ORDER, SHIPPING), 'Seller');
+    expect(sequential).not.toContain('Delivered Order Reject');
+  });
+
+  it('should project to the interleaving of the original projections', () => {
+    const combined = combineProtocols(ORDER, SHIPPING).combined!;
+    const result = checkCombinedProjections(ORDER, SHIPPING, combined);
+
+    expect(result.consistent).toBe(true);
+    expect(result.roles.map(r => r.role)).toEqual(['Buyer', 'Seller', 'Courier']);
+  });
+
+  it('should report a role whose projection differs from the interleaving', () => {
+    const sequential = sequentialCompose(ORDER, SHIPPING);
+    const result = checkCombinedProjections(ORDER, SHIPPING, sequential);
+
+    expect(result.consistent).toBe(false);
+    const seller = result.roles.find(r => r.role === 'Seller')!;
+    expect(seller.equivalent).toBe(false);
+    expect(seller.counterexample).toBeDefined();
+    // Buyer and Courier each take part in one protocol only
+    expect(result.roles.filter(r => r.equivalent).map(r => r.role)).toEqual(['Buyer', 'Courier']);
+  });
+
+  it('should keep parallel blocks of both protocols apart', () => {
+    const fanOut = `protocol FanOut(role A, role B, role C) {
+  par { A -> B: X(); } and { A -> C: Y(); }
+}`;
+    const fanIn = `protocol FanIn(role A, role D, role E) {
+  par { D -> A: Z(); } and { E -> A: W(); }
+}`;
+    const g1 = cfgOf(fanOut);
+    const g2 = cfgOf(fanIn);
+    const combined = combineProtocols(g1, g2).combined!;
+
+    const parallelIds = combined.nodes.flatMap(n => n.type === 'fork' ? [n.parallel_id] : []);
+    expect(new Set(parallelIds).size).toBe(3);
+    expect(checkCombinedProjections(g1, g2, combined).consistent).toBe(true);
+  });
+
+  it('should verify the combined protocol as one protocol', () => {
+    const combined = combineProtocols(ORDER, SHIPPING).combined!;
+    const verification = verifyProtocol(combined);
+
+    expect(verification.structural.valid).toBe(true);
+    expect(verification.deadlock.hasDeadlock).toBe(false);
+    expect(verification.parallelDeadlock.hasDeadlock).toBe(false);
+    expect(verification.raceConditions.hasRaces).toBe(false);
+    expect(verification.recursionInParallel.isValid).toBe(true);
+    expect(verification.progress.canProgress).toBe(true);
+  });
+
+  it('should refuse protocols in which a role sends in both', () => {
+    const poll = cfgOf(`protocol Poll(role A, role B) {
+  rec Loop {
+    choice at A {
+      A -> B: More();
+      continue Loop;
+    } or {
+      A -> B: Done();
+    }
+  }
+}`);
+    const greet = cfgOf(`protocol Greet(role A, role C) {
+  A -> C: Hi();
+  C -> A: Ho();
+}`);
+
+    // Disjoint channels, but A would send in both parallel branches
+    expect(checkChannelDisjointness(poll, greet).isDisjoint).toBe(true);
+    expect(verifyProtocol(interleavingCompose(poll, greet)).parallelDeadlock.hasDeadlock).toBe(true);
+
+    const result = combineProtocols(poll, greet);
+    expect(result.success).toBe(false);
+    expect(result.combined).toBeUndefined();
+    expect(result.sharedSenders).toEqual(['A']);
+    expect(result.error).toContain('A sends in both protocols');
+  });
+
+  it('should refuse protocols that share a channel', () => {
+    const result = combineProtocols(ORDER, ORDER);
+
+    expect(result.success).toBe(false);
+    expect(result.combined).toBeUndefined();
+    expect(result.channelCheck.conflicts.length).toBeGreaterThan(0);
+  });
+});
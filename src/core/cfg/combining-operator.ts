@@ -25,6 +25,25 @@
  *
  *   Where channels(G) = { (p, q, l) | p→q: l in G }
  *
+ * SENDER DISJOINTNESS CHECK:
+ *   The combination is verified as one protocol, whose parallel branches
+ *   may not both have a role send (verifyProtocol reports a parallel
+ *   deadlock). So no role may send in both G and G':
+ *
+ *   senders(G) ∩ senders(G') = ∅
+ *
+ *   A role may still receive in both, or send in one and receive in the
+ *   other.
+ *
+ * REPRESENTATION:
+ *   The product is not built state by state: G ♢ G' is the CFG of
+ *   `par { G } and { G' }`, whose fork/join nodes have exactly these
+ *   semantics, so the combined CFG has |G| + |G'| + 4 nodes. The pairs of
+ *   states only appear in the projection of a role that takes part in both
+ *   protocols, which is the interleaving of its two projections:
+ *
+ *   (G ♢ G') ↾ r = (G ↾ r) ⧢ (G' ↾ r)
+ *
  * USAGE:
  *   // Combine two protocols
  *   const combined = combineProtocols(cfg1, cfg2);
@@ -32,13 +51,21 @@
  *   // Check if combination is safe (disjoint channels)
  *   const safetyResult = checkChannelDisjointness(cfg1, cfg2);
  *
+ *   // Check the projections of the combination against the originals
+ *   const projections = checkCombinedProjections(cfg1, cfg2, combined.combined!);
+ *
  * REFERENCE:
  *   Castro-Perez, D., & Yoshida, N. (2023). "Dynamically Updatable
  *   Multiparty Session Protocols." ECOOP 2023, §3.1.
  */
 
-import type { CFG, CFGNode, CFGEdge, ActionNode } from './types';
+import type { CFG, Node, Edge, ActionNode } from './types';
 import type { MessageAction } from './types';
+import { project } from '../projection/projector';
+import { interleave } from '../projection/interleaving';
+import type { CFSM } from '../projection/types';
+import { checkSubtype } from '../subtyping/subtype-checker';
+import type { SubtypeCounterexample } from '../subtyping/types';
 
 // ============================================================================
 // Channel Representation
@@ -78,9 +105,30 @@ export interface CombineResult {
   success: boolean;
   combined?: CFG;
   channelCheck: ChannelDisjointnessResult;
+  /** Roles that send in both protocols (the combination is refused) */
+  sharedSenders?: string[];
   error?: string;
 }
 
+/**
+ * Result of checking the projections of a combined protocol.
+ */
+export interface CombinedProjectionResult {
+  /** Every role's projection is the interleaving of its original projections */
+  consistent: boolean;
+  roles: RoleProjectionCheck[];
+}
+
+/**
+ * Projection check of one role: (G ♢ G') ↾ r against (G ↾ r) ⧢ (G' ↾ r).
+ */
+export interface RoleProjectionCheck {
+  role: string;
+  equivalent: boolean;
+  /** Trace after which the two CFSMs differ */
+  counterexample?: SubtypeCounterexample;
+}
+
 // ============================================================================
 // Channel Extraction
 // ============================================================================
@@ -181,10 +229,23 @@ export function checkChannelDisjointness(
   };
 }
 
+/**
+ * Roles that send in a CFG.
+ */
+function sendersOf(cfg: CFG): Set<string> {
+  const senders = new Set<string>();
+  for (const node of cfg.nodes) {
+    if (node.type === 'action' && (node as ActionNode).action.kind === 'message') {
+      senders.add(((node as ActionNode).action as MessageAction).from);
+    }
+  }
+  return senders;
+}
+
 /**
  * Find the first node using a specific channel.
  */
-function findChannelNode(cfg: CFG, channelId: string): CFGNode | undefined {
+function findChannelNode(cfg: CFG, channelId: string): Node | undefined {
   for (const node of cfg.nodes) {
     if (node.type === 'action') {
       const actionNode = node as ActionNode;
@@ -214,21 +275,13 @@ function findChannelNode(cfg: CFG, channelId: string): CFGNode | undefined {
  * Combine two CFGs using the combining operator ♢.
  *
  * ALGORITHM:
- *   1. Check channel disjointness (safety requirement)
+ *   1. Check channel and sender disjointness (safety requirement)
  *   2. Create product automaton:
  *      - States: (s_G, s_G') cartesian product
  *      - Transitions: Interleave G and G' actions
  *      - Initial: (initial_G, initial_G')
  *      - Terminal: (terminal_G, terminal_G')
- *   3. Merge control flow from both CFGs
- *
- * IMPLEMENTATION NOTE:
- *   For simplicity, we use a sequential composition approach:
- *   - Execute G first, then G'
- *   - More sophisticated interleaving could be added later
- *
- *   This is sound but conservative: true parallelism would allow
- *   more interleavings, but sequential execution is always safe.
+ *   3. Merge control flow from both CFGs (see interleavingCompose)
  *
  * @param cfg1 - First protocol (G)
  * @param cfg2 - Second protocol (G')
@@ -246,10 +299,17 @@ export function combineProtocols(cfg1: CFG, cfg2: CFG): CombineResult {
     };
   }
 
-  // Create combined CFG
-  // For now, use sequential composition (G; G')
-  // TODO: Implement true interleaving product automaton
-  const combined = sequentialCompose(cfg1, cfg2);
+  const sharedSenders = [...sendersOf(cfg1)].filter(role => sendersOf(cfg2).has(role));
+  if (sharedSenders.length > 0) {
+    return {
+      success: false,
+      channelCheck,
+      sharedSenders,
+      error: `${sharedSenders.join(', ')} send${sharedSenders.length === 1 ? 's' : ''} in both protocols: the combination would send in two parallel branches`,
+    };
+  }
+
+  const combined = interleavingCompose(cfg1, cfg2);
 
   return {
     success: true,
@@ -261,101 +321,189 @@ export function combineProtocols(cfg1: CFG, cfg2: CFG): CombineResult {
 /**
  * Sequential composition: G; G'
  *
- * Connects terminal states of G to initial state of G'.
- * This is a sound (but conservative) implementation of ♢.
+ * Connects the terminal nodes of G to the initial node of G'.
+ * Sound, but it only allows the interleavings where G finishes first.
  *
  * @param cfg1 - First CFG
  * @param cfg2 - Second CFG
  * @returns Combined CFG
  */
-function sequentialCompose(cfg1: CFG, cfg2: CFG): CFG {
-  // Clone and rename nodes to avoid conflicts
-  const nodes1 = cfg1.nodes.map(n => ({
-    ...n,
-    id: `g1_${n.id}`,
-  }));
-
-  const nodes2 = cfg2.nodes.map(n => ({
-    ...n,
-    id: `g2_${n.id}`,
-  }));
-
-  // Clone and update edges
-  const edges1 = cfg1.edges.map(e => ({
-    ...e,
-    id: `g1_${e.id}`,
-    from: `g1_${e.from}`,
-    to: `g1_${e.to}`,
-  }));
-
-  const edges2 = cfg2.edges.map(e => ({
-    ...e,
-    id: `g2_${e.id}`,
-    from: `g2_${e.from}`,
-    to: `g2_${e.to}`,
-  }));
-
-  // Connect G's terminal to G's initial
-  const connectionEdges: CFGEdge[] = [];
-  for (const terminalId of cfg1.terminalNodes) {
-    connectionEdges.push({
-      id: `connect_${terminalId}_to_g2`,
-      from: `g1_${terminalId}`,
-      to: `g2_${cfg2.initialNode}`,
-      type: 'sequence',
-    });
-  }
+export function sequentialCompose(cfg1: CFG, cfg2: CFG): CFG {
+  const g1 = renamed(cfg1, 'g1_');
+  const g2 = renamed(cfg2, 'g2_');
+
+  // Connect G's terminals to G''s first node (its initial node is dropped)
+  const terminals1 = new Set(g1.nodes.filter(n => n.type === 'terminal').map(n => n.id));
+  const edges1 = g1.edges.map(e => terminals1.has(e.to) ? { ...e, to: entryOf(g2) } : e);
 
-  // Combine
   return {
-    id: `${cfg1.id}_combine_${cfg2.id}`,
-    nodes: [...nodes1, ...nodes2],
-    edges: [...edges1, ...edges2, ...connectionEdges],
-    initialNode: `g1_${cfg1.initialNode}`,
-    terminalNodes: cfg2.terminalNodes.map(id => `g2_${id}`),
+    nodes: [
+      ...g1.nodes.filter(n => !terminals1.has(n.id)),
+      ...g2.nodes.filter(n => n.id !== g2.initialNode),
+    ],
+    edges: [...edges1, ...g2.edges.filter(e => e.from !== g2.initialNode)],
+    initialNode: g1.initialNode,
     roles: [...new Set([...cfg1.roles, ...cfg2.roles])],
-    metadata: {
-      combined: true,
-      source1: cfg1.id,
-      source2: cfg2.id,
-      combiningOperator: 'sequential', // Note: not full interleaving yet
-    },
+    protocolName: combinedName(cfg1, cfg2),
+    parameters: combinedParameters(cfg1, cfg2),
   };
 }
 
 /**
  * Interleaving composition: True ♢ implementation.
  *
- * Creates product automaton with all valid interleavings.
+ * The product of G and G' as the CFG of `par { G } and { G' }`:
  *
- * ALGORITHM:
- *   1. Create state space: S = S_G × S_G'
- *   2. For each state (s, s'):
- *      - If G can step s→s'': add transition (s,s')→(s'',s')
- *      - If G' can step s'→s''': add transition (s,s')→(s,s''')
- *   3. Initial: (initial_G, initial_G')
- *   4. Terminal: states where both are terminal
+ *   initial → fork ─→ G  ─→ join → terminal
+ *                  └→ G' ─┘
  *
- * TODO: Implement full interleaving for true parallelism.
+ * The initial node of each protocol becomes a fork edge and its terminal
+ * nodes lead to the join, so the result is linear in the size of G and G'.
+ * Node ids are prefixed with g1_ / g2_ (and so are the ids of parallel
+ * blocks inside G and G').
  *
  * @param cfg1 - First CFG
  * @param cfg2 - Second CFG
  * @returns Combined CFG with interleaving
  */
 export function interleavingCompose(cfg1: CFG, cfg2: CFG): CFG {
-  // TODO: Implement product automaton construction
-  // For now, fall back to sequential composition
-  return sequentialCompose(cfg1, cfg2);
+  const parallelId = 'combine';
+  const initial: Node = { id: 'combine_initial', type: 'initial' };
+  const fork: Node = { id: 'combine_fork', type: 'fork', parallel_id: parallelId };
+  const join: Node = { id: 'combine_join', type: 'join', parallel_id: parallelId };
+  const terminal: Node = { id: 'combine_terminal', type: 'terminal' };
+
+  const nodes: Node[] = [initial, fork];
+  const edges: Edge[] = [
+    { id: 'combine_start', from: initial.id, to: fork.id, edgeType: 'sequence' },
+  ];
+
+  [renamed(cfg1, 'g1_'), renamed(cfg2, 'g2_')].forEach((g, i) => {
+    const terminals = new Set(g.nodes.filter(n => n.type === 'terminal').map(n => n.id));
+    nodes.push(...g.nodes.filter(n => n.id !== g.initialNode && !terminals.has(n.id)));
+    const entry = entryOf(g);
+    edges.push({
+      id: `combine_branch${i + 1}`,
+      from: fork.id,
+      to: terminals.has(entry) ? join.id : entry,
+      edgeType: 'fork',
+      label: `branch${i + 1}`,
+    });
+    for (const edge of g.edges) {
+      if (edge.from === g.initialNode) continue;
+      edges.push(terminals.has(edge.to) ? { ...edge, to: join.id } : edge);
+    }
+  });
+
+  nodes.push(join, terminal);
+  edges.push({ id: 'combine_end', from: join.id, to: terminal.id, edgeType: 'sequence' });
+
+  return {
+    nodes,
+    edges,
+    initialNode: initial.id,
+    roles: [...new Set([...cfg1.roles, ...cfg2.roles])],
+    protocolName: combinedName(cfg1, cfg2),
+    parameters: combinedParameters(cfg1, cfg2),
+  };
 }
 
 // ============================================================================
-// Exports
+// Projection Check
 // ============================================================================
 
-export {
-  type Channel,
-  type ChannelConflict,
-  type ChannelDisjointnessResult,
-  type CombineResult,
-  sequentialCompose,
-};
+/**
+ * Check that combining G and G' does not change what any role does.
+ *
+ * PROPERTY:
+ *   For every role r of G ♢ G':
+ *     (G ♢ G') ↾ r ≅ (G ↾ r) ⧢ (G' ↾ r)
+ *
+ *   where a role missing from one protocol does nothing in it, and ≅ is
+ *   subtyping both ways (the same sends and receives after every trace).
+ *
+ * @param cfg1 - First protocol (G)
+ * @param cfg2 - Second protocol (G')
+ * @param combined - G ♢ G' (from combineProtocols)
+ * @returns Check result per role
+ */
+export function checkCombinedProjections(
+  cfg1: CFG,
+  cfg2: CFG,
+  combined: CFG
+): CombinedProjectionResult {
+  const roles = combined.roles.map(role => {
+    const actual = project(combined, role);
+    const expected = interleave(projectOrIdle(cfg1, role), projectOrIdle(cfg2, role));
+
+    const forward = checkSubtype(actual, expected);
+    const backward = forward.isSubtype ? checkSubtype(expected, actual) : forward;
+    return {
+      role,
+      equivalent: forward.isSubtype && backward.isSubtype,
+      ...(backward.counterexample && { counterexample: backward.counterexample }),
+    };
+  });
+
+  return {
+    consistent: roles.every(r => r.equivalent),
+    roles,
+  };
+}
+
+/**
+ * Projection of a role, or a CFSM that ends at once if the role is not
+ * part of the protocol.
+ */
+function projectOrIdle(cfg: CFG, role: string): CFSM {
+  if (cfg.roles.includes(role)) return project(cfg, role);
+  return {
+    role,
+    protocolName: cfg.protocolName,
+    parameters: cfg.parameters,
+    states: [{ id: 's0', label: 'terminal' }],
+    transitions: [],
+    initialState: 's0',
+    terminalStates: ['s0'],
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Copy of a CFG with node, edge and parallel block ids prefixed.
+ */
+function renamed(cfg: CFG, prefix: string): CFG {
+  return {
+    ...cfg,
+    nodes: cfg.nodes.map(n =>
+      n.type === 'fork' || n.type === 'join'
+        ? { ...n, id: prefix + n.id, parallel_id: prefix + n.parallel_id }
+        : { ...n, id: prefix + n.id }
+    ),
+    edges: cfg.edges.map(e => ({ ...e, id: prefix + e.id, from: prefix + e.from, to: prefix + e.to })),
+    initialNode: prefix + cfg.initialNode,
+  };
+}
+
+/**
+ * First node after the initial node.
+ */
+function entryOf(cfg: CFG): string {
+  const edge = cfg.edges.find(e => e.from === cfg.initialNode);
+  if (!edge) {
+    throw new Error(`Protocol ${cfg.protocolName} has no edge from its initial node`);
+  }
+  return edge.to;
+}
+
+function combinedName(cfg1: CFG, cfg2: CFG): string {
+  return `${cfg1.protocolName}_combine_${cfg2.protocolName}`;
+}
+
+function combinedParameters(cfg1: CFG, cfg2: CFG): CFG['parameters'] {
+  const names = new Set(cfg1.parameters.map(p => p.name));
+  return [...cfg1.parameters, ...cfg2.parameters.filter(p => !names.has(p.name))];
+}
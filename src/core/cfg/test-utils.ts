@@ -191,7 +191,10 @@ export function branchesMatchMerges(cfg: CFG): boolean {
     if (outgoingEdges.length < 2) return false;
 
     // Find the merge node that all branches converge to
-    const mergeNodes = outgoingEdges.map(edge => findNextMerge(cfg, edge.to));
+    // (branches aborted by a throw leave through their catch handler instead)
+    const mergeNodes = outgoingEdges
+      .map(edge => findNextMerge(cfg, edge.to))
+      .filter((merge, i) => merge !== null || !reachesThrow(cfg, outgoingEdges[i].to));
 
     // All branches should converge to the same merge
     const firstMerge = mergeNodes[0];
@@ -218,7 +221,9 @@ export function findNextMerge(cfg: CFG, startId: string): string | null {
       return node.id;
     }
 
-    const outgoingEdges = cfg.edges.filter(e => e.from === currentId);
+    const outgoingEdges = cfg.edges.filter(
+      e => e.from === currentId && e.edgeType !== 'exception'
+    );
     for (const edge of outgoingEdges) {
       queue.push(edge.to);
     }
@@ -227,6 +232,31 @@ export function findNextMerge(cfg: CFG, startId: string): string | null {
   return null;
 }
 
+/**
+ * Check if a throw (node with an outgoing exception edge) is reachable
+ * from a given node without leaving through an exception edge
+ */
+export function reachesThrow(cfg: CFG, startId: string): boolean {
+  const visited = new Set<string>();
+  const queue: string[] = [startId];
+
+  while (queue.length > 0) {
+    const currentId = queue.shift()!;
+    if (visited.has(currentId)) continue;
+    visited.add(currentId);
+
+    const outgoingEdges = cfg.edges.filter(e => e.from === currentId);
+    if (outgoingEdges.some(e => e.edgeType === 'exception')) {
+      return true;
+    }
+    for (const edge of outgoingEdges) {
+      queue.push(edge.to);
+    }
+  }
+
+  return false;
+}
+
 /**
  * Check if there are any orphaned nodes
  */
@@ -33,6 +33,8 @@ export type EdgeType =
   | 'branch'    // Branch in choice
   | 'fork'      // Branch in parallel
   | 'continue'  // Back edge for recursion
+  | 'exception' // From a throw to the handler of the enclosing try
+  | 'crash'     // From a crash detection point to its crash handler
   | 'epsilon';  // Silent transition
 
 // ============================================================================
@@ -57,6 +59,11 @@ export interface MessageAction {
 
   // NEW: Source location for error reporting
   location?: SourceLocation;
+
+  // Exception handling: set when this message is a `throw`, notifying all
+  // other participants of the enclosing try block. The node's only outgoing
+  // edge is an 'exception' edge to the matching catch handler.
+  exception?: boolean;
 }
 
 export interface ParallelAction {
@@ -71,6 +78,18 @@ export interface SubProtocolAction {
   roleArguments: string[];
 }
 
+/**
+ * Crash detection: `detector` finds out that the unreliable role `crashed`
+ * has crashed, while waiting for a message from it (see CrashHandler).
+ * Entered only through a 'crash' edge; followed by the crash handler.
+ */
+export interface CrashDetectionAction {
+  kind: 'crash-detection';
+  detector: string;
+  crashed: string;
+  location?: SourceLocation;
+}
+
 // ============================================================================
 // DMst Actions (Castro-Perez & Yoshida, ECOOP 2023)
 // ============================================================================
@@ -148,6 +167,7 @@ export type Action =
   | MessageAction
   | ParallelAction
   | SubProtocolAction
+  | CrashDetectionAction
   | DynamicRoleDeclarationAction
   | ProtocolCallAction
   | CreateParticipantsAction
@@ -220,6 +240,31 @@ export interface Edge {
   to: string;   // Target node ID
   edgeType: EdgeType;
   label?: string; // For branch edges (choice label)
+
+  // Timed types: constraints that must hold to take this edge
+  // (deadlines of the target message, timeout guards of a branch)
+  clockConstraints?: ClockConstraint[];
+}
+
+// ============================================================================
+// Clock Constraints (Timed Session Types)
+// Based on docs/theory/timed-session-types.md
+// ============================================================================
+
+/**
+ * Clock constraint: clock ⋈ bound
+ *
+ * Every role owns one clock, named after the role, that measures the time
+ * since the role's last send or receive. Bounds are in milliseconds.
+ *
+ * - `within d` on p→q yields p ≤ d and q ≤ d
+ * - `timeout(d)` yields r < d on the guarded interaction and r ≥ d on the
+ *   handler, where r is the role that observes the timeout
+ */
+export interface ClockConstraint {
+  clock: string; // Role whose clock is constrained
+  operator: '<' | '<=' | '>=';
+  bound: number; // milliseconds
 }
 
 // ============================================================================
@@ -235,6 +280,9 @@ export interface CFG {
   // ENRICHED: Protocol metadata for code generation and serialization
   protocolName: string;
   parameters: import('../ast/types').ProtocolParameter[];
+
+  // Crash-stop failures: roles declared unreliable (absent if none)
+  unreliableRoles?: string[];
 }
 
 // ============================================================================
@@ -277,6 +325,24 @@ export function isMessageAction(action: Action): action is MessageAction {
   return action.kind === 'message';
 }
 
+/**
+ * Check whether a clock value satisfies a constraint
+ */
+export function satisfiesClockConstraint(value: number, constraint: ClockConstraint): boolean {
+  switch (constraint.operator) {
+    case '<':
+      return value < constraint.bound;
+    case '<=':
+      return value <= constraint.bound;
+    case '>=':
+      return value >= constraint.bound;
+  }
+}
+
+export function isExceptionAction(action: Action): action is MessageAction {
+  return action.kind === 'message' && action.exception === true;
+}
+
 export function isParallelAction(action: Action): action is ParallelAction {
   return action.kind === 'parallel';
 }
@@ -285,6 +351,10 @@ export function isSubProtocolAction(action: Action): action is SubProtocolAction
   return action.kind === 'subprotocol';
 }
 
+export function isCrashDetectionAction(action: Action): action is CrashDetectionAction {
+  return action.kind === 'crash-detection';
+}
+
 // ============================================================================
 // Type Guards for DMst Actions
 // ============================================================================
@@ -0,0 +1,209 @@
+/**
+ * Conformance Checker Tests
+ *
+ * Tests hand-written local protocols against projections:
+ * - Equivalence, for parsed and projected local protocols (with exceptions)
+ * - Safe refinements (fewer sends, more receives)
+ * - Violations with their distinguishing trace
+ * - Role mapping and unsupported local protocols
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parse } from '../parser/parser';
+import { projectForRole } from '../projection/ast-projector';
+import { checkConformance, localToCFSM } from './index';
+import type { GlobalProtocolDeclaration, LocalProtocolDeclaration } from '../ast/types';
+
+const SHOP = `
+  protocol Shop(role Buyer, role Seller) {
+    choice at Buyer {
+      Buyer -> Seller: Order(Int);
+      Seller -> Buyer: Quote(Int);
+    } or {
+      Buyer -> Seller: Quit();
+    }
+  }
+`;
+
+function shop(): GlobalProtocolDeclaration {
+  return parse(SHOP).declarations[0] as GlobalProtocolDeclaration;
+}
+
+function localOf(source: string): LocalProtocolDeclaration {
+  return parse(source).declarations[0] as LocalProtocolDeclaration;
+}
+
+describe('Conformance Checker - Equivalence', () => {
+  it('should accept the local protocol written as the projection', () => {
+    const local = localOf(`
+      local protocol Shop(role Seller) {
+        choice at Buyer {
+          Buyer -> Seller: Order(Int);
+          Seller -> Buyer: Quote(Int);
+        } or {
+          Buyer -> Seller: Quit();
+        }
+      }
+    `);
+
+    const result = checkConformance(local, shop());
+    expect(result).toEqual({
+      relation: 'equivalent',
+      conforms: true,
+      localProtocol: 'Shop',
+      protocol: 'Shop',
+      role: 'Seller',
+    });
+  });
+
+  it('should accept local protocols produced by the AST projector', () => {
+    const global = parse(`
+      protocol Loop(role A, role B) {
+        rec L {
+          choice at A {
+            A -> B: More(Int);
+            par { B -> A: Ack(); } and { B -> A: Log(String); }
+            continue L;
+          } or {
+            A -> B: Stop();
+          }
+        }
+      }
+    `).declarations[0] as GlobalProtocolDeclaration;
+
+    for (const role of ['A', 'B']) {
+      const result = checkConformance(projectForRole(global, role), global, { role });
+      expect(result.relation).toBe('equivalent');
+    }
+  });
+
+  it('should accept projected try blocks for the thrower and the notified roles', () => {
+    const global = parse(`
+      protocol Checkout(role Client, role Shop, role Bank) {
+        try {
+          Client -> Shop: Order(Int);
+          choice at Shop {
+            Shop -> Bank: Charge(Int);
+            Bank -> Client: Receipt();
+          } or {
+            throw OutOfStock(String) from Shop;
+          }
+        } catch OutOfStock(String) {
+          Client -> Shop: Cancel();
+        }
+      }
+    `).declarations[0] as GlobalProtocolDeclaration;
+
+    for (const role of ['Client', 'Shop', 'Bank']) {
+      const result = checkConformance(projectForRole(global, role), global, { role });
+      expect(result.relation).toBe('equivalent');
+    }
+  });
+});
+
+describe('Conformance Checker - Refinement', () => {
+  it('should accept a sender that makes fewer choices, showing what it leaves out', () => {
+    const local = localOf(`
+      local protocol Shop(role Buyer) {
+        Buyer -> Seller: Quit();
+      }
+    `);
+
+    const result = checkConformance(local, shop());
+    expect(result.relation).toBe('refinement');
+    expect(result.conforms).toBe(true);
+    expect(result.counterexample).toMatchObject({
+      trace: [],
+      reason: 'Shop@Buyer sends Seller!Order(Int), which local Shop never sends here',
+    });
+  });
+
+  it('should accept a receiver that accepts more', () => {
+    const local = localOf(`
+      local protocol Shop(role Seller) {
+        choice at Buyer {
+          Buyer -> Seller: Order(Int);
+          Seller -> Buyer: Quote(Int);
+        } or {
+          Buyer -> Seller: Quit();
+        } or {
+          Buyer -> Seller: Browse(String);
+        }
+      }
+    `);
+
+    expect(checkConformance(local, shop()).relation).toBe('refinement');
+  });
+});
+
+describe('Conformance Checker - Violations', () => {
+  it('should report the trace to the first unsafe action', () => {
+    const local = localOf(`
+      local protocol Shop(role Buyer) {
+        Buyer -> Seller: Order(Int);
+        Buyer -> Seller: Quit();
+      }
+    `);
+
+    const result = checkConformance(local, shop());
+    expect(result.relation).toBe('violation');
+    expect(result.conforms).toBe(false);
+    expect(result.counterexample).toMatchObject({
+      trace: ['Seller!Order(Int)'],
+      reason: 'local Shop sends Seller!Quit(), which Shop@Buyer never sends here',
+    });
+  });
+
+  it('should report receives that are missing and payloads that differ', () => {
+    const missing = localOf(`
+      local protocol Shop(role Seller) {
+        Buyer -> Seller: Quit();
+      }
+    `);
+    expect(checkConformance(missing, shop()).counterexample?.reason)
+      .toBe('Shop@Seller accepts Buyer?Order(Int), but local Shop does not');
+
+    const payload = localOf(`
+      local protocol Shop(role Buyer) {
+        Buyer -> Seller: Order(String);
+        Seller -> Buyer: Quote(Int);
+      }
+    `);
+    expect(checkConformance(payload, shop()).counterexample?.reason)
+      .toBe('local Shop sends Seller!Order(String) where Shop@Buyer sends Seller!Order(Int)');
+  });
+});
+
+describe('Conformance Checker - Roles', () => {
+  it('should map the self role and peers to roles of the global protocol', () => {
+    const local = localOf(`
+      local protocol Client(role Me) {
+        choice at Me {
+          Me -> Shop: Order(Int);
+          Shop -> Me: Quote(Int);
+        } or {
+          Me -> Shop: Quit();
+        }
+      }
+    `);
+
+    const result = checkConformance(local, shop(), {
+      role: 'Buyer',
+      roleMapping: new Map([['Seller', 'Shop']]),
+    });
+    expect(result.relation).toBe('equivalent');
+    expect(result.role).toBe('Buyer');
+  });
+
+  it('should refuse roles the global protocol does not declare', () => {
+    const local = localOf(`local protocol Shop(role Courier) { Courier -> Buyer: Parcel(); }`);
+    expect(() => checkConformance(local, shop())).toThrow('Role Courier of local protocol Shop is not declared by Shop');
+  });
+
+  it('should refuse interactions the self role takes no part in', () => {
+    const local = localOf(`local protocol Shop(role Buyer) { Seller -> Courier: Parcel(); }`);
+    expect(() => localToCFSM(local)).toThrow(
+      'Message Parcel from Seller to Courier in local protocol Shop does not involve Buyer'
+    );
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Conformance Checker - Hand-written Local Protocols
+ *
+ * Decides whether a local protocol for role R can play R in a global
+ * protocol G, by comparing its CFSM with the projection G ↓ R with the
+ * subtype checker (both ways):
+ *
+ *   local ≤ G ↓ R   and   G ↓ R ≤ local   →  equivalent
+ *   local ≤ G ↓ R   only                  →  refinement (safe, does less)
+ *   otherwise                             →  violation
+ *
+ * A refinement sends a subset of what the projection may send and accepts
+ * at least what it must accept. The distinguishing trace of a violation
+ * leads to the first action the local protocol does but the projection
+ * does not allow (or to a message it would leave unreceived).
+ */
+
+import type { GlobalProtocolDeclaration, LocalProtocolDeclaration } from '../ast/types';
+import { buildCFG } from '../cfg/builder';
+import { project } from '../projection/projector';
+import { checkSubtype } from '../subtyping/subtype-checker';
+import { localToCFSM } from './local-to-cfsm';
+import type { ConformanceOptions, ConformanceResult } from './types';
+
+/**
+ * Check a local protocol against the projection of a global protocol
+ *
+ * @param options.role - role of `global` that `local` plays (default: its self role)
+ * @param options.roleMapping - roles of `global` → roles of `local` (default: same names)
+ * @throws Error if the role is not declared by the global protocol
+ */
+export function checkConformance(
+  local: LocalProtocolDeclaration,
+  global: GlobalProtocolDeclaration,
+  options: ConformanceOptions = {}
+): ConformanceResult {
+  const role = options.role ?? local.selfRole;
+  if (!global.roles.some(r => r.name === role)) {
+    throw new Error(`Role ${role} of local protocol ${local.name} is not declared by ${global.name}`);
+  }
+
+  const toLocal = new Map(options.roleMapping);
+  toLocal.set(role, local.selfRole);
+  const toGlobal = new Map([...toLocal].map(([globalRole, localRole]) => [localRole, globalRole]));
+
+  // Named after their protocols in reasons (both would be named after the role)
+  const actual = { ...localToCFSM(local), role: `local ${local.name}` };
+  const expected = { ...project(buildCFG(global), role), role: `${global.name}@${role}` };
+  const result = {
+    localProtocol: local.name,
+    protocol: global.name,
+    role,
+  };
+
+  const safe = checkSubtype(actual, expected, { roleMapping: toLocal });
+  if (!safe.isSubtype) {
+    return { ...result, relation: 'violation', conforms: false, counterexample: safe.counterexample };
+  }
+
+  const complete = checkSubtype(expected, actual, { roleMapping: toGlobal });
+  if (!complete.isSubtype) {
+    return { ...result, relation: 'refinement', conforms: true, counterexample: complete.counterexample };
+  }
+
+  return { ...result, relation: 'equivalent', conforms: true };
+}
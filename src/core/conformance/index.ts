@@ -0,0 +1,19 @@
+/**
+ * Conformance Module
+ *
+ * Checks hand-written local protocols against the projections of their
+ * global protocols.
+ */
+
+// Types
+export type {
+  ConformanceOptions,
+  ConformanceRelation,
+  ConformanceResult,
+} from './types';
+
+// Converter
+export { localToCFSM, localToGlobal } from './local-to-cfsm';
+
+// Checker
+export { checkConformance } from './conformance-checker';
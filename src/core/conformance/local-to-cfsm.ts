@@ -0,0 +1,177 @@
+/**
+ * Local Protocol to CFSM
+ *
+ * Builds the CFSM of a local protocol, as written by hand or produced by
+ * the AST projector, so that it can be compared with a projection.
+ *
+ * A local protocol is the global protocol of its self role with its peers:
+ * every message it sends or receives is a message transfer between the
+ * self role and a peer. Local protocols come in two shapes:
+ *
+ *   Parsed (global syntax):        Projected (ast-projector):
+ *     Buyer -> Seller: Order();      Send { to: Seller, Order() }
+ *     Seller -> Buyer: Quote();      Receive { from: Seller, Quote() }
+ *     choice at Buyer { ... }        LocalChoice { kind: 'select', ... }
+ *
+ * Both are lowered to a global protocol over the roles they mention, which
+ * goes through the usual pipeline (buildCFG, then project for the self
+ * role). Choices, recursion, parallel branches, sub-protocol calls,
+ * exceptions and timeouts therefore get the exact semantics they have in
+ * projections.
+ *
+ * A throw names its thrower when it is a peer's (throw l from p): the
+ * self role is notified of it, as every participant of the try block is
+ * in the global protocol, and enters its handler for l.
+ */
+
+import type {
+  LocalProtocolDeclaration,
+  LocalInteraction,
+  GlobalInteraction,
+  GlobalProtocolDeclaration,
+  GlobalProtocolBody,
+} from '../ast/types';
+import { buildCFG } from '../cfg/builder';
+import { project } from '../projection/projector';
+import type { CFSM } from '../projection/types';
+
+/**
+ * CFSM of a local protocol, for its self role
+ *
+ * @throws Error for an interaction the self role takes no part in
+ */
+export function localToCFSM(local: LocalProtocolDeclaration): CFSM {
+  return project(buildCFG(localToGlobal(local)), local.selfRole);
+}
+
+/**
+ * The global protocol between the self role of a local protocol and its peers
+ */
+export function localToGlobal(local: LocalProtocolDeclaration): GlobalProtocolDeclaration {
+  const roles = new Set<string>([local.selfRole]);
+  const body = lowerBody(local.body, local, roles);
+
+  return {
+    type: 'GlobalProtocolDeclaration',
+    name: local.name,
+    parameters: local.parameters,
+    roles: [...roles].map(name => ({ type: 'RoleDeclaration', name })),
+    body,
+    location: local.location,
+  };
+}
+
+// ============================================================================
+// Lowering
+// ============================================================================
+
+function lowerBody(
+  body: (LocalInteraction | GlobalInteraction)[],
+  local: LocalProtocolDeclaration,
+  roles: Set<string>
+): GlobalProtocolBody {
+  return body.map(interaction => lowerInteraction(interaction, local, roles));
+}
+
+function lowerInteraction(
+  node: LocalInteraction | GlobalInteraction,
+  local: LocalProtocolDeclaration,
+  roles: Set<string>
+): GlobalInteraction {
+  const self = local.selfRole;
+  const lower = (body: (LocalInteraction | GlobalInteraction)[]) => lowerBody(body, local, roles);
+
+  switch (node.type) {
+    // Projected shape
+    case 'Send': {
+      const to = node.to;
+      (Array.isArray(to) ? to : [to]).forEach(role => roles.add(role));
+      return node.deadline
+        ? { type: 'TimedMessage', message: node.message, from: self, to, deadline: node.deadline, location: node.location }
+        : { type: 'MessageTransfer', message: node.message, from: self, to, location: node.location };
+    }
+    case 'Receive':
+      roles.add(node.from);
+      return node.deadline
+        ? { type: 'TimedMessage', message: node.message, from: node.from, to: self, deadline: node.deadline, location: node.location }
+        : { type: 'MessageTransfer', message: node.message, from: node.from, to: self, location: node.location };
+    case 'LocalChoice': {
+      const at = node.kind === 'select' ? self : node.at;
+      if (!at) {
+        throw new Error(`Offer in local protocol ${local.name} does not name the role that chooses`);
+      }
+      roles.add(at);
+      return {
+        type: 'Choice',
+        at,
+        branches: node.branches.map(branch => ({
+          type: 'ChoiceBranch',
+          label: branch.label,
+          body: lower(branch.body),
+          location: branch.location,
+        })),
+        location: node.location,
+      };
+    }
+    case 'LocalParallel':
+      return {
+        type: 'Parallel',
+        branches: node.branches.map(branch => ({
+          type: 'ParallelBranch',
+          body: lower(branch.body),
+          location: branch.location,
+        })),
+        location: node.location,
+      };
+
+    // Parsed shape
+    case 'MessageTransfer':
+    case 'TimedMessage': {
+      const to = Array.isArray(node.to) ? node.to : [node.to];
+      if (node.from !== self && !to.includes(self)) {
+        throw new Error(
+          `Message ${node.message.label} from ${node.from} to ${to.join(', ')} in local protocol ` +
+          `${local.name} does not involve ${self}`
+        );
+      }
+      [node.from, ...to].forEach(role => roles.add(role));
+      return node;
+    }
+    case 'Choice':
+      roles.add(node.at);
+      return {
+        ...node,
+        branches: node.branches.map(branch => ({ ...branch, body: lower(branch.body) })),
+      };
+    case 'Parallel':
+      return {
+        ...node,
+        branches: node.branches.map(branch => ({ ...branch, body: lower(branch.body) })),
+      };
+
+    // Common to both shapes
+    case 'Recursion':
+    case 'Timeout':
+    case 'CrashHandler':
+      return { ...node, body: lower(node.body) };
+    case 'Try':
+      return {
+        ...node,
+        body: lower(node.body),
+        catchHandlers: node.catchHandlers.map(handler => ({ ...handler, body: lower(handler.body) })),
+      };
+    case 'Throw': {
+      const from = node.from ?? self; // Projected throws are the self role's own
+      roles.add(from);
+      return { ...node, from };
+    }
+    case 'Do':
+      node.roleArguments.forEach(role => roles.add(role));
+      return node;
+    case 'Continue':
+      return node;
+
+    default:
+      throw new Error(`${node.type} is not supported in local protocol ${local.name}`);
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Conformance Types
+ *
+ * Result types for checking a hand-written local protocol against the
+ * projection of its global protocol.
+ *
+ * A local protocol L for role R conforms to a global protocol G when it
+ * can play R in G:
+ * - equivalent: L and G ↓ R have the same behaviour (subtypes of each other)
+ * - refinement: L is a subtype of G ↓ R (it sends no more, and accepts no
+ *   less, than the projection), so it is safe but does less
+ * - violation: L is not a subtype of G ↓ R
+ */
+
+import type { SubtypeCounterexample, SubtypeOptions } from '../subtyping/types';
+
+/**
+ * Options for a conformance check
+ */
+export interface ConformanceOptions extends SubtypeOptions {
+  /** Role of the global protocol that the local protocol plays (default: its self role) */
+  role?: string;
+}
+
+export type ConformanceRelation = 'equivalent' | 'refinement' | 'violation';
+
+/**
+ * Result of checking one local protocol
+ */
+export interface ConformanceResult {
+  relation: ConformanceRelation;
+  conforms: boolean;        // equivalent or refinement
+  localProtocol: string;
+  protocol: string;         // Global protocol
+  role: string;             // Role of the global protocol
+
+  /**
+   * Distinguishing trace:
+   * - violation: where the local protocol is unsafe (its own point of view)
+   * - refinement: where the projection does something the local protocol
+   *   does not (the projection's point of view)
+   */
+  counterexample?: SubtypeCounterexample;
+}
@@ -0,0 +1,243 @@
+/**
+ * Diagram Builders
+ *
+ * Turn a global CFG, a projected CFSM or all the CFSMs of a projection into
+ * a Diagram. In the combined view of a projection each role is a group, and
+ * every send is linked to the receives it can be matched with:
+ *
+ *   Buyer:  s0 ──Seller!Order(Int)──▶ s1
+ *            ┆
+ *            └┈┈┈┈┈ Order(Int) ┈┈┈┈┈┐
+ *                                   ▼
+ *   Seller: s0 ──Buyer?Order(Int)──▶ s1
+ *
+ * A link goes from the state the sender sends in to the state the receiver
+ * reaches. Sends and receives are matched by the message of the global
+ * protocol they were projected from (its source location), or by label
+ * when locations are missing.
+ */
+
+import type { Message, SourceLocation } from '../ast/types';
+import type { CFG, Node } from '../cfg/types';
+import type { CFSM, CFSMAction, CFSMTransition, ProjectionResult } from '../projection/types';
+import { formatPayload } from '../type-checker/type-checker';
+import { formatExpression } from '../predicates/evaluator';
+import type { Diagram, DiagramEdge, DiagramNode, DiagramOptions } from './types';
+
+// ============================================================================
+// Global CFG
+// ============================================================================
+
+/**
+ * Diagram of a global CFG: one node per CFG node, recursion back edges dashed
+ */
+export function cfgDiagram(cfg: CFG, options: DiagramOptions = {}): Diagram {
+  const nodes: DiagramNode[] = cfg.nodes.map(node => {
+    const location = node.type === 'action' && 'location' in node.action
+      ? node.action.location
+      : undefined;
+    return {
+      id: identifier(node.id),
+      label: cfgNodeLabel(node),
+      shape: node.type === 'initial' || node.type === 'terminal' ? 'circle' : 'box',
+      initial: node.id === cfg.initialNode || undefined,
+      terminal: node.type === 'terminal' || undefined,
+      tooltip: tooltip(location, options),
+    };
+  });
+
+  const edges: DiagramEdge[] = cfg.edges.map(edge => ({
+    from: identifier(edge.from),
+    to: identifier(edge.to),
+    label: edge.label,
+    kind: edge.edgeType === 'continue' ? 'back' : 'transition',
+  }));
+
+  return { name: cfg.protocolName, groups: [], nodes, edges };
+}
+
+/**
+ * Label of a CFG node, as in `smpst build-cfg --format text`
+ */
+export function cfgNodeLabel(node: Node): string {
+  switch (node.type) {
+    case 'initial':
+      return 'START';
+    case 'terminal':
+      return 'END';
+    case 'action':
+      if (node.action.kind === 'message') {
+        const { from, to, label } = node.action;
+        const toStr = Array.isArray(to) ? to.join(',') : to;
+        return `${from} → ${toStr}: ${label ?? node.action.message.label}`;
+      } else if (node.action.kind === 'parallel') {
+        return `parallel ${node.action.parallel_id}`;
+      } else if (node.action.kind === 'subprotocol') {
+        return `do ${node.action.protocol}`;
+      }
+      return 'action';
+    case 'branch':
+      return `branch at ${node.at}`;
+    case 'merge':
+      return 'merge';
+    case 'fork':
+      return `fork ${node.parallel_id}`;
+    case 'join':
+      return `join ${node.parallel_id}`;
+    case 'recursive':
+      return `rec ${node.label}`;
+  }
+}
+
+// ============================================================================
+// Projected CFSMs
+// ============================================================================
+
+/**
+ * Diagram of the CFSM of one role
+ */
+export function cfsmDiagram(cfsm: CFSM, options: DiagramOptions = {}): Diagram {
+  const { nodes, edges } = machine(cfsm, undefined, options);
+  return { name: `${cfsm.protocolName}@${cfsm.role}`, groups: [], nodes, edges };
+}
+
+/**
+ * Combined diagram of the CFSMs of all roles, one group per role, with
+ * every send linked to its matching receives
+ */
+export function projectionDiagram(
+  projection: ProjectionResult | Map<string, CFSM>,
+  options: DiagramOptions = {}
+): Diagram {
+  const cfsms = projection instanceof Map ? projection : projection.cfsms;
+  const first = cfsms.values().next().value as CFSM | undefined;
+  const diagram: Diagram = { name: first?.protocolName ?? '', groups: [], nodes: [], edges: [] };
+
+  for (const cfsm of cfsms.values()) {
+    const group = identifier(cfsm.role);
+    const { nodes, edges } = machine(cfsm, group, options);
+    diagram.groups.push({ id: group, label: cfsm.role });
+    diagram.nodes.push(...nodes);
+    diagram.edges.push(...edges);
+  }
+
+  for (const sender of cfsms.values()) {
+    for (const send of sender.transitions) {
+      if (send.action.type !== 'send') continue;
+      const recipients = Array.isArray(send.action.to) ? send.action.to : [send.action.to];
+
+      for (const recipient of recipients) {
+        const receiver = cfsms.get(recipient);
+        if (!receiver) continue;
+        for (const receive of receiver.transitions) {
+          if (!matches(send, receive, sender.role)) continue;
+          diagram.edges.push({
+            from: stateId(sender.role, send.from),
+            to: stateId(receiver.role, receive.to),
+            label: message(send.action.message),
+            kind: 'message',
+            tooltip: tooltip(send.action.location ?? send.action.message.location, options),
+          });
+        }
+      }
+    }
+  }
+
+  return diagram;
+}
+
+function machine(
+  cfsm: CFSM,
+  group: string | undefined,
+  options: DiagramOptions
+): Pick<Diagram, 'nodes' | 'edges'> {
+  const terminal = new Set(cfsm.terminalStates);
+
+  const nodes: DiagramNode[] = cfsm.states.map(state => ({
+    id: stateId(cfsm.role, state.id),
+    label: state.id,
+    shape: 'circle',
+    group,
+    initial: state.id === cfsm.initialState || undefined,
+    terminal: terminal.has(state.id) || undefined,
+  }));
+
+  const edges: DiagramEdge[] = cfsm.transitions.map(t => ({
+    from: stateId(cfsm.role, t.from),
+    to: stateId(cfsm.role, t.to),
+    label: transitionLabel(t),
+    kind: t.action.type === 'tau' ? 'internal' : 'transition',
+    tooltip: tooltip(actionLocation(t.action), options),
+  }));
+
+  return { nodes, edges };
+}
+
+/**
+ * Label of a CFSM transition: `Seller!Order(Int)`, `Buyer?Quote(Int) where q > 0`
+ */
+export function transitionLabel(transition: CFSMTransition): string {
+  const { action } = transition;
+  const guard = transition.guard ? ` where ${formatExpression(transition.guard)}` : '';
+  switch (action.type) {
+    case 'send': {
+      const to = Array.isArray(action.to) ? action.to.join(',') : action.to;
+      return `${to}!${message(action.message)}${guard}`;
+    }
+    case 'receive':
+      return `${action.from}?${message(action.message)}${guard}`;
+    case 'tau':
+      return 'τ';
+    case 'choice':
+      return `choice ${action.branch}`;
+    case 'subprotocol':
+      return `do ${action.protocol}(${Object.values(action.roleMapping).join(', ')})`;
+    case 'crash':
+      return `crash(${action.role})`;
+  }
+}
+
+/**
+ * Whether `receive` takes the message that `send` (by `sender`) sends
+ */
+function matches(send: CFSMTransition, receive: CFSMTransition, sender: string): boolean {
+  if (send.action.type !== 'send' || receive.action.type !== 'receive') return false;
+  if (receive.action.from !== sender) return false;
+  if (send.action.message === receive.action.message) return true;
+  if (send.action.message.label !== receive.action.message.label) return false;
+
+  const sent = send.action.location ?? send.action.message.location;
+  const received = receive.action.location ?? receive.action.message.location;
+  return !sent || !received || sent.start.offset === received.start.offset;
+}
+
+function message(message: Message): string {
+  return `${message.label}(${message.payload ? formatPayload(message.payload) : ''})`;
+}
+
+function actionLocation(action: CFSMAction): SourceLocation | undefined {
+  return action.type === 'send' || action.type === 'receive'
+    ? action.location ?? action.message.location
+    : undefined;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function stateId(role: string, state: string): string {
+  return identifier(`${role}_${state}`);
+}
+
+/**
+ * An identifier every format accepts: Worker[1]_s0 → Worker_1__s0
+ */
+function identifier(name: string): string {
+  return name.replace(/\W/g, '_');
+}
+
+function tooltip(location: SourceLocation | undefined, options: DiagramOptions): string | undefined {
+  if (!location) return undefined;
+  const position = `${location.start.line}:${location.start.column}`;
+  return options.sourceName ? `${options.sourceName}:${position}` : position;
+}
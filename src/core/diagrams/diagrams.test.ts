@@ -0,0 +1,122 @@
+/**
+ * Diagram Exporter Tests
+ *
+ * Tests DOT, Mermaid and GraphML diagrams of CFGs and projected CFSMs:
+ * - Transition labels and source-location tooltips
+ * - Combined view of all roles with send/receive links
+ * - Escaping of labels in each format
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parse } from '../parser/parser';
+import { buildCFG } from '../cfg/builder';
+import { project, projectAll } from '../projection/projector';
+import type { GlobalProtocolDeclaration } from '../ast/types';
+import { cfgDiagram, cfsmDiagram, projectionDiagram, renderDiagram, toDot, toGraphML, toMermaid } from './index';
+
+const SHOP = `protocol Shop(role Buyer, role Seller) {
+  Buyer -> Seller: Order(List<Int>);
+  choice at Seller {
+    Seller -> Buyer: Quote(price: Int) where price > 0;
+  } or {
+    Seller -> Buyer: Reject();
+  }
+}`;
+
+function cfgOf(source: string) {
+  return buildCFG(parse(source).declarations[0] as GlobalProtocolDeclaration);
+}
+
+describe('Diagrams - CFSM', () => {
+  it('should label transitions with actions, guards and locations', () => {
+    const diagram = cfsmDiagram(project(cfgOf(SHOP), 'Buyer'), { sourceName: 'shop.scr' });
+
+    expect(diagram.name).toBe('Shop@Buyer');
+    expect(diagram.nodes.filter(n => n.initial).map(n => n.id)).toEqual(['Buyer_s0']);
+    expect(diagram.edges).toContainEqual(expect.objectContaining({
+      label: 'Seller!Order(List<Int>)',
+      kind: 'transition',
+      tooltip: 'shop.scr:2:3',
+    }));
+    expect(diagram.edges.map(e => e.label)).toContain('Seller?Quote(price: Int) where price > 0');
+  });
+
+  it('should render DOT with an entry arrow, double-bordered exits and tooltips', () => {
+    const dot = toDot(cfsmDiagram(project(cfgOf(SHOP), 'Buyer')));
+
+    expect(dot).toMatch(/^digraph "Shop@Buyer" \{/);
+    expect(dot).toContain('__start_Buyer_s0 -> Buyer_s0;');
+    expect(dot).toMatch(/peripheries=2/);
+    expect(dot).toContain('[label="Seller!Order(List<Int>)", tooltip="2:3"]');
+  });
+
+  it('should escape labels for Mermaid and GraphML', () => {
+    const cfsm = project(cfgOf(SHOP), 'Seller');
+
+    const mermaid = toMermaid(cfsmDiagram(cfsm));
+    expect(mermaid).toContain('stateDiagram-v2');
+    expect(mermaid).toContain('[*] --> Seller_s0');
+    expect(mermaid).toContain(': Buyer?Order(List#lt;Int#gt;)');
+
+    const graphml = toGraphML(cfsmDiagram(cfsm));
+    expect(graphml).toContain('<data key="label">Buyer?Order(List&lt;Int&gt;)</data>');
+    expect(graphml).toContain('<data key="kind">initial</data>');
+  });
+});
+
+describe('Diagrams - Combined View', () => {
+  it('should group states by role and link each send to its receive', () => {
+    const diagram = projectionDiagram(projectAll(cfgOf(SHOP)));
+
+    expect(diagram.groups.map(g => g.label)).toEqual(['Buyer', 'Seller']);
+    expect(new Set(diagram.nodes.map(n => n.id)).size).toBe(diagram.nodes.length);
+
+    const links = diagram.edges.filter(e => e.kind === 'message');
+    expect(links.map(e => e.label).sort()).toEqual(['Order(List<Int>)', 'Quote(price: Int)', 'Reject()']);
+    for (const link of links) {
+      const from = diagram.nodes.find(n => n.id === link.from);
+      const to = diagram.nodes.find(n => n.id === link.to);
+      expect(from?.group).not.toBe(to?.group);
+    }
+  });
+
+  it('should keep messages with the same label apart by their location', () => {
+    const diagram = projectionDiagram(projectAll(cfgOf(`protocol Ping(role A, role B) {
+  A -> B: Ping();
+  A -> B: Ping();
+}`)));
+
+    const links = diagram.edges.filter(e => e.kind === 'message');
+    expect(links.map(e => e.tooltip)).toEqual(['2:3', '3:3']);
+  });
+
+  it('should render groups as clusters, composites and nested graphs', () => {
+    const diagram = projectionDiagram(projectAll(cfgOf(SHOP)));
+
+    const dot = renderDiagram(diagram, 'dot');
+    expect(dot).toContain('subgraph cluster_Buyer {');
+    expect(dot).toMatch(/Buyer_s0 -> Seller_s\d+ \[label="Order\(List<Int>\)", style=dashed/);
+
+    const mermaid = renderDiagram(diagram, 'mermaid');
+    expect(mermaid).toContain('state "Seller" as Seller {');
+    expect(mermaid).toContain('Buyer --> Seller : Order(List#lt;Int#gt;)');
+
+    const graphml = renderDiagram(diagram, 'graphml');
+    expect(graphml).toContain('<graph id="Buyer:" edgedefault="directed">');
+    expect(graphml).toContain('<data key="kind">message</data>');
+  });
+});
+
+describe('Diagrams - CFG', () => {
+  it('should draw recursion back edges dashed', () => {
+    const cfg = cfgOf(`protocol Loop(role A, role B) {
+  rec L { A -> B: Tick(); continue L; }
+}`);
+    const diagram = cfgDiagram(cfg);
+
+    expect(diagram.nodes.find(n => n.initial)?.label).toBe('START');
+    expect(diagram.nodes.map(n => n.label)).toContain('A → B: Tick');
+    expect(diagram.edges.some(e => e.kind === 'back')).toBe(true);
+    expect(toDot(diagram)).toContain('style=dashed, color=blue');
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Diagram Exporters
+ *
+ * Graphviz DOT, Mermaid and GraphML diagrams of global CFGs and projected
+ * CFSMs, and Mermaid and PlantUML sequence diagrams of global protocols and
+ * simulation traces, for documentation and design reviews.
+ */
+
+export type {
+  Diagram,
+  DiagramEdge,
+  DiagramFormat,
+  DiagramGroup,
+  DiagramNode,
+  DiagramOptions,
+  SequenceDiagram,
+  SequenceFormat,
+  SequenceFragment,
+  SequenceItem,
+  SequenceMessage,
+  SequenceNote,
+  SequenceRef,
+  SequenceSection,
+} from './types';
+export { DIAGRAM_FORMATS, SEQUENCE_FORMATS } from './types';
+export { cfgDiagram, cfgNodeLabel, cfsmDiagram, projectionDiagram, transitionLabel } from './builders';
+export {
+  cfgSequenceDiagram,
+  cfsmTraceSequenceDiagram,
+  sequenceDiagram,
+  traceSequenceDiagram,
+  type TraceSequenceOptions,
+} from './sequence-builders';
+export {
+  renderDiagram,
+  renderSequence,
+  toDot,
+  toMermaid,
+  toGraphML,
+  toMermaidSequence,
+  toPlantUML,
+} from './renderers';
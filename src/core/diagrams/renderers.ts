@@ -0,0 +1,357 @@
+/**
+ * Diagram Renderers
+ *
+ * Render a Diagram as text in one of the supported formats:
+ * - Graphviz DOT: groups are clusters, tooltips are `tooltip` attributes
+ * - Mermaid stateDiagram-v2: groups are composite states. Mermaid cannot
+ *   draw transitions between states of different composites, so message
+ *   links join the role composites (one per message), and tooltips become
+ *   `%%` comments above the states and transitions they belong to
+ * - GraphML: groups are nested graphs, labels, kinds and tooltips are data
+ *   keys (yEd, Gephi and most graph libraries read it)
+ *
+ * and a SequenceDiagram as a Mermaid sequenceDiagram or in PlantUML. Mermaid
+ * has no ref frames: references are drawn as notes.
+ */
+
+import type {
+  Diagram,
+  DiagramEdge,
+  DiagramFormat,
+  DiagramNode,
+  SequenceDiagram,
+  SequenceFormat,
+  SequenceItem,
+} from './types';
+
+/**
+ * Render a diagram in `format`
+ */
+export function renderDiagram(diagram: Diagram, format: DiagramFormat): string {
+  switch (format) {
+    case 'dot':
+      return toDot(diagram);
+    case 'mermaid':
+      return toMermaid(diagram);
+    case 'graphml':
+      return toGraphML(diagram);
+  }
+}
+
+// ============================================================================
+// Graphviz DOT
+// ============================================================================
+
+const DOT_EDGE_STYLES: Record<DiagramEdge['kind'], string> = {
+  transition: '',
+  internal: 'style=dotted',
+  back: 'style=dashed, color=blue',
+  message: 'style=dashed, color=gray40, fontcolor=gray40, constraint=false',
+};
+
+export function toDot(diagram: Diagram): string {
+  const lines: string[] = [];
+  lines.push(`digraph ${dotString(diagram.name)} {`);
+  lines.push('  rankdir=TB;');
+  lines.push('  node [shape=box, style=rounded];');
+
+  const node = (n: DiagramNode, indent: string) => {
+    const attributes = [`label=${dotString(n.label)}`, `shape=${n.shape}`];
+    if (n.terminal) attributes.push('peripheries=2');
+    if (n.tooltip) attributes.push(`tooltip=${dotString(n.tooltip)}`);
+    lines.push(`${indent}${n.id} [${attributes.join(', ')}];`);
+    if (n.initial) {
+      lines.push(`${indent}__start_${n.id} [shape=point, label=""];`);
+      lines.push(`${indent}__start_${n.id} -> ${n.id};`);
+    }
+  };
+
+  lines.push('');
+  diagram.nodes.filter(n => !n.group).forEach(n => node(n, '  '));
+  for (const group of diagram.groups) {
+    lines.push(`  subgraph cluster_${group.id} {`);
+    lines.push(`    label=${dotString(group.label)};`);
+    diagram.nodes.filter(n => n.group === group.id).forEach(n => node(n, '    '));
+    lines.push('  }');
+  }
+
+  lines.push('');
+  for (const edge of diagram.edges) {
+    const attributes: string[] = [];
+    if (edge.label) attributes.push(`label=${dotString(edge.label)}`);
+    if (DOT_EDGE_STYLES[edge.kind]) attributes.push(DOT_EDGE_STYLES[edge.kind]);
+    if (edge.tooltip) attributes.push(`tooltip=${dotString(edge.tooltip)}`);
+    const list = attributes.length > 0 ? ` [${attributes.join(', ')}]` : '';
+    lines.push(`  ${edge.from} -> ${edge.to}${list};`);
+  }
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+function dotString(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+// ============================================================================
+// Mermaid
+// ============================================================================
+
+export function toMermaid(diagram: Diagram): string {
+  const lines: string[] = [];
+  lines.push('---');
+  lines.push(`title: ${diagram.name}`);
+  lines.push('---');
+  lines.push('stateDiagram-v2');
+
+  const group = new Map(diagram.nodes.map(n => [n.id, n.group]));
+
+  const machine = (nodes: DiagramNode[], edges: DiagramEdge[], indent: string) => {
+    for (const n of nodes) {
+      if (n.tooltip) lines.push(`${indent}%% ${n.tooltip}`);
+      lines.push(`${indent}state "${mermaidText(n.label)}" as ${n.id}`);
+    }
+    for (const n of nodes.filter(n => n.initial)) {
+      lines.push(`${indent}[*] --> ${n.id}`);
+    }
+    for (const edge of edges) {
+      if (edge.tooltip) lines.push(`${indent}%% ${edge.tooltip}`);
+      const label = edge.label ? ` : ${mermaidText(edge.label)}` : '';
+      lines.push(`${indent}${edge.from} --> ${edge.to}${label}`);
+    }
+    for (const n of nodes.filter(n => n.terminal)) {
+      lines.push(`${indent}${n.id} --> [*]`);
+    }
+  };
+
+  const local = diagram.edges.filter(e => e.kind !== 'message');
+  machine(
+    diagram.nodes.filter(n => !n.group),
+    local.filter(e => !group.get(e.from)),
+    '  '
+  );
+  for (const g of diagram.groups) {
+    lines.push(`  state "${mermaidText(g.label)}" as ${g.id} {`);
+    machine(
+      diagram.nodes.filter(n => n.group === g.id),
+      local.filter(e => group.get(e.from) === g.id),
+      '    '
+    );
+    lines.push('  }');
+  }
+
+  const links = new Set<string>();
+  for (const edge of diagram.edges.filter(e => e.kind === 'message')) {
+    const label = edge.label ? ` : ${mermaidText(edge.label)}` : '';
+    links.add(`  ${group.get(edge.from) ?? edge.from} --> ${group.get(edge.to) ?? edge.to}${label}`);
+  }
+  lines.push(...links);
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Mermaid reads `<...>` as HTML and `"` / `;` as syntax: use its entity codes
+ */
+function mermaidText(text: string): string {
+  return text.replace(/[#<>";]/g, c => MERMAID_ENTITIES[c]);
+}
+
+const MERMAID_ENTITIES: Record<string, string> = {
+  '#': '#35;',
+  '<': '#lt;',
+  '>': '#gt;',
+  '"': '#quot;',
+  ';': '#59;',
+};
+
+// ============================================================================
+// GraphML
+// ============================================================================
+
+export function toGraphML(diagram: Diagram): string {
+  const lines: string[] = [];
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push('<graphml xmlns="http://graphml.graphdrawing.org/xmlns">');
+  lines.push('  <key id="label" for="all" attr.name="label" attr.type="string"/>');
+  lines.push('  <key id="kind" for="all" attr.name="kind" attr.type="string"/>');
+  lines.push('  <key id="tooltip" for="all" attr.name="tooltip" attr.type="string"/>');
+  lines.push(`  <graph id=${xmlString(diagram.name)} edgedefault="directed">`);
+
+  const data = (indent: string, values: Record<string, string | undefined>) => {
+    for (const [key, value] of Object.entries(values)) {
+      if (value !== undefined) lines.push(`${indent}<data key="${key}">${xmlText(value)}</data>`);
+    }
+  };
+
+  const node = (n: DiagramNode, indent: string) => {
+    lines.push(`${indent}<node id="${n.id}">`);
+    const kind = n.initial && n.terminal ? 'initial terminal'
+      : n.initial ? 'initial' : n.terminal ? 'terminal' : 'node';
+    data(`${indent}  `, { label: n.label, kind, tooltip: n.tooltip });
+    lines.push(`${indent}</node>`);
+  };
+
+  diagram.nodes.filter(n => !n.group).forEach(n => node(n, '    '));
+  for (const group of diagram.groups) {
+    lines.push(`    <node id="${group.id}">`);
+    data('      ', { label: group.label, kind: 'role' });
+    lines.push(`      <graph id="${group.id}:" edgedefault="directed">`);
+    diagram.nodes.filter(n => n.group === group.id).forEach(n => node(n, '        '));
+    lines.push('      </graph>');
+    lines.push('    </node>');
+  }
+
+  diagram.edges.forEach((edge, i) => {
+    lines.push(`    <edge id="e${i}" source="${edge.from}" target="${edge.to}">`);
+    data('      ', { label: edge.label, kind: edge.kind, tooltip: edge.tooltip });
+    lines.push('    </edge>');
+  });
+
+  lines.push('  </graph>');
+  lines.push('</graphml>');
+  return lines.join('\n') + '\n';
+}
+
+function xmlText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function xmlString(text: string): string {
+  return `"${xmlText(text).replace(/"/g, '&quot;')}"`;
+}
+
+// ============================================================================
+// Sequence Diagrams
+// ============================================================================
+
+/**
+ * Render a sequence diagram in `format`
+ */
+export function renderSequence(diagram: SequenceDiagram, format: SequenceFormat): string {
+  switch (format) {
+    case 'mermaid':
+      return toMermaidSequence(diagram);
+    case 'plantuml':
+      return toPlantUML(diagram);
+  }
+}
+
+/**
+ * Section keywords after the first one, by fragment operator
+ */
+const MERMAID_SECTIONS: Record<string, string> = {
+  alt: 'else',
+  par: 'and',
+  critical: 'option',
+  loop: 'else',
+  break: 'else',
+};
+
+export function toMermaidSequence(diagram: SequenceDiagram): string {
+  const lines: string[] = [];
+  lines.push('---');
+  lines.push(`title: ${diagram.title}`);
+  lines.push('---');
+  lines.push('sequenceDiagram');
+
+  const ids = participantIds(diagram.participants);
+  for (const participant of diagram.participants) {
+    const id = ids.get(participant)!;
+    lines.push(id === participant ? `  participant ${id}` : `  participant ${id} as ${mermaidText(participant)}`);
+  }
+
+  const span = (roles: string[]) => spanOf(roles, diagram.participants).map(r => ids.get(r) ?? r).join(',');
+
+  const items = (list: SequenceItem[], indent: string): void => {
+    for (const item of list) {
+      switch (item.kind) {
+        case 'message': {
+          const arrow = item.exception ? '-x' : '->>';
+          lines.push(`${indent}${ids.get(item.from) ?? item.from}${arrow}${ids.get(item.to) ?? item.to}: ${mermaidText(item.label)}`);
+          break;
+        }
+        case 'note':
+          lines.push(`${indent}Note over ${span(item.over)}: ${mermaidText(item.text)}`);
+          break;
+        case 'ref':
+          lines.push(`${indent}Note over ${span(item.over)}: ref ${mermaidText(item.text)}`);
+          break;
+        case 'fragment':
+          item.sections.forEach((section, i) => {
+            const keyword = i === 0 ? item.operator : MERMAID_SECTIONS[item.operator];
+            lines.push(`${indent}${keyword}${section.label ? ` ${mermaidText(section.label)}` : ''}`);
+            items(section.items, `${indent}  `);
+          });
+          lines.push(`${indent}end`);
+          break;
+      }
+    }
+  };
+  items(diagram.items, '  ');
+
+  return lines.join('\n') + '\n';
+}
+
+export function toPlantUML(diagram: SequenceDiagram): string {
+  const lines: string[] = [];
+  lines.push('@startuml');
+  lines.push(`title ${diagram.title}`);
+
+  const ids = participantIds(diagram.participants);
+  for (const participant of diagram.participants) {
+    const id = ids.get(participant)!;
+    lines.push(id === participant ? `participant ${id}` : `participant "${participant}" as ${id}`);
+  }
+
+  const span = (roles: string[]) => spanOf(roles, diagram.participants).map(r => ids.get(r) ?? r).join(', ');
+
+  const items = (list: SequenceItem[], indent: string): void => {
+    for (const item of list) {
+      switch (item.kind) {
+        case 'message': {
+          const arrow = item.exception ? '-[#red]>' : '->';
+          lines.push(`${indent}${ids.get(item.from) ?? item.from} ${arrow} ${ids.get(item.to) ?? item.to} : ${item.label}`);
+          break;
+        }
+        case 'note':
+          lines.push(`${indent}note over ${span(item.over)} : ${item.text}`);
+          break;
+        case 'ref':
+          lines.push(`${indent}ref over ${span(item.over)} : ${item.text}`);
+          break;
+        case 'fragment':
+          item.sections.forEach((section, i) => {
+            const keyword = i === 0 ? item.operator : 'else';
+            lines.push(`${indent}${keyword}${section.label ? ` ${section.label}` : ''}`);
+            items(section.items, `${indent}  `);
+          });
+          lines.push(`${indent}end`);
+          break;
+      }
+    }
+  };
+  items(diagram.items, '');
+
+  lines.push('@enduml');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Participant → identifier: the name itself when it is one (Worker[1] → Worker_1_)
+ */
+function participantIds(participants: string[]): Map<string, string> {
+  return new Map(participants.map(p => [p, p.replace(/\W/g, '_')]));
+}
+
+/**
+ * The leftmost and rightmost of `roles` (notes span the participants between)
+ */
+function spanOf(roles: string[], participants: string[]): string[] {
+  const known = roles.filter(r => participants.includes(r));
+  if (known.length === 0) return roles.slice(0, 1);
+  const sorted = [...known].sort((a, b) => participants.indexOf(a) - participants.indexOf(b));
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  return first === last ? [first] : [first, last];
+}
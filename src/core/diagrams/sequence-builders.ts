@@ -0,0 +1,627 @@
+/**
+ * Sequence Diagram Builders
+ *
+ * Sequence diagrams of a global protocol, from its AST or its CFG, and of
+ * concrete simulation runs:
+ *
+ *   choice at A { ... } or { ... }   →  alt choice at A / else or
+ *   par { ... } and { ... }          →  par / and
+ *   rec L { ... }, foreach i in R    →  loop rec L, loop foreach i in R
+ *   do Sub(A, B)                     →  ref over A, B: do Sub(A, B)
+ *   try { ... } catch E { ... }      →  critical try / option catch E
+ *   timeout(5s) { H } G              →  alt before 5s: G / else timeout(5s): H
+ *
+ * From a CFG, fragments are recovered from the graph: a branch or fork
+ * node's fragment ends at its immediate post-dominator (the merge or join
+ * unless a branch throws or continues a loop), and a recursion node's body
+ * ends at the node its loop exits to. A throw is followed by a break
+ * fragment holding the catch handler it enters.
+ *
+ * `continue` is implicit at the end of a loop body and shown as a note
+ * anywhere else.
+ */
+
+import type {
+  GlobalInteraction,
+  GlobalProtocolBody,
+  GlobalProtocolDeclaration,
+  Message,
+  TimeConstraint,
+} from '../ast/types';
+import type { CFG, Edge, Node } from '../cfg/types';
+import type { CFGExecutionTrace } from '../simulation/types';
+import type { CFSMExecutionTrace } from '../simulation/cfsm-simulator-types';
+import { formatPayload } from '../type-checker/type-checker';
+import { formatExpression } from '../predicates/evaluator';
+import type { SequenceDiagram, SequenceItem, SequenceSection } from './types';
+
+export interface TraceSequenceOptions {
+  title?: string;
+  /** Participants, left to right (default: in order of appearance) */
+  participants?: string[];
+}
+
+// ============================================================================
+// Global Protocol (AST)
+// ============================================================================
+
+/**
+ * Sequence diagram of a global protocol
+ */
+export function sequenceDiagram(protocol: GlobalProtocolDeclaration): SequenceDiagram {
+  return {
+    title: protocol.name,
+    participants: protocol.roles.map(role => role.name),
+    items: new ProtocolSequence(protocol.roles.map(role => role.name)).body(protocol.body, undefined, true),
+  };
+}
+
+class ProtocolSequence {
+  /** Participants of the enclosing try blocks, innermost last (throw targets) */
+  private readonly tries: string[][] = [];
+
+  constructor(private readonly roles: string[]) {}
+
+  /**
+   * @param loop label of the innermost rec
+   * @param direct whether `body` is the body of that rec itself
+   */
+  body(body: GlobalProtocolBody, loop: string | undefined, direct: boolean): SequenceItem[] {
+    const items: SequenceItem[] = [];
+    const nested = (b: GlobalProtocolBody) => this.body(b, loop, false);
+
+    for (let i = 0; i < body.length; i++) {
+      const node = body[i];
+      switch (node.type) {
+        case 'MessageTransfer':
+        case 'TimedMessage': {
+          const deadline = node.type === 'TimedMessage' ? ` within ${formatTime(node.deadline)}` : '';
+          const label = `${formatMessage(node.message)}${deadline}`;
+          for (const to of recipients(node.to)) {
+            items.push({ kind: 'message', from: node.from, to, label });
+          }
+          break;
+        }
+        case 'Choice':
+          items.push({
+            kind: 'fragment',
+            operator: 'alt',
+            sections: node.branches.map((branch, j) => ({
+              label: j === 0 ? `choice at ${node.at}` : 'or',
+              items: nested(branch.body),
+            })),
+          });
+          break;
+        case 'Parallel':
+          items.push({
+            kind: 'fragment',
+            operator: 'par',
+            sections: node.branches.map(branch => ({ items: nested(branch.body) })),
+          });
+          break;
+        case 'Recursion':
+          items.push({
+            kind: 'fragment',
+            operator: 'loop',
+            sections: [{ label: `rec ${node.label}`, items: this.body(node.body as GlobalProtocolBody, node.label, true) }],
+          });
+          break;
+        case 'Continue':
+          if (node.label !== loop || !direct || i !== body.length - 1) {
+            items.push({ kind: 'note', over: this.roles, text: `continue ${node.label}` });
+          }
+          break;
+        case 'Foreach':
+          items.push({
+            kind: 'fragment',
+            operator: 'loop',
+            sections: [{
+              label: `foreach ${node.variable} in ${formatExpression(node.range.lower)}..${formatExpression(node.range.upper)}`,
+              items: nested(node.body),
+            }],
+          });
+          break;
+        case 'Do':
+          items.push({
+            kind: 'ref',
+            over: node.roleArguments,
+            text: `do ${node.protocol}(${node.roleArguments.join(', ')})`,
+          });
+          break;
+        case 'Try': {
+          this.tries.push(tryParticipants(node.body as GlobalProtocolBody, node.catchHandlers.map(h => h.body as GlobalProtocolBody)));
+          const tryItems = nested(node.body as GlobalProtocolBody);
+          this.tries.pop();
+          items.push({
+            kind: 'fragment',
+            operator: 'critical',
+            sections: [
+              { label: 'try', items: tryItems },
+              ...node.catchHandlers.map(handler => ({
+                label: `catch ${handler.exceptionLabel}(${handler.payload ? formatPayload(handler.payload) : ''})`,
+                items: nested(handler.body as GlobalProtocolBody),
+              })),
+            ],
+          });
+          break;
+        }
+        case 'Throw': {
+          const label = `throw ${node.exceptionLabel}(${node.payload ? formatPayload(node.payload) : ''})`;
+          const from = node.from;
+          const targets = (this.tries[this.tries.length - 1] ?? this.roles).filter(role => role !== from);
+          if (!from) {
+            items.push({ kind: 'note', over: this.roles, text: label });
+          } else {
+            targets.forEach(to => items.push({ kind: 'message', from, to, label, exception: true }));
+          }
+          break;
+        }
+        case 'Timeout': {
+          // Guards the interaction that follows it
+          const guarded = body[i + 1];
+          const time = formatTime(node.constraint);
+          items.push({
+            kind: 'fragment',
+            operator: 'alt',
+            sections: [
+              { label: `before ${time}`, items: guarded ? nested([guarded]) : [] },
+              { label: `timeout(${time})`, items: nested(node.body as GlobalProtocolBody) },
+            ],
+          });
+          i++;
+          break;
+        }
+        case 'CrashHandler': {
+          // Guards the rest of the block
+          items.push({
+            kind: 'fragment',
+            operator: 'alt',
+            sections: [
+              { label: `${node.role} alive`, items: nested(body.slice(i + 1)) },
+              { label: `crash(${node.role})`, items: nested(node.body as GlobalProtocolBody) },
+            ],
+          });
+          i = body.length;
+          break;
+        }
+        default:
+          items.push(dynamicNote(node, this.roles));
+      }
+    }
+
+    return items;
+  }
+}
+
+function tryParticipants(body: GlobalProtocolBody, handlers: GlobalProtocolBody[]): string[] {
+  const roles = new Set<string>();
+  const visit = (nodes: GlobalProtocolBody): void => {
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'MessageTransfer':
+        case 'TimedMessage':
+          roles.add(node.from);
+          recipients(node.to).forEach(r => roles.add(r));
+          break;
+        case 'Choice':
+          roles.add(node.at);
+          node.branches.forEach(b => visit(b.body));
+          break;
+        case 'Parallel':
+          node.branches.forEach(b => visit(b.body));
+          break;
+        case 'Do':
+          node.roleArguments.forEach(r => roles.add(r));
+          break;
+        case 'Throw':
+          if (node.from) roles.add(node.from);
+          break;
+        case 'Try':
+          visit(node.body as GlobalProtocolBody);
+          node.catchHandlers.forEach(h => visit(h.body as GlobalProtocolBody));
+          break;
+        case 'Recursion':
+        case 'Timeout':
+        case 'CrashHandler':
+        case 'Foreach':
+          visit(node.body as GlobalProtocolBody);
+          break;
+      }
+    }
+  };
+  visit(body);
+  handlers.forEach(visit);
+  return [...roles];
+}
+
+/**
+ * DMst statements, shown as notes over the roles they involve
+ */
+function dynamicNote(node: GlobalInteraction, roles: string[]): SequenceItem {
+  switch (node.type) {
+    case 'DynamicRoleDeclaration':
+      return { kind: 'note', over: roles, text: `new role ${node.roleName}` };
+    case 'ProtocolCall':
+      return {
+        kind: 'ref',
+        over: [node.caller, ...node.roleArguments],
+        text: `${node.caller} calls ${node.protocol}(${node.roleArguments.join(', ')})`,
+      };
+    case 'CreateParticipants':
+      return {
+        kind: 'note',
+        over: [node.creator],
+        text: `creates ${node.roleName}${node.instanceName ? ` as ${node.instanceName}` : ''}`,
+      };
+    case 'Invitation':
+      return { kind: 'note', over: [node.inviter, node.invitee], text: `${node.inviter} invites ${node.invitee}` };
+    case 'UpdatableRecursion':
+      return { kind: 'note', over: roles, text: `continue ${node.label} with update` };
+    default:
+      return { kind: 'note', over: roles, text: node.type };
+  }
+}
+
+// ============================================================================
+// Global Protocol (CFG)
+// ============================================================================
+
+/**
+ * Sequence diagram of a global protocol, recovered from its CFG
+ */
+export function cfgSequenceDiagram(cfg: CFG): SequenceDiagram {
+  return {
+    title: cfg.protocolName,
+    participants: [...cfg.roles],
+    items: new CFGSequence(cfg).items(),
+  };
+}
+
+class CFGSequence {
+  private readonly nodes = new Map<string, Node>();
+  private readonly outgoing = new Map<string, Edge[]>();
+  private readonly incoming = new Map<string, Edge[]>();
+  /** Recursion node → node its loop exits to */
+  private readonly loopExits = new Map<string, string | undefined>();
+  /** Node → immediate post-dominator */
+  private readonly ipdom = new Map<string, string | undefined>();
+
+  constructor(private readonly cfg: CFG) {
+    cfg.nodes.forEach(node => this.nodes.set(node.id, node));
+    for (const edge of cfg.edges) {
+      this.outgoing.set(edge.from, [...(this.outgoing.get(edge.from) ?? []), edge]);
+      this.incoming.set(edge.to, [...(this.incoming.get(edge.to) ?? []), edge]);
+    }
+    for (const node of cfg.nodes) {
+      if (node.type !== 'recursive') continue;
+      // The body edge is added before the exit edge (see buildRecursion)
+      const [, exit] = this.edges(node.id).filter(e => e.edgeType === 'sequence');
+      this.loopExits.set(node.id, exit?.to);
+    }
+    this.postDominators();
+  }
+
+  items(): SequenceItem[] {
+    return this.walk(this.cfg.initialNode, undefined, undefined, false);
+  }
+
+  /**
+   * Items from `start` up to (not including) `stop`
+   */
+  private walk(start: string | undefined, stop: string | undefined, loop: string | undefined, direct: boolean): SequenceItem[] {
+    const items: SequenceItem[] = [];
+    let current = start;
+
+    while (current !== undefined && current !== stop) {
+      const node = this.nodes.get(current)!;
+
+      switch (node.type) {
+        case 'terminal':
+          return items;
+
+        case 'branch':
+        case 'fork': {
+          const end = this.ipdom.get(node.id);
+          const edges = this.edges(node.id).filter(e => e.edgeType === 'branch' || e.edgeType === 'fork');
+          items.push({
+            kind: 'fragment',
+            operator: node.type === 'branch' ? 'alt' : 'par',
+            sections: node.type === 'branch'
+              ? this.branchSections(node.at, edges, end, loop)
+              : edges.map(e => ({ items: this.walk(e.to, end, loop, false) })),
+          });
+          current = end;
+          break;
+        }
+
+        case 'recursive': {
+          const [body] = this.edges(node.id).filter(e => e.edgeType === 'sequence');
+          const exit = this.loopExits.get(node.id);
+          items.push({
+            kind: 'fragment',
+            operator: 'loop',
+            sections: [{ label: `rec ${node.label}`, items: this.walk(body?.to, exit, node.id, true) }],
+          });
+          current = exit;
+          break;
+        }
+
+        case 'action': {
+          const { action } = node;
+          if (action.kind === 'message') {
+            const label = `${action.exception ? 'throw ' : ''}${formatMessage(action.message)}${this.deadline(node.id, action.from)}`;
+            for (const to of recipients(action.to)) {
+              items.push({ kind: 'message', from: action.from, to, label, ...(action.exception && { exception: true }) });
+            }
+            const thrown = this.edges(node.id).find(e => e.edgeType === 'exception');
+            if (thrown) {
+              items.push({
+                kind: 'fragment',
+                operator: 'break',
+                sections: [{ label: `catch ${action.message.label}`, items: this.walk(thrown.to, stop, loop, false) }],
+              });
+              return items;
+            }
+          } else if (action.kind === 'subprotocol') {
+            items.push({
+              kind: 'ref',
+              over: action.roleArguments,
+              text: `do ${action.protocol}(${action.roleArguments.join(', ')})`,
+            });
+          } else if (action.kind !== 'parallel') {
+            items.push({ kind: 'note', over: this.cfg.roles, text: action.kind });
+          }
+          current = this.next(node, loop, direct, items);
+          break;
+        }
+
+        default:
+          // initial, merge, join
+          current = this.next(node, loop, direct, items);
+      }
+    }
+
+    return items;
+  }
+
+  private branchSections(at: string, edges: Edge[], end: string | undefined, loop: string | undefined): SequenceSection[] {
+    const timeout = edges.find(e => e.label === 'timeout' && e.clockConstraints?.some(c => c.operator === '>='));
+    const bound = timeout?.clockConstraints?.find(c => c.operator === '>=')?.bound;
+
+    return edges.map((edge, i) => ({
+      label: timeout
+        ? (edge === timeout ? `timeout(${bound}ms)` : `before ${bound}ms`)
+        : (i === 0 ? `choice at ${at}` : 'or'),
+      items: this.walk(edge.to, end, loop, false),
+    }));
+  }
+
+  /**
+   * Successor of a node with one way out, or undefined after a continue
+   * (noted unless it ends the body of the innermost loop)
+   */
+  private next(node: Node, loop: string | undefined, direct: boolean, items: SequenceItem[]): string | undefined {
+    const edge = this.edges(node.id).find(e => e.edgeType !== 'exception');
+    if (!edge) return undefined;
+    if (edge.edgeType !== 'continue') return edge.to;
+
+    if (edge.to !== loop || !direct) {
+      const target = this.nodes.get(edge.to);
+      const label = target?.type === 'recursive' ? target.label : edge.to;
+      items.push({ kind: 'note', over: this.cfg.roles, text: `continue ${label}` });
+    }
+    return undefined;
+  }
+
+  /**
+   * ` within 5000ms` for a timed message: its sender's clock bound
+   */
+  private deadline(nodeId: string, from: string): string {
+    const bound = (this.incoming.get(nodeId) ?? [])
+      .flatMap(e => e.clockConstraints ?? [])
+      .find(c => c.clock === from && c.operator === '<=')?.bound;
+    return bound === undefined ? '' : ` within ${bound}ms`;
+  }
+
+  private edges(nodeId: string): Edge[] {
+    return this.outgoing.get(nodeId) ?? [];
+  }
+
+  /**
+   * Immediate post-dominators, with continue edges leading to the exit of
+   * their loop (so that a branch that continues rejoins the others there)
+   */
+  private postDominators(): void {
+    const successors = new Map<string, string[]>();
+    for (const node of this.cfg.nodes) {
+      successors.set(node.id, this.edges(node.id)
+        .map(e => (e.edgeType === 'continue' ? this.loopExits.get(e.to) : e.to))
+        .filter((to): to is string => to !== undefined));
+    }
+
+    const all = new Set(this.cfg.nodes.map(n => n.id));
+    const pdom = new Map<string, Set<string>>();
+    for (const node of this.cfg.nodes) {
+      pdom.set(node.id, successors.get(node.id)!.length === 0 ? new Set([node.id]) : new Set(all));
+    }
+
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const node of this.cfg.nodes) {
+        const succ = successors.get(node.id)!;
+        if (succ.length === 0) continue;
+        const next = new Set([...pdom.get(succ[0])!].filter(d => succ.every(s => pdom.get(s)!.has(d))));
+        next.add(node.id);
+        if (next.size !== pdom.get(node.id)!.size) {
+          pdom.set(node.id, next);
+          changed = true;
+        }
+      }
+    }
+
+    // The closest strict post-dominator is the one with the most post-dominators
+    for (const [node, dominators] of pdom) {
+      let closest: string | undefined;
+      for (const d of dominators) {
+        if (d !== node && (!closest || pdom.get(d)!.size > pdom.get(closest)!.size)) closest = d;
+      }
+      this.ipdom.set(node, closest);
+    }
+  }
+}
+
+// ============================================================================
+// Simulation Traces
+// ============================================================================
+
+/**
+ * Sequence diagram of a run of the CFG simulator
+ */
+export function traceSequenceDiagram(
+  trace: CFGExecutionTrace,
+  options: TraceSequenceOptions = {}
+): SequenceDiagram {
+  const items: SequenceItem[] = [];
+
+  for (const event of trace.events) {
+    switch (event.type) {
+      case 'message':
+        items.push({ kind: 'message', from: event.from, to: event.to, label: traceLabel(event.label, event.payloadType) });
+        break;
+      case 'exception': {
+        const label = `throw ${traceLabel(event.label, event.payloadType)}`;
+        for (const to of recipients(event.to)) {
+          items.push({ kind: 'message', from: event.from, to, label, exception: true });
+        }
+        break;
+      }
+      case 'choice':
+        items.push({
+          kind: 'note',
+          over: [event.decidingRole],
+          text: `chooses ${event.choiceLabel ?? `branch ${event.choiceIndex + 1}`}`,
+        });
+        break;
+      case 'subprotocol':
+        if (event.action === 'enter') {
+          items.push({
+            kind: 'note',
+            over: event.roleArguments,
+            text: `do ${event.protocol}(${event.roleArguments.join(', ')})`,
+          });
+        }
+        break;
+    }
+  }
+
+  return {
+    title: options.title ?? 'Trace',
+    participants: participants(items, options.participants),
+    items,
+  };
+}
+
+/**
+ * Sequence diagram of a distributed run, from the trace of every role
+ *
+ * Each message is drawn once, when it is sent: events are interleaved in
+ * timestamp order, keeping each role's order and never drawing a receive
+ * before its send.
+ */
+export function cfsmTraceSequenceDiagram(
+  traces: Map<string, CFSMExecutionTrace>,
+  options: TraceSequenceOptions = {}
+): SequenceDiagram {
+  const items: SequenceItem[] = [];
+  const sent = new Set<string>();
+  const allSends = new Set(
+    [...traces.values()].flatMap(t => t.events.flatMap(e => (e.type === 'send' ? [e.messageId] : [])))
+  );
+  const positions = new Map([...traces.keys()].map(role => [role, 0]));
+
+  const nextEvent = (role: string) => traces.get(role)!.events[positions.get(role)!];
+  const ready = (role: string) => {
+    const event = nextEvent(role);
+    return event !== undefined &&
+      (event.type !== 'receive' || sent.has(event.messageId) || !allSends.has(event.messageId));
+  };
+
+  for (;;) {
+    const candidates = [...traces.keys()].filter(ready);
+    if (candidates.length === 0) break;
+    const role = candidates.reduce((a, b) => (nextEvent(b).timestamp < nextEvent(a).timestamp ? b : a));
+    const event = nextEvent(role);
+    positions.set(role, positions.get(role)! + 1);
+
+    switch (event.type) {
+      case 'send': {
+        sent.add(event.messageId);
+        const label = `${event.exception ? 'throw ' : ''}${traceLabel(event.label, event.payloadType)}`;
+        for (const to of recipients(event.to)) {
+          items.push({ kind: 'message', from: role, to, label, ...(event.exception && { exception: true }) });
+        }
+        break;
+      }
+      case 'receive':
+        // Drawn with its send, unless the sender's trace is missing
+        if (!allSends.has(event.messageId)) {
+          const label = `${event.exception ? 'throw ' : ''}${traceLabel(event.label, event.payloadType)}`;
+          items.push({ kind: 'message', from: event.from, to: role, label, ...(event.exception && { exception: true }) });
+        }
+        break;
+      case 'choice':
+        items.push({ kind: 'note', over: [role], text: `chooses ${event.branch}` });
+        break;
+    }
+  }
+
+  return {
+    title: options.title ?? 'Trace',
+    participants: participants(items, options.participants ?? [...traces.keys()]),
+    items,
+  };
+}
+
+function traceLabel(label: string, payloadType?: string): string {
+  return `${label}(${payloadType ?? ''})`;
+}
+
+/**
+ * `given` followed by the other participants of `items`, in order of appearance
+ */
+function participants(items: SequenceItem[], given: string[] = []): string[] {
+  const roles = new Set(given);
+  const visit = (list: SequenceItem[]): void => {
+    for (const item of list) {
+      if (item.kind === 'message') {
+        roles.add(item.from);
+        roles.add(item.to);
+      } else if (item.kind === 'fragment') {
+        item.sections.forEach(section => visit(section.items));
+      } else {
+        item.over.forEach(role => roles.add(role));
+      }
+    }
+  };
+  visit(items);
+  return [...roles];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function formatMessage(message: Message): string {
+  const payload = message.payload ? formatPayload(message.payload) : '';
+  const refinement = message.predicate ? ` where ${formatExpression(message.predicate)}` : '';
+  return `${message.label}(${payload})${refinement}`;
+}
+
+function formatTime(constraint: TimeConstraint): string {
+  return `${constraint.value}${constraint.unit}`;
+}
+
+function recipients(to: string | string[]): string[] {
+  return Array.isArray(to) ? to : [to];
+}
@@ -0,0 +1,219 @@
+/**
+ * Sequence Diagram Tests
+ *
+ * Tests sequence diagrams of global protocols and simulation runs:
+ * - Fragments for choice, par, rec, do, try and timeout, from the AST
+ * - The same fragments recovered from the CFG
+ * - Concrete diagrams of CFG and distributed simulation traces
+ * - Mermaid and PlantUML output
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parse } from '../parser/parser';
+import { buildCFG } from '../cfg/builder';
+import { projectAll } from '../projection/projector';
+import { CFGSimulator } from '../simulation/cfg-simulator';
+import { DistributedSimulator } from '../simulation/distributed-simulator';
+import type { GlobalProtocolDeclaration } from '../ast/types';
+import {
+  cfgSequenceDiagram,
+  cfsmTraceSequenceDiagram,
+  sequenceDiagram,
+  toMermaidSequence,
+  toPlantUML,
+  traceSequenceDiagram,
+  type SequenceItem,
+} from './index';
+
+const SHOP = `protocol Shop(role Buyer, role Seller, role Bank) {
+  rec Loop {
+    choice at Buyer {
+      Buyer -> Seller: Order(List<Int>);
+      try {
+        Seller -> Bank: Check(Int);
+        choice at Bank { Bank -> Seller: Ok(); } or { throw Denied() from Bank; }
+      } catch Denied {
+        Seller -> Buyer: Sorry();
+      }
+      continue Loop;
+    } or {
+      Buyer -> Seller: Quit();
+    }
+  }
+  par { Seller -> Buyer: Bye(); } and { Seller -> Bank: Close(); }
+  do Audit(Seller, Bank);
+}
+
+protocol Audit(role Auditor, role Ledger) {
+  Auditor -> Ledger: Log();
+}`;
+
+function shop(): GlobalProtocolDeclaration {
+  return parse(SHOP).declarations[0] as GlobalProtocolDeclaration;
+}
+
+/**
+ * Items as nested arrays of strings, for comparison
+ */
+function outline(items: SequenceItem[]): unknown[] {
+  return items.map(item => {
+    switch (item.kind) {
+      case 'message':
+        return `${item.from}->${item.to}: ${item.label}`;
+      case 'note':
+      case 'ref':
+        return `${item.kind}: ${item.text}`;
+      case 'fragment':
+        return { [item.operator]: item.sections.map(s => [s.label ?? '', ...outline(s.items)]) };
+    }
+  });
+}
+
+describe('Sequence Diagrams - Global Protocol', () => {
+  it('should turn choice, try, rec, par and do into fragments', () => {
+    const diagram = sequenceDiagram(shop());
+
+    expect(diagram.participants).toEqual(['Buyer', 'Seller', 'Bank']);
+    expect(outline(diagram.items)).toEqual([
+      { loop: [['rec Loop', { alt: [
+        ['choice at Buyer',
+          'Buyer->Seller: Order(List<Int>)',
+          { critical: [
+            ['try', 'Seller->Bank: Check(Int)', { alt: [
+              ['choice at Bank', 'Bank->Seller: Ok()'],
+              ['or', 'Bank->Seller: throw Denied()', 'Bank->Buyer: throw Denied()'],
+            ] }],
+            ['catch Denied()', 'Seller->Buyer: Sorry()'],
+          ] },
+          'note: continue Loop'],
+        ['or', 'Buyer->Seller: Quit()'],
+      ] }]] },
+      { par: [['', 'Seller->Buyer: Bye()'], ['', 'Seller->Bank: Close()']] },
+      'ref: do Audit(Seller, Bank)',
+    ]);
+  });
+
+  it('should recover the fragments from the CFG', () => {
+    const diagram = cfgSequenceDiagram(buildCFG(shop()));
+
+    expect(outline(diagram.items)).toEqual([
+      { loop: [['rec Loop', { alt: [
+        ['choice at Buyer',
+          'Buyer->Seller: Order(List<Int>)',
+          'Seller->Bank: Check(Int)',
+          { alt: [
+            ['choice at Bank', 'Bank->Seller: Ok()', 'note: continue Loop'],
+            ['or',
+              'Bank->Seller: throw Denied()',
+              'Bank->Buyer: throw Denied()',
+              { break: [['catch Denied', 'Seller->Buyer: Sorry()', 'note: continue Loop']] }],
+          ] }],
+        ['or', 'Buyer->Seller: Quit()'],
+      ] }]] },
+      { par: [['', 'Seller->Buyer: Bye()'], ['', 'Seller->Bank: Close()']] },
+      'ref: do Audit(Seller, Bank)',
+    ]);
+  });
+
+  it('should leave the continue that ends a loop body implicit', () => {
+    const source = `protocol Stream(role P, role C) {
+  rec L { P -> C: Item(Int); continue L; }
+}`;
+    const protocol = parse(source).declarations[0] as GlobalProtocolDeclaration;
+    const expected = [{ loop: [['rec L', 'P->C: Item(Int)']] }];
+
+    expect(outline(sequenceDiagram(protocol).items)).toEqual(expected);
+    expect(outline(cfgSequenceDiagram(buildCFG(protocol)).items)).toEqual(expected);
+  });
+
+  it('should show a timeout as an alternative to the message it guards', () => {
+    const source = `protocol Quote(role Client, role Server) {
+  Client -> Server: Request();
+  timeout(5s) {
+    Client -> Server: Cancel();
+  }
+  Server -> Client: Response();
+}`;
+    const protocol = parse(source).declarations[0] as GlobalProtocolDeclaration;
+
+    expect(outline(sequenceDiagram(protocol).items)).toEqual([
+      'Client->Server: Request()',
+      { alt: [['before 5s', 'Server->Client: Response()'], ['timeout(5s)', 'Client->Server: Cancel()']] },
+    ]);
+    expect(outline(cfgSequenceDiagram(buildCFG(protocol)).items)).toEqual([
+      'Client->Server: Request()',
+      { alt: [['before 5000ms', 'Server->Client: Response()'], ['timeout(5000ms)', 'Client->Server: Cancel()']] },
+    ]);
+  });
+});
+
+describe('Sequence Diagrams - Rendering', () => {
+  it('should render Mermaid sequence diagrams', () => {
+    const mermaid = toMermaidSequence(sequenceDiagram(shop()));
+
+    expect(mermaid).toContain('sequenceDiagram\n  participant Buyer\n  participant Seller\n  participant Bank\n');
+    expect(mermaid).toContain('    alt choice at Buyer\n      Buyer->>Seller: Order(List#lt;Int#gt;)\n');
+    expect(mermaid).toContain('          Bank-xSeller: throw Denied()\n');
+    expect(mermaid).toContain('      option catch Denied()\n');
+    expect(mermaid).toContain('  par\n    Seller->>Buyer: Bye()\n  and\n');
+    expect(mermaid).toContain('  Note over Seller,Bank: ref do Audit(Seller, Bank)\n');
+  });
+
+  it('should render PlantUML with ref frames and aliases for indexed roles', () => {
+    const plantuml = toPlantUML(sequenceDiagram(shop()));
+
+    expect(plantuml).toMatch(/^@startuml\ntitle Shop\n/);
+    expect(plantuml).toContain('Bank -[#red]> Seller : throw Denied()');
+    expect(plantuml).toContain('ref over Seller, Bank : do Audit(Seller, Bank)');
+    expect(plantuml).toMatch(/@enduml\n$/);
+
+    const workers = toPlantUML({
+      title: 'Scatter',
+      participants: ['Master', 'Worker[1]'],
+      items: [{ kind: 'message', from: 'Master', to: 'Worker[1]', label: 'Task()' }],
+    });
+    expect(workers).toContain('participant "Worker[1]" as Worker_1_');
+    expect(workers).toContain('Master -> Worker_1_ : Task()');
+  });
+});
+
+describe('Sequence Diagrams - Simulation Traces', () => {
+  const source = `protocol Login(role Client, role Server) {
+  Client -> Server: Credentials(String);
+  choice at Server {
+    Server -> Client: Welcome();
+  } or {
+    Server -> Client: Denied();
+  }
+}`;
+
+  it('should draw a run of the CFG simulator', () => {
+    const cfg = buildCFG(parse(source).declarations[0] as GlobalProtocolDeclaration);
+    const simulator = new CFGSimulator(cfg, { recordTrace: true, choiceStrategy: 'first' });
+    simulator.run();
+
+    const diagram = traceSequenceDiagram(simulator.getTrace(), { title: 'Login run' });
+    expect(diagram.participants).toEqual(['Client', 'Server']);
+    expect(outline(diagram.items)).toEqual([
+      'Client->Server: Credentials(String)',
+      'note: chooses branch 1',
+      'Server->Client: Welcome()',
+    ]);
+  });
+
+  it('should draw each message of a distributed run once, after its cause', async () => {
+    const cfg = buildCFG(parse(source).declarations[0] as GlobalProtocolDeclaration);
+    const simulator = new DistributedSimulator(projectAll(cfg).cfsms, {
+      schedulingStrategy: 'round-robin',
+      recordTrace: true,
+    });
+    const result = await simulator.run();
+    expect(result.success).toBe(true);
+
+    const diagram = cfsmTraceSequenceDiagram(simulator.getTraces());
+    const messages = outline(diagram.items).filter(item => String(item).includes('->'));
+    expect(messages[0]).toBe('Client->Server: Credentials(String)');
+    expect(messages).toHaveLength(2);
+    expect(['Server->Client: Welcome()', 'Server->Client: Denied()']).toContain(messages[1]);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Diagram Types
+ *
+ * A format-independent graph that CFGs and projected CFSMs are turned into
+ * before being rendered as Graphviz DOT, Mermaid or GraphML:
+ *
+ *   CFG / CFSM / ProjectionResult → Diagram → dot | mermaid | graphml
+ *
+ * Groups hold the states of one role in the combined view of a projection;
+ * message edges link a send of one role to the matching receive of another.
+ *
+ * Sequence diagrams of global protocols and simulation traces have their own
+ * model (SequenceDiagram), rendered as Mermaid or PlantUML.
+ */
+
+/**
+ * Output formats of the exporters
+ */
+export type DiagramFormat = 'dot' | 'mermaid' | 'graphml';
+
+export const DIAGRAM_FORMATS: readonly DiagramFormat[] = ['dot', 'mermaid', 'graphml'];
+
+export interface Diagram {
+  /** Title (graph name) */
+  name: string;
+  /** Role clusters, in order */
+  groups: DiagramGroup[];
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+}
+
+export interface DiagramGroup {
+  id: string;
+  label: string;
+}
+
+export interface DiagramNode {
+  /** Unique in the diagram, and a valid identifier in every format */
+  id: string;
+  label: string;
+  shape: 'circle' | 'box';
+  /** Group the node is drawn in */
+  group?: string;
+  /** Entry of the machine (drawn with an arrow from nowhere) */
+  initial?: boolean;
+  /** Exit of the machine (drawn with a double border) */
+  terminal?: boolean;
+  /** Source location shown on hover */
+  tooltip?: string;
+}
+
+export interface DiagramEdge {
+  from: string;
+  to: string;
+  label?: string;
+  /**
+   * transition: a step of a machine; internal: a silent step (τ);
+   * back: a jump back to a recursion; message: a send linked to its receive
+   */
+  kind: 'transition' | 'internal' | 'back' | 'message';
+  /** Source location shown on hover */
+  tooltip?: string;
+}
+
+export interface DiagramOptions {
+  /**
+   * Name of the source file, prefixed to the locations in tooltips
+   * (`two-phase.scr:3:5`); locations are `line:column` without it
+   */
+  sourceName?: string;
+}
+
+// ============================================================================
+// Sequence Diagrams
+// ============================================================================
+
+/**
+ * Output formats of sequence diagrams
+ */
+export type SequenceFormat = 'mermaid' | 'plantuml';
+
+export const SEQUENCE_FORMATS: readonly SequenceFormat[] = ['mermaid', 'plantuml'];
+
+/**
+ * A sequence diagram: messages between participants, in combined fragments
+ */
+export interface SequenceDiagram {
+  title: string;
+  /** Participants, left to right */
+  participants: string[];
+  items: SequenceItem[];
+}
+
+export type SequenceItem = SequenceMessage | SequenceNote | SequenceRef | SequenceFragment;
+
+export interface SequenceMessage {
+  kind: 'message';
+  from: string;
+  to: string;
+  label: string;
+  /** Exception notification (throw) */
+  exception?: boolean;
+}
+
+export interface SequenceNote {
+  kind: 'note';
+  /** Participants the note spans */
+  over: string[];
+  text: string;
+}
+
+/**
+ * Reference to another interaction (a sub-protocol)
+ */
+export interface SequenceRef {
+  kind: 'ref';
+  over: string[];
+  text: string;
+}
+
+/**
+ * Combined fragment:
+ * alt (choice, timeout), par (parallel), loop (rec, foreach),
+ * critical (try, with one section per catch) and break (a catch handler
+ * entered by a throw)
+ */
+export interface SequenceFragment {
+  kind: 'fragment';
+  operator: 'alt' | 'par' | 'loop' | 'critical' | 'break';
+  sections: SequenceSection[];
+}
+
+export interface SequenceSection {
+  label?: string;
+  items: SequenceItem[];
+}
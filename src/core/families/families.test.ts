@@ -0,0 +1,154 @@
+/**
+ * Role Family Tests
+ *
+ * Tests protocols over indexed role families:
+ * - Instantiation for concrete bounds (roles expanded, foreach unrolled)
+ * - Verification of instantiations for several sizes
+ * - Parametric projection of a generic member, checked against instantiations
+ * - Errors for missing bounds, indices out of range and non-uniform families
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parse } from '../parser/parser';
+import { buildCFG } from '../cfg/builder';
+import { project } from '../projection/projector';
+import { verifyProtocol } from '../verification/verifier';
+import { checkSubtype } from '../subtyping/subtype-checker';
+import { hasRoleFamilies, instantiateFamilies, projectFamilies, projectFamily, symbolicBounds } from './index';
+import type { GlobalProtocolDeclaration, MessageTransfer } from '../ast/types';
+
+const MAP_REDUCE = `
+  protocol MapReduce(role Master, role Mapper[1..N], role Reducer[1..N]) {
+    foreach i in 1..N {
+      Master -> Mapper[i]: Chunk(String);
+    }
+    foreach i in 1..N {
+      Mapper[i] -> Reducer[i]: Pairs(Int);
+      Reducer[i] -> Master: Count(Int);
+    }
+  }
+`;
+
+const PIPELINE = `
+  protocol Pipeline(role Stage[1..N]) {
+    foreach i in 1..N - 1 {
+      Stage[i] -> Stage[i + 1]: Token(Int);
+    }
+  }
+`;
+
+function protocolOf(source: string): GlobalProtocolDeclaration {
+  return parse(source).declarations[0] as GlobalProtocolDeclaration;
+}
+
+function transfers(protocol: GlobalProtocolDeclaration): string[] {
+  return (protocol.body as MessageTransfer[]).map(m => `${m.from}->${m.to}:${m.message.label}`);
+}
+
+describe('Role Families - Instantiation', () => {
+  it('should expand families and unroll foreach in order', () => {
+    const protocol = instantiateFamilies(protocolOf(MAP_REDUCE), { N: 2 });
+
+    expect(protocol.roles.map(r => r.name)).toEqual([
+      'Master', 'Mapper[1]', 'Mapper[2]', 'Reducer[1]', 'Reducer[2]',
+    ]);
+    expect(transfers(protocol)).toEqual([
+      'Master->Mapper[1]:Chunk',
+      'Master->Mapper[2]:Chunk',
+      'Mapper[1]->Reducer[1]:Pairs',
+      'Reducer[1]->Master:Count',
+      'Mapper[2]->Reducer[2]:Pairs',
+      'Reducer[2]->Master:Count',
+    ]);
+    expect(hasRoleFamilies(protocol)).toBe(false);
+  });
+
+  it('should evaluate index arithmetic over loop variables and bounds', () => {
+    const protocol = instantiateFamilies(protocolOf(PIPELINE), { N: 3 });
+    expect(transfers(protocol)).toEqual(['Stage[1]->Stage[2]:Token', 'Stage[2]->Stage[3]:Token']);
+  });
+
+  it('should list the symbolic bounds, leaving out loop variables', () => {
+    const protocol = protocolOf(`
+      protocol Grid(role Row[1..R], role Col[1..C]) {
+        foreach i in 1..R { foreach j in 1..C { Row[i] -> Col[j]: Cell(); } }
+      }
+    `);
+    expect(symbolicBounds(protocol)).toEqual(['R', 'C']);
+  });
+
+  it('should report missing bounds, indices out of range and unindexed families', () => {
+    expect(() => instantiateFamilies(protocolOf(PIPELINE), {}))
+      .toThrow('Cannot instantiate range of Stage of Pipeline');
+
+    const overflow = protocolOf(`
+      protocol Ring(role Node[1..N]) {
+        foreach i in 1..N { Node[i] -> Node[i + 1]: Token(); }
+      }
+    `);
+    expect(() => instantiateFamilies(overflow, { N: 3 }))
+      .toThrow('Node[i + 1] is out of range: Node[4] is not in Node[1..3]');
+
+    const unindexed = protocolOf(`protocol P(role A, role W[1..N]) { A -> W: Task(); }`);
+    expect(() => instantiateFamilies(unindexed, { N: 2 }))
+      .toThrow('Role family W of P is used without an index');
+  });
+
+  it('should refuse to build a CFG before instantiation', () => {
+    expect(() => buildCFG(protocolOf(MAP_REDUCE))).toThrow('Role family Mapper of MapReduce has no concrete size');
+  });
+});
+
+describe('Role Families - Verification', () => {
+  it('should verify instantiations for several sizes', () => {
+    for (const N of [1, 2, 4]) {
+      const result = verifyProtocol(buildCFG(instantiateFamilies(protocolOf(MAP_REDUCE), { N })));
+      expect(result.deadlock.hasDeadlock).toBe(false);
+      expect(result.liveness.isLive).toBe(true);
+    }
+  });
+});
+
+describe('Role Families - Parametric Projection', () => {
+  it('should project one CFSM per family', () => {
+    const cfsms = projectFamilies(protocolOf(MAP_REDUCE));
+    expect([...cfsms.keys()]).toEqual(['Mapper', 'Reducer']);
+    expect(cfsms.get('Mapper')?.role).toBe('Mapper[i]');
+  });
+
+  it('should describe every member of an instantiation', () => {
+    const global = protocolOf(MAP_REDUCE);
+    const generic = projectFamily(global, 'Reducer');
+    const N = 3;
+    const instance = buildCFG(instantiateFamilies(global, { N }));
+
+    for (let k = 1; k <= N; k++) {
+      const member = project(instance, `Reducer[${k}]`);
+      const roleMapping = new Map([['Mapper[i]', `Mapper[${k}]`], ['Master', 'Master']]);
+      expect(checkSubtype(member, generic, { roleMapping }).isSubtype).toBe(true);
+    }
+  });
+
+  it('should refuse families whose members do not all behave alike', () => {
+    const partial = protocolOf(`
+      protocol Ring(role Node[1..N]) {
+        foreach i in 1..N - 1 { Node[i] -> Node[i + 1]: Token(); }
+      }
+    `);
+    expect(() => projectFamily(partial, 'Node')).toThrow('ranges over part of Node[1..N]');
+
+    const leader = protocolOf(`
+      protocol Election(role Node[1..N]) {
+        foreach i in 1..N { Node[i] -> Node[1]: Vote(); }
+      }
+    `);
+    expect(() => projectFamily(leader, 'Node')).toThrow('Node[1] in Election is not indexed by the variable');
+
+    const gossip = protocolOf(`
+      protocol Gossip(role Node[1..N]) {
+        foreach i in 1..N { foreach j in 1..N { Node[i] -> Node[j]: Rumour(); } }
+      }
+    `);
+    expect(() => projectFamily(gossip, 'Node')).toThrow('Node[i] takes part in every iteration of foreach j');
+  });
+});
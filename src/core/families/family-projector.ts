@@ -0,0 +1,300 @@
+/**
+ * Parametric Projection of Role Families
+ *
+ * Projects a protocol onto a generic member Worker[i] of a role family,
+ * without fixing N: one CFSM describes every member.
+ *
+ * A member takes part in exactly one iteration of each foreach over its
+ * family (the one where the loop variable is i), and in nothing else:
+ *
+ *   foreach j in 1..N { Master -> Worker[j]: Task(Int); }
+ *     ↓ Worker[i]
+ *   Master?Task(Int)
+ *
+ * So the foreach is replaced by its body with j := i, other foreach blocks
+ * (which do not involve the family) are left out, and the result is
+ * projected as usual onto the role `Worker[i]`. Peers indexed by the loop
+ * variable become peers relative to the member (Reducer[i], Worker[i + 1]).
+ *
+ * This requires members to be uniform. Projection fails (Error) when the
+ * family is used
+ * - outside a foreach over it, or with another index (Worker[1], Worker[j + 1])
+ * - in a foreach over only part of its range
+ * - in every iteration of a foreach (a member's behaviour then depends on N)
+ * Such protocols are checked on an instantiation (instantiateFamilies).
+ * Roles outside families depend on N; they are projected on an
+ * instantiation too.
+ */
+
+import type {
+  Expression,
+  Foreach,
+  GlobalInteraction,
+  GlobalProtocolBody,
+  GlobalProtocolDeclaration,
+} from '../ast/types';
+import { buildCFG } from '../cfg/builder';
+import { project } from '../projection/projector';
+import type { CFSM } from '../projection/types';
+import { parseRoleReference } from '../parser/parser';
+import { formatExpression } from '../predicates/evaluator';
+
+/**
+ * Index of the generic member
+ */
+const MEMBER_INDEX = 'i';
+
+/**
+ * Parametric CFSM of every role family of a protocol, by family name
+ *
+ * @throws Error if a family's members do not all behave alike
+ */
+export function projectFamilies(protocol: GlobalProtocolDeclaration): Map<string, CFSM> {
+  return new Map(
+    protocol.roles
+      .filter(role => role.range)
+      .map(role => [role.name, projectFamily(protocol, role.name)])
+  );
+}
+
+/**
+ * Parametric CFSM of the generic member `family[i]`
+ *
+ * @throws Error if `family` is not a role family of the protocol, or its
+ *         members do not all behave alike
+ */
+export function projectFamily(protocol: GlobalProtocolDeclaration, family: string): CFSM {
+  const declaration = protocol.roles.find(role => role.name === family);
+  if (!declaration?.range) {
+    throw new Error(`${family} is not a role family of ${protocol.name}`);
+  }
+
+  const member = `${family}[${MEMBER_INDEX}]`;
+  const roles = new Set<string>([member]);
+  const range = `${formatExpression(declaration.range.lower)}..${formatExpression(declaration.range.upper)}`;
+  const projector = new MemberProjector(protocol.name, family, range, roles);
+
+  const generic: GlobalProtocolDeclaration = {
+    ...protocol,
+    roles: [],
+    body: projector.body(protocol.body, new Map()),
+  };
+  generic.roles = [...roles].map(name => ({ type: 'RoleDeclaration', name }));
+
+  return project(buildCFG(generic), member);
+}
+
+// ============================================================================
+// Member Projection
+// ============================================================================
+
+/**
+ * Loop variables in scope → index expression they stand for
+ * (the member index for a foreach the member takes part in)
+ */
+type Substitution = Map<string, Expression | undefined>;
+
+class MemberProjector {
+  constructor(
+    private readonly protocol: string,
+    private readonly family: string,
+    private readonly range: string,
+    private readonly roles: Set<string>
+  ) {}
+
+  body(body: GlobalProtocolBody, substitution: Substitution): GlobalProtocolBody {
+    return body.flatMap(node => this.interaction(node, substitution));
+  }
+
+  private interaction(node: GlobalInteraction, substitution: Substitution): GlobalInteraction[] {
+    const body = (b: GlobalProtocolBody) => this.body(b, substitution);
+    const role = (r: string) => this.role(r, substitution);
+
+    switch (node.type) {
+      case 'Foreach':
+        return this.foreach(node, substitution);
+      case 'MessageTransfer':
+      case 'TimedMessage':
+        return [{
+          ...node,
+          from: role(node.from),
+          to: Array.isArray(node.to) ? node.to.map(role) : role(node.to),
+        }];
+      case 'Choice':
+        return [{
+          ...node,
+          at: role(node.at),
+          branches: node.branches.map(branch => ({ ...branch, body: body(branch.body) })),
+        }];
+      case 'Parallel':
+        return [{ ...node, branches: node.branches.map(branch => ({ ...branch, body: body(branch.body) })) }];
+      case 'Recursion':
+      case 'Timeout':
+      case 'CrashHandler':
+        return [{ ...node, body: body(node.body as GlobalProtocolBody) }];
+      case 'Try':
+        return [{
+          ...node,
+          body: body(node.body as GlobalProtocolBody),
+          catchHandlers: node.catchHandlers.map(handler => ({
+            ...handler,
+            body: body(handler.body as GlobalProtocolBody),
+          })),
+        }];
+      case 'Throw':
+        return [node.from ? { ...node, from: role(node.from) } : node];
+      case 'Do':
+        return [{ ...node, roleArguments: node.roleArguments.map(role) }];
+      default:
+        return [node];
+    }
+  }
+
+  /**
+   * The iteration the member takes part in, or nothing
+   */
+  private foreach(node: Foreach, substitution: Substitution): GlobalInteraction[] {
+    const written = `foreach ${node.variable} in ` +
+      `${formatExpression(node.range.lower)}..${formatExpression(node.range.upper)}`;
+    const inner = new Map(substitution).set(node.variable, undefined);
+
+    if (this.indexes(node.body, node.variable)) {
+      // Already bound by an enclosing foreach: every iteration involves it
+      if ([...substitution.values()].some(index => index && isMemberIndex(index))) {
+        throw this.everyIteration(written);
+      }
+      if (`${formatExpression(node.range.lower)}..${formatExpression(node.range.upper)}` !== this.range) {
+        throw new Error(
+          `${written} ranges over part of ${this.family}[${this.range}] in ${this.protocol}, ` +
+          `so members of ${this.family} do not all behave alike`
+        );
+      }
+      inner.set(node.variable, { type: 'VariableExpression', name: MEMBER_INDEX });
+      return this.body(node.body, inner);
+    }
+
+    // The member takes part in no iteration, or in all of them
+    const roles = new Set(this.roles);
+    const projected = this.body(node.body, inner);
+    this.roles.clear();
+    roles.forEach(role => this.roles.add(role));
+    if (this.mentionsMember(projected)) {
+      throw this.everyIteration(written);
+    }
+    return [];
+  }
+
+  private everyIteration(foreach: string): Error {
+    return new Error(
+      `${this.family}[${MEMBER_INDEX}] takes part in every iteration of ${foreach} in ${this.protocol}, ` +
+      `so its behaviour depends on the bounds`
+    );
+  }
+
+  /**
+   * Role name relative to the member: loop variables substituted
+   */
+  private role(reference: string, substitution: Substitution): string {
+    const { role, index } = parseRoleReference(reference);
+    if (!index) {
+      if (role === this.family) {
+        throw new Error(`Role family ${role} of ${this.protocol} is used without an index`);
+      }
+      this.roles.add(role);
+      return role;
+    }
+
+    const substituted = substitute(index, substitution);
+    if (role === this.family && !isMemberIndex(substituted)) {
+      throw new Error(
+        `${reference} in ${this.protocol} is not indexed by the variable of a foreach over ${this.family}, ` +
+        `so members of ${this.family} do not all behave alike`
+      );
+    }
+
+    const name = `${role}[${formatExpression(substituted)}]`;
+    this.roles.add(name);
+    return name;
+  }
+
+  /**
+   * Whether `body` refers to a member of the family by `variable`
+   */
+  private indexes(body: GlobalProtocolBody, variable: string): boolean {
+    return roleReferences(body).some(reference => {
+      const { role, index } = parseRoleReference(reference);
+      return role === this.family && index?.type === 'VariableExpression' && index.name === variable;
+    });
+  }
+
+  private mentionsMember(body: GlobalProtocolBody): boolean {
+    const member = `${this.family}[${MEMBER_INDEX}]`;
+    return roleReferences(body).includes(member);
+  }
+}
+
+function substitute(expression: Expression, substitution: Substitution): Expression {
+  switch (expression.type) {
+    case 'VariableExpression':
+      return substitution.get(expression.name) ?? expression;
+    case 'UnaryExpression':
+      return { ...expression, operand: substitute(expression.operand, substitution) };
+    case 'BinaryExpression':
+      return {
+        ...expression,
+        left: substitute(expression.left, substitution),
+        right: substitute(expression.right, substitution),
+      };
+    default:
+      return expression;
+  }
+}
+
+function isMemberIndex(expression: Expression): boolean {
+  return expression.type === 'VariableExpression' && expression.name === MEMBER_INDEX;
+}
+
+/**
+ * Role references of the interactions of a body, nested ones included
+ */
+function roleReferences(body: GlobalProtocolBody): string[] {
+  const references: string[] = [];
+  const visit = (nodes: GlobalProtocolBody): void => {
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'MessageTransfer':
+        case 'TimedMessage':
+          references.push(node.from, ...(Array.isArray(node.to) ? node.to : [node.to]));
+          break;
+        case 'Choice':
+          references.push(node.at);
+          node.branches.forEach(branch => visit(branch.body));
+          break;
+        case 'Parallel':
+          node.branches.forEach(branch => visit(branch.body));
+          break;
+        case 'Try':
+          visit(node.body as GlobalProtocolBody);
+          node.catchHandlers.forEach(handler => visit(handler.body as GlobalProtocolBody));
+          break;
+        case 'Recursion':
+        case 'Timeout':
+        case 'Foreach':
+          visit(node.body as GlobalProtocolBody);
+          break;
+        case 'CrashHandler':
+          references.push(node.role);
+          visit(node.body as GlobalProtocolBody);
+          break;
+        case 'Throw':
+          if (node.from) references.push(node.from);
+          break;
+        case 'Do':
+          references.push(...node.roleArguments);
+          break;
+      }
+    }
+  };
+  visit(body);
+  return references;
+}
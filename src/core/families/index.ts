@@ -0,0 +1,15 @@
+/**
+ * Role Families Module
+ *
+ * Indexed role families (role Worker[1..N]) and foreach: instantiation
+ * for concrete bounds, and parametric projection onto a generic member.
+ */
+
+// Types
+export type { IndexBounds } from './types';
+
+// Instantiation
+export { hasRoleFamilies, symbolicBounds, instantiateFamilies } from './instantiate';
+
+// Parametric projection
+export { projectFamily, projectFamilies } from './family-projector';
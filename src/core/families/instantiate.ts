@@ -0,0 +1,244 @@
+/**
+ * Role Family Instantiation
+ *
+ * Turns a protocol with role families into an ordinary protocol for
+ * concrete bounds, which the CFG builder, projection, verification and
+ * simulation handle as usual:
+ *
+ *   role Worker[1..N]              →  role Worker[1], ..., role Worker[N]
+ *   foreach i in 1..N { B }        →  B[i := 1] ... B[i := N]  (in order)
+ *   Master -> Worker[i + 1]: M();  →  Master -> Worker[3]: M();  (i = 2)
+ *
+ * Members of a family are roles named `Worker[k]`. Index expressions are
+ * integer arithmetic over bounds and loop variables; an index outside the
+ * range of its family is an error, as is a family used without an index.
+ */
+
+import type {
+  Expression,
+  GlobalInteraction,
+  GlobalProtocolBody,
+  GlobalProtocolDeclaration,
+  IndexRange,
+  RoleDeclaration,
+} from '../ast/types';
+import { parseRoleReference } from '../parser/parser';
+import { evaluateExpression, formatExpression, freeVariables, PredicateError } from '../predicates/evaluator';
+import type { IndexBounds } from './types';
+
+/**
+ * Whether a protocol declares role families or repeats interactions
+ * with foreach (and so must be instantiated before building its CFG)
+ */
+export function hasRoleFamilies(protocol: GlobalProtocolDeclaration): boolean {
+  if (protocol.roles.some(r => r.range)) return true;
+
+  const hasForeach = (body: GlobalProtocolBody): boolean => body.some(node => {
+    switch (node.type) {
+      case 'Foreach':
+        return true;
+      case 'Choice':
+      case 'Parallel':
+        return node.branches.some(branch => hasForeach(branch.body));
+      case 'Try':
+        return hasForeach(node.body as GlobalProtocolBody) ||
+          node.catchHandlers.some(handler => hasForeach(handler.body as GlobalProtocolBody));
+      case 'Recursion':
+      case 'Timeout':
+      case 'CrashHandler':
+        return hasForeach(node.body as GlobalProtocolBody);
+      default:
+        return false;
+    }
+  });
+  return hasForeach(protocol.body);
+}
+
+/**
+ * Symbolic bounds a protocol needs values for, in order of first use
+ */
+export function symbolicBounds(protocol: GlobalProtocolDeclaration): string[] {
+  const names = new Set<string>();
+  const addRange = (range: IndexRange, bound: Set<string>) => {
+    for (const name of [...freeVariables(range.lower), ...freeVariables(range.upper)]) {
+      if (!bound.has(name)) names.add(name);
+    }
+  };
+
+  protocol.roles.forEach(role => role.range && addRange(role.range, new Set()));
+
+  const visit = (body: GlobalProtocolBody, bound: Set<string>): void => {
+    for (const node of body) {
+      switch (node.type) {
+        case 'Foreach':
+          addRange(node.range, bound);
+          visit(node.body, new Set([...bound, node.variable]));
+          break;
+        case 'Choice':
+        case 'Parallel':
+          node.branches.forEach(branch => visit(branch.body, bound));
+          break;
+        case 'Try':
+          visit(node.body as GlobalProtocolBody, bound);
+          node.catchHandlers.forEach(handler => visit(handler.body as GlobalProtocolBody, bound));
+          break;
+        case 'Recursion':
+        case 'Timeout':
+        case 'CrashHandler':
+          visit(node.body as GlobalProtocolBody, bound);
+          break;
+      }
+    }
+  };
+  visit(protocol.body, new Set());
+
+  return [...names];
+}
+
+/**
+ * The protocol for concrete bounds, with families expanded and foreach unrolled
+ *
+ * @throws Error for a missing bound, an index out of range or a family
+ *         used without an index
+ */
+export function instantiateFamilies(
+  protocol: GlobalProtocolDeclaration,
+  bounds: IndexBounds
+): GlobalProtocolDeclaration {
+  return new Instantiation(protocol, bounds).run();
+}
+
+// ============================================================================
+// Instantiation
+// ============================================================================
+
+type Environment = Readonly<Record<string, number>>;
+
+class Instantiation {
+  private readonly families = new Map<string, { lower: number; upper: number }>();
+
+  constructor(
+    private readonly protocol: GlobalProtocolDeclaration,
+    private readonly bounds: IndexBounds
+  ) {}
+
+  run(): GlobalProtocolDeclaration {
+    const roles: RoleDeclaration[] = [];
+    for (const role of this.protocol.roles) {
+      if (!role.range) {
+        roles.push(role);
+        continue;
+      }
+      const lower = this.index(role.range.lower, this.bounds, `range of ${role.name}`);
+      const upper = this.index(role.range.upper, this.bounds, `range of ${role.name}`);
+      this.families.set(role.name, { lower, upper });
+      for (let k = lower; k <= upper; k++) {
+        roles.push({ type: 'RoleDeclaration', name: `${role.name}[${k}]`, location: role.location });
+      }
+    }
+
+    return {
+      ...this.protocol,
+      roles,
+      body: this.body(this.protocol.body, this.bounds),
+    };
+  }
+
+  private body(body: GlobalProtocolBody, env: Environment): GlobalProtocolBody {
+    return body.flatMap(node => this.interaction(node, env));
+  }
+
+  private interaction(node: GlobalInteraction, env: Environment): GlobalInteraction[] {
+    const body = (b: GlobalProtocolBody) => this.body(b, env);
+    const role = (r: string) => this.role(r, env);
+    const roles = (r: string | string[]) => (Array.isArray(r) ? r.map(role) : role(r));
+
+    switch (node.type) {
+      case 'Foreach': {
+        const context = `foreach ${node.variable}`;
+        const lower = this.index(node.range.lower, env, context);
+        const upper = this.index(node.range.upper, env, context);
+        const unrolled: GlobalInteraction[] = [];
+        for (let k = lower; k <= upper; k++) {
+          unrolled.push(...this.body(node.body, { ...env, [node.variable]: k }));
+        }
+        return unrolled;
+      }
+      case 'MessageTransfer':
+      case 'TimedMessage':
+        return [{ ...node, from: role(node.from), to: roles(node.to) }];
+      case 'Choice':
+        return [{
+          ...node,
+          at: role(node.at),
+          branches: node.branches.map(branch => ({ ...branch, body: body(branch.body) })),
+        }];
+      case 'Parallel':
+        return [{ ...node, branches: node.branches.map(branch => ({ ...branch, body: body(branch.body) })) }];
+      case 'Recursion':
+      case 'Timeout':
+      case 'CrashHandler':
+        return [{ ...node, body: body(node.body as GlobalProtocolBody) }];
+      case 'Try':
+        return [{
+          ...node,
+          body: body(node.body as GlobalProtocolBody),
+          catchHandlers: node.catchHandlers.map(handler => ({
+            ...handler,
+            body: body(handler.body as GlobalProtocolBody),
+          })),
+        }];
+      case 'Throw':
+        return [node.from ? { ...node, from: role(node.from) } : node];
+      case 'Do':
+        return [{ ...node, roleArguments: node.roleArguments.map(role) }];
+      case 'UpdatableRecursion':
+        return [{ ...node, updateBody: body(node.updateBody as GlobalProtocolBody) }];
+      default:
+        return [node];
+    }
+  }
+
+  /**
+   * Concrete name of a role reference: Worker[i + 1] → Worker[3]
+   */
+  private role(reference: string, env: Environment): string {
+    const { role, index } = parseRoleReference(reference);
+    const family = this.families.get(role);
+
+    if (!index) {
+      if (family) {
+        throw new Error(`Role family ${role} of ${this.protocol.name} is used without an index`);
+      }
+      return role;
+    }
+
+    if (!family) {
+      throw new Error(`${reference}: ${role} is not a role family of ${this.protocol.name}`);
+    }
+    const k = this.index(index, env, reference);
+    if (k < family.lower || k > family.upper) {
+      throw new Error(
+        `${reference} is out of range: ${role}[${k}] is not in ${role}[${family.lower}..${family.upper}]`
+      );
+    }
+    return `${role}[${k}]`;
+  }
+
+  private index(expression: Expression, env: Environment, context: string): number {
+    let value: unknown;
+    try {
+      value = evaluateExpression(expression, env);
+    } catch (error) {
+      if (!(error instanceof PredicateError)) throw error;
+      throw new Error(`Cannot instantiate ${context} of ${this.protocol.name}: ${error.message}`);
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      throw new Error(
+        `Cannot instantiate ${context} of ${this.protocol.name}: ` +
+        `${formatExpression(expression)} is not an integer (${String(value)})`
+      );
+    }
+    return value;
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Role Family Types
+ *
+ * A role family declares one role per index of a range:
+ *
+ *   protocol MapReduce(role Master, role Worker[1..N]) {
+ *     foreach i in 1..N {
+ *       Master -> Worker[i]: Task(Int);
+ *     }
+ *   }
+ *
+ * Bounds such as N are symbolic until the protocol is instantiated.
+ */
+
+/**
+ * Concrete values of the symbolic bounds of a protocol: { N: 4 }
+ */
+export type IndexBounds = Readonly<Record<string, number>>;
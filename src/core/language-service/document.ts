@@ -0,0 +1,561 @@
+/**
+ * Document Analysis
+ *
+ * Parses a Scribble document, loads the modules it imports, indexes every
+ * protocol, role, type and label occurrence, and collects diagnostics from
+ * each stage of the pipeline:
+ *
+ *   parse → imports → types → registry validation → CFG → verification → subtyping
+ *
+ * Later stages run on whatever earlier stages produced, so that e.g. a
+ * syntax error or an unresolved `do` target does not hide a deadlock in
+ * another protocol.
+ */
+
+import type { IToken } from 'chevrotain';
+import type {
+  GlobalProtocolDeclaration,
+  Module,
+  ModuleDeclaration,
+  ProtocolExtension,
+  SourceLocation,
+} from '../ast/types';
+import { ScribbleLexer, Identifier, Dot, Calls, Extends, Rec, Continue, Throw, Catch } from '../parser/lexer';
+import { parseWithRecovery } from '../parser/parser';
+import { formatSyntaxDiagnostic } from '../parser/syntax-diagnostics';
+import { buildCFG } from '../cfg/builder';
+import type { CFG } from '../cfg/types';
+import { verifyProtocol } from '../verification/verifier';
+import type { CompleteVerification } from '../verification/types';
+import { ProtocolRegistry } from '../protocol-registry/registry';
+import {
+  loadModules,
+  ModuleNotFoundError,
+  type LoadedProgram,
+  type ModuleResolver,
+} from '../protocol-registry/module-loader';
+import { checkExtension } from '../subtyping/subtype-checker';
+import { checkTypes } from '../type-checker/type-checker';
+import { hasRoleFamilies } from '../families/instantiate';
+import {
+  DiagnosticSeverity,
+  type Diagnostic,
+  type Range,
+  type SymbolOccurrence,
+} from './types';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * An analyzed document
+ */
+export interface ScribbleDocument {
+  path: string;
+  text: string;
+
+  /** Declarations that parsed, with references resolved to canonical names */
+  module?: Module;
+
+  /** Imported modules, when they could be loaded */
+  program?: LoadedProgram;
+
+  /** Protocols of this document and of the modules it imports */
+  registry: ProtocolRegistry;
+
+  /** CFGs of this document's protocols that could be built */
+  cfgs: Map<string, CFG>;
+
+  occurrences: SymbolOccurrence[];
+  diagnostics: Diagnostic[];
+}
+
+interface VerificationIssue {
+  code: string;
+  message: string;
+  nodes: Array<string | undefined>;
+  severity: DiagnosticSeverity;
+}
+
+// ============================================================================
+// Analysis
+// ============================================================================
+
+/**
+ * Analyze a document
+ *
+ * @param path - path of the document, used to resolve its imports
+ */
+export function analyzeDocument(path: string, text: string, resolver: ModuleResolver): ScribbleDocument {
+  const document: ScribbleDocument = {
+    path,
+    text,
+    registry: new ProtocolRegistry(),
+    cfgs: new Map(),
+    occurrences: [],
+    diagnostics: [],
+  };
+
+  // Syntax errors leave out the declarations they are in; the rest is analyzed
+  const parsed = parseWithRecovery(text);
+  let module = parsed.module;
+  for (const error of parsed.diagnostics) {
+    document.diagnostics.push(diagnostic(toRange(error.location), formatSyntaxDiagnostic(error), 'parse'));
+  }
+
+  // Imports
+  const imports = module.declarations.filter(d => d.type === 'ImportDeclaration');
+  if (imports.length > 0) {
+    try {
+      document.program = loadModules(path, resolver, text, { validate: false, recover: true });
+      module = document.program.entry.module;
+      document.registry = document.program.registry;
+
+      // Syntax errors of imported modules, on the import
+      for (const declaration of imports) {
+        const importPath = resolver.resolve(declaration.modulePath, document.program.entry.path);
+        const errors = document.program.modules.get(importPath)?.syntaxErrors ?? [];
+        if (errors.length > 0) {
+          document.diagnostics.push(diagnostic(
+            toRange(declaration.location),
+            `"${declaration.modulePath}" has ${errors.length} syntax error${errors.length > 1 ? 's' : ''}`,
+            'imports'
+          ));
+        }
+      }
+    } catch (error: any) {
+      // Point at the import that fails, or at the first one
+      const failing = error instanceof ModuleNotFoundError && error.importedFrom === resolver.resolve(path, '')
+        ? imports.find(i => resolver.resolve(i.modulePath, error.importedFrom!) === error.modulePath)
+        : undefined;
+      document.diagnostics.push(diagnostic(
+        toRange((failing ?? imports[0]).location),
+        error.message,
+        'imports'
+      ));
+    }
+  }
+  if (!document.program) {
+    registerProtocols(document.registry, module.declarations);
+  }
+
+  document.module = module;
+  document.occurrences = indexDocument(module, ScribbleLexer.tokenize(text).tokens);
+
+  checkPayloadTypes(document, imports.length > 0);
+  checkRegistry(document);
+  checkProtocols(document);
+
+  document.diagnostics = deduplicate(document.diagnostics);
+  return document;
+}
+
+function registerProtocols(registry: ProtocolRegistry, declarations: ModuleDeclaration[]): void {
+  for (const decl of declarations) {
+    if (decl.type === 'GlobalProtocolDeclaration' || decl.type === 'ProtocolExtension') {
+      registry.register(decl.name, decl);
+    }
+  }
+}
+
+/**
+ * Unresolved references, role mismatches and circular dependencies
+ */
+function checkRegistry(document: ScribbleDocument): void {
+  const { errors } = document.registry.validateDependencies();
+
+  for (const error of errors) {
+    let ranges: Range[] = [];
+
+    if (error.type === 'not-found') {
+      ranges = protocolReferences(document, error.protocolName, error.referencedBy);
+    } else if (error.type === 'role-mismatch') {
+      // Reported for an extension, or for the protocol it extends
+      const extension = protocolDeclarations(document).find(d =>
+        d.type === 'ProtocolExtension' &&
+        (d.name === error.protocolName || d.extends === error.protocolName)
+      ) as ProtocolExtension | undefined;
+      if (extension) {
+        ranges = protocolReferences(document, extension.extends, extension.name);
+      }
+    } else if (error.type === 'circular-dependency') {
+      ranges = (error.details.cycle as string[])
+        .map(name => protocolNameRange(document, name))
+        .filter((range): range is Range => range !== undefined);
+    }
+
+    for (const range of ranges) {
+      document.diagnostics.push(diagnostic(range, error.message, 'registry'));
+    }
+  }
+}
+
+/**
+ * Type-check the document, resolving the payload types of its messages (and
+ * of the imported modules, which their own documents report on)
+ */
+function checkPayloadTypes(document: ScribbleDocument, hasImports: boolean): void {
+  const types = document.program?.types;
+  for (const loaded of document.program?.modules.values() ?? []) {
+    if (loaded !== document.program!.entry) checkTypes(loaded.module, { types });
+  }
+
+  const result = checkTypes(document.module!, { types });
+  for (const error of result.errors) {
+    // Imported types are unknown when the imports could not be loaded
+    if (error.type === 'unknown-type' && hasImports && !document.program) continue;
+    document.diagnostics.push(diagnostic(toRange(error.location), error.message, 'types'));
+  }
+}
+
+/**
+ * Build, verify and (for extensions) subtype-check every protocol of the document
+ */
+function checkProtocols(document: ScribbleDocument): void {
+  for (const decl of protocolDeclarations(document)) {
+    const nameRange = protocolNameRange(document, decl.name) ?? toRange(decl.location);
+
+    let cfg: CFG;
+    try {
+      const protocol = document.registry.resolve(decl.name);
+      // Role families have no CFG until their size is fixed (smpst verify --bounds)
+      if (hasRoleFamilies(protocol)) continue;
+      cfg = buildCFG(protocol);
+    } catch (error: any) {
+      document.diagnostics.push(diagnostic(nameRange, error.message, 'cfg'));
+      continue;
+    }
+    document.cfgs.set(decl.name, cfg);
+
+    let result: CompleteVerification;
+    try {
+      result = verifyProtocol(cfg);
+    } catch (error: any) {
+      document.diagnostics.push(diagnostic(nameRange, error.message, 'verification'));
+      continue;
+    }
+
+    for (const issue of verificationIssues(result)) {
+      const ranges = issue.nodes
+        .map(id => cfg.nodes.find(n => n.id === id))
+        .map(node => node?.type === 'action' ? (node.action as { location?: SourceLocation }).location : undefined)
+        .filter((location): location is SourceLocation => location !== undefined)
+        .map(toRange);
+
+      for (const range of ranges.length > 0 ? ranges : [nameRange]) {
+        document.diagnostics.push(diagnostic(range, issue.message, issue.code, issue.severity));
+      }
+    }
+
+    // Unused roles
+    if (!result.connectedness.isConnected) {
+      for (const role of result.connectedness.orphanedRoles) {
+        const declaration = document.occurrences.find(o =>
+          o.kind === 'role' && o.isDeclaration && o.protocol === decl.name && o.name === role
+        );
+        document.diagnostics.push(diagnostic(
+          declaration ? rangeOfOccurrence(document, declaration) : nameRange,
+          `Role "${role}" never communicates`,
+          'connectedness'
+        ));
+      }
+    }
+
+    if (decl.type === 'ProtocolExtension' && document.registry.has(decl.extends)) {
+      checkSubtyping(document, decl);
+    }
+  }
+}
+
+function checkSubtyping(document: ScribbleDocument, extension: ProtocolExtension): void {
+  const ranges = protocolReferences(document, extension.extends, extension.name);
+  const range = ranges[0] ?? toRange(extension.location);
+
+  try {
+    const result = checkExtension(document.registry, extension.name);
+    for (const role of result.roles) {
+      if (!role.isSubtype) {
+        document.diagnostics.push(diagnostic(
+          range,
+          `${extension.name} cannot replace ${extension.extends}: ${role.counterexample!.reason}`,
+          'subtyping'
+        ));
+      }
+    }
+  } catch (error: any) {
+    document.diagnostics.push(diagnostic(range, error.message, 'subtyping'));
+  }
+}
+
+/**
+ * Flatten verification results into messages and the CFG nodes involved
+ */
+function verificationIssues(result: CompleteVerification): VerificationIssue[] {
+  const { Error, Warning } = DiagnosticSeverity;
+  const issues: VerificationIssue[] = [];
+  const add = (code: string, message: string, nodes: Array<string | undefined>, severity: DiagnosticSeverity = Error) =>
+    issues.push({ code, message, nodes, severity });
+
+  for (const error of result.structural.errors) add('structural', error.message, error.nodes ?? []);
+  for (const warning of result.structural.warnings) add('structural', warning.message, warning.nodes ?? [], Warning);
+  for (const cycle of result.deadlock.cycles) add('deadlock', cycle.description, cycle.nodes);
+  for (const v of result.liveness.violations) add('liveness', v.description, [v.nodeId]);
+  for (const c of result.parallelDeadlock.conflicts) add('parallel-deadlock', c.description, [...c.branch1, ...c.branch2]);
+  for (const race of result.raceConditions.races) add('race-condition', race.description, race.conflictingActions);
+  if (!result.progress.canProgress) {
+    add('progress', result.progress.description ?? 'Protocol cannot make progress', result.progress.blockedNodes);
+  }
+  for (const v of result.choiceDeterminism.violations) add('choice-determinism', v.description, v.branches);
+  for (const v of result.choiceMergeability.violations) add('choice-mergeability', v.description, [v.branchNodeId]);
+  for (const v of result.nestedRecursion.violations) add('nested-recursion', v.description, []);
+  for (const v of result.recursionInParallel.violations) add('recursion-in-parallel', v.description, [v.recursiveNodeId]);
+  for (const v of result.forkJoinStructure.violations) add('fork-join', v.description, [v.forkNodeId, v.joinNodeId]);
+  for (const w of result.multicast.warnings) add('multicast', w.description, [w.actionNodeId], Warning);
+  for (const v of result.selfCommunication.violations) add('self-communication', v.description, [v.actionNodeId]);
+  for (const v of result.emptyChoiceBranch.violations) add('empty-choice-branch', v.description, [v.branchNodeId]);
+  for (const v of result.mergeReachability.violations) add('merge-reachability', v.description, [v.branchNodeId]);
+  for (const v of result.deadlines.violations) add('deadlines', v.description, [v.nodeId]);
+  for (const v of result.crashTolerance.violations) add('crash-tolerance', v.description, [v.nodeId]);
+
+  return issues;
+}
+
+// ============================================================================
+// Symbol Index
+// ============================================================================
+
+/**
+ * Classify the names of a module by what they refer to
+ *
+ * AST nodes locate statements; the tokens inside them locate names.
+ */
+function indexDocument(module: Module, tokens: IToken[]): SymbolOccurrence[] {
+  const occurrences: SymbolOccurrence[] = [];
+  const claimed = new Set<number>();
+  const indexAt = new Map(tokens.map((token, i) => [token.startOffset, i]));
+
+  const add = (
+    kind: SymbolOccurrence['kind'],
+    name: string,
+    first: number,
+    last: number,
+    protocol: string | undefined,
+    isDeclaration: boolean
+  ): void => {
+    for (let i = first; i <= last; i++) claimed.add(i);
+    occurrences.push({
+      kind,
+      name,
+      start: tokens[first].startOffset,
+      end: tokens[last].endOffset! + 1,
+      protocol,
+      isDeclaration,
+    });
+  };
+
+  // Index of the first identifier at or after `from`
+  const nextIdentifier = (from: number | undefined, to: number): number | undefined => {
+    if (from === undefined) return undefined;
+    for (let i = from; i <= to && i < tokens.length; i++) {
+      if (tokens[i].tokenType === Identifier) return i;
+    }
+    return undefined;
+  };
+
+  // Last token of a qualified name (`auth.Login`) starting at `first`
+  const qualifiedEnd = (first: number): number => {
+    let last = first;
+    while (tokens[last + 1]?.tokenType === Dot && tokens[last + 2]?.tokenType === Identifier) {
+      last += 2;
+    }
+    return last;
+  };
+
+  const lastIndex = (location: SourceLocation): number => {
+    let i = indexAt.get(location.start.offset) ?? 0;
+    while (i + 1 < tokens.length && tokens[i + 1].startOffset <= location.end.offset) i++;
+    return i;
+  };
+
+  for (const decl of module.declarations) {
+    if (!decl.location || decl.type === 'ImportDeclaration') continue;
+
+    const first = indexAt.get(decl.location.start.offset);
+    const last = lastIndex(decl.location);
+    const nameIndex = nextIdentifier(first, last);
+    if (first === undefined || nameIndex === undefined) continue;
+
+    if (decl.type === 'TypeDeclaration') {
+      add('type', decl.name, nameIndex, nameIndex, undefined, true);
+      continue;
+    }
+
+    const protocol = decl.name;
+    add('protocol', protocol, nameIndex, nameIndex, undefined, true);
+
+    const roles = new Set<string>();
+    if (decl.type !== 'LocalProtocolDeclaration') {
+      for (const role of decl.roles) {
+        roles.add(role.name);
+        const roleIndex = role.location ? indexAt.get(role.location.start.offset) : undefined;
+        if (roleIndex !== undefined) add('role', role.name, roleIndex, roleIndex, protocol, true);
+      }
+    }
+
+    if (decl.type === 'ProtocolExtension') {
+      for (let i = nameIndex; i <= last; i++) {
+        if (tokens[i].tokenType === Extends) {
+          add('protocol', decl.extends, i + 1, qualifiedEnd(i + 1), protocol, false);
+          break;
+        }
+      }
+    }
+
+    // Protocol references, labels and types, from the AST
+    visitNodes(decl, node => {
+      if (!node.location) return;
+      const start = indexAt.get(node.location.start.offset);
+      if (start === undefined) return;
+
+      switch (node.type) {
+        case 'Do':
+          add('protocol', node.protocol, start + 1, qualifiedEnd(start + 1), protocol, false);
+          break;
+        case 'ProtocolCall': {
+          let i = start;
+          while (i < last && tokens[i].tokenType !== Calls) i++;
+          add('protocol', node.protocol, i + 1, qualifiedEnd(i + 1), protocol, false);
+          break;
+        }
+        case 'Message':
+          add('label', node.label, start, start, protocol, false);
+          break;
+        case 'SimpleType':
+        case 'ParametricType':
+          add('type', node.name, start, start, protocol, false);
+          break;
+      }
+    });
+
+    // Remaining identifiers naming a role (not recursion or exception labels)
+    for (let i = nameIndex + 1; i <= last; i++) {
+      const token = tokens[i];
+      const previous = tokens[i - 1]?.tokenType;
+      if (
+        token.tokenType === Identifier &&
+        !claimed.has(i) &&
+        roles.has(token.image) &&
+        previous !== Rec && previous !== Continue && previous !== Throw && previous !== Catch
+      ) {
+        add('role', token.image, i, i, protocol, false);
+      }
+    }
+  }
+
+  return occurrences.sort((a, b) => a.start - b.start);
+}
+
+function visitNodes(node: any, visit: (node: any) => void): void {
+  if (Array.isArray(node)) {
+    for (const child of node) visitNodes(child, visit);
+    return;
+  }
+  if (node === null || typeof node !== 'object') return;
+
+  if (typeof node.type === 'string') visit(node);
+  for (const [key, value] of Object.entries(node)) {
+    if (key !== 'location') visitNodes(value, visit);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * This document's global protocols and protocol extensions
+ */
+export function protocolDeclarations(document: ScribbleDocument): Array<GlobalProtocolDeclaration | ProtocolExtension> {
+  return (document.module?.declarations ?? []).filter(
+    (d): d is GlobalProtocolDeclaration | ProtocolExtension =>
+      d.type === 'GlobalProtocolDeclaration' || d.type === 'ProtocolExtension'
+  );
+}
+
+function protocolNameRange(document: ScribbleDocument, name: string): Range | undefined {
+  const occurrence = document.occurrences.find(o => o.kind === 'protocol' && o.isDeclaration && o.name === name);
+  return occurrence && rangeOfOccurrence(document, occurrence);
+}
+
+/**
+ * Ranges where `referencedBy` refers to protocol `name`
+ */
+function protocolReferences(document: ScribbleDocument, name: string, referencedBy?: string): Range[] {
+  return document.occurrences
+    .filter(o => o.kind === 'protocol' && !o.isDeclaration && o.name === name && o.protocol === referencedBy)
+    .map(o => rangeOfOccurrence(document, o));
+}
+
+function diagnostic(
+  range: Range,
+  message: string,
+  code: string,
+  severity: DiagnosticSeverity = DiagnosticSeverity.Error
+): Diagnostic {
+  return { range, severity, message, source: 'smpst', code };
+}
+
+function deduplicate(diagnostics: Diagnostic[]): Diagnostic[] {
+  const seen = new Set<string>();
+  return diagnostics.filter(d => {
+    const key = JSON.stringify([d.range, d.message]);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function startOfDocument(): Range {
+  return { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } };
+}
+
+/**
+ * Convert a parser location (1-based, end inclusive) to a range
+ */
+export function toRange(location?: SourceLocation): Range {
+  if (!location) return startOfDocument();
+  return {
+    start: { line: location.start.line - 1, character: location.start.column - 1 },
+    end: { line: location.end.line - 1, character: location.end.column },
+  };
+}
+
+export function rangeOfOccurrence(document: ScribbleDocument, occurrence: SymbolOccurrence): Range {
+  return {
+    start: offsetToPosition(document.text, occurrence.start),
+    end: offsetToPosition(document.text, occurrence.end),
+  };
+}
+
+export function offsetToPosition(text: string, offset: number): Range['start'] {
+  let line = 0;
+  let lineStart = 0;
+  for (let i = 0; i < offset && i < text.length; i++) {
+    if (text[i] === '\n') {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return { line, character: offset - lineStart };
+}
+
+export function positionToOffset(text: string, position: Range['start']): number {
+  let offset = 0;
+  for (let line = 0; line < position.line; line++) {
+    const newline = text.indexOf('\n', offset);
+    if (newline < 0) return text.length;
+    offset = newline + 1;
+  }
+  return Math.min(offset + position.character, text.length);
+}
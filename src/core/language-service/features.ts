@@ -0,0 +1,369 @@
+/**
+ * Editor Features
+ *
+ * Hover, go-to-definition, find-references and completion on an analyzed
+ * document (see analyzeDocument).
+ */
+
+import type { IToken } from 'chevrotain';
+import type {
+  GlobalProtocolDeclaration,
+  Message,
+  ModuleDeclaration,
+  ProtocolExtension,
+} from '../ast/types';
+import { formatType, formatPayload, formatResolvedType } from '../type-checker/type-checker';
+import { formatExpression } from '../predicates/evaluator';
+import { ScribbleLexer, allTokens, Identifier, Protocol, Role, LCurly, Do, Calls, Extends, Dot } from '../parser/lexer';
+import { projectAll } from '../projection/projector';
+import type { CFSM, CFSMAction } from '../projection/types';
+import {
+  protocolDeclarations,
+  positionToOffset,
+  rangeOfOccurrence,
+  toRange,
+  type ScribbleDocument,
+} from './document';
+import {
+  CompletionItemKind,
+  type CompletionItem,
+  type DefinitionLocation,
+  type Hover,
+  type Position,
+  type SymbolOccurrence,
+} from './types';
+
+/**
+ * Keywords, as written (every keyword token falls back to Identifier)
+ */
+const KEYWORDS = allTokens
+  .filter(token => token.LONGER_ALT === Identifier)
+  .map(token => (token.PATTERN as RegExp).source);
+
+/**
+ * Projected CFSMs per protocol, computed on first use
+ */
+const machines = new WeakMap<ScribbleDocument, Map<string, Map<string, CFSM>>>();
+
+// ============================================================================
+// Hover
+// ============================================================================
+
+/**
+ * Hover on a role (its projected local actions), a message (payload type
+ * and the local action of each role), a protocol or a type alias
+ */
+export function getHover(document: ScribbleDocument, position: Position): Hover | null {
+  const occurrence = occurrenceAt(document, position);
+  if (!occurrence) return null;
+
+  let value: string | undefined;
+  switch (occurrence.kind) {
+    case 'role':
+      value = hoverRole(document, occurrence);
+      break;
+    case 'label':
+      value = hoverMessage(document, occurrence);
+      break;
+    case 'protocol':
+      value = hoverProtocol(document, occurrence.name);
+      break;
+    case 'type':
+      value = hoverType(document, occurrence.name);
+      break;
+  }
+
+  return value === undefined
+    ? null
+    : { contents: { kind: 'markdown', value }, range: rangeOfOccurrence(document, occurrence) };
+}
+
+function hoverRole(document: ScribbleDocument, occurrence: SymbolOccurrence): string {
+  const lines = [
+    code(`role ${occurrence.name}`),
+    `Role of protocol \`${occurrence.protocol}\``,
+  ];
+
+  const cfsm = localMachines(document, occurrence.protocol!)?.get(occurrence.name);
+  if (cfsm) {
+    const actions = new Set<string>();
+    for (const t of cfsm.transitions) {
+      const action = formatAction(t.action);
+      if (action) actions.add(action);
+    }
+    lines.push(
+      '',
+      'Local actions (projected):',
+      ...(actions.size > 0 ? [...actions].map(a => `- \`${a}\``) : ['- none'])
+    );
+  }
+
+  return lines.join('\n');
+}
+
+function hoverMessage(document: ScribbleDocument, occurrence: SymbolOccurrence): string | undefined {
+  const interaction = findInteraction(document, occurrence.start);
+  if (!interaction) return undefined;
+
+  const { message, from, to } = interaction;
+  const receivers = Array.isArray(to) ? to.join(', ') : to;
+  const lines = [code(`${from} -> ${receivers}: ${formatMessage(message)};`)];
+
+  if (message.payload) {
+    const written = formatType(message.payload.payloadType);
+    const resolved = message.payload.resolvedType && formatResolvedType(message.payload.resolvedType);
+    lines.push(resolved && resolved !== written
+      ? `Payload: \`${written}\` = \`${resolved}\``
+      : `Payload: \`${written}\``);
+  }
+
+  // Local action of each role for this very message
+  const projected: string[] = [];
+  for (const [role, cfsm] of localMachines(document, occurrence.protocol!) ?? []) {
+    const actions = new Set<string>();
+    for (const t of cfsm.transitions) {
+      const action = t.action;
+      if (
+        (action.type === 'send' || action.type === 'receive') &&
+        action.message.location?.start.offset === occurrence.start
+      ) {
+        actions.add(formatAction(action)!);
+      }
+    }
+    for (const action of actions) projected.push(`- ${role}: \`${action}\``);
+  }
+  if (projected.length > 0) {
+    lines.push('', 'Projected:', ...projected);
+  }
+
+  return lines.join('\n');
+}
+
+function hoverProtocol(document: ScribbleDocument, name: string): string | undefined {
+  if (!document.registry.has(name)) return undefined;
+
+  const protocol = document.registry.resolve(name);
+  const base = document.registry.getSupertype(name);
+  const roles = protocol.roles.map(r => `role ${r.name}`).join(', ');
+  return code(`protocol ${name}(${roles})${base ? ` extends ${base}` : ''}`);
+}
+
+function hoverType(document: ScribbleDocument, name: string): string | undefined {
+  const declaration = findDeclaration(document, name, 'TypeDeclaration');
+  if (!declaration || declaration.decl.type !== 'TypeDeclaration') return undefined;
+  return code(`type ${name} as ${formatType(declaration.decl.typeValue)}`);
+}
+
+// ============================================================================
+// Definition and References
+// ============================================================================
+
+/**
+ * Declaration of the protocol (`do`, `calls`, `extends`), type alias or
+ * role under the cursor
+ */
+export function getDefinition(document: ScribbleDocument, position: Position): DefinitionLocation | null {
+  const occurrence = occurrenceAt(document, position);
+  if (!occurrence || occurrence.kind === 'label') return null;
+
+  // In this document
+  const local = document.occurrences.find(o =>
+    o.isDeclaration &&
+    o.kind === occurrence.kind &&
+    o.name === occurrence.name &&
+    (occurrence.kind !== 'role' || o.protocol === occurrence.protocol)
+  );
+  if (local) {
+    return { path: document.path, range: rangeOfOccurrence(document, local) };
+  }
+
+  // In an imported module
+  if (occurrence.kind === 'role') return null;
+  const imported = findDeclaration(
+    document,
+    occurrence.name,
+    occurrence.kind === 'type' ? 'TypeDeclaration' : 'Protocol'
+  );
+  return imported ? { path: imported.path, range: toRange(imported.decl.location) } : null;
+}
+
+/**
+ * Occurrences of the role (or protocol) under the cursor in this document
+ */
+export function getReferences(
+  document: ScribbleDocument,
+  position: Position,
+  includeDeclaration: boolean = true
+): DefinitionLocation[] {
+  const occurrence = occurrenceAt(document, position);
+  if (!occurrence || (occurrence.kind !== 'role' && occurrence.kind !== 'protocol')) return [];
+
+  return document.occurrences
+    .filter(o =>
+      o.kind === occurrence.kind &&
+      o.name === occurrence.name &&
+      (occurrence.kind !== 'role' || o.protocol === occurrence.protocol) &&
+      (includeDeclaration || !o.isDeclaration)
+    )
+    .map(o => ({ path: document.path, range: rangeOfOccurrence(document, o) }));
+}
+
+// ============================================================================
+// Completion
+// ============================================================================
+
+/**
+ * Keywords and the roles of the enclosing protocol; protocol names after
+ * `do`, `calls` and `extends`
+ *
+ * Works from tokens, so that half-typed (unparsable) documents still complete.
+ */
+export function getCompletions(document: ScribbleDocument, position: Position): CompletionItem[] {
+  const offset = positionToOffset(document.text, position);
+  const tokens = ScribbleLexer.tokenize(document.text).tokens.filter(t => t.endOffset! + 1 <= offset);
+
+  // Skip the word being typed (and a qualifier before it)
+  let i = tokens.length - 1;
+  if (i >= 0 && tokens[i].tokenType === Identifier && tokens[i].endOffset! + 1 === offset) i--;
+  while (i >= 1 && tokens[i].tokenType === Dot && tokens[i - 1].tokenType === Identifier) i -= 2;
+
+  const previous = tokens[i]?.tokenType;
+  if (previous === Do || previous === Calls || previous === Extends) {
+    return document.registry.getProtocolNames().map(name => ({
+      label: name,
+      kind: CompletionItemKind.Function,
+      detail: hoverProtocol(document, name)?.replace(/```\w*\n?/g, '').trim(),
+    }));
+  }
+
+  const roles = enclosingRoles(tokens).map(name => ({
+    label: name,
+    kind: CompletionItemKind.Variable,
+    detail: 'role',
+  }));
+  const keywords = KEYWORDS.map(keyword => ({ label: keyword, kind: CompletionItemKind.Keyword }));
+
+  return [...roles, ...keywords];
+}
+
+/**
+ * Roles declared by the last protocol header before the cursor
+ */
+function enclosingRoles(tokens: IToken[]): string[] {
+  let header = -1;
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    if (tokens[i].tokenType === Protocol) {
+      header = i;
+      break;
+    }
+  }
+  if (header < 0) return [];
+
+  const roles: string[] = [];
+  for (let i = header + 1; i < tokens.length && tokens[i].tokenType !== LCurly; i++) {
+    if (tokens[i].tokenType === Role && tokens[i + 1]?.tokenType === Identifier) {
+      roles.push(tokens[i + 1].image);
+    }
+  }
+  return roles;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function occurrenceAt(document: ScribbleDocument, position: Position): SymbolOccurrence | undefined {
+  const offset = positionToOffset(document.text, position);
+  return document.occurrences.find(o => o.start <= offset && offset <= o.end);
+}
+
+function localMachines(document: ScribbleDocument, protocol: string): Map<string, CFSM> | undefined {
+  let byProtocol = machines.get(document);
+  if (!byProtocol) {
+    byProtocol = new Map();
+    machines.set(document, byProtocol);
+  }
+
+  if (!byProtocol.has(protocol)) {
+    const cfg = document.cfgs.get(protocol);
+    if (!cfg) return undefined;
+    byProtocol.set(protocol, projectAll(cfg).cfsms);
+  }
+  return byProtocol.get(protocol);
+}
+
+/**
+ * Declaration with a canonical name, in this document or an imported module
+ */
+function findDeclaration(
+  document: ScribbleDocument,
+  name: string,
+  kind: 'TypeDeclaration' | 'Protocol'
+): { path: string; decl: ModuleDeclaration } | undefined {
+  const modules = document.program
+    ? [...document.program.modules.values()].map(m => ({ path: m.path, declarations: m.module.declarations }))
+    : [{ path: document.path, declarations: document.module?.declarations ?? [] }];
+
+  for (const { path, declarations } of modules) {
+    const decl = declarations.find(d =>
+      d.type !== 'ImportDeclaration' &&
+      d.name === name &&
+      (kind === 'TypeDeclaration'
+        ? d.type === 'TypeDeclaration'
+        : d.type === 'GlobalProtocolDeclaration' || d.type === 'ProtocolExtension')
+    );
+    if (decl) return { path, decl };
+  }
+  return undefined;
+}
+
+/**
+ * The message transfer whose label starts at `offset`
+ */
+function findInteraction(
+  document: ScribbleDocument,
+  offset: number
+): { message: Message; from: string; to: string | string[] } | undefined {
+  let found: { message: Message; from: string; to: string | string[] } | undefined;
+
+  const visit = (node: any): void => {
+    if (found || node === null || typeof node !== 'object') return;
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (
+      (node.type === 'MessageTransfer' || node.type === 'TimedMessage') &&
+      node.message.location?.start.offset === offset
+    ) {
+      found = node;
+      return;
+    }
+    for (const [key, value] of Object.entries(node)) {
+      if (key !== 'location') visit(value);
+    }
+  };
+
+  protocolDeclarations(document).forEach((decl: GlobalProtocolDeclaration | ProtocolExtension) => visit(decl));
+  return found;
+}
+
+function formatAction(action: CFSMAction): string | undefined {
+  if (action.type === 'send') {
+    const to = Array.isArray(action.to) ? action.to.join(',') : action.to;
+    return `${to}!${formatMessage(action.message)}`;
+  }
+  if (action.type === 'receive') {
+    return `${action.from}?${formatMessage(action.message)}`;
+  }
+  return undefined;
+}
+
+function formatMessage(message: Message): string {
+  const signature = `${message.label}(${message.payload ? formatPayload(message.payload) : ''})`;
+  return message.predicate ? `${signature} where ${formatExpression(message.predicate)}` : signature;
+}
+
+function code(source: string): string {
+  return '```scribble\n' + source + '\n```';
+}
@@ -0,0 +1,29 @@
+/**
+ * Language Service Module
+ *
+ * Editor support for Scribble documents: diagnostics from the whole
+ * pipeline, hover, go-to-definition, find-references and completion.
+ * Used by the LSP server (`smpst lsp`).
+ */
+
+// Types
+export {
+  DiagnosticSeverity,
+  CompletionItemKind,
+} from './types';
+export type {
+  Position,
+  Range,
+  DefinitionLocation,
+  Diagnostic,
+  Hover,
+  CompletionItem,
+  SymbolOccurrence,
+} from './types';
+
+// Analysis
+export { analyzeDocument, offsetToPosition, positionToOffset } from './document';
+export type { ScribbleDocument } from './document';
+
+// Features
+export { getHover, getDefinition, getReferences, getCompletions } from './features';
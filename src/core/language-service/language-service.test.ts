@@ -0,0 +1,291 @@
+/**
+ * Language Service Tests
+ *
+ * Editor features on analyzed documents:
+ * 1. Diagnostics (with source ranges)
+ * 2. Hover
+ * 3. Definition and References
+ * 4. Completion
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeDocument,
+  getHover,
+  getDefinition,
+  getReferences,
+  getCompletions,
+  DiagnosticSeverity,
+  type Position,
+  type Range,
+  type ScribbleDocument,
+} from './index';
+import { InMemoryModuleResolver } from '../protocol-registry/module-loader';
+
+const AUTH = `type Token as String;
+
+protocol Login(role Client, role Server) {
+  Client -> Server: Credentials(String);
+  Server -> Client: Session(Token);
+}
+`;
+
+const SHOP = `import "lib/auth.scr";
+type Amount as Int;
+
+protocol Shop(role Buyer, role Seller) {
+  do Login(Buyer, Seller);
+  Buyer -> Seller: Order(Amount);
+  choice at Seller {
+    Seller -> Buyer: Accept();
+  } or {
+    Seller -> Buyer: Reject(String);
+  }
+}
+`;
+
+function analyze(text: string, files: Record<string, string> = { 'lib/auth.scr': AUTH }): ScribbleDocument {
+  return analyzeDocument('shop.scr', text, new InMemoryModuleResolver(files));
+}
+
+/**
+ * Position of the n-th occurrence of `word` (plus `offset` characters)
+ */
+function at(document: ScribbleDocument, word: string, n: number = 0, offset: number = 1): Position {
+  let index = -1;
+  for (let i = 0; i <= n; i++) index = document.text.indexOf(word, index + 1);
+  const before = document.text.slice(0, index + offset);
+  const lines = before.split('\n');
+  return { line: lines.length - 1, character: lines[lines.length - 1].length };
+}
+
+function textOf(document: ScribbleDocument, range: Range): string {
+  const lines = document.text.split('\n');
+  return lines[range.start.line].slice(range.start.character, range.end.character);
+}
+
+// ============================================================================
+// Diagnostics
+// ============================================================================
+
+describe('Language Service - Diagnostics', () => {
+  it('should report no diagnostics for a correct document', () => {
+    const document = analyze(SHOP);
+    expect(document.diagnostics).toEqual([]);
+  });
+
+  it('should report a syntax error at the offending token', () => {
+    const document = analyze(`protocol P(role A, role B) {\n  A -> B Hello();\n}`);
+
+    expect(document.diagnostics).toHaveLength(1);
+    expect(document.diagnostics[0].code).toBe('parse');
+    expect(document.diagnostics[0].range).toEqual({
+      start: { line: 1, character: 9 },
+      end: { line: 1, character: 14 },
+    });
+  });
+
+  it('should report every syntax error and still check the protocols that parsed', () => {
+    const document = analyze(`protocol Broken(role A, role B) {
+  A -> B: Hello()
+  contine Loop;
+}
+
+protocol Ambiguous(role A, role B) {
+  choice at A { A -> B: Go(); } or { A -> B: Go(); }
+}`);
+
+    expect(document.diagnostics.filter(d => d.code === 'parse').map(d => d.message)).toEqual([
+      'Expected ";" but found "contine" (missing `;` after message)',
+      expect.stringContaining('(did you mean `continue`?)'),
+    ]);
+    expect(document.diagnostics.some(d => d.code === 'choice-determinism')).toBe(true);
+  });
+
+  it('should report an unresolved do target on the protocol name', () => {
+    const document = analyze(SHOP.replace('do Login', 'do Logni'));
+    const diagnostic = document.diagnostics.find(d => d.code === 'registry')!;
+
+    expect(diagnostic.message).toContain('Protocol "Logni" not found');
+    expect(textOf(document, diagnostic.range)).toBe('Logni');
+  });
+
+  it('should report a missing module on its import', () => {
+    const document = analyze(SHOP, {});
+    const diagnostic = document.diagnostics.find(d => d.code === 'imports')!;
+
+    expect(diagnostic.message).toContain('Module "lib/auth.scr" not found');
+    expect(diagnostic.range.start.line).toBe(0);
+  });
+
+  it('should report verification failures on the messages involved', () => {
+    const document = analyze(`protocol Ambiguous(role A, role B) {
+  choice at A {
+    A -> B: Go();
+  } or {
+    A -> B: Go();
+  }
+}`);
+
+    const determinism = document.diagnostics.filter(d => d.code === 'choice-determinism');
+    expect(determinism).toHaveLength(2);
+    expect(determinism.map(d => d.range.start.line)).toEqual([2, 4]);
+    expect(textOf(document, determinism[0].range)).toBe('A -> B: Go();');
+  });
+
+  it('should report type errors on the types involved', () => {
+    const document = analyze(`protocol Shop(role Buyer, role Seller) {
+  choice at Buyer {
+    Buyer -> Seller: Order(items: List<Item>);
+  } or {
+    Buyer -> Seller: Order(Int);
+  }
+}`);
+
+    const types = document.diagnostics.filter(d => d.code === 'types');
+    expect(types.map(d => d.message)).toEqual(['Unknown type "Item"']);
+    expect(textOf(document, types[0].range)).toBe('Item');
+  });
+
+  it('should resolve types imported from other modules', () => {
+    const document = analyze(SHOP.replace('Order(Amount)', 'Order(Token)'));
+    expect(document.diagnostics).toEqual([]);
+  });
+
+  it('should report multicast as a warning', () => {
+    const document = analyze(`protocol Broadcast(role A, role B, role C) {
+  A -> B, C: News();
+}`);
+
+    const multicast = document.diagnostics.find(d => d.code === 'multicast')!;
+    expect(multicast.severity).toBe(DiagnosticSeverity.Warning);
+  });
+
+  it('should report an extension that cannot replace its base protocol', () => {
+    const document = analyze(`protocol V1(role C, role S) {
+  C -> S: Get();
+}
+
+protocol V2(role C, role S) extends V1 {
+  C -> S: Post();
+}`);
+
+    const diagnostic = document.diagnostics.find(d => d.code === 'subtyping')!;
+    expect(diagnostic.message).toContain('V2 cannot replace V1');
+    expect(textOf(document, diagnostic.range)).toBe('V1');
+  });
+});
+
+// ============================================================================
+// Hover
+// ============================================================================
+
+describe('Language Service - Hover', () => {
+  const document = analyze(SHOP);
+
+  it('should show the payload type and projected actions of a message', () => {
+    const hover = getHover(document, at(document, 'Order'))!;
+
+    expect(textOf(document, hover.range)).toBe('Order');
+    expect(hover.contents.value).toContain('Buyer -> Seller: Order(Amount);');
+    expect(hover.contents.value).toContain('- Buyer: `Seller!Order(Amount)`');
+    expect(hover.contents.value).toContain('- Seller: `Buyer?Order(Amount)`');
+  });
+
+  it('should show the resolved payload type of a message', () => {
+    const hover = getHover(document, at(document, 'Order'))!;
+    expect(hover.contents.value).toContain('Payload: `Amount` = `Int`');
+  });
+
+  it('should show the projected local actions of a role', () => {
+    const hover = getHover(document, at(document, 'Seller', 2))!;
+
+    expect(hover.contents.value).toContain('role Seller');
+    expect(hover.contents.value).toContain('`Buyer!Accept()`');
+    expect(hover.contents.value).toContain('`Buyer!Reject(String)`');
+  });
+
+  it('should show the signature of a sub-protocol and a type alias', () => {
+    expect(getHover(document, at(document, 'Login'))!.contents.value)
+      .toContain('protocol auth.Login(role Client, role Server)');
+    expect(getHover(document, at(document, 'Amount', 1))!.contents.value)
+      .toContain('type Amount as Int');
+  });
+
+  it('should show nothing on punctuation', () => {
+    expect(getHover(document, at(document, '{', 0, 0))).toBeNull();
+  });
+});
+
+// ============================================================================
+// Definition and References
+// ============================================================================
+
+describe('Language Service - Definition and References', () => {
+  const document = analyze(SHOP);
+
+  it('should go to a do target in an imported module', () => {
+    const definition = getDefinition(document, at(document, 'Login'))!;
+
+    expect(definition.path).toBe('lib/auth.scr');
+    expect(definition.range.start.line).toBe(2);
+  });
+
+  it('should go to a type alias in the same document', () => {
+    const definition = getDefinition(document, at(document, 'Amount', 1))!;
+
+    expect(definition.path).toBe('shop.scr');
+    expect(textOf(document, definition.range)).toBe('Amount');
+    expect(definition.range.start.line).toBe(1);
+  });
+
+  it('should find every reference of a role', () => {
+    const references = getReferences(document, at(document, 'Buyer'));
+
+    expect(references).toHaveLength(5);
+    expect(references.every(r => textOf(document, r.range) === 'Buyer')).toBe(true);
+    expect(getReferences(document, at(document, 'Buyer'), false)).toHaveLength(4);
+  });
+
+  it('should not confuse roles with labels of the same name', () => {
+    const document = analyze(`protocol P(role A, role B) {
+  A -> B: B();
+  rec A2 { B -> A: Ack(); }
+}`);
+
+    const references = getReferences(document, at(document, 'B'));
+    expect(references.map(r => r.range.start)).toEqual([
+      { line: 0, character: 24 },
+      { line: 1, character: 7 },
+      { line: 2, character: 11 },
+    ]);
+  });
+});
+
+// ============================================================================
+// Completion
+// ============================================================================
+
+describe('Language Service - Completion', () => {
+  it('should complete keywords and the roles of the enclosing protocol', () => {
+    const document = analyze(SHOP);
+    const labels = getCompletions(document, at(document, 'choice', 0, 0)).map(c => c.label);
+
+    expect(labels).toEqual(expect.arrayContaining(['Buyer', 'Seller', 'choice', 'rec', 'do']));
+  });
+
+  it('should complete roles in a document that does not parse yet', () => {
+    const document = analyze(`protocol P(role Alice, role Bob) {\n  Al`);
+    const labels = getCompletions(document, { line: 1, character: 4 }).map(c => c.label);
+
+    expect(document.diagnostics[0].code).toBe('parse');
+    expect(labels).toEqual(expect.arrayContaining(['Alice', 'Bob']));
+  });
+
+  it('should complete protocol names after do', () => {
+    const document = analyze(SHOP);
+    const labels = getCompletions(document, at(document, 'Login', 0, 0)).map(c => c.label);
+
+    expect(labels.sort()).toEqual(['Shop', 'auth.Login']);
+  });
+});
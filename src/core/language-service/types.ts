@@ -0,0 +1,83 @@
+/**
+ * Language Service Types
+ *
+ * Editor-facing results for Scribble documents. Shapes follow the Language
+ * Server Protocol (0-based lines and characters, end-exclusive ranges), so
+ * the LSP server can send them as they are.
+ *
+ * @reference https://microsoft.github.io/language-server-protocol/specification
+ */
+
+export interface Position {
+  line: number;       // 0-based
+  character: number;  // 0-based, UTF-16 code units
+}
+
+export interface Range {
+  start: Position;
+  end: Position;      // Exclusive
+}
+
+/**
+ * A range in a (possibly other) module
+ */
+export interface DefinitionLocation {
+  path: string;
+  range: Range;
+}
+
+export const DiagnosticSeverity = {
+  Error: 1,
+  Warning: 2,
+  Information: 3,
+  Hint: 4,
+} as const;
+
+export type DiagnosticSeverity = typeof DiagnosticSeverity[keyof typeof DiagnosticSeverity];
+
+export interface Diagnostic {
+  range: Range;
+  severity: DiagnosticSeverity;
+  message: string;
+  source: 'smpst';
+  code?: string;      // Stage that found the problem, e.g. 'parse', 'deadlock'
+}
+
+export interface Hover {
+  contents: { kind: 'markdown'; value: string };
+  range: Range;
+}
+
+export const CompletionItemKind = {
+  Function: 3,
+  Variable: 6,
+  Keyword: 14,
+} as const;
+
+export type CompletionItemKind = typeof CompletionItemKind[keyof typeof CompletionItemKind];
+
+export interface CompletionItem {
+  label: string;
+  kind: CompletionItemKind;
+  detail?: string;
+}
+
+/**
+ * A name in the document, classified by what it refers to
+ */
+export interface SymbolOccurrence {
+  kind: 'protocol' | 'role' | 'type' | 'label';
+
+  /** Canonical name (protocols and types), or the name as written */
+  name: string;
+
+  /** Offsets of the name in the document (end exclusive) */
+  start: number;
+  end: number;
+
+  /** Enclosing protocol (canonical name), if any */
+  protocol?: string;
+
+  /** Whether this occurrence declares the name */
+  isDeclaration: boolean;
+}
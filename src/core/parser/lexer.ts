@@ -5,70 +5,104 @@
 
 import { createToken, Lexer } from 'chevrotain';
 
+// ============================================================================
+// Identifiers (defined first: keywords fall back to them via longer_alt,
+// so that e.g. `orders` is not lexed as `or` + `ders`)
+// ============================================================================
+
+export const Identifier = createToken({
+  name: 'Identifier',
+  pattern: /[a-zA-Z_][a-zA-Z0-9_]*/,
+});
+
 // ============================================================================
 // Keywords
 // ============================================================================
 
-export const Protocol = createToken({ name: 'Protocol', pattern: /protocol/ });
-export const Global = createToken({ name: 'Global', pattern: /global/ });
-export const Local = createToken({ name: 'Local', pattern: /local/ });
-export const Role = createToken({ name: 'Role', pattern: /role/ });
-export const Type = createToken({ name: 'Type', pattern: /type/ });
-export const Sig = createToken({ name: 'Sig', pattern: /sig/ });
-export const Import = createToken({ name: 'Import', pattern: /import/ });
-export const From = createToken({ name: 'From', pattern: /from/ });
-export const To = createToken({ name: 'To', pattern: /to/ });
-export const As = createToken({ name: 'As', pattern: /as/ });
-export const Choice = createToken({ name: 'Choice', pattern: /choice/ });
-export const At = createToken({ name: 'At', pattern: /at/ });
-export const Or = createToken({ name: 'Or', pattern: /or/ });
-export const Par = createToken({ name: 'Par', pattern: /par/ });
-export const And = createToken({ name: 'And', pattern: /and/ });
-export const Rec = createToken({ name: 'Rec', pattern: /rec/ });
-export const Continue = createToken({ name: 'Continue', pattern: /continue/ });
-export const Do = createToken({ name: 'Do', pattern: /do/ });
+export const Protocol = createToken({ name: 'Protocol', pattern: /protocol/, longer_alt: Identifier });
+export const Global = createToken({ name: 'Global', pattern: /global/, longer_alt: Identifier });
+export const Local = createToken({ name: 'Local', pattern: /local/, longer_alt: Identifier });
+export const Role = createToken({ name: 'Role', pattern: /role/, longer_alt: Identifier });
+export const Type = createToken({ name: 'Type', pattern: /type/, longer_alt: Identifier });
+export const Sig = createToken({ name: 'Sig', pattern: /sig/, longer_alt: Identifier });
+export const Import = createToken({ name: 'Import', pattern: /import/, longer_alt: Identifier });
+export const From = createToken({ name: 'From', pattern: /from/, longer_alt: Identifier });
+export const To = createToken({ name: 'To', pattern: /to/, longer_alt: Identifier });
+export const As = createToken({ name: 'As', pattern: /as/, longer_alt: Identifier });
+export const Choice = createToken({ name: 'Choice', pattern: /choice/, longer_alt: Identifier });
+export const At = createToken({ name: 'At', pattern: /at/, longer_alt: Identifier });
+export const Or = createToken({ name: 'Or', pattern: /or/, longer_alt: Identifier });
+export const Par = createToken({ name: 'Par', pattern: /par/, longer_alt: Identifier });
+export const And = createToken({ name: 'And', pattern: /and/, longer_alt: Identifier });
+export const Rec = createToken({ name: 'Rec', pattern: /rec/, longer_alt: Identifier });
+export const Continue = createToken({ name: 'Continue', pattern: /continue/, longer_alt: Identifier });
+export const Do = createToken({ name: 'Do', pattern: /do/, longer_alt: Identifier });
 
 // Future features
-export const Try = createToken({ name: 'Try', pattern: /try/ });
-export const Catch = createToken({ name: 'Catch', pattern: /catch/ });
-export const Throw = createToken({ name: 'Throw', pattern: /throw/ });
-export const Within = createToken({ name: 'Within', pattern: /within/ });
-export const Timeout = createToken({ name: 'Timeout', pattern: /timeout/ });
-export const Extends = createToken({ name: 'Extends', pattern: /extends/ });
+export const Try = createToken({ name: 'Try', pattern: /try/, longer_alt: Identifier });
+export const Catch = createToken({ name: 'Catch', pattern: /catch/, longer_alt: Identifier });
+export const Throw = createToken({ name: 'Throw', pattern: /throw/, longer_alt: Identifier });
+export const Within = createToken({ name: 'Within', pattern: /within/, longer_alt: Identifier });
+export const Timeout = createToken({ name: 'Timeout', pattern: /timeout/, longer_alt: Identifier });
+export const Extends = createToken({ name: 'Extends', pattern: /extends/, longer_alt: Identifier });
+export const Where = createToken({ name: 'Where', pattern: /where/, longer_alt: Identifier });
+
+// Crash-stop failures
+export const Unreliable = createToken({ name: 'Unreliable', pattern: /unreliable/, longer_alt: Identifier });
+export const On = createToken({ name: 'On', pattern: /on/, longer_alt: Identifier });
+export const Crash = createToken({ name: 'Crash', pattern: /crash/, longer_alt: Identifier });
 
 // DMst (Dynamically Updatable MPST) - Castro-Perez & Yoshida ECOOP 2023
-export const New = createToken({ name: 'New', pattern: /new/ });
-export const Calls = createToken({ name: 'Calls', pattern: /calls/ });
-export const With = createToken({ name: 'With', pattern: /with/ });
-export const Creates = createToken({ name: 'Creates', pattern: /creates/ });
-export const Invites = createToken({ name: 'Invites', pattern: /invites/ });
+export const New = createToken({ name: 'New', pattern: /new/, longer_alt: Identifier });
+export const Calls = createToken({ name: 'Calls', pattern: /calls/, longer_alt: Identifier });
+export const With = createToken({ name: 'With', pattern: /with/, longer_alt: Identifier });
+export const Creates = createToken({ name: 'Creates', pattern: /creates/, longer_alt: Identifier });
+export const Invites = createToken({ name: 'Invites', pattern: /invites/, longer_alt: Identifier });
+
+// Role families: role Worker[1..N], foreach i in 1..N { ... }
+export const Foreach = createToken({ name: 'Foreach', pattern: /foreach/, longer_alt: Identifier });
+export const In = createToken({ name: 'In', pattern: /in/, longer_alt: Identifier });
 
 // ============================================================================
 // Operators and Punctuation
 // ============================================================================
 
 export const Arrow = createToken({ name: 'Arrow', pattern: /->/ });
+
+// Predicate operators (message refinements: `where amount > 0`)
+export const AndAnd = createToken({ name: 'AndAnd', pattern: /&&/ });
+export const OrOr = createToken({ name: 'OrOr', pattern: /\|\|/ });
+export const EqualsEquals = createToken({ name: 'EqualsEquals', pattern: /==/ });
+export const NotEquals = createToken({ name: 'NotEquals', pattern: /!=/ });
+export const LessEquals = createToken({ name: 'LessEquals', pattern: /<=/ });
+export const GreaterEquals = createToken({ name: 'GreaterEquals', pattern: />=/ });
+export const Bang = createToken({ name: 'Bang', pattern: /!/ });
+export const Plus = createToken({ name: 'Plus', pattern: /\+/ });
+export const Minus = createToken({ name: 'Minus', pattern: /-/ });
+export const Star = createToken({ name: 'Star', pattern: /\*/ });
+export const Slash = createToken({ name: 'Slash', pattern: /\// });
+export const Percent = createToken({ name: 'Percent', pattern: /%/ });
 export const Colon = createToken({ name: 'Colon', pattern: /:/ });
 export const Semicolon = createToken({ name: 'Semicolon', pattern: /;/ });
 export const Comma = createToken({ name: 'Comma', pattern: /,/ });
+export const DotDot = createToken({ name: 'DotDot', pattern: /\.\./ });
 export const Dot = createToken({ name: 'Dot', pattern: /\./ });
 
 export const LCurly = createToken({ name: 'LCurly', pattern: /{/ });
 export const RCurly = createToken({ name: 'RCurly', pattern: /}/ });
 export const LParen = createToken({ name: 'LParen', pattern: /\(/ });
 export const RParen = createToken({ name: 'RParen', pattern: /\)/ });
+export const LBracket = createToken({ name: 'LBracket', pattern: /\[/ });
+export const RBracket = createToken({ name: 'RBracket', pattern: /\]/ });
 export const LAngle = createToken({ name: 'LAngle', pattern: /</ });
 export const RAngle = createToken({ name: 'RAngle', pattern: />/ });
+export const Pipe = createToken({ name: 'Pipe', pattern: /\|/ });
+export const Question = createToken({ name: 'Question', pattern: /\?/ });
 
 // ============================================================================
-// Identifiers and Literals
+// Literals
 // ============================================================================
 
-export const Identifier = createToken({
-  name: 'Identifier',
-  pattern: /[a-zA-Z_][a-zA-Z0-9_]*/,
-});
-
 export const StringLiteral = createToken({
   name: 'StringLiteral',
   pattern: /"(?:[^"\\]|\\.)*"/,
@@ -76,7 +110,7 @@ export const StringLiteral = createToken({
 
 export const NumberLiteral = createToken({
   name: 'NumberLiteral',
-  pattern: /[0-9]+/,
+  pattern: /[0-9]+(?:\.[0-9]+)?/,
 });
 
 // ============================================================================
@@ -89,16 +123,18 @@ export const WhiteSpace = createToken({
   group: Lexer.SKIPPED,
 });
 
+// Comments are kept out of the token stream, in their own group
+// (`tokenize(...).groups.comments`), for the formatter
 export const LineComment = createToken({
   name: 'LineComment',
   pattern: /\/\/[^\n\r]*/,
-  group: Lexer.SKIPPED,
+  group: 'comments',
 });
 
 export const BlockComment = createToken({
   name: 'BlockComment',
   pattern: /\/\*[\s\S]*?\*\//,
-  group: Lexer.SKIPPED,
+  group: 'comments',
 });
 
 // ============================================================================
@@ -106,7 +142,7 @@ export const BlockComment = createToken({
 // ============================================================================
 
 export const allTokens = [
-  // Whitespace and comments (skipped)
+  // Whitespace (skipped) and comments (grouped)
   WhiteSpace,
   LineComment,
   BlockComment,
@@ -137,6 +173,12 @@ export const allTokens = [
   Within,
   Timeout,
   Extends,
+  Where,
+
+  // Crash-stop failures
+  Unreliable,
+  On,
+  Crash,
 
   // DMst keywords
   New,
@@ -145,20 +187,41 @@ export const allTokens = [
   Creates,
   Invites,
 
+  // Role families (`in` after `invites`, which it prefixes)
+  Foreach,
+  In,
+
   // Operators (must come before single-char tokens)
   Arrow,
+  AndAnd,
+  OrOr,
+  EqualsEquals,
+  NotEquals,
+  LessEquals,
+  GreaterEquals,
 
   // Punctuation
   Colon,
   Semicolon,
   Comma,
+  DotDot,
   Dot,
   LCurly,
   RCurly,
   LParen,
   RParen,
+  LBracket,
+  RBracket,
   LAngle,
   RAngle,
+  Pipe,
+  Question,
+  Bang,
+  Plus,
+  Minus,
+  Star,
+  Slash,
+  Percent,
 
   // Identifiers and literals
   NumberLiteral,
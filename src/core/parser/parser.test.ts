@@ -4,7 +4,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { parse } from './parser';
+import { parse, parseWithRecovery, ParseError } from './parser';
 import type {
   Module,
   GlobalProtocolDeclaration,
@@ -13,6 +13,15 @@ import type {
   Parallel,
   Recursion,
   Do,
+  Try,
+  Throw,
+  TimedMessage,
+  Timeout,
+  CrashHandler,
+  ProtocolExtension,
+  LocalProtocolDeclaration,
+  TypeDeclaration,
+  Foreach,
 } from '../ast/types';
 
 describe('Scribble Parser - Basic Protocol Structure', () => {
@@ -668,6 +677,21 @@ describe('Scribble Parser - Do Statement', () => {
     expect(do1.roleArguments).toEqual(['Client', 'Server']);
     expect(do2.roleArguments).toEqual(['Server', 'Database']);
   });
+
+  it('should parse do with a protocol qualified by its module', () => {
+    const source = `
+      protocol UseImported(role A, role B) {
+        do auth.Login(A, B);
+      }
+    `;
+
+    const ast = parse(source);
+    const protocol = ast.declarations[0] as GlobalProtocolDeclaration;
+    const doStmt = protocol.body[0] as Do;
+
+    expect(doStmt.protocol).toBe('auth.Login');
+    expect(doStmt.roleArguments).toEqual(['A', 'B']);
+  });
 });
 
 describe('Scribble Parser - Complex Protocols', () => {
@@ -742,6 +766,311 @@ describe('Scribble Parser - Complex Protocols', () => {
   });
 });
 
+describe('Scribble Parser - Exception Handling', () => {
+  it('should parse try with a catch handler and a throw', () => {
+    const source = `
+      protocol Order(role Client, role Server) {
+        try {
+          Client -> Server: Request(Int);
+          throw Failure(String) from Server;
+        } catch Failure(String) {
+          Client -> Server: Abort();
+        }
+      }
+    `;
+
+    const ast = parse(source);
+    const protocol = ast.declarations[0] as GlobalProtocolDeclaration;
+    const tryBlock = protocol.body[0] as Try;
+
+    expect(tryBlock.type).toBe('Try');
+    expect(tryBlock.body).toHaveLength(2);
+    expect(tryBlock.catchHandlers).toHaveLength(1);
+
+    const handler = tryBlock.catchHandlers[0];
+    expect(handler.exceptionLabel).toBe('Failure');
+    expect(handler.payload?.payloadType).toMatchObject({ type: 'SimpleType', name: 'String' });
+    expect(handler.body).toHaveLength(1);
+
+    const thrown = tryBlock.body[1] as Throw;
+    expect(thrown.type).toBe('Throw');
+    expect(thrown.exceptionLabel).toBe('Failure');
+    expect(thrown.from).toBe('Server');
+    expect(thrown.payload?.payloadType).toMatchObject({ type: 'SimpleType', name: 'String' });
+  });
+
+  it('should parse multiple catch handlers without payloads', () => {
+    const source = `
+      protocol Multi(role A, role B) {
+        try {
+          A -> B: Msg();
+        } catch Timeout {
+          A -> B: Retry();
+        } catch Cancelled() {
+          A -> B: Bye();
+        }
+      }
+    `;
+
+    const ast = parse(source);
+    const protocol = ast.declarations[0] as GlobalProtocolDeclaration;
+    const tryBlock = protocol.body[0] as Try;
+
+    expect(tryBlock.catchHandlers.map(h => h.exceptionLabel)).toEqual(['Timeout', 'Cancelled']);
+    expect(tryBlock.catchHandlers.every(h => h.payload === undefined)).toBe(true);
+  });
+
+  it('should parse throw without a role in local protocols', () => {
+    const source = `
+      local protocol Order_Server(role Server) {
+        try {
+          Client -> Server: Request(Int);
+          throw Failure;
+        } catch Failure {
+          Client -> Server: Abort();
+        }
+      }
+    `;
+
+    const ast = parse(source);
+    const local = ast.declarations[0] as LocalProtocolDeclaration;
+    const tryBlock = local.body[0] as Try;
+    const thrown = tryBlock.body[1] as Throw;
+
+    expect(thrown.type).toBe('Throw');
+    expect(thrown.from).toBeUndefined();
+  });
+
+  it('should reject try without catch handler', () => {
+    const source = `
+      protocol NoCatch(role A, role B) {
+        try {
+          A -> B: Msg();
+        }
+      }
+    `;
+
+    expect(() => parse(source)).toThrow();
+  });
+});
+
+describe('Scribble Parser - Timed Session Types', () => {
+  it('should parse a deadline on both message syntaxes', () => {
+    const source = `
+      protocol Timed(role Client, role Server) {
+        Client -> Server: Request(Int) within 500ms;
+        Response(String) from Server to Client within 2s;
+      }
+    `;
+
+    const ast = parse(source);
+    const protocol = ast.declarations[0] as GlobalProtocolDeclaration;
+
+    const request = protocol.body[0] as TimedMessage;
+    expect(request.type).toBe('TimedMessage');
+    expect(request.from).toBe('Client');
+    expect(request.to).toBe('Server');
+    expect(request.message.label).toBe('Request');
+    expect(request.deadline).toMatchObject({ type: 'TimeConstraint', value: 500, unit: 'ms' });
+
+    const response = protocol.body[1] as TimedMessage;
+    expect(response.type).toBe('TimedMessage');
+    expect(response.from).toBe('Server');
+    expect(response.deadline).toMatchObject({ value: 2, unit: 's' });
+  });
+
+  it('should keep untimed messages as plain message transfers', () => {
+    const ast = parse(`
+      protocol Plain(role A, role B) {
+        A -> B: M();
+      }
+    `);
+    const protocol = ast.declarations[0] as GlobalProtocolDeclaration;
+    expect(protocol.body[0].type).toBe('MessageTransfer');
+  });
+
+  it('should parse a timeout handler before the guarded message', () => {
+    const source = `
+      protocol Quote(role Client, role Server) {
+        Client -> Server: Request();
+        timeout(1min) {
+          Client -> Server: Cancel();
+        }
+        Server -> Client: Response();
+      }
+    `;
+
+    const ast = parse(source);
+    const protocol = ast.declarations[0] as GlobalProtocolDeclaration;
+    expect(protocol.body).toHaveLength(3);
+
+    const timeout = protocol.body[1] as Timeout;
+    expect(timeout.type).toBe('Timeout');
+    expect(timeout.constraint).toMatchObject({ value: 1, unit: 'min' });
+    expect(timeout.body).toHaveLength(1);
+    expect((timeout.body[0] as MessageTransfer).message.label).toBe('Cancel');
+  });
+
+  it('should reject an unknown time unit', () => {
+    expect(() => parse(`
+      protocol Bad(role A, role B) {
+        A -> B: M() within 5h;
+      }
+    `)).toThrow(/Unknown time unit 'h'/);
+  });
+});
+
+describe('Scribble Parser - Protocol Extension', () => {
+  it('should parse extends with role arguments', () => {
+    const source = `
+      protocol V2(role Client, role Server) extends V1(Client, Server) {
+        Client -> Server: Request();
+      }
+    `;
+
+    const ast = parse(source);
+    const extension = ast.declarations[0] as ProtocolExtension;
+
+    expect(extension.type).toBe('ProtocolExtension');
+    expect(extension.name).toBe('V2');
+    expect(extension.extends).toBe('V1');
+    expect(extension.roles.map(r => r.name)).toEqual(['Client', 'Server']);
+    expect(extension.roleArguments).toEqual(['Client', 'Server']);
+    expect(extension.refinements).toHaveLength(1);
+  });
+
+  it('should default role arguments to the declared roles', () => {
+    const ast = parse(`
+      protocol V2(role B, role A) extends V1 {
+        A -> B: M();
+      }
+    `);
+    const extension = ast.declarations[0] as ProtocolExtension;
+
+    expect(extension.extends).toBe('V1');
+    expect(extension.roleArguments).toEqual(['B', 'A']);
+    expect(extension.typeArguments).toBeUndefined();
+  });
+
+  it('should parse type arguments of the base protocol', () => {
+    const ast = parse(`
+      protocol Typed<type T>(role A, role B) extends Generic<T>(A, B) {
+        A -> B: M(T);
+      }
+    `);
+    const extension = ast.declarations[0] as ProtocolExtension;
+
+    expect(extension.parameters).toHaveLength(1);
+    expect(extension.typeArguments).toHaveLength(1);
+  });
+
+  it('should keep protocols without extends as global protocols', () => {
+    const ast = parse(`
+      protocol V1(role A, role B) {
+        A -> B: M();
+      }
+    `);
+    expect(ast.declarations[0].type).toBe('GlobalProtocolDeclaration');
+  });
+});
+
+describe('Scribble Parser - Structured Types', () => {
+  it('should parse record, union and optional types', () => {
+    const ast = parse(`
+      type Customer as { id: Int, email: String?, tags: List<String> };
+      type Id as Int | String;
+    `);
+    const customer = ast.declarations[0] as TypeDeclaration;
+    const id = ast.declarations[1] as TypeDeclaration;
+
+    expect(customer.typeValue).toMatchObject({
+      type: 'RecordType',
+      fields: [
+        { type: 'RecordField', name: 'id', fieldType: { type: 'SimpleType', name: 'Int' } },
+        { name: 'email', fieldType: { type: 'OptionalType', valueType: { type: 'SimpleType', name: 'String' } } },
+        { name: 'tags', fieldType: { type: 'ParametricType', name: 'List' } },
+      ],
+    });
+    expect(id.typeValue).toMatchObject({
+      type: 'UnionType',
+      alternatives: [{ name: 'Int' }, { name: 'String' }],
+    });
+  });
+
+  it('should parse named payload arguments as a record', () => {
+    const ast = parse(`
+      protocol Shop(role Buyer, role Seller) {
+        Buyer -> Seller: Order(id: Int, items: List<Item>);
+        Seller -> Buyer: Receipt({ total: Int });
+      }
+    `);
+    const protocol = ast.declarations[0] as GlobalProtocolDeclaration;
+    const order = (protocol.body[0] as MessageTransfer).message;
+    const receipt = (protocol.body[1] as MessageTransfer).message;
+
+    expect(order.label).toBe('Order');
+    expect(order.payload?.payloadType).toMatchObject({
+      type: 'RecordType',
+      fields: [{ name: 'id' }, { name: 'items' }],
+    });
+    expect(receipt.payload?.payloadType).toMatchObject({
+      type: 'RecordType',
+      fields: [{ name: 'total' }],
+    });
+  });
+
+  it('should keep simple and parametric payloads unchanged', () => {
+    const ast = parse(`
+      protocol P(role A, role B) {
+        A -> B: M(Map<String, Int>);
+      }
+    `);
+    const message = ((ast.declarations[0] as GlobalProtocolDeclaration).body[0] as MessageTransfer).message;
+
+    expect(message.payload?.payloadType).toMatchObject({
+      type: 'ParametricType',
+      name: 'Map',
+      arguments: [{ type: 'SimpleType', name: 'String' }, { type: 'SimpleType', name: 'Int' }],
+    });
+  });
+});
+
+describe('Scribble Parser - Crash-Stop Failures', () => {
+  it('should parse unreliable roles and a crash handler', () => {
+    const source = `
+      protocol Offload(role Master, role Worker unreliable) {
+        on crash(Worker) {
+          Master -> Master: Retry();
+        }
+        Worker -> Master: Result(Int);
+      }
+    `;
+
+    const ast = parse(source);
+    const protocol = ast.declarations[0] as GlobalProtocolDeclaration;
+    expect(protocol.roles.map(r => [r.name, r.unreliable])).toEqual([
+      ['Master', undefined],
+      ['Worker', true],
+    ]);
+
+    const handler = protocol.body[0] as CrashHandler;
+    expect(handler.type).toBe('CrashHandler');
+    expect(handler.role).toBe('Worker');
+    expect(handler.body).toHaveLength(1);
+    expect((handler.body[0] as MessageTransfer).message.label).toBe('Retry');
+  });
+
+  it('should still accept on, crash and unreliable as identifiers', () => {
+    const ast = parse(`
+      protocol P(role online, role crashed) {
+        online -> crashed: unreliableLink();
+      }
+    `);
+    const protocol = ast.declarations[0] as GlobalProtocolDeclaration;
+    expect(protocol.roles.map(r => r.name)).toEqual(['online', 'crashed']);
+  });
+});
+
 describe('Scribble Parser - Error Handling', () => {
   it('should throw error for missing semicolon', () => {
     const source = `
@@ -797,6 +1126,106 @@ describe('Scribble Parser - Error Handling', () => {
   });
 });
 
+describe('Scribble Parser - Error Recovery', () => {
+  it('should report every syntax error at once', () => {
+    const source = `protocol First(role A, role B) {
+  A -> B: Hello()
+  B -> A: World();
+}
+
+protocol Second(role A, role B) {
+  contine Loop;
+}
+
+protocol Third(role A, role B) {
+  A -> B Data();
+}`;
+
+    const { diagnostics } = parseWithRecovery(source);
+
+    expect(diagnostics.map(d => [d.location.start.line, d.location.start.column])).toEqual([
+      [2, 17],
+      [7, 3],
+      [11, 10],
+    ]);
+    expect(diagnostics[0].expected).toEqual([';']);
+    expect(diagnostics[0].suggestion).toBe('missing `;` after message');
+    expect(diagnostics[1].expected).toContain('continue');
+    expect(diagnostics[1].suggestion).toBe('did you mean `continue`?');
+    expect(diagnostics[2].expected).toEqual([':']);
+  });
+
+  it('should keep the declarations that parsed', () => {
+    const source = `
+      type Amount as Int;
+
+      protocol Broken(role A, role B) {
+        A -> B: ();
+      }
+
+      protocol Valid(role A, role B) {
+        A -> B: Pay(Amount);
+      }
+    `;
+
+    const { module, diagnostics } = parseWithRecovery(source);
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].expected).toEqual(['identifier']);
+    expect(module.declarations.map(d => d.type === 'ImportDeclaration' ? d.modulePath : d.name))
+      .toEqual(['Amount', 'Valid']);
+  });
+
+  it('should repair a missing punctuation token in place', () => {
+    const { module, diagnostics } = parseWithRecovery(`
+      protocol P(role A, role B) {
+        A -> B: Hello()
+      }
+    `);
+
+    expect(diagnostics).toHaveLength(1);
+    const protocol = module.declarations[0] as GlobalProtocolDeclaration;
+    expect((protocol.body[0] as MessageTransfer).message.label).toBe('Hello');
+  });
+
+  it('should resume at the next declaration after stray input', () => {
+    const { module, diagnostics } = parseWithRecovery(`
+      protocl P(role A, role B) { A -> B: M(); }
+      protocol Q(role A, role B) { A -> B: M(); }
+    `);
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].expected).toEqual(expect.arrayContaining(['protocol', 'type', 'import']));
+    expect(diagnostics[0].suggestion).toBe('did you mean `protocol`?');
+    expect(module.declarations.map(d => (d as GlobalProtocolDeclaration).name)).toEqual(['Q']);
+  });
+
+  it('should report unexpected characters and a missing brace at end of input', () => {
+    const { diagnostics } = parseWithRecovery(`protocol P(role A, role B) {
+  A -> B: M(); #
+  B -> A: N();`);
+
+    expect(diagnostics.map(d => d.message)).toEqual([
+      'Unexpected character "#"',
+      'Expected "}" but found end of input',
+    ]);
+    expect(diagnostics[1].location.start).toEqual({ line: 3, column: 14, offset: 59 });
+    expect(diagnostics[1].suggestion).toBe('missing `}` at end of input');
+  });
+
+  it('should throw all errors from parse()', () => {
+    try {
+      parse(`protocol P(role A, role B) {\n  A -> B: M()\n  B -> A N();\n}`);
+      expect.fail('Should have thrown an error');
+    } catch (error: any) {
+      expect(error).toBeInstanceOf(ParseError);
+      expect(error.diagnostics).toHaveLength(2);
+      expect(error.location.start.line).toBe(2);
+      expect(error.message.split('\n')).toHaveLength(2);
+    }
+  });
+});
+
 describe('Scribble Parser - Module with Multiple Protocols', () => {
   it('should parse module with multiple protocols', () => {
     const source = `
@@ -837,4 +1266,127 @@ describe('Scribble Parser - Module with Multiple Protocols', () => {
     expect(ast.declarations[1].type).toBe('ImportDeclaration');
     expect(ast.declarations[2].type).toBe('GlobalProtocolDeclaration');
   });
+
+  it('should parse names that start with a keyword', () => {
+    const source = `
+      protocol orders(role Client, role toolkit) {
+        Client -> toolkit: recorded(String);
+        do protocolV2(Client, toolkit);
+      }
+    `;
+
+    const ast = parse(source);
+    const protocol = ast.declarations[0] as GlobalProtocolDeclaration;
+
+    expect(protocol.name).toBe('orders');
+    expect(protocol.roles.map(r => r.name)).toEqual(['Client', 'toolkit']);
+    expect((protocol.body[0] as MessageTransfer).message.label).toBe('recorded');
+    expect((protocol.body[1] as Do).protocol).toBe('protocolV2');
+  });
+});
+
+describe('Scribble Parser - Predicates', () => {
+  it('should parse a predicate on a message', () => {
+    const ast = parse(`protocol Pay(role Buyer, role Seller) {
+  Buyer -> Seller: Pay(amount: Int) where amount > 0 && !(amount > limit) within 5s;
+}`);
+    const transfer = (ast.declarations[0] as GlobalProtocolDeclaration).body[0] as TimedMessage;
+
+    expect(transfer.type).toBe('TimedMessage');
+    expect(transfer.message.predicate).toMatchObject({
+      type: 'BinaryExpression',
+      operator: '&&',
+      left: {
+        type: 'BinaryExpression',
+        operator: '>',
+        left: { type: 'VariableExpression', name: 'amount' },
+        right: { type: 'LiteralExpression', value: 0 },
+      },
+      right: {
+        type: 'UnaryExpression',
+        operator: '!',
+        operand: { type: 'BinaryExpression', operator: '>' },
+      },
+      location: { start: { line: 2, column: 43 } },
+    });
+  });
+
+  it('should parse predicates in standard syntax and local protocols', () => {
+    const ast = parse(`
+      protocol G(role A, role B) {
+        Order(total: Double) where total >= 0.5 from A to B;
+      }
+      local protocol L(role Self) {
+        Self -> B: Order(total: Double) where total >= 0.5;
+      }
+    `);
+
+    const global = (ast.declarations[0] as GlobalProtocolDeclaration).body[0] as MessageTransfer;
+    expect(global.message.predicate).toMatchObject({
+      operator: '>=',
+      right: { type: 'LiteralExpression', value: 0.5 },
+    });
+    expect(JSON.stringify(ast.declarations[1])).toContain('"operator":">="');
+  });
+
+  it('should parse literals, fields and arithmetic', () => {
+    const ast = parse(`protocol P(role A, role B) {
+  A -> B: M(o: Order) where o.customer.name != "" && o.total % 2 == 0 || true;
+}`);
+    const predicate = ((ast.declarations[0] as GlobalProtocolDeclaration).body[0] as MessageTransfer).message.predicate;
+
+    expect(predicate).toMatchObject({
+      operator: '||',
+      left: {
+        operator: '&&',
+        left: {
+          operator: '!=',
+          left: {
+            type: 'FieldExpression',
+            field: 'name',
+            object: { type: 'FieldExpression', field: 'customer', object: { name: 'o' } },
+          },
+          right: { value: '' },
+        },
+        right: { operator: '==', left: { operator: '%' } },
+      },
+      right: { type: 'LiteralExpression', value: true },
+    });
+  });
+});
+
+describe('Scribble Parser - Role Families', () => {
+  it('should parse role families, foreach and indexed roles', () => {
+    const ast = parse(`protocol Scatter(role Master, role Worker[1..N]) {
+  foreach i in 1..N {
+    Master -> Worker[i]: Task(Int);
+    Task(Int) from Worker[i] to Worker[i+1], Master;
+  }
+  choice at Worker[1] { Worker[1] -> Master: Done(); } or { Worker[1] -> Master: More(); }
+}`);
+    const protocol = ast.declarations[0] as GlobalProtocolDeclaration;
+
+    expect(protocol.roles[1]).toMatchObject({
+      name: 'Worker',
+      range: {
+        type: 'IndexRange',
+        lower: { type: 'LiteralExpression', value: 1 },
+        upper: { type: 'VariableExpression', name: 'N' },
+      },
+    });
+
+    const foreach = protocol.body[0] as Foreach;
+    expect(foreach).toMatchObject({ type: 'Foreach', variable: 'i', range: { upper: { name: 'N' } } });
+    expect(foreach.body[0]).toMatchObject({ from: 'Master', to: 'Worker[i]' });
+    expect(foreach.body[1]).toMatchObject({ from: 'Worker[i]', to: ['Worker[i + 1]', 'Master'] });
+    expect((protocol.body[1] as Choice).at).toBe('Worker[1]');
+  });
+
+  it('should keep identifiers that start with keywords of families', () => {
+    const ast = parse(`protocol P(role index, role inviter) { index invites inviter; inviter -> index: Info(); }`);
+    const protocol = ast.declarations[0] as GlobalProtocolDeclaration;
+
+    expect(protocol.roles.map(r => r.name)).toEqual(['index', 'inviter']);
+    expect(protocol.body[0]).toMatchObject({ type: 'Invitation', inviter: 'index', invitee: 'inviter' });
+  });
 });
@@ -3,10 +3,19 @@
  * Uses Chevrotain to build AST from source code
  */
 
-import { CstParser, type IToken } from 'chevrotain';
+import { CstParser, type CstNode, type IToken, type TokenType } from 'chevrotain';
 import { ScribbleLexer, allTokens } from './lexer';
 import * as tokens from './lexer';
 import type * as AST from '../ast/types';
+import { formatExpression } from '../predicates/evaluator';
+import {
+  errorMessageProvider,
+  formatSyntaxDiagnostic,
+  isPunctuation,
+  resetExpectations,
+  toSyntaxDiagnostic,
+  type SyntaxDiagnostic,
+} from './syntax-diagnostics';
 
 // ============================================================================
 // Parser Class
@@ -17,10 +26,19 @@ export class ScribbleParser extends CstParser {
     super(allTokens, {
       recoveryEnabled: true,
       nodeLocationTracking: 'full',
+      errorMessageProvider,
     });
     this.performSelfAnalysis();
   }
 
+  /**
+   * Only punctuation may be inserted to recover from an error: an inserted
+   * identifier would be an empty role or label
+   */
+  protected canTokenTypeBeInsertedInRecovery(tokenType: TokenType): boolean {
+    return isPunctuation(tokenType);
+  }
+
   // ==========================================================================
   // Module
   // ==========================================================================
@@ -35,13 +53,8 @@ export class ScribbleParser extends CstParser {
     this.OR([
       { ALT: () => this.SUBRULE(this.importDeclaration) },
       { ALT: () => this.SUBRULE(this.typeDeclaration) },
+      // Also covers protocol extensions (`extends` clause, see below)
       { ALT: () => this.SUBRULE(this.globalProtocolDeclaration) },
-      // TODO: Re-enable Protocol Subtyping (Phase 5)
-      // DISABLED: Grammar ambiguity with globalProtocolDeclaration
-      // Both rules start with: Protocol Identifier LAngle?
-      // Resolution: Add lookahead for 'extends' keyword or refactor grammar
-      // See: docs/FUTURE_FEATURES.md for disambiguation strategy
-      // { ALT: () => this.SUBRULE(this.protocolExtension) },
       { ALT: () => this.SUBRULE(this.localProtocolDeclaration) },
     ]);
   });
@@ -65,6 +78,20 @@ export class ScribbleParser extends CstParser {
     this.CONSUME(tokens.Semicolon);
   });
 
+  /**
+   * Qualified Name: Name or namespace.Name
+   *
+   * Refers to a protocol from an imported module (see ModuleLoader),
+   * where the namespace is the module's file name.
+   */
+  private qualifiedName = this.RULE('qualifiedName', () => {
+    this.CONSUME(tokens.Identifier);
+    this.MANY(() => {
+      this.CONSUME(tokens.Dot);
+      this.CONSUME2(tokens.Identifier);
+    });
+  });
+
   // ==========================================================================
   // Type Declaration
   // ==========================================================================
@@ -100,6 +127,11 @@ export class ScribbleParser extends CstParser {
     this.SUBRULE(this.roleDeclarationList);
     this.CONSUME(tokens.RParen);
 
+    // Protocol extension (behavioral subtyping)
+    this.OPTION3(() => {
+      this.SUBRULE(this.extendsClause);
+    });
+
     // Body
     this.CONSUME(tokens.LCurly);
     this.SUBRULE(this.globalProtocolBody);
@@ -127,10 +159,24 @@ export class ScribbleParser extends CstParser {
   private roleDeclarationList = this.RULE('roleDeclarationList', () => {
     this.AT_LEAST_ONE_SEP({
       SEP: tokens.Comma,
-      DEF: () => {
-        this.CONSUME(tokens.Role);
-        this.CONSUME(tokens.Identifier);
-      },
+      DEF: () => this.SUBRULE(this.roleDeclaration),
+    });
+  });
+
+  /**
+   * Role, or role family: role Worker[1..N]
+   * Roles that may crash are marked unreliable: role Worker unreliable
+   */
+  private roleDeclaration = this.RULE('roleDeclaration', () => {
+    this.CONSUME(tokens.Role);
+    this.CONSUME(tokens.Identifier);
+    this.OPTION(() => {
+      this.CONSUME(tokens.LBracket);
+      this.SUBRULE(this.indexRange);
+      this.CONSUME(tokens.RBracket);
+    });
+    this.OPTION2(() => {
+      this.CONSUME(tokens.Unreliable);
     });
   });
 
@@ -141,82 +187,41 @@ export class ScribbleParser extends CstParser {
   });
 
   // ==========================================================================
-  // Protocol Extension (Subtyping - Future Feature)
+  // Protocol Extension (Subtyping)
   // Based on docs/theory/asynchronous-subtyping.md
-  // TEMPORARILY DISABLED: Causes grammar ambiguity
-  // ==========================================================================
-
-  // ==========================================================================
-  // Protocol Subtyping (Phase 5 - Future Feature)
   // ==========================================================================
 
   /**
-   * TODO: Protocol extension for behavioral subtyping
-   *
-   * DISABLED: Grammar ambiguity with globalProtocolDeclaration
-   *
-   * ISSUE:
-   *   Both protocolExtension and globalProtocolDeclaration start with:
-   *   Protocol Identifier TypeParameters? LParen RoleDeclarationList RParen
-   *   Parser cannot distinguish until it sees 'extends' keyword.
+   * Extends clause of a global protocol declaration
    *
-   * RESOLUTION STRATEGIES:
-   *   1. Lookahead: Use GATE to check for 'extends' after role parameters
-   *   2. Unified Rule: Parse as globalProtocolDeclaration, then check for extends
-   *   3. Keyword First: Require 'protocol extends' vs 'protocol' syntax
+   * Parsed as a suffix of globalProtocolDeclaration (both start with
+   * Protocol Identifier TypeParameters? LParen RoleDeclarationList RParen),
+   * so no lookahead is needed to tell them apart.
    *
-   * DEPENDENCIES:
-   *   - Subtyping theory implementation (docs/theory/subtyping.md)
-   *   - Well-formedness checks for refinement correctness
-   *   - Projection preserves subtyping relationships
-   *
-   * TESTING REQUIREMENTS:
-   *   - Grammar disambiguation tests
-   *   - Subtyping relation verification
-   *   - Liskov substitution property
-   *
-   * Syntax: protocol Enhanced(role A, role B) extends Basic(A, B) { ... }
+   * Syntax: protocol V2(role A, role B) extends V1(A, B) { ... }
+   * Role arguments default to the extending protocol's own roles.
    */
-  /*
-  private protocolExtension = this.RULE('protocolExtension', () => {
-    this.CONSUME(tokens.Protocol);
-    this.CONSUME(tokens.Identifier, { LABEL: 'name' });
-
-    // Type parameters (optional)
-    this.OPTION(() => {
-      this.SUBRULE(this.typeParameters);
-    });
-
-    // Role parameters
-    this.CONSUME(tokens.LParen);
-    this.SUBRULE(this.roleDeclarationList);
-    this.CONSUME(tokens.RParen);
-
-    // Extends clause
+  private extendsClause = this.RULE('extendsClause', () => {
     this.CONSUME(tokens.Extends);
-    this.CONSUME2(tokens.Identifier, { LABEL: 'baseProtocol' });
+    this.SUBRULE(this.qualifiedName, { LABEL: 'baseProtocol' });
 
     // Type arguments for base protocol (optional)
-    this.OPTION2(() => {
+    this.OPTION(() => {
       this.SUBRULE(this.typeArguments);
     });
 
-    // Role arguments for base protocol
-    this.CONSUME2(tokens.LParen);
-    this.AT_LEAST_ONE_SEP({
-      SEP: tokens.Comma,
-      DEF: () => {
-        this.CONSUME3(tokens.Identifier, { LABEL: 'baseRoleArg' });
-      },
+    // Role arguments for base protocol (optional)
+    this.OPTION2(() => {
+      this.CONSUME(tokens.LParen);
+      this.AT_LEAST_ONE_SEP({
+        SEP: tokens.Comma,
+        DEF: () => {
+          this.CONSUME2(tokens.Identifier, { LABEL: 'baseRoleArg' });
+        },
+      });
+      this.CONSUME(tokens.RParen);
     });
-    this.CONSUME2(tokens.RParen);
-
-    // Refinement body
-    this.CONSUME(tokens.LCurly);
-    this.SUBRULE(this.globalProtocolBody, { LABEL: 'refinements' });
-    this.CONSUME(tokens.RCurly);
   });
-  */
 
   // ==========================================================================
   // Local Protocol Declaration
@@ -253,14 +258,8 @@ export class ScribbleParser extends CstParser {
 
   private globalInteraction = this.RULE('globalInteraction', () => {
     this.OR([
+      // Timed messages (`within 5s`) are parsed by messageTransfer
       { ALT: () => this.SUBRULE(this.messageTransfer) },
-      // TODO: Re-enable Timed Session Types (Phase 6)
-      // DISABLED: Grammar ambiguity with messageTransfer
-      // Both rules start with: Identifier Arrow Identifier Colon Message
-      // Parser cannot distinguish until it sees 'within' keyword
-      // Resolution: Use lookahead or parse as messageTransfer then check for timing
-      // See: docs/FUTURE_FEATURES.md
-      // { ALT: () => this.SUBRULE(this.timedMessage) },
       { ALT: () => this.SUBRULE(this.choice) },
       { ALT: () => this.SUBRULE(this.parallel) },
       { ALT: () => this.SUBRULE(this.recursion) },
@@ -272,16 +271,15 @@ export class ScribbleParser extends CstParser {
       { ALT: () => this.SUBRULE(this.createParticipants) },
       { ALT: () => this.SUBRULE(this.invitation) },
       { ALT: () => this.SUBRULE(this.updatableRecursion) },
-      // TODO: Re-enable Exception Handling (Phase 4)
-      // DISABLED: Not yet needed; enable after core projection complete
-      // Requires: Exception propagation semantics, projection rules
-      // See: docs/FUTURE_FEATURES.md
-      // { ALT: () => this.SUBRULE(this.tryStatement) },
-      // { ALT: () => this.SUBRULE(this.throwStatement) },
-      // TODO: Re-enable Timeout Handlers (Phase 6)
-      // DISABLED: Part of timed session types feature
-      // Requires: Timed automata semantics, timeout projection
-      // { ALT: () => this.SUBRULE(this.timeoutStatement) },
+      // Exception handling (docs/theory/exception-handling.md)
+      { ALT: () => this.SUBRULE(this.tryStatement) },
+      { ALT: () => this.SUBRULE(this.throwStatement) },
+      // Timed session types (docs/theory/timed-session-types.md)
+      { ALT: () => this.SUBRULE(this.timeoutStatement) },
+      // Crash-stop failures (docs/theory/crash-stop-failures.md)
+      { ALT: () => this.SUBRULE(this.crashHandler) },
+      // Role families
+      { ALT: () => this.SUBRULE(this.foreachStatement) },
     ]);
   });
 
@@ -290,18 +288,22 @@ export class ScribbleParser extends CstParser {
       // Arrow syntax: Sender -> Receiver: Message();
       // Example: Client -> Server: Request(String);
       { ALT: () => {
-        this.CONSUME(tokens.Identifier, { LABEL: 'from' });
+        this.SUBRULE(this.roleReference, { LABEL: 'from' });
         this.CONSUME(tokens.Arrow);
 
         // Support multicast: to1, to2, to3
-        this.CONSUME2(tokens.Identifier, { LABEL: 'to' });
+        this.SUBRULE2(this.roleReference, { LABEL: 'to' });
         this.MANY(() => {
           this.CONSUME(tokens.Comma);
-          this.CONSUME3(tokens.Identifier, { LABEL: 'toAdditional' });
+          this.SUBRULE3(this.roleReference, { LABEL: 'toAdditional' });
         });
 
         this.CONSUME(tokens.Colon);
         this.SUBRULE(this.message, { LABEL: 'arrowMessage' });
+        this.OPTION(() => {
+          this.CONSUME(tokens.Within);
+          this.SUBRULE(this.timeConstraint, { LABEL: 'arrowDeadline' });
+        });
         this.CONSUME(tokens.Semicolon);
       }},
       // Standard Scribble syntax: Message() from Sender to Receiver;
@@ -309,34 +311,57 @@ export class ScribbleParser extends CstParser {
       { ALT: () => {
         this.SUBRULE2(this.message, { LABEL: 'standardMessage' });
         this.CONSUME(tokens.From);
-        this.CONSUME4(tokens.Identifier, { LABEL: 'standardFrom' });
+        this.SUBRULE4(this.roleReference, { LABEL: 'standardFrom' });
         this.CONSUME(tokens.To);
-        this.CONSUME5(tokens.Identifier, { LABEL: 'standardTo' });
+        this.SUBRULE5(this.roleReference, { LABEL: 'standardTo' });
 
         // Support multicast: to1, to2, to3
         this.MANY2(() => {
           this.CONSUME2(tokens.Comma);
-          this.CONSUME6(tokens.Identifier, { LABEL: 'standardToAdditional' });
+          this.SUBRULE6(this.roleReference, { LABEL: 'standardToAdditional' });
         });
 
+        this.OPTION2(() => {
+          this.CONSUME2(tokens.Within);
+          this.SUBRULE2(this.timeConstraint, { LABEL: 'standardDeadline' });
+        });
         this.CONSUME2(tokens.Semicolon);
       }}
     ]);
   });
 
+  /**
+   * Message: Label(), Label(Type) or Label(name: Type, ...), optionally
+   * refined by a predicate: Pay(amount: Int) where amount > 0
+   */
   private message = this.RULE('message', () => {
     this.CONSUME(tokens.Identifier, { LABEL: 'label' });
     this.CONSUME(tokens.LParen);
     this.OPTION(() => {
-      this.SUBRULE(this.typeExpression);
+      this.OR([
+        {
+          GATE: () => this.LA(2).tokenType === tokens.Colon,
+          ALT: () => {
+            this.AT_LEAST_ONE_SEP({
+              SEP: tokens.Comma,
+              DEF: () => this.SUBRULE(this.recordField),
+            });
+          },
+        },
+        { ALT: () => this.SUBRULE(this.typeExpression) },
+      ]);
     });
     this.CONSUME(tokens.RParen);
+    this.OPTION2(() => {
+      this.CONSUME(tokens.Where);
+      this.SUBRULE(this.expression, { LABEL: 'predicate' });
+    });
   });
 
   private choice = this.RULE('choice', () => {
     this.CONSUME(tokens.Choice);
     this.CONSUME(tokens.At);
-    this.CONSUME(tokens.Identifier, { LABEL: 'at' });
+    this.SUBRULE(this.roleReference, { LABEL: 'at' });
     this.CONSUME(tokens.LCurly);
     this.SUBRULE(this.globalProtocolBody, { LABEL: 'firstBranch' });
     this.CONSUME(tokens.RCurly);
@@ -379,7 +404,7 @@ export class ScribbleParser extends CstParser {
 
   private doStatement = this.RULE('doStatement', () => {
     this.CONSUME(tokens.Do);
-    this.CONSUME(tokens.Identifier, { LABEL: 'protocol' });
+    this.SUBRULE(this.qualifiedName, { LABEL: 'protocol' });
 
     this.OPTION(() => {
       this.SUBRULE(this.typeArguments);
@@ -427,7 +452,7 @@ export class ScribbleParser extends CstParser {
   private protocolCall = this.RULE('protocolCall', () => {
     this.CONSUME(tokens.Identifier, { LABEL: 'caller' });
     this.CONSUME(tokens.Calls);
-    this.CONSUME2(tokens.Identifier, { LABEL: 'protocol' });
+    this.SUBRULE(this.qualifiedName, { LABEL: 'protocol' });
 
     // Optional type arguments
     this.OPTION(() => {
@@ -505,38 +530,20 @@ export class ScribbleParser extends CstParser {
   });
 
   // ==========================================================================
-  // Exception Handling (Future Feature)
+  // Exception Handling
   // Based on docs/theory/exception-handling.md
-  // TEMPORARILY DISABLED: Not yet needed
-  // ==========================================================================
-
-  // ==========================================================================
-  // Exception Handling (Phase 4 - Future Feature)
   // ==========================================================================
 
   /**
-   * TODO: Try-catch blocks for protocol exceptions
-   *
-   * DISABLED: Not yet needed; enable after core projection complete
-   *
-   * REQUIREMENTS:
-   *   - Exception propagation semantics across roles
-   *   - Projection rules for try/catch/throw
-   *   - Well-formedness: All roles must handle or propagate exceptions
-   *   - Safety: Exceptions don't break session integrity
+   * Try-catch block for protocol exceptions
    *
    * THEORY:
    *   Based on "Exception Handling in Session Types" (Capecchi et al., 2010)
-   *   Exceptions must be coordinated across all participants
-   *
-   * TESTING:
-   *   - Exception propagation correctness
-   *   - Handler reachability
-   *   - Session cleanup on exception
+   *   A throw inside the body aborts it and notifies every other participant
+   *   of the try block, which then continue with the matching handler.
    *
-   * Syntax: try { ... } catch Label { ... }
+   * Syntax: try { ... } catch Label(Type) { ... }
    */
-  /*
   private tryStatement = this.RULE('tryStatement', () => {
     this.CONSUME(tokens.Try);
     this.CONSUME(tokens.LCurly);
@@ -545,97 +552,76 @@ export class ScribbleParser extends CstParser {
 
     // One or more catch handlers
     this.AT_LEAST_ONE(() => {
-      this.CONSUME(tokens.Catch);
-      this.CONSUME(tokens.Identifier, { LABEL: 'exceptionLabel' });
-      this.CONSUME2(tokens.LCurly);
-      this.SUBRULE2(this.globalProtocolBody, { LABEL: 'handler' });
-      this.CONSUME2(tokens.RCurly);
+      this.SUBRULE(this.catchClause);
+    });
+  });
+
+  /**
+   * Catch handler: exception label with optional payload pattern
+   * Syntax: catch Label { ... } | catch Label(Type) { ... }
+   */
+  private catchClause = this.RULE('catchClause', () => {
+    this.CONSUME(tokens.Catch);
+    this.CONSUME(tokens.Identifier, { LABEL: 'exceptionLabel' });
+    this.OPTION(() => {
+      this.CONSUME(tokens.LParen);
+      this.OPTION2(() => {
+        this.SUBRULE(this.typeExpression);
+      });
+      this.CONSUME(tokens.RParen);
     });
+    this.CONSUME(tokens.LCurly);
+    this.SUBRULE(this.globalProtocolBody, { LABEL: 'handler' });
+    this.CONSUME(tokens.RCurly);
   });
 
   /**
-   * TODO: Throw statement for raising exceptions
+   * Throw statement for raising exceptions
    *
-   * DISABLED: Part of exception handling feature (Phase 4)
+   * The thrower is mandatory in global protocols (checked by the CFG builder)
+   * and omitted in local protocols, where it is the projected role itself.
    *
-   * Syntax: throw Label;
+   * Syntax: throw Label(Type) from Role; | throw Label;
    */
-  /*
   private throwStatement = this.RULE('throwStatement', () => {
     this.CONSUME(tokens.Throw);
     this.CONSUME(tokens.Identifier, { LABEL: 'exceptionLabel' });
+    this.OPTION(() => {
+      this.CONSUME(tokens.LParen);
+      this.OPTION2(() => {
+        this.SUBRULE(this.typeExpression);
+      });
+      this.CONSUME(tokens.RParen);
+    });
+    this.OPTION3(() => {
+      this.CONSUME(tokens.From);
+      this.CONSUME2(tokens.Identifier, { LABEL: 'from' });
+    });
     this.CONSUME(tokens.Semicolon);
   });
-  */
 
   // ==========================================================================
-  // Timed Session Types (Phase 6 - Future Feature)
+  // Timed Session Types
   // Based on docs/theory/timed-session-types.md
   // ==========================================================================
 
-  /**
-   * TODO: Timed messages with deadlines
-   *
-   * DISABLED: Grammar ambiguity with messageTransfer
-   *
-   * ISSUE:
-   *   Both timedMessage and messageTransfer share prefix:
-   *   Identifier Arrow Identifier Colon Message
-   *   Parser cannot distinguish until 'within' keyword
-   *
-   * RESOLUTION:
-   *   1. Parse as messageTransfer, then check for 'within' modifier
-   *   2. Add GATE with lookahead for 'within'
-   *   3. Post-parse transformation
-   *
-   * REQUIREMENTS:
-   *   - Timed automata semantics (docs/theory/timed-session-types.md)
-   *   - Clock constraints and zones
-   *   - Timeout projection rules
-   *   - Model checking for timing properties
-   *
-   * TESTING:
-   *   - Timing constraint satisfaction
-   *   - Deadline reachability
-   *   - Timeout handler coverage
-   *
-   * Syntax: A -> B: Msg() within 5s;
-   */
-  /*
-  private timedMessage = this.RULE('timedMessage', () => {
-    this.CONSUME(tokens.Identifier, { LABEL: 'from' });
-    this.CONSUME(tokens.Arrow);
-    this.CONSUME2(tokens.Identifier, { LABEL: 'to' });
-    this.CONSUME(tokens.Colon);
-    this.SUBRULE(this.message);
-    this.CONSUME(tokens.Within);
-    this.SUBRULE(this.timeConstraint);
-    this.CONSUME(tokens.Semicolon);
-  });
-
   /**
    * Time constraint: value + unit
    * Syntax: 5s, 100ms, 2min
+   *
+   * Deadlines on messages are parsed by messageTransfer:
+   *   A -> B: Msg() within 5s;
    */
-  /*
   private timeConstraint = this.RULE('timeConstraint', () => {
     this.CONSUME(tokens.NumberLiteral, { LABEL: 'value' });
     this.CONSUME(tokens.Identifier, { LABEL: 'unit' }); // 's', 'ms', 'min'
   });
 
   /**
-   * TODO: Timeout handlers for time-bounded protocols
-   *
-   * DISABLED: Part of timed session types feature (Phase 6)
-   *
-   * REQUIREMENTS:
-   *   - Integration with timed automata
-   *   - Timeout projection and handling
-   *   - Interaction with exception handling
+   * Timeout handler for the interaction that follows it
    *
    * Syntax: timeout(5s) { ... }
    */
-  /*
   private timeoutStatement = this.RULE('timeoutStatement', () => {
     this.CONSUME(tokens.Timeout);
     this.CONSUME(tokens.LParen);
@@ -645,7 +631,66 @@ export class ScribbleParser extends CstParser {
     this.SUBRULE(this.globalProtocolBody);
     this.CONSUME(tokens.RCurly);
   });
-  */
+
+  // ==========================================================================
+  // Crash-Stop Failures
+  // Based on docs/theory/crash-stop-failures.md
+  // ==========================================================================
+
+  /**
+   * Crash handler for the rest of the block that follows it
+   *
+   * Syntax: on crash(Worker) { ... }
+   */
+  private crashHandler = this.RULE('crashHandler', () => {
+    this.CONSUME(tokens.On);
+    this.CONSUME(tokens.Crash);
+    this.CONSUME(tokens.LParen);
+    this.CONSUME(tokens.Identifier, { LABEL: 'role' });
+    this.CONSUME(tokens.RParen);
+    this.CONSUME(tokens.LCurly);
+    this.SUBRULE(this.globalProtocolBody);
+    this.CONSUME(tokens.RCurly);
+  });
+
+  // ==========================================================================
+  // Role Families
+  // ==========================================================================
+
+  /**
+   * Role, or member of a role family: Worker[i + 1]
+   * (public: entry point of parseRoleReference)
+   */
+  public roleReference = this.RULE('roleReference', () => {
+    this.CONSUME(tokens.Identifier, { LABEL: 'role' });
+    this.OPTION(() => {
+      this.CONSUME(tokens.LBracket);
+      this.SUBRULE(this.additiveExpression, { LABEL: 'index' });
+      this.CONSUME(tokens.RBracket);
+    });
+  });
+
+  /**
+   * Index range: 1..N
+   */
+  private indexRange = this.RULE('indexRange', () => {
+    this.SUBRULE(this.additiveExpression, { LABEL: 'lower' });
+    this.CONSUME(tokens.DotDot);
+    this.SUBRULE2(this.additiveExpression, { LABEL: 'upper' });
+  });
+
+  /**
+   * Syntax: foreach i in 1..N { ... }
+   */
+  private foreachStatement = this.RULE('foreachStatement', () => {
+    this.CONSUME(tokens.Foreach);
+    this.CONSUME(tokens.Identifier, { LABEL: 'variable' });
+    this.CONSUME(tokens.In);
+    this.SUBRULE(this.indexRange);
+    this.CONSUME(tokens.LCurly);
+    this.SUBRULE(this.globalProtocolBody);
+    this.CONSUME(tokens.RCurly);
+  });
 
   // ==========================================================================
   // Local Interactions
@@ -664,10 +709,11 @@ export class ScribbleParser extends CstParser {
       { ALT: () => this.SUBRULE(this.recursion) },
       { ALT: () => this.SUBRULE(this.continueStatement) },
       { ALT: () => this.SUBRULE(this.doStatement) },
-      // TODO: Re-enable exception handling for local protocols (Phase 4)
-      // { ALT: () => this.SUBRULE(this.tryStatement) },
-      // { ALT: () => this.SUBRULE(this.throwStatement) },
-      // { ALT: () => this.SUBRULE(this.timeoutStatement) },   // Future: Timed types
+      { ALT: () => this.SUBRULE(this.tryStatement) },
+      { ALT: () => this.SUBRULE(this.throwStatement) },
+      { ALT: () => this.SUBRULE(this.timeoutStatement) },
+      { ALT: () => this.SUBRULE(this.crashHandler) },
+      { ALT: () => this.SUBRULE(this.foreachStatement) },
     ]);
   });
 
@@ -675,13 +721,49 @@ export class ScribbleParser extends CstParser {
   // Type Expressions
   // ==========================================================================
 
+  /**
+   * Type: Int, List<Item>, { id: Int, name: String }, Int | String, Int?
+   */
   private typeExpression = this.RULE('typeExpression', () => {
+    this.SUBRULE(this.optionalType, { LABEL: 'alternative' });
+    this.MANY(() => {
+      this.CONSUME(tokens.Pipe);
+      this.SUBRULE2(this.optionalType, { LABEL: 'alternative' });
+    });
+  });
+
+  private optionalType = this.RULE('optionalType', () => {
+    this.OR([
+      { ALT: () => this.SUBRULE(this.namedType) },
+      { ALT: () => this.SUBRULE(this.recordType) },
+    ]);
+    this.OPTION(() => {
+      this.CONSUME(tokens.Question);
+    });
+  });
+
+  private namedType = this.RULE('namedType', () => {
     this.CONSUME(tokens.Identifier, { LABEL: 'typeName' });
     this.OPTION(() => {
       this.SUBRULE(this.typeArguments);
     });
   });
 
+  private recordType = this.RULE('recordType', () => {
+    this.CONSUME(tokens.LCurly);
+    this.MANY_SEP({
+      SEP: tokens.Comma,
+      DEF: () => this.SUBRULE(this.recordField),
+    });
+    this.CONSUME(tokens.RCurly);
+  });
+
+  private recordField = this.RULE('recordField', () => {
+    this.CONSUME(tokens.Identifier, { LABEL: 'fieldName' });
+    this.CONSUME(tokens.Colon);
+    this.SUBRULE(this.typeExpression);
+  });
+
   private typeArguments = this.RULE('typeArguments', () => {
     this.CONSUME(tokens.LAngle);
     this.SUBRULE(this.typeExpression);
@@ -691,6 +773,110 @@ export class ScribbleParser extends CstParser {
     });
     this.CONSUME(tokens.RAngle);
   });
+
+  // ==========================================================================
+  // Predicates (message refinements)
+  // ==========================================================================
+
+  /**
+   * Predicate over payload values, loosest binding first:
+   * ||, &&, comparisons (non-associative), + -, * / %, unary ! -
+   */
+  private expression = this.RULE('expression', () => {
+    this.SUBRULE(this.andExpression, { LABEL: 'operand' });
+    this.MANY(() => {
+      this.CONSUME(tokens.OrOr, { LABEL: 'operator' });
+      this.SUBRULE2(this.andExpression, { LABEL: 'operand' });
+    });
+  });
+
+  private andExpression = this.RULE('andExpression', () => {
+    this.SUBRULE(this.comparisonExpression, { LABEL: 'operand' });
+    this.MANY(() => {
+      this.CONSUME(tokens.AndAnd, { LABEL: 'operator' });
+      this.SUBRULE2(this.comparisonExpression, { LABEL: 'operand' });
+    });
+  });
+
+  private comparisonExpression = this.RULE('comparisonExpression', () => {
+    this.SUBRULE(this.additiveExpression, { LABEL: 'operand' });
+    this.OPTION(() => {
+      this.OR([
+        { ALT: () => this.CONSUME(tokens.EqualsEquals, { LABEL: 'operator' }) },
+        { ALT: () => this.CONSUME(tokens.NotEquals, { LABEL: 'operator' }) },
+        { ALT: () => this.CONSUME(tokens.LessEquals, { LABEL: 'operator' }) },
+        { ALT: () => this.CONSUME(tokens.GreaterEquals, { LABEL: 'operator' }) },
+        { ALT: () => this.CONSUME(tokens.LAngle, { LABEL: 'operator' }) },
+        { ALT: () => this.CONSUME(tokens.RAngle, { LABEL: 'operator' }) },
+      ]);
+      this.SUBRULE2(this.additiveExpression, { LABEL: 'operand' });
+    });
+  });
+
+  private additiveExpression = this.RULE('additiveExpression', () => {
+    this.SUBRULE(this.multiplicativeExpression, { LABEL: 'operand' });
+    this.MANY(() => {
+      this.OR([
+        { ALT: () => this.CONSUME(tokens.Plus, { LABEL: 'operator' }) },
+        { ALT: () => this.CONSUME(tokens.Minus, { LABEL: 'operator' }) },
+      ]);
+      this.SUBRULE2(this.multiplicativeExpression, { LABEL: 'operand' });
+    });
+  });
+
+  private multiplicativeExpression = this.RULE('multiplicativeExpression', () => {
+    this.SUBRULE(this.unaryExpression, { LABEL: 'operand' });
+    this.MANY(() => {
+      this.OR([
+        { ALT: () => this.CONSUME(tokens.Star, { LABEL: 'operator' }) },
+        { ALT: () => this.CONSUME(tokens.Slash, { LABEL: 'operator' }) },
+        { ALT: () => this.CONSUME(tokens.Percent, { LABEL: 'operator' }) },
+      ]);
+      this.SUBRULE2(this.unaryExpression, { LABEL: 'operand' });
+    });
+  });
+
+  private unaryExpression = this.RULE('unaryExpression', () => {
+    this.OR([
+      {
+        ALT: () => {
+          this.OR2([
+            { ALT: () => this.CONSUME(tokens.Bang, { LABEL: 'operator' }) },
+            { ALT: () => this.CONSUME(tokens.Minus, { LABEL: 'operator' }) },
+          ]);
+          this.SUBRULE(this.unaryExpression, { LABEL: 'operand' });
+        },
+      },
+      { ALT: () => this.SUBRULE(this.primaryExpression) },
+    ]);
+  });
+
+  /**
+   * Literal (42, 0.5, "EUR", true, null), variable (amount), field (order.total)
+   * or parenthesized predicate
+   */
+  private primaryExpression = this.RULE('primaryExpression', () => {
+    this.OR([
+      { ALT: () => this.CONSUME(tokens.NumberLiteral) },
+      { ALT: () => this.CONSUME(tokens.StringLiteral) },
+      {
+        ALT: () => {
+          this.CONSUME(tokens.Identifier, { LABEL: 'variable' });
+          this.MANY(() => {
+            this.CONSUME(tokens.Dot);
+            this.CONSUME2(tokens.Identifier, { LABEL: 'field' });
+          });
+        },
+      },
+      {
+        ALT: () => {
+          this.CONSUME(tokens.LParen);
+          this.SUBRULE(this.expression);
+          this.CONSUME(tokens.RParen);
+        },
+      },
+    ]);
+  });
 }
 
 // Create singleton parser instance
@@ -702,6 +888,15 @@ const parserInstance = new ScribbleParser();
 
 const BaseCstVisitor = parserInstance.getBaseCstVisitorConstructor();
 
+/**
+ * Identifiers that are literals in predicates
+ */
+const KEYWORD_LITERALS = new Map<string, boolean | null>([
+  ['true', true],
+  ['false', false],
+  ['null', null],
+]);
+
 class ScribbleToAstVisitor extends BaseCstVisitor {
   constructor() {
     super();
@@ -753,6 +948,10 @@ class ScribbleToAstVisitor extends BaseCstVisitor {
     };
   }
 
+  qualifiedName(ctx: any): string {
+    return ctx.Identifier.map((id: IToken) => id.image).join('.');
+  }
+
   typeDeclaration(ctx: any): AST.TypeDeclaration {
     return {
       type: 'TypeDeclaration',
@@ -762,7 +961,7 @@ class ScribbleToAstVisitor extends BaseCstVisitor {
     };
   }
 
-  globalProtocolDeclaration(ctx: any): AST.GlobalProtocolDeclaration {
+  globalProtocolDeclaration(ctx: any): AST.GlobalProtocolDeclaration | AST.ProtocolExtension {
     const name = ctx.Identifier[0].image;
     const parameters: AST.ProtocolParameter[] = ctx.typeParameters
       ? this.visit(ctx.typeParameters)
@@ -770,6 +969,21 @@ class ScribbleToAstVisitor extends BaseCstVisitor {
     const roles: AST.RoleDeclaration[] = this.visit(ctx.roleDeclarationList);
     const body: AST.GlobalProtocolBody = this.visit(ctx.globalProtocolBody);
 
+    if (ctx.extendsClause) {
+      const clause = this.visit(ctx.extendsClause);
+      return {
+        type: 'ProtocolExtension',
+        name,
+        parameters,
+        roles,
+        extends: clause.baseProtocol,
+        typeArguments: clause.typeArguments,
+        roleArguments: clause.roleArguments ?? roles.map(r => r.name),
+        refinements: body,
+        location: this.getLocation(ctx),
+      };
+    }
+
     return {
       type: 'GlobalProtocolDeclaration',
       name,
@@ -780,6 +994,14 @@ class ScribbleToAstVisitor extends BaseCstVisitor {
     };
   }
 
+  extendsClause(ctx: any): { baseProtocol: string; typeArguments?: AST.Type[]; roleArguments?: string[] } {
+    return {
+      baseProtocol: this.visit(ctx.baseProtocol),
+      typeArguments: ctx.typeArguments ? this.visit(ctx.typeArguments) : undefined,
+      roleArguments: ctx.baseRoleArg?.map((id: IToken) => id.image),
+    };
+  }
+
   typeParameters(ctx: any): AST.ProtocolParameter[] {
     const params: AST.ProtocolParameter[] = [];
     for (let i = 0; i < ctx.typeParameter.length; i++) {
@@ -800,15 +1022,18 @@ class ScribbleToAstVisitor extends BaseCstVisitor {
   }
 
   roleDeclarationList(ctx: any): AST.RoleDeclaration[] {
-    const roles: AST.RoleDeclaration[] = [];
-    for (const id of ctx.Identifier) {
-      roles.push({
-        type: 'RoleDeclaration',
-        name: id.image,
-        location: this.getLocation(id),
-      });
-    }
-    return roles;
+    return ctx.roleDeclaration.map((role: any) => this.visit(role));
+  }
+
+  roleDeclaration(ctx: any): AST.RoleDeclaration {
+    const id = ctx.Identifier[0];
+    return {
+      type: 'RoleDeclaration',
+      name: id.image,
+      ...(ctx.indexRange && { range: this.visit(ctx.indexRange) }),
+      ...(ctx.Unreliable && { unreliable: true }),
+      location: this.getLocation(id),
+    };
   }
 
   globalProtocolBody(ctx: any): AST.GlobalProtocolBody {
@@ -885,29 +1110,63 @@ class ScribbleToAstVisitor extends BaseCstVisitor {
     if (ctx.updatableRecursion) {
       return this.visit(ctx.updatableRecursion);
     }
+    // Exception handling
+    if (ctx.tryStatement) {
+      return this.visit(ctx.tryStatement);
+    }
+    if (ctx.throwStatement) {
+      return this.visit(ctx.throwStatement);
+    }
+    // Timed session types
+    if (ctx.timeoutStatement) {
+      return this.visit(ctx.timeoutStatement);
+    }
+    // Crash-stop failures
+    if (ctx.crashHandler) {
+      return this.visit(ctx.crashHandler);
+    }
+    // Role families
+    if (ctx.foreachStatement) {
+      return this.visit(ctx.foreachStatement);
+    }
     throw new Error('Unknown global interaction');
   }
 
-  messageTransfer(ctx: any): AST.MessageTransfer {
+  messageTransfer(ctx: any): AST.MessageTransfer | AST.TimedMessage {
     // Handle both arrow syntax (A -> B: Msg) and standard syntax (Msg from A to B)
     let from: string;
     let to: string | string[];
     let message: AST.Message;
+    let deadline: AST.TimeConstraint | undefined;
 
     if (ctx.arrowMessage) {
       // Arrow syntax: Sender -> Receiver: Message();
-      from = ctx.from[0].image;
+      from = this.visit(ctx.from);
       to = ctx.toAdditional
-        ? [ctx.to[0].image, ...ctx.toAdditional.map((t: any) => t.image)]
-        : ctx.to[0].image;
+        ? [this.visit(ctx.to), ...ctx.toAdditional.map((t: any) => this.visit(t))]
+        : this.visit(ctx.to);
       message = this.visit(ctx.arrowMessage);
+      deadline = ctx.arrowDeadline ? this.visit(ctx.arrowDeadline) : undefined;
     } else {
       // Standard Scribble syntax: Message() from Sender to Receiver;
-      from = ctx.standardFrom[0].image;
+      from = this.visit(ctx.standardFrom);
       to = ctx.standardToAdditional
-        ? [ctx.standardTo[0].image, ...ctx.standardToAdditional.map((t: any) => t.image)]
-        : ctx.standardTo[0].image;
+        ? [this.visit(ctx.standardTo), ...ctx.standardToAdditional.map((t: any) => this.visit(t))]
+        : this.visit(ctx.standardTo);
       message = this.visit(ctx.standardMessage);
+      deadline = ctx.standardDeadline ? this.visit(ctx.standardDeadline) : undefined;
+    }
+
+    // `within` turns the transfer into a timed message
+    if (deadline) {
+      return {
+        type: 'TimedMessage',
+        from,
+        to,
+        message,
+        deadline,
+        location: this.getLocation(ctx),
+      };
     }
 
     return {
@@ -920,10 +1179,18 @@ class ScribbleToAstVisitor extends BaseCstVisitor {
   }
 
   message(ctx: any): AST.Message {
-    const payload = ctx.typeExpression
+    // Named arguments are a record payload
+    const payloadType: AST.Type | undefined = ctx.recordField
+      ? {
+          type: 'RecordType',
+          fields: ctx.recordField.map((field: any) => this.visit(field)),
+          location: this.getLocation(ctx.recordField),
+        }
+      : ctx.typeExpression && this.visit(ctx.typeExpression);
+    const payload = payloadType
       ? {
           type: 'Payload' as const,
-          payloadType: this.visit(ctx.typeExpression),
+          payloadType,
         }
       : undefined;
 
@@ -931,6 +1198,7 @@ class ScribbleToAstVisitor extends BaseCstVisitor {
       type: 'Message',
       label: ctx.label[0].image,
       payload,
+      ...(ctx.predicate && { predicate: this.visit(ctx.predicate) }),
       location: this.getLocation(ctx),
     };
   }
@@ -960,7 +1228,7 @@ class ScribbleToAstVisitor extends BaseCstVisitor {
 
     return {
       type: 'Choice',
-      at: ctx.at[0].image,
+      at: this.visit(ctx.at),
       branches,
       location: this.getLocation(ctx),
     };
@@ -1020,7 +1288,7 @@ class ScribbleToAstVisitor extends BaseCstVisitor {
 
     return {
       type: 'Do',
-      protocol: ctx.protocol[0].image,
+      protocol: this.visit(ctx.protocol),
       typeArguments,
       roleArguments,
       location: this.getLocation(ctx),
@@ -1049,7 +1317,7 @@ class ScribbleToAstVisitor extends BaseCstVisitor {
     return {
       type: 'ProtocolCall',
       caller: ctx.caller[0].image,
-      protocol: ctx.protocol[0].image,
+      protocol: this.visit(ctx.protocol),
       typeArguments,
       roleArguments,
       location: this.getLocation(ctx),
@@ -1088,7 +1356,142 @@ class ScribbleToAstVisitor extends BaseCstVisitor {
     };
   }
 
+  // Exception handling
+
+  tryStatement(ctx: any): AST.Try {
+    return {
+      type: 'Try',
+      body: this.visit(ctx.body),
+      catchHandlers: ctx.catchClause.map((clause: any) => this.visit(clause)),
+      location: this.getLocation(ctx),
+    };
+  }
+
+  catchClause(ctx: any): AST.CatchHandler {
+    return {
+      type: 'CatchHandler',
+      exceptionLabel: ctx.exceptionLabel[0].image,
+      payload: ctx.typeExpression
+        ? { type: 'Payload', payloadType: this.visit(ctx.typeExpression) }
+        : undefined,
+      body: this.visit(ctx.handler),
+      location: this.getLocation(ctx),
+    };
+  }
+
+  throwStatement(ctx: any): AST.Throw {
+    return {
+      type: 'Throw',
+      exceptionLabel: ctx.exceptionLabel[0].image,
+      payload: ctx.typeExpression
+        ? { type: 'Payload', payloadType: this.visit(ctx.typeExpression) }
+        : undefined,
+      from: ctx.from?.[0].image,
+      location: this.getLocation(ctx),
+    };
+  }
+
+  timeConstraint(ctx: any): AST.TimeConstraint {
+    const unit = ctx.unit[0].image;
+    if (unit !== 'ms' && unit !== 's' && unit !== 'min') {
+      throw new Error(`Unknown time unit '${unit}' (expected ms, s or min)`);
+    }
+    return {
+      type: 'TimeConstraint',
+      value: Number(ctx.value[0].image),
+      unit,
+      location: this.getLocation(ctx),
+    };
+  }
+
+  timeoutStatement(ctx: any): AST.Timeout {
+    return {
+      type: 'Timeout',
+      constraint: this.visit(ctx.timeConstraint),
+      body: this.visit(ctx.globalProtocolBody),
+      location: this.getLocation(ctx),
+    };
+  }
+
+  // Crash-stop failures
+
+  crashHandler(ctx: any): AST.CrashHandler {
+    return {
+      type: 'CrashHandler',
+      role: ctx.role[0].image,
+      body: this.visit(ctx.globalProtocolBody),
+      location: this.getLocation(ctx),
+    };
+  }
+
+  /**
+   * Role name; a family member's index is formatted canonically: Worker[i + 1]
+   */
+  roleReference(ctx: any): string {
+    const role = ctx.role[0].image;
+    return ctx.index ? `${role}[${formatExpression(this.visit(ctx.index))}]` : role;
+  }
+
+  indexRange(ctx: any): AST.IndexRange {
+    return {
+      type: 'IndexRange',
+      lower: this.visit(ctx.lower),
+      upper: this.visit(ctx.upper),
+      location: this.getLocation(ctx),
+    };
+  }
+
+  foreachStatement(ctx: any): AST.Foreach {
+    return {
+      type: 'Foreach',
+      variable: ctx.variable[0].image,
+      range: this.visit(ctx.indexRange),
+      body: this.visit(ctx.globalProtocolBody),
+      location: this.getLocation(ctx),
+    };
+  }
+
   typeExpression(ctx: any): AST.Type {
+    if (ctx.alternative.length === 1) {
+      return this.visit(ctx.alternative[0]);
+    }
+    return {
+      type: 'UnionType',
+      alternatives: ctx.alternative.map((alternative: any) => this.visit(alternative)),
+      location: this.getLocation(ctx),
+    };
+  }
+
+  optionalType(ctx: any): AST.Type {
+    const valueType: AST.Type = this.visit(ctx.namedType ?? ctx.recordType);
+    if (!ctx.Question) {
+      return valueType;
+    }
+    return {
+      type: 'OptionalType',
+      valueType,
+      location: this.getLocation(ctx),
+    };
+  }
+
+  recordType(ctx: any): AST.RecordType {
+    return {
+      type: 'RecordType',
+      fields: (ctx.recordField ?? []).map((field: any) => this.visit(field)),
+      location: this.getLocation(ctx),
+    };
+  }
+
+  recordField(ctx: any): AST.RecordField {
+    return {
+      type: 'RecordField',
+      name: ctx.fieldName[0].image,
+      fieldType: this.visit(ctx.typeExpression),
+      location: this.getLocation(ctx),
+    };
+  }
+
+  namedType(ctx: any): AST.Type {
     const name = ctx.typeName[0].image;
     if (ctx.typeArguments) {
       return {
@@ -1109,6 +1512,88 @@ class ScribbleToAstVisitor extends BaseCstVisitor {
     return ctx.typeExpression.map((te: any) => this.visit(te));
   }
 
+  expression(ctx: any): AST.Expression {
+    return this.binaryExpression(ctx);
+  }
+
+  andExpression(ctx: any): AST.Expression {
+    return this.binaryExpression(ctx);
+  }
+
+  comparisonExpression(ctx: any): AST.Expression {
+    return this.binaryExpression(ctx);
+  }
+
+  additiveExpression(ctx: any): AST.Expression {
+    return this.binaryExpression(ctx);
+  }
+
+  multiplicativeExpression(ctx: any): AST.Expression {
+    return this.binaryExpression(ctx);
+  }
+
+  unaryExpression(ctx: any): AST.Expression {
+    if (ctx.primaryExpression) {
+      return this.visit(ctx.primaryExpression);
+    }
+    return {
+      type: 'UnaryExpression',
+      operator: ctx.operator[0].image,
+      operand: this.visit(ctx.operand),
+      location: this.getLocation(ctx),
+    };
+  }
+
+  primaryExpression(ctx: any): AST.Expression {
+    if (ctx.expression) {
+      return this.visit(ctx.expression);
+    }
+    if (ctx.NumberLiteral) {
+      return {
+        type: 'LiteralExpression',
+        value: Number(ctx.NumberLiteral[0].image),
+        location: this.getLocation(ctx),
+      };
+    }
+    if (ctx.StringLiteral) {
+      return {
+        type: 'LiteralExpression',
+        value: JSON.parse(ctx.StringLiteral[0].image),
+        location: this.getLocation(ctx),
+      };
+    }
+
+    const variable = ctx.variable[0];
+    let expression: AST.Expression = KEYWORD_LITERALS.has(variable.image)
+      ? { type: 'LiteralExpression', value: KEYWORD_LITERALS.get(variable.image)!, location: this.getLocation(variable) }
+      : { type: 'VariableExpression', name: variable.image, location: this.getLocation(variable) };
+    for (const field of ctx.field ?? []) {
+      expression = {
+        type: 'FieldExpression',
+        object: expression,
+        field: field.image,
+        location: this.getLocation([variable, field]),
+      };
+    }
+    return expression;
+  }
+
+  /**
+   * Operands joined left to right by the operators between them
+   */
+  private binaryExpression(ctx: any): AST.Expression {
+    const operands: AST.Expression[] = ctx.operand.map((operand: any) => this.visit(operand));
+    return operands.reduce((left, right, i) => ({
+      type: 'BinaryExpression',
+      operator: ctx.operator[i - 1].image,
+      left,
+      right,
+      location: left.location && right.location
+        ? { start: left.location.start, end: right.location.end }
+        : undefined,
+    }));
+  }
+
   private getLocation(ctx: any): AST.SourceLocation | undefined {
     if (!ctx) return undefined;
 
@@ -1131,6 +1616,8 @@ class ScribbleToAstVisitor extends BaseCstVisitor {
     // Handle CST nodes
     const location = ctx.location;
     if (location) {
+      // Empty nodes (e.g. a branch without statements) have no position
+      if (Number.isNaN(location.startOffset)) return undefined;
       return {
         start: {
           line: location.startLine || 0,
@@ -1145,7 +1632,21 @@ class ScribbleToAstVisitor extends BaseCstVisitor {
       };
     }
 
-    return undefined;
+    // Handle visitor contexts (children by label) and lists of CST nodes:
+    // span from the first to the last child
+    let first: AST.SourceLocation | undefined;
+    let last: AST.SourceLocation | undefined;
+    const children = Array.isArray(ctx) ? ctx : Object.values(ctx).flat();
+    for (const child of children) {
+      // Tokens inserted by error recovery have no position
+      if (!child || typeof child !== 'object' || Number.isNaN(child.startOffset)) continue;
+      const childLocation = this.getLocation(child);
+      if (!childLocation) continue;
+      if (!first || childLocation.start.offset < first.start.offset) first = childLocation;
+      if (!last || childLocation.end.offset > last.end.offset) last = childLocation;
+    }
+
+    return first && last ? { start: first.start, end: last.end } : undefined;
   }
 }
 
@@ -1156,32 +1657,164 @@ const toAstVisitor = new ScribbleToAstVisitor();
 // Main Parse Function
 // ============================================================================
 
-export function parse(sourceCode: string): AST.Module {
-  // Tokenize
+/**
+ * Tokens that start a module declaration
+ */
+const DECLARATION_START: TokenType[] = parserInstance
+  .computeContentAssist('moduleDeclaration', [])
+  .map(path => path.nextTokenType);
+
+/**
+ * Syntax errors, with the source range of the offending input
+ */
+export class ParseError extends Error {
+  /** Range of the first error */
+  public readonly location: AST.SourceLocation;
+
+  constructor(public readonly diagnostics: SyntaxDiagnostic[]) {
+    super(diagnostics.map(d =>
+      `Syntax error at line ${d.location.start.line}, column ${d.location.start.column}: ${formatSyntaxDiagnostic(d)}`
+    ).join('\n'));
+    this.name = 'ParseError';
+    this.location = diagnostics[0].location;
+  }
+}
+
+/**
+ * Result of parsing with error recovery
+ */
+export interface ParseResult {
+  /** The declarations that parsed (completely, or with a missing punctuation token) */
+  module: AST.Module;
+
+  /** Every syntax error, in source order */
+  diagnostics: SyntaxDiagnostic[];
+}
+
+/**
+ * Parse a module, reporting all syntax errors at once
+ *
+ * Declarations that could only be partially recognized are left out of
+ * the module, so that later stages (CFG, verification) run on the
+ * protocols that did parse.
+ */
+export function parseWithRecovery(sourceCode: string): ParseResult {
+  resetExpectations();
+  const diagnostics: SyntaxDiagnostic[] = [];
+  const declarations: AST.ModuleDeclaration[] = [];
+
+  // Tokenize (the lexer skips unexpected characters)
   const lexResult = ScribbleLexer.tokenize(sourceCode);
+  for (const error of lexResult.errors) {
+    const line = error.line ?? 0;
+    const column = error.column ?? 0;
+    diagnostics.push({
+      message: `Unexpected character${error.length > 1 ? 's' : ''} "${sourceCode.substr(error.offset, error.length)}"`,
+      location: {
+        start: { line, column, offset: error.offset },
+        end: { line, column: column + error.length - 1, offset: error.offset + error.length - 1 },
+      },
+      expected: [],
+    });
+  }
+
+  const input = lexResult.tokens;
+  const lastToken = input[input.length - 1];
+
+  // Parse; on input that doesn't start a declaration, report it and
+  // resume at the next declaration
+  const abandonedAt = new Set<number>();
+  let start = 0;
+  while (start < input.length) {
+    parserInstance.input = input.slice(start);
+    const cst = parserInstance.module();
+
+    const stray = parserInstance.errors.find(error => error.context.ruleStack.length <= 1);
+    const beforeStray = (offset: number) => !stray || offset < stray.token.startOffset;
 
-  if (lexResult.errors.length > 0) {
-    const error = lexResult.errors[0];
-    throw new Error(
-      `Lexer error at line ${error.line}, column ${error.column}: ${error.message}`
+    for (const error of parserInstance.errors) {
+      if (error !== stray && !beforeStray(error.token.startOffset)) continue;
+
+      // After a rule is abandoned, recovery often fails again on the same token
+      const key = Number.isNaN(error.token.startOffset) ? -1 : error.token.startOffset;
+      if (abandonedAt.has(key)) continue;
+      if (error.name === 'NoViableAltException' || error.name === 'EarlyExitException') {
+        abandonedAt.add(key);
+      }
+
+      diagnostics.push(error === stray
+        ? toSyntaxDiagnostic(error, lastToken, DECLARATION_START)
+        : toSyntaxDiagnostic(error, lastToken));
+    }
+
+    for (const node of (cst.children.moduleDeclaration ?? []) as CstNode[]) {
+      if (isRecovered(node) || !beforeStray(node.location!.startOffset)) continue;
+      try {
+        declarations.push(toAstVisitor.visit(node));
+      } catch (error: any) {
+        const location = node.location!;
+        diagnostics.push({
+          message: error.message,
+          location: {
+            start: { line: location.startLine!, column: location.startColumn!, offset: location.startOffset },
+            end: { line: location.endLine!, column: location.endColumn!, offset: location.endOffset! },
+          },
+          expected: [],
+        });
+      }
+    }
+
+    if (!stray) break;
+    const next = input.findIndex(token =>
+      token.startOffset > stray.token.startOffset && DECLARATION_START.includes(token.tokenType)
     );
+    start = next < 0 ? input.length : next;
   }
 
-  // Parse
-  parserInstance.input = lexResult.tokens;
-  const cst = parserInstance.module();
+  diagnostics.sort((a, b) => a.location.start.offset - b.location.start.offset);
+  return { module: { type: 'Module', declarations }, diagnostics };
+}
 
-  if (parserInstance.errors.length > 0) {
-    const error = parserInstance.errors[0];
-    throw new Error(
-      `Parser error at line ${error.token.startLine}, column ${error.token.startColumn}: ${error.message}`
-    );
+/**
+ * Family and index of a role reference as written in the AST
+ * (`Worker[i + 1]`); plain role names have no index
+ *
+ * @throws {Error} if the text is not a role reference
+ */
+export function parseRoleReference(text: string): { role: string; index?: AST.Expression } {
+  const lexResult = ScribbleLexer.tokenize(text);
+  parserInstance.input = lexResult.tokens;
+  const cst = parserInstance.roleReference();
+  if (lexResult.errors.length > 0 || parserInstance.errors.length > 0 || !cst.children.role) {
+    throw new Error(`Invalid role reference "${text}"`);
   }
 
-  // Convert CST to AST
-  const ast = toAstVisitor.visit(cst);
+  const role = (cst.children.role[0] as IToken).image;
+  const index = cst.children.index as CstNode[] | undefined;
+  return index ? { role, index: toAstVisitor.visit(index[0]) } : { role };
+}
+
+/**
+ * Parse a module
+ *
+ * @throws {ParseError} on syntax errors
+ */
+export function parse(sourceCode: string): AST.Module {
+  const { module, diagnostics } = parseWithRecovery(sourceCode);
+  if (diagnostics.length > 0) {
+    throw new ParseError(diagnostics);
+  }
+  return module;
+}
 
-  return ast;
+/**
+ * Whether error recovery re-synchronized inside this CST node
+ */
+function isRecovered(node: CstNode): boolean {
+  if (node.recoveredNode) return true;
+  return Object.values(node.children).some(children =>
+    children.some(child => 'children' in child && isRecovered(child))
+  );
 }
 
 // Export parser instance for advanced use cases
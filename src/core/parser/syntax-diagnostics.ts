@@ -0,0 +1,278 @@
+/**
+ * Syntax Diagnostics
+ *
+ * Turns chevrotain's recognition errors into structured diagnostics:
+ * source range, the set of tokens that would have been accepted, and a
+ * suggestion for the likely fix ("missing `;` after message",
+ * "did you mean `continue`?").
+ */
+
+import {
+  EOF,
+  defaultParserErrorProvider,
+  type IParserErrorMessageProvider,
+  type IRecognitionException,
+  type IToken,
+  type TokenType,
+} from 'chevrotain';
+import type { SourceLocation } from '../ast/types';
+import { Identifier, NumberLiteral, Semicolon, StringLiteral, allTokens } from './lexer';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * A syntax error, located in the source
+ */
+export interface SyntaxDiagnostic {
+  message: string;
+  location: SourceLocation;
+
+  /** Tokens accepted at this point, as written (`;`, `continue`) or by kind (`identifier`) */
+  expected: string[];
+
+  /** Likely fix, when one can be guessed */
+  suggestion?: string;
+}
+
+// ============================================================================
+// Error Messages
+// ============================================================================
+
+/**
+ * Tokens expected by the errors reported during the current parse, by message
+ *
+ * Chevrotain only keeps the message on its exceptions, and a message is
+ * determined by the expected tokens (and the actual one), so the message
+ * is a sound key.
+ */
+const expectations = new Map<string, TokenType[]>();
+
+export function resetExpectations(): void {
+  expectations.clear();
+}
+
+function record(message: string, expected: TokenType[]): string {
+  expectations.set(message, unique(expected));
+  return message;
+}
+
+/**
+ * Readable messages (`Expected ";" but found "B"`), recording what was expected
+ */
+export const errorMessageProvider: IParserErrorMessageProvider = {
+  buildMismatchTokenMessage({ expected, actual }) {
+    return record(`Expected ${formatExpected([expected])} but found ${formatActual(actual)}`, [expected]);
+  },
+
+  buildNotAllInputParsedMessage({ firstRedundant }) {
+    return record(`Unexpected ${formatActual(firstRedundant)}`, []);
+  },
+
+  buildNoViableAltMessage({ expectedPathsPerAlt, actual }) {
+    const expected = expectedPathsPerAlt.flatMap(paths => paths.map(path => path[0]));
+    return record(`Expected ${formatExpected(expected)} but found ${formatActual(actual[0])}`, expected);
+  },
+
+  buildEarlyExitMessage(options) {
+    const expected = options.expectedIterationPaths.map(path => path[0]);
+    if (expected.length === 0) {
+      return defaultParserErrorProvider.buildEarlyExitMessage(options);
+    }
+    return record(`Expected ${formatExpected(expected)} but found ${formatActual(options.actual[0])}`, expected);
+  },
+};
+
+// ============================================================================
+// Diagnostics
+// ============================================================================
+
+/**
+ * Diagnostic for a parser error
+ *
+ * @param lastToken - last token of the input, for errors at end of input
+ * @param expectedOverride - accepted tokens, when the error doesn't say
+ *   (e.g. at the top level, where chevrotain expects the end of input)
+ */
+export function toSyntaxDiagnostic(
+  error: IRecognitionException,
+  lastToken: IToken | undefined,
+  expectedOverride?: TokenType[]
+): SyntaxDiagnostic {
+  const expected = expectedOverride ?? expectations.get(error.message) ?? [];
+  const actual = error.token;
+  const previous: IToken | undefined = (error as any).previousToken;
+  const atEnd = actual.tokenType === EOF || Number.isNaN(actual.startOffset);
+
+  // A missing token is reported after the preceding one, rather than on
+  // the next line (or at end of input)
+  const missing = expected.length === 1 && isPunctuation(expected[0]);
+  const afterPrevious = missing && !atEnd &&
+    previous !== undefined && !Number.isNaN(previous.startOffset) && previous.endLine! < actual.startLine!;
+  let token = actual;
+  if (atEnd) {
+    token = previous && !Number.isNaN(previous.startOffset) ? previous : lastToken ?? actual;
+  } else if (afterPrevious) {
+    token = previous!;
+  }
+
+  return {
+    message: expectedOverride
+      ? `Expected ${formatExpected(expected)} but found ${formatActual(actual)}`
+      : error.message,
+    location: tokenLocation(token),
+    expected: expected.map(describeToken),
+    suggestion: suggest(expected, atEnd || afterPrevious ? undefined : actual, error.context.ruleStack),
+  };
+}
+
+/**
+ * "message (suggestion)"
+ */
+export function formatSyntaxDiagnostic(diagnostic: SyntaxDiagnostic): string {
+  return diagnostic.suggestion
+    ? `${diagnostic.message} (${diagnostic.suggestion})`
+    : diagnostic.message;
+}
+
+function tokenLocation(token: IToken): SourceLocation {
+  return {
+    start: { line: token.startLine || 0, column: token.startColumn || 0, offset: token.startOffset || 0 },
+    end: { line: token.endLine || 0, column: token.endColumn || 0, offset: token.endOffset || 0 },
+  };
+}
+
+/**
+ * Tokens written as fixed punctuation (`;`, `->`, `{`): the only ones that
+ * error recovery may insert, as they carry no value
+ */
+export function isPunctuation(tokenType: TokenType): boolean {
+  return tokenType.PATTERN instanceof RegExp &&
+    tokenType.LONGER_ALT === undefined &&
+    /^[^a-zA-Z0-9_\s]+$/.test(source(tokenType));
+}
+
+// ============================================================================
+// Suggestions
+// ============================================================================
+
+const KEYWORDS = allTokens.filter(token => token.LONGER_ALT === Identifier);
+
+/**
+ * What a statement is called, by grammar rule (for "missing `;` after ...")
+ */
+const STATEMENT_NAMES: Record<string, string> = {
+  messageTransfer: 'message',
+  message: 'message',
+  timedMessage: 'message',
+  localInteraction: 'message',
+  doStatement: '`do` statement',
+  protocolCall: 'protocol call',
+  continueStatement: '`continue`',
+  throwStatement: '`throw`',
+  timeoutStatement: '`timeout`',
+  typeDeclaration: 'type declaration',
+  importDeclaration: 'import',
+  createParticipants: '`creates`',
+  invitation: '`invites`',
+};
+
+function suggest(expected: TokenType[], actual: IToken | undefined, ruleStack: string[]): string | undefined {
+  // A misspelled keyword
+  if (actual?.tokenType === Identifier) {
+    const keyword = closestKeyword(actual.image, expected);
+    if (keyword) return `did you mean \`${keyword}\`?`;
+  }
+
+  // A single missing punctuation token
+  if (expected.length === 1 && isPunctuation(expected[0])) {
+    const token = describeToken(expected[0]);
+    if (expected[0] === Semicolon) {
+      const rule = [...ruleStack].reverse().find(name => STATEMENT_NAMES[name]);
+      return `missing \`;\` after ${rule ? STATEMENT_NAMES[rule] : 'statement'}`;
+    }
+    return actual ? `missing \`${token}\`` : `missing \`${token}\` at end of input`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Keyword within a small edit distance of `word`, preferring expected ones
+ */
+function closestKeyword(word: string, expected: TokenType[]): string | undefined {
+  const candidates = [
+    ...expected.filter(t => KEYWORDS.includes(t)),
+    ...KEYWORDS.filter(t => !expected.includes(t)),
+  ];
+
+  for (const candidate of candidates) {
+    const keyword = source(candidate);
+    if (keyword === word || keyword.length < 3) continue;
+    const maxDistance = keyword.length <= 4 ? 1 : 2;
+    if (editDistance(word, keyword) <= maxDistance) return keyword;
+  }
+  return undefined;
+}
+
+/**
+ * Levenshtein distance
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * A token as written (`;`, `continue`), or its kind (`identifier`)
+ */
+function describeToken(tokenType: TokenType): string {
+  if (tokenType === Identifier) return 'identifier';
+  if (tokenType === StringLiteral) return 'string';
+  if (tokenType === NumberLiteral) return 'number';
+  if (tokenType === EOF) return 'end of input';
+  return source(tokenType);
+}
+
+function source(tokenType: TokenType): string {
+  return tokenType.PATTERN instanceof RegExp
+    ? tokenType.PATTERN.source.replace(/\\(.)/g, '$1')
+    : String(tokenType.PATTERN ?? tokenType.name);
+}
+
+function formatExpected(expected: TokenType[]): string {
+  const names = unique(expected).map(t => {
+    const name = describeToken(t);
+    if (t === EOF) return name;
+    return t === Identifier || t === StringLiteral || t === NumberLiteral
+      ? `${/^[aeiou]/.test(name) ? 'an' : 'a'} ${name}`
+      : `"${name}"`;
+  });
+  return names.length === 1 ? names[0] : `one of ${names.join(', ')}`;
+}
+
+function formatActual(token: IToken): string {
+  return token.tokenType === EOF || Number.isNaN(token.startOffset)
+    ? 'end of input'
+    : `"${token.image}"`;
+}
+
+function unique<T>(items: T[]): T[] {
+  return [...new Set(items)];
+}
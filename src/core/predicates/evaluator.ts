@@ -0,0 +1,320 @@
+/**
+ * Predicate Evaluator - Message Refinements at Runtime
+ *
+ * A message may carry a predicate over payload values:
+ *
+ *   Seller -> Buyer: Quote(limit: Int);
+ *   Buyer -> Seller: Pay(amount: Int) where amount > 0 && amount <= limit;
+ *
+ * Variables are named arguments, of the refined message or of an earlier
+ * one (the type checker makes sure both sender and receiver know them).
+ * Projection keeps the predicate on the send and receive transitions
+ * (CFSMTransition.guard); executors check it on both sides with the values
+ * the role has seen so far.
+ *
+ * Values are JSON-like: numbers, strings, booleans, null, records (objects)
+ * and lists. Operators are strict about types: no coercion, a type error is
+ * a violation like a predicate that does not hold.
+ */
+
+import type { Expression, BinaryOperator, Message } from '../ast/types';
+import type { PayloadValues, PredicateViolation, PredicateViolationReason } from './types';
+
+/**
+ * Evaluation failure: a variable without value or an ill-typed operation
+ */
+export class PredicateError extends Error {
+  constructor(public readonly reason: Exclude<PredicateViolationReason, 'false'>, message: string) {
+    super(message);
+    this.name = 'PredicateError';
+  }
+}
+
+// ============================================================================
+// Checking
+// ============================================================================
+
+/**
+ * Check the predicate of a message against the values known
+ *
+ * @param label - label of the refined message
+ * @param values - values known to the role, including the message's own
+ *                 named arguments (see payloadValues)
+ * @returns the violation, or undefined if the predicate holds
+ */
+export function checkPredicate(
+  predicate: Expression,
+  label: string,
+  values: PayloadValues
+): PredicateViolation | undefined {
+  const written = formatExpression(predicate);
+  const used = Object.fromEntries(
+    freeVariables(predicate)
+      .filter(name => values[name] !== undefined)
+      .map(name => [name, values[name]])
+  );
+  const violation = (reason: PredicateViolationReason, message: string): PredicateViolation => ({
+    reason,
+    message,
+    label,
+    predicate: written,
+    values: used,
+  });
+
+  try {
+    const result = evaluateExpression(predicate, values);
+    if (typeof result !== 'boolean') {
+      return violation('type-mismatch', `Predicate of ${label} is not a boolean: ${written}`);
+    }
+    return result
+      ? undefined
+      : violation('false', `Predicate of ${label} does not hold: ${written}${describeValues(used)}`);
+  } catch (error) {
+    if (!(error instanceof PredicateError)) throw error;
+    return violation(error.reason, `Predicate of ${label} cannot be checked: ${error.message}`);
+  }
+}
+
+/**
+ * Variables bound by a message: its named arguments, taken from the payload
+ * value (an object by field name; absent optionals are null)
+ */
+export function payloadValues(message: Message, payload: unknown): PayloadValues {
+  const type = message.payload?.payloadType;
+  if (type?.type !== 'RecordType' || payload === null || typeof payload !== 'object') return {};
+
+  const values: PayloadValues = {};
+  for (const field of type.fields) {
+    const value = (payload as PayloadValues)[field.name];
+    if (value !== undefined) {
+      values[field.name] = value;
+    } else if (field.fieldType.type === 'OptionalType') {
+      values[field.name] = null; // Absent optional
+    }
+  }
+  return values;
+}
+
+/**
+ * Variables an expression refers to, in order of first use
+ */
+export function freeVariables(expression: Expression): string[] {
+  const names = new Set<string>();
+  const collect = (e: Expression): void => {
+    switch (e.type) {
+      case 'VariableExpression':
+        names.add(e.name);
+        break;
+      case 'FieldExpression':
+        collect(e.object);
+        break;
+      case 'UnaryExpression':
+        collect(e.operand);
+        break;
+      case 'BinaryExpression':
+        collect(e.left);
+        collect(e.right);
+        break;
+    }
+  };
+  collect(expression);
+  return [...names];
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Value of an expression
+ *
+ * @throws PredicateError for a variable without value or an ill-typed operation
+ */
+export function evaluateExpression(expression: Expression, values: PayloadValues): unknown {
+  switch (expression.type) {
+    case 'LiteralExpression':
+      return expression.value;
+
+    case 'VariableExpression': {
+      const value = values[expression.name];
+      if (value === undefined) {
+        throw new PredicateError('unknown-value', `no value for "${expression.name}"`);
+      }
+      return value;
+    }
+
+    case 'FieldExpression': {
+      const object = evaluateExpression(expression.object, values);
+      if (object === null || typeof object !== 'object' || Array.isArray(object)) {
+        throw new PredicateError(
+          'type-mismatch',
+          `${formatExpression(expression.object)} is not a record (${describe(object)})`
+        );
+      }
+      const value = (object as PayloadValues)[expression.field];
+      if (value === undefined) {
+        throw new PredicateError('unknown-value', `no value for "${formatExpression(expression)}"`);
+      }
+      return value;
+    }
+
+    case 'UnaryExpression': {
+      const operand = evaluateExpression(expression.operand, values);
+      if (expression.operator === '!') {
+        return !expect(operand, 'boolean', expression.operator);
+      }
+      return -expect(operand, 'number', expression.operator);
+    }
+
+    case 'BinaryExpression':
+      return evaluateBinary(expression.operator, expression.left, expression.right, values);
+  }
+}
+
+function evaluateBinary(
+  operator: BinaryOperator,
+  leftExpression: Expression,
+  rightExpression: Expression,
+  values: PayloadValues
+): unknown {
+  const left = evaluateExpression(leftExpression, values);
+
+  // Short-circuit, so that `discount == null || discount.rate < 1` guards an optional
+  if (operator === '&&' || operator === '||') {
+    const value = expect(left, 'boolean', operator);
+    if (operator === '&&' ? !value : value) return value;
+    return expect(evaluateExpression(rightExpression, values), 'boolean', operator);
+  }
+
+  const right = evaluateExpression(rightExpression, values);
+  switch (operator) {
+    case '==':
+      return equalValues(left, right);
+    case '!=':
+      return !equalValues(left, right);
+    case '<':
+    case '<=':
+    case '>':
+    case '>=': {
+      const [a, b] = sameKind(left, right, operator, ['number', 'string']) as [number, number];
+      return operator === '<' ? a < b : operator === '<=' ? a <= b : operator === '>' ? a > b : a >= b;
+    }
+    case '+': {
+      const [a, b] = sameKind(left, right, operator, ['number', 'string']) as [number, number];
+      return a + b;
+    }
+    case '-':
+      return expect(left, 'number', operator) - expect(right, 'number', operator);
+    case '*':
+      return expect(left, 'number', operator) * expect(right, 'number', operator);
+    case '/':
+      return expect(left, 'number', operator) / expect(right, 'number', operator);
+    case '%':
+      return expect(left, 'number', operator) % expect(right, 'number', operator);
+  }
+}
+
+function expect(value: unknown, kind: 'number', operator: string): number;
+function expect(value: unknown, kind: 'boolean', operator: string): boolean;
+function expect(value: unknown, kind: 'number' | 'boolean', operator: string): number | boolean {
+  if (typeof value !== kind) {
+    throw new PredicateError('type-mismatch', `${operator} expects a ${kind}, got ${describe(value)}`);
+  }
+  return value as number | boolean;
+}
+
+function sameKind(left: unknown, right: unknown, operator: string, kinds: string[]): [unknown, unknown] {
+  if (typeof left !== typeof right || !kinds.includes(typeof left)) {
+    throw new PredicateError(
+      'type-mismatch',
+      `${operator} expects two numbers or two strings, got ${describe(left)} and ${describe(right)}`
+    );
+  }
+  return [left, right];
+}
+
+/**
+ * Structural equality (records and lists compared by content)
+ */
+function equalValues(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return aKeys.length === bKeys.length &&
+    aKeys.every(key => equalValues((a as PayloadValues)[key], (b as PayloadValues)[key]));
+}
+
+function describe(value: unknown): string {
+  return value === null ? 'null' : Array.isArray(value) ? 'a list' : `${typeof value} ${formatValue(value)}`;
+}
+
+function describeValues(values: PayloadValues): string {
+  const entries = Object.entries(values);
+  return entries.length > 0
+    ? ` (${entries.map(([name, value]) => `${name} = ${formatValue(value)}`).join(', ')})`
+    : '';
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+const PRECEDENCE: Record<BinaryOperator, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3, '!=': 3, '<': 3, '<=': 3, '>': 3, '>=': 3,
+  '+': 4, '-': 4,
+  '*': 5, '/': 5, '%': 5,
+};
+
+const UNARY_PRECEDENCE = 6;
+
+/**
+ * An expression in Scribble syntax, with only the parentheses it needs
+ */
+export function formatExpression(expression: Expression): string {
+  switch (expression.type) {
+    case 'LiteralExpression':
+      return typeof expression.value === 'string' ? JSON.stringify(expression.value) : String(expression.value);
+    case 'VariableExpression':
+      return expression.name;
+    case 'FieldExpression':
+      return `${formatExpression(expression.object)}.${expression.field}`;
+    case 'UnaryExpression': {
+      const operand = formatExpression(expression.operand);
+      return precedence(expression.operand) < UNARY_PRECEDENCE
+        ? `${expression.operator}(${operand})`
+        : `${expression.operator}${operand}`;
+    }
+    case 'BinaryExpression': {
+      const own = PRECEDENCE[expression.operator];
+      // Left-associative; comparisons do not chain
+      const left = formatOperand(expression.left, own === 3 ? own + 1 : own);
+      const right = formatOperand(expression.right, own + 1);
+      return `${left} ${expression.operator} ${right}`;
+    }
+  }
+}
+
+function formatOperand(expression: Expression, minimum: number): string {
+  const text = formatExpression(expression);
+  return precedence(expression) < minimum ? `(${text})` : text;
+}
+
+function precedence(expression: Expression): number {
+  switch (expression.type) {
+    case 'BinaryExpression':
+      return PRECEDENCE[expression.operator];
+    case 'UnaryExpression':
+      return UNARY_PRECEDENCE;
+    default:
+      return UNARY_PRECEDENCE + 1;
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Predicates Module
+ *
+ * Message refinements (`Pay(amount: Int) where amount > 0`): evaluation
+ * against payload values, for the runtime checks of executors and
+ * simulators, and formatting.
+ */
+
+// Types
+export type {
+  PayloadValues,
+  PayloadProvider,
+  PredicateViolation,
+  PredicateViolationReason,
+} from './types';
+
+// Evaluator
+export {
+  PredicateError,
+  checkPredicate,
+  payloadValues,
+  freeVariables,
+  evaluateExpression,
+  formatExpression,
+} from './evaluator';
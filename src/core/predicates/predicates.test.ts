@@ -0,0 +1,136 @@
+/**
+ * Predicate Tests
+ *
+ * Tests that verify message refinements (`where` clauses):
+ * 1. Evaluation of operators, literals, variables and record fields
+ * 2. Checking: violations that do not hold, lack values or are ill-typed
+ * 3. Values bound by named arguments
+ * 4. Formatting with minimal parentheses
+ */
+
+import { describe, it, expect } from 'vitest';
+import { checkPredicate, evaluateExpression, formatExpression, freeVariables, payloadValues, PredicateError } from './index';
+import { parse } from '../parser/parser';
+import type { Expression, GlobalProtocolDeclaration, Message, MessageTransfer } from '../ast/types';
+
+function messageOf(signature: string): Message {
+  const protocol = parse(`protocol P(role A, role B) { A -> B: ${signature}; }`)
+    .declarations[0] as GlobalProtocolDeclaration;
+  return (protocol.body[0] as MessageTransfer).message;
+}
+
+function predicateOf(source: string): Expression {
+  return messageOf(`M() where ${source}`).predicate!;
+}
+
+function evaluate(source: string, values: Record<string, unknown> = {}): unknown {
+  return evaluateExpression(predicateOf(source), values);
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+describe('Predicates - Evaluation', () => {
+  it('should evaluate arithmetic with the usual precedence', () => {
+    expect(evaluate('1 + 2 * 3 - 4 / 2 % 3')).toBe(5);
+    expect(evaluate('(1 + 2) * -3')).toBe(-9);
+  });
+
+  it('should compare numbers and strings', () => {
+    expect(evaluate('amount > 0 && amount <= limit', { amount: 50, limit: 100 })).toBe(true);
+    expect(evaluate('amount > 0 && amount <= limit', { amount: 150, limit: 100 })).toBe(false);
+    expect(evaluate('currency == "EUR" || currency < "B"', { currency: 'AUD' })).toBe(true);
+    expect(evaluate('"a" + "b" != "ab"')).toBe(false);
+  });
+
+  it('should read record fields and compare records by content', () => {
+    const values = { order: { total: 120, address: { country: 'FR' } } };
+    expect(evaluate('order.total >= 100 && order.address.country == "FR"', values)).toBe(true);
+    expect(evaluate('order.address == other', { ...values, other: { country: 'FR' } })).toBe(true);
+  });
+
+  it('should short-circuit so that absent optionals can be guarded', () => {
+    expect(evaluate('discount == null || discount.rate < 1', { discount: null })).toBe(true);
+    expect(evaluate('!(discount != null && discount.rate >= 1)', { discount: { rate: 0.5 } })).toBe(true);
+  });
+
+  it('should refuse variables without value and ill-typed operations', () => {
+    expect(() => evaluate('limit > 0')).toThrow(PredicateError);
+    expect(() => evaluate('amount + "EUR" > 0', { amount: 1 })).toThrow('+ expects two numbers or two strings');
+    expect(() => evaluate('!amount', { amount: 1 })).toThrow('! expects a boolean, got number 1');
+    expect(() => evaluate('amount.value > 0', { amount: 1 })).toThrow('amount is not a record');
+  });
+});
+
+// ============================================================================
+// Checking
+// ============================================================================
+
+describe('Predicates - Checking', () => {
+  const predicate = predicateOf('amount > 0 && amount <= limit');
+
+  it('should accept values that satisfy the predicate', () => {
+    expect(checkPredicate(predicate, 'Pay', { amount: 10, limit: 100, other: 'x' })).toBeUndefined();
+  });
+
+  it('should describe a predicate that does not hold', () => {
+    expect(checkPredicate(predicate, 'Pay', { amount: 150, limit: 100, other: 'x' })).toEqual({
+      reason: 'false',
+      message: 'Predicate of Pay does not hold: amount > 0 && amount <= limit (amount = 150, limit = 100)',
+      label: 'Pay',
+      predicate: 'amount > 0 && amount <= limit',
+      values: { amount: 150, limit: 100 },
+    });
+  });
+
+  it('should report missing values and type errors', () => {
+    expect(checkPredicate(predicate, 'Pay', { amount: 10 })).toMatchObject({
+      reason: 'unknown-value',
+      message: 'Predicate of Pay cannot be checked: no value for "limit"',
+    });
+    expect(checkPredicate(predicateOf('amount + 1'), 'Pay', { amount: 10 })).toMatchObject({
+      reason: 'type-mismatch',
+      message: 'Predicate of Pay is not a boolean: amount + 1',
+    });
+  });
+});
+
+// ============================================================================
+// Variables
+// ============================================================================
+
+describe('Predicates - Variables', () => {
+  it('should bind the named arguments of a message', () => {
+    const message = messageOf('Order(id: Int, note: String?, items: List<Item>)');
+
+    expect(payloadValues(message, { id: 7, items: [], extra: true })).toEqual({ id: 7, note: null, items: [] });
+    expect(payloadValues(messageOf('Order(Int)'), 7)).toEqual({});
+  });
+
+  it('should list the variables of a predicate once, in order', () => {
+    expect(freeVariables(predicateOf('b > a.x && a.y < b + c'))).toEqual(['b', 'a', 'c']);
+  });
+});
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+describe('Predicates - Formatting', () => {
+  it.each([
+    ['amount>0&&amount<=limit', 'amount > 0 && amount <= limit'],
+    ['(a || b) && c', '(a || b) && c'],
+    ['a || (b && c)', 'a || b && c'],
+    ['a - (b - c)', 'a - (b - c)'],
+    ['(a - b) - c', 'a - b - c'],
+    ['(a == b) == c', '(a == b) == c'],
+    ['!(a && b)', '!(a && b)'],
+    ['-(x) * 2', '-x * 2'],
+    ['order.total > 0.5', 'order.total > 0.5'],
+    ['name == "A \\"B\\""', 'name == "A \\"B\\""'],
+    ['flag == true || x == null', 'flag == true || x == null'],
+  ])('%s', (source, formatted) => {
+    expect(formatExpression(predicateOf(source))).toBe(formatted);
+  });
+});
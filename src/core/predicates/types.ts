@@ -0,0 +1,40 @@
+/**
+ * Predicate Types
+ *
+ * Runtime checking of message refinements
+ * (`Pay(amount: Int) where amount > 0 && amount <= limit`): the values a
+ * role knows and the violations reported by executors and simulators.
+ */
+
+import type { SendAction } from '../projection/types';
+
+/**
+ * Payload values by variable name: the named arguments of the messages a
+ * role has sent and received
+ */
+export type PayloadValues = Record<string, unknown>;
+
+/**
+ * Payload of each message a role sends, given the values it knows
+ * (named arguments as an object by field name)
+ */
+export type PayloadProvider = (action: SendAction, values: Readonly<PayloadValues>) => unknown;
+
+export type PredicateViolationReason =
+  | 'false'          // The predicate does not hold
+  | 'unknown-value'  // A variable has no value at the role checking it
+  | 'type-mismatch'; // An operator applied to values of the wrong type
+
+export interface PredicateViolation {
+  reason: PredicateViolationReason;
+  message: string;
+
+  /** Label of the refined message */
+  label: string;
+
+  /** The predicate as written */
+  predicate: string;
+
+  /** Values of the predicate's variables (those known) */
+  values: PayloadValues;
+}
@@ -0,0 +1,76 @@
+/**
+ * Crash Projection Tests
+ *
+ * Tests projection of crash-stop failures:
+ * - CFSM projection: the detector gets a crash(p) alternative to the
+ *   guarded receive, the crashed role never takes it
+ * - AST projection: (on crash(p) { H }) ↓ r = on crash(p) { H↓r }
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parse } from '../../parser/parser';
+import { buildCFG } from '../../cfg/builder';
+import { project, projectAll } from '../projector';
+import { projectToLocalProtocols } from '../ast-projector';
+import type { GlobalProtocolDeclaration, CrashHandler, Send } from '../../ast/types';
+
+const SOURCE = `
+  protocol Offload(role Master, role Worker unreliable, role Client) {
+    on crash(Worker) {
+      Master -> Client: Failed();
+    }
+    Master -> Worker: Task(Int);
+    Worker -> Master: Result(Int);
+    Master -> Client: Answer(Int);
+  }
+`;
+
+describe('CFSM Projection - Crash-Stop Failures', () => {
+  const cfg = buildCFG(parse(SOURCE).declarations[0] as GlobalProtocolDeclaration);
+
+  it('should give the detector a crash transition next to the guarded receive', () => {
+    const master = project(cfg, 'Master');
+    const result = master.transitions.find(t => t.action.type === 'receive' && t.action.label === 'Result')!;
+    const crash = master.transitions.find(t => t.action.type === 'crash')!;
+
+    expect(crash.action).toEqual({ type: 'crash', role: 'Worker' });
+    expect(crash.from).toBe(result.from);
+
+    // The handler follows the crash
+    expect(master.transitions.some(t => t.from === crash.to && t.action.type === 'send' && t.action.label === 'Failed')).toBe(true);
+  });
+
+  it('should not give the crashed role a crash transition', () => {
+    const worker = project(cfg, 'Worker');
+    expect(worker.transitions.some(t => t.action.type === 'crash')).toBe(false);
+  });
+
+  it('should let the other roles choose between the handler and the rest', () => {
+    const client = project(cfg, 'Client');
+    const labels = client.transitions
+      .filter(t => t.action.type === 'receive')
+      .map(t => (t.action as { label: string }).label)
+      .sort();
+    expect(labels).toEqual(['Answer', 'Failed']);
+  });
+
+  it('should project every role without errors', () => {
+    expect(projectAll(cfg).errors).toHaveLength(0);
+  });
+});
+
+describe('AST Projection - Crash-Stop Failures', () => {
+  it('should keep the handler at its participants only', () => {
+    const protocol = parse(SOURCE).declarations[0] as GlobalProtocolDeclaration;
+    const result = projectToLocalProtocols(protocol);
+    expect(result.errors).toHaveLength(0);
+
+    const handler = result.localProtocols.get('Master')!.body[0] as CrashHandler;
+    expect(handler.type).toBe('CrashHandler');
+    expect(handler.role).toBe('Worker');
+    expect((handler.body[0] as Send).message.label).toBe('Failed');
+
+    const worker = result.localProtocols.get('Worker')!;
+    expect(worker.body.some(i => i.type === 'CrashHandler')).toBe(false);
+  });
+});
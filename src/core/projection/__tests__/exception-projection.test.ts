@@ -0,0 +1,104 @@
+/**
+ * Exception Projection Tests
+ *
+ * Tests projection of try/catch/throw:
+ * - CFSM projection: thrower sends the exception, participants receive it
+ *   and continue with the catch handler, other roles tau-eliminate it
+ * - AST projection: (try { G } catch l { H }) ↓ r = try { G↓r } catch l { H↓r }
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parse } from '../../parser/parser';
+import { buildCFG } from '../../cfg/builder';
+import { project, projectAll } from '../projector';
+import { projectToLocalProtocols } from '../ast-projector';
+import type { GlobalProtocolDeclaration, Try, Throw } from '../../ast/types';
+import type { CFSM, SendAction, ReceiveAction } from '../types';
+
+const SOURCE = `
+  protocol Checkout(role Client, role Shop, role Bank) {
+    try {
+      Client -> Shop: Order(Int);
+      choice at Shop {
+        Shop -> Bank: Charge(Int);
+        Bank -> Client: Receipt();
+      } or {
+        throw OutOfStock(String) from Shop;
+      }
+    } catch OutOfStock(String) {
+      Client -> Shop: Cancel();
+    }
+  }
+`;
+
+function exceptionTransitions(cfsm: CFSM) {
+  return cfsm.transitions.filter(
+    t => (t.action.type === 'send' || t.action.type === 'receive') && t.action.exception
+  );
+}
+
+describe('CFSM Projection - Exception Handling', () => {
+  const cfg = buildCFG(parse(SOURCE).declarations[0] as GlobalProtocolDeclaration);
+
+  it('should project a throw as an exception send for the thrower', () => {
+    const shop = project(cfg, 'Shop');
+    const [raise] = exceptionTransitions(shop);
+
+    expect(raise.action.type).toBe('send');
+    const action = raise.action as SendAction;
+    expect(action.label).toBe('OutOfStock');
+    expect(action.to).toEqual(['Client', 'Bank']);
+
+    // After the throw, the shop waits for the handler's Cancel
+    const next = shop.transitions.filter(t => t.from === raise.to);
+    expect(next).toHaveLength(1);
+    expect((next[0].action as ReceiveAction).label).toBe('Cancel');
+  });
+
+  it('should project a throw as an exception receive for the other participants', () => {
+    const client = project(cfg, 'Client');
+    const [notified] = exceptionTransitions(client);
+
+    expect(notified.action.type).toBe('receive');
+    expect((notified.action as ReceiveAction).from).toBe('Shop');
+
+    // The notification is an external choice with the normal continuation
+    const alternatives = client.transitions.filter(t => t.from === notified.from);
+    expect(alternatives.map(t => (t.action as ReceiveAction).label).sort()).toEqual(['OutOfStock', 'Receipt']);
+
+    const handler = client.transitions.filter(t => t.from === notified.to);
+    expect((handler[0].action as SendAction).label).toBe('Cancel');
+  });
+
+  it('should give every role a CFSM without projection errors', () => {
+    const result = projectAll(cfg);
+    expect(result.errors).toHaveLength(0);
+    expect(exceptionTransitions(result.cfsms.get('Bank')!)).toHaveLength(1);
+  });
+});
+
+describe('AST Projection - Exception Handling', () => {
+  it('should distribute projection over try and keep the throw at the thrower', () => {
+    const protocol = parse(SOURCE).declarations[0] as GlobalProtocolDeclaration;
+    const result = projectToLocalProtocols(protocol);
+    expect(result.errors).toHaveLength(0);
+
+    const shopTry = result.localProtocols.get('Shop')!.body[0] as Try;
+    expect(shopTry.type).toBe('Try');
+    expect(shopTry.catchHandlers[0].exceptionLabel).toBe('OutOfStock');
+    expect(shopTry.catchHandlers[0].body).toHaveLength(1);
+
+    const shopChoice = shopTry.body[1] as any;
+    const thrown = shopChoice.branches[1].body[0] as Throw;
+    expect(thrown.type).toBe('Throw');
+    expect(thrown.exceptionLabel).toBe('OutOfStock');
+
+    // Bank does not throw: it is notified of the shop's throw, with an empty handler
+    const bankTry = result.localProtocols.get('Bank')!.body[0] as Try;
+    expect(bankTry.type).toBe('Try');
+    expect(bankTry.catchHandlers[0].body).toHaveLength(0);
+    const notified = (bankTry.body[0] as any).branches[1].body[0] as Throw;
+    expect(notified).toMatchObject({ type: 'Throw', exceptionLabel: 'OutOfStock', from: 'Shop' });
+    expect(thrown.from).toBeUndefined();
+  });
+});
@@ -8,6 +8,8 @@ import { describe, it, expect } from 'vitest';
 import { parse } from '../../parser/parser';
 import { buildCFG } from '../../cfg/builder';
 import { project } from '../projector';
+import { extractTraces } from '../lts-analysis';
+import type { GlobalProtocolDeclaration } from '../../ast/types';
 import {
   hasSendAction,
   hasReceiveAction,
@@ -65,6 +67,25 @@ describe('CFSM Projection - Parallel Composition', () => {
     expect(hasReceiveAction(aCFSM, 'M4')).toBe(true);
   });
 
+  it('should interleave branches without reordering either of them', () => {
+    const ast = parse(PARALLEL_WITH_SEQUENCES);
+    const cfg = buildCFG(ast.declarations[0] as GlobalProtocolDeclaration);
+    const aCFSM = project(cfg, 'A');
+
+    const traces = extractTraces(aCFSM, 20)
+      .map(trace => trace.map(action => ('label' in action ? action.label : action.type)).join(' '));
+
+    // Every shuffle of M1 M2 with M3 M4, and nothing else
+    expect(new Set(traces)).toEqual(new Set([
+      'M1 M2 M3 M4',
+      'M1 M3 M2 M4',
+      'M1 M3 M4 M2',
+      'M3 M1 M2 M4',
+      'M3 M1 M4 M2',
+      'M3 M4 M1 M2',
+    ]));
+  });
+
   it('should handle nested parallel', () => {
     const ast = parse(NESTED_PARALLEL);
     const cfg = buildCFG(ast.declarations[0]);
@@ -0,0 +1,85 @@
+/**
+ * Timed Projection Tests
+ *
+ * Tests projection of timed session types:
+ * - CFSM projection: clock constraints land on the role's own transitions
+ * - AST projection: deadlines become local Send/Receive deadlines,
+ *   (timeout(d) { H } ) ↓ r = timeout(d) { H↓r }
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parse } from '../../parser/parser';
+import { buildCFG } from '../../cfg/builder';
+import { project, projectAll } from '../projector';
+import { projectToLocalProtocols } from '../ast-projector';
+import type { GlobalProtocolDeclaration, Send, Receive, Timeout } from '../../ast/types';
+import type { CFSM } from '../types';
+
+const SOURCE = `
+  protocol Quote(role Client, role Server) {
+    Client -> Server: Request() within 2s;
+    timeout(5s) {
+      Client -> Server: Cancel();
+    }
+    Server -> Client: Response();
+  }
+`;
+
+function transitionFor(cfsm: CFSM, label: string) {
+  return cfsm.transitions.find(
+    t => (t.action.type === 'send' || t.action.type === 'receive') && t.action.label === label
+  )!;
+}
+
+describe('CFSM Projection - Timed Session Types', () => {
+  const cfg = buildCFG(parse(SOURCE).declarations[0] as GlobalProtocolDeclaration);
+
+  it("should keep only the projected role's clock on a timed message", () => {
+    expect(transitionFor(project(cfg, 'Client'), 'Request').clockConstraints).toEqual([
+      { clock: 'Client', operator: '<=', bound: 2000 },
+    ]);
+    expect(transitionFor(project(cfg, 'Server'), 'Request').clockConstraints).toEqual([
+      { clock: 'Server', operator: '<=', bound: 2000 },
+    ]);
+  });
+
+  it("should guard the observer's timeout alternatives with its clock", () => {
+    const client = project(cfg, 'Client');
+    expect(transitionFor(client, 'Response').clockConstraints).toEqual([
+      { clock: 'Client', operator: '<', bound: 5000 },
+    ]);
+    expect(transitionFor(client, 'Cancel').clockConstraints).toEqual([
+      { clock: 'Client', operator: '>=', bound: 5000 },
+    ]);
+
+    // The other participant reacts to whichever happened, untimed
+    const server = project(cfg, 'Server');
+    expect(transitionFor(server, 'Response').clockConstraints).toBeUndefined();
+    expect(transitionFor(server, 'Cancel').clockConstraints).toBeUndefined();
+  });
+
+  it('should project every role without errors', () => {
+    expect(projectAll(cfg).errors).toHaveLength(0);
+  });
+});
+
+describe('AST Projection - Timed Session Types', () => {
+  it('should attach deadlines to local actions and keep the timeout', () => {
+    const protocol = parse(SOURCE).declarations[0] as GlobalProtocolDeclaration;
+    const result = projectToLocalProtocols(protocol);
+    expect(result.errors).toHaveLength(0);
+
+    const client = result.localProtocols.get('Client')!;
+    const request = client.body[0] as Send;
+    expect(request.type).toBe('Send');
+    expect(request.deadline).toMatchObject({ value: 2, unit: 's' });
+
+    const timeout = client.body[1] as Timeout;
+    expect(timeout.type).toBe('Timeout');
+    expect(timeout.constraint).toMatchObject({ value: 5, unit: 's' });
+    expect((timeout.body[0] as Send).message.label).toBe('Cancel');
+
+    const server = result.localProtocols.get('Server')!;
+    expect((server.body[0] as Receive).deadline).toMatchObject({ value: 2, unit: 's' });
+  });
+});
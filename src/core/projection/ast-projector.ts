@@ -25,6 +25,11 @@
  *
  * 6. DO: (do P(roles)) ↓ r - project sub-protocol invocation
  *
+ * 7. TRY: (try { G } catch l { H }) ↓ r = try { G↓r } catch l { H↓r }
+ *
+ * 8. THROW: (throw l from p) ↓ r = throw l if r = p, otherwise eliminated
+ *    (the other participants receive l through their catch handler)
+ *
  * References:
  * - Honda, Yoshida, Carbone (2008): "Multiparty Asynchronous Session Types"
  * - Scribble Protocol Language Specification
@@ -42,6 +47,12 @@ import type {
   Recursion,
   Continue,
   Do,
+  Try,
+  Throw,
+  CatchHandler,
+  TimedMessage,
+  Timeout,
+  CrashHandler,
   Send,
   Receive,
   LocalChoice,
@@ -57,7 +68,13 @@ import {
   isRecursion,
   isContinue,
   isDo,
+  isTry,
+  isThrow,
+  isTimedMessage,
+  isTimeout,
+  isCrashHandler,
 } from '../ast/types';
+import { collectRoles } from '../cfg/builder';
 
 // ============================================================================
 // Type Definitions
@@ -95,6 +112,14 @@ export interface ProjectionOptions {
   validateWellFormedness?: boolean;
 }
 
+/**
+ * Projection options, with the try blocks enclosing the interaction
+ */
+interface ProjectionContext extends ProjectionOptions {
+  // Exception label → participants of the innermost try block catching it
+  catching?: Map<string, Set<string>>;
+}
+
 // ============================================================================
 // Main Projection Functions
 // ============================================================================
@@ -212,6 +237,10 @@ function projectBody(
  * - Parallel: project branches
  * - Continue: preserve
  * - Do: project sub-protocol
+ * - Try/Throw: project body and handlers, keep throw at the thrower and
+ *   its notification at the other participants
+ * - Timed message/Timeout: keep deadlines and handlers at the participants
+ * - Crash handler: keep the handler at its participants
  *
  * @param interaction - Global interaction to project
  * @param role - Role to project for
@@ -253,6 +282,31 @@ function projectInteraction(
     return projectDo(interaction, role);
   }
 
+  // RULE 7: TRY
+  if (isTry(interaction)) {
+    return projectTry(interaction, role, options);
+  }
+
+  // RULE 8: THROW
+  if (isThrow(interaction)) {
+    return projectThrow(interaction, role, options);
+  }
+
+  // RULE 9: TIMED MESSAGE
+  if (isTimedMessage(interaction)) {
+    return projectTimedMessage(interaction, role);
+  }
+
+  // RULE 10: TIMEOUT
+  if (isTimeout(interaction)) {
+    return projectTimeout(interaction, role, options);
+  }
+
+  // RULE 11: CRASH HANDLER
+  if (isCrashHandler(interaction)) {
+    return projectCrashHandler(interaction, role, options);
+  }
+
   // Unknown interaction type - should not happen with proper typing
   throw new Error(`Unknown interaction type: ${(interaction as any).type}`);
 }
@@ -461,7 +515,11 @@ function projectRecursion(
     interaction.type === 'Receive' ||
     interaction.type === 'LocalChoice' ||
     interaction.type === 'LocalParallel' ||
-    interaction.type === 'Recursion'
+    interaction.type === 'Recursion' ||
+    interaction.type === 'Try' ||
+    interaction.type === 'Throw' ||
+    interaction.type === 'Timeout' ||
+    interaction.type === 'CrashHandler'
   );
 
   if (!hasActualActions) {
@@ -519,6 +577,167 @@ function projectDo(doStmt: Do, role: string): Do | null {
   };
 }
 
+/**
+ * RULE 7: Try Projection
+ *
+ * (try { G } catch l { H }) ↓ r = try { G↓r } catch l { H↓r }
+ *
+ * Projection distributes over try (docs/theory/exception-handling.md).
+ * Tau-eliminate if the role has no action in the body nor in any handler.
+ * Throws of the body notify the participants of the try block (the roles
+ * of its body and handlers), as the CFG builder does; throws of handlers
+ * belong to the enclosing try blocks.
+ */
+function projectTry(
+  tryBlock: Try,
+  role: string,
+  options: ProjectionContext
+): Try | null {
+  const catching = new Map(options.catching);
+  const participants = collectRoles(tryBlock.body as GlobalInteraction[]);
+  tryBlock.catchHandlers.forEach(handler => collectRoles(handler.body as GlobalInteraction[], participants));
+  tryBlock.catchHandlers.forEach(handler => catching.set(handler.exceptionLabel, participants));
+
+  const bodyContext: ProjectionContext = { ...options, catching };
+  const projectedBody = projectBody(tryBlock.body as GlobalInteraction[], role, bodyContext);
+
+  const catchHandlers: CatchHandler[] = tryBlock.catchHandlers.map(handler => ({
+    type: 'CatchHandler',
+    exceptionLabel: handler.exceptionLabel,
+    payload: handler.payload,
+    body: projectBody(handler.body as GlobalInteraction[], role, options),
+    location: handler.location,
+  }));
+
+  if (projectedBody.length === 0 && catchHandlers.every(h => h.body.length === 0)) {
+    return null;
+  }
+
+  return {
+    type: 'Try',
+    body: projectedBody,
+    catchHandlers,
+    location: tryBlock.location,
+  };
+}
+
+/**
+ * RULE 8: Throw Projection
+ *
+ * (throw l from p) ↓ r =
+ *   - throw l         if r = p
+ *   - throw l from p  if r participates in the try block catching l
+ *                     (r is notified and enters its handler for l)
+ *   - ε               otherwise
+ */
+function projectThrow(thrown: Throw, role: string, options: ProjectionContext): Throw | null {
+  if (thrown.from === role) {
+    return {
+      type: 'Throw',
+      exceptionLabel: thrown.exceptionLabel,
+      payload: thrown.payload,
+      location: thrown.location,
+    };
+  }
+
+  if (!options.catching?.get(thrown.exceptionLabel)?.has(role)) {
+    return null;
+  }
+
+  return {
+    type: 'Throw',
+    exceptionLabel: thrown.exceptionLabel,
+    payload: thrown.payload,
+    from: thrown.from,
+    location: thrown.location,
+  };
+}
+
+/**
+ * RULE 9: Timed Message Projection
+ *
+ * (p→q:⟨U⟩ within d) ↓ r =
+ *   - !⟨q,U⟩ within d  if r = p
+ *   - ?⟨p,U⟩ within d  if r = q
+ *   - ε                otherwise
+ */
+function projectTimedMessage(
+  timed: TimedMessage,
+  role: string
+): Send | Receive | (Send | Receive)[] | null {
+  const projected = projectMessageTransfer(
+    {
+      type: 'MessageTransfer',
+      message: timed.message,
+      from: timed.from,
+      to: timed.to,
+      location: timed.location,
+    },
+    role
+  );
+
+  if (projected === null) {
+    return null;
+  }
+  if (Array.isArray(projected)) {
+    return projected.map(local => ({ ...local, deadline: timed.deadline }));
+  }
+  return { ...projected, deadline: timed.deadline };
+}
+
+/**
+ * RULE 10: Timeout Projection
+ *
+ * (timeout(d) { H }) ↓ r = timeout(d) { H↓r }
+ *
+ * Tau-eliminate if the role has no action in the handler.
+ */
+function projectTimeout(
+  timeout: Timeout,
+  role: string,
+  options: ProjectionOptions
+): Timeout | null {
+  const body = projectBody(timeout.body as GlobalInteraction[], role, options);
+
+  if (body.length === 0) {
+    return null;
+  }
+
+  return {
+    type: 'Timeout',
+    constraint: timeout.constraint,
+    body,
+    location: timeout.location,
+  };
+}
+
+/**
+ * RULE 11: Crash Handler Projection
+ *
+ * (on crash(p) { H }) ↓ r = on crash(p) { H↓r }
+ *
+ * Tau-eliminate if the role has no action in the handler: it is never
+ * told of the crash.
+ */
+function projectCrashHandler(
+  handler: CrashHandler,
+  role: string,
+  options: ProjectionOptions
+): CrashHandler | null {
+  const body = projectBody(handler.body as GlobalInteraction[], role, options);
+
+  if (body.length === 0) {
+    return null;
+  }
+
+  return {
+    type: 'CrashHandler',
+    role: handler.role,
+    body,
+    location: handler.location,
+  };
+}
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
@@ -534,7 +753,7 @@ export function isRoleInvolved(
   interaction: GlobalInteraction,
   role: string
 ): boolean {
-  if (isMessageTransfer(interaction)) {
+  if (isMessageTransfer(interaction) || isTimedMessage(interaction)) {
     const { from, to } = interaction;
     return from === role || to === role || (Array.isArray(to) && to.includes(role));
   }
@@ -549,7 +768,11 @@ export function isRoleInvolved(
     return interaction.roleArguments.includes(role);
   }
 
-  // Continue is always preserved
+  if (isThrow(interaction)) {
+    return interaction.from === role;
+  }
+
+  // Continue and try are always preserved
   return true;
 }
 
@@ -585,7 +808,7 @@ export function validateWellFormedness(
     recursionLabels: Set<string>
   ): void {
     // RULE 1: Role Name Validation
-    if (isMessageTransfer(interaction)) {
+    if (isMessageTransfer(interaction) || isTimedMessage(interaction)) {
       const { from, to } = interaction;
 
       // Check sender exists
@@ -681,6 +904,42 @@ export function validateWellFormedness(
       // on the CFG level. We skip it here in AST validation.
     }
 
+    // Try: Check body and each handler
+    if (isTry(interaction)) {
+      checkBody(interaction.body as GlobalInteraction[], recursionLabels);
+      for (const handler of interaction.catchHandlers) {
+        checkBody(handler.body as GlobalInteraction[], recursionLabels);
+      }
+    }
+
+    // Timeout: Check the handler
+    if (isTimeout(interaction)) {
+      checkBody(interaction.body as GlobalInteraction[], recursionLabels);
+    }
+
+    // Crash handler: Check the handler and the crashed role
+    if (isCrashHandler(interaction)) {
+      if (!roleNames.has(interaction.role)) {
+        errors.push({
+          type: 'undefined-role',
+          role: interaction.role,
+          message: `Crashed role "${interaction.role}" is not defined in protocol. Available roles: ${Array.from(roleNames).join(', ')}`,
+          location: interaction.location,
+        });
+      }
+      checkBody(interaction.body as GlobalInteraction[], recursionLabels);
+    }
+
+    // Throw: Check the throwing role is valid
+    if (isThrow(interaction) && interaction.from && !roleNames.has(interaction.from)) {
+      errors.push({
+        type: 'undefined-role',
+        role: interaction.from,
+        message: `Throwing role "${interaction.from}" is not defined in protocol. Available roles: ${Array.from(roleNames).join(', ')}`,
+        location: interaction.location,
+      });
+    }
+
     // Do: Check role arguments are valid
     if (isDo(interaction)) {
       for (const role of interaction.roleArguments) {
@@ -10,27 +10,41 @@
  *
  * Options:
  *   --role <name>         Project for a specific role only
+ *   --bounds <list>       Sizes of role families, e.g. N=4,M=2
  *   --output-dir <dir>    Save local protocols to directory (one file per role)
- *   --format <fmt>        Output format: text (default), json, or both
+ *   --format <fmt>        Output format: text (default), json, both, dot, mermaid, or graphml
  *   --stdin               Read from standard input
  *   --help                Show this help message
  *
  * Examples:
  *   npm run project examples/two-phase.scr
  *   npm run project examples/two-phase.scr --role Client
+ *   npm run project examples/map-reduce.scr --bounds N=4
  *   npm run project examples/two-phase.scr --output-dir ./local-protocols
  *   npm run project examples/two-phase.scr --format json
+ *   npm run project examples/two-phase.scr --format mermaid --output-dir ./diagrams
  *   echo "protocol Test(role A, role B) { A -> B: Msg(); }" | npm run project -- --stdin
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { parse } from '../parser/parser';
 import { buildCFG } from '../cfg/builder';
 import { verifyProtocol } from '../verification/verifier';
 import { projectAll, project } from './projector';
 import { serializeCFSM } from '../serializer/cfsm-serializer';
+import {
+  cfsmDiagram,
+  projectionDiagram,
+  renderDiagram,
+  DIAGRAM_FORMATS,
+  type Diagram,
+  type DiagramFormat,
+} from '../diagrams';
+import { hasRoleFamilies, projectFamilies, symbolicBounds, type IndexBounds } from '../families';
+import { readInput, loadInput, instantiateWithBounds, handleError } from '../../cli/shared';
 import type { GlobalProtocolDeclaration } from '../ast/types';
+import type { CFSM } from './types';
+import type { LoadedProgram } from '../protocol-registry/module-loader';
 import type { CompleteVerification } from '../verification/types';
 
 // ============================================================================
@@ -41,8 +55,9 @@ interface CLIOptions {
   inputFile?: string;
   stdin: boolean;
   role?: string;
+  bounds?: string;
   outputDir?: string;
-  format: 'text' | 'json' | 'both';
+  format: 'text' | 'json' | 'both' | DiagramFormat;
   skipVerification: boolean;
   help: boolean;
 }
@@ -70,12 +85,14 @@ function parseArgs(args: string[]): CLIOptions {
       options.skipVerification = true;
     } else if (arg === '--role' || arg === '-r') {
       options.role = args[++i];
+    } else if (arg === '--bounds') {
+      options.bounds = args[++i];
     } else if (arg === '--output-dir' || arg === '-o') {
       options.outputDir = args[++i];
     } else if (arg === '--format' || arg === '-f') {
       const fmt = args[++i];
-      if (fmt !== 'text' && fmt !== 'json' && fmt !== 'both') {
-        console.error(`Error: Invalid format "${fmt}". Must be: text, json, or both`);
+      if (fmt !== 'text' && fmt !== 'json' && fmt !== 'both' && !isDiagramFormat(fmt)) {
+        console.error(`Error: Invalid format "${fmt}". Must be: text, json, both, dot, mermaid, or graphml`);
         process.exit(1);
       }
       options.format = fmt;
@@ -91,6 +108,10 @@ function parseArgs(args: string[]): CLIOptions {
   return options;
 }
 
+function isDiagramFormat(format: string): format is DiagramFormat {
+  return (DIAGRAM_FORMATS as readonly string[]).includes(format);
+}
+
 function showHelp() {
   console.log(`
 Scribble Local Protocol Projection CLI
@@ -103,8 +124,10 @@ USAGE:
 
 OPTIONS:
   --role <name>         Project for a specific role only
+  --bounds <list>       Sizes of role families: N=4,M=2 (role Worker[1..N]);
+                        without it, the generic member Worker[i] is projected
   --output-dir <dir>    Save local protocols to directory (one file per role)
-  --format <fmt>        Output format: text (default), json, or both
+  --format <fmt>        Output format: text (default), json, both, dot, mermaid, or graphml
   --stdin               Read from standard input
   --help, -h            Show this help message
 
@@ -112,6 +135,12 @@ OUTPUT FORMATS:
   text                  Scribble local protocol text (default)
   json                  JSON representation of local protocol AST
   both                  Both text and JSON output
+  dot                   GraphViz DOT state machine diagram
+  mermaid               Mermaid stateDiagram-v2 (for Markdown docs)
+  graphml               GraphML (for yEd, Gephi, ...)
+
+  Without --role, diagram formats draw all roles in one diagram, with each
+  send linked to the receives it matches.
 
 EXAMPLES:
   # Project all roles to console
@@ -120,12 +149,20 @@ EXAMPLES:
   # Project specific role
   npm run project examples/two-phase.scr --role Client
 
+  # Role families, for given sizes or for a generic member
+  npm run project examples/map-reduce.scr --bounds N=4
+  npm run project examples/map-reduce.scr --role Worker
+
   # Save to files (creates Client.scr, Server.scr, etc.)
   npm run project examples/two-phase.scr --output-dir ./local-protocols
 
   # JSON output
   npm run project examples/two-phase.scr --format json
 
+  # State machine diagrams (writes TwoPhaseCommit.mmd, Client.dot, ...)
+  npm run project examples/two-phase.scr --format mermaid --output-dir ./diagrams
+  npm run project examples/two-phase.scr --role Client --format dot --output-dir ./diagrams
+
   # Read from stdin
   echo "protocol Test(role A, role B) { A -> B: Msg(); }" | npm run project -- --stdin
 
@@ -164,39 +201,19 @@ function main() {
   }
 
   // Read input
-  let source: string;
-  let filename: string;
-
-  try {
-    if (options.stdin) {
-      source = fs.readFileSync(0, 'utf-8');
-      filename = '<stdin>';
-    } else {
-      filename = options.inputFile!;
-      if (!fs.existsSync(filename)) {
-        console.error(`Error: File not found: ${filename}`);
-        process.exit(1);
-      }
-      source = fs.readFileSync(filename, 'utf-8');
-    }
-  } catch (error: any) {
-    console.error(`Error reading input: ${error.message}`);
-    process.exit(1);
-  }
+  const { source, filename } = readInput(options);
 
-  // Parse global protocol
+  // Parse global protocol, with the modules it imports
   console.log(`📖 Parsing: ${filename}`);
   console.log('═'.repeat(80));
 
-  let ast;
+  let program: LoadedProgram;
   try {
-    ast = parse(source);
+    program = loadInput({ source, filename });
   } catch (error: any) {
-    console.error('✗ Parse failed!');
-    console.error('');
-    console.error('Error:', error.message);
-    process.exit(1);
+    handleError(error, 'Parse');
   }
+  const ast = program.entry.module;
 
   // Find global protocol declaration
   const globalProtocol = ast.declarations.find(
@@ -214,17 +231,37 @@ function main() {
   console.log(`  Roles: ${globalProtocol.roles.map(r => r.name).join(', ')}`);
   console.log('');
 
+  // Role families are projected for the sizes of --bounds, or else
+  // parametrically (undefined protocol)
+  let protocol: GlobalProtocolDeclaration | undefined = globalProtocol;
+  if (hasRoleFamilies(globalProtocol)) {
+    protocol = undefined;
+    if (options.bounds !== undefined) {
+      let bounds: IndexBounds;
+      try {
+        ({ protocol, bounds } = instantiateWithBounds(globalProtocol, options.bounds));
+      } catch (error: any) {
+        handleError(error, 'Instantiation');
+      }
+      console.log(`  Instantiated: ${Object.entries(bounds).map(([name, value]) => `${name} = ${value}`).join(', ')}`);
+      console.log('');
+    }
+  }
+
   // Project
   console.log('🔄 Projecting to local protocols...');
   console.log('─'.repeat(80));
 
   try {
-    if (options.role) {
+    if (!protocol) {
+      // Role families without sizes
+      projectRoleFamilies(globalProtocol, options);
+    } else if (options.role) {
       // Project single role
-      projectSingleRole(globalProtocol, options.role, options);
+      projectSingleRole(protocol, options.role, options);
     } else {
       // Project all roles
-      projectAllRoles(globalProtocol, options);
+      projectAllRoles(protocol, options);
     }
   } catch (error: any) {
     console.error('✗ Projection failed!');
@@ -312,12 +349,21 @@ function projectSingleRole(
     process.exit(1);
   }
 
-  const cfsm = project(cfg, role);
+  printLocalProtocol(project(cfg, role), role, options);
+}
 
+/**
+ * Print (or save) the local protocol of one role, with its statistics
+ */
+function printLocalProtocol(cfsm: CFSM, role: string, options: CLIOptions) {
   console.log(`\n📝 Local Protocol for: ${role}`);
   console.log('─'.repeat(80));
 
   // Output based on format
+  if (isDiagramFormat(options.format)) {
+    writeDiagram(cfsmDiagram(cfsm, diagramOptions(options)), role, options.format, options);
+  }
+
   if (options.format === 'text' || options.format === 'both') {
     const text = serializeCFSM(cfsm);
 
@@ -358,6 +404,32 @@ function projectSingleRole(
   console.log(`  Protocol Actions: ${protocolActions.length}`);
 }
 
+/**
+ * Parametric CFSMs of the role families, for protocols given no --bounds
+ * (roles outside families depend on the sizes, and are left out)
+ */
+function projectRoleFamilies(
+  globalProtocol: GlobalProtocolDeclaration,
+  options: CLIOptions
+) {
+  const families = projectFamilies(globalProtocol);
+  const roles = options.role ? [options.role] : [...families.keys()];
+  const others = globalProtocol.roles.filter(role => !role.range).map(role => role.name);
+
+  console.log(`ℹ️  No --bounds: projecting the generic member of each role family`);
+  if (others.length > 0) {
+    console.log(`   (${others.join(', ')} depend on the family sizes: use --bounds ${symbolicBounds(globalProtocol).map(n => `${n}=3`).join(',')})`);
+  }
+
+  for (const role of roles) {
+    const cfsm = families.get(role);
+    if (!cfsm) {
+      throw new Error(`${role} is not a role family of ${globalProtocol.name} (use --bounds to project it)`);
+    }
+    printLocalProtocol(cfsm, role, options);
+  }
+}
+
 function projectAllRoles(
   globalProtocol: GlobalProtocolDeclaration,
   options: CLIOptions
@@ -422,6 +494,18 @@ function projectAllRoles(
     console.log(`  States: ${cfsm.states.length}, Transitions: ${cfsm.transitions.length}, Actions: ${protocolActions.length}`);
   }
 
+  // Combined diagram of all roles
+  if (isDiagramFormat(options.format)) {
+    console.log(`\n📊 Diagram of all roles`);
+    console.log('─'.repeat(80));
+    writeDiagram(
+      projectionDiagram(result, diagramOptions(options)),
+      globalProtocol.name,
+      options.format,
+      options
+    );
+  }
+
   // Summary
   console.log('');
   console.log('─'.repeat(80));
@@ -434,6 +518,33 @@ function projectAllRoles(
   }
 }
 
+// ============================================================================
+// Diagrams
+// ============================================================================
+
+const DIAGRAM_EXTENSIONS: Record<DiagramFormat, string> = {
+  dot: 'dot',
+  mermaid: 'mmd',
+  graphml: 'graphml',
+};
+
+function diagramOptions(options: CLIOptions) {
+  return { sourceName: options.inputFile };
+}
+
+function writeDiagram(diagram: Diagram, name: string, format: DiagramFormat, options: CLIOptions) {
+  const text = renderDiagram(diagram, format);
+
+  if (options.outputDir) {
+    const outputPath = path.join(options.outputDir, `${name}.${DIAGRAM_EXTENSIONS[format]}`);
+    fs.mkdirSync(options.outputDir, { recursive: true });
+    fs.writeFileSync(outputPath, text, 'utf-8');
+    console.log(`💾 Saved diagram to: ${outputPath}`);
+  } else {
+    console.log(text);
+  }
+}
+
 // ============================================================================
 // Entry Point
 // ============================================================================
@@ -11,6 +11,9 @@
 
 // CFG-based projection (generates CFSMs with full type preservation)
 export { project, projectAll } from './projector';
+
+// Interleaving of CFSMs (parallel composition of local behaviours)
+export { interleave } from './interleaving';
 export type {
   CFSM,
   CFSMState,
@@ -0,0 +1,139 @@
+/**
+ * Interleaving of CFSMs
+ *
+ * The local behaviour of a role in `par { G1 } and { G2 }` is the shuffle of
+ * its behaviours in G1 and G2: either side may take its next step, and the
+ * role is done when both sides are. As automata, this is the product
+ *
+ *   M1 ⧢ M2 = (Q1 × Q2, (q1₀, q2₀), A1 ∪ A2, →)
+ *
+ *   (p, q) —a→ (p', q)   if p —a→ p' in M1
+ *   (p, q) —a→ (p, q')   if q —a→ q' in M2
+ *
+ * with terminal states the pairs of terminal states. Only pairs reachable
+ * from the initial pair are built, and states whose only step is a silent
+ * one are first merged into the state they lead to, so that a branch
+ * `A -> C: Vote()` contributes one state per receive rather than the chain
+ * of tau steps its projection has.
+ *
+ * @reference Deniélou, P.-M., & Yoshida, N. (2012). Multiparty Session Types
+ *            Meet Communicating Automata. ESOP 2012, §3 (parallel composition).
+ */
+
+import type { CFSM, CFSMState, CFSMTransition } from './types';
+
+/**
+ * Interleave two CFSMs of the same role
+ *
+ * States of the product are named `s0`, `s1`, ... and labelled with the
+ * pair of states they stand for (`(s2, s0)`).
+ */
+export function interleave(left: CFSM, right: CFSM): CFSM {
+  left = collapseTaus(left);
+  right = collapseTaus(right);
+
+  const states: CFSMState[] = [];
+  const transitions: CFSMTransition[] = [];
+  const terminalStates: string[] = [];
+  const leftTerminal = new Set(left.terminalStates);
+  const rightTerminal = new Set(right.terminalStates);
+
+  const ids = new Map<string, string>();
+  const queue: Array<[string, string]> = [];
+
+  const stateOf = (l: string, r: string): string => {
+    const key = `${l}|${r}`;
+    let id = ids.get(key);
+    if (!id) {
+      id = `s${states.length}`;
+      ids.set(key, id);
+      states.push({ id, label: `(${l}, ${r})` });
+      if (leftTerminal.has(l) && rightTerminal.has(r)) terminalStates.push(id);
+      queue.push([l, r]);
+    }
+    return id;
+  };
+
+  const step = (from: string, to: string, transition: CFSMTransition): void => {
+    const { id: _id, from: _from, to: _to, ...rest } = transition;
+    transitions.push({ id: `t${transitions.length}`, from, to, ...rest });
+  };
+
+  const initialState = stateOf(left.initialState, right.initialState);
+
+  while (queue.length > 0) {
+    const [l, r] = queue.shift()!;
+    const from = ids.get(`${l}|${r}`)!;
+
+    for (const t of left.transitions) {
+      if (t.from === l) step(from, stateOf(t.to, r), t);
+    }
+    for (const t of right.transitions) {
+      if (t.from === r) step(from, stateOf(l, t.to), t);
+    }
+  }
+
+  return {
+    role: left.role,
+    protocolName: left.protocolName,
+    parameters: left.parameters,
+    states,
+    transitions,
+    initialState,
+    terminalStates,
+  };
+}
+
+/**
+ * Merge every non-terminal state whose only transition is an unconstrained
+ * tau into the state that tau leads to
+ */
+function collapseTaus(cfsm: CFSM): CFSM {
+  const terminal = new Set(cfsm.terminalStates);
+  const outgoing = new Map<string, CFSMTransition[]>();
+  for (const t of cfsm.transitions) {
+    outgoing.set(t.from, [...(outgoing.get(t.from) ?? []), t]);
+  }
+
+  const next = new Map<string, string>();
+  for (const state of cfsm.states) {
+    const out = outgoing.get(state.id);
+    if (terminal.has(state.id) || out?.length !== 1) continue;
+    const [t] = out;
+    if (t.action.type === 'tau' && !t.clockConstraints?.length) next.set(state.id, t.to);
+  }
+
+  // A cycle of taus is kept as it is
+  for (const state of [...next.keys()]) {
+    const seen = new Set<string>();
+    let current: string | undefined = state;
+    while (current !== undefined && !seen.has(current)) {
+      seen.add(current);
+      current = next.get(current);
+    }
+    if (current === state) next.delete(state);
+  }
+
+  const representative = new Map<string, string>();
+  const resolve = (state: string): string => {
+    let current = state;
+    const seen = new Set<string>();
+    while (next.has(current) && !seen.has(current)) {
+      seen.add(current);
+      current = next.get(current)!;
+    }
+    return current;
+  };
+  for (const state of cfsm.states) representative.set(state.id, resolve(state.id));
+  const rep = (state: string) => representative.get(state) ?? state;
+
+  return {
+    ...cfsm,
+    states: cfsm.states.filter(state => rep(state.id) === state.id),
+    transitions: cfsm.transitions
+      .filter(t => rep(t.from) === t.from)
+      .map(t => ({ ...t, to: rep(t.to) })),
+    initialState: rep(cfsm.initialState),
+    terminalStates: [...new Set(cfsm.terminalStates.map(rep))],
+  };
+}
@@ -28,6 +28,7 @@ import type {
   ForkNode,
   JoinNode,
   RecursiveNode,
+  ClockConstraint,
 } from '../cfg/types';
 import {
   isInitialNode,
@@ -35,6 +36,7 @@ import {
   isActionNode,
   isMessageAction,
   isSubProtocolAction,
+  isCrashDetectionAction,
   isBranchNode,
   isMergeNode,
   isForkNode,
@@ -49,9 +51,11 @@ import type {
   SendAction,
   ReceiveAction,
   SubProtocolCallAction,
+  CrashAction,
   ProjectionResult,
   ProjectionError,
 } from './types';
+import { interleave } from './interleaving';
 
 // ============================================================================
 // Main Projection Functions
@@ -106,7 +110,8 @@ export function project(cfg: CFG, role: string, protocolRegistry?: IProtocolRegi
   const createTransition = (
     from: string,
     to: string,
-    action?: CFSMAction
+    action?: CFSMAction,
+    clockConstraints?: ClockConstraint[]
   ): CFSMTransition => {
     const transition: CFSMTransition = {
       id: `t${transitionCounter++}`,
@@ -115,6 +120,13 @@ export function project(cfg: CFG, role: string, protocolRegistry?: IProtocolRegi
       // If no action provided, use tau (epsilon transition)
       action: action || { type: 'tau' },
     };
+    if (clockConstraints && clockConstraints.length > 0) {
+      transition.clockConstraints = clockConstraints;
+    }
+    // Refinements: both sender and receiver check the message's predicate
+    if ((action?.type === 'send' || action?.type === 'receive') && action.message.predicate) {
+      transition.guard = action.message.predicate;
+    }
     transitions.push(transition);
     return transition;
   };
@@ -130,6 +142,16 @@ export function project(cfg: CFG, role: string, protocolRegistry?: IProtocolRegi
     return action.to.includes(role);
   };
 
+  /**
+   * Role whose crash the CFG node detects (crash-detection nodes only)
+   */
+  const crashedAt = (nodeId: string): string | undefined => {
+    const node = cfg.nodes.find(n => n.id === nodeId);
+    return node && isActionNode(node) && isCrashDetectionAction(node.action)
+      ? node.action.crashed
+      : undefined;
+  };
+
   /**
    * Get outgoing edges from a CFG node
    */
@@ -180,11 +202,17 @@ export function project(cfg: CFG, role: string, protocolRegistry?: IProtocolRegi
   };
 
   /**
-   * Extract actions from a parallel branch for a role
-   * Returns list of actions the role performs in this branch
+   * The part of the CFG from a parallel branch's entry up to its join,
+   * as a CFG of its own (the join becomes its terminal)
    */
-  const extractBranchActions = (startNodeId: string, parallelId: string): CFSMAction[] => {
-    const actions: CFSMAction[] = [];
+  const branchCFG = (startNodeId: string, parallelId: string): CFG => {
+    const initial: Node = { id: `${startNodeId}_initial`, type: 'initial' };
+    const terminal: Node = { id: `${startNodeId}_terminal`, type: 'terminal' };
+    const nodes: Node[] = [initial, terminal];
+    const edges: Edge[] = [
+      { id: `${initial.id}_edge`, from: initial.id, to: startNodeId, edgeType: 'sequence' },
+    ];
+
     const visited = new Set<string>();
     const queue = [startNodeId];
 
@@ -195,136 +223,72 @@ export function project(cfg: CFG, role: string, protocolRegistry?: IProtocolRegi
 
       const node = cfg.nodes.find(n => n.id === nodeId);
       if (!node) continue;
+      nodes.push(node);
 
-      // Stop at join node
-      if (isJoinNode(node) && node.parallel_id === parallelId) {
-        continue;
-      }
-
-      // Extract action if role is involved
-      if (isActionNode(node) && isMessageAction(node.action)) {
-        const action = node.action;
-        if (isRoleInvolved(action)) {
-          // Convert to CFSM action
-          if (action.from === role) {
-            actions.push({
-              type: 'send',
-              to: action.to,
-              // ENRICHED: Pass full Message object
-              message: action.message,
-              // DEPRECATED: Keep for backward compatibility
-              label: action.label,
-              payloadType: action.payloadType,
-              // NEW: Preserve location
-              location: action.location,
-            } as SendAction);
-          } else {
-            actions.push({
-              type: 'receive',
-              from: action.from,
-              // ENRICHED: Pass full Message object
-              message: action.message,
-              // DEPRECATED: Keep for backward compatibility
-              label: action.label,
-              payloadType: action.payloadType,
-              // NEW: Preserve location
-              location: action.location,
-            } as ReceiveAction);
-          }
+      for (const edge of getOutgoingEdges(nodeId)) {
+        const target = cfg.nodes.find(n => n.id === edge.to);
+        if (target && isJoinNode(target) && target.parallel_id === parallelId) {
+          edges.push({ ...edge, to: terminal.id });
+        } else {
+          edges.push(edge);
+          queue.push(edge.to);
         }
       }
-
-      // Continue traversal
-      const edges = getOutgoingEdges(nodeId).filter(e => e.edgeType !== 'continue');
-      for (const edge of edges) {
-        queue.push(edge.to);
-      }
     }
 
-    return actions;
+    return { ...cfg, nodes, edges, initialNode: initial.id };
   };
 
   /**
-   * Generate all permutations of an array
-   * Used for creating all possible interleavings of parallel actions
-   */
-  const permutations = <T>(arr: T[]): T[][] => {
-    if (arr.length <= 1) return [arr];
-
-    const result: T[][] = [];
-    for (let i = 0; i < arr.length; i++) {
-      const current = arr[i];
-      const remaining = [...arr.slice(0, i), ...arr.slice(i + 1)];
-      const remainingPerms = permutations(remaining);
-
-      for (const perm of remainingPerms) {
-        result.push([current, ...perm]);
-      }
-    }
-    return result;
-  };
-
-  /**
-   * Generate diamond pattern for parallel interleaving
-   * Creates states for all possible orderings of parallel actions
+   * Copy a CFSM into the one being built, entered from `fromStateId`,
+   * with its terminal states leading to `toStateId` (an initial state that
+   * is never re-entered and terminal states with no way out are merged
+   * into those states)
    *
-   * Implements the formal parallel projection rule:
-   * (par { G1 || G2 || ... || Gn }) ↾ r = par { (G1↾r) || (G2↾r) || ... || (Gn↾r) }
-   *
-   * For a role r, we extract all actions from parallel branches that involve r,
-   * then generate all possible execution orders (interleavings) as separate paths.
-   *
-   * For N actions, generates N! paths (all permutations).
-   * Example: [a1, a2, a3] → 6 paths: a1,a2,a3 | a1,a3,a2 | a2,a1,a3 | a2,a3,a1 | a3,a1,a2 | a3,a2,a1
+   * States are copied depth first and named after the path that reaches
+   * them first, par_<fromStateId>_p<path>_s<step>, as the interleavings
+   * of single actions always were.
    */
-  const generateDiamondPattern = (
-    fromStateId: string,
-    toStateId: string,
-    branchActions: CFSMAction[][]
-  ): void => {
-    // Flatten all actions with branch index
-    const allActions = branchActions.flatMap((actions, branchIdx) =>
-      actions.map(action => ({ action, branchIdx }))
-    );
-
-    if (allActions.length === 0) {
-      // No actions - just epsilon transition
-      createTransition(fromStateId, toStateId);
-      return;
+  const embed = (cfsm: CFSM, fromStateId: string, toStateId: string): void => {
+    const terminal = new Set(cfsm.terminalStates);
+    const outgoing = new Map<string, CFSMTransition[]>();
+    for (const t of cfsm.transitions) {
+      outgoing.set(t.from, [...(outgoing.get(t.from) ?? []), t]);
     }
 
-    if (allActions.length === 1) {
-      // Single action - simple path
-      const { action } = allActions[0];
-      createTransition(fromStateId, toStateId, action);
-      return;
+    const copies = new Map<string, string>();
+    for (const state of cfsm.terminalStates) {
+      if (!outgoing.has(state)) copies.set(state, toStateId);
+    }
+    if (!cfsm.transitions.some(t => t.to === cfsm.initialState)) {
+      copies.set(cfsm.initialState, fromStateId);
     }
 
-    // Multiple actions - generate all interleavings (permutations)
-    // This correctly implements the diamond pattern for 2 actions
-    // and generalizes to N! paths for N actions
-    const actions = allActions.map(item => item.action);
-    const allPermutations = permutations(actions);
-
-    // Create a separate path for each permutation
-    for (let pathIdx = 0; pathIdx < allPermutations.length; pathIdx++) {
-      const perm = allPermutations[pathIdx];
-      let currentState = fromStateId;
-
-      // Create chain of states for this permutation
-      for (let stepIdx = 0; stepIdx < perm.length; stepIdx++) {
-        const action = perm[stepIdx];
-        const isLastStep = stepIdx === perm.length - 1;
-
-        // Last step goes to toStateId, others create intermediate states
-        const nextState = isLastStep
-          ? toStateId
-          : createState(`par_${fromStateId}_p${pathIdx}_s${stepIdx}`).id;
-
-        createTransition(currentState, nextState, action);
-        currentState = nextState;
+    let path = 0;
+    const copyOf = (state: string, step: number): string => {
+      const label = terminal.has(state) ? undefined : `par_${fromStateId}_p${path}_s${step}`;
+      const id = createState(label).id;
+      copies.set(state, id);
+      return id;
+    };
+    const visit = (state: string, step: number): void => {
+      (outgoing.get(state) ?? []).forEach((t, i) => {
+        if (i > 0) path++;
+        const known = copies.get(t.to);
+        const target = known ?? copyOf(t.to, step);
+        createTransition(copies.get(state)!, target, t.action, t.clockConstraints);
+        if (!known) visit(t.to, step + 1);
+      });
+      if (terminal.has(state) && copies.get(state) !== toStateId) {
+        createTransition(copies.get(state)!, toStateId);
       }
+    };
+
+    const entry = copies.get(cfsm.initialState) ?? copyOf(cfsm.initialState, 0);
+    if (entry !== fromStateId) {
+      createTransition(fromStateId, entry);
     }
+    visit(cfsm.initialState, entry === fromStateId ? 0 : 1);
   };
 
   // ============================================================================
@@ -362,8 +326,10 @@ export function project(cfg: CFG, role: string, protocolRegistry?: IProtocolRegi
     }
 
     // Get outgoing edges (EXCLUDE continue edges - handle separately)
+    // A role never observes its own crash: it does not follow crash edges
+    // to the detection of its crash
     let outgoingEdges = getOutgoingEdges(cfgNodeId).filter(
-      e => e.edgeType !== 'continue'
+      e => e.edgeType !== 'continue' && !(e.edgeType === 'crash' && crashedAt(e.to) === role)
     );
 
     // Special handling for fork nodes: filter fork edges based on role participation
@@ -419,6 +385,8 @@ export function project(cfg: CFG, role: string, protocolRegistry?: IProtocolRegi
                   payloadType: action.payloadType,
                   // NEW: Source location for error messages
                   location: action.location,
+                  // Exception handling: throw notifications keep their flag
+                  ...(action.exception && { exception: true }),
                 } as SendAction)
               : ({
                   type: 'receive',
@@ -430,12 +398,32 @@ export function project(cfg: CFG, role: string, protocolRegistry?: IProtocolRegi
                   payloadType: action.payloadType,
                   // NEW: Source location
                   location: action.location,
+                  ...(action.exception && { exception: true }),
                 } as ReceiveAction);
 
           // Create transition from last relevant state to new state
-          createTransition(lastStateId, newState.id, cfsmAction);
+          // Timed types: keep the constraints on this role's clock
+          createTransition(
+            lastStateId,
+            newState.id,
+            cfsmAction,
+            edge.clockConstraints?.filter(c => c.clock === role)
+          );
 
           // Continue with new state as last relevant
+          queue.push({
+            cfgNodeId: targetNode.id,
+            lastStateId: newState.id,
+          });
+        } else if (isCrashDetectionAction(action) && action.detector === role) {
+          // Crash-stop failures: the detector takes the crash transition
+          // instead of receiving from the crashed role
+          const newState = createState(targetNode.id);
+          cfgNodeToState.set(targetNode.id, newState.id);
+
+          const crashAction: CrashAction = { type: 'crash', role: action.crashed };
+          createTransition(lastStateId, newState.id, crashAction);
+
           queue.push({
             cfgNodeId: targetNode.id,
             lastStateId: newState.id,
@@ -569,11 +557,11 @@ export function project(cfg: CFG, role: string, protocolRegistry?: IProtocolRegi
         );
 
         if (branchesWithRole.length > 1) {
-          // Role participates in multiple parallel branches - need interleaving
-          // Extract actions from each branch
-          const branchActions = branchesWithRole.map(edge =>
-            extractBranchActions(edge.to, targetNode.parallel_id)
-          );
+          // Role participates in multiple parallel branches - its projection
+          // is the interleaving of its projections of those branches
+          const interleaved = branchesWithRole
+            .map(edge => project(branchCFG(edge.to, targetNode.parallel_id), role, protocolRegistry))
+            .reduce(interleave);
 
           // Find the join node to get target state
           const joinNode = cfg.nodes.find(
@@ -591,8 +579,7 @@ export function project(cfg: CFG, role: string, protocolRegistry?: IProtocolRegi
             cfgNodeToState.set(joinNode.id, joinStateId);
           }
 
-          // Generate diamond pattern for interleaving
-          generateDiamondPattern(lastStateId, joinStateId, branchActions);
+          embed(interleaved, lastStateId, joinStateId);
 
           // Continue from join node (don't process branches individually)
           queue.push({
@@ -35,7 +35,8 @@ export interface CFSMState {
 }
 
 // Import types from AST for rich type preservation
-import type { Message, SourceLocation, ProtocolParameter } from '../ast/types';
+import type { Message, SourceLocation, ProtocolParameter, Expression } from '../ast/types';
+import type { ClockConstraint } from '../cfg/types';
 
 /**
  * Action types in CFSM
@@ -46,7 +47,8 @@ export type CFSMAction =
   | ReceiveAction
   | TauAction       // Silent/internal action (epsilon)
   | ChoiceAction    // Internal choice (branch selection)
-  | SubProtocolCallAction;  // Sub-protocol invocation
+  | SubProtocolCallAction  // Sub-protocol invocation
+  | CrashAction;    // Crash detection (crash-stop failures)
 
 /**
  * Send action: ! ⟨p, l⟨U⟩⟩
@@ -72,6 +74,9 @@ export interface SendAction {
 
   // NEW: Source location for error reporting
   location?: SourceLocation;
+
+  // Exception handling: this send raises the exception `label` (throw)
+  exception?: boolean;
 }
 
 /**
@@ -97,6 +102,9 @@ export interface ReceiveAction {
 
   // NEW: Source location for error reporting
   location?: SourceLocation;
+
+  // Exception handling: this receive is the notification of a remote throw
+  exception?: boolean;
 }
 
 /**
@@ -129,6 +137,16 @@ export interface SubProtocolCallAction {
   returnState: string;        // State to return to after sub-protocol completes
 }
 
+/**
+ * Crash action: ↯p
+ * Detection of the crash of the unreliable role p, taken instead of
+ * receiving from p once p has crashed (see CrashHandler)
+ */
+export interface CrashAction {
+  type: 'crash';
+  role: string;  // Crashed role
+}
+
 /**
  * A transition in the CFSM
  *
@@ -143,8 +161,13 @@ export interface CFSMTransition {
   to: string;       // Target state ID
   action: CFSMAction;  // ← THE ACTION LIVES HERE!
 
-  // Optional guard condition (for conditional transitions)
-  guard?: string;
+  // Refinement of the message sent or received (`where amount > 0`),
+  // checked by the runtime on both sides (see core/predicates)
+  guard?: Expression;
+
+  // Timed types: constraints on this role's clock, which every send and
+  // receive of the role resets (see ClockConstraint)
+  clockConstraints?: ClockConstraint[];
 
   // Metadata for visualization
   metadata?: Record<string, any>;
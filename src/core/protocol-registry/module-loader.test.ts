@@ -0,0 +1,295 @@
+/**
+ * Module Loader Tests
+ *
+ * Loading protocol libraries split across files, on a virtual file system.
+ *
+ * Test Categories:
+ * 1. Merging and Namespacing
+ * 2. Selective Imports
+ * 3. Error Handling (missing modules, cycles, conflicts)
+ * 4. Path Resolution
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ModuleLoader,
+  InMemoryModuleResolver,
+  ModuleNotFoundError,
+  ImportCycleError,
+  ModuleResolutionError,
+  loadModules,
+  resolvePath,
+} from './module-loader';
+import type { Do, GlobalProtocolDeclaration, MessageTransfer } from '../ast/types';
+
+const AUTH = `
+  type Token as String;
+
+  protocol Login(role Client, role Server) {
+    Client -> Server: Credentials(String);
+    Server -> Client: Session(Token);
+  }
+
+  protocol Logout(role Client, role Server) {
+    Client -> Server: Bye();
+  }
+`;
+
+function firstDo(protocol: GlobalProtocolDeclaration): Do {
+  return protocol.body.find(i => i.type === 'Do') as Do;
+}
+
+// ============================================================================
+// Merging and Namespacing
+// ============================================================================
+
+describe('Module Loader - Merging and Namespacing', () => {
+  it('should merge imported protocols into one registry under qualified names', () => {
+    const resolver = new InMemoryModuleResolver({
+      'app/main.scr': `
+        import "../lib/auth.scr";
+
+        protocol Shop(role Buyer, role Seller) {
+          do Login(Buyer, Seller);
+          Buyer -> Seller: Order(Int);
+        }
+      `,
+      'lib/auth.scr': AUTH,
+    });
+
+    const program = new ModuleLoader(resolver).load('app/main.scr');
+
+    expect(program.registry.getProtocolNames().sort()).toEqual(['Shop', 'auth.Login', 'auth.Logout']);
+    expect(program.entry.imports).toEqual(['lib/auth.scr']);
+    expect(program.modules.get('lib/auth.scr')!.namespace).toBe('auth');
+
+    // Unqualified reference resolves to the canonical name
+    expect(firstDo(program.registry.resolve('Shop')).protocol).toBe('auth.Login');
+    expect(program.registry.getDependencies('Shop')).toEqual(['auth.Login']);
+  });
+
+  it('should accept qualified references to imported protocols', () => {
+    const program = loadModules('main.scr', new InMemoryModuleResolver({
+      'main.scr': `
+        import "auth.scr" { Login };
+
+        protocol Session(role C, role S) {
+          do auth.Logout(C, S);
+        }
+      `,
+      'auth.scr': AUTH,
+    }));
+
+    expect(firstDo(program.registry.resolve('Session')).protocol).toBe('auth.Logout');
+  });
+
+  it('should merge type declarations and rewrite payload types that use them', () => {
+    const program = loadModules('main.scr', new InMemoryModuleResolver({
+      'main.scr': `import "auth.scr";`,
+      'auth.scr': AUTH,
+    }));
+
+    expect(Array.from(program.types.keys())).toEqual(['auth.Token']);
+
+    const login = program.registry.resolve('auth.Login');
+    const session = login.body[1] as MessageTransfer;
+    expect(session.message.payload!.payloadType).toMatchObject({ type: 'SimpleType', name: 'auth.Token' });
+  });
+
+  it('should load a module imported twice only once', () => {
+    const program = loadModules('main.scr', new InMemoryModuleResolver({
+      'main.scr': `
+        import "a.scr";
+        import "b.scr";
+      `,
+      'a.scr': `
+        import "common.scr";
+        protocol A(role P, role Q) { do Ping(P, Q); }
+      `,
+      'b.scr': `
+        import "common.scr";
+        protocol B(role P, role Q) { do common.Ping(Q, P); }
+      `,
+      'common.scr': `protocol Ping(role X, role Y) { X -> Y: Ping(); }`,
+    }));
+
+    expect(Array.from(program.modules.keys())).toEqual(['common.scr', 'a.scr', 'b.scr', 'main.scr']);
+    expect(firstDo(program.registry.resolve('a.A')).protocol).toBe('common.Ping');
+    expect(firstDo(program.registry.resolve('b.B')).protocol).toBe('common.Ping');
+  });
+
+  it('should resolve an extended protocol from another module', () => {
+    const program = loadModules('v2.scr', new InMemoryModuleResolver({
+      'v2.scr': `
+        import "v1.scr";
+        protocol Api(role C, role S) extends v1.Api {
+          C -> S: Get();
+        }
+      `,
+      'v1.scr': `protocol Api(role C, role S) { C -> S: Get(); }`,
+    }));
+
+    expect(program.registry.getSupertype('Api')).toBe('v1.Api');
+  });
+
+  it('should take the entry source directly (e.g. from stdin)', () => {
+    const resolver = new InMemoryModuleResolver({ 'auth.scr': AUTH });
+
+    const program = new ModuleLoader(resolver).load('<stdin>', `
+      import "auth.scr" { Logout };
+      protocol Quit(role A, role B) { do Logout(A, B); }
+    `);
+
+    expect(firstDo(program.registry.resolve('Quit')).protocol).toBe('auth.Logout');
+  });
+});
+
+// ============================================================================
+// Selective Imports
+// ============================================================================
+
+describe('Module Loader - Selective Imports', () => {
+  it('should only bring listed names into scope unqualified', () => {
+    expect(() => loadModules('main.scr', new InMemoryModuleResolver({
+      'main.scr': `
+        import "auth.scr" { Login };
+        protocol P(role A, role B) { do Logout(A, B); }
+      `,
+      'auth.scr': AUTH,
+    }))).toThrow('Protocol "Logout" not found');
+  });
+
+  it('should reject importing a name the module does not declare', () => {
+    expect(() => loadModules('main.scr', new InMemoryModuleResolver({
+      'main.scr': `import "auth.scr" { Register };`,
+      'auth.scr': AUTH,
+    }))).toThrow(ModuleResolutionError);
+  });
+
+  it('should not make imports transitive', () => {
+    expect(() => loadModules('main.scr', new InMemoryModuleResolver({
+      'main.scr': `
+        import "wrapper.scr";
+        protocol P(role A, role B) { do Login(A, B); }
+      `,
+      'wrapper.scr': `import "auth.scr";`,
+      'auth.scr': AUTH,
+    }))).toThrow('Protocol "Login" not found');
+  });
+});
+
+// ============================================================================
+// Error Handling
+// ============================================================================
+
+describe('Module Loader - Error Handling', () => {
+  it('should report a missing module with the importing module', () => {
+    const resolver = new InMemoryModuleResolver({
+      'main.scr': `import "lib/missing.scr";`,
+    });
+
+    try {
+      loadModules('main.scr', resolver);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ModuleNotFoundError);
+      expect((error as ModuleNotFoundError).modulePath).toBe('lib/missing.scr');
+      expect((error as ModuleNotFoundError).importedFrom).toBe('main.scr');
+    }
+  });
+
+  it('should detect import cycles', () => {
+    const resolver = new InMemoryModuleResolver({
+      'a.scr': `import "b.scr";`,
+      'b.scr': `import "c.scr";`,
+      'c.scr': `import "a.scr";`,
+    });
+
+    try {
+      loadModules('a.scr', resolver);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ImportCycleError);
+      expect((error as ImportCycleError).cycle).toEqual(['a.scr', 'b.scr', 'c.scr', 'a.scr']);
+    }
+  });
+
+  it('should let own declarations shadow names imported from a whole module', () => {
+    const program = loadModules('main.scr', new InMemoryModuleResolver({
+      'main.scr': `
+        import "auth.scr";
+        protocol Login(role A, role B) { A -> B: Hi(); }
+        protocol Both(role A, role B) { do Login(A, B); do auth.Login(A, B); }
+      `,
+      'auth.scr': AUTH,
+    }));
+
+    const calls = program.registry.resolve('Both').body.map(i => (i as Do).protocol);
+    expect(calls).toEqual(['Login', 'auth.Login']);
+  });
+
+  it('should reject a name that refers to two declarations', () => {
+    expect(() => loadModules('main.scr', new InMemoryModuleResolver({
+      'main.scr': `
+        import "auth.scr" { Login };
+        protocol Login(role A, role B) { A -> B: Hi(); }
+      `,
+      'auth.scr': AUTH,
+    }))).toThrow('"Login" refers to both "Login" and "auth.Login"');
+  });
+
+  it('should reject a name imported from two modules', () => {
+    expect(() => loadModules('main.scr', new InMemoryModuleResolver({
+      'main.scr': `
+        import "auth.scr";
+        import "sso.scr";
+      `,
+      'auth.scr': AUTH,
+      'sso.scr': `protocol Login(role A, role B) { A -> B: Redirect(); }`,
+    }))).toThrow('"Login" refers to both "auth.Login" and "sso.Login"');
+  });
+
+  it('should reject two modules with the same namespace', () => {
+    expect(() => loadModules('main.scr', new InMemoryModuleResolver({
+      'main.scr': `
+        import "v1/api.scr";
+        import "v2/api.scr";
+      `,
+      'v1/api.scr': `protocol A(role P, role Q) { P -> Q: M(); }`,
+      'v2/api.scr': `protocol B(role P, role Q) { P -> Q: M(); }`,
+    }))).toThrow('Namespace "api" is already used by "v1/api.scr"');
+  });
+
+  it('should prefix parse errors with the module path', () => {
+    expect(() => loadModules('main.scr', new InMemoryModuleResolver({
+      'main.scr': `import "broken.scr";`,
+      'broken.scr': `protocol Broken(role A {`,
+    }))).toThrow(/^broken\.scr: /);
+  });
+
+  it('should keep what parsed in modules with syntax errors when recovering', () => {
+    const program = loadModules('main.scr', new InMemoryModuleResolver({
+      'main.scr': `import "auth.scr";\nprotocol Main(role A, role B) { do Login(A, B) }`,
+      'auth.scr': `${AUTH}\nprotocol Broken(role A {`,
+    }), undefined, { recover: true });
+
+    expect(program.registry.has('auth.Login')).toBe(true);
+    expect(program.registry.has('auth.Broken')).toBe(false);
+    expect(program.entry.syntaxErrors.map(e => e.suggestion)).toEqual(['missing `;` after `do` statement']);
+    expect(program.modules.get('auth.scr')!.syntaxErrors).not.toHaveLength(0);
+    expect(firstDo(program.registry.resolve('Main')).protocol).toBe('auth.Login');
+  });
+});
+
+// ============================================================================
+// Path Resolution
+// ============================================================================
+
+describe('Module Loader - Path Resolution', () => {
+  it('should resolve import paths against the importing module', () => {
+    expect(resolvePath('auth.scr', 'lib/main.scr')).toBe('lib/auth.scr');
+    expect(resolvePath('../common/types.scr', 'lib/net/main.scr')).toBe('lib/common/types.scr');
+    expect(resolvePath('./a/./b.scr', 'main.scr')).toBe('a/b.scr');
+    expect(resolvePath('/std/core.scr', 'lib/main.scr')).toBe('/std/core.scr');
+  });
+});
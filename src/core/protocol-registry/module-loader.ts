@@ -0,0 +1,530 @@
+/**
+ * Module Loader - Multi-File Protocol Libraries
+ *
+ * Follows `import` declarations across files and merges every imported
+ * protocol and type declaration into a single ProtocolRegistry.
+ *
+ * Design Principles:
+ * - Pluggable resolution: a ModuleResolver maps import paths to sources
+ *   (file system for the CLI, in-memory virtual file system for the IDE)
+ * - Namespacing: each module gets a namespace from its file name
+ *   (`lib/auth.scr` → `auth`); imported declarations are registered
+ *   under qualified names (`auth.Login`), the entry module's under their
+ *   own names
+ * - Each module is loaded once, however many modules import it
+ *
+ * Scoping (per module):
+ * - Its own declarations, by name
+ * - `import "lib/auth.scr";` brings every declaration of `auth` into
+ *   scope, both as `Login` and as `auth.Login`; own declarations shadow
+ *   these unqualified names
+ * - `import "lib/auth.scr" { Login };` brings only `Login` unqualified
+ *   (every declaration remains reachable as `auth.Login`)
+ * - Imports are not transitive
+ *
+ * Formal Properties:
+ * - No import cycles allowed
+ * - Imported names must be declared by the imported module
+ * - A name in scope refers to exactly one declaration
+ */
+
+import type {
+  GlobalProtocolDeclaration,
+  ImportDeclaration,
+  LocalProtocolDeclaration,
+  Module,
+  ModuleDeclaration,
+  ProtocolExtension,
+  TypeDeclaration,
+} from '../ast/types';
+import { parse, parseWithRecovery } from '../parser/parser';
+import type { SyntaxDiagnostic } from '../parser/syntax-diagnostics';
+import { ProtocolRegistry } from './registry';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Maps import paths to module sources (for DI)
+ */
+export interface ModuleResolver {
+  /**
+   * Resolve an import path against the path of the importing module
+   * (an empty `fromPath` resolves against the working directory)
+   */
+  resolve(importPath: string, fromPath: string): string;
+
+  /**
+   * Read a module's source
+   * @returns undefined if the module does not exist
+   */
+  read(path: string): string | undefined;
+}
+
+/**
+ * Options for loading modules
+ */
+export interface LoadOptions {
+  /**
+   * Validate the dependencies of the merged registry (default: true).
+   * Without validation, unresolved references are left for
+   * `registry.validateDependencies()` to report.
+   */
+  validate?: boolean;
+
+  /**
+   * Load modules with syntax errors (default: false), keeping the
+   * declarations that parsed; the errors are listed per module.
+   */
+  recover?: boolean;
+}
+
+/**
+ * A parsed module, with references rewritten to canonical names
+ */
+export interface LoadedModule {
+  path: string;
+  namespace: string;
+  module: Module;
+  imports: string[]; // Resolved paths of directly imported modules
+  syntaxErrors: SyntaxDiagnostic[]; // Only with the `recover` option
+}
+
+/**
+ * Result of loading an entry module and everything it imports
+ */
+export interface LoadedProgram {
+  entry: LoadedModule;
+
+  /** All loaded modules by path, dependencies first */
+  modules: Map<string, LoadedModule>;
+
+  /** Every global protocol of every module, under its canonical name */
+  registry: ProtocolRegistry;
+
+  /** Every type declaration of every module, under its canonical name */
+  types: Map<string, TypeDeclaration>;
+}
+
+type NamedDeclaration = Exclude<ModuleDeclaration, ImportDeclaration>;
+
+interface ParsedModule {
+  path: string;
+  namespace: string;
+  imports: Array<{ declaration: ImportDeclaration; path: string }>;
+  declarations: NamedDeclaration[];
+  syntaxErrors: SyntaxDiagnostic[];
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export class ModuleNotFoundError extends Error {
+  constructor(
+    public readonly modulePath: string,
+    public readonly importedFrom?: string
+  ) {
+    super(
+      `Module "${modulePath}" not found${
+        importedFrom ? ` (imported by "${importedFrom}")` : ''
+      }`
+    );
+    this.name = 'ModuleNotFoundError';
+  }
+}
+
+export class ImportCycleError extends Error {
+  constructor(
+    public readonly cycle: string[]
+  ) {
+    super(`Import cycle detected: ${cycle.join(' → ')}`);
+    this.name = 'ImportCycleError';
+  }
+}
+
+export class ModuleResolutionError extends Error {
+  constructor(
+    public readonly modulePath: string,
+    message: string
+  ) {
+    super(`${modulePath}: ${message}`);
+    this.name = 'ModuleResolutionError';
+  }
+}
+
+// ============================================================================
+// Resolvers
+// ============================================================================
+
+/**
+ * Virtual file system (for the IDE and tests)
+ *
+ * Paths are POSIX-style; relative imports resolve against the directory
+ * of the importing module.
+ */
+export class InMemoryModuleResolver implements ModuleResolver {
+  private files: Map<string, string>;
+
+  constructor(files: Record<string, string> = {}) {
+    this.files = new Map();
+    for (const [path, source] of Object.entries(files)) {
+      this.setFile(path, source);
+    }
+  }
+
+  setFile(path: string, source: string): void {
+    this.files.set(normalizePath(path), source);
+  }
+
+  deleteFile(path: string): boolean {
+    return this.files.delete(normalizePath(path));
+  }
+
+  getPaths(): string[] {
+    return Array.from(this.files.keys());
+  }
+
+  resolve(importPath: string, fromPath: string): string {
+    return resolvePath(importPath, fromPath);
+  }
+
+  read(path: string): string | undefined {
+    return this.files.get(normalizePath(path));
+  }
+}
+
+// ============================================================================
+// Module Loader Implementation
+// ============================================================================
+
+export class ModuleLoader {
+  constructor(private readonly resolver: ModuleResolver) {}
+
+  /**
+   * Load an entry module and everything it imports
+   *
+   * @param source - source of the entry module (default: read through the resolver)
+   * @throws {ModuleNotFoundError} if an imported module doesn't exist
+   * @throws {ImportCycleError} if modules import each other
+   * @throws {ModuleResolutionError} on syntax errors (unless `recover`) and name conflicts
+   */
+  load(entryPath: string, source?: string, options: LoadOptions = {}): LoadedProgram {
+    const entry = this.resolver.resolve(entryPath, '');
+    const parsed = new Map<string, ParsedModule>();
+    const order: string[] = [];
+    this.collect(entry, source, undefined, [], parsed, order, options);
+
+    // Namespaces must identify modules
+    const namespaces = new Map<string, string>();
+    for (const path of order) {
+      const { namespace } = parsed.get(path)!;
+      const existing = namespaces.get(namespace);
+      if (existing) {
+        throw new ModuleResolutionError(
+          path,
+          `Namespace "${namespace}" is already used by "${existing}"`
+        );
+      }
+      namespaces.set(namespace, path);
+    }
+
+    const canonical = (module: ParsedModule, name: string): string =>
+      module.path === entry ? name : `${module.namespace}.${name}`;
+
+    const modules = new Map<string, LoadedModule>();
+    const declarations: ModuleDeclaration[] = [];
+    const types = new Map<string, TypeDeclaration>();
+
+    for (const path of order) {
+      const module = parsed.get(path)!;
+      const scope = this.buildScope(module, parsed, canonical);
+
+      const rewritten = module.declarations.map(decl =>
+        rewriteDeclaration(decl, canonical(module, decl.name), scope)
+      );
+
+      for (const decl of rewritten) {
+        if (decl.type === 'TypeDeclaration') {
+          types.set(decl.name, decl);
+        }
+      }
+      declarations.push(...rewritten);
+
+      modules.set(path, {
+        path,
+        namespace: module.namespace,
+        module: {
+          type: 'Module',
+          declarations: [...module.imports.map(i => i.declaration), ...rewritten],
+        },
+        imports: module.imports.map(i => i.path),
+        syntaxErrors: module.syntaxErrors,
+      });
+    }
+
+    let registry: ProtocolRegistry;
+    if (options.validate ?? true) {
+      registry = new ProtocolRegistry({ type: 'Module', declarations });
+    } else {
+      registry = new ProtocolRegistry();
+      for (const decl of declarations) {
+        if (decl.type === 'GlobalProtocolDeclaration' || decl.type === 'ProtocolExtension') {
+          registry.register(decl.name, decl);
+        }
+      }
+    }
+
+    return {
+      entry: modules.get(entry)!,
+      modules,
+      registry,
+      types,
+    };
+  }
+
+  /**
+   * Parse a module and (depth-first) the modules it imports
+   */
+  private collect(
+    path: string,
+    source: string | undefined,
+    importedFrom: string | undefined,
+    stack: string[],
+    parsed: Map<string, ParsedModule>,
+    order: string[],
+    options: LoadOptions
+  ): void {
+    if (stack.includes(path)) {
+      throw new ImportCycleError([...stack.slice(stack.indexOf(path)), path]);
+    }
+    if (parsed.has(path)) {
+      return;
+    }
+
+    const text = source ?? this.resolver.read(path);
+    if (text === undefined) {
+      throw new ModuleNotFoundError(path, importedFrom);
+    }
+
+    let ast: Module;
+    let syntaxErrors: SyntaxDiagnostic[] = [];
+    if (options.recover) {
+      ({ module: ast, diagnostics: syntaxErrors } = parseWithRecovery(text));
+    } else {
+      try {
+        ast = parse(text);
+      } catch (error: any) {
+        throw new ModuleResolutionError(path, error.message);
+      }
+    }
+
+    const module: ParsedModule = {
+      path,
+      namespace: namespaceOf(path),
+      imports: [],
+      declarations: [],
+      syntaxErrors,
+    };
+
+    for (const decl of ast.declarations) {
+      if (decl.type === 'ImportDeclaration') {
+        module.imports.push({
+          declaration: decl,
+          path: this.resolver.resolve(decl.modulePath, path),
+        });
+      } else {
+        if (module.declarations.some(d => d.name === decl.name)) {
+          throw new ModuleResolutionError(path, `"${decl.name}" is declared more than once`);
+        }
+        module.declarations.push(decl);
+      }
+    }
+
+    stack.push(path);
+    for (const { path: importPath } of module.imports) {
+      this.collect(importPath, undefined, path, stack, parsed, order, options);
+    }
+    stack.pop();
+
+    parsed.set(path, module);
+    order.push(path);
+  }
+
+  /**
+   * Names visible in a module → canonical names
+   */
+  private buildScope(
+    module: ParsedModule,
+    parsed: Map<string, ParsedModule>,
+    canonical: (module: ParsedModule, name: string) => string
+  ): Map<string, string> {
+    const scope = new Map<string, string>();
+
+    const bind = (name: string, target: string): void => {
+      const existing = scope.get(name);
+      if (existing !== undefined && existing !== target) {
+        throw new ModuleResolutionError(
+          module.path,
+          `"${name}" refers to both "${existing}" and "${target}"`
+        );
+      }
+      scope.set(name, target);
+    };
+
+    const own = new Set(module.declarations.map(d => d.name));
+    for (const name of own) {
+      bind(name, canonical(module, name));
+    }
+
+    for (const { declaration, path } of module.imports) {
+      const imported = parsed.get(path)!;
+      const declared = new Set(imported.declarations.map(d => d.name));
+
+      for (const name of declared) {
+        bind(`${imported.namespace}.${name}`, canonical(imported, name));
+      }
+
+      if (!declaration.importedNames) {
+        for (const name of declared) {
+          if (!own.has(name)) {
+            bind(name, canonical(imported, name));
+          }
+        }
+        continue;
+      }
+
+      for (const name of declaration.importedNames) {
+        if (!declared.has(name)) {
+          throw new ModuleResolutionError(
+            module.path,
+            `"${name}" is not declared in "${declaration.modulePath}"`
+          );
+        }
+        bind(name, canonical(imported, name));
+      }
+    }
+
+    return scope;
+  }
+}
+
+/**
+ * Load an entry module and everything it imports
+ */
+export function loadModules(
+  entryPath: string,
+  resolver: ModuleResolver,
+  source?: string,
+  options: LoadOptions = {}
+): LoadedProgram {
+  return new ModuleLoader(resolver).load(entryPath, source, options);
+}
+
+// ============================================================================
+// Reference Rewriting
+// ============================================================================
+
+/**
+ * Copy a declaration under its canonical name, with every protocol and
+ * type reference resolved through the module's scope
+ */
+function rewriteDeclaration(
+  decl: NamedDeclaration,
+  name: string,
+  scope: Map<string, string>
+): NamedDeclaration {
+  // Type parameters shadow module-level types
+  const parameters = new Set(
+    decl.type === 'GlobalProtocolDeclaration' ||
+    decl.type === 'LocalProtocolDeclaration' ||
+    decl.type === 'ProtocolExtension'
+      ? decl.parameters.map(p => p.name)
+      : []
+  );
+
+  const lookup = (ref: string): string => scope.get(ref) ?? ref;
+
+  const visit = (node: any): any => {
+    if (Array.isArray(node)) {
+      return node.map(visit);
+    }
+    if (node === null || typeof node !== 'object') {
+      return node;
+    }
+
+    const copy: any = {};
+    for (const [key, value] of Object.entries(node)) {
+      copy[key] = visit(value);
+    }
+
+    switch (node.type) {
+      case 'Do':
+      case 'ProtocolCall':
+        copy.protocol = lookup(node.protocol);
+        break;
+      case 'ProtocolExtension':
+        copy.extends = lookup(node.extends);
+        break;
+      case 'SimpleType':
+      case 'ParametricType':
+        if (!parameters.has(node.name)) {
+          copy.name = lookup(node.name);
+        }
+        break;
+    }
+
+    return copy;
+  };
+
+  return { ...visit(decl), name } as
+    | TypeDeclaration
+    | GlobalProtocolDeclaration
+    | LocalProtocolDeclaration
+    | ProtocolExtension;
+}
+
+// ============================================================================
+// Path Helpers (POSIX, no dependency on node's `path`)
+// ============================================================================
+
+/**
+ * Resolve an import path against the importing module's path
+ */
+export function resolvePath(importPath: string, fromPath: string): string {
+  if (importPath.startsWith('/')) {
+    return normalizePath(importPath);
+  }
+  const slash = fromPath.lastIndexOf('/');
+  const directory = slash >= 0 ? fromPath.slice(0, slash) : '';
+  return normalizePath(directory ? `${directory}/${importPath}` : importPath);
+}
+
+/**
+ * Collapse `.`, `..` and repeated slashes
+ */
+export function normalizePath(path: string): string {
+  const absolute = path.startsWith('/');
+  const segments: string[] = [];
+
+  for (const segment of path.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..' && segments.length > 0 && segments[segments.length - 1] !== '..') {
+      segments.pop();
+    } else if (segment !== '..' || !absolute) {
+      segments.push(segment);
+    }
+  }
+
+  return (absolute ? '/' : '') + segments.join('/');
+}
+
+/**
+ * Namespace of a module: its file name without extension
+ */
+function namespaceOf(path: string): string {
+  const file = path.slice(path.lastIndexOf('/') + 1);
+  const dot = file.lastIndexOf('.');
+  return dot > 0 ? file.slice(0, dot) : file;
+}
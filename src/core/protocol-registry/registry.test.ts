@@ -20,7 +20,7 @@ import {
   CircularDependencyError,
   RoleMismatchError,
 } from '../protocol-registry/registry';
-import type { Module, GlobalProtocolDeclaration } from '../ast/types';
+import type { Module, GlobalProtocolDeclaration, ProtocolExtension } from '../ast/types';
 
 // ============================================================================
 // Test Helpers
@@ -487,6 +487,100 @@ describe('Protocol Registry - Role Mapping', () => {
   });
 });
 
+// ============================================================================
+// Protocol Extension Tests
+// ============================================================================
+
+describe('Protocol Registry - Protocol Extensions', () => {
+  function createExtension(
+    name: string,
+    roles: string[],
+    base: string,
+    roleArguments: string[] = roles
+  ): ProtocolExtension {
+    return {
+      type: 'ProtocolExtension',
+      name,
+      parameters: [],
+      roles: roles.map(r => ({ type: 'RoleDeclaration', name: r })),
+      extends: base,
+      roleArguments,
+      refinements: [],
+    };
+  }
+
+  it('should resolve an extension as a global protocol', () => {
+    const module: Module = {
+      type: 'Module',
+      declarations: [createProtocol('V1', ['A', 'B']), createExtension('V2', ['A', 'B'], 'V1')],
+    };
+    const registry = new ProtocolRegistry(module);
+
+    const resolved = registry.resolve('V2');
+
+    expect(resolved.type).toBe('GlobalProtocolDeclaration');
+    expect(resolved.roles.map(r => r.name)).toEqual(['A', 'B']);
+    expect(registry.getSupertype('V2')).toBe('V1');
+    expect(registry.getSupertype('V1')).toBeUndefined();
+    expect(registry.getDependencies('V2')).toEqual(['V1']);
+  });
+
+  it('should map base roles to extension roles', () => {
+    const module: Module = {
+      type: 'Module',
+      declarations: [
+        createProtocol('V1', ['A', 'B']),
+        createExtension('V2', ['Client', 'Server'], 'V1', ['Server', 'Client']),
+      ],
+    };
+    const registry = new ProtocolRegistry(module);
+
+    const { mapping } = registry.getExtensionRoleMapping('V2');
+
+    expect(mapping.get('A')).toBe('Server');
+    expect(mapping.get('B')).toBe('Client');
+  });
+
+  it('should throw when the base protocol does not exist', () => {
+    const module: Module = {
+      type: 'Module',
+      declarations: [createExtension('V2', ['A', 'B'], 'Missing')],
+    };
+
+    expect(() => new ProtocolRegistry(module)).toThrow(ProtocolNotFoundError);
+  });
+
+  it('should throw on a role count mismatch with the base protocol', () => {
+    const module: Module = {
+      type: 'Module',
+      declarations: [createProtocol('V1', ['A', 'B', 'C']), createExtension('V2', ['A', 'B'], 'V1')],
+    };
+
+    expect(() => new ProtocolRegistry(module)).toThrow(RoleMismatchError);
+  });
+
+  it('should reject role arguments that the extension does not declare', () => {
+    const module: Module = {
+      type: 'Module',
+      declarations: [
+        createProtocol('V1', ['A', 'B']),
+        createExtension('V2', ['A', 'B'], 'V1', ['A', 'C']),
+      ],
+    };
+
+    expect(() => new ProtocolRegistry(module)).toThrow('Role "C" passed to "V1" is not declared by "V2"');
+  });
+
+  it('should detect circular extension', () => {
+    const module: Module = {
+      type: 'Module',
+      declarations: [createExtension('V1', ['A'], 'V2'), createExtension('V2', ['A'], 'V1')],
+    };
+
+    expect(() => new ProtocolRegistry(module)).toThrow(CircularDependencyError);
+  });
+});
+
 // ============================================================================
 // Edge Cases and Error Handling
 // ============================================================================
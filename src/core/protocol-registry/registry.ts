@@ -13,9 +13,10 @@
  * - No circular dependencies allowed
  * - All referenced protocols must be resolvable
  * - Role counts must match at invocation site
+ * - Extended protocols must be resolvable, with matching role counts
  */
 
-import type { GlobalProtocolDeclaration, Module } from '../ast/types';
+import type { GlobalProtocolDeclaration, Module, ProtocolExtension } from '../ast/types';
 import { buildCFG } from '../cfg/builder';
 import type { CFG } from '../cfg/types';
 
@@ -61,7 +62,8 @@ export interface IProtocolRegistry {
 export interface ProtocolMetadata {
   name: string;
   roles: string[];
-  dependencies: string[]; // Names of protocols referenced via 'do'
+  dependencies: string[]; // Names of protocols referenced via 'do' or 'extends'
+  extends?: string; // Base protocol of a protocol extension
   verified?: boolean;
   cfg?: CFG; // Cached CFG
 }
@@ -154,6 +156,7 @@ export class ProtocolRegistry implements IProtocolRegistry {
   private protocols: Map<string, GlobalProtocolDeclaration>;
   private metadata: Map<string, ProtocolMetadata>;
   private dependencyGraph: Map<string, Set<string>>;
+  private extensions: Map<string, ProtocolExtension>;
 
   /**
    * Create registry from module (optional)
@@ -165,11 +168,12 @@ export class ProtocolRegistry implements IProtocolRegistry {
     this.protocols = new Map();
     this.metadata = new Map();
     this.dependencyGraph = new Map();
+    this.extensions = new Map();
 
     if (module) {
       // Extract all global protocols
       for (const decl of module.declarations) {
-        if (decl.type === 'GlobalProtocolDeclaration') {
+        if (decl.type === 'GlobalProtocolDeclaration' || decl.type === 'ProtocolExtension') {
           this.register(decl.name, decl);
         }
       }
@@ -182,6 +186,11 @@ export class ProtocolRegistry implements IProtocolRegistry {
           throw new CircularDependencyError(error.details.cycle);
         } else if (error.type === 'not-found') {
           throw new ProtocolNotFoundError(error.protocolName, error.referencedBy);
+        } else if (error.type === 'role-mismatch') {
+          if (error.details.expected) {
+            throw new RoleMismatchError(error.protocolName, error.details.expected.length, error.details.actual.length);
+          }
+          throw new Error(error.message);
         }
       }
     }
@@ -189,19 +198,33 @@ export class ProtocolRegistry implements IProtocolRegistry {
 
   /**
    * Register a protocol manually
+   *
+   * A protocol extension is registered as the global protocol its body
+   * defines; its base protocol is recorded as a dependency.
    */
-  register(name: string, decl: GlobalProtocolDeclaration): void {
-    this.protocols.set(name, decl);
-
-    // Extract dependencies (protocols referenced via 'do')
-    const dependencies = this.extractDependencies(decl);
+  register(name: string, decl: GlobalProtocolDeclaration | ProtocolExtension): void {
+    const protocol = decl.type === 'ProtocolExtension' ? extensionToProtocol(decl) : decl;
+    this.protocols.set(name, protocol);
+
+    // Extract dependencies (protocols referenced via 'do' or 'extends')
+    const dependencies = this.extractDependencies(protocol);
+    if (decl.type === 'ProtocolExtension' && !dependencies.includes(decl.extends)) {
+      dependencies.push(decl.extends);
+    }
 
     this.metadata.set(name, {
       name: decl.name,
-      roles: decl.roles.map(r => r.name),
+      roles: protocol.roles.map(r => r.name),
       dependencies,
+      ...(decl.type === 'ProtocolExtension' && { extends: decl.extends }),
     });
 
+    if (decl.type === 'ProtocolExtension') {
+      this.extensions.set(name, decl);
+    } else {
+      this.extensions.delete(name);
+    }
+
     this.dependencyGraph.set(name, new Set(dependencies));
   }
 
@@ -244,6 +267,24 @@ export class ProtocolRegistry implements IProtocolRegistry {
     return Array.from(this.dependencyGraph.get(name) || []);
   }
 
+  /**
+   * Get the protocol a protocol extension extends (undefined otherwise)
+   */
+  getSupertype(name: string): string | undefined {
+    return this.extensions.get(name)?.extends;
+  }
+
+  /**
+   * Role mapping from a base protocol's roles to its extension's roles
+   */
+  getExtensionRoleMapping(name: string): RoleMapping {
+    const extension = this.extensions.get(name);
+    if (!extension) {
+      throw new Error(`Protocol "${name}" does not extend another protocol`);
+    }
+    return this.createRoleMapping(extension.extends, extension.roleArguments);
+  }
+
   /**
    * Validate all dependencies
    */
@@ -264,7 +305,26 @@ export class ProtocolRegistry implements IProtocolRegistry {
       }
     }
 
-    // Check 2: No circular dependencies (using DFS cycle detection)
+    // Check 2: Extensions map every role of their base protocol
+    for (const [protocolName, extension] of this.extensions) {
+      if (!this.has(extension.extends)) continue; // Reported by check 1
+
+      errors.push(...this.validateRoleMapping(extension.extends, extension.roleArguments).errors);
+
+      const roles = this.metadata.get(protocolName)!.roles;
+      for (const role of extension.roleArguments) {
+        if (!roles.includes(role)) {
+          errors.push({
+            type: 'role-mismatch',
+            protocolName,
+            message: `Role "${role}" passed to "${extension.extends}" is not declared by "${protocolName}"`,
+            details: { role, declared: roles },
+          });
+        }
+      }
+    }
+
+    // Check 3: No circular dependencies (using DFS cycle detection)
     const cycles = this.detectCycles();
     for (const cycle of cycles) {
       errors.push({
@@ -439,6 +499,20 @@ export class ProtocolRegistry implements IProtocolRegistry {
   }
 }
 
+/**
+ * View a protocol extension as the global protocol its body defines
+ */
+function extensionToProtocol(extension: ProtocolExtension): GlobalProtocolDeclaration {
+  return {
+    type: 'GlobalProtocolDeclaration',
+    name: extension.name,
+    parameters: extension.parameters,
+    roles: extension.roles,
+    body: extension.refinements,
+    location: extension.location,
+  };
+}
+
 // ============================================================================
 // Factory Functions
 // ============================================================================
@@ -0,0 +1,7 @@
+/**
+ * Buyer of the Payment protocol, paying over the limit (threaded-simulator tests)
+ */
+
+import type { PayloadProvider } from '../../predicates/types';
+
+export const payloads: PayloadProvider = () => ({ amount: 150 });
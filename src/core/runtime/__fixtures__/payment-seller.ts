@@ -0,0 +1,7 @@
+/**
+ * Seller of the Payment protocol (threaded-simulator tests)
+ */
+
+import type { PayloadProvider } from '../../predicates/types';
+
+export const payloads: PayloadProvider = () => ({ limit: 100 });
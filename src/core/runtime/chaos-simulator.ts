@@ -0,0 +1,235 @@
+/**
+ * Chaos Simulator
+ *
+ * Runs the roles of a protocol over a ChaosTransport and reports which
+ * guarantees of the run the injected faults broke, and where: the role,
+ * state, channel and trace event at which each shows.
+ *
+ * Guarantees are checked on the trace against what was sent, not against
+ * the injected faults: a fault that does no harm (a duplicate nobody
+ * receives twice, a delay nothing overtakes) breaks nothing.
+ *
+ * Usage:
+ * ```typescript
+ * const simulator = new ChaosSimulator({ roles: projectAll(cfg).cfsms, plan });
+ * const report = await simulator.run();
+ * report.violations.forEach(v => console.log(v.guarantee, v.message));
+ * ```
+ */
+
+import { Simulator } from './simulator';
+import { ChaosTransport } from './chaos-transport';
+import { createInMemoryTransport } from './transport';
+import type {
+  ChaosSimulatorConfig,
+  ChaosReport,
+  GuaranteeViolation,
+  Message,
+  SimulationState,
+  TraceEvent,
+} from './types';
+
+/**
+ * Multi-role simulator over a fault-injecting transport
+ */
+export class ChaosSimulator {
+  private config: ChaosSimulatorConfig;
+
+  constructor(config: ChaosSimulatorConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Run every role to completion (or deadlock, violation, step bound)
+   *
+   * When every role waits while messages are still in transit, the run
+   * waits for them to arrive (virtual time moves on) before giving up.
+   * Each call starts from a fresh transport and simulator, so a seeded
+   * plan replays the same run.
+   */
+  async run(): Promise<ChaosReport> {
+    const transport = new ChaosTransport(this.config.transport ?? createInMemoryTransport(), this.config.plan);
+    const simulator = new Simulator({
+      roles: this.config.roles,
+      transport,
+      options: {
+        maxSteps: this.config.options?.maxSteps ?? 1000,
+        strictMode: this.config.options?.strictMode ?? true,
+        recordTrace: true,
+      },
+    });
+
+    let result = await simulator.run();
+    while (result.deadlocked && transport.getInFlightCount() > 0) {
+      await transport.settle();
+      result = await simulator.run();
+    }
+
+    // Whatever is still in transit lands now, to show up as orphans
+    await transport.settle();
+
+    const state = simulator.getState();
+    const trace = simulator.getTrace();
+    const completed = state.completed;
+    const deadlocked = !completed && !!result.deadlocked;
+
+    return {
+      seed: this.config.plan.seed ?? 0,
+      completed,
+      deadlocked,
+      faults: transport.getInjectedFaults(),
+      violations: [
+        ...checkProgress(state, trace.events, deadlocked),
+        ...checkChannels(state, trace.events, transport),
+      ],
+      state: { ...state, ...(result.error && { error: result.error }) },
+      trace,
+    };
+  }
+}
+
+// ============================================================================
+// Guarantees
+// ============================================================================
+
+/**
+ * Progress and conformance: roles that failed, and roles left waiting
+ */
+function checkProgress(state: SimulationState, events: TraceEvent[], deadlocked: boolean): GuaranteeViolation[] {
+  const violations: GuaranteeViolation[] = [];
+  const failed = new Set<string>();
+
+  events.forEach((event, eventIndex) => {
+    if (event.type !== 'error') return;
+    failed.add(event.role);
+    violations.push({
+      guarantee: 'conformance',
+      message: `${event.role}: ${event.error.message}`,
+      role: event.role,
+      state: event.error.state,
+      label: event.error.details?.received,
+      eventIndex,
+    });
+  });
+
+  if (state.completed) return violations;
+
+  for (const [role, roleState] of state.roles) {
+    if (roleState.completed || failed.has(role)) continue;
+    violations.push({
+      guarantee: 'progress',
+      message: deadlocked
+        ? `${role} waits forever in state ${roleState.currentState}`
+        : failed.size > 0
+          ? `${role} did not complete (in state ${roleState.currentState}): the run stopped at a violation`
+          : `${role} did not complete within the step bound (in state ${roleState.currentState})`,
+      role,
+      state: roleState.currentState,
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Delivery, exactly-once, FIFO, integrity and orphan-freedom, channel by
+ * channel, comparing what each receiver got with what was sent to it
+ */
+function checkChannels(state: SimulationState, events: TraceEvent[], transport: ChaosTransport): GuaranteeViolation[] {
+  const violations: GuaranteeViolation[] = [];
+
+  // "sender->receiver" → messages sent, in order
+  const sent = new Map<string, Message[]>();
+  // "sender->receiver" → ids received, and the highest send index received
+  const received = new Map<string, Set<string>>();
+  const lastIndex = new Map<string, number>();
+
+  events.forEach((event, eventIndex) => {
+    if (event.type === 'message-sent') {
+      const recipients = Array.isArray(event.message.to) ? event.message.to : [event.message.to];
+      for (const to of recipients) {
+        const key = `${event.message.from}->${to}`;
+        if (!sent.has(key)) sent.set(key, []);
+        sent.get(key)!.push(event.message);
+      }
+      return;
+    }
+    if (event.type !== 'message-received') return;
+
+    const { role, message } = event;
+    const channel = { from: message.from, to: role };
+    const key = `${message.from}->${role}`;
+    const where = { role, state: stateBefore(events, eventIndex, role), channel, label: message.label, eventIndex };
+
+    const index = (sent.get(key) ?? []).findIndex(original => original.id === message.id);
+    const original = sent.get(key)?.[index];
+    if (!received.has(key)) received.set(key, new Set());
+    const ids = received.get(key)!;
+
+    if (ids.has(message.id)) {
+      violations.push({ guarantee: 'exactly-once', message: `${role} received ${message.label} from ${message.from} twice`, ...where });
+    } else if (index < (lastIndex.get(key) ?? -1)) {
+      violations.push({ guarantee: 'fifo', message: `${role} received ${message.label} from ${message.from} after a message sent later`, ...where });
+    }
+    if (original && !sameContent(original, message)) {
+      violations.push({ guarantee: 'integrity', message: `${role} received ${message.label} from ${message.from}, sent as ${original.label}`, ...where });
+    }
+
+    ids.add(message.id);
+    lastIndex.set(key, Math.max(lastIndex.get(key) ?? -1, index));
+  });
+
+  // Not received: still queued (orphans, if the receiver is done) or lost
+  // (a message rejected in strict mode was received, though not traced)
+  for (const [key, messages] of sent) {
+    const [from, to] = key.split('->');
+    const ids = new Set(transport.getReceivedMessages(to).map(message => message.id));
+    const queued = transport.getPendingMessages(to).filter(message => message.from === from);
+    const receiverState = state.roles.get(to);
+
+    for (const message of messages) {
+      if (ids.has(message.id)) continue;
+      if (!queued.some(pending => pending.id === message.id)) {
+        violations.push({
+          guarantee: 'delivery',
+          message: `${message.label} from ${from} never reached ${to}`,
+          role: to,
+          state: receiverState?.currentState,
+          channel: { from, to },
+          label: message.label,
+        });
+      }
+    }
+
+    if (receiverState?.completed) {
+      for (const message of queued) {
+        violations.push({
+          guarantee: 'orphan-freedom',
+          message: `${to} completed with ${message.label} from ${from} unreceived`,
+          role: to,
+          state: receiverState.currentState,
+          channel: { from, to },
+          label: message.label,
+        });
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * State the role was in when the event happened (undefined if it had not
+ * left its initial state)
+ */
+function stateBefore(events: TraceEvent[], eventIndex: number, role: string): string | undefined {
+  for (let i = eventIndex - 1; i >= 0; i--) {
+    const event = events[i];
+    if (event.type === 'state-change' && event.role === role) return event.toState;
+  }
+  return undefined;
+}
+
+function sameContent(a: Message, b: Message): boolean {
+  return a.label === b.label && JSON.stringify(a.payload) === JSON.stringify(b.payload);
+}
@@ -0,0 +1,265 @@
+/**
+ * Chaos Transport Tests
+ *
+ * Tests fault injection around a transport, and runs under fault plans:
+ * - Each fault: drop, duplicate, reorder, delay, corrupt
+ * - Rules per channel, per label, bounded, probabilistic (seeded)
+ * - Fault plan validation
+ * - Guarantees broken by each fault, and where they show
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parse } from '../parser/parser';
+import { buildCFG } from '../cfg/builder';
+import { projectAll } from '../projection/projector';
+import { InMemoryTransport } from './transport';
+import { ChaosTransport, parseFaultPlan } from './chaos-transport';
+import { ChaosSimulator } from './chaos-simulator';
+import type { FaultPlan, FaultRule, Message, ProtocolGuarantee } from './types';
+import type { GlobalProtocolDeclaration } from '../ast/types';
+
+let nextId = 0;
+
+function message(from: string, to: string | string[], label: string, payload?: unknown): Message {
+  return { id: `m${nextId++}`, from, to, label, payload, timestamp: Date.now() };
+}
+
+function chaos(...faults: FaultRule[]): { inner: InMemoryTransport; transport: ChaosTransport } {
+  const inner = new InMemoryTransport();
+  return { inner, transport: new ChaosTransport(inner, { seed: 1, faults }) };
+}
+
+function labels(transport: InMemoryTransport, role: string): string[] {
+  return transport.getPendingMessages(role).map(m => m.label);
+}
+
+function simulator(source: string, plan: FaultPlan, strictMode?: boolean): ChaosSimulator {
+  const protocol = parse(source).declarations[0] as GlobalProtocolDeclaration;
+  return new ChaosSimulator({ roles: projectAll(buildCFG(protocol)).cfsms, plan, options: { strictMode } });
+}
+
+function guarantees(violations: Array<{ guarantee: ProtocolGuarantee }>): ProtocolGuarantee[] {
+  return violations.map(v => v.guarantee);
+}
+
+const PIPELINE = `
+  protocol Pipeline(role A, role B, role C) {
+    A -> B: Job(Int);
+    B -> C: Result(Int);
+    C -> A: Done();
+  }
+`;
+
+// ============================================================================
+// Faults
+// ============================================================================
+
+describe('Chaos Transport - Faults', () => {
+  it('should drop messages on the channels and labels of a rule only', async () => {
+    const { inner, transport } = chaos({ fault: 'drop', from: 'A', to: 'B', label: 'Lost' });
+
+    await transport.send(message('A', ['B', 'C'], 'Lost'));
+    await transport.send(message('A', 'B', 'Kept'));
+
+    expect(labels(inner, 'B')).toEqual(['Kept']);
+    expect(labels(inner, 'C')).toEqual(['Lost']);
+    expect(transport.getInjectedFaults().map(f => [f.fault, f.from, f.to, f.message.label])).toEqual([
+      ['drop', 'A', 'B', 'Lost'],
+    ]);
+  });
+
+  it('should duplicate and corrupt messages, up to the count of a rule', async () => {
+    const { inner, transport } = chaos(
+      { fault: 'duplicate', label: 'Twice', count: 1 },
+      { fault: 'corrupt', label: 'Garbled' }
+    );
+
+    await transport.send(message('A', 'B', 'Twice'));
+    await transport.send(message('A', 'B', 'Twice'));
+    await transport.send(message('A', 'B', 'Garbled', { amount: 5 }));
+
+    expect(labels(inner, 'B')).toEqual(['Twice', 'Twice', 'Twice', 'Garbled~corrupted']);
+    expect(inner.getPendingMessages('B')[3].payload).toBeUndefined();
+  });
+
+  it('should let the next message on the channel overtake a reordered one', async () => {
+    const { inner, transport } = chaos({ fault: 'reorder', label: 'First' });
+
+    await transport.send(message('A', 'B', 'First'));
+    await transport.send(message('A', 'C', 'Elsewhere'));
+    expect(labels(inner, 'B')).toEqual([]);
+    expect(transport.getInFlightCount()).toBe(1);
+
+    await transport.send(message('A', 'B', 'Second'));
+    expect(labels(inner, 'B')).toEqual(['Second', 'First']);
+
+    // Nothing comes to overtake it: arrives once the network settles
+    await transport.send(message('A', 'B', 'First'));
+    await transport.settle();
+    expect(labels(inner, 'B')).toEqual(['Second', 'First', 'First']);
+  });
+
+  it('should deliver delayed messages after their delay', async () => {
+    const { inner, transport } = chaos({ fault: 'delay', label: 'Slow', delay: [5, 15] });
+
+    await transport.send(message('A', 'B', 'Slow'));
+    await transport.send(message('A', 'B', 'Fast'));
+    expect(labels(inner, 'B')).toEqual(['Fast']);
+    expect(transport.getInFlightCount()).toBe(1);
+
+    await transport.settle();
+    expect(labels(inner, 'B')).toEqual(['Fast', 'Slow']);
+    expect(transport.getInjectedFaults()[0].delay).toBeGreaterThanOrEqual(5);
+    expect(transport.getInjectedFaults()[0].delay).toBeLessThanOrEqual(15);
+  });
+
+  it('should deliver delayed messages in order of arrival as virtual time passes', async () => {
+    const { inner, transport } = chaos(
+      { fault: 'delay', label: 'Late', delay: 20 },
+      { fault: 'delay', label: 'Soon', delay: 5 },
+    );
+
+    await transport.send(message('A', 'B', 'Late'));
+    await transport.send(message('A', 'B', 'Soon'));
+    await transport.advanceTime(10);
+    expect(labels(inner, 'B')).toEqual(['Soon']);
+
+    await transport.advanceTime(10);
+    expect(labels(inner, 'B')).toEqual(['Soon', 'Late']);
+    expect(transport.getInFlightCount()).toBe(0);
+  });
+
+  it('should inject the same faults for the same seed', async () => {
+    const run = async (seed: number) => {
+      const transport = new ChaosTransport(new InMemoryTransport(), {
+        seed,
+        faults: [{ fault: 'drop', probability: 0.5 }],
+      });
+      for (let i = 0; i < 40; i++) {
+        await transport.send({ id: `m${i}`, from: 'A', to: 'B', label: 'Tick', timestamp: 0 });
+      }
+      return transport.getInjectedFaults().map(f => f.message.id);
+    };
+
+    const first = await run(42);
+
+    expect(await run(42)).toEqual(first);
+    expect(await run(43)).not.toEqual(first);
+    expect(first.length).toBeGreaterThan(5);
+    expect(first.length).toBeLessThan(35);
+  });
+});
+
+// ============================================================================
+// Fault Plans
+// ============================================================================
+
+describe('Chaos Transport - Fault Plans', () => {
+  it('should accept a valid plan', () => {
+    const plan = { seed: 3, faults: [{ fault: 'delay', to: 'B', delay: [1, 2], probability: 0.2, count: 4 }] };
+
+    expect(parseFaultPlan(plan)).toEqual(plan);
+  });
+
+  it('should name what is wrong with an invalid plan', () => {
+    expect(() => parseFaultPlan([])).toThrow('"faults" array');
+    expect(() => parseFaultPlan({ seed: 1.5, faults: [] })).toThrow('seed must be an integer');
+    expect(() => parseFaultPlan({ faults: [{ fault: 'explode' }] })).toThrow('Fault 1: fault must be one of');
+    expect(() => parseFaultPlan({ faults: [{ fault: 'drop' }, { fault: 'drop', probability: 2 }] }))
+      .toThrow('Fault 2: probability must be between 0 and 1');
+    expect(() => parseFaultPlan({ faults: [{ fault: 'delay', delay: [5, 1] }] })).toThrow('delay must be');
+  });
+});
+
+// ============================================================================
+// Guarantees
+// ============================================================================
+
+describe('Chaos Simulator - Guarantees', () => {
+  it('should keep every guarantee without faults', async () => {
+    const report = await simulator(PIPELINE, { faults: [] }).run();
+
+    expect(report.completed).toBe(true);
+    expect(report.violations).toEqual([]);
+    expect(report.faults).toEqual([]);
+  });
+
+  it('should report lost messages and the roles left waiting for them', async () => {
+    const report = await simulator(PIPELINE, { seed: 9, faults: [{ fault: 'drop', label: 'Result' }] }).run();
+
+    expect(report.seed).toBe(9);
+    expect(report.deadlocked).toBe(true);
+    expect(guarantees(report.violations).sort()).toEqual(['delivery', 'progress', 'progress']);
+
+    const lost = report.violations.find(v => v.guarantee === 'delivery')!;
+    expect(lost.channel).toEqual({ from: 'B', to: 'C' });
+    expect(lost.label).toBe('Result');
+
+    const waiting = report.violations.filter(v => v.guarantee === 'progress').map(v => v.role).sort();
+    expect(waiting).toEqual(['A', 'C']);
+    expect(report.state.roles.get('C')!.currentState).toBe(
+      report.violations.find(v => v.role === 'C' && v.guarantee === 'progress')!.state
+    );
+  });
+
+  it('should report duplicates left unreceived as orphans', async () => {
+    const report = await simulator(PIPELINE, { faults: [{ fault: 'duplicate', label: 'Done' }] }).run();
+
+    expect(report.completed).toBe(true);
+    expect(report.violations).toMatchObject([
+      { guarantee: 'orphan-freedom', role: 'A', channel: { from: 'C', to: 'A' }, label: 'Done' },
+    ]);
+  });
+
+  it('should report corrupted messages as violations in strict mode, and as corruption otherwise', async () => {
+    const plan: FaultPlan = { faults: [{ fault: 'corrupt', label: 'Job' }] };
+
+    const strict = await simulator(PIPELINE, plan).run();
+    expect(strict.completed).toBe(false);
+    expect(strict.violations[0]).toMatchObject({ guarantee: 'conformance', role: 'B', label: 'Job~corrupted' });
+    expect(strict.state.error!.type).toBe('protocol-violation');
+
+    const lenient = await simulator(PIPELINE, plan, false).run();
+    expect(lenient.completed).toBe(true);
+    expect(lenient.violations).toMatchObject([
+      { guarantee: 'integrity', role: 'B', channel: { from: 'A', to: 'B' }, label: 'Job~corrupted' },
+    ]);
+    expect(lenient.trace.events[lenient.violations[0].eventIndex!].type).toBe('message-received');
+  });
+
+  it('should report messages received out of order', async () => {
+    const source = `
+      protocol Stream(role A, role B) {
+        A -> B: Header();
+        A -> B: Body();
+      }
+    `;
+    const report = await simulator(source, { faults: [{ fault: 'reorder', label: 'Header' }] }, false).run();
+
+    expect(report.completed).toBe(true);
+    expect(report.violations).toMatchObject([{ guarantee: 'fifo', role: 'B', label: 'Header' }]);
+  });
+
+  it('should replay a run with delays from its seed', async () => {
+    const plan: FaultPlan = { seed: 9, faults: [{ fault: 'delay', delay: [1, 50], probability: 0.7 }] };
+    const run = async () => {
+      const report = await simulator(PIPELINE, plan).run();
+      return {
+        faults: report.faults.map(f => [f.message.label, f.delay]),
+        events: report.trace.events.map(event => event.type),
+      };
+    };
+
+    const first = await run();
+    expect(first.faults.length).toBeGreaterThan(0);
+    expect(await run()).toEqual(first);
+  });
+
+  it('should wait for delayed messages rather than report a deadlock', async () => {
+    const report = await simulator(PIPELINE, { faults: [{ fault: 'delay', delay: 5 }] }).run();
+
+    expect(report.completed).toBe(true);
+    expect(report.faults).toHaveLength(3);
+    expect(report.violations).toEqual([]);
+  });
+});
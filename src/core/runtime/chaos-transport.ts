@@ -0,0 +1,328 @@
+/**
+ * Chaos Transport
+ *
+ * Decorator around any MessageTransport that injects network faults
+ * (drop, duplicate, reorder, delay, corrupt) according to a fault plan.
+ * TransportDelayConfig only models latency; this shows how executors
+ * behave when the network misbehaves the way real ones do.
+ *
+ * Faults are drawn from a seeded generator (mulberry32), and delays are
+ * measured on a VirtualClock rather than timers, so a plan with a seed
+ * injects the same faults on the same traffic: a failing run can be
+ * replayed with its seed.
+ *
+ * Usage:
+ * ```typescript
+ * const transport = new ChaosTransport(new InMemoryTransport(), {
+ *   seed: 7,
+ *   faults: [{ fault: 'drop', from: 'Buyer', to: 'Seller', probability: 0.5 }],
+ * });
+ * // ... run executors over transport
+ * console.log(transport.getInjectedFaults());
+ * ```
+ */
+
+import type {
+  Message,
+  MessageTransport,
+  MessageListener,
+  FaultPlan,
+  FaultRule,
+  FaultType,
+  InjectedFault,
+} from './types';
+import { VirtualClock } from '../simulation/virtual-clock';
+
+const FAULT_TYPES: FaultType[] = ['drop', 'duplicate', 'reorder', 'delay', 'corrupt'];
+
+const DEFAULT_DELAY = 10;
+
+/**
+ * Message transport that injects the faults of a plan into another one
+ */
+export class ChaosTransport implements MessageTransport {
+  private readonly inner: MessageTransport;
+  private readonly rules: FaultRule[];
+  private readonly random: () => number;
+
+  // Deliveries each rule has hit so far (by rule index)
+  private hits: number[];
+  private injected: InjectedFault[] = [];
+  // Messages handed to each role by receive(), in order
+  private received: Map<string, Message[]> = new Map();
+
+  // Reordered messages, held until the next message on their channel:
+  // "sender->receiver" → Message[]
+  private held: Map<string, Message[]> = new Map();
+  // Delayed messages still in transit, by time of arrival (then send order)
+  private delayed: Array<{ arrival: number; message: Message }> = [];
+  private readonly clock: VirtualClock;
+
+  /**
+   * @param clock - Time the delays are measured on (default: a clock of
+   *                this transport's own, moved on by advanceTime and settle)
+   */
+  constructor(inner: MessageTransport, plan: FaultPlan, clock: VirtualClock = new VirtualClock()) {
+    this.inner = inner;
+    this.clock = clock;
+    this.rules = plan.faults;
+    this.random = createSeededRandom(plan.seed ?? 0);
+    this.hits = plan.faults.map(() => 0);
+  }
+
+  /**
+   * Send a message, with the faults of the plan on each of its channels
+   */
+  async send(message: Message): Promise<void> {
+    const recipients = Array.isArray(message.to) ? message.to : [message.to];
+    const rules = recipients.map(recipient => this.pickRule(message, recipient));
+
+    // Untouched: one send, multicast kept whole
+    if (rules.every(rule => !rule)) {
+      await this.inner.send(message);
+      await Promise.all(recipients.map(recipient => this.release(message.from, recipient)));
+      return;
+    }
+
+    for (let i = 0; i < recipients.length; i++) {
+      await this.deliver({ ...message, to: recipients[i] }, recipients[i], rules[i]);
+    }
+  }
+
+  async receive(role: string): Promise<Message | undefined> {
+    const message = await this.inner.receive(role);
+    if (message) {
+      if (!this.received.has(role)) this.received.set(role, []);
+      this.received.get(role)!.push(message);
+    }
+    return message;
+  }
+
+  hasMessage(role: string): boolean {
+    return this.inner.hasMessage(role);
+  }
+
+  /**
+   * Messages arrived for the role (not those reordered or delayed, which
+   * are still in transit)
+   */
+  getPendingMessages(role: string): Message[] {
+    return this.inner.getPendingMessages(role);
+  }
+
+  onMessage(listener: MessageListener): void {
+    this.inner.onMessage(listener);
+  }
+
+  offMessage(listener: MessageListener): void {
+    this.inner.offMessage(listener);
+  }
+
+  /**
+   * Faults injected so far, in injection order
+   */
+  getInjectedFaults(): InjectedFault[] {
+    return [...this.injected];
+  }
+
+  /**
+   * Messages the role has received so far, in order (including those it
+   * then rejected)
+   */
+  getReceivedMessages(role: string): Message[] {
+    return [...(this.received.get(role) ?? [])];
+  }
+
+  /**
+   * Number of messages in transit (reordered or delayed)
+   */
+  getInFlightCount(): number {
+    let count = this.delayed.length;
+    this.held.forEach(messages => { count += messages.length; });
+    return count;
+  }
+
+  /**
+   * Let time pass: delayed messages whose delay is over arrive, in order
+   * of arrival
+   */
+  async advanceTime(ms: number): Promise<void> {
+    this.clock.advance(ms);
+    while (this.delayed.length > 0 && this.delayed[0].arrival <= this.clock.now()) {
+      await this.inner.send(this.delayed.shift()!.message);
+    }
+  }
+
+  /**
+   * Let every message in transit arrive: reordered ones now (nothing else
+   * came to overtake them), delayed ones in order of arrival, time moving
+   * on to the last of them
+   */
+  async settle(): Promise<void> {
+    for (const key of [...this.held.keys()]) {
+      const [from, to] = key.split('->');
+      await this.release(from, to);
+    }
+    if (this.delayed.length > 0) {
+      await this.advanceTime(this.delayed[this.delayed.length - 1].arrival - this.clock.now());
+    }
+  }
+
+  /**
+   * First rule that hits the delivery of the message to the recipient
+   * (drawing only for rules that match it)
+   */
+  private pickRule(message: Message, recipient: string): FaultRule | undefined {
+    for (let i = 0; i < this.rules.length; i++) {
+      const rule = this.rules[i];
+      if (rule.from !== undefined && rule.from !== message.from) continue;
+      if (rule.to !== undefined && rule.to !== recipient) continue;
+      if (rule.label !== undefined && rule.label !== message.label) continue;
+      if (rule.count !== undefined && this.hits[i] >= rule.count) continue;
+      if (this.random() >= (rule.probability ?? 1)) continue;
+
+      this.hits[i]++;
+      return rule;
+    }
+    return undefined;
+  }
+
+  private async deliver(message: Message, recipient: string, rule: FaultRule | undefined): Promise<void> {
+    if (!rule) {
+      await this.inner.send(message);
+      await this.release(message.from, recipient);
+      return;
+    }
+
+    const fault: InjectedFault = { fault: rule.fault, from: message.from, to: recipient, message };
+    this.injected.push(fault);
+
+    switch (rule.fault) {
+      case 'drop':
+        return;
+
+      case 'duplicate':
+        await this.inner.send(message);
+        await this.inner.send(message);
+        await this.release(message.from, recipient);
+        return;
+
+      case 'reorder': {
+        const key = channelKey(message.from, recipient);
+        if (!this.held.has(key)) this.held.set(key, []);
+        this.held.get(key)!.push(message);
+        return;
+      }
+
+      case 'delay': {
+        fault.delay = this.drawDelay(rule.delay ?? DEFAULT_DELAY);
+        const arrival = this.clock.now() + fault.delay;
+        const index = this.delayed.findIndex(delayed => delayed.arrival > arrival);
+        this.delayed.splice(index < 0 ? this.delayed.length : index, 0, { arrival, message });
+        return;
+      }
+
+      case 'corrupt':
+        await this.inner.send(corrupt(message));
+        await this.release(message.from, recipient);
+        return;
+    }
+  }
+
+  /**
+   * Send the messages held back on a channel (they have been overtaken)
+   */
+  private async release(from: string, to: string): Promise<void> {
+    const key = channelKey(from, to);
+    const messages = this.held.get(key);
+    if (!messages) return;
+
+    this.held.delete(key);
+    for (const message of messages) {
+      await this.inner.send(message);
+    }
+  }
+
+  private drawDelay(delay: number | [number, number]): number {
+    if (typeof delay === 'number') return delay;
+    const [min, max] = delay;
+    return min + this.random() * (max - min);
+  }
+}
+
+/**
+ * Check that a value (e.g. parsed JSON) is a fault plan
+ *
+ * @throws Error naming the first thing wrong with it
+ */
+export function parseFaultPlan(value: unknown): FaultPlan {
+  if (!isObject(value) || !Array.isArray(value.faults)) {
+    throw new Error('Fault plan must be an object with a "faults" array');
+  }
+  if (value.seed !== undefined && !Number.isInteger(value.seed)) {
+    throw new Error('Fault plan seed must be an integer');
+  }
+
+  value.faults.forEach((rule: unknown, i: number) => {
+    const where = `Fault ${i + 1}`;
+    if (!isObject(rule)) throw new Error(`${where} must be an object`);
+    if (!FAULT_TYPES.includes(rule.fault as FaultType)) {
+      throw new Error(`${where}: fault must be one of ${FAULT_TYPES.join(', ')}`);
+    }
+    for (const key of ['from', 'to', 'label']) {
+      if (rule[key] !== undefined && typeof rule[key] !== 'string') {
+        throw new Error(`${where}: ${key} must be a string`);
+      }
+    }
+    const probability = rule.probability;
+    if (probability !== undefined && (typeof probability !== 'number' || probability < 0 || probability > 1)) {
+      throw new Error(`${where}: probability must be between 0 and 1`);
+    }
+    const count = rule.count;
+    if (count !== undefined && (!Number.isInteger(count) || (count as number) < 0)) {
+      throw new Error(`${where}: count must be a non-negative integer`);
+    }
+    const delay = rule.delay;
+    if (delay !== undefined && !isDelay(delay)) {
+      throw new Error(`${where}: delay must be milliseconds or [min, max]`);
+    }
+  });
+
+  return value as unknown as FaultPlan;
+}
+
+/**
+ * Seeded pseudo-random generator (mulberry32): numbers in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function channelKey(from: string, to: string): string {
+  return `${from}->${to}`;
+}
+
+/**
+ * The message as a faulty link delivers it: same id, garbled label, and
+ * payload lost
+ */
+function corrupt(message: Message): Message {
+  return { ...message, label: `${message.label}~corrupted`, payload: undefined };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isDelay(value: unknown): boolean {
+  if (typeof value === 'number') return value >= 0;
+  return Array.isArray(value) && value.length === 2
+    && value.every(bound => typeof bound === 'number' && bound >= 0) && value[0] <= value[1];
+}
@@ -1,7 +1,8 @@
 /**
  * CFSM Executor Tests
  *
- * Tests single-role state machine execution.
+ * Tests single-role state machine execution, including the runtime
+ * checks of message refinements (where clauses).
  * Following TDD: write tests first, then implement.
  */
 
@@ -12,6 +13,7 @@ import { project } from '../projection/projector';
 import { Executor } from './executor';
 import { createInMemoryTransport } from './transport';
 import type { Message, ExecutionState, ExecutionObserver } from './types';
+import type { GlobalProtocolDeclaration } from '../ast/types';
 
 // ============================================================================
 // Basic Execution Tests
@@ -194,6 +196,28 @@ describe('CFSM Executor - Choice', () => {
     expect(result.success).toBe(true);
     expect(result.messagesConsumed![0].label).toBe('Option1');
   });
+
+  it('should follow the branch of the message received, not the first one', async () => {
+    const source = `
+      protocol Choice(role A, role B) {
+        choice at A {
+          A -> B: Option1();
+          B -> A: Reply1();
+        } or {
+          A -> B: Option2();
+          B -> A: Reply2();
+        }
+      }
+    `;
+    const cfg = buildCFG(parse(source).declarations[0] as GlobalProtocolDeclaration);
+    const transport = createInMemoryTransport();
+    await transport.send({ id: 'm1', from: 'A', to: 'B', label: 'Option2', timestamp: Date.now() });
+
+    const executor = new Executor({ role: 'B', cfsm: project(cfg, 'B'), transport });
+
+    expect((await executor.step()).messagesConsumed![0].label).toBe('Option2');
+    expect((await executor.step()).messagesSent![0].label).toBe('Reply2');
+  });
 });
 
 // ============================================================================
@@ -482,3 +506,158 @@ describe('CFSM Executor - Recursion', () => {
     expect(steps).toBeLessThan(10);
   });
 });
+
+// ============================================================================
+// Refinement Tests
+// ============================================================================
+
+describe('CFSM Executor - Refinements', () => {
+  const source = `
+    protocol Payment(role Buyer, role Seller) {
+      Seller -> Buyer: Quote(limit: Int);
+      Buyer -> Seller: Pay(amount: Int) where amount > 0 && amount <= limit;
+    }
+  `;
+  const cfg = () => buildCFG(parse(source).declarations[0] as GlobalProtocolDeclaration);
+
+  it('should keep the predicate on the send and receive transitions', () => {
+    for (const role of ['Buyer', 'Seller']) {
+      const pay = project(cfg(), role).transitions.find(t =>
+        t.action.type !== 'tau' && 'message' in t.action && t.action.message.label === 'Pay'
+      )!;
+      expect(pay.guard).toMatchObject({ type: 'BinaryExpression', operator: '&&' });
+    }
+  });
+
+  it('should check the predicate on send with the values the role knows', async () => {
+    const transport = createInMemoryTransport();
+    await transport.send({ id: 'm1', from: 'Seller', to: 'Buyer', label: 'Quote', payload: { limit: 100 }, timestamp: 0 });
+
+    const errors: string[] = [];
+    const buyer = new Executor({
+      role: 'Buyer',
+      cfsm: project(cfg(), 'Buyer'),
+      transport,
+      payloads: () => ({ amount: 150 }),
+      observers: [{ onError: event => errors.push(event.error.type) }],
+    });
+
+    expect((await buyer.step()).success).toBe(true);
+    expect(buyer.getValues()).toEqual({ limit: 100 });
+
+    const result = await buyer.step();
+    expect(result.success).toBe(false);
+    expect(result.error).toMatchObject({
+      type: 'predicate-violation',
+      message: 'Predicate of Pay does not hold: amount > 0 && amount <= limit (amount = 150, limit = 100)',
+      details: { reason: 'false', label: 'Pay', values: { amount: 150, limit: 100 } },
+    });
+    expect(errors).toEqual(['predicate-violation']);
+    expect(transport.hasMessage('Seller')).toBe(false);
+  });
+
+  it('should check the predicate on receive', async () => {
+    const transport = createInMemoryTransport();
+    const seller = new Executor({
+      role: 'Seller',
+      cfsm: project(cfg(), 'Seller'),
+      transport,
+      payloads: () => ({ limit: 100 }),
+    });
+
+    expect((await seller.step()).success).toBe(true);
+    await transport.send({ id: 'm2', from: 'Buyer', to: 'Seller', label: 'Pay', payload: { amount: 0 }, timestamp: 0 });
+
+    const result = await seller.step();
+    expect(result.error?.type).toBe('predicate-violation');
+    expect(result.error?.details.values).toEqual({ amount: 0, limit: 100 });
+  });
+
+  it('should run a protocol whose payloads satisfy its predicates', async () => {
+    const transport = createInMemoryTransport();
+    const seller = new Executor({ role: 'Seller', cfsm: project(cfg(), 'Seller'), transport, payloads: () => ({ limit: 100 }) });
+    const buyer = new Executor({
+      role: 'Buyer',
+      cfsm: project(cfg(), 'Buyer'),
+      transport,
+      payloads: (_action, values) => ({ amount: values.limit }),
+    });
+
+    await seller.step();
+    await buyer.step();
+    await buyer.step();
+    const result = await seller.step();
+
+    expect(result.success).toBe(true);
+    expect(result.messagesConsumed![0].payload).toEqual({ amount: 100 });
+    expect(seller.getValues()).toEqual({ limit: 100, amount: 100 });
+  });
+});
+
+// ============================================================================
+// Crash-Stop Failures
+// ============================================================================
+
+describe('CFSM Executor - Crash-Stop Failures', () => {
+  const source = `
+    protocol Offload(role Master, role Worker unreliable, role Client) {
+      on crash(Worker) {
+        Master -> Client: Failed();
+      }
+      Worker -> Master: Result(Int);
+      Master -> Client: Answer(Int);
+    }
+  `;
+  const cfg = () => buildCFG(parse(source).declarations[0] as GlobalProtocolDeclaration);
+
+  it('should wait for the message while the failure detector suspects no crash', async () => {
+    const executor = new Executor({
+      role: 'Master',
+      cfsm: project(cfg(), 'Master'),
+      transport: createInMemoryTransport(),
+      failureDetector: () => false,
+    });
+
+    const result = await executor.step();
+
+    expect(result.success).toBe(false);
+    expect(result.error?.type).toBe('message-not-ready');
+  });
+
+  it('should take the crash transition once the failure detector reports the crash', async () => {
+    const events: string[] = [];
+    const transport = createInMemoryTransport();
+    const executor = new Executor({
+      role: 'Master',
+      cfsm: project(cfg(), 'Master'),
+      transport,
+      failureDetector: role => role === 'Worker',
+      observers: [{ onCrashDetected: event => events.push(`${event.role} detected ${event.crashed}`) }],
+    });
+
+    expect((await executor.step()).success).toBe(true);
+    expect(events).toEqual(['Master detected Worker']);
+
+    const handler = await executor.step();
+    expect(handler.messagesSent![0].label).toBe('Failed');
+
+    // Out of the handler, through the merge with the guarded block
+    await executor.step();
+    expect(executor.getState().completed).toBe(true);
+  });
+
+  it('should stop a crashed role from taking any further step', async () => {
+    const executor = new Executor({
+      role: 'Worker',
+      cfsm: project(cfg(), 'Worker'),
+      transport: createInMemoryTransport(),
+    });
+
+    executor.crash();
+    const result = await executor.step();
+
+    expect(executor.getState().crashed).toBe(true);
+    expect(result.success).toBe(false);
+    expect(result.error?.type).toBe('crashed');
+  });
+});
@@ -15,7 +15,10 @@ import type {
   MessageSentEvent,
   MessageReceivedEvent,
   ErrorEvent,
+  CrashEvent,
+  CrashDetectedEvent,
   CallStackFrame,
+  FailureDetector,
 } from './types';
 import type {
   CFSM,
@@ -24,8 +27,12 @@ import type {
   SendAction,
   ReceiveAction,
   SubProtocolCallAction,
+  CrashAction,
 } from '../projection/types';
 import type { MessageTransport } from './types';
+import type { Message as AstMessage } from '../ast/types';
+import type { PayloadProvider, PayloadValues } from '../predicates/types';
+import { checkPredicate, payloadValues } from '../predicates/evaluator';
 
 /**
  * CFSM Executor
@@ -38,14 +45,24 @@ export class Executor {
   private transport: MessageTransport;
   private cfsmRegistry: Map<string, Map<string, CFSM>>;
   private observers: ExecutionObserver[];
+  private payloads?: PayloadProvider;
+  private failureDetector?: FailureDetector;
   private options: ExecutorConfig['options'];
 
+  // Payload values this role has sent and received, by variable name
+  // (the named arguments predicates refer to)
+  private values: PayloadValues = {};
+
   private currentState: string;
   private visitedStates: string[] = [];
   private blocked: boolean = false;
   private completed: boolean = false;
+  private crashed: boolean = false;
   private stepCount: number = 0;
 
+  // Message ID counter (IDs are deterministic, as replays need)
+  private messageIdCounter: number = 0;
+
   // Call stack for sub-protocol execution
   // Empty = executing root protocol
   // Non-empty = executing sub-protocol(s)
@@ -63,6 +80,8 @@ export class Executor {
     this.transport = config.transport;
     this.cfsmRegistry = config.cfsmRegistry || new Map();
     this.observers = config.observers || [];
+    this.payloads = config.payloads;
+    this.failureDetector = config.failureDetector;
     this.options = config.options || {};
 
     // Initialize at initial state of root CFSM
@@ -80,12 +99,33 @@ export class Executor {
       currentState: this.currentState,
       visitedStates: [...this.visitedStates],
       pendingMessages: this.transport.getPendingMessages(this.role),
-      blocked: this.blocked,
+      // Not blocked any more once the role it waits for has crashed
+      blocked: this.blocked && !this.findCrashTransition(),
       completed: this.completed,
+      ...(this.crashed && { crashed: true }),
       callStack: [...this.callStack],  // Return copy of call stack
     };
   }
 
+  /**
+   * Crash this role (crash-stop failure): it takes no further step.
+   * Roles whose failure detector reports the crash take their crash
+   * transitions instead of waiting for it.
+   */
+  crash(): void {
+    if (this.crashed || this.completed) return;
+    this.crashed = true;
+    this.blocked = false;
+    this.notifyCrash();
+  }
+
+  /**
+   * Payload values known to this role, by variable name
+   */
+  getValues(): PayloadValues {
+    return { ...this.values };
+  }
+
   /**
    * Get the current CFSM being executed
    */
@@ -115,6 +155,16 @@ export class Executor {
       return { success: false, error };
     }
 
+    // A crashed role takes no further step
+    if (this.crashed) {
+      const error: ExecutionError = {
+        type: 'crashed',
+        message: 'Role has crashed',
+        state: this.currentState,
+      };
+      return { success: false, error };
+    }
+
     // Check max steps limit
     if (this.options?.maxSteps && this.stepCount >= this.options.maxSteps) {
       const error: ExecutionError = {
@@ -160,9 +210,11 @@ export class Executor {
       }
 
       // Get outgoing transitions from current CFSM
-      const transitions = currentCFSM.transitions.filter(t => t.from === this.currentState);
+      // (crash transitions are taken only once their role has crashed, below)
+      const allTransitions = currentCFSM.transitions.filter(t => t.from === this.currentState);
+      const transitions = allTransitions.filter(t => t.action.type !== 'crash');
 
-      if (transitions.length === 0) {
+      if (allTransitions.length === 0) {
         const error: ExecutionError = {
           type: 'no-transition',
           message: `No transitions from state ${this.currentState}`,
@@ -174,10 +226,10 @@ export class Executor {
       // Check first transition's action to determine what to do
       // Note: For non-deterministic states (choice), we need to handle multiple transitions
       const firstTransition = transitions[0];
-      const action = firstTransition.action;
+      const action = firstTransition?.action;
 
       // No action = epsilon/tau transition - auto-advance
-      if (!action) {
+      if (firstTransition && !action) {
         this.transitionTo(firstTransition.to);
         // Continue loop to execute next state
         continue;
@@ -194,6 +246,26 @@ export class Executor {
         };
       }
 
+      // Crash-stop failures: waiting for a role that has crashed, with
+      // nothing left from it to receive, take the crash transition
+      const crashTransition = this.findCrashTransition();
+      if (crashTransition) {
+        this.executeCrashDetection(crashTransition);
+        this.blocked = false;
+        hadAction = true;
+        continue;
+      }
+
+      if (!firstTransition) {
+        this.blocked = true;
+        const error: ExecutionError = {
+          type: 'message-not-ready',
+          message: 'Waiting for a crash',
+          state: this.currentState,
+        };
+        return { success: false, error };
+      }
+
       // Execute based on action type (actions live on transitions, not states!)
       if (action.type === 'send') {
         const result = await this.executeSend(firstTransition);
@@ -208,7 +280,7 @@ export class Executor {
         // After action, continue loop to auto-advance through epsilon transitions
         continue;
       } else if (action.type === 'receive') {
-        const result = await this.executeReceive(firstTransition);
+        const result = await this.executeReceive(firstTransition, transitions);
         if (!result.success) {
           return result;
         }
@@ -256,17 +328,28 @@ export class Executor {
     // Type narrowing - action is now SendAction
     const sendAction = action as SendAction;
 
+    // Payload value, which must satisfy the message's refinement
+    const payload = this.payloads?.(sendAction, this.values);
+    const violation = this.checkGuard(transition, sendAction.message, payload);
+    if (violation) {
+      return { success: false, error: violation };
+    }
+
     // Create message
     const message: Message = {
-      id: `msg_${Date.now()}_${Math.random()}`,
+      id: `${this.role}-msg-${this.messageIdCounter++}`,
       from: this.role,
       to: sendAction.to,
       label: sendAction.label,
+      ...(payload !== undefined && { payload }),
       timestamp: Date.now(),
     };
 
     // Send through transport
     await this.transport.send(message);
+    if (payload !== undefined) {
+      Object.assign(this.values, payloadValues(sendAction.message, payload));
+    }
 
     // Notify observers
     this.notifyMessageSent(message);
@@ -284,9 +367,14 @@ export class Executor {
 
   /**
    * Execute receive action
+   * (of the alternative receiving the message, in an external choice)
    */
-  private async executeReceive(transition: CFSMTransition): Promise<ExecutionResult> {
-    const action = transition.action;
+  private async executeReceive(
+    expected: CFSMTransition,
+    alternatives: CFSMTransition[] = [expected]
+  ): Promise<ExecutionResult> {
+    let transition = expected;
+    let action = transition.action;
     if (!action || action.type !== 'receive') {
       const error: ExecutionError = {
         type: 'no-transition',
@@ -297,7 +385,7 @@ export class Executor {
     }
 
     // Type narrowing - action is now ReceiveAction
-    const receiveAction = action as ReceiveAction;
+    let receiveAction = action as ReceiveAction;
 
     // Check if message available
     if (!this.transport.hasMessage(this.role)) {
@@ -322,6 +410,16 @@ export class Executor {
       return { success: false, error };
     }
 
+    // External choice: take the branch receiving this message
+    const matching = alternatives.find(
+      t => t.action.type === 'receive' && t.action.from === message.from && t.action.label === message.label
+    );
+    if (matching) {
+      transition = matching;
+      action = matching.action;
+      receiveAction = action as ReceiveAction;
+    }
+
     // Verify message matches expected
     if (this.options?.strictMode && message.label !== receiveAction.label) {
       const error: ExecutionError = {
@@ -334,6 +432,18 @@ export class Executor {
       return { success: false, error };
     }
 
+    // Check the refinement of the expected message (a message with another
+    // label is tolerated outside strict mode, without check)
+    if (message.label === receiveAction.label) {
+      const violation = this.checkGuard(transition, receiveAction.message, message.payload);
+      if (violation) {
+        return { success: false, error: violation };
+      }
+      if (message.payload !== undefined) {
+        Object.assign(this.values, payloadValues(receiveAction.message, message.payload));
+      }
+    }
+
     this.blocked = false;
 
     // Notify observers
@@ -350,6 +460,34 @@ export class Executor {
     };
   }
 
+  /**
+   * Check the refinement (guard) of a send or receive against its payload
+   * value and the values this role knows; messages without a payload
+   * value are not checked
+   */
+  private checkGuard(
+    transition: CFSMTransition,
+    message: AstMessage,
+    payload: unknown
+  ): ExecutionError | undefined {
+    if (!transition.guard || payload === undefined) return undefined;
+
+    const violation = checkPredicate(transition.guard, message.label, {
+      ...this.values,
+      ...payloadValues(message, payload),
+    });
+    if (!violation) return undefined;
+
+    const error: ExecutionError = {
+      type: 'predicate-violation',
+      message: violation.message,
+      state: this.currentState,
+      details: violation,
+    };
+    this.notifyError(error);
+    return error;
+  }
+
   /**
    * Execute choice (internal or external)
    */
@@ -366,6 +504,32 @@ export class Executor {
     };
   }
 
+  /**
+   * Crash transition this role can take now: from the current state, for
+   * a role the failure detector reports crashed, and with no message left
+   * from that role (what it sent before crashing is received first)
+   */
+  private findCrashTransition(): CFSMTransition | undefined {
+    if (!this.failureDetector || this.crashed || this.completed) return undefined;
+
+    const pending = this.transport.getPendingMessages(this.role);
+    return this.currentCFSM.transitions.find(t =>
+      t.from === this.currentState &&
+      t.action.type === 'crash' &&
+      this.failureDetector!(t.action.role) &&
+      !pending.some(m => m.from === (t.action as CrashAction).role)
+    );
+  }
+
+  /**
+   * Execute crash detection: move on to the crash handler
+   */
+  private executeCrashDetection(transition: CFSMTransition): void {
+    const crashed = (transition.action as CrashAction).role;
+    this.notifyCrashDetected(crashed, this.currentState, transition.to);
+    this.transitionTo(transition.to);
+  }
+
   /**
    * Execute fork (enter parallel)
    */
@@ -573,6 +737,40 @@ export class Executor {
     });
   }
 
+  /**
+   * Notify observers that this role crashed
+   */
+  private notifyCrash(): void {
+    const event: CrashEvent = {
+      type: 'crash',
+      timestamp: Date.now(),
+      role: this.role,
+      state: this.currentState,
+    };
+
+    this.observers.forEach(observer => {
+      observer.onCrash?.(event);
+    });
+  }
+
+  /**
+   * Notify observers that this role detected the crash of another
+   */
+  private notifyCrashDetected(crashed: string, fromState: string, toState: string): void {
+    const event: CrashDetectedEvent = {
+      type: 'crash-detected',
+      timestamp: Date.now(),
+      role: this.role,
+      crashed,
+      fromState,
+      toState,
+    };
+
+    this.observers.forEach(observer => {
+      observer.onCrashDetected?.(event);
+    });
+  }
+
   /**
    * Reset to initial state
    */
@@ -581,9 +779,12 @@ export class Executor {
     this.currentState = this.cfsm.initialState;
     this.visitedStates = [this.currentState];
     this.callStack = [];  // Clear call stack
+    this.values = {};
     this.blocked = false;
     this.completed = false;
+    this.crashed = false;
     this.stepCount = 0;
+    this.messageIdCounter = 0;
   }
 
   /**
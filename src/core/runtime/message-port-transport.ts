@@ -0,0 +1,170 @@
+/**
+ * MessagePort Transport
+ *
+ * Message transport for roles running in separate threads (worker_threads):
+ * one MessageChannel per pair of roles, so each pair has its own FIFO
+ * queue as in the formal semantics (Honda, Yoshida, Carbone 2008), with no
+ * shared memory between the roles.
+ *
+ * Each transport keeps a Lamport clock (Lamport 1978): sending ticks it
+ * and stamps the message, receiving moves it past the stamp. Events
+ * stamped with the clocks of their roles sort into an order consistent
+ * with causality (see ThreadedSimulator).
+ *
+ * Usage:
+ * ```typescript
+ * const channels = createMessageChannels(['Buyer', 'Seller']);
+ * const buyer = new MessagePortTransport('Buyer', channels.get('Buyer')!);
+ * // ... transfer channels.get('Seller') to the Seller's worker
+ * ```
+ *
+ * Node only (uses node:worker_threads).
+ */
+
+import { MessageChannel, type MessagePort } from 'node:worker_threads';
+import type { Message, MessageTransport, MessageListener } from './types';
+
+/**
+ * A message on a channel, with the sender's clock when it was sent
+ */
+interface Envelope {
+  message: Message;
+  clock: number;
+}
+
+/**
+ * Message transport of one role, over a MessagePort to each other role
+ */
+export class MessagePortTransport implements MessageTransport {
+  private readonly role: string;
+  private readonly ports: Map<string, MessagePort>;
+  private readonly beforeSend?: (deliveries: number) => void;
+
+  // Per-sender FIFO queues of messages arrived for the role
+  private queues: Map<string, Envelope[]> = new Map();
+  private listeners: Set<MessageListener> = new Set();
+  private clock = 0;
+
+  /**
+   * @param role - Role whose messages this transport sends and receives
+   * @param ports - Port to each other role, by role name
+   * @param beforeSend - Called with the number of deliveries of each
+   *                     message, before any of them can arrive
+   */
+  constructor(role: string, ports: Map<string, MessagePort>, beforeSend?: (deliveries: number) => void) {
+    this.role = role;
+    this.ports = ports;
+    this.beforeSend = beforeSend;
+
+    for (const [peer, port] of ports) {
+      this.queues.set(peer, []);
+      port.on('message', (envelope: Envelope) => {
+        this.queues.get(peer)!.push(envelope);
+        this.notify(envelope.message);
+      });
+    }
+  }
+
+  /**
+   * Send a message of this role to each of its recipients
+   */
+  async send(message: Message): Promise<void> {
+    if (message.from !== this.role) {
+      throw new Error(`Transport of ${this.role} cannot send a message from ${message.from}`);
+    }
+
+    const recipients = Array.isArray(message.to) ? message.to : [message.to];
+    const ports = recipients.map(recipient => {
+      const port = this.ports.get(recipient);
+      if (!port) throw new Error(`No channel from ${this.role} to ${recipient}`);
+      return port;
+    });
+
+    const envelope: Envelope = { message, clock: this.tick() };
+    this.beforeSend?.(ports.length);
+    ports.forEach(port => port.postMessage(envelope));
+    this.notify(message);
+  }
+
+  /**
+   * Receive next message for the role (FIFO per sender)
+   * Non-blocking: returns undefined if no message has arrived
+   */
+  async receive(role: string): Promise<Message | undefined> {
+    if (role !== this.role) return undefined;
+
+    for (const queue of this.queues.values()) {
+      const envelope = queue.shift();
+      if (envelope) {
+        this.clock = Math.max(this.clock, envelope.clock) + 1;
+        return envelope.message;
+      }
+    }
+    return undefined;
+  }
+
+  hasMessage(role: string): boolean {
+    return role === this.role && [...this.queues.values()].some(queue => queue.length > 0);
+  }
+
+  getPendingMessages(role: string): Message[] {
+    if (role !== this.role) return [];
+    return [...this.queues.values()].flatMap(queue => queue.map(envelope => envelope.message));
+  }
+
+  /**
+   * Subscribe to message events: messages this role sends, and messages
+   * arriving for it (before they are received)
+   */
+  onMessage(listener: MessageListener): void {
+    this.listeners.add(listener);
+  }
+
+  offMessage(listener: MessageListener): void {
+    this.listeners.delete(listener);
+  }
+
+  /**
+   * Lamport clock of the role: after its last send or receive
+   */
+  getClock(): number {
+    return this.clock;
+  }
+
+  /**
+   * Advance the clock for a local event; returns its time
+   */
+  tick(): number {
+    return ++this.clock;
+  }
+
+  /**
+   * Close every port (pending messages are dropped)
+   */
+  close(): void {
+    this.ports.forEach(port => port.close());
+  }
+
+  private notify(message: Message): void {
+    this.listeners.forEach(listener => listener(message));
+  }
+}
+
+/**
+ * One MessageChannel per pair of roles
+ *
+ * @returns For each role, its port to each other role
+ */
+export function createMessageChannels(roles: string[]): Map<string, Map<string, MessagePort>> {
+  const ports = new Map(roles.map(role => [role, new Map<string, MessagePort>()]));
+
+  roles.forEach((role, i) => {
+    for (const peer of roles.slice(i + 1)) {
+      const { port1, port2 } = new MessageChannel();
+      ports.get(role)!.set(peer, port1);
+      ports.get(peer)!.set(role, port2);
+    }
+  });
+
+  return ports;
+}
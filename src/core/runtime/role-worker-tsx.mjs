@@ -0,0 +1,6 @@
+// Worker entry of the ThreadedSimulator run from sources: role-worker.ts
+// through the tsx loader (built output starts role-worker directly)
+import { register } from 'tsx/esm/api';
+
+register();
+await import('./role-worker.ts');
@@ -0,0 +1,150 @@
+/**
+ * Role Worker
+ *
+ * Worker thread entry of the ThreadedSimulator: runs the Executor of one
+ * role over a MessagePortTransport, stepping as fast as it can and waiting
+ * for a message whenever it is blocked. The hooks of the Executor come
+ * from the role's implementation module, if it has one.
+ *
+ * Quiescence is detected with one counter shared by all workers: the
+ * roles that can still step plus the messages sent and not arrived yet.
+ * A role leaves the count when it blocks, completes or fails, and a
+ * message when it arrives (a blocked role it wakes takes its place). The
+ * counter cannot rise again once it is 0, so the worker that takes it to
+ * 0 tells the simulator the run is over.
+ */
+
+import { parentPort, workerData, type MessagePort } from 'node:worker_threads';
+import { Executor } from './executor';
+import { MessagePortTransport } from './message-port-transport';
+import type { CFSM } from '../projection/types';
+import type { ExecutionError, ExecutionObserver, ExecutionState, RoleImplementation, TraceEvent } from './types';
+
+/**
+ * Data a role worker starts with
+ */
+export interface RoleWorkerData {
+  role: string;
+  cfsm: CFSM;
+  cfsmRegistry?: Map<string, Map<string, CFSM>>;
+  /** URL of the role's implementation module */
+  implementation?: string;
+  /** Port to each other role (transferred to the worker) */
+  ports: Map<string, MessagePort>;
+  /** Int32 activity counter shared by all workers */
+  activity: SharedArrayBuffer;
+  options: { maxSteps: number; strictMode?: boolean };
+}
+
+/**
+ * A trace event and the Lamport time of its role when it happened
+ */
+export interface ClockedEvent {
+  clock: number;
+  event: TraceEvent;
+}
+
+/**
+ * Messages from a worker to the simulator
+ */
+export type RoleWorkerMessage =
+  | { type: 'ready' }
+  | { type: 'idle' }
+  | { type: 'report'; state: ExecutionState; events: ClockedEvent[]; error?: ExecutionError };
+
+/**
+ * Messages from the simulator to a worker
+ */
+export type RoleWorkerRequest = { type: 'report' };
+
+// ============================================================================
+// Worker
+// ============================================================================
+
+async function runRoleWorker(data: RoleWorkerData, port: MessagePort): Promise<void> {
+  const { role } = data;
+  const implementation: RoleImplementation = data.implementation ? await import(data.implementation) : {};
+  const activity = new Int32Array(data.activity);
+
+  // Sent: in flight until it arrives (counted before the receiver can see
+  // it, or a woken receiver could take the counter to 0 too early)
+  const transport = new MessagePortTransport(role, data.ports, deliveries => Atomics.add(activity, 0, deliveries));
+
+  const events: ClockedEvent[] = [];
+  const recorder: ExecutionObserver = {
+    onStateChange: event => events.push({ clock: transport.tick(), event }),
+    onMessageSent: event => events.push({ clock: transport.getClock(), event }),
+    onMessageReceived: event => events.push({ clock: transport.getClock(), event }),
+    onError: event => events.push({ clock: transport.tick(), event }),
+  };
+
+  const executor = new Executor({
+    role,
+    cfsm: data.cfsm,
+    transport,
+    cfsmRegistry: data.cfsmRegistry,
+    payloads: implementation.payloads,
+    observers: [recorder],
+    options: data.options,
+  });
+
+  let error: ExecutionError | undefined;
+  let blocked = false;
+  let wake: (() => void) | undefined;
+
+  const deactivate = () => {
+    if (Atomics.sub(activity, 0, 1) === 1) {
+      port.postMessage({ type: 'idle' } satisfies RoleWorkerMessage);
+    }
+  };
+
+  transport.onMessage(message => {
+    if (message.from === role) return;
+
+    if (blocked) {
+      // Arrived and wakes this role: the role takes the message's place
+      blocked = false;
+      wake?.();
+    } else {
+      deactivate();
+    }
+  });
+
+  port.on('message', (request: RoleWorkerRequest) => {
+    if (request.type === 'report') {
+      port.postMessage({ type: 'report', state: executor.getState(), events, error } satisfies RoleWorkerMessage);
+    }
+  });
+
+  const run = async () => {
+    while (!executor.getState().completed) {
+      const result = await executor.step();
+
+      if (!result.success) {
+        if (result.error?.type !== 'message-not-ready') {
+          error = result.error;
+          break;
+        }
+        // A message may have arrived while stepping
+        if (transport.hasMessage(role)) continue;
+
+        blocked = true;
+        deactivate();
+        await new Promise<void>(resolve => { wake = resolve; });
+        continue;
+      }
+
+      // Let arrivals and report requests in between steps
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    deactivate();
+  };
+
+  port.postMessage({ type: 'ready' } satisfies RoleWorkerMessage);
+  void run();
+}
+
+// A module that fails to load fails the worker
+if (parentPort && workerData) {
+  void runRoleWorker(workerData as RoleWorkerData, parentPort);
+}
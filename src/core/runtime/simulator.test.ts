@@ -11,6 +11,7 @@ import { buildCFG } from '../cfg/builder';
 import { projectAll } from '../projection/projector';
 import { Simulator } from './simulator';
 import type { ExecutionObserver } from './types';
+import type { GlobalProtocolDeclaration } from '../ast/types';
 
 // ============================================================================
 // Basic Simulation Tests
@@ -504,3 +505,56 @@ describe('Protocol Simulator - Message Injection', () => {
     expect(bState.visitedStates.length).toBeGreaterThan(1);
   });
 });
+
+// ============================================================================
+// Crash-Stop Failures
+// ============================================================================
+
+describe('Protocol Simulator - Crash-Stop Failures', () => {
+  const source = `
+    protocol Offload(role Master, role Worker unreliable, role Client) {
+      Client -> Master: Job(Int);
+      on crash(Worker) {
+        Master -> Client: Failed();
+      }
+      Master -> Worker: Task(Int);
+      Worker -> Master: Result(Int);
+      Master -> Client: Answer(Int);
+    }
+  `;
+  const roles = () => projectAll(buildCFG(parse(source).declarations[0] as GlobalProtocolDeclaration)).cfsms;
+
+  const received = (simulator: Simulator, role: string) =>
+    simulator.getTrace().events.flatMap(e => (e.type === 'message-received' && e.role === role ? [e.message.label] : []));
+
+  it('should run the guarded block when no role crashes', async () => {
+    const simulator = new Simulator({ roles: roles(), options: { recordTrace: true } });
+
+    const result = await simulator.run();
+
+    expect(result.completed).toBe(true);
+    expect(received(simulator, 'Client')).toEqual(['Answer']);
+    expect(simulator.getTrace().events.some(e => e.type === 'crash-detected')).toBe(false);
+  });
+
+  it('should let the detector run the handler once the role has crashed', async () => {
+    const simulator = new Simulator({ roles: roles(), options: { recordTrace: true, strictMode: true } });
+
+    simulator.crash('Worker');
+    const result = await simulator.run();
+
+    expect(result.completed).toBe(true);
+    expect(simulator.getState().roles.get('Worker')!.crashed).toBe(true);
+    expect(received(simulator, 'Client')).toEqual(['Failed']);
+
+    const events = simulator.getTrace().events;
+    expect(events.find(e => e.type === 'crash')).toMatchObject({ role: 'Worker' });
+    expect(events.find(e => e.type === 'crash-detected')).toMatchObject({ role: 'Master', crashed: 'Worker' });
+  });
+
+  it('should reject crashing an unknown role', () => {
+    const simulator = new Simulator({ roles: roles() });
+
+    expect(() => simulator.crash('Nobody')).toThrow('Unknown role: Nobody');
+  });
+});
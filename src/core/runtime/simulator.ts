@@ -3,6 +3,10 @@
  *
  * Coordinates execution of multiple roles in a protocol.
  * Clean separation: simulator orchestrates executors, doesn't know about UI.
+ *
+ * Record and replay (simulation/replay.ts): the session records which role
+ * runs each step, the payloads sent and the crashes and messages from
+ * outside; replaying, the log's schedule replaces round-robin.
  */
 
 import type {
@@ -18,10 +22,12 @@ import type {
 import { Executor } from './executor';
 import { createInMemoryTransport } from './transport';
 import type { MessageTransport } from './types';
+import type { ReplaySession } from '../simulation/replay';
 
 /**
  * Multi-role protocol simulator
  * Orchestrates multiple CFSM executors
+ * (on one event loop; ThreadedSimulator runs each role in its own thread)
  */
 export class Simulator {
   private executors: Map<string, Executor> = new Map();
@@ -39,9 +45,14 @@ export class Simulator {
   // Pause/resume: run-specific closure (null when no run() active)
   private currentRunPause: (() => void) | null = null;
 
+  // Record and replay
+  private replay?: ReplaySession;
+
   constructor(config: SimulatorConfig) {
     this.transport = config.transport || createInMemoryTransport();
     this.options = config.options || {};
+    this.replay = config.replay;
+    this.replay?.attach('runtime', config.roles, { strictMode: this.options.strictMode });
 
     // Create executor for each role
     for (const [role, cfsm] of config.roles.entries()) {
@@ -49,6 +60,10 @@ export class Simulator {
         role,
         cfsm,
         transport: this.transport,
+        payloads: this.replay
+          ? this.replay.payloads(role, config.payloads?.get(role))
+          : config.payloads?.get(role),
+        failureDetector: crashed => this.executors.get(crashed)?.getState().crashed === true,
         options: {
           maxSteps: this.options.maxSteps,
           strictMode: this.options.strictMode,
@@ -83,17 +98,17 @@ export class Simulator {
       roles.set(role, executor.getState());
     }
 
-    // Check if all roles completed
+    // Check if all roles completed (crashed roles never will: they are done)
     const completed = Array.from(this.executors.values()).every(
-      e => e.getState().completed
+      e => e.getState().completed || e.getState().crashed
     );
 
     // Check for deadlock (all roles blocked or completed, AND no pending messages for blocked roles)
     const allBlockedOrCompleted = Array.from(this.executors.values()).every(
-      e => e.getState().blocked || e.getState().completed
+      e => e.getState().blocked || e.getState().completed || e.getState().crashed
     );
     const someNotCompleted = Array.from(this.executors.values()).some(
-      e => !e.getState().completed
+      e => !e.getState().completed && !e.getState().crashed
     );
     // Check if any blocked role has messages available
     const blockedRoleHasMessages = Array.from(this.executors.values()).some(
@@ -122,11 +137,31 @@ export class Simulator {
    * - If no role: Use round-robin fair scheduling to select next ready role
    *
    * Step counting: One step() call = one CFSM transition = increment by 1
+   *
+   * Replaying, the role is the one the log has (the role given is ignored).
    */
   async step(role?: string): Promise<SimulationStepResult> {
     const updates = new Map();
     let selectedRole: string | null = null;
 
+    await this.replayInputs();
+    if (this.replay?.isReplaying()) {
+      const decision = this.replay.next('schedule');
+      if (!decision) {
+        return {
+          success: false,
+          updates,
+          state: this.getState(),
+        };
+      }
+      const state = this.executors.get(decision.role)?.getState().currentState;
+      if (decision.state !== undefined && state !== decision.state) {
+        this.replay.reject(`${decision.role} is scheduled at ${decision.state}, but it is at ${state}`);
+      }
+      role = decision.role;
+      this.nextRoleIndex = (this.roleNames.indexOf(role) + 1) % this.roleNames.length;
+    }
+
     if (role) {
       // Step specific role
       const executor = this.executors.get(role);
@@ -138,6 +173,7 @@ export class Simulator {
         };
       }
 
+      this.recordSchedule(role, executor);
       const result = await executor.step();
       updates.set(role, result);
       selectedRole = role;
@@ -156,12 +192,13 @@ export class Simulator {
 
         if (!executor) continue;
 
-        // Skip completed roles
-        if (executor.getState().completed) {
+        // Skip completed and crashed roles
+        if (executor.getState().completed || executor.getState().crashed) {
           continue;
         }
 
         // Try to step this role
+        this.recordSchedule(candidateRole, executor);
         const result = await executor.step();
         updates.set(candidateRole, result);
         selectedRole = candidateRole;
@@ -216,6 +253,7 @@ export class Simulator {
 
     try {
       while (this.stepCount < maxSteps && !pauseRequested) {
+        await this.replayInputs();
         const state = this.getState();
 
         // Check if completed
@@ -335,15 +373,59 @@ export class Simulator {
 
     // Clear any active pause handler
     this.currentRunPause = null;
+
+    this.replay?.restart();
+  }
+
+  /**
+   * Crash a role (crash-stop failure): it takes no further step, and the
+   * roles waiting for it detect the crash and run their crash handlers
+   */
+  crash(role: string): void {
+    const executor = this.executors.get(role);
+    if (!executor) {
+      throw new Error(`Unknown role: ${role}`);
+    }
+    this.replay?.record({ kind: 'crash', role });
+    executor.crash();
   }
 
   /**
    * Manually inject a message (for testing/debugging)
    */
   async injectMessage(message: Message): Promise<void> {
+    this.replay?.record({ kind: 'message', message });
     await this.transport.send(message);
   }
 
+  /**
+   * Record the role scheduled, unless replaying (the log has it already)
+   */
+  private recordSchedule(role: string, executor: Executor): void {
+    if (this.replay && !this.replay.isReplaying()) {
+      this.replay.record({ kind: 'schedule', role, state: executor.getState().currentState });
+    }
+  }
+
+  /**
+   * Apply the crashes and messages the log has before its next step
+   */
+  private async replayInputs(): Promise<void> {
+    if (!this.replay?.isReplaying()) return;
+
+    let input = this.replay.nextInput();
+    while (input) {
+      if (input.kind === 'crash') {
+        this.crash(input.role);
+      } else if (input.kind === 'message') {
+        await this.injectMessage(input.message as Message);
+      } else {
+        this.replay.reject('the runtime simulator has no virtual time to replay');
+      }
+      input = this.replay.nextInput();
+    }
+  }
+
   /**
    * Add an observer to receive execution events
    */
@@ -395,6 +477,12 @@ export class Simulator {
       onError: (event) => {
         this.trace.events.push(event);
       },
+      onCrash: (event) => {
+        this.trace.events.push(event);
+      },
+      onCrashDetected: (event) => {
+        this.trace.events.push(event);
+      },
     };
 
     // Register the observer so it gets propagated to all executors
@@ -0,0 +1,207 @@
+// @vitest-environment node
+/**
+ * Threaded Simulator Tests
+ *
+ * Tests parallel execution with one worker thread per role:
+ * - MessagePort transport: per-pair FIFO channels, Lamport clocks
+ * - Runs to completion, with the trace merged in causal order
+ * - Deadlocks and protocol violations detected across threads
+ * - Role implementations loaded in the workers, their payloads checked
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parse } from '../parser/parser';
+import { buildCFG } from '../cfg/builder';
+import { project, projectAll } from '../projection/projector';
+import { ThreadedSimulator } from './threaded-simulator';
+import { MessagePortTransport, createMessageChannels } from './message-port-transport';
+import type { Message, TraceEvent } from './types';
+import type { GlobalProtocolDeclaration } from '../ast/types';
+import type { CFSM } from '../projection/types';
+
+function protocolOf(source: string): GlobalProtocolDeclaration {
+  return parse(source).declarations[0] as GlobalProtocolDeclaration;
+}
+
+function roleOf(source: string, role: string): CFSM {
+  return project(buildCFG(protocolOf(source)), role);
+}
+
+function message(from: string, to: string | string[], label: string): Message {
+  return { id: `${from}-${label}`, from, to, label, timestamp: Date.now() };
+}
+
+function describeEvent(event: TraceEvent): string {
+  switch (event.type) {
+    case 'message-sent': return `${event.message.from}!${event.message.label}`;
+    case 'message-received': return `${event.role}?${event.message.label}`;
+    case 'state-change': return `${event.role}:${event.fromState}->${event.toState}`;
+    case 'error': return `${event.role}:error`;
+    case 'crash': return `${event.role}:crash`;
+    case 'crash-detected': return `${event.role}:crash(${event.crashed})`;
+  }
+}
+
+// ============================================================================
+// MessagePort Transport
+// ============================================================================
+
+describe('MessagePort Transport', () => {
+  function transports(roles: string[]): Map<string, MessagePortTransport> {
+    const channels = createMessageChannels(roles);
+    return new Map(roles.map(role => [role, new MessagePortTransport(role, channels.get(role)!)]));
+  }
+
+  async function arrived(transport: MessagePortTransport, role: string, count: number): Promise<void> {
+    while (transport.getPendingMessages(role).length < count) {
+      await new Promise(resolve => setTimeout(resolve, 1));
+    }
+  }
+
+  it('should deliver in order on each channel, and to every receiver of a multicast', async () => {
+    const t = transports(['A', 'B', 'C']);
+
+    await t.get('A')!.send(message('A', 'C', 'First'));
+    await t.get('A')!.send(message('A', ['B', 'C'], 'Both'));
+    await arrived(t.get('C')!, 'C', 2);
+    await arrived(t.get('B')!, 'B', 1);
+
+    expect((await t.get('C')!.receive('C'))!.label).toBe('First');
+    expect((await t.get('C')!.receive('C'))!.label).toBe('Both');
+    expect((await t.get('B')!.receive('B'))!.label).toBe('Both');
+    expect(t.get('B')!.hasMessage('B')).toBe(false);
+
+    t.forEach(transport => transport.close());
+  });
+
+  it('should move the receiver clock past the sender clock', async () => {
+    const t = transports(['A', 'B']);
+    const a = t.get('A')!;
+    const b = t.get('B')!;
+
+    a.tick();
+    a.tick();
+    await a.send(message('A', 'B', 'Ping'));
+    await arrived(b, 'B', 1);
+    await b.receive('B');
+
+    expect(a.getClock()).toBe(3);
+    expect(b.getClock()).toBe(4);
+
+    t.forEach(transport => transport.close());
+  });
+
+  it('should refuse messages to roles without a channel', async () => {
+    const t = transports(['A', 'B']);
+
+    await expect(t.get('A')!.send(message('A', 'Z', 'Lost'))).rejects.toThrow('No channel from A to Z');
+
+    t.forEach(transport => transport.close());
+  });
+});
+
+// ============================================================================
+// Threaded Runs
+// ============================================================================
+
+describe('Threaded Simulator', () => {
+  it('should run every role in its own thread to completion, merging the trace causally', async () => {
+    const cfsms = projectAll(buildCFG(protocolOf(`
+      protocol Auction(role Seller, role Bidder1, role Bidder2) {
+        Seller -> Bidder1, Bidder2: Item();
+        Bidder1 -> Seller: Bid();
+        Bidder2 -> Seller: Bid();
+        Seller -> Bidder1: Won();
+        Seller -> Bidder2: Lost();
+      }
+    `))).cfsms;
+
+    const result = await new ThreadedSimulator({ roles: cfsms }).run();
+
+    expect(result.success).toBe(true);
+    expect(result.completed).toBe(true);
+    expect(result.deadlocked).toBe(false);
+    expect([...result.state.roles.values()].every(state => state.completed)).toBe(true);
+
+    // Every message is received after it is sent
+    const events = result.trace.events.map(describeEvent);
+    for (const [receive, send] of [
+      ['Bidder1?Item', 'Seller!Item'],
+      ['Bidder2?Item', 'Seller!Item'],
+      ['Seller?Bid', 'Bidder1!Bid'],
+      ['Bidder1?Won', 'Seller!Won'],
+      ['Bidder2?Lost', 'Seller!Lost'],
+    ]) {
+      expect(events.indexOf(receive)).toBeGreaterThan(events.indexOf(send));
+    }
+    expect(events.filter(e => e.includes('!') || e.includes('?'))).toHaveLength(11);
+  }, 30000);
+
+  it('should detect roles waiting for each other', async () => {
+    const roles = new Map([
+      ['A', roleOf('protocol P(role A, role B) { B -> A: Y(); A -> B: X(); }', 'A')],
+      ['B', roleOf('protocol P(role A, role B) { A -> B: X(); B -> A: Y(); }', 'B')],
+    ]);
+
+    const result = await new ThreadedSimulator({ roles }).run();
+
+    expect(result.success).toBe(false);
+    expect(result.deadlocked).toBe(true);
+    expect(result.timedOut).toBe(false);
+    expect(result.error).toBeUndefined();
+    expect(result.trace.events).toEqual([]);
+  }, 30000);
+
+  it('should report protocol violations in strict mode', async () => {
+    const roles = new Map([
+      ['A', roleOf('protocol P(role A, role B) { A -> B: Order(); }', 'A')],
+      ['B', roleOf('protocol P(role A, role B) { A -> B: Quote(); }', 'B')],
+    ]);
+
+    const result = await new ThreadedSimulator({ roles, options: { strictMode: true } }).run();
+
+    expect(result.success).toBe(false);
+    expect(result.deadlocked).toBe(false);
+    expect(result.error!.type).toBe('protocol-violation');
+    expect(result.state.roles.get('A')!.completed).toBe(true);
+  }, 30000);
+
+  describe('Role implementations', () => {
+    const roles = () => projectAll(buildCFG(protocolOf(`
+      protocol Payment(role Buyer, role Seller) {
+        Seller -> Buyer: Quote(limit: Int);
+        Buyer -> Seller: Pay(amount: Int) where amount > 0 && amount <= limit;
+      }
+    `))).cfsms;
+    const fixture = (name: string) => new URL(`./__fixtures__/${name}.ts`, import.meta.url);
+
+    it('should send the payloads of the implementations', async () => {
+      const implementations = new Map([['Buyer', fixture('payment-buyer')], ['Seller', fixture('payment-seller')]]);
+
+      const result = await new ThreadedSimulator({ roles: roles(), implementations }).run();
+
+      expect(result.success).toBe(true);
+      expect(result.completed).toBe(true);
+      const sent = result.trace.events.flatMap(event => (event.type === 'message-sent' ? [event.message.payload] : []));
+      expect(sent).toEqual([{ limit: 100 }, { amount: 100 }]);
+    }, 30000);
+
+    it('should check the predicates on the payloads of the implementations', async () => {
+      const implementations = new Map([['Buyer', fixture('payment-overpaying-buyer')], ['Seller', fixture('payment-seller')]]);
+
+      const result = await new ThreadedSimulator({ roles: roles(), implementations }).run();
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatchObject({
+        type: 'predicate-violation',
+        details: { label: 'Pay', values: { amount: 150, limit: 100 } },
+      });
+    }, 30000);
+
+    it('should fail when an implementation does not load', async () => {
+      const implementations = new Map([['Buyer', fixture('missing')]]);
+
+      await expect(new ThreadedSimulator({ roles: roles(), implementations }).run()).rejects.toThrow('Worker of Buyer failed');
+    }, 30000);
+  });
+});
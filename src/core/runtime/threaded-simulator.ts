@@ -0,0 +1,206 @@
+/**
+ * Threaded Protocol Simulator
+ *
+ * Runs each role of a protocol in its own worker thread (role-worker.ts),
+ * connected by MessagePortTransports: the roles step truly in parallel,
+ * with no scheduler between them. The Simulator runs every Executor on one
+ * event loop and one interleaving at a time; running here, repeatedly,
+ * stress-tests role implementations under genuine parallelism.
+ *
+ * The run is over when no role can make progress: every role has
+ * completed, failed, or waits for a message no one will send (deadlock).
+ * The events of the roles are then merged in causal order, by the Lamport
+ * clocks of their transports (ties broken by role, in declaration order).
+ *
+ * Functions cannot be sent to a thread: the payloads of a role come from
+ * its implementation module (a RoleImplementation), imported by its worker.
+ *
+ * Usage:
+ * ```typescript
+ * const simulator = new ThreadedSimulator({
+ *   roles: projectAll(cfg).cfsms,
+ *   implementations: new Map([['Buyer', './buyer.js']]),  // export const payloads = ...
+ * });
+ * const result = await simulator.run();
+ * console.log(result.completed, result.trace.events);
+ * ```
+ *
+ * Node only (uses node:worker_threads).
+ */
+
+import { Worker, type MessagePort } from 'node:worker_threads';
+import { pathToFileURL } from 'node:url';
+import { createMessageChannels } from './message-port-transport';
+import type { ClockedEvent, RoleWorkerData, RoleWorkerMessage, RoleWorkerRequest } from './role-worker';
+import type {
+  ThreadedSimulatorConfig,
+  ThreadedSimulationResult,
+  ExecutionState,
+  ExecutionError,
+  TraceEvent,
+} from './types';
+
+type Report = Extract<RoleWorkerMessage, { type: 'report' }>;
+
+/**
+ * Multi-role simulator with one worker thread per role
+ */
+export class ThreadedSimulator {
+  private config: ThreadedSimulatorConfig;
+  private roleNames: string[];
+
+  constructor(config: ThreadedSimulatorConfig) {
+    this.config = config;
+    this.roleNames = Array.from(config.roles.keys());
+  }
+
+  /**
+   * Run every role to completion (or deadlock, failure, timeout)
+   *
+   * Each call starts fresh workers from the initial states.
+   */
+  async run(): Promise<ThreadedSimulationResult> {
+    const startTime = Date.now();
+    const timeout = this.config.options?.timeout ?? 10000;
+    const channels = createMessageChannels(this.roleNames);
+    const activity = new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT);
+    new Int32Array(activity)[0] = this.roleNames.length;
+
+    const workers = new Map<string, Worker>();
+    try {
+      let onIdle!: () => void;
+      let onFailure!: (error: Error) => void;
+      const idle = new Promise<void>((resolve, reject) => { onIdle = resolve; onFailure = reject; });
+      const ready: Array<Promise<void>> = [];
+
+      for (const [role, cfsm] of this.config.roles) {
+        const ports = channels.get(role)!;
+        const data: RoleWorkerData = {
+          role,
+          cfsm,
+          cfsmRegistry: this.config.cfsmRegistry,
+          implementation: moduleUrl(this.config.implementations?.get(role)),
+          ports,
+          activity,
+          options: {
+            maxSteps: this.config.options?.maxSteps ?? 1000,
+            strictMode: this.config.options?.strictMode,
+          },
+        };
+
+        const worker = spawnRoleWorker(data, [...ports.values()]);
+        worker.on('message', (message: RoleWorkerMessage) => {
+          if (message.type === 'idle') onIdle();
+        });
+        worker.on('error', error => onFailure(new Error(`Worker of ${role} failed: ${error.message}`)));
+        ready.push(new Promise(resolve => worker.once('message', resolve)));
+        workers.set(role, worker);
+      }
+
+      // The timeout runs once every worker has loaded (the first message
+      // of a worker says it is ready)
+      await Promise.race([Promise.all(ready), idle]);
+
+      // A worker that fails after the timeout has won leaves nobody waiting
+      // on the race: its failure is ignored (the reports tell what happened)
+      const finished = idle.then(() => false);
+      finished.catch(() => {});
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timedOut = await Promise.race([
+        finished,
+        new Promise<boolean>(resolve => { timer = setTimeout(() => resolve(true), timeout); }),
+      ]);
+      clearTimeout(timer);
+
+      const reports = await Promise.all(this.roleNames.map(role => requestReport(workers.get(role)!)));
+      return this.buildResult(reports, startTime, timedOut);
+    } finally {
+      await Promise.all([...workers.values()].map(worker => worker.terminate()));
+    }
+  }
+
+  private buildResult(reports: Report[], startTime: number, timedOut: boolean): ThreadedSimulationResult {
+    const roles = new Map<string, ExecutionState>();
+    reports.forEach((report, i) => roles.set(this.roleNames[i], report.state));
+
+    const error: ExecutionError | undefined = reports.find(report => report.error)?.error;
+    const completed = reports.every(report => report.state.completed);
+    const deadlocked = !timedOut && !completed && reports.some(report => !report.state.completed && !report.error);
+
+    return {
+      success: completed,
+      state: {
+        roles,
+        messageQueue: reports.flatMap(report => report.state.pendingMessages),
+        step: reports.reduce((steps, report) => steps + report.events.filter(e => e.event.type === 'state-change').length, 0),
+        completed,
+        deadlocked,
+        ...(error && { error }),
+      },
+      trace: {
+        events: mergeCausally(reports.map(report => report.events)),
+        startTime,
+        endTime: Date.now(),
+        completed,
+      },
+      completed,
+      deadlocked,
+      timedOut,
+      ...(error && { error }),
+    };
+  }
+}
+
+// ============================================================================
+// Workers
+// ============================================================================
+
+/**
+ * Start a worker on role-worker
+ *
+ * Bundlers emit role-worker as an entry of its own from the
+ * `new Worker(new URL(...))` form. Run from sources, role-worker-tsx.mjs
+ * loads it through tsx, as the main thread does.
+ */
+function spawnRoleWorker(data: RoleWorkerData, transferList: MessagePort[]): Worker {
+  const options = { workerData: data, transferList };
+
+  if (import.meta.url.endsWith('.ts')) {
+    const entry = new URL('./role-worker-tsx.mjs', import.meta.url);
+    return new Worker(entry, options);
+  }
+  return new Worker(new URL('./role-worker.ts', import.meta.url), options);
+}
+
+/**
+ * URL of a module, given as a URL or a file path (relative to the
+ * working directory)
+ */
+function moduleUrl(module?: string | URL): string | undefined {
+  if (module === undefined) return undefined;
+  return module instanceof URL ? module.href : pathToFileURL(module).href;
+}
+
+function requestReport(worker: Worker): Promise<Report> {
+  return new Promise(resolve => {
+    const listener = (message: RoleWorkerMessage) => {
+      if (message.type !== 'report') return;
+      worker.off('message', listener);
+      resolve(message);
+    };
+    worker.on('message', listener);
+    worker.postMessage({ type: 'report' } satisfies RoleWorkerRequest);
+  });
+}
+
+/**
+ * Merge the events of each role into one sequence ordered by Lamport
+ * time: an event never comes before one that happened before it
+ */
+function mergeCausally(eventsByRole: ClockedEvent[][]): TraceEvent[] {
+  return eventsByRole
+    .flatMap((events, role) => events.map((clocked, index) => ({ ...clocked, role, index })))
+    .sort((a, b) => a.clock - b.clock || a.role - b.role || a.index - b.index)
+    .map(({ event }) => event);
+}
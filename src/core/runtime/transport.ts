@@ -3,6 +3,8 @@
  *
  * Provides pluggable message delivery mechanisms.
  * Default: InMemoryTransport (FIFO queues for testing/simulation)
+ * Roles in separate processes: WebSocketTransport (websocket-transport.ts)
+ * Network faults around any of them: ChaosTransport (chaos-transport.ts)
  */
 
 import type { Message, MessageTransport, MessageListener, TransportDelayConfig } from './types';
@@ -10,6 +10,8 @@
 
 import type { CFSM, CFSMState } from '../projection/types';
 import type { MessageAction } from '../cfg/types';
+import type { PayloadProvider } from '../predicates/types';
+import type { ReplaySession } from '../simulation/replay';
 
 // ============================================================================
 // Core Execution Types
@@ -38,6 +40,7 @@ export interface ExecutionState {
   pendingMessages: Message[];  // Incoming message queue
   blocked: boolean;  // Waiting for message?
   completed: boolean;  // Reached terminal state?
+  crashed?: boolean;  // Crash-stop failures: crashed (takes no further step)?
   callStack: CallStackFrame[];  // Sub-protocol call stack (bottom = root protocol)
 }
 
@@ -79,7 +82,9 @@ export type ExecutionErrorType =
   | 'protocol-violation'  // Wrong message received
   | 'deadlock'  // All roles blocked
   | 'message-not-ready'  // Expected message not in queue
-  | 'already-completed';  // Role already at terminal
+  | 'already-completed'  // Role already at terminal
+  | 'crashed'  // Role has crashed (crash-stop: no further step)
+  | 'predicate-violation';  // Payload breaks the message's refinement (details: PredicateViolation)
 
 // ============================================================================
 // Message Transport Abstraction
@@ -88,6 +93,7 @@ export type ExecutionErrorType =
 /**
  * Delay configuration for simulating network latency
  * Used by InMemoryTransport for realistic distributed simulation
+ * (other network faults: FaultPlan, with ChaosTransport)
  */
 export interface TransportDelayConfig {
   /**
@@ -156,7 +162,9 @@ export type TraceEvent =
   | StateChangeEvent
   | MessageSentEvent
   | MessageReceivedEvent
-  | ErrorEvent;
+  | ErrorEvent
+  | CrashEvent
+  | CrashDetectedEvent;
 
 export interface StateChangeEvent {
   type: 'state-change';
@@ -186,6 +194,29 @@ export interface ErrorEvent {
   error: ExecutionError;
 }
 
+/**
+ * A role crashed (crash-stop: it takes no further step)
+ */
+export interface CrashEvent {
+  type: 'crash';
+  timestamp: number;
+  role: string;
+  state: string;  // State the role crashed in
+}
+
+/**
+ * A role found out that another one crashed, while waiting for a message
+ * from it, and took its crash transition (to the crash handler)
+ */
+export interface CrashDetectedEvent {
+  type: 'crash-detected';
+  timestamp: number;
+  role: string;  // Detector
+  crashed: string;
+  fromState: string;
+  toState: string;
+}
+
 /**
  * Execution trace recorder
  */
@@ -204,6 +235,8 @@ export interface ExecutionObserver {
   onMessageSent?(event: MessageSentEvent): void;
   onMessageReceived?(event: MessageReceivedEvent): void;
   onError?(event: ErrorEvent): void;
+  onCrash?(event: CrashEvent): void;
+  onCrashDetected?(event: CrashDetectedEvent): void;
 }
 
 // ============================================================================
@@ -225,6 +258,14 @@ export interface ExecutorConfig {
   // Optional observers
   observers?: ExecutionObserver[];
 
+  // Optional payload values of sends (refined messages are checked
+  // against them; sends without a value are not)
+  payloads?: PayloadProvider;
+
+  // Optional failure detector: whether a role has crashed. Crash
+  // transitions (on crash handlers) are taken only for crashed roles.
+  failureDetector?: FailureDetector;
+
   // Execution options
   options?: {
     maxSteps?: number;  // Prevent infinite loops
@@ -233,12 +274,20 @@ export interface ExecutorConfig {
   };
 }
 
+/**
+ * Failure detector of crash-stop failures: whether the role has crashed
+ * (perfect: never suspects a live role)
+ */
+export type FailureDetector = (role: string) => boolean;
+
 /**
  * Configuration for multi-role simulator
  */
 export interface SimulatorConfig {
   roles: Map<string, CFSM>;  // Role name -> CFSM
   transport?: MessageTransport;  // Optional (defaults to InMemoryTransport)
+  payloads?: Map<string, PayloadProvider>;  // Role name -> payload values of its sends
+  replay?: ReplaySession;  // Record the run's decisions, or replay a log (simulation/replay.ts)
 
   // Execution options
   options?: {
@@ -286,3 +335,160 @@ export interface SimulationStepResult {
   deadlocked?: boolean;
   error?: ExecutionError;  // Error if simulation failed
 }
+
+// ============================================================================
+// Threaded Simulation
+// ============================================================================
+
+/**
+ * Configuration for running each role in its own worker thread
+ * (payload providers are functions, which cannot be sent to a thread)
+ */
+export interface ThreadedSimulatorConfig {
+  roles: Map<string, CFSM>;  // Role name -> CFSM
+
+  // Optional CFSM registry for sub-protocol execution
+  cfsmRegistry?: Map<string, Map<string, CFSM>>;
+
+  // Optional role implementations: role name -> module (file path or URL)
+  // that the role's worker imports, exporting a RoleImplementation
+  implementations?: Map<string, string | URL>;
+
+  options?: {
+    maxSteps?: number;  // Per role (default: 1000)
+    timeout?: number;  // Whole run, in milliseconds (default: 10000)
+    strictMode?: boolean;
+  };
+}
+
+/**
+ * Exports of a role implementation module (ThreadedSimulatorConfig):
+ * the hooks of the role's Executor, which cannot be sent to its worker
+ * thread as values
+ */
+export interface RoleImplementation {
+  payloads?: PayloadProvider;  // Payload values of the role's sends
+}
+
+/**
+ * Result of a threaded run, once no role can make progress
+ */
+export interface ThreadedSimulationResult {
+  success: boolean;  // Every role completed
+  state: SimulationState;  // Final state of every role
+  trace: ExecutionTrace;  // Events of all roles, merged in causal order
+  completed: boolean;
+  deadlocked: boolean;  // Some role waits for a message no one will send
+  timedOut: boolean;
+  error?: ExecutionError;  // First error of a role (e.g. protocol violation)
+}
+
+// ============================================================================
+// Chaos Testing
+// ============================================================================
+
+/**
+ * Network faults a ChaosTransport can inject
+ * - drop: the message never arrives
+ * - duplicate: the message arrives twice
+ * - reorder: the message is overtaken by the next one on its channel
+ * - delay: the message arrives after a while of virtual time (later ones
+ *   may overtake it)
+ * - corrupt: the message arrives with a garbled label and no payload
+ */
+export type FaultType = 'drop' | 'duplicate' | 'reorder' | 'delay' | 'corrupt';
+
+/**
+ * One rule of a fault plan: which deliveries it hits, and how
+ *
+ * A delivery is one message on one channel (sender → receiver), so each
+ * receiver of a multicast is hit separately. Unset filters match anything.
+ */
+export interface FaultRule {
+  fault: FaultType;
+  from?: string;  // Sender of the channel
+  to?: string;  // Receiver of the channel
+  label?: string;  // Message label
+  probability?: number;  // Chance of hitting a matching delivery (default: 1)
+  count?: number;  // Most deliveries hit by the rule (default: unbounded)
+  delay?: number | [number, number];  // For 'delay': virtual milliseconds, fixed or [min, max] (default: 10)
+}
+
+/**
+ * Seeded, reproducible fault plan: the same seed and traffic inject the
+ * same faults. The first rule that hits a delivery applies.
+ */
+export interface FaultPlan {
+  seed?: number;  // Default: 0
+  faults: FaultRule[];
+}
+
+/**
+ * A fault injected on a delivery
+ */
+export interface InjectedFault {
+  fault: FaultType;
+  from: string;
+  to: string;
+  message: Message;
+  delay?: number;  // Virtual milliseconds, for 'delay'
+}
+
+/**
+ * Guarantees of a protocol run that faults can break
+ * - progress: every role completes (no deadlock, no step bound)
+ * - conformance: every role receives what its CFSM expects
+ * - delivery: no message is lost
+ * - exactly-once: no message is received twice
+ * - fifo: each channel delivers in the order messages were sent
+ * - integrity: messages are received as they were sent
+ * - orphan-freedom: no message is left unreceived by a completed role
+ */
+export type ProtocolGuarantee =
+  | 'progress'
+  | 'conformance'
+  | 'delivery'
+  | 'exactly-once'
+  | 'fifo'
+  | 'integrity'
+  | 'orphan-freedom';
+
+/**
+ * A guarantee broken in a run, and where
+ */
+export interface GuaranteeViolation {
+  guarantee: ProtocolGuarantee;
+  message: string;
+  role?: string;  // Role where it shows
+  state?: string;  // CFSM state of the role
+  channel?: { from: string; to: string };
+  label?: string;  // Message label
+  eventIndex?: number;  // Index in the trace of the event that shows it
+}
+
+/**
+ * Configuration for a simulation under a fault plan
+ */
+export interface ChaosSimulatorConfig {
+  roles: Map<string, CFSM>;  // Role name -> CFSM
+  plan: FaultPlan;
+  transport?: MessageTransport;  // Wrapped transport (defaults to InMemoryTransport)
+
+  options?: {
+    maxSteps?: number;  // Default: 1000
+    strictMode?: boolean;  // Default: true (so that wrong messages are caught)
+  };
+}
+
+/**
+ * Outcome of a simulation under a fault plan
+ */
+export interface ChaosReport {
+  seed: number;
+  completed: boolean;
+  deadlocked: boolean;
+  faults: InjectedFault[];  // In injection order
+  violations: GuaranteeViolation[];  // Empty if the run kept every guarantee
+  state: SimulationState;
+  trace: ExecutionTrace;
+}
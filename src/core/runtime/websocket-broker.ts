@@ -0,0 +1,251 @@
+/**
+ * WebSocket Message Broker
+ *
+ * Routes the messages of WebSocketTransports (websocket-transport.ts), one
+ * connection per role, through a FIFO queue per receiving role.
+ *
+ * A message stays queued until its receiver acknowledges it: a role that
+ * is not connected yet, or is reconnecting, gets its messages when it
+ * (re)connects. Sends are accepted once per sequence number, so a message
+ * resent after a lost acceptance is not delivered twice.
+ *
+ * Usage:
+ * ```typescript
+ * const broker = new WebSocketBroker({ port: 8080 });
+ * const url = await broker.start();   // ws://127.0.0.1:8080
+ * // ... roles connect with new WebSocketTransport({ url, role })
+ * await broker.stop();
+ * ```
+ *
+ * Node only (uses the `ws` package).
+ */
+
+import { WebSocketServer, type WebSocket, type RawData } from 'ws';
+import type { Message } from './types';
+import { encodeFrame, decodeFrame, type ClientFrame, type BrokerFrame } from './websocket-transport';
+
+export interface WebSocketBrokerOptions {
+  /** Port to listen on (default: 0, any free port) */
+  port?: number;
+
+  /** Interface to listen on (default: 127.0.0.1) */
+  host?: string;
+}
+
+/**
+ * Queue and connection of one role
+ */
+interface Mailbox {
+  /** Messages delivered to the role and not acknowledged, in order */
+  queue: Array<{ seq: number; message: Message }>;
+  /** Sequence number of the next delivery to the role */
+  nextSeq: number;
+  /** Sequence number of the last send accepted from the role */
+  accepted: number;
+  socket?: WebSocket;
+}
+
+/**
+ * Message broker for roles running in separate processes
+ */
+export class WebSocketBroker {
+  private readonly port: number;
+  private readonly host: string;
+  private server?: WebSocketServer;
+  private mailboxes: Map<string, Mailbox> = new Map();
+
+  constructor(options: WebSocketBrokerOptions = {}) {
+    this.port = options.port ?? 0;
+    this.host = options.host ?? '127.0.0.1';
+  }
+
+  /**
+   * Start listening; resolves with the URL transports connect to
+   */
+  start(): Promise<string> {
+    if (this.server) {
+      return Promise.reject(new Error('Broker is already started'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const server = new WebSocketServer({ port: this.port, host: this.host });
+      server.on('connection', socket => this.accept(socket));
+      server.once('error', reject);
+      server.once('listening', () => {
+        this.server = server;
+        resolve(this.getUrl());
+      });
+    });
+  }
+
+  /**
+   * Close every connection and stop listening (queues are dropped)
+   */
+  stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return Promise.resolve();
+    this.server = undefined;
+
+    for (const socket of server.clients) socket.terminate();
+    this.mailboxes.clear();
+    return new Promise((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+  }
+
+  /**
+   * URL of the broker once started
+   */
+  getUrl(): string {
+    const address = this.server?.address();
+    if (!address || typeof address === 'string') {
+      throw new Error('Broker is not started');
+    }
+    return `ws://${this.host}:${address.port}`;
+  }
+
+  /**
+   * Roles currently connected
+   */
+  getConnectedRoles(): string[] {
+    return [...this.mailboxes].filter(([, mailbox]) => mailbox.socket).map(([role]) => role);
+  }
+
+  /**
+   * Messages queued for a role and not acknowledged yet
+   */
+  getQueueDepth(role: string): number {
+    return this.mailboxes.get(role)?.queue.length ?? 0;
+  }
+
+  /**
+   * Drop the connection of a role, as a network failure would (testing)
+   */
+  disconnect(role: string): void {
+    this.mailboxes.get(role)?.socket?.terminate();
+  }
+
+  // ==========================================================================
+  // Connections
+  // ==========================================================================
+
+  private accept(socket: WebSocket): void {
+    let role: string | undefined;
+
+    socket.on('message', (data: RawData) => {
+      let frame: ClientFrame;
+      try {
+        frame = decodeFrame<ClientFrame>(data);
+      } catch (error) {
+        return this.reject(socket, (error as Error).message);
+      }
+      const problem = checkFrame(frame);
+      if (problem) return this.reject(socket, problem);
+
+      if (frame.type === 'hello') {
+        if (role !== undefined) return this.reject(socket, `Connection is already ${role}`);
+        role = frame.role;
+        this.welcome(role, socket, frame.received);
+      } else if (role === undefined) {
+        this.reject(socket, `Expected hello, got ${frame.type}`);
+      } else if (frame.type === 'send') {
+        this.route(role, socket, frame.seq, frame.message);
+      } else if (frame.type === 'ack') {
+        const mailbox = this.mailboxOf(role);
+        mailbox.queue = mailbox.queue.filter(({ seq }) => seq > frame.seq);
+      } else {
+        this.reject(socket, `Unknown frame ${(frame as { type: string }).type}`);
+      }
+    });
+
+    socket.on('close', () => {
+      const mailbox = role === undefined ? undefined : this.mailboxes.get(role);
+      if (mailbox?.socket === socket) mailbox.socket = undefined;
+    });
+  }
+
+  /**
+   * (Re)connect a role: drop what it has received, then deliver the rest
+   */
+  private welcome(role: string, socket: WebSocket, received: number): void {
+    const mailbox = this.mailboxOf(role);
+
+    // A reconnection may arrive before the old connection is seen closing
+    if (mailbox.socket && mailbox.socket !== socket) mailbox.socket.terminate();
+    mailbox.socket = socket;
+
+    mailbox.queue = mailbox.queue.filter(({ seq }) => seq > received);
+    this.write(socket, { type: 'welcome', accepted: mailbox.accepted });
+    for (const { seq, message } of mailbox.queue) {
+      this.write(socket, { type: 'deliver', seq, message });
+    }
+  }
+
+  /**
+   * Queue a message of `sender` for each of its receivers, once
+   */
+  private route(sender: string, socket: WebSocket, seq: number, message: Message): void {
+    if (message.from !== sender) {
+      return this.reject(socket, `${sender} cannot send a message from ${message.from}`);
+    }
+    const mailbox = this.mailboxOf(sender);
+
+    if (seq > mailbox.accepted) {
+      mailbox.accepted = seq;
+      const receivers = Array.isArray(message.to) ? message.to : [message.to];
+      for (const receiver of receivers) {
+        const target = this.mailboxOf(receiver);
+        const delivery = { seq: target.nextSeq++, message };
+        target.queue.push(delivery);
+        if (target.socket) this.write(target.socket, { type: 'deliver', ...delivery });
+      }
+    }
+
+    this.write(socket, { type: 'accepted', seq });
+  }
+
+  private reject(socket: WebSocket, message: string): void {
+    this.write(socket, { type: 'error', message });
+    socket.close();
+  }
+
+  private mailboxOf(role: string): Mailbox {
+    let mailbox = this.mailboxes.get(role);
+    if (!mailbox) {
+      mailbox = { queue: [], nextSeq: 1, accepted: 0 };
+      this.mailboxes.set(role, mailbox);
+    }
+    return mailbox;
+  }
+
+  private write(socket: WebSocket, frame: BrokerFrame): void {
+    socket.send(encodeFrame(frame));
+  }
+}
+
+/**
+ * What is wrong with the fields of a frame, if anything
+ */
+function checkFrame(frame: ClientFrame): string | undefined {
+  switch (frame.type) {
+    case 'hello':
+      if (typeof frame.role !== 'string') return 'hello must name a role';
+      if (!Number.isInteger(frame.received)) return 'hello must give the last delivery received';
+      return undefined;
+    case 'send':
+      if (!Number.isInteger(frame.seq)) return 'send must have a sequence number';
+      if (!isMessage(frame.message)) return 'send must carry a message with from, to and label';
+      return undefined;
+    case 'ack':
+      if (!Number.isInteger(frame.seq)) return 'ack must have a sequence number';
+      return undefined;
+    default:
+      return undefined;
+  }
+}
+
+function isMessage(value: unknown): value is Message {
+  if (typeof value !== 'object' || value === null) return false;
+  const { from, to, label } = value as Partial<Message>;
+  const receivers: unknown[] = Array.isArray(to) ? to : [to];
+  return typeof from === 'string' && typeof label === 'string'
+    && receivers.length > 0 && receivers.every(receiver => typeof receiver === 'string');
+}
@@ -0,0 +1,321 @@
+/**
+ * WebSocket Transport Tests
+ *
+ * Runs a broker on localhost and one transport per role, as separate
+ * processes would:
+ * - Executors of a projected protocol run to completion over the network
+ * - Messages wait in the broker until their role connects (FIFO per role)
+ * - Reconnection loses and duplicates no message (sequence numbers)
+ * - Wire protocol: duplicate sends, unacknowledged deliveries, bad frames
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { WebSocket, WebSocketServer } from 'ws';
+import { parse } from '../parser/parser';
+import { buildCFG } from '../cfg/builder';
+import { projectAll } from '../projection/projector';
+import { Executor } from './executor';
+import { WebSocketBroker } from './websocket-broker';
+import {
+  WebSocketTransport,
+  connectWebSocketTransport,
+  encodeFrame,
+  decodeFrame,
+  type BrokerFrame,
+  type ClientFrame,
+} from './websocket-transport';
+import type { Message } from './types';
+import type { GlobalProtocolDeclaration } from '../ast/types';
+
+// ============================================================================
+// Harness
+// ============================================================================
+
+let broker: WebSocketBroker;
+let url: string;
+let transports: WebSocketTransport[];
+
+beforeEach(async () => {
+  broker = new WebSocketBroker();
+  url = await broker.start();
+  transports = [];
+});
+
+afterEach(async () => {
+  transports.forEach(transport => transport.close());
+  await broker.stop();
+});
+
+async function connect(role: string): Promise<WebSocketTransport> {
+  const transport = await connectWebSocketTransport(url, role);
+  transports.push(transport);
+  return transport;
+}
+
+async function waitFor(condition: () => boolean, timeout = 2000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+/**
+ * Step an executor until it completes, waiting for messages when blocked
+ */
+async function runRole(executor: Executor, transport: WebSocketTransport, role: string): Promise<void> {
+  while (!executor.getState().completed) {
+    const result = await executor.step();
+    if (result.success) continue;
+    if (result.error?.type !== 'message-not-ready') throw new Error(result.error?.message);
+    await waitFor(() => transport.hasMessage(role));
+  }
+}
+
+function message(from: string, to: string | string[], label: string, payload?: unknown): Message {
+  return { id: `${from}-${label}`, from, to, label, payload, timestamp: Date.now() };
+}
+
+async function receiveAll(transport: WebSocketTransport, role: string): Promise<string[]> {
+  const labels: string[] = [];
+  while (transport.hasMessage(role)) {
+    labels.push((await transport.receive(role))!.label);
+  }
+  return labels;
+}
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+describe('WebSocket Transport - Execution', () => {
+  it('should run each role of a protocol over its own connection', async () => {
+    const source = `
+      protocol Shipping(role Buyer, role Seller, role Shipper) {
+        Buyer -> Seller: Order(Int);
+        Seller -> Shipper: Ship(Int);
+        Shipper -> Buyer: Delivered();
+        Buyer -> Seller, Shipper: Thanks();
+      }
+    `;
+    const cfsms = projectAll(buildCFG(parse(source).declarations[0] as GlobalProtocolDeclaration)).cfsms;
+
+    const received: string[] = [];
+    const runs = [...cfsms].map(async ([role, cfsm]) => {
+      const transport = await connect(role);
+      const executor = new Executor({
+        role,
+        cfsm,
+        transport,
+        observers: [{ onMessageReceived: event => received.push(`${event.role}?${event.message.label}`) }],
+      });
+      await runRole(executor, transport, role);
+      return executor.getState();
+    });
+
+    const states = await Promise.all(runs);
+
+    expect(states.every(state => state.completed)).toBe(true);
+    expect(received.slice(0, 3)).toEqual(['Seller?Order', 'Shipper?Ship', 'Buyer?Delivered']);
+    expect(received.slice(3).sort()).toEqual(['Seller?Thanks', 'Shipper?Thanks']);
+  });
+
+  it('should deliver the payload of a message', async () => {
+    const alice = await connect('Alice');
+    const bob = await connect('Bob');
+
+    await alice.send(message('Alice', 'Bob', 'Offer', { price: 42, items: ['book'] }));
+    await waitFor(() => bob.hasMessage('Bob'));
+
+    expect((await bob.receive('Bob'))!.payload).toEqual({ price: 42, items: ['book'] });
+    expect(bob.hasMessage('Alice')).toBe(false);
+  });
+
+  it('should reject messages from another role', async () => {
+    const alice = await connect('Alice');
+
+    await expect(alice.send(message('Bob', 'Alice', 'Spoof'))).rejects.toThrow('cannot send a message from Bob');
+  });
+
+  it('should fail to connect when no broker listens', async () => {
+    const port = new URL(url).port;
+    await broker.stop();
+
+    await expect(connectWebSocketTransport(`ws://127.0.0.1:${port}`, 'Alice')).rejects.toThrow('Cannot connect Alice');
+  });
+});
+
+// ============================================================================
+// Queues and Reconnection
+// ============================================================================
+
+describe('WebSocket Transport - Queues and Reconnection', () => {
+  it('should queue messages until their role connects, in order', async () => {
+    const alice = await connect('Alice');
+    const carol = await connect('Carol');
+    await alice.send(message('Alice', 'Bob', 'First'));
+    await carol.send(message('Carol', 'Bob', 'Second'));
+    await alice.send(message('Alice', 'Bob', 'Third'));
+
+    expect(broker.getQueueDepth('Bob')).toBe(3);
+
+    const bob = await connect('Bob');
+    await waitFor(() => bob.getPendingMessages('Bob').length === 3);
+
+    expect(await receiveAll(bob, 'Bob')).toEqual(['First', 'Second', 'Third']);
+    await waitFor(() => broker.getQueueDepth('Bob') === 0);
+  });
+
+  it('should deliver every message once across reconnections of the receiver', async () => {
+    const alice = await connect('Alice');
+    const bob = await connect('Bob');
+    const labels: string[] = [];
+
+    for (let i = 0; i < 10; i++) {
+      if (i % 3 === 0) broker.disconnect('Bob');
+      await alice.send(message('Alice', 'Bob', `M${i}`));
+      labels.push(...await receiveAll(bob, 'Bob'));
+    }
+    await waitFor(() => bob.isConnected() && broker.getQueueDepth('Bob') === 0);
+    labels.push(...await receiveAll(bob, 'Bob'));
+
+    expect(labels).toEqual(Array.from({ length: 10 }, (_, i) => `M${i}`));
+  });
+
+  it('should resend what the broker has not accepted after the sender reconnects', async () => {
+    const alice = await connect('Alice');
+    const bob = await connect('Bob');
+
+    broker.disconnect('Alice');
+    await waitFor(() => !alice.isConnected());
+    const sends = [alice.send(message('Alice', 'Bob', 'Late1')), alice.send(message('Alice', 'Bob', 'Late2'))];
+
+    await Promise.all(sends);
+    await waitFor(() => bob.getPendingMessages('Bob').length === 2);
+
+    expect(await receiveAll(bob, 'Bob')).toEqual(['Late1', 'Late2']);
+    expect(broker.getConnectedRoles().sort()).toEqual(['Alice', 'Bob']);
+  });
+});
+
+// ============================================================================
+// Wire Protocol
+// ============================================================================
+
+describe('WebSocket Transport - Wire Protocol', () => {
+  /**
+   * A connection speaking frames directly, to replay what a transport
+   * would send around a failure
+   */
+  async function rawConnection(role: string, received = 0) {
+    const socket = new WebSocket(url);
+    const frames: BrokerFrame[] = [];
+    socket.on('message', data => frames.push(decodeFrame<BrokerFrame>(data)));
+    await new Promise(resolve => socket.once('open', resolve));
+
+    const send = (frame: ClientFrame) => socket.send(encodeFrame(frame));
+    send({ type: 'hello', role, received });
+    await waitFor(() => frames.some(frame => frame.type === 'welcome'));
+    return { socket, frames, send };
+  }
+
+  it('should accept each send sequence number once', async () => {
+    const alice = await rawConnection('Alice');
+    alice.send({ type: 'send', seq: 1, message: message('Alice', 'Bob', 'Once') });
+    alice.send({ type: 'send', seq: 1, message: message('Alice', 'Bob', 'Once') });
+    await waitFor(() => alice.frames.filter(frame => frame.type === 'accepted').length === 2);
+
+    expect(broker.getQueueDepth('Bob')).toBe(1);
+
+    alice.socket.terminate();
+    const again = await rawConnection('Alice');
+    expect(again.frames[0]).toEqual({ type: 'welcome', accepted: 1 });
+    again.socket.terminate();
+  });
+
+  it('should redeliver what was not acknowledged, and not what was received', async () => {
+    const alice = await connect('Alice');
+    await alice.send(message('Alice', 'Bob', 'A'));
+    await alice.send(message('Alice', 'Bob', 'B'));
+
+    const first = await rawConnection('Bob');
+    await waitFor(() => first.frames.filter(frame => frame.type === 'deliver').length === 2);
+    first.socket.terminate();
+
+    // Received A, but its acknowledgement was lost
+    const second = await rawConnection('Bob', 1);
+    await waitFor(() => second.frames.some(frame => frame.type === 'deliver'));
+    expect(second.frames.filter(frame => frame.type === 'deliver').map(frame => (frame as { seq: number }).seq)).toEqual([2]);
+    second.socket.terminate();
+  });
+
+  it('should close connections that do not start with hello', async () => {
+    const socket = new WebSocket(url);
+    const frames: BrokerFrame[] = [];
+    socket.on('message', data => frames.push(decodeFrame<BrokerFrame>(data)));
+    await new Promise(resolve => socket.once('open', resolve));
+
+    socket.send(encodeFrame({ type: 'ack', seq: 1 }));
+    await new Promise(resolve => socket.once('close', resolve));
+
+    expect(frames).toEqual([{ type: 'error', message: 'Expected hello, got ack' }]);
+  });
+
+  it('should answer frames it cannot read with an error', async () => {
+    for (const [data, error] of [
+      ['{"type": "hel', 'Frame is not JSON'],
+      ['[1, 2]', 'Frame has no type'],
+      ['{"type": "hello", "role": 7, "received": 0}', 'hello must name a role'],
+    ]) {
+      const socket = new WebSocket(url);
+      const frames: BrokerFrame[] = [];
+      socket.on('message', frame => frames.push(decodeFrame<BrokerFrame>(frame)));
+      await new Promise(resolve => socket.once('open', resolve));
+
+      socket.send(data);
+      await new Promise(resolve => socket.once('close', resolve));
+
+      expect(frames).toEqual([{ type: 'error', message: error }]);
+    }
+    expect(broker.getConnectedRoles()).toEqual([]);
+  });
+
+  it('should reject sends of messages from another role than the connection', async () => {
+    const alice = await rawConnection('Alice');
+    alice.send({ type: 'send', seq: 1, message: message('Bob', 'Alice', 'Spoof') });
+    await new Promise(resolve => alice.socket.once('close', resolve));
+
+    expect(alice.frames.slice(1)).toEqual([{ type: 'error', message: 'Alice cannot send a message from Bob' }]);
+    expect(broker.getQueueDepth('Alice')).toBe(0);
+  });
+
+  it('should drop a connection whose broker sends frames it cannot read', async () => {
+    const server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    await new Promise(resolve => server.once('listening', resolve));
+    server.on('connection', socket => socket.send('not a frame'));
+    const { port } = server.address() as { port: number };
+
+    await expect(connectWebSocketTransport(`ws://127.0.0.1:${port}`, 'Alice'))
+      .rejects.toThrow('Broker sent Alice a bad frame: Frame is not JSON');
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should reject the sends waiting when the broker refuses the connection', async () => {
+    // Welcomes, then refuses the first send without accepting it
+    const server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    await new Promise(resolve => server.once('listening', resolve));
+    server.on('connection', socket => socket.on('message', data => {
+      const frame = decodeFrame<ClientFrame>(data);
+      if (frame.type === 'hello') socket.send(encodeFrame({ type: 'welcome', accepted: 0 }));
+      if (frame.type === 'send') socket.send(encodeFrame({ type: 'error', message: 'No room' }));
+    }));
+    const { port } = server.address() as { port: number };
+
+    const alice = await connectWebSocketTransport(`ws://127.0.0.1:${port}`, 'Alice');
+    await expect(alice.send(message('Alice', 'Bob', 'Hello'))).rejects.toThrow('Broker rejected Alice: No room');
+    await expect(alice.send(message('Alice', 'Bob', 'Again'))).rejects.toThrow('Transport of Alice is closed');
+
+    alice.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+});
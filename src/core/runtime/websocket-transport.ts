@@ -0,0 +1,323 @@
+/**
+ * WebSocket Message Transport
+ *
+ * Runs the roles of a protocol in separate processes: each process gives
+ * its Executor a WebSocketTransport for its role, connected to a shared
+ * WebSocketBroker (websocket-broker.ts) that routes messages between them.
+ *
+ * Delivery is exactly-once and FIFO per receiving role, across
+ * reconnections. Both directions number their messages:
+ * - Sends carry a sequence number per sending role; the broker accepts
+ *   each number once, and the transport keeps sending a message until the
+ *   broker has accepted it
+ * - Deliveries carry a sequence number per receiving role; the broker
+ *   keeps a message queued until the transport acknowledges it, and the
+ *   transport ignores numbers it has already received
+ *
+ * On reconnection the transport says which delivery it received last, and
+ * the broker which send it accepted last: each side resends the rest.
+ *
+ * Usage (one process per role):
+ * ```typescript
+ * const transport = new WebSocketTransport({ url: 'ws://127.0.0.1:8080', role: 'Buyer' });
+ * await transport.connect();
+ * const executor = new Executor({ role: 'Buyer', cfsm, transport });
+ * ```
+ *
+ * Node only (uses the `ws` package).
+ */
+
+import { WebSocket, type RawData } from 'ws';
+import type { Message, MessageTransport, MessageListener } from './types';
+
+// ============================================================================
+// Wire Protocol
+// ============================================================================
+
+/**
+ * Frames a transport sends to the broker
+ */
+export type ClientFrame =
+  /** First frame of a connection: the role, and the last delivery received */
+  | { type: 'hello'; role: string; received: number }
+  | { type: 'send'; seq: number; message: Message }
+  /** Deliveries up to `seq` are received */
+  | { type: 'ack'; seq: number };
+
+/**
+ * Frames the broker sends to a transport
+ */
+export type BrokerFrame =
+  /** Reply to hello: the last send accepted from the role */
+  | { type: 'welcome'; accepted: number }
+  | { type: 'accepted'; seq: number }
+  | { type: 'deliver'; seq: number; message: Message }
+  | { type: 'error'; message: string };
+
+export function encodeFrame(frame: ClientFrame | BrokerFrame): string {
+  return JSON.stringify(frame);
+}
+
+/**
+ * @throws Error if the data is not a JSON object with a frame type
+ */
+export function decodeFrame<T extends ClientFrame | BrokerFrame>(data: RawData): T {
+  let frame: unknown;
+  try {
+    frame = JSON.parse(data.toString());
+  } catch {
+    throw new Error('Frame is not JSON');
+  }
+  if (typeof frame !== 'object' || frame === null || typeof (frame as { type?: unknown }).type !== 'string') {
+    throw new Error('Frame has no type');
+  }
+  return frame as T;
+}
+
+// ============================================================================
+// Transport
+// ============================================================================
+
+export interface WebSocketTransportOptions {
+  /** Broker URL, e.g. `ws://127.0.0.1:8080` */
+  url: string;
+
+  /** Role whose messages this transport sends and receives */
+  role: string;
+
+  /** Delay before reconnecting after the connection drops, in ms (default: 100) */
+  reconnectDelay?: number;
+}
+
+interface PendingSend {
+  seq: number;
+  message: Message;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Message transport of one role, through a WebSocketBroker
+ *
+ * Messages delivered to the role wait in a local inbox, so hasMessage and
+ * getPendingMessages answer synchronously as the Executor expects.
+ */
+export class WebSocketTransport implements MessageTransport {
+  private readonly url: string;
+  private readonly role: string;
+  private readonly reconnectDelay: number;
+
+  private socket?: WebSocket;
+  private connected = false;
+  private closed = false;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+
+  // Messages delivered to the role, not yet received (FIFO)
+  private inbox: Message[] = [];
+  // Sequence number of the last delivery received
+  private received = 0;
+
+  // Sends not yet accepted by the broker, in sequence order
+  private outbox: PendingSend[] = [];
+  private nextSeq = 1;
+
+  private listeners: Set<MessageListener> = new Set();
+
+  constructor(options: WebSocketTransportOptions) {
+    this.url = options.url;
+    this.role = options.role;
+    this.reconnectDelay = options.reconnectDelay ?? 100;
+  }
+
+  /**
+   * Connect to the broker; rejects if the first connection fails
+   * (later connections are retried until close())
+   */
+  connect(): Promise<void> {
+    return new Promise((resolve, reject) => this.open({ resolve, reject }));
+  }
+
+  /**
+   * Close the connection for good; sends not yet accepted are rejected
+   */
+  close(): void {
+    this.closed = true;
+    this.connected = false;
+    clearTimeout(this.reconnectTimer);
+    this.socket?.close();
+    this.rejectSends(pending => new Error(`Transport of ${this.role} closed before ${pending.message.label} was accepted`));
+  }
+
+  /**
+   * Whether the transport is connected to the broker
+   */
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Send a message of this role; resolves once the broker has accepted it
+   */
+  send(message: Message): Promise<void> {
+    if (message.from !== this.role) {
+      return Promise.reject(new Error(`Transport of ${this.role} cannot send a message from ${message.from}`));
+    }
+    if (this.closed) {
+      return Promise.reject(new Error(`Transport of ${this.role} is closed`));
+    }
+
+    return new Promise((resolve, reject) => {
+      const pending: PendingSend = { seq: this.nextSeq++, message, resolve, reject };
+      this.outbox.push(pending);
+      if (this.connected) {
+        this.write({ type: 'send', seq: pending.seq, message });
+      }
+    });
+  }
+
+  /**
+   * Receive next message for the role (FIFO)
+   * Non-blocking: returns undefined if the inbox is empty or for other roles
+   */
+  async receive(role: string): Promise<Message | undefined> {
+    return role === this.role ? this.inbox.shift() : undefined;
+  }
+
+  hasMessage(role: string): boolean {
+    return role === this.role && this.inbox.length > 0;
+  }
+
+  getPendingMessages(role: string): Message[] {
+    return role === this.role ? [...this.inbox] : [];
+  }
+
+  /**
+   * Subscribe to message events: messages this role sends (once accepted)
+   * and messages delivered to it
+   */
+  onMessage(listener: MessageListener): void {
+    this.listeners.add(listener);
+  }
+
+  offMessage(listener: MessageListener): void {
+    this.listeners.delete(listener);
+  }
+
+  // ==========================================================================
+  // Connection
+  // ==========================================================================
+
+  private open(attempt?: { resolve: () => void; reject: (error: Error) => void }): void {
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    // A first connection that fails, or a connection the broker refuses,
+    // is reported (to connect() and to the sends waiting), not retried
+    const fail = (error: Error) => {
+      attempt?.reject(error);
+      attempt = undefined;
+      this.closed = true;
+      this.connected = false;
+      this.rejectSends(() => error);
+    };
+
+    socket.on('open', () => {
+      this.write({ type: 'hello', role: this.role, received: this.received });
+    });
+
+    socket.on('message', (data: RawData) => {
+      let frame: BrokerFrame;
+      try {
+        frame = decodeFrame<BrokerFrame>(data);
+      } catch (error) {
+        fail(new Error(`Broker sent ${this.role} a bad frame: ${(error as Error).message}`));
+        socket.close();
+        return;
+      }
+
+      if (frame.type === 'welcome') {
+        this.connected = true;
+        this.resendAfter(frame.accepted);
+        attempt?.resolve();
+        attempt = undefined;
+      } else if (frame.type === 'error') {
+        // The broker closes the connection after a protocol error
+        fail(new Error(`Broker rejected ${this.role}: ${frame.message}`));
+      } else {
+        this.handle(frame);
+      }
+    });
+
+    socket.on('error', error => {
+      if (attempt) fail(new Error(`Cannot connect ${this.role} to ${this.url}: ${error.message}`));
+    });
+
+    socket.on('close', () => {
+      if (this.socket !== socket) return;
+      this.connected = false;
+      if (attempt) fail(new Error(`Broker closed the connection of ${this.role}`));
+      if (!this.closed) {
+        this.reconnectTimer = setTimeout(() => this.open(), this.reconnectDelay);
+      }
+    });
+  }
+
+  private handle(frame: Exclude<BrokerFrame, { type: 'welcome' | 'error' }>): void {
+    switch (frame.type) {
+      case 'accepted':
+        while (this.outbox.length > 0 && this.outbox[0].seq <= frame.seq) {
+          const pending = this.outbox.shift()!;
+          pending.resolve();
+          this.notify(pending.message);
+        }
+        break;
+
+      case 'deliver':
+        // Redelivered after a lost acknowledgement: already received
+        if (frame.seq > this.received) {
+          this.received = frame.seq;
+          this.inbox.push(frame.message);
+          this.notify(frame.message);
+        }
+        this.write({ type: 'ack', seq: frame.seq });
+        break;
+    }
+  }
+
+  /**
+   * Resend what the broker has not accepted (it accepted up to `accepted`)
+   */
+  private resendAfter(accepted: number): void {
+    this.handle({ type: 'accepted', seq: accepted });
+    for (const pending of this.outbox) {
+      this.write({ type: 'send', seq: pending.seq, message: pending.message });
+    }
+  }
+
+  /**
+   * Reject every send not accepted yet
+   */
+  private rejectSends(reason: (pending: PendingSend) => Error): void {
+    for (const pending of this.outbox) {
+      pending.reject(reason(pending));
+    }
+    this.outbox = [];
+  }
+
+  private write(frame: ClientFrame): void {
+    this.socket?.send(encodeFrame(frame));
+  }
+
+  private notify(message: Message): void {
+    this.listeners.forEach(listener => listener(message));
+  }
+}
+
+/**
+ * Create a WebSocket transport for a role and connect it to a broker
+ */
+export async function connectWebSocketTransport(url: string, role: string): Promise<WebSocketTransport> {
+  const transport = new WebSocketTransport({ url, role });
+  await transport.connect();
+  return transport;
+}
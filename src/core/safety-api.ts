@@ -22,11 +22,12 @@ import { parse } from './parser/parser';
 import { buildCFG } from './cfg/builder';
 import { projectAll } from './projection/projector';
 import { BasicSafety } from './safety/safety-checker';
+import { DeadlockFreedom, Liveness, LivePlus } from './safety/progress-checker';
 import { ContextReducer } from './safety/context-reducer';
 import { createInitialContext } from './safety/utils';
 
 import type {
-  SafetyCheckResult,
+  SafetyProperty,
   SafetyViolation,
   TypingContext,
   Communication,
@@ -37,13 +38,34 @@ import type { CFSM } from './projection/types';
 // Public API Types
 // ============================================================================
 
+/**
+ * Property to check, from weakest to strongest (Lemma 5.9):
+ * - safe: send/receive compatibility (Definition 4.1)
+ * - df: safe, and no reachable context is stuck before termination
+ * - live: df, and every pending input/output can eventually fire (some
+ *   path lets it, not necessarily every one)
+ * - live+: live, and every pending input/output fires on every fair path
+ */
+export type SafetyPropertyName = 'safe' | 'df' | 'live' | 'live+';
+
+/**
+ * Options for checkProtocolSafety
+ */
+export interface SafetyCheckOptions {
+  /** Property to check (default: 'safe') */
+  property?: SafetyPropertyName;
+}
+
 /**
  * Result of parsing and checking a protocol
  */
 export interface ProtocolCheckResult {
-  /** Whether the protocol is safe */
+  /** Whether the protocol satisfies the checked property */
   safe: boolean;
 
+  /** Property that was checked */
+  property: SafetyPropertyName;
+
   /** Violations found (empty if safe) */
   violations: SafetyViolation[];
 
@@ -61,6 +83,9 @@ export interface ProtocolCheckResult {
     /** Number of states explored during safety check */
     statesExplored: number;
 
+    /** Number of states skipped by partial-order reduction */
+    statesPruned: number;
+
     /** Time taken for safety check (ms) */
     checkTime: number;
 
@@ -120,6 +145,7 @@ export interface ProtocolError {
  * Parses the protocol, projects to CFSMs, and runs safety check.
  *
  * @param protocolCode - Scribble protocol source code
+ * @param options - Property to check (basic safety by default)
  * @returns Check result with safety status and violations
  *
  * @example
@@ -142,11 +168,17 @@ export interface ProtocolError {
  * } else {
  *   console.log('Violations:', result.violations);
  * }
+ *
+ * // Stronger guarantee: every role eventually gets to communicate
+ * const live = checkProtocolSafety(protocolCode, { property: 'live' });
  * ```
  */
 export function checkProtocolSafety(
-  protocolCode: string
+  protocolCode: string,
+  options: SafetyCheckOptions = {}
 ): ProtocolCheckResult | ProtocolError {
+  const property = options.property ?? 'safe';
+
   try {
     // Parse protocol
     const ast = parse(protocolCode);
@@ -179,7 +211,7 @@ export function checkProtocolSafety(
     const context = createInitialContext(cfsms, protocolDecl.name);
 
     // Run safety check
-    const checker = new BasicSafety();
+    const checker = createSafetyProperty(property);
     const safetyResult = checker.check(context);
 
     // Calculate metrics
@@ -190,6 +222,7 @@ export function checkProtocolSafety(
 
     return {
       safe: safetyResult.safe,
+      property,
       violations: safetyResult.violations,
       protocol: {
         name: protocolDecl.name,
@@ -197,6 +230,7 @@ export function checkProtocolSafety(
       },
       metrics: {
         statesExplored: safetyResult.diagnostics?.statesExplored || 0,
+        statesPruned: safetyResult.diagnostics?.statesPruned || 0,
         checkTime: safetyResult.diagnostics?.checkTime || 0,
         roleCount: cfsms.size,
         totalCFSMStates,
@@ -385,6 +419,22 @@ export function getRoleCFSM(
 // Utility Functions
 // ============================================================================
 
+/**
+ * Checker for a property
+ */
+export function createSafetyProperty(property: SafetyPropertyName): SafetyProperty {
+  switch (property) {
+    case 'safe':
+      return new BasicSafety();
+    case 'df':
+      return new DeadlockFreedom();
+    case 'live':
+      return new Liveness();
+    case 'live+':
+      return new LivePlus();
+  }
+}
+
 /**
  * Format a violation for display
  */
@@ -404,6 +454,12 @@ export function formatViolation(violation: SafetyViolation): string {
     case 'stuck-state':
       return `Stuck state: ${violation.message}`;
 
+    case 'deadlock':
+      return `Deadlock: ${violation.message}`;
+
+    case 'starvation':
+      return `Starvation: ${violation.message}`;
+
     default:
       return violation.message;
   }
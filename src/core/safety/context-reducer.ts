@@ -34,6 +34,7 @@ import type {
 } from '../projection/types';
 
 import { applyTauTransitions } from './utils';
+import { ampleCommunications } from './partial-order';
 
 /**
  * ContextReducer - Advances typing contexts through protocol execution
@@ -93,16 +94,21 @@ export class ContextReducer {
       currentState: senderTrans.to,
     });
 
-    // Advance receiver's CFSM
-    const receiverInstance = context.cfsms.get(comm.receiver)!;
-    const receiverTrans = this.findTransition(
-      receiverInstance.machine,
-      comm.receiverTransition
-    );
-    newCFSMs.set(comm.receiver, {
-      machine: receiverInstance.machine,
-      currentState: receiverTrans.to,
-    });
+    // Advance receiver's CFSM (every receiver's, for a multicast)
+    const receivers = comm.multicast ?? [
+      { receiver: comm.receiver, receiverTransition: comm.receiverTransition },
+    ];
+    for (const { receiver, receiverTransition } of receivers) {
+      const receiverInstance = context.cfsms.get(receiver)!;
+      const receiverTrans = this.findTransition(
+        receiverInstance.machine,
+        receiverTransition
+      );
+      newCFSMs.set(receiver, {
+        machine: receiverInstance.machine,
+        currentState: receiverTrans.to,
+      });
+    }
 
     let newContext = {
       session: context.session,
@@ -130,6 +136,22 @@ export class ContextReducer {
     return enabled.communications.map((comm) => this.reduceBy(context, comm));
   }
 
+  /**
+   * Find the communications needed to explore a context
+   *
+   * Partial-order reduction: an ample subset of the enabled
+   * communications, leaving out those independent of it (on disjoint
+   * channels), which stay enabled after it. Exploring only ample sets
+   * (fully expanding a context that would close a loop) reaches every
+   * deadlock and send/receive mismatch that full exploration reaches.
+   *
+   * @param context - Current context
+   * @returns Ample set of enabled communications
+   */
+  findAmpleCommunications(context: TypingContext): Communication[] {
+    return ampleCommunications(context, this.findEnabledCommunications(context).communications);
+  }
+
   /**
    * Find all enabled communications in a context
    *
@@ -137,6 +159,9 @@ export class ContextReducer {
    * - Role p has an enabled send p→q:m
    * - Role q has an enabled receive q←p:m
    *
+   * A multicast p→{q1,...,qn}:m is a single communication, enabled when
+   * every receiver has an enabled receive.
+   *
    * @param context - Current context
    * @returns Enabled communications with terminal/stuck flags
    */
@@ -159,32 +184,34 @@ export class ContextReducer {
         const receivers = Array.isArray(sendAction.to)
           ? sendAction.to
           : [sendAction.to];
+        const msgLabel = sendAction.message.label;
 
-        for (const roleQ of receivers) {
+        const receiveTransitions = receivers.map(roleQ => {
           const instanceQ = context.cfsms.get(roleQ);
-          if (!instanceQ) continue;
+          if (!instanceQ) return undefined;
 
           const { machine: cfsmQ, currentState: stateQ } = instanceQ;
-          const msgLabel = sendAction.message.label;
-
           const receiveTrans = this.findMatchingReceive(
             cfsmQ,
             stateQ,
             roleP,
             msgLabel
           );
-
-          if (receiveTrans) {
-            communications.push({
-              sender: roleP,
-              receiver: roleQ,
-              message: msgLabel,
-              payloadType: sendAction.message.payload?.payloadType,
-              senderTransition: sendTrans.id,
-              receiverTransition: receiveTrans.id,
-            });
-          }
-        }
+          return receiveTrans && { receiver: roleQ, receiverTransition: receiveTrans.id };
+        });
+
+        if (receiveTransitions.some(r => !r)) continue;
+        const [first, ...rest] = receiveTransitions as Array<{ receiver: string; receiverTransition: string }>;
+
+        communications.push({
+          sender: roleP,
+          receiver: first.receiver,
+          message: msgLabel,
+          payloadType: sendAction.message.payload?.payloadType,
+          senderTransition: sendTrans.id,
+          receiverTransition: first.receiverTransition,
+          ...(rest.length > 0 && { multicast: [first, ...rest] }),
+        });
       }
     }
 
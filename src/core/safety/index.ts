@@ -22,9 +22,17 @@ export type {
 
 // Safety checker implementations
 export { BasicSafety } from './safety-checker';
+export { DeadlockFreedom, Liveness, LivePlus } from './progress-checker';
+
+// State space exploration
+export { exploreContexts, pendingRoles } from './progress-checker';
+export type { StateSpace, StateSpaceEdge } from './progress-checker';
 
 // Context reducer
 export { ContextReducer } from './context-reducer';
 
+// Partial-order reduction
+export { ampleCommunications, ContextHasher } from './partial-order';
+
 // Utilities
 export { createInitialContext } from './utils';
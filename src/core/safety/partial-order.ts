@@ -0,0 +1,197 @@
+/**
+ * Partial-Order Reduction for Typing Context Exploration
+ *
+ * Communications on disjoint channels commute: A → B: m and C → D: n reach
+ * the same context in either order. Exploring every interleaving of
+ * independent communications is what makes the state space of protocols
+ * with several `par` blocks or many independent roles blow up.
+ *
+ * AMPLE SETS: at each context only the enabled communications of a set of
+ * roles R are explored, where R is closed under
+ *
+ * 1. current partners: every role a role in R can communicate with from its
+ *    current state. No communication outside R can then touch R before one
+ *    inside R fires, so the others stay enabled and commute with it
+ *    (persistence: deadlocks are preserved).
+ * 2. unexpected senders: every role that may later send a role in R a
+ *    message it cannot receive at its current state. Postponing R would
+ *    reach that mismatch (Definition 4.1); exploring R first might not.
+ *
+ * Safety violations involve a sender and a receiver, so with (1) and (2)
+ * every violation reachable by full exploration has a counterpart in the
+ * reduced space: the verdict is the same, only fewer contexts are visited.
+ *
+ * CYCLE PROVISO: when an ample communication leads to an already visited
+ * context, the context is fully expanded, so that no communication is
+ * postponed forever around a loop.
+ *
+ * @reference Godefroid, P. (1996). Partial-Order Methods for the Verification
+ *            of Concurrent Systems. LNCS 1032, Chapters 4 and 6.
+ * @reference Valmari, A. (1990). A Stubborn Attack on State Explosion. CAV 1990.
+ */
+
+import type { TypingContext, Communication } from './types';
+import type { CFSM, CFSMTransition, SendAction, ReceiveAction } from '../projection/types';
+
+/**
+ * Roles taking part in a communication (every receiver of a multicast)
+ */
+export function participants(communication: Communication): string[] {
+  const receivers = communication.multicast?.map(m => m.receiver) ?? [communication.receiver];
+  return [communication.sender, ...receivers];
+}
+
+/**
+ * Enabled communications that suffice for exploring a context
+ *
+ * The communications of the smallest closed role set with at least one
+ * enabled communication, or all of them if no such set is smaller than the
+ * whole context.
+ *
+ * @param context - Context being explored
+ * @param enabled - All enabled communications at the context
+ * @returns Ample set (a subset of enabled)
+ */
+export function ampleCommunications(
+  context: TypingContext,
+  enabled: Communication[]
+): Communication[] {
+  if (enabled.length <= 1) return enabled;
+
+  let best: Communication[] = enabled;
+  const tried = new Set<string>();
+
+  for (const communication of enabled) {
+    if (tried.has(communication.sender)) continue;
+
+    const roles = closedRoleSet(context, communication.sender);
+    for (const role of roles) tried.add(role);
+    if (roles.size === context.cfsms.size) continue;
+
+    const ample = enabled.filter(c => roles.has(c.sender));
+    if (ample.length < best.length) best = ample;
+  }
+
+  return best;
+}
+
+/**
+ * Smallest role set containing a role and closed under (1) and (2)
+ */
+function closedRoleSet(context: TypingContext, seed: string): Set<string> {
+  const roles = new Set([seed]);
+  const pending = [seed];
+
+  const add = (role: string) => {
+    if (!roles.has(role) && context.cfsms.has(role)) {
+      roles.add(role);
+      pending.push(role);
+    }
+  };
+
+  while (pending.length > 0) {
+    const role = pending.pop()!;
+    const { machine, currentState } = context.cfsms.get(role)!;
+
+    // (1) Current partners
+    for (const t of outgoing(machine, currentState)) {
+      if (t.action.type === 'send') {
+        const to = (t.action as SendAction).to;
+        for (const receiver of Array.isArray(to) ? to : [to]) add(receiver);
+      } else if (t.action.type === 'receive') {
+        add((t.action as ReceiveAction).from);
+      }
+    }
+
+    // (2) Roles that may later send `role` something it cannot receive now
+    for (const [other, instance] of context.cfsms) {
+      if (roles.has(other)) continue;
+      const unexpected = futureSends(instance.machine, instance.currentState).some(({ to, label }) =>
+        to.includes(role) && !canReceive(machine, currentState, other, label)
+      );
+      if (unexpected) add(other);
+    }
+  }
+
+  return roles;
+}
+
+function outgoing(machine: CFSM, state: string): CFSMTransition[] {
+  return machine.transitions.filter(t => t.from === state);
+}
+
+function canReceive(machine: CFSM, state: string, sender: string, label: string): boolean {
+  return outgoing(machine, state).some(t =>
+    t.action.type === 'receive' &&
+    (t.action as ReceiveAction).from === sender &&
+    (t.action as ReceiveAction).message.label === label
+  );
+}
+
+const futureSendCache = new WeakMap<CFSM, Map<string, Array<{ to: string[]; label: string }>>>();
+
+/**
+ * Sends a machine can perform from a state onwards
+ */
+function futureSends(machine: CFSM, state: string): Array<{ to: string[]; label: string }> {
+  let byState = futureSendCache.get(machine);
+  if (!byState) {
+    byState = new Map();
+    futureSendCache.set(machine, byState);
+  }
+
+  let sends = byState.get(state);
+  if (!sends) {
+    sends = [];
+    const seen = new Set([state]);
+    const stack = [state];
+    while (stack.length > 0) {
+      for (const t of outgoing(machine, stack.pop()!)) {
+        if (t.action.type === 'send') {
+          const to = (t.action as SendAction).to;
+          sends.push({ to: Array.isArray(to) ? to : [to], label: (t.action as SendAction).message.label });
+        }
+        if (!seen.has(t.to)) {
+          seen.add(t.to);
+          stack.push(t.to);
+        }
+      }
+    }
+    byState.set(state, sends);
+  }
+  return sends;
+}
+
+// ============================================================================
+// State Hashing
+// ============================================================================
+
+/**
+ * Compact keys for contexts of one session
+ *
+ * Roles are taken in a fixed order and each local state is interned as a
+ * number, so a key is a short list of integers instead of role and state
+ * names. Keys are exact (no hash collisions).
+ */
+export class ContextHasher {
+  private readonly roles: string[];
+  private readonly stateIds = new Map<string, number>();
+
+  constructor(context: TypingContext) {
+    this.roles = [...context.cfsms.keys()].sort();
+  }
+
+  key(context: TypingContext): string {
+    return this.roles.map(role => this.stateId(role, context.cfsms.get(role)!.currentState)).join(',');
+  }
+
+  private stateId(role: string, state: string): number {
+    const key = `${role}\u0000${state}`;
+    let id = this.stateIds.get(key);
+    if (id === undefined) {
+      id = this.stateIds.size;
+      this.stateIds.set(key, id);
+    }
+    return id;
+  }
+}
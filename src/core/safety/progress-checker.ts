@@ -0,0 +1,523 @@
+/**
+ * Progress Properties - Deadlock-Freedom and Liveness (Section 5 of "Less is More")
+ *
+ * Strengthenings of the safety property of Definition 4.1, checked on the
+ * reachable typing contexts explored with the ContextReducer:
+ *
+ * - df:    every context that cannot reduce is terminated
+ *            Γ →* Γ' ↛  ⟹  Γ' = end
+ * - live:  every role with pending I/O can still perform it
+ *            Γ →* Γ', p pending in Γ'  ⟹  ∃ Γ' →* Γ'' → involving p
+ * - live+: every role with pending I/O performs it under any fair scheduler
+ *            Γ →* Γ', p pending in Γ'  ⟹  every fair path from Γ' involves p
+ *
+ * A path is fair if, whenever a communication from p to q is enabled, some
+ * communication from p to q eventually fires (Definition 5.2). A fair path
+ * can still pick the same branch forever: with the local types
+ *
+ *   A: μX. B⊕{ More.X, Stop.C⊕Go.end }   B: μX. A&{ More.X, Stop.end }   C: A&Go.end
+ *
+ * the path (A → B: More)^ω is fair, and C waits forever on it. C can get Go
+ * (the context is live) but no scheduler guarantees it (it is not live+).
+ *
+ * A role is pending if it is neither at a terminal state nor able to reach
+ * one through tau steps (a recursion it may leave, an unfinished branch it
+ * does not take part in).
+ *
+ * HIERARCHY (Lemma 5.9): live+ ⊂ live ⊂ df ⊂ safe, as sets of the typing
+ * contexts satisfying each property (see SafetyProperty). Each check runs
+ * the weaker ones first, so a violation of a weaker property is reported
+ * as such.
+ *
+ * Every violation carries the reductions from the initial context to the
+ * context where it occurs (`path`); live+ violations also carry the fair
+ * cycle that starves the role (`details.cycle`).
+ *
+ * @reference Scalas, A., & Yoshida, N. (2019). Less is More: Multiparty
+ *            Session Types Revisited. POPL 2019, Section 5.
+ */
+
+import type {
+  TypingContext,
+  SafetyProperty,
+  SafetyCheckResult,
+  SafetyViolation,
+  Communication,
+} from './types';
+
+import { BasicSafety } from './safety-checker';
+import { ContextReducer } from './context-reducer';
+import { ampleCommunications, ContextHasher } from './partial-order';
+import { formatContext } from './utils';
+
+/**
+ * DeadlockFreedom - df(Γ)
+ *
+ * Safe, and no reachable context is stuck before every role is done.
+ */
+export class DeadlockFreedom implements SafetyProperty {
+  readonly name: string = 'DeadlockFreedom';
+  readonly description: string = 'Ensures safety and that no reachable context is stuck before termination';
+
+  /** Whether the property can be checked on a partial-order reduced space */
+  protected readonly reducible: boolean = true;
+
+  check(context: TypingContext): SafetyCheckResult {
+    const startTime = Date.now();
+
+    const safety = new BasicSafety().check(context);
+    if (!safety.safe) {
+      return { ...safety, diagnostics: { ...safety.diagnostics, checkTime: Date.now() - startTime } };
+    }
+
+    const space = exploreContexts(context, this.reducible);
+    const violations = this.violations(space);
+
+    return {
+      safe: violations.length === 0,
+      violations,
+      diagnostics: {
+        checkTime: Date.now() - startTime,
+        statesExplored: space.contexts.length,
+        statesPruned: space.pruned,
+      },
+    };
+  }
+
+  /**
+   * Violations of this property on an explored state space
+   */
+  protected violations(space: StateSpace): SafetyViolation[] {
+    const stuck = space.contexts.findIndex((context, i) =>
+      space.edges[i].length === 0 && pendingRoles(context).length > 0
+    );
+    if (stuck < 0) return [];
+
+    const context = space.contexts[stuck];
+    const roles = pendingRoles(context);
+    return [{
+      type: 'deadlock',
+      roles,
+      message: `Deadlock at ${formatContext(context)}: ${roles.join(', ')} cannot progress and ${roles.length === 1 ? 'has' : 'have'} not terminated`,
+      context,
+      path: pathTo(space, stuck),
+    }];
+  }
+}
+
+/**
+ * Liveness - live(Γ)
+ *
+ * Deadlock-free, and from every reachable context each pending role can
+ * still communicate: some path lets it fire (EF), not every path does.
+ * That every fair path does (AF under fairness) is LivePlus.
+ */
+export class Liveness extends DeadlockFreedom {
+  readonly name: string = 'Liveness';
+  readonly description: string = 'Ensures deadlock-freedom and that every pending input/output can eventually fire';
+
+  // Starvation is about infinite runs, which a reduced space may cut short
+  protected readonly reducible: boolean = false;
+
+  protected violations(space: StateSpace): SafetyViolation[] {
+    const deadlocks = super.violations(space);
+    if (deadlocks.length > 0) return deadlocks;
+
+    for (const role of roles(space)) {
+      // Contexts from which some reduction involving the role is reachable
+      const canAct = backwardClosure(space, edge => involves(edge.communication, role));
+
+      const starved = space.contexts.findIndex((context, i) =>
+        !canAct.has(i) && pendingRoles(context).includes(role)
+      );
+      if (starved < 0) continue;
+
+      const context = space.contexts[starved];
+      return [{
+        type: 'starvation',
+        roles: [role],
+        message: `${role} is waiting at ${context.cfsms.get(role)!.currentState} in ${formatContext(context)}, but can never communicate again`,
+        context,
+        path: pathTo(space, starved),
+      }];
+    }
+
+    return [];
+  }
+}
+
+/**
+ * LivePlus - live+(Γ)
+ *
+ * Live, and no fair path leaves a pending role waiting forever.
+ */
+export class LivePlus extends Liveness {
+  readonly name: string = 'LivePlus';
+  readonly description: string = 'Ensures liveness, and that every pending input/output fires under every fair scheduler';
+
+  protected violations(space: StateSpace): SafetyViolation[] {
+    const live = super.violations(space);
+    if (live.length > 0) return live;
+
+    for (const role of roles(space)) {
+      const cycle = fairCycleWithout(space, role);
+      if (!cycle) continue;
+
+      const context = space.contexts[cycle.entry];
+      return [{
+        type: 'starvation',
+        roles: [role],
+        message: `${role} is waiting at ${context.cfsms.get(role)!.currentState} in ${formatContext(context)}, and a fair scheduler can repeat ${cycle.communications.map(formatStep).join('; ')} forever`,
+        context,
+        path: pathTo(space, cycle.entry),
+        details: {
+          cycle: cycle.communications,
+        },
+      }];
+    }
+
+    return [];
+  }
+}
+
+// ============================================================================
+// State Space
+// ============================================================================
+
+/**
+ * Reachable contexts, in breadth-first order, with the reductions between
+ * them and the first reduction reaching each context
+ */
+export interface StateSpace {
+  contexts: TypingContext[];
+  edges: StateSpaceEdge[][];
+  parents: (StateSpaceEdge & { from: number })[];
+  /** Successors skipped by partial-order reduction */
+  pruned: number;
+}
+
+export interface StateSpaceEdge {
+  communication: Communication;
+  to: number;
+}
+
+/**
+ * Explore the contexts reachable from the initial one
+ *
+ * With partial-order reduction only an ample set of the enabled reductions
+ * is followed (see partial-order.ts); every reachable deadlock is still
+ * reached, but cycles may be cut short, so properties about infinite runs
+ * need the full space.
+ */
+export function exploreContexts(initial: TypingContext, reduce: boolean): StateSpace {
+  const reducer = new ContextReducer();
+  const hasher = new ContextHasher(initial);
+  const space: StateSpace = { contexts: [], edges: [], parents: [], pruned: 0 };
+  const index = new Map<string, number>();
+  const postponed: Array<[TypingContext, Communication]> = [];
+
+  const visit = (context: TypingContext): number => {
+    const key = hasher.key(context);
+    let id = index.get(key);
+    if (id === undefined) {
+      id = space.contexts.length;
+      index.set(key, id);
+      space.contexts.push(context);
+      space.edges.push([]);
+    }
+    return id;
+  };
+
+  visit(initial);
+  for (let id = 0; id < space.contexts.length; id++) {
+    const current = space.contexts[id];
+    const enabled = reducer.findEnabledCommunications(current).communications;
+    let ample = reduce ? ampleCommunications(current, enabled) : enabled;
+    let successors = ample.map(communication => reducer.reduceBy(current, communication));
+
+    // Cycle proviso: expand fully when the reduction would close a loop
+    if (ample.length < enabled.length && successors.some(successor => index.has(hasher.key(successor)))) {
+      ample = enabled;
+      successors = ample.map(communication => reducer.reduceBy(current, communication));
+    }
+
+    ample.forEach((communication, i) => {
+      const to = visit(successors[i]);
+      const edge = { communication, to };
+      space.edges[id].push(edge);
+      if (to !== 0 && !space.parents[to]) space.parents[to] = { ...edge, from: id };
+    });
+    for (const communication of enabled) {
+      if (!ample.includes(communication)) postponed.push([current, communication]);
+    }
+  }
+
+  const pruned = new Set<string>();
+  for (const [context, communication] of postponed) {
+    const key = hasher.key(reducer.reduceBy(context, communication));
+    if (!index.has(key)) pruned.add(key);
+  }
+  space.pruned = pruned.size;
+
+  return space;
+}
+
+function receiversOf(communication: Communication): string[] {
+  return communication.multicast?.map(m => m.receiver) ?? [communication.receiver];
+}
+
+function involves(communication: Communication, role: string): boolean {
+  return communication.sender === role || receiversOf(communication).includes(role);
+}
+
+function roles(space: StateSpace): string[] {
+  return [...space.contexts[0].cfsms.keys()];
+}
+
+/**
+ * Roles that are neither at a terminal state nor able to reach one through
+ * tau transitions
+ */
+export function pendingRoles(context: TypingContext): string[] {
+  const pending: string[] = [];
+
+  for (const [role, { machine, currentState }] of context.cfsms) {
+    const terminal = new Set(machine.terminalStates);
+    const seen = new Set([currentState]);
+    const stack = [currentState];
+    let done = false;
+
+    while (stack.length > 0 && !done) {
+      const state = stack.pop()!;
+      if (terminal.has(state)) done = true;
+      for (const t of machine.transitions) {
+        if (t.from === state && t.action.type === 'tau' && !seen.has(t.to)) {
+          seen.add(t.to);
+          stack.push(t.to);
+        }
+      }
+    }
+
+    if (!done) pending.push(role);
+  }
+
+  return pending;
+}
+
+/**
+ * Reductions from the initial context to a context
+ */
+function pathTo(space: StateSpace, id: number): Communication[] {
+  const path: Communication[] = [];
+  for (let current = id; current !== 0; current = space.parents[current].from) {
+    path.unshift(space.parents[current].communication);
+  }
+  return path;
+}
+
+/**
+ * Contexts from which an edge satisfying the predicate is reachable
+ */
+function backwardClosure(
+  space: StateSpace,
+  matches: (edge: StateSpaceEdge) => boolean
+): Set<number> {
+  const predecessors = space.contexts.map((): number[] => []);
+  const reached = new Set<number>();
+
+  space.edges.forEach((edges, from) => {
+    for (const edge of edges) {
+      predecessors[edge.to].push(from);
+      if (matches(edge)) reached.add(from);
+    }
+  });
+
+  const stack = [...reached];
+  while (stack.length > 0) {
+    for (const from of predecessors[stack.pop()!]) {
+      if (!reached.has(from)) {
+        reached.add(from);
+        stack.push(from);
+      }
+    }
+  }
+
+  return reached;
+}
+
+// ============================================================================
+// Fair Cycles
+// ============================================================================
+
+/**
+ * A fair cycle of reductions that never involve a role that is pending all
+ * along it
+ *
+ * The role's state does not change on the cycle, so it is pending in one
+ * context of the cycle if and only if it is pending in all of them. The
+ * cycle is fair if every pair of roles that can communicate somewhere on
+ * it also communicates on it.
+ *
+ * Found by refining the strongly connected components of the reductions
+ * that avoid the role: contexts where a pair is enabled that the component
+ * never fires are dropped, and the components are recomputed, until every
+ * remaining component is fair.
+ */
+function fairCycleWithout(
+  space: StateSpace,
+  role: string
+): { entry: number; communications: Communication[] } | undefined {
+  const avoids = (edge: StateSpaceEdge) => !involves(edge.communication, role);
+
+  let candidates = space.contexts
+    .map((_, i) => i)
+    .filter(i => pendingRoles(space.contexts[i]).includes(role));
+
+  for (;;) {
+    const allowed = new Set(candidates);
+    const components = stronglyConnected(space, allowed, avoids);
+    const unfair = new Set<number>();
+
+    for (const component of components) {
+      const members = new Set(component);
+      const internal = component.flatMap(i =>
+        space.edges[i].filter(edge => avoids(edge) && members.has(edge.to))
+      );
+      if (internal.length === 0) {
+        component.forEach(i => unfair.add(i));
+        continue;
+      }
+
+      const fired = new Set(internal.flatMap(edge => pairsOf(edge.communication)));
+      const starving = component.filter(i =>
+        space.edges[i].some(edge => pairsOf(edge.communication).some(pair => !fired.has(pair)))
+      );
+      if (starving.length === 0) {
+        return { entry: component[0], communications: cycleThrough(space, component, avoids) };
+      }
+      starving.forEach(i => unfair.add(i));
+    }
+
+    const next = candidates.filter(i => !unfair.has(i));
+    if (next.length === candidates.length || next.length === 0) return undefined;
+    candidates = next;
+  }
+}
+
+/**
+ * Sender→receiver pairs a communication fires (one per receiver of a multicast)
+ */
+function pairsOf(communication: Communication): string[] {
+  return receiversOf(communication).map(receiver => `${communication.sender}->${receiver}`);
+}
+
+/**
+ * Strongly connected components (Tarjan) of the contexts in a set, along
+ * the edges accepted by the filter
+ */
+function stronglyConnected(
+  space: StateSpace,
+  allowed: Set<number>,
+  follows: (edge: StateSpaceEdge) => boolean
+): number[][] {
+  const components: number[][] = [];
+  const index = new Map<number, number>();
+  const low = new Map<number, number>();
+  const onStack = new Set<number>();
+  const stack: number[] = [];
+
+  const connect = (v: number): void => {
+    index.set(v, index.size);
+    low.set(v, index.get(v)!);
+    stack.push(v);
+    onStack.add(v);
+
+    for (const edge of space.edges[v]) {
+      if (!follows(edge) || !allowed.has(edge.to)) continue;
+      if (!index.has(edge.to)) {
+        connect(edge.to);
+        low.set(v, Math.min(low.get(v)!, low.get(edge.to)!));
+      } else if (onStack.has(edge.to)) {
+        low.set(v, Math.min(low.get(v)!, index.get(edge.to)!));
+      }
+    }
+
+    if (low.get(v) === index.get(v)) {
+      const component: number[] = [];
+      let w: number;
+      do {
+        w = stack.pop()!;
+        onStack.delete(w);
+        component.push(w);
+      } while (w !== v);
+      components.push(component.sort((a, b) => a - b));
+    }
+  };
+
+  for (const v of allowed) {
+    if (!index.has(v)) connect(v);
+  }
+
+  return components;
+}
+
+/**
+ * A cycle from the first context of a component back to it, firing every
+ * pair of roles that communicates inside the component
+ */
+function cycleThrough(
+  space: StateSpace,
+  component: number[],
+  follows: (edge: StateSpaceEdge) => boolean
+): Communication[] {
+  const members = new Set(component);
+  const inside = (edge: StateSpaceEdge) => follows(edge) && members.has(edge.to);
+
+  // Shortest path between two contexts of the component
+  const route = (from: number, to: (edge: StateSpaceEdge, at: number) => boolean): [Communication[], number] => {
+    const previous = new Map<number, [number, Communication]>();
+    const queue = [from];
+    const seen = new Set([from]);
+
+    while (queue.length > 0) {
+      const at = queue.shift()!;
+      for (const edge of space.edges[at]) {
+        if (!inside(edge)) continue;
+        if (to(edge, at)) {
+          const path = [edge.communication];
+          for (let v = at; v !== from; v = previous.get(v)![0]) {
+            path.unshift(previous.get(v)![1]);
+          }
+          return [path, edge.to];
+        }
+        if (!seen.has(edge.to)) {
+          seen.add(edge.to);
+          previous.set(edge.to, [at, edge.communication]);
+          queue.push(edge.to);
+        }
+      }
+    }
+    return [[], from];
+  };
+
+  const pairs = new Set(component.flatMap(i => space.edges[i].filter(inside).flatMap(e => pairsOf(e.communication))));
+  const cycle: Communication[] = [];
+  let at = component[0];
+
+  for (const pair of pairs) {
+    if (cycle.some(c => pairsOf(c).includes(pair))) continue;
+    const [path, to] = route(at, edge => pairsOf(edge.communication).includes(pair));
+    cycle.push(...path);
+    at = to;
+  }
+  if (at !== component[0] || cycle.length === 0) {
+    const [path] = route(at, edge => edge.to === component[0]);
+    cycle.push(...path);
+  }
+
+  return cycle;
+}
+
+function formatStep(communication: Communication): string {
+  return `${communication.sender} → ${receiversOf(communication).join(', ')}: ${communication.message}`;
+}
@@ -42,6 +42,8 @@ import type {
   ReceiveAction,
 } from '../projection/types';
 
+import { ampleCommunications, ContextHasher } from './partial-order';
+
 /**
  * BasicSafety - Implements Definition 4.1
  *
@@ -54,12 +56,22 @@ export class BasicSafety implements SafetyProperty {
   readonly name = 'BasicSafety';
   readonly description = 'Ensures send/receive compatibility (Definition 4.1)';
 
+  private readonly reduction: boolean;
+
+  /**
+   * @param options.partialOrderReduction - Skip interleavings of independent
+   *        communications (default: true); the verdict is the same either way
+   */
+  constructor(options: { partialOrderReduction?: boolean } = {}) {
+    this.reduction = options.partialOrderReduction ?? true;
+  }
+
   /**
    * Check if typing context is safe
    *
    * Implements Definition 4.1:
    * 1. Check send/receive compatibility for current context
-   * 2. Compute all reachable contexts
+   * 2. Explore reachable contexts
    * 3. Check send/receive compatibility for each reachable context
    *
    * @param context - Typing context to check
@@ -86,26 +98,19 @@ export class BasicSafety implements SafetyProperty {
     }
 
     // Rule [S-→]: Check all reachable contexts
-    const reachable = this.computeReachable(context);
-    let statesExplored = 0;
-
-    for (const reachableContext of reachable) {
-      statesExplored++;
+    const exploration = this.exploreReachable(context, reachableContext => {
       const reachableViolations = this.checkSendReceiveCompatibility(reachableContext);
-
-      if (reachableViolations.length > 0) {
-        violations.push(...reachableViolations);
-        // Early exit on first violation
-        break;
-      }
-    }
+      violations.push(...reachableViolations);
+      // Early exit on first violation
+      return reachableViolations.length === 0;
+    });
 
     return {
       safe: violations.length === 0,
       violations,
       diagnostics: {
         checkTime: Date.now() - startTime,
-        statesExplored,
+        ...exploration,
       },
     };
   }
@@ -196,39 +201,62 @@ export class BasicSafety implements SafetyProperty {
   }
 
   /**
-   * Compute all reachable contexts from initial context
+   * Explore all reachable contexts from initial context
    *
    * Uses BFS to explore the state space of the protocol.
    * A context Γ' is reachable from Γ if there exists a sequence
    * of communications that transitions Γ to Γ'.
    *
+   * With partial-order reduction, only an ample set of the enabled
+   * communications is followed from each context; contexts that only
+   * differ in the order of independent communications are skipped. Every
+   * send/receive mismatch still has a counterpart among the explored
+   * contexts (see partial-order.ts).
+   *
    * TERMINATION: Guaranteed to terminate because:
    * 1. CFSMs have finite states
    * 2. Product state space is finite (product of all CFSM states)
    * 3. We track visited contexts to avoid cycles
    *
    * @param initial - Initial typing context
-   * @returns Set of all reachable contexts (including initial)
+   * @param visit - Called on each context in BFS order; return false to stop
+   * @returns Number of contexts explored, and of successors skipped by the reduction
    */
-  private computeReachable(initial: TypingContext): Set<TypingContext> {
-    const visited = new Set<TypingContext>();
+  private exploreReachable(
+    initial: TypingContext,
+    visit: (context: TypingContext) => boolean
+  ): { statesExplored: number; statesPruned: number } {
+    const hasher = new ContextHasher(initial);
     const queue: TypingContext[] = [initial];
+    const visitedKeys = new Set([hasher.key(initial)]);
+    const postponed: Array<[TypingContext, Communication]> = [];
+    let statesExplored = 0;
 
-    // Use stringified version for faster comparison
-    const visitedKeys = new Set<string>();
-    visitedKeys.add(this.contextKey(initial));
-
-    while (queue.length > 0) {
-      const current = queue.shift()!;
-      visited.add(current);
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
+      statesExplored++;
+      if (!visit(current)) break;
 
       // Find all possible communications from current context
       const communications = this.findEnabledCommunications(current);
+      let ample = this.reduction
+        ? ampleCommunications(current, communications)
+        : communications;
+      let successors = ample.map(comm => this.reduce(current, comm));
+
+      // Cycle proviso: expand fully when the reduction would close a loop
+      if (ample.length < communications.length &&
+          successors.some(successor => visitedKeys.has(hasher.key(successor)))) {
+        ample = communications;
+        successors = ample.map(comm => this.reduce(current, comm));
+      }
 
-      // For each communication, compute successor context
       for (const comm of communications) {
-        const successor = this.reduce(current, comm);
-        const successorKey = this.contextKey(successor);
+        if (!ample.includes(comm)) postponed.push([current, comm]);
+      }
+
+      for (const successor of successors) {
+        const successorKey = hasher.key(successor);
 
         // If not visited, add to queue
         if (!visitedKeys.has(successorKey)) {
@@ -238,7 +266,14 @@ export class BasicSafety implements SafetyProperty {
       }
     }
 
-    return visited;
+    // Successors of postponed communications that were never reached
+    const pruned = new Set<string>();
+    for (const [context, comm] of postponed) {
+      const key = hasher.key(this.reduce(context, comm));
+      if (!visitedKeys.has(key)) pruned.add(key);
+    }
+
+    return { statesExplored, statesPruned: pruned.size };
   }
 
   /**
@@ -266,31 +301,35 @@ export class BasicSafety implements SafetyProperty {
           ? sendAction.to
           : [sendAction.to];
 
-        for (const roleQ of receivers) {
+        const msgLabel = sendAction.message.label;
+
+        // A multicast fires once, when every receiver can receive
+        const receiveTransitions = receivers.map(roleQ => {
           const instanceQ = context.cfsms.get(roleQ);
-          if (!instanceQ) continue;
+          if (!instanceQ) return undefined;
 
           const { machine: cfsmQ, currentState: stateQ } = instanceQ;
-          const msgLabel = sendAction.message.label;
-
           const receiveTrans = this.findMatchingReceive(
             cfsmQ,
             stateQ,
             roleP,
             msgLabel
           );
-
-          if (receiveTrans) {
-            communications.push({
-              sender: roleP,
-              receiver: roleQ,
-              message: msgLabel,
-              payloadType: sendAction.message.payload?.payloadType,
-              senderTransition: sendTrans.id,
-              receiverTransition: receiveTrans.id,
-            });
-          }
-        }
+          return receiveTrans && { receiver: roleQ, receiverTransition: receiveTrans.id };
+        });
+
+        if (receiveTransitions.some(r => !r)) continue;
+        const [first, ...rest] = receiveTransitions as Array<{ receiver: string; receiverTransition: string }>;
+
+        communications.push({
+          sender: roleP,
+          receiver: first.receiver,
+          message: msgLabel,
+          payloadType: sendAction.message.payload?.payloadType,
+          senderTransition: sendTrans.id,
+          receiverTransition: first.receiverTransition,
+          ...(rest.length > 0 && { multicast: [first, ...rest] }),
+        });
       }
     }
 
@@ -319,15 +358,20 @@ export class BasicSafety implements SafetyProperty {
       currentState: senderTrans.to,
     });
 
-    // Advance receiver's CFSM
-    const receiverInstance = context.cfsms.get(comm.receiver)!;
-    const receiverTrans = receiverInstance.machine.transitions.find(
-      (t) => t.id === comm.receiverTransition
-    )!;
-    newCFSMs.set(comm.receiver, {
-      machine: receiverInstance.machine,
-      currentState: receiverTrans.to,
-    });
+    // Advance receiver's CFSM (every receiver's, for a multicast)
+    const receivers = comm.multicast ?? [
+      { receiver: comm.receiver, receiverTransition: comm.receiverTransition },
+    ];
+    for (const { receiver, receiverTransition } of receivers) {
+      const receiverInstance = context.cfsms.get(receiver)!;
+      const receiverTrans = receiverInstance.machine.transitions.find(
+        (t) => t.id === receiverTransition
+      )!;
+      newCFSMs.set(receiver, {
+        machine: receiverInstance.machine,
+        currentState: receiverTrans.to,
+      });
+    }
 
     return {
       session: context.session,
@@ -376,20 +420,6 @@ export class BasicSafety implements SafetyProperty {
     });
   }
 
-  /**
-   * Generate a unique key for a context (for cycle detection)
-   *
-   * @param context - Context to key
-   * @returns String key representing context
-   */
-  private contextKey(context: TypingContext): string {
-    const parts: string[] = [];
-    for (const [role, instance] of context.cfsms) {
-      parts.push(`${role}:${instance.currentState}`);
-    }
-    return parts.sort().join(',');
-  }
-
   /**
    * Check if context is terminal (all roles at terminal states)
    *
@@ -69,14 +69,15 @@ export interface CFSMInstance {
  * Different implementations provide different levels of guarantee:
  * - BasicSafety: Type safety (no communication errors)
  * - DeadlockFreedom: + no deadlocks
- * - Liveness: + all I/O eventually fires
- * - Live+: + under fair scheduling
+ * - Liveness: + all pending I/O can eventually fire (on some path)
+ * - Live+: + fires on every fair path
  *
- * HIERARCHY (Lemma 5.9):
- * consistent ⊂ safe ⊂ df ⊂ live ⊂ live+
+ * HIERARCHY (Lemma 5.9), as inclusions of the sets of typing contexts that
+ * satisfy each property (a stronger property holds of fewer contexts):
+ * live+ ⊂ live ⊂ df ⊂ safe, and consistent ⊂ safe
  *
  * where:
- * - consistent: Classic MPST duality (most restrictive)
+ * - consistent: Classic MPST duality (more restrictive than safe)
  * - safe: Send/receive compatibility (Definition 4.1)
  * - df: Deadlock-free (Section 5.2)
  * - live: Liveness (Section 5.3)
@@ -117,6 +118,9 @@ export interface SafetyCheckResult {
     /** States explored during reachability check */
     statesExplored?: number;
 
+    /** States skipped by partial-order reduction */
+    statesPruned?: number;
+
     /** Time taken for check (ms) */
     checkTime?: number;
 
@@ -143,6 +147,9 @@ export interface SafetyViolation {
   /** The context where violation was detected */
   context?: TypingContext;
 
+  /** Reductions from the initial context to `context` */
+  path?: Communication[];
+
   /** Additional details */
   details?: {
     /** Message label that caused violation */
@@ -178,6 +185,8 @@ export type ViolationType =
   | 'recursion-error'          // [S-μ] violation: ill-founded recursion
   | 'preservation-error'       // [S-→] violation: safety not preserved by reduction
   | 'stuck-state'              // Context cannot progress (all roles waiting)
+  | 'deadlock'                 // df violation: stuck before every role terminated
+  | 'starvation'               // live/live+ violation: a pending role never communicates
   | 'other';                   // Other violations
 
 /**
@@ -202,6 +211,12 @@ export interface Communication {
   /** Transition IDs involved */
   senderTransition: string;
   receiverTransition: string;
+
+  /**
+   * Multicast: every receiver with its transition, all advanced by the
+   * one communication (`receiver` is the first of them)
+   */
+  multicast?: Array<{ receiver: string; receiverTransition: string }>;
 }
 
 /**
@@ -0,0 +1,263 @@
+/**
+ * Scribble Formatter Tests
+ *
+ * Tests that verify AST → Scribble text formatting:
+ * - Canonical layout (indentation, braces, multicast lists, arrow messages)
+ * - Comment preservation
+ * - Round-trip: parse(format(source)) equals parse(source)
+ * - Idempotence: format(format(source)) equals format(source)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { formatSource, formatModule, isFormatted } from '../scribble-formatter';
+import { parse, ParseError } from '../../parser/parser';
+
+/**
+ * Helper: AST without source locations
+ */
+function withoutLocations(node: unknown): unknown {
+  if (Array.isArray(node)) return node.map(withoutLocations);
+  if (node && typeof node === 'object') {
+    return Object.fromEntries(
+      Object.entries(node)
+        .filter(([key]) => key !== 'location')
+        .map(([key, value]) => [key, withoutLocations(value)])
+    );
+  }
+  return node;
+}
+
+function scribbleFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+    entry.isDirectory()
+      ? scribbleFiles(join(dir, entry.name))
+      : entry.name.endsWith('.scr') ? [join(dir, entry.name)] : []
+  );
+}
+
+describe('Scribble Formatter', () => {
+  describe('Layout', () => {
+    it('should normalize indentation, braces and spacing', () => {
+      const source = `global protocol  P<type T>( role A,role B )
+{
+      A->B:Req(List<T>);
+  choice at B { B -> A: Ok(); }
+  or
+  { B -> A: No(String); }
+}`;
+
+      expect(formatSource(source)).toBe(`protocol P<type T>(role A, role B) {
+  A -> B: Req(List<T>);
+  choice at B {
+    B -> A: Ok();
+  } or {
+    B -> A: No(String);
+  }
+}
+`);
+    });
+
+    it('should normalize messages and multicast lists to arrow syntax', () => {
+      const source = `protocol P(role A, role B, role C) {
+  Msg(Int) from A to B,C;
+  Ping() from A to B within 5s;
+}`;
+
+      expect(formatSource(source)).toBe(`protocol P(role A, role B, role C) {
+  A -> B, C: Msg(Int);
+  A -> B: Ping() within 5s;
+}
+`);
+    });
+
+    it('should format every kind of statement', () => {
+      const formatted = `import "lib/auth.scr" { Login };
+import "lib/types.scr";
+
+type Amount as Map<String, List<Int>>;
+
+protocol Base<type T>(role A, role B) {
+  A -> B: Data(T);
+}
+
+protocol Ext(role A, role B) extends Base<Int> {
+  par {
+    rec Loop {
+      A -> B: Tick();
+      continue Loop;
+    }
+  } and {
+    try {
+      timeout(10ms) {
+        B -> A: Late();
+      }
+      throw Cancel from B;
+    } catch Cancel(String) {
+      do Base<Amount>(A, B);
+    }
+  }
+}
+
+protocol Pool(role M) {
+  new role W;
+  M creates W as w1;
+  M invites W;
+  M calls Base<Int>(M, W);
+  rec Loop {
+    continue Loop with {
+      M creates W;
+    };
+  }
+}
+
+local protocol Client(role Self) {
+  Self -> S: Request();
+}
+`;
+
+      expect(formatSource(formatted)).toBe(formatted);
+    });
+
+    it('should format structured types and named payloads', () => {
+      const source = `type Customer as {id:Int,tags:List<String>?}|String;
+protocol P(role A, role B) {
+  A -> B: Order( id : Int , items:List<Item> );
+  B -> A: Receipt({ total: Int });
+  B -> A: Empty({});
+}`;
+
+      expect(formatSource(source)).toBe(`type Customer as { id: Int, tags: List<String>? } | String;
+
+protocol P(role A, role B) {
+  A -> B: Order(id: Int, items: List<Item>);
+  B -> A: Receipt(total: Int);
+  B -> A: Empty({});
+}
+`);
+    });
+
+    it('should format predicates with the parentheses they need', () => {
+      const source = `protocol P(role A, role B) {
+  B -> A: Quote(limit: Int);
+  A -> B: Pay(amount: Int)where((amount>0)&&(amount<=limit||limit==-1))within 5s;
+  Done() where !(true) from A to B;
+}`;
+
+      expect(formatSource(source)).toBe(`protocol P(role A, role B) {
+  B -> A: Quote(limit: Int);
+  A -> B: Pay(amount: Int) where amount > 0 && (amount <= limit || limit == -1) within 5s;
+  A -> B: Done() where !true;
+}
+`);
+    });
+
+    it('should format role families and foreach', () => {
+      const source = `protocol Ring(role Node[1 .. N+1]) {
+  foreach i in 1..N { Node[i] -> Node[ i+1 ]: Token(); }
+}`;
+
+      expect(formatSource(source)).toBe(`protocol Ring(role Node[1..N + 1]) {
+  foreach i in 1..N {
+    Node[i] -> Node[i + 1]: Token();
+  }
+}
+`);
+    });
+
+    it('should omit extension role arguments that repeat the roles', () => {
+      const source = `protocol V2(role C, role S) extends V1(C, S) { C -> S: Get(); }
+protocol V3(role C, role S) extends V1(S, C) { C -> S: Get(); }`;
+
+      const formatted = formatSource(source);
+      expect(formatted).toContain('protocol V2(role C, role S) extends V1 {');
+      expect(formatted).toContain('protocol V3(role C, role S) extends V1(S, C) {');
+    });
+
+    it('should use the indentation given', () => {
+      expect(formatSource('protocol P(role A, role B) { A -> B: M(); }', { indent: '    ' }))
+        .toBe('protocol P(role A, role B) {\n    A -> B: M();\n}\n');
+    });
+
+    it('should print a module without source', () => {
+      expect(formatModule(parse('protocol P(role A, role B) { A -> B: M(); }')))
+        .toBe('protocol P(role A, role B) {\n  A -> B: M();\n}\n');
+    });
+  });
+
+  describe('Comments', () => {
+    it('should keep comments before and at the end of lines', () => {
+      const source = `// Header
+protocol P(role A, role B) {
+    // Leading
+    A -> B: M(); // Trailing
+  /* Block
+        * comment */
+  B -> A: N();
+  // Last
+}
+// End`;
+
+      expect(formatSource(source)).toBe(`// Header
+protocol P(role A, role B) {
+  // Leading
+  A -> B: M(); // Trailing
+  /* Block
+   * comment */
+  B -> A: N();
+  // Last
+}
+// End
+`);
+    });
+
+    it('should keep comments inside empty blocks', () => {
+      const source = `protocol P(role A, role B) {
+  choice at A { A -> B: X(); } or {
+    // Nothing to do
+  }
+}`;
+
+      expect(formatSource(source)).toContain(`  } or {
+    // Nothing to do
+  }`);
+    });
+
+    it('should keep single blank lines between statements', () => {
+      const source = `protocol P(role A, role B) {
+
+  A -> B: M();
+
+
+
+  B -> A: N();
+}`;
+
+      expect(formatSource(source)).toBe(`protocol P(role A, role B) {
+  A -> B: M();
+
+  B -> A: N();
+}
+`);
+    });
+  });
+
+  describe('Round-trip', () => {
+    const files = [...scribbleFiles('examples'), ...scribbleFiles('tests/golden/protocols')];
+
+    it.each(files)('%s', file => {
+      const source = readFileSync(file, 'utf-8');
+      const formatted = formatSource(source);
+
+      expect(withoutLocations(parse(formatted))).toEqual(withoutLocations(parse(source)));
+      expect(isFormatted(formatted)).toBe(true);
+    });
+  });
+
+  describe('Errors', () => {
+    it('should refuse source with syntax errors', () => {
+      expect(() => formatSource('protocol P(role A) { A -> : M(); }')).toThrow(ParseError);
+    });
+  });
+});
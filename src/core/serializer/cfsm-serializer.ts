@@ -23,7 +23,9 @@ import type {
   SendAction,
   ReceiveAction,
 } from '../projection/types';
-import type { Message, Type } from '../ast/types';
+import type { Message } from '../ast/types';
+import { formatPayload } from '../type-checker/type-checker';
+import { formatExpression } from '../predicates/evaluator';
 
 // ============================================================================
 // Serializer Options
@@ -265,6 +267,9 @@ function serializeAction(
     case 'subprotocol':
       return serializeSubProtocolAction(action, indent);
 
+    case 'crash':
+      return `${indent}// crash(${action.role}) detected`;
+
     default:
       return `${indent}// Unknown action type`;
   }
@@ -313,34 +318,14 @@ function serializeSubProtocolAction(
  * - label(Type)              - with payload
  * - label()                  - no payload
  * - label(Map<String, User>) - parametric types
+ * - label(id: Int, name: String) - record payloads (named arguments)
+ * - label(amount: Int) where amount > 0 - refined messages
  */
 function serializeMessage(message: Message): string {
-  const { label, payload } = message;
-
-  if (!payload) {
-    return `${label}()`;
-  }
-
-  const typeStr = serializeType(payload.payloadType);
-  return `${label}(${typeStr})`;
-}
-
-/**
- * Serialize type
- *
- * ENRICHED: Handles full Type AST structure
- */
-function serializeType(type: Type): string {
-  if (type.type === 'SimpleType') {
-    return type.name;
-  }
-
-  if (type.type === 'ParametricType') {
-    const args = type.arguments.map(serializeType).join(', ');
-    return `${type.name}<${args}>`;
-  }
+  const { label, payload, predicate } = message;
+  const signature = payload ? `${label}(${formatPayload(payload)})` : `${label}()`;
 
-  return 'Unknown';
+  return predicate ? `${signature} where ${formatExpression(predicate)}` : signature;
 }
 
 // ============================================================================
@@ -0,0 +1,450 @@
+/**
+ * Scribble Formatter
+ *
+ * Prints a Module back to canonical Scribble source. Together with the
+ * parser this gives the round-trip: Source → AST → Source.
+ *
+ * CANONICAL FORM:
+ * - Indentation by nesting depth, opening braces on the line they open
+ *   (`} or {`, `} and {`, `} catch Err {`)
+ * - Arrow syntax for messages, comma-space lists (`A -> B, C: Msg(T);`)
+ * - Record payloads as named arguments (`Order(id: Int, items: List<Item>)`)
+ * - `protocol` for global protocols (the optional `global` is dropped)
+ * - One blank line between declarations; blank lines inside a body are
+ *   kept, runs of them collapsed to one
+ * - Comments kept: on their own line before the code they precede, or at
+ *   the end of the line they end
+ *
+ * parse(formatSource(source)) equals parse(source) up to source locations.
+ */
+
+import type { IToken } from 'chevrotain';
+import type * as AST from '../ast/types';
+import { parse } from '../parser/parser';
+import { ScribbleLexer, LCurly, RCurly, Semicolon } from '../parser/lexer';
+import { formatType, formatPayload } from '../type-checker/type-checker';
+import { formatExpression } from '../predicates/evaluator';
+
+// ============================================================================
+// Formatter Options
+// ============================================================================
+
+export interface FormatOptions {
+  /** Indentation string (default: 2 spaces) */
+  indent?: string;
+
+  /** Line ending style */
+  lineEnding?: '\n' | '\r\n';
+}
+
+const DEFAULT_OPTIONS: Required<FormatOptions> = {
+  indent: '  ',
+  lineEnding: '\n',
+};
+
+// ============================================================================
+// Main Formatting Functions
+// ============================================================================
+
+/**
+ * Format Scribble source, keeping its comments
+ *
+ * @throws {ParseError} on syntax errors
+ */
+export function formatSource(source: string, options: FormatOptions = {}): string {
+  return new Printer({ ...DEFAULT_OPTIONS, ...options }, source).print(parse(source));
+}
+
+/**
+ * Print a module (without comments, which are not part of the AST)
+ */
+export function formatModule(module: AST.Module, options: FormatOptions = {}): string {
+  return new Printer({ ...DEFAULT_OPTIONS, ...options }).print(module);
+}
+
+/**
+ * Whether the source is already in canonical form
+ *
+ * @throws {ParseError} on syntax errors
+ */
+export function isFormatted(source: string, options: FormatOptions = {}): boolean {
+  return formatSource(source, options) === source;
+}
+
+// ============================================================================
+// Printer
+// ============================================================================
+
+/**
+ * A position in the source being formatted
+ */
+interface SourcePosition {
+  offset: number;
+  line: number;
+}
+
+type Interaction = AST.GlobalInteraction | AST.LocalInteraction;
+
+/**
+ * A block of a compound statement: the text before its `{` and its body
+ */
+interface Block {
+  head: string;
+  body: Interaction[];
+}
+
+class Printer {
+  private readonly lines: string[] = [];
+
+  /** Comments of the source, in order, and the next one to print */
+  private readonly comments: IToken[] = [];
+  private nextComment = 0;
+
+  /** Code tokens of the source, in order */
+  private readonly tokens: IToken[] = [];
+
+  /** `{` tokens in order, and the `}` matching each (by offset of the `{`) */
+  private readonly openBraces: IToken[] = [];
+  private readonly closeBraces = new Map<number, IToken>();
+
+  /** Source line of the last code or comment printed (for blank lines) */
+  private lastLine: number | undefined;
+
+  constructor(
+    private readonly options: Required<FormatOptions>,
+    source?: string
+  ) {
+    if (source === undefined) return;
+
+    const { tokens, groups } = ScribbleLexer.tokenize(source);
+    this.tokens = tokens;
+    this.comments = groups.comments ?? [];
+
+    const open: IToken[] = [];
+    for (const token of tokens) {
+      if (token.tokenType === LCurly) {
+        open.push(token);
+        this.openBraces.push(token);
+      } else if (token.tokenType === RCurly && open.length > 0) {
+        this.closeBraces.set(open.pop()!.startOffset, token);
+      }
+    }
+  }
+
+  print(module: AST.Module): string {
+    module.declarations.forEach((decl, i) => {
+      const previous = module.declarations[i - 1];
+      // Imports and type aliases may be grouped; anything else is set apart
+      if (previous && !(previous.type === decl.type &&
+          (decl.type === 'ImportDeclaration' || decl.type === 'TypeDeclaration'))) {
+        this.blankLine();
+        this.lastLine = undefined;
+      }
+      this.declaration(decl);
+    });
+    this.flushComments(Infinity, 0);
+
+    return this.lines.join(this.options.lineEnding) + this.options.lineEnding;
+  }
+
+  // ==========================================================================
+  // Declarations
+  // ==========================================================================
+
+  private declaration(decl: AST.ModuleDeclaration): void {
+    const start = startOf(decl);
+
+    switch (decl.type) {
+      case 'ImportDeclaration': {
+        const names = decl.importedNames ? ` { ${decl.importedNames.join(', ')} }` : '';
+        this.line(0, `import "${decl.modulePath}"${names};`, start, endOf(decl));
+        break;
+      }
+      case 'TypeDeclaration':
+        this.line(0, `type ${decl.name} as ${formatType(decl.typeValue)};`, start, endOf(decl));
+        break;
+      case 'GlobalProtocolDeclaration':
+        this.blocks(0, start, [{ head: protocolHeader(decl), body: decl.body }]);
+        break;
+      case 'ProtocolExtension': {
+        const base = `${decl.extends}${formatTypeArguments(decl.typeArguments)}`;
+        const ownRoles = decl.roles.map(r => r.name);
+        const roleArguments = decl.roleArguments.join(',') === ownRoles.join(',')
+          ? ''
+          : `(${decl.roleArguments.join(', ')})`;
+        this.blocks(0, start, [{
+          head: `${protocolHeader(decl)} extends ${base}${roleArguments}`,
+          body: decl.refinements,
+        }]);
+        break;
+      }
+      case 'LocalProtocolDeclaration':
+        this.blocks(0, start, [{
+          head: `local protocol ${decl.name}${formatParameters(decl.parameters)}(role ${decl.selfRole})`,
+          body: decl.body,
+        }]);
+        break;
+    }
+  }
+
+  // ==========================================================================
+  // Interactions
+  // ==========================================================================
+
+  private body(body: Interaction[], depth: number): void {
+    for (const interaction of body) {
+      this.interaction(interaction, depth);
+    }
+  }
+
+  private interaction(node: Interaction, depth: number): void {
+    const start = startOf(node);
+    const statement = (text: string) => this.line(depth, text, start, endOf(node));
+
+    switch (node.type) {
+      case 'MessageTransfer':
+        statement(`${node.from} -> ${formatRoles(node.to)}: ${formatMessage(node.message)};`);
+        break;
+      case 'TimedMessage':
+        statement(
+          `${node.from} -> ${formatRoles(node.to)}: ${formatMessage(node.message)} ` +
+          `within ${formatTime(node.deadline)};`
+        );
+        break;
+      case 'Continue':
+        statement(`continue ${node.label};`);
+        break;
+      case 'Do':
+        statement(`do ${node.protocol}${formatTypeArguments(node.typeArguments)}(${node.roleArguments.join(', ')});`);
+        break;
+      case 'Throw':
+        statement(
+          `throw ${node.exceptionLabel}${formatExceptionPayload(node.payload)}` +
+          `${node.from ? ` from ${node.from}` : ''};`
+        );
+        break;
+      case 'DynamicRoleDeclaration':
+        statement(`new role ${node.roleName};`);
+        break;
+      case 'ProtocolCall':
+        statement(
+          `${node.caller} calls ${node.protocol}${formatTypeArguments(node.typeArguments)}` +
+          `(${node.roleArguments.join(', ')});`
+        );
+        break;
+      case 'CreateParticipants':
+        statement(`${node.creator} creates ${node.roleName}${node.instanceName ? ` as ${node.instanceName}` : ''};`);
+        break;
+      case 'Invitation':
+        statement(`${node.inviter} invites ${node.invitee};`);
+        break;
+
+      case 'Choice':
+        this.blocks(depth, start, node.branches.map((branch, i) => ({
+          head: i === 0 ? `choice at ${node.at}` : 'or',
+          body: branch.body,
+        })));
+        break;
+      case 'Parallel':
+        this.blocks(depth, start, node.branches.map((branch, i) => ({
+          head: i === 0 ? 'par' : 'and',
+          body: branch.body,
+        })));
+        break;
+      case 'Recursion':
+        this.blocks(depth, start, [{ head: `rec ${node.label}`, body: node.body }]);
+        break;
+      case 'UpdatableRecursion':
+        this.blocks(depth, start, [{ head: `continue ${node.label} with`, body: node.updateBody }], '};');
+        break;
+      case 'Try':
+        this.blocks(depth, start, [
+          { head: 'try', body: node.body },
+          ...node.catchHandlers.map(handler => ({
+            head: `catch ${handler.exceptionLabel}${formatExceptionPayload(handler.payload)}`,
+            body: handler.body,
+          })),
+        ]);
+        break;
+      case 'Timeout':
+        this.blocks(depth, start, [{ head: `timeout(${formatTime(node.constraint)})`, body: node.body }]);
+        break;
+      case 'CrashHandler':
+        this.blocks(depth, start, [{ head: `on crash(${node.role})`, body: node.body }]);
+        break;
+      case 'Foreach':
+        this.blocks(depth, start, [{ head: `foreach ${node.variable} in ${formatRange(node.range)}`, body: node.body }]);
+        break;
+
+      default:
+        // Local-only nodes (Send, Receive, ...) are produced by projection, never parsed
+        throw new Error(`Cannot format ${(node as Interaction).type}`);
+    }
+  }
+
+  /**
+   * A compound statement: `head {`, body, `} head {`, body, ..., `}`
+   */
+  private blocks(depth: number, start: SourcePosition | undefined, blocks: Block[], closing: string = '}'): void {
+    let searchFrom = start?.offset;
+    let close: IToken | undefined;
+
+    blocks.forEach((block, i) => {
+      const open = searchFrom === undefined ? undefined : this.openBraceFrom(searchFrom);
+      this.line(
+        depth,
+        i === 0 ? `${block.head} {` : `} ${block.head} {`,
+        i === 0 ? start : positionOf(close),
+        positionOf(open)
+      );
+
+      this.body(block.body, depth + 1);
+
+      close = open && this.closeBraces.get(open.startOffset);
+      if (close) {
+        // Comments after the last statement stay inside the block
+        this.flushComments(close.startOffset, depth + 1);
+      }
+      searchFrom = close ? close.startOffset + 1 : undefined;
+    });
+
+    this.line(depth, closing, positionOf(close), positionOf(close));
+  }
+
+  // ==========================================================================
+  // Lines and Comments
+  // ==========================================================================
+
+  /**
+   * Print a line of code spanning `start`..`end` in the source, with the
+   * comments before it (or inside it) and the ones ending its source line
+   */
+  private line(depth: number, text: string, start?: SourcePosition, end?: SourcePosition): void {
+    const closing = text.startsWith('}');
+    if (end) {
+      this.flushComments(end.offset, closing ? depth + 1 : depth);
+    }
+    if (start && !closing) {
+      this.keepBlankLine(start.line);
+    }
+
+    this.lines.push(this.indentation(depth) + text);
+    if (end) {
+      this.lastLine = end.line;
+      this.trailingComments(end);
+    }
+  }
+
+  /**
+   * Print the comments before `offset`, each on its own line(s)
+   */
+  private flushComments(offset: number, depth: number): void {
+    while (this.nextComment < this.comments.length && this.comments[this.nextComment].startOffset < offset) {
+      const comment = this.comments[this.nextComment++];
+      this.keepBlankLine(comment.startLine!);
+
+      const [first, ...rest] = comment.image.split(/\r?\n/);
+      this.lines.push(this.indentation(depth) + first);
+      for (const line of rest) {
+        // Continuation lines of block comments: ` * ...` aligned under `/*`
+        const trimmed = line.trim();
+        this.lines.push(this.indentation(depth) + (trimmed.startsWith('*') ? ' ' : '') + trimmed);
+      }
+      this.lastLine = comment.endLine;
+    }
+  }
+
+  /**
+   * Append the comments that directly follow `end` on its source line
+   */
+  private trailingComments(end: SourcePosition): void {
+    while (this.nextComment < this.comments.length) {
+      const comment = this.comments[this.nextComment];
+      if (comment.startLine !== end.line || comment.image.includes('\n')) break;
+      // Code in between (`{ A -> B: M(); // ...`): the comment belongs to it
+      if (this.tokens.some(t =>
+        t.startOffset > end.offset && t.startOffset < comment.startOffset && t.tokenType !== Semicolon
+      )) break;
+      this.lines[this.lines.length - 1] += ` ${comment.image}`;
+      this.nextComment++;
+    }
+  }
+
+  /**
+   * One blank line where the source has at least one, except at the start of a block
+   */
+  private keepBlankLine(line: number): void {
+    const previous = this.lines[this.lines.length - 1];
+    if (this.lastLine !== undefined && line - this.lastLine > 1 && previous !== undefined && !previous.endsWith('{')) {
+      this.blankLine();
+    }
+  }
+
+  private blankLine(): void {
+    if (this.lines.length > 0 && this.lines[this.lines.length - 1] !== '') {
+      this.lines.push('');
+    }
+  }
+
+  private indentation(depth: number): string {
+    return this.options.indent.repeat(depth);
+  }
+
+  private openBraceFrom(offset: number): IToken | undefined {
+    return this.openBraces.find(token => token.startOffset >= offset);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function protocolHeader(decl: AST.GlobalProtocolDeclaration | AST.ProtocolExtension): string {
+  const roles = decl.roles
+    .map(r => `role ${r.name}${r.range ? `[${formatRange(r.range)}]` : ''}${r.unreliable ? ' unreliable' : ''}`)
+    .join(', ');
+  return `protocol ${decl.name}${formatParameters(decl.parameters)}(${roles})`;
+}
+
+function formatRange(range: AST.IndexRange): string {
+  return `${formatExpression(range.lower)}..${formatExpression(range.upper)}`;
+}
+
+function formatParameters(parameters: AST.ProtocolParameter[]): string {
+  return parameters.length > 0
+    ? `<${parameters.map(p => `${p.kind} ${p.name}`).join(', ')}>`
+    : '';
+}
+
+function formatRoles(roles: string | string[]): string {
+  return Array.isArray(roles) ? roles.join(', ') : roles;
+}
+
+function formatMessage(message: AST.Message): string {
+  const signature = `${message.label}(${message.payload ? formatPayload(message.payload) : ''})`;
+  return message.predicate ? `${signature} where ${formatExpression(message.predicate)}` : signature;
+}
+
+function formatExceptionPayload(payload: AST.Payload | undefined): string {
+  return payload ? `(${formatType(payload.payloadType)})` : '';
+}
+
+function formatTypeArguments(types: AST.Type[] | undefined): string {
+  return types && types.length > 0 ? `<${types.map(formatType).join(', ')}>` : '';
+}
+
+function formatTime(constraint: AST.TimeConstraint): string {
+  return `${constraint.value}${constraint.unit}`;
+}
+
+function startOf(node: { location?: AST.SourceLocation }): SourcePosition | undefined {
+  return node.location && { offset: node.location.start.offset, line: node.location.start.line };
+}
+
+function endOf(node: { location?: AST.SourceLocation }): SourcePosition | undefined {
+  return node.location && { offset: node.location.end.offset, line: node.location.end.line };
+}
+
+function positionOf(token: IToken | undefined): SourcePosition | undefined {
+  return token && { offset: token.startOffset, line: token.startLine! };
+}
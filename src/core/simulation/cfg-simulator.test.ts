@@ -12,6 +12,7 @@ import { parse } from '../parser/parser';
 import { buildCFG } from '../cfg/builder';
 import { CFGSimulator } from './cfg-simulator';
 import type { CFGExecutionEvent } from './types';
+import type { GlobalProtocolDeclaration } from '../ast/types';
 
 // ============================================================================
 // Basic Sequential Protocols
@@ -1529,3 +1530,82 @@ describe('CFG Simulator - Formal Guarantees', () => {
     });
   });
 });
+
+// ============================================================================
+// Exception Handling
+// ============================================================================
+
+describe('CFG Simulator - Exception Handling', () => {
+  const source = `
+    protocol Checkout(role Client, role Shop) {
+      try {
+        Client -> Shop: Order();
+        choice at Shop {
+          Shop -> Client: Confirm();
+        } or {
+          throw OutOfStock(String) from Shop;
+        }
+      } catch OutOfStock(String) {
+        Client -> Shop: Cancel();
+      }
+      Client -> Shop: Bye();
+    }
+  `;
+
+  it('should raise an exception and continue with its catch handler', () => {
+    const cfg = buildCFG(parse(source).declarations[0] as GlobalProtocolDeclaration);
+    const simulator = new CFGSimulator(cfg, { choiceStrategy: 'manual', recordTrace: true });
+
+    const exceptions: any[] = [];
+    simulator.on('exception', data => exceptions.push(data));
+
+    // Order leads to the choice point: raise instead of choosing an index
+    expect(simulator.step().event?.type).toBe('message');
+    simulator.raise('OutOfStock');
+
+    const raised = simulator.step();
+    expect(raised.success).toBe(true);
+    expect(raised.event?.type).toBe('exception');
+    if (raised.event?.type === 'exception') {
+      expect(raised.event.from).toBe('Shop');
+      expect(raised.event.to).toBe('Client');
+      expect(raised.event.label).toBe('OutOfStock');
+      expect(raised.event.payloadType).toBe('String');
+    }
+    expect(exceptions).toHaveLength(1);
+
+    const labels: string[] = [];
+    while (!simulator.isComplete()) {
+      const result = simulator.step();
+      expect(result.success).toBe(true);
+      if (result.event?.type === 'message') labels.push(result.event.label);
+    }
+    expect(labels).toEqual(['Cancel', 'Bye']);
+
+    const trace = simulator.getTrace();
+    expect(trace.events.some(e => e.type === 'exception')).toBe(true);
+  });
+
+  it('should skip the handler when no exception is raised', () => {
+    const cfg = buildCFG(parse(source).declarations[0] as GlobalProtocolDeclaration);
+    const simulator = new CFGSimulator(cfg, { choiceStrategy: 'first', recordTrace: true });
+
+    const result = simulator.run();
+    expect(result.success).toBe(true);
+
+    const labels = simulator.getTrace().events
+      .filter((e): e is Extract<CFGExecutionEvent, { type: 'message' }> => e.type === 'message')
+      .map(e => e.label);
+    expect(labels).toEqual(['Order', 'Confirm', 'Bye']);
+  });
+
+  it('should reject raising an exception no branch throws', () => {
+    const cfg = buildCFG(parse(source).declarations[0] as GlobalProtocolDeclaration);
+    const simulator = new CFGSimulator(cfg, { choiceStrategy: 'manual' });
+
+    expect(() => simulator.raise('OutOfStock')).toThrow('Not at a choice point');
+
+    simulator.step();
+    expect(() => simulator.raise('Unknown')).toThrow(/No branch/);
+  });
+});
@@ -93,6 +93,8 @@ import type {
   ChoiceOption,
   RecursionContext,
   MessageEvent,
+  ExceptionEvent,
+  CrashEvent,
   ChoiceEvent,
   RecursionEvent,
   ParallelEvent,
@@ -422,8 +424,12 @@ export class CFGSimulator {
       }
 
       // If we're at a choice point, stop and wait for user to choose
+      // (keeping the event of the action that led here)
       if (this.pendingChoice !== null) {
-        return result;
+        return {
+          ...result,
+          event: lastEvent || result.event,
+        };
       }
 
       // Capture any event
@@ -569,6 +575,64 @@ export class CFGSimulator {
       return this.executeSubProtocol(node, action as SubProtocolAction);
     }
 
+    // Handle throw: the exception edge leads to the catch handler
+    if (action.kind === 'message' && action.exception) {
+      const handlerEdge = this.getOutgoingEdges(node.id).find(e => e.edgeType === 'exception');
+      if (!handlerEdge) {
+        throw new Error(`No handler for exception ${action.label} at node ${node.id}`);
+      }
+
+      const event: ExceptionEvent = {
+        type: 'exception',
+        timestamp: Date.now(),
+        from: action.from,
+        to: action.to,
+        label: action.label!,
+        payloadType: action.payloadType,
+        nodeId: node.id,
+        handlerNodeId: handlerEdge.to,
+      };
+
+      this.emit('exception', {
+        from: action.from,
+        to: action.to,
+        label: action.label,
+        payloadType: action.payloadType,
+        nodeId: node.id,
+        handlerNodeId: handlerEdge.to,
+      });
+
+      this.transitionTo(handlerEdge.to);
+
+      return {
+        success: true,
+        state: this.getState(),
+        event,
+      };
+    }
+
+    // Handle crash detection: the crash handler follows
+    if (action.kind === 'crash-detection') {
+      const event: CrashEvent = {
+        type: 'crash',
+        timestamp: Date.now(),
+        crashed: action.crashed,
+        detector: action.detector,
+        nodeId: node.id,
+      };
+
+      this.emit('crash', {
+        crashed: action.crashed,
+        detector: action.detector,
+        nodeId: node.id,
+      });
+
+      return {
+        ...this.transitionToNext(),
+        event,
+      };
+    }
+
     // Handle message action
     if (action.kind === 'message') {
       const event: MessageEvent = {
@@ -1275,6 +1339,54 @@ export class CFGSimulator {
     this.selectedChoice = index;
   }
 
+  /**
+   * Raise an exception at the current choice point
+   *
+   * Selects the branch whose first throw raises the given exception label,
+   * as choose() would with its index. The next step() executes the throw
+   * and continues with the catch handler of the enclosing try block.
+   */
+  raise(label: string): void {
+    if (this.pendingChoice === null) {
+      throw new Error('Not at a choice point');
+    }
+
+    const index = this.pendingChoice.findIndex(option =>
+      this.branchRaises(option.firstNode, label)
+    );
+    if (index === -1) {
+      throw new Error(`No branch at this choice point throws ${label}`);
+    }
+
+    this.selectedChoice = index;
+  }
+
+  /**
+   * Check whether a branch reaches a throw of the label without another choice
+   */
+  private branchRaises(startNodeId: string, label: string): boolean {
+    const visited = new Set<string>();
+    let currentId: string | undefined = startNodeId;
+
+    while (currentId && !visited.has(currentId)) {
+      visited.add(currentId);
+      const node = this.getNode(currentId);
+      if (!node || node.type === 'branch' || node.type === 'merge' || node.type === 'terminal') {
+        return false;
+      }
+      if (node.type === 'action') {
+        const action = (node as ActionNode).action;
+        if (action.kind === 'message' && action.exception) {
+          return action.label === label;
+        }
+      }
+      const edges: CFGEdge[] = this.getOutgoingEdges(currentId).filter(e => e.edgeType !== 'continue');
+      currentId = edges.length === 1 ? edges[0].to : undefined;
+    }
+
+    return false;
+  }
+
   /**
    * Run to completion (or until error/maxSteps)
    */
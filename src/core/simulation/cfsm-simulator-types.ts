@@ -10,6 +10,9 @@
  */
 
 import type { CFSM, CFSMTransition, CFSMAction } from '../projection/types';
+import type { VirtualClock } from './virtual-clock';
+import type { PayloadProvider, PayloadValues, PredicateViolation } from '../predicates/types';
+import type { ReplaySession } from './replay';
 
 /**
  * Call stack frame for sub-protocol execution
@@ -98,6 +101,27 @@ export interface CFSMSimulatorConfig {
    * }
    */
   cfsmRegistry?: Map<string, Map<string, CFSM>>;
+
+  /**
+   * Virtual clock for timed protocols (clock constraints on transitions)
+   * Optional - if not provided, the simulator creates its own.
+   * The distributed simulator shares one clock among all roles.
+   */
+  clock?: VirtualClock;
+
+  /**
+   * Payload values of this role's sends
+   * Optional - refined messages (CFSMTransition.guard) are checked against
+   * them on send and receive; messages without a value are not checked
+   */
+  payloads?: PayloadProvider;
+
+  /**
+   * Record the run's decisions into this session, or replay those of its
+   * log (see replay.ts). The distributed simulator shares its session
+   * with every role.
+   */
+  replay?: ReplaySession;
 }
 
 /**
@@ -109,6 +133,7 @@ export interface Message {
   to: string;           // Receiver role
   label: string;        // Message label
   payloadType?: string; // Payload type
+  payload?: unknown;    // Payload value (see CFSMSimulatorConfig.payloads)
   timestamp: number;    // When sent
 }
 
@@ -165,6 +190,16 @@ export interface CFSMExecutionState {
    */
   pendingTransitionChoice: number | null;
 
+  /**
+   * Virtual time (ms)
+   */
+  time: number;
+
+  /**
+   * This role's clock: time since its last send/receive (ms)
+   */
+  clockValue: number;
+
   /**
    * Sub-protocol call stack (for nested protocol execution)
    * Empty array [] = executing root protocol
@@ -202,10 +237,10 @@ export interface CFSMRunResult {
  * Execution error
  */
 export interface CFSMExecutionError {
-  type: 'no-enabled-transitions' | 'buffer-overflow' | 'max-steps' | 'invalid-state' | 'transition-required' | 'fifo-violation';
+  type: 'no-enabled-transitions' | 'buffer-overflow' | 'max-steps' | 'invalid-state' | 'transition-required' | 'fifo-violation' | 'deadline-missed' | 'predicate-violation' | 'replay-ended';
   message: string;
   stateId?: string;
-  details?: FIFOViolation;
+  details?: FIFOViolation | PredicateViolation;
 }
 
 /**
@@ -248,6 +283,8 @@ export interface CFSMSendEvent {
   payloadType?: string;
   messageId: string;
   stateId: string;
+  exception?: boolean;  // Throw notification (exception handling)
+  time: number;         // Virtual time (timed types)
 }
 
 export interface CFSMReceiveEvent {
@@ -258,6 +295,8 @@ export interface CFSMReceiveEvent {
   payloadType?: string;
   messageId: string;
   stateId: string;
+  exception?: boolean;  // Throw notification (exception handling)
+  time: number;         // Virtual time (timed types)
 }
 
 export interface CFSMTauEvent {
@@ -286,6 +325,10 @@ export type CFSMEventType =
   | 'choice'
   | 'buffer-enqueue'
   | 'buffer-dequeue'
+  | 'exception-raised' // Throw sent to the other try participants
+  | 'exception-caught' // Throw notification received, entering handler
+  | 'timeout'          // A timeout handler became enabled on this role's clock
+  | 'deadline-missed'  // No transition of the current state can meet its deadline
   | 'complete'
   | 'error'
   | 'deadlock'
@@ -350,6 +393,16 @@ export interface CFSMExecutionSnapshot {
    */
   messageIdCounter: number;
 
+  /**
+   * Virtual time of this role's last send/receive
+   */
+  clockResetAt?: number;
+
+  /**
+   * Payload values known to the role
+   */
+  values?: PayloadValues;
+
   /**
    * Timestamp when snapshot was taken
    */
@@ -456,6 +509,16 @@ export interface DistributedSimulatorConfig {
    * Whether to explore all interleavings (for verification)
    */
   exploreAllInterleavings?: boolean;
+
+  /**
+   * Payload values of each role's sends (see CFSMSimulatorConfig.payloads)
+   */
+  payloads?: Map<string, PayloadProvider>;
+
+  /**
+   * Record or replay the run (see CFSMSimulatorConfig.replay)
+   */
+  replay?: ReplaySession;
 }
 
 /**
@@ -506,6 +569,11 @@ export interface DistributedExecutionState {
    * Roles that can make progress
    */
   enabledRoles: string[];
+
+  /**
+   * Virtual time (ms), shared by all roles
+   */
+  time: number;
 }
 
 /**
@@ -535,7 +603,7 @@ export interface DistributedRunResult {
  * Distributed execution error
  */
 export interface DistributedExecutionError {
-  type: 'deadlock' | 'buffer-overflow' | 'max-steps' | 'no-progress' | 'invalid-message';
+  type: 'deadlock' | 'buffer-overflow' | 'max-steps' | 'no-progress' | 'invalid-message' | 'deadline-missed' | 'replay-ended';
   message: string;
   roles?: string[];
   details?: any;
@@ -513,3 +513,206 @@ describe('CFSM Simulator - Run to Completion', () => {
     expect(result.steps).toBe(10);
   });
 });
+
+describe('CFSM Simulator - Virtual Time', () => {
+  // Client waits 5s for a Response, then gives up with Cancel
+  const quoteClient = (): CFSM => ({
+    role: 'Client',
+    protocolName: 'Quote',
+    parameters: [],
+    states: [{ id: 's0' }, { id: 's1' }, { id: 's2' }],
+    transitions: [
+      {
+        id: 't0',
+        from: 's0',
+        to: 's1',
+        action: { type: 'receive', from: 'Server', label: 'Response' } as ReceiveAction,
+        clockConstraints: [{ clock: 'Client', operator: '<', bound: 5000 }],
+      },
+      {
+        id: 't1',
+        from: 's0',
+        to: 's2',
+        action: { type: 'send', to: 'Server', label: 'Cancel' } as SendAction,
+        clockConstraints: [{ clock: 'Client', operator: '>=', bound: 5000 }],
+      },
+    ],
+    initialState: 's0',
+    terminalStates: ['s1', 's2'],
+  });
+
+  it('should enable the timeout branch once its bound has passed', async () => {
+    const sim = new CFSMSimulator(quoteClient());
+    const timeouts: any[] = [];
+    sim.on('timeout', data => timeouts.push(data));
+
+    expect(sim.getEnabledTransitions()).toHaveLength(0);
+    expect(sim.nextTimerDelay()).toBe(5000);
+
+    sim.advanceTime(4999);
+    expect(sim.getEnabledTransitions()).toHaveLength(0);
+    expect(timeouts).toHaveLength(0);
+
+    sim.advanceTime(1);
+    expect(sim.getEnabledTransitions().map(t => t.id)).toEqual(['t1']);
+    expect(timeouts).toHaveLength(1);
+    expect(timeouts[0].after).toBe(5000);
+  });
+
+  it('should jump to the next timeout when nothing else can happen', async () => {
+    const sim = new CFSMSimulator(quoteClient(), { recordTrace: true });
+    const result = await sim.run();
+
+    expect(result.success).toBe(true);
+    expect(sim.getState().currentState).toBe('s2');
+    expect(sim.getTime()).toBe(5000);
+
+    const sent = result.trace!.events.find(e => e.type === 'send') as any;
+    expect(sent.label).toBe('Cancel');
+    expect(sent.time).toBe(5000);
+  });
+
+  it('should reset the role clock on each action', async () => {
+    const cfsm: CFSM = {
+      role: 'A',
+      protocolName: 'Timed',
+      parameters: [],
+      states: [{ id: 's0' }, { id: 's1' }, { id: 's2' }],
+      transitions: [
+        { id: 't0', from: 's0', to: 's1', action: { type: 'send', to: 'B', label: 'M1' } as SendAction },
+        {
+          id: 't1',
+          from: 's1',
+          to: 's2',
+          action: { type: 'send', to: 'B', label: 'M2' } as SendAction,
+          clockConstraints: [{ clock: 'A', operator: '<=', bound: 1000 }],
+        },
+      ],
+      initialState: 's0',
+      terminalStates: ['s2'],
+    };
+
+    const sim = new CFSMSimulator(cfsm);
+    sim.advanceTime(3000);
+    await sim.step();
+
+    expect(sim.getClockValue()).toBe(0);
+    sim.advanceTime(1000);
+    expect(sim.getEnabledTransitions()).toHaveLength(1);
+  });
+
+  it('should report a missed deadline', async () => {
+    const cfsm: CFSM = {
+      role: 'A',
+      protocolName: 'Timed',
+      parameters: [],
+      states: [{ id: 's0' }, { id: 's1' }],
+      transitions: [
+        {
+          id: 't0',
+          from: 's0',
+          to: 's1',
+          action: { type: 'send', to: 'B', label: 'Ping' } as SendAction,
+          clockConstraints: [{ clock: 'A', operator: '<=', bound: 1000 }],
+        },
+      ],
+      initialState: 's0',
+      terminalStates: ['s1'],
+    };
+
+    const sim = new CFSMSimulator(cfsm);
+    const missed: any[] = [];
+    sim.on('deadline-missed', data => missed.push(data));
+
+    sim.advanceTime(1001);
+    const result = await sim.step();
+
+    expect(result.success).toBe(false);
+    expect(result.error?.type).toBe('deadline-missed');
+    expect(missed).toHaveLength(1);
+    expect(sim.hasMissedDeadline()).toBe(true);
+  });
+});
+
+describe('CFSM Simulator - Refinements', () => {
+  // Buyer -> Seller: Pay(amount: Int) where amount > 0;
+  const payment = (role: 'Buyer' | 'Seller'): CFSM => {
+    const message = {
+      type: 'Message' as const,
+      label: 'Pay',
+      payload: {
+        type: 'Payload' as const,
+        payloadType: {
+          type: 'RecordType' as const,
+          fields: [{ type: 'RecordField' as const, name: 'amount', fieldType: { type: 'SimpleType' as const, name: 'Int' } }],
+        },
+      },
+    };
+    const action = role === 'Buyer'
+      ? { type: 'send', to: 'Seller', label: 'Pay', message } as SendAction
+      : { type: 'receive', from: 'Buyer', label: 'Pay', message } as ReceiveAction;
+
+    return {
+      role,
+      protocolName: 'Payment',
+      parameters: [],
+      states: [{ id: 's0' }, { id: 's1' }],
+      transitions: [{
+        id: 't0',
+        from: 's0',
+        to: 's1',
+        action,
+        guard: {
+          type: 'BinaryExpression',
+          operator: '>',
+          left: { type: 'VariableExpression', name: 'amount' },
+          right: { type: 'LiteralExpression', value: 0 },
+        },
+      }],
+      initialState: 's0',
+      terminalStates: ['s1'],
+    };
+  };
+
+  it('should send payloads that satisfy the guard', async () => {
+    const sim = new CFSMSimulator(payment('Buyer'), { payloads: () => ({ amount: 5 }) });
+    const result = await sim.step();
+
+    expect(result.success).toBe(true);
+    expect(sim.getOutgoingMessages()[0].payload).toEqual({ amount: 5 });
+    expect(sim.getValues()).toEqual({ amount: 5 });
+  });
+
+  it('should report a send that breaks the guard', async () => {
+    const sim = new CFSMSimulator(payment('Buyer'), { payloads: () => ({ amount: 0 }) });
+    const errors: any[] = [];
+    sim.on('error', error => errors.push(error));
+
+    const result = await sim.step();
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatchObject({
+      type: 'predicate-violation',
+      message: 'Predicate of Pay does not hold: amount > 0 (amount = 0)',
+      stateId: 's0',
+    });
+    expect(errors).toHaveLength(1);
+    expect(sim.getOutgoingMessages()).toHaveLength(0);
+  });
+
+  it('should report a received payload that breaks the guard', async () => {
+    const sim = new CFSMSimulator(payment('Seller'));
+    sim.deliverMessage({ id: 'm1', from: 'Buyer', to: 'Seller', label: 'Pay', payload: { amount: -1 }, timestamp: 0 });
+
+    const result = await sim.step();
+
+    expect(result.error?.type).toBe('predicate-violation');
+    expect(result.error?.details).toMatchObject({ reason: 'false', values: { amount: -1 } });
+  });
+
+  it('should not check messages without a payload value', async () => {
+    const sim = new CFSMSimulator(payment('Buyer'));
+
+    expect((await sim.step()).success).toBe(true);
+  });
+});
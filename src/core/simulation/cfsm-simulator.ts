@@ -20,6 +20,23 @@
  * 2. Receive ?p⟨l⟩: Enabled iff message ⟨p,l⟩ in buffer
  * 3. Tau τ: Always enabled (internal action)
  * 4. Choice: Always enabled (internal decision)
+ * In addition, a transition's clock constraints must hold (timed types).
+ *
+ * Refinements: a transition's guard is the predicate of its message
+ * (`where amount > 0`), checked on send and on receive against the payload
+ * value and the values the role has seen (a violation is an error).
+ *
+ * Virtual Time (docs/theory/timed-session-types.md):
+ * - Time passes only through advanceTime() (deterministic)
+ * - The role's clock is reset by each of its sends and receives
+ * - A timeout handler (clock ≥ d) becomes enabled once its bound passes
+ * - A deadline is missed when no transition of the current state can
+ *   ever satisfy its constraints again
+ *
+ * Record and Replay (replay.ts):
+ * - With a recording session, every transition chosen, payload sent and
+ *   input from outside (advanceTime, deliverMessage) goes into its log
+ * - With a replaying session, the log's choices replace the strategy
  *
  * Message Buffers:
  * - One FIFO queue per sender role
@@ -31,6 +48,10 @@
  */
 
 import type { CFSM, CFSMTransition } from '../projection/types';
+import type { Message as AstMessage } from '../ast/types';
+import { satisfiesClockConstraint } from '../cfg/types';
+import type { PayloadProvider, PayloadValues } from '../predicates/types';
+import { checkPredicate, payloadValues } from '../predicates/evaluator';
 import type {
   CFSMSimulatorConfig,
   CFSMExecutionState,
@@ -48,10 +69,13 @@ import type {
   CallStackFrame,
 } from './cfsm-simulator-types';
 import { CFSMExecutionHistory } from './execution-history';
+import { VirtualClock } from './virtual-clock';
+import { findReplayedTransition, formatAction } from './replay';
+import type { ReplaySession } from './replay';
 
 export class CFSMSimulator {
   private rootCFSM: CFSM;  // Root CFSM (never changes)
-  private config: Required<Omit<CFSMSimulatorConfig, 'executionHistory' | 'transport' | 'cfsmRegistry'>>;
+  private config: Required<Omit<CFSMSimulatorConfig, 'executionHistory' | 'transport' | 'cfsmRegistry' | 'clock' | 'payloads' | 'replay'>>;
 
   // Execution history (for backward stepping)
   private executionHistory: ICFSMExecutionHistory;
@@ -101,6 +125,24 @@ export class CFSMSimulator {
   // Message ID counter
   private messageIdCounter: number = 0;
 
+  // Payload values of sends, and the values this role has seen
+  // (named arguments, by variable name) for checking refinements
+  private payloads?: PayloadProvider;
+  private values: PayloadValues = {};
+
+  // Virtual time (timed types)
+  // The clock is shared when provided by a coordinator
+  private clock: VirtualClock;
+  private ownsClock: boolean;
+  private clockResetAt: number = 0;    // Time of this role's last send/receive
+  private lastTimerCheck: number = 0;  // Time of the last checkTimers()
+
+  // Record and replay
+  // Inputs from outside are replayed by the simulator the session was
+  // attached to first (the coordinator, when there is one)
+  private replay?: ReplaySession;
+  private ownsReplay: boolean = false;
+
   constructor(cfsm: CFSM, config: CFSMSimulatorConfig = {}) {
     // Store root CFSM
     this.rootCFSM = cfsm;
@@ -129,6 +171,23 @@ export class CFSMSimulator {
     // Initialize CFSM registry for sub-protocol support
     this.cfsmRegistry = config.cfsmRegistry || new Map();
 
+    this.payloads = config.payloads;
+
+    this.replay = config.replay;
+    if (this.replay) {
+      this.ownsReplay = this.replay.attach('cfsm', new Map([[cfsm.role, cfsm]]), {
+        maxBufferSize: config.maxBufferSize,
+        verifyFIFO: config.verifyFIFO,
+      });
+      this.payloads = this.replay.payloads(cfsm.role, config.payloads);
+    }
+
+    // Initialize virtual clock
+    this.clock = config.clock || new VirtualClock();
+    this.ownsClock = !config.clock;
+    this.clockResetAt = this.clock.now();
+    this.lastTimerCheck = this.clock.now();
+
     // Initialize call stack (empty = root protocol)
     this.callStack = [];
 
@@ -162,10 +221,19 @@ export class CFSMSimulator {
       buffer: this.cloneBuffer(),
       enabledTransitions: this.getEnabledTransitions(),
       pendingTransitionChoice: this.pendingTransitionChoice,
+      time: this.clock.now(),
+      clockValue: this.getClockValue(),
       callStack: [...this.callStack],  // Include call stack in state
     };
   }
 
+  /**
+   * Payload values this role has seen, by variable name
+   */
+  getValues(): PayloadValues {
+    return { ...this.values };
+  }
+
   /**
    * Get enabled transitions from current state
    *
@@ -175,11 +243,14 @@ export class CFSMSimulator {
    * - Tau: Always
    * - Choice: Always
    * - SubProtocol: Always (invocation check happens at execution)
+   * and its clock constraints hold at the current time.
    */
   getEnabledTransitions(): CFSMTransition[] {
     const transitions = this.currentCFSM.transitions.filter(t => t.from === this.currentState);
 
     return transitions.filter(t => {
+      if (!this.clockAllows(t)) return false;
+
       if (t.action.type === 'receive') {
         const from = t.action.from;
         const label = t.action.label;
@@ -201,6 +272,10 @@ export class CFSMSimulator {
         }
       }
 
+      // Crash detection needs a failure detector: only the runtime
+      // Executor has one (roles here never crash)
+      if (t.action.type === 'crash') return false;
+
       // Send, tau, choice always enabled
       return true;
     });
@@ -211,6 +286,7 @@ export class CFSMSimulator {
    * Now fully async to support async message transport
    */
   async step(): Promise<CFSMStepResult> {
+    this.replayInputs();
     this.emit('step-start', { stepCount: this.stepCount, currentState: this.currentState });
 
     // Check if completed
@@ -271,6 +347,15 @@ export class CFSMSimulator {
         this.trace.totalSteps = this.stepCount;
         this.emit('complete', { role: this.rootCFSM.role, steps: this.stepCount });
         return { success: true, state: this.getState() };
+      } else if (this.hasMissedDeadline()) {
+        // Time error - every way out of this state is past its deadline
+        const error = {
+          type: 'deadline-missed' as const,
+          message: `Deadline missed at state ${this.currentState}: ${this.describeDeadlines()} (clock is ${this.getClockValue()}ms)`,
+          stateId: this.currentState,
+        };
+        this.emit('error', error);
+        return { success: false, error, state: this.getState() };
       } else {
         // Deadlock - no transitions enabled and not terminal
         const error = {
@@ -283,6 +368,25 @@ export class CFSMSimulator {
       }
     }
 
+    // Replay: the log's choice
+    if (this.replay?.isReplaying()) {
+      this.pendingTransitionChoice = null;
+      const decision = this.replay.next('transition', this.rootCFSM.role);
+      if (!decision) {
+        const error = {
+          type: 'replay-ended' as const,
+          message: 'Replay log ended',
+          stateId: this.currentState,
+        };
+        return { success: false, error, state: this.getState() };
+      }
+      const transition = findReplayedTransition(this.replay, decision, this.currentState, enabled);
+      this.stepCount++;
+      const result = await this.fireTransition(transition);
+      this.emit('step-end', { stepCount: this.stepCount, result, state: this.getState() });
+      return result;
+    }
+
     // Select transition to fire
     let transitionIndex: number;
     if (this.pendingTransitionChoice !== null) {
@@ -315,6 +419,13 @@ export class CFSMSimulator {
     }
 
     const transition = enabled[transitionIndex];
+    this.replay?.record({
+      kind: 'transition',
+      role: this.rootCFSM.role,
+      state: this.currentState,
+      transition: transition.id,
+      action: formatAction(transition.action),
+    });
 
     // Fire the transition
     this.stepCount++;
@@ -364,6 +475,13 @@ export class CFSMSimulator {
     const action = transition.action;
     if (action.type !== 'send') throw new Error('Expected send action');
 
+    // Payload value, which must satisfy the message's refinement
+    const payload = this.payloads?.(action, this.values);
+    const violation = this.checkGuard(transition, action.message, payload);
+    if (violation) {
+      return violation;
+    }
+
     // Create message(s)
     const recipients = typeof action.to === 'string' ? [action.to] : action.to;
     const messages: Message[] = recipients.map(to => ({
@@ -372,6 +490,7 @@ export class CFSMSimulator {
       to,
       label: action.label,
       payloadType: action.payloadType,
+      ...(payload !== undefined && { payload }),
       timestamp: Date.now(),
     }));
 
@@ -405,10 +524,28 @@ export class CFSMSimulator {
           payloadType: msg.payloadType,
           messageId: msg.id,
           stateId: this.currentState,
+          ...(action.exception && { exception: true }),
+          time: this.clock.now(),
         });
       }
     }
 
+    // Sending resets this role's clock
+    this.clockResetAt = this.clock.now();
+    if (payload !== undefined) {
+      Object.assign(this.values, payloadValues(action.message, payload));
+    }
+
+    // Throw: the notifications above abort the try block for every participant
+    if (action.exception) {
+      this.emit('exception-raised', {
+        role: this.rootCFSM.role,
+        label: action.label,
+        to: recipients,
+        payloadType: action.payloadType,
+      });
+    }
+
     // Transition to next state
     this.currentState = transition.to;
     this.visitedStates.push(this.currentState);
@@ -435,7 +572,7 @@ export class CFSMSimulator {
    * Consumes message from transport or buffer (legacy)
    */
   private async executeReceive(transition: CFSMTransition): Promise<CFSMStepResult> {
-    const action = transition.action;
+    let action = transition.action;
     if (action.type !== 'receive') throw new Error('Expected receive action');
 
     let msg: Message;
@@ -452,6 +589,33 @@ export class CFSMSimulator {
 
       // In transport mode, we trust the transport to maintain FIFO ordering
       // Verification would happen at the transport layer
+
+      // External choice: the received message selects the branch
+      // (e.g. an exception notification instead of the normal continuation)
+      if (msg.from !== action.from || msg.label !== action.label) {
+        const matching = this.currentCFSM.transitions.find(t =>
+          t.from === this.currentState &&
+          t.action.type === 'receive' &&
+          t.action.from === msg.from &&
+          t.action.label === msg.label
+        );
+        if (matching && matching.action.type === 'receive') {
+          transition = matching;
+          action = matching.action;
+        }
+      }
+
+      // The message selected a branch that is past its deadline
+      if (!this.clockAllows(transition)) {
+        const error = {
+          type: 'deadline-missed' as const,
+          message: `Deadline missed at state ${this.currentState}: received ${msg.label} from ${msg.from} ` +
+            `after ${this.getClockValue()}ms (${this.describeDeadlines([transition])})`,
+          stateId: this.currentState,
+        };
+        this.emit('error', error);
+        return { success: false, error, state: this.getState() };
+      }
     } else {
       // Legacy mode: get message from buffer (FIFO)
       const queue = this.buffer.channels.get(action.from);
@@ -481,6 +645,14 @@ export class CFSMSimulator {
       queue.shift()!;
     }
 
+    // The payload must satisfy the refinement of the message
+    const violation = msg.label === action.label
+      ? this.checkGuard(transition, action.message, msg.payload)
+      : undefined;
+    if (violation) {
+      return violation;
+    }
+
     // Emit receive event
     this.emit('receive', {
       messageId: msg.id,
@@ -509,6 +681,24 @@ export class CFSMSimulator {
         payloadType: action.payloadType,
         messageId: msg.id,
         stateId: this.currentState,
+        ...(action.exception && { exception: true }),
+        time: this.clock.now(),
+      });
+    }
+
+    // Receiving resets this role's clock
+    this.clockResetAt = this.clock.now();
+    if (msg.payload !== undefined && msg.label === action.label) {
+      Object.assign(this.values, payloadValues(action.message, msg.payload));
+    }
+
+    // Exception notification: continue with the catch handler
+    if (action.exception) {
+      this.emit('exception-caught', {
+        role: this.rootCFSM.role,
+        label: action.label,
+        from: action.from,
+        payloadType: action.payloadType,
       });
     }
 
@@ -533,6 +723,34 @@ export class CFSMSimulator {
     };
   }
 
+  /**
+   * Check the refinement (guard) of a send or receive against its payload
+   * value and the values this role has seen; messages without a payload
+   * value are not checked
+   */
+  private checkGuard(
+    transition: CFSMTransition,
+    message: AstMessage,
+    payload: unknown
+  ): CFSMStepResult | undefined {
+    if (!transition.guard || payload === undefined) return undefined;
+
+    const violation = checkPredicate(transition.guard, message.label, {
+      ...this.values,
+      ...payloadValues(message, payload),
+    });
+    if (!violation) return undefined;
+
+    const error = {
+      type: 'predicate-violation' as const,
+      message: violation.message,
+      stateId: this.currentState,
+      details: violation,
+    };
+    this.emit('error', error);
+    return { success: false, error, state: this.getState() };
+  }
+
   /**
    * Execute tau (silent) action
    */
@@ -710,6 +928,7 @@ export class CFSMSimulator {
    */
   deliverMessage(message: Message): void {
     const from = message.from;
+    this.replay?.record({ kind: 'message', message });
 
     // Check buffer size limit
     if (this.config.maxBufferSize > 0) {
@@ -753,6 +972,160 @@ export class CFSMSimulator {
     this.pendingTransitionChoice = index;
   }
 
+  /**
+   * Raise an exception (manual strategy)
+   *
+   * Selects the enabled throw transition for the given exception label,
+   * as selectTransition() would with its index.
+   */
+  raise(label: string): void {
+    const enabled = this.getEnabledTransitions();
+    const index = enabled.findIndex(t =>
+      t.action.type === 'send' && t.action.exception === true && t.action.label === label
+    );
+    if (index === -1) {
+      throw new Error(`Cannot throw ${label} at state ${this.currentState}`);
+    }
+    this.pendingTransitionChoice = index;
+  }
+
+  // ============================================================================
+  // Virtual Time (Timed Session Types)
+  // ============================================================================
+
+  /**
+   * Get current virtual time (ms)
+   */
+  getTime(): number {
+    return this.clock.now();
+  }
+
+  /**
+   * Get this role's clock: time since its last send/receive (ms)
+   */
+  getClockValue(): number {
+    return this.clock.now() - this.clockResetAt;
+  }
+
+  /**
+   * Let virtual time pass, firing timeouts and detecting missed deadlines
+   *
+   * With a shared clock, advance it through the coordinator instead
+   * (DistributedSimulator.advanceTime).
+   */
+  advanceTime(ms: number): void {
+    this.replay?.record({ kind: 'time', ms });
+    this.passTime(ms);
+  }
+
+  /**
+   * Let virtual time pass on the simulator's own account (run() waiting
+   * for a timeout): not an input to record
+   */
+  private passTime(ms: number): void {
+    this.clock.advance(ms);
+    this.checkTimers();
+  }
+
+  /**
+   * React to the passage of time since the last check
+   * Called by advanceTime() and by the distributed coordinator
+   *
+   * Emits 'timeout' for each transition whose lower bound was crossed and
+   * 'deadline-missed' when the current state can no longer be left.
+   */
+  checkTimers(): void {
+    const previousValue = Math.max(0, this.lastTimerCheck - this.clockResetAt);
+    const value = this.getClockValue();
+    this.lastTimerCheck = this.clock.now();
+
+    if (this.completed) return;
+
+    for (const transition of this.getOutgoingTransitions()) {
+      for (const constraint of transition.clockConstraints ?? []) {
+        if (constraint.operator === '>=' && previousValue < constraint.bound && value >= constraint.bound) {
+          this.emit('timeout', {
+            role: this.rootCFSM.role,
+            stateId: this.currentState,
+            transitionId: transition.id,
+            after: constraint.bound,
+            time: this.clock.now(),
+          });
+        }
+      }
+    }
+
+    if (this.hasMissedDeadline(value) && !this.hasMissedDeadline(previousValue)) {
+      this.emit('deadline-missed', {
+        role: this.rootCFSM.role,
+        stateId: this.currentState,
+        clockValue: value,
+        time: this.clock.now(),
+      });
+    }
+  }
+
+  /**
+   * Time (ms) until a transition of the current state that waits for its
+   * clock (timeout handler) becomes enabled, or undefined if none does
+   */
+  nextTimerDelay(): number | undefined {
+    const value = this.getClockValue();
+    let next: number | undefined;
+
+    for (const transition of this.getOutgoingTransitions()) {
+      const lowerBounds = (transition.clockConstraints ?? [])
+        .filter(c => c.operator === '>=')
+        .map(c => c.bound);
+      if (lowerBounds.length === 0) continue;
+
+      const at = Math.max(...lowerBounds);
+      if (at <= value || !this.clockAllows(transition, at)) continue;
+      if (next === undefined || at - value < next) {
+        next = at - value;
+      }
+    }
+
+    return next;
+  }
+
+  /**
+   * Check whether every transition of the current state is past its deadline
+   */
+  hasMissedDeadline(value: number = this.getClockValue()): boolean {
+    if (this.completed) return false;
+
+    const outgoing = this.getOutgoingTransitions();
+    if (outgoing.length === 0) return false;
+
+    // Upper bounds only get further out of reach as time passes
+    return outgoing.every(t =>
+      (t.clockConstraints ?? []).some(c => c.operator !== '>=' && !satisfiesClockConstraint(value, c))
+    );
+  }
+
+  private getOutgoingTransitions(): CFSMTransition[] {
+    return this.currentCFSM.transitions.filter(t => t.from === this.currentState);
+  }
+
+  private clockAllows(transition: CFSMTransition, value: number = this.getClockValue()): boolean {
+    return (transition.clockConstraints ?? []).every(c => satisfiesClockConstraint(value, c));
+  }
+
+  private describeDeadlines(transitions: CFSMTransition[] = this.getOutgoingTransitions()): string {
+    return transitions
+      .map(t => {
+        const label = t.action.type === 'send' || t.action.type === 'receive'
+          ? t.action.label ?? t.action.message.label
+          : t.action.type;
+        const bounds = (t.clockConstraints ?? [])
+          .filter(c => c.operator !== '>=')
+          .map(c => `${c.operator} ${c.bound}ms`);
+        return bounds.length > 0 ? `${label} ${bounds.join(', ')}` : label;
+      })
+      .join('; ');
+  }
+
   /**
    * Verify FIFO ordering property (Theorem 5.3, Honda et al. 2016)
    *
@@ -820,6 +1193,16 @@ export class CFSMSimulator {
    */
   async run(): Promise<CFSMRunResult> {
     while (!this.completed && !this.reachedMaxSteps) {
+      this.replayInputs();
+
+      // Nothing to do but wait: jump to the next timeout
+      if (this.getEnabledTransitions().length === 0) {
+        const delay = this.nextTimerDelay();
+        if (delay !== undefined) {
+          this.passTime(delay);
+        }
+      }
+
       const result = await this.step();
 
       if (!result.success) {
@@ -841,6 +1224,25 @@ export class CFSMSimulator {
     };
   }
 
+  /**
+   * Apply the inputs from outside the log has before its next choice
+   */
+  private replayInputs(): void {
+    if (!this.ownsReplay || !this.replay!.isReplaying()) return;
+
+    let input = this.replay!.nextInput();
+    while (input) {
+      if (input.kind === 'time') {
+        this.advanceTime(input.ms);
+      } else if (input.kind === 'message') {
+        this.deliverMessage(input.message as Message);
+      } else {
+        this.replay!.reject(`the ${this.rootCFSM.role} simulator has no crashes to replay`);
+      }
+      input = this.replay!.nextInput();
+    }
+  }
+
   /**
    * Check if completed
    */
@@ -877,6 +1279,18 @@ export class CFSMSimulator {
     this.outgoingMessages = [];
     this.pendingTransitionChoice = null;
     this.messageIdCounter = 0;
+    this.values = {};
+
+    if (this.ownsReplay) {
+      this.replay!.restart();
+    }
+
+    // Reset virtual time (a shared clock is reset by its owner)
+    if (this.ownsClock) {
+      this.clock.reset();
+    }
+    this.clockResetAt = this.clock.now();
+    this.lastTimerCheck = this.clock.now();
 
     this.trace = {
       role: this.rootCFSM.role,
@@ -911,6 +1325,8 @@ export class CFSMSimulator {
       completed: this.completed,
       reachedMaxSteps: this.reachedMaxSteps,
       messageIdCounter: this.messageIdCounter,
+      clockResetAt: this.clockResetAt,
+      values: { ...this.values },
       timestamp: Date.now(),
     };
 
@@ -930,6 +1346,8 @@ export class CFSMSimulator {
     this.completed = snapshot.completed;
     this.reachedMaxSteps = snapshot.reachedMaxSteps;
     this.messageIdCounter = snapshot.messageIdCounter;
+    this.clockResetAt = snapshot.clockResetAt ?? this.clockResetAt;
+    this.values = { ...(snapshot.values ?? this.values) };
   }
 
   /**
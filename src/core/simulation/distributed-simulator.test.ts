@@ -7,6 +7,9 @@
 import { describe, it, expect } from 'vitest';
 import { DistributedSimulator } from './distributed-simulator';
 import type { CFSM, SendAction, ReceiveAction } from '../projection/types';
+import { parse } from '../parser/parser';
+import { buildCFG } from '../cfg/builder';
+import { projectAll } from '../projection/projector';
 
 describe('Distributed Simulator - Basic Coordination', () => {
   it('should coordinate two roles with message passing', async () => {
@@ -648,3 +651,117 @@ describe('Distributed Simulator - Reset and State', () => {
     expect(state.allCompleted).toBe(true);
   });
 });
+
+describe('Distributed Simulator - Exception Handling', () => {
+  const source = `
+    protocol Checkout(role Client, role Shop, role Bank) {
+      try {
+        choice at Shop {
+          Shop -> Client: Confirm();
+          Shop -> Bank: Charge();
+        } or {
+          throw OutOfStock() from Shop;
+        }
+      } catch OutOfStock() {
+        Client -> Shop: Cancel();
+      }
+    }
+  `;
+
+  const projectCheckout = () => {
+    const cfg = buildCFG(parse(source).declarations[0] as any);
+    return projectAll(cfg).cfsms;
+  };
+
+  it('should notify every participant and run the catch handler', async () => {
+    const dist = new DistributedSimulator(projectCheckout(), { recordTrace: true });
+
+    const raised: any[] = [];
+    const caught: string[] = [];
+    dist.getSimulator('Shop')!.on('exception-raised', data => raised.push(data));
+    dist.getSimulator('Client')!.on('exception-caught', data => caught.push(data.role));
+    dist.getSimulator('Bank')!.on('exception-caught', data => caught.push(data.role));
+
+    dist.getSimulator('Shop')!.raise('OutOfStock');
+    const result = await dist.run();
+
+    expect(result.success).toBe(true);
+    expect(raised).toHaveLength(1);
+    expect(raised[0].to).toEqual(['Client', 'Bank']);
+    expect(caught.sort()).toEqual(['Bank', 'Client']);
+
+    const clientEvents = (result.traces!.get('Client')!.events as any[])
+      .filter(e => e.type === 'send' || e.type === 'receive');
+    expect(clientEvents.map(e => e.label)).toEqual(['OutOfStock', 'Cancel']);
+    expect(clientEvents[0].exception).toBe(true);
+  });
+
+  it('should reject raising an exception that is not enabled', () => {
+    const dist = new DistributedSimulator(projectCheckout());
+    expect(() => dist.getSimulator('Client')!.raise('OutOfStock')).toThrow(/Cannot throw OutOfStock/);
+  });
+});
+
+describe('Distributed Simulator - Virtual Time', () => {
+  const projectSource = (source: string) => {
+    const cfg = buildCFG(parse(source).declarations[0] as any);
+    return projectAll(cfg).cfsms;
+  };
+
+  const QUOTE = `
+    protocol Quote(role Client, role Server) {
+      Client -> Server: Request();
+      timeout(5s) {
+        Client -> Server: Cancel();
+      }
+      Server -> Client: Response();
+    }
+  `;
+
+  it('should complete without waiting when the guarded message arrives in time', async () => {
+    const dist = new DistributedSimulator(projectSource(QUOTE));
+    const result = await dist.run();
+
+    expect(result.success).toBe(true);
+    expect(dist.getTime()).toBe(0);
+    expect(result.state.time).toBe(0);
+  });
+
+  it('should take the timeout branch after time has passed', async () => {
+    const dist = new DistributedSimulator(projectSource(QUOTE), { recordTrace: true });
+
+    await dist.step(); // Client sends Request
+    dist.advanceTime(5000);
+    const result = await dist.run();
+
+    expect(result.success).toBe(true);
+    const clientLabels = (result.traces!.get('Client')!.events as any[])
+      .filter(e => e.type === 'send' || e.type === 'receive')
+      .map(e => e.label);
+    expect(clientLabels).toEqual(['Request', 'Cancel']);
+  });
+
+  it('should report a deadline that was let pass', async () => {
+    const dist = new DistributedSimulator(projectSource(`
+      protocol Fast(role A, role B) {
+        A -> B: Ping() within 1s;
+      }
+    `));
+
+    dist.advanceTime(2000);
+    const result = await dist.step();
+
+    expect(result.success).toBe(false);
+    expect(result.error?.type).toBe('deadline-missed');
+    expect(result.error?.roles).toContain('A');
+    expect(result.state.deadlocked).toBe(false);
+  });
+
+  it('should reset virtual time', async () => {
+    const dist = new DistributedSimulator(projectSource(QUOTE));
+    dist.advanceTime(1000);
+    dist.reset();
+
+    expect(dist.getTime()).toBe(0);
+  });
+});
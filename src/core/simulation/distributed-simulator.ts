@@ -21,6 +21,18 @@
  * 5. Check for deadlock/completion
  * 6. Repeat
  *
+ * Virtual Time (timed types):
+ * - All roles share one deterministic VirtualClock
+ * - advanceTime() lets time pass explicitly
+ * - When no role can act, time jumps to the next timeout (if any)
+ * - A missed deadline is reported as a 'deadline-missed' error
+ *
+ * Record and Replay (replay.ts):
+ * - One session shared by the coordinator and every role
+ * - The coordinator records which role runs each step and the time let
+ *   pass by advanceTime(); each role records its own choices and payloads
+ * - Replaying, the log's schedule replaces the scheduling strategy
+ *
  * Deadlock Detection:
  * - Deadlock: No role has enabled transitions
  * - Can happen due to circular waits in distributed setting
@@ -39,19 +51,28 @@ import type {
   DistributedExecutionState,
   DistributedStepResult,
   DistributedRunResult,
+  DistributedExecutionError,
   CFSMExecutionTrace,
   MessageBuffer,
 } from './cfsm-simulator-types';
 import { InMemoryTransport } from '../runtime/transport';
+import { VirtualClock } from './virtual-clock';
+import type { ReplaySession } from './replay';
 
 export class DistributedSimulator {
   private cfsms: Map<string, CFSM>;
   private simulators: Map<string, CFSMSimulator>;
-  private config: Required<DistributedSimulatorConfig>;
+  private config: Required<Omit<DistributedSimulatorConfig, 'payloads' | 'replay'>>;
 
   // Message transport (shared among all roles)
   private transport: InMemoryTransport;
 
+  // Virtual clock (shared among all roles)
+  private clock: VirtualClock;
+
+  // Record and replay (shared among all roles)
+  private replay?: ReplaySession;
+
   // Global state
   private globalSteps: number = 0;
   private reachedMaxSteps: boolean = false;
@@ -75,6 +96,13 @@ export class DistributedSimulator {
     // Create shared message transport (FIFO channels between all roles)
     this.transport = new InMemoryTransport();
 
+    // Create shared virtual clock (timed protocols)
+    this.clock = new VirtualClock();
+
+    // Attach the replay session before the roles do
+    this.replay = config.replay;
+    this.replay?.attach('distributed', cfsms, { maxBufferSize: config.maxBufferSize });
+
     // Create simulators with shared transport
     this.simulators = new Map();
     for (const [role, cfsm] of cfsms) {
@@ -86,6 +114,9 @@ export class DistributedSimulator {
           recordTrace: config.recordTrace,
           transitionStrategy: 'first', // Distributed coordinator controls scheduling
           transport: this.transport, // Share transport across all roles
+          clock: this.clock, // Share virtual time across all roles
+          payloads: config.payloads?.get(role),
+          replay: this.replay,
         })
       );
       this.roleScheduleCount.set(role, 0);
@@ -127,6 +158,7 @@ export class DistributedSimulator {
       allCompleted,
       deadlocked: this.deadlocked,
       enabledRoles,
+      time: this.clock.now(),
     };
   }
 
@@ -152,6 +184,8 @@ export class DistributedSimulator {
    * Execute one global step (one role executes one transition)
    */
   async step(): Promise<DistributedStepResult> {
+    this.replayInputs();
+
     // Check if done
     if (this.globalSteps >= this.config.maxSteps) {
       this.reachedMaxSteps = true;
@@ -162,16 +196,22 @@ export class DistributedSimulator {
       return { success: false, error, state: this.getState() };
     }
 
-    // Get enabled roles
-    const enabledRoles = this.getEnabledRoles();
+    // Get enabled roles (waiting for a timeout if nothing else can happen)
+    let enabledRoles = this.getEnabledRoles();
+    if (enabledRoles.length === 0 && this.advanceToNextTimer()) {
+      enabledRoles = this.getEnabledRoles();
+    }
 
     // Check for completion
     if (enabledRoles.length === 0) {
       const allComplete = Array.from(this.simulators.values()).every(sim => sim.isComplete());
+      const missedDeadline = this.getMissedDeadlineError();
 
       if (allComplete) {
         // Normal termination
         return { success: true, state: this.getState() };
+      } else if (missedDeadline) {
+        return { success: false, error: missedDeadline, state: this.getState() };
       } else {
         // Deadlock - no one can progress but not all complete
         this.deadlocked = true;
@@ -184,8 +224,25 @@ export class DistributedSimulator {
       }
     }
 
-    // Select role to execute
-    const role = this.selectRole(enabledRoles);
+    // Select role to execute (replaying: the role the log has)
+    let role: string;
+    if (this.replay?.isReplaying()) {
+      const decision = this.replay.next('schedule');
+      if (!decision) {
+        const error = {
+          type: 'replay-ended' as const,
+          message: 'Replay log ended',
+        };
+        return { success: false, error, state: this.getState() };
+      }
+      if (!enabledRoles.includes(decision.role)) {
+        this.replay.reject(`${decision.role} cannot act (enabled roles: ${enabledRoles.join(', ')})`);
+      }
+      role = decision.role;
+    } else {
+      role = this.selectRole(enabledRoles);
+      this.replay?.record({ kind: 'schedule', role });
+    }
     const simulator = this.simulators.get(role)!;
 
     // Execute one step in selected role
@@ -292,14 +349,27 @@ export class DistributedSimulator {
    */
   async run(): Promise<DistributedRunResult> {
     while (!this.deadlocked && !this.reachedMaxSteps) {
+      this.replayInputs();
       const enabled = this.getEnabledRoles();
 
       // Check if all done
       if (enabled.length === 0) {
         const allComplete = Array.from(this.simulators.values()).every(sim => sim.isComplete());
+        const missedDeadline = this.getMissedDeadlineError();
         if (allComplete) {
           // Success - all roles completed
           break;
+        } else if (missedDeadline) {
+          return {
+            success: false,
+            globalSteps: this.globalSteps,
+            state: this.getState(),
+            traces: this.getTraces(),
+            error: missedDeadline,
+          };
+        } else if (this.advanceToNextTimer()) {
+          // Waited for a timeout - roles may act again
+          continue;
         } else {
           // Deadlock
           this.deadlocked = true;
@@ -353,6 +423,84 @@ export class DistributedSimulator {
     };
   }
 
+  /**
+   * Get current virtual time (ms)
+   */
+  getTime(): number {
+    return this.clock.now();
+  }
+
+  /**
+   * Let virtual time pass for all roles
+   */
+  advanceTime(ms: number): void {
+    this.replay?.record({ kind: 'time', ms });
+    this.passTime(ms);
+  }
+
+  /**
+   * Let virtual time pass on the coordinator's own account (waiting for a
+   * timeout): not an input to record
+   */
+  private passTime(ms: number): void {
+    this.clock.advance(ms);
+    for (const sim of this.simulators.values()) {
+      sim.checkTimers();
+    }
+  }
+
+  /**
+   * Apply the inputs from outside the log has before its next step
+   */
+  private replayInputs(): void {
+    if (!this.replay?.isReplaying()) return;
+
+    let input = this.replay.nextInput();
+    while (input) {
+      if (input.kind === 'time') {
+        this.advanceTime(input.ms);
+      } else {
+        this.replay.reject(`the distributed simulator has no ${input.kind} inputs to replay`);
+      }
+      input = this.replay.nextInput();
+    }
+  }
+
+  /**
+   * Advance time to the earliest pending timeout of any role
+   * Returns false if no role is waiting for one
+   */
+  private advanceToNextTimer(): boolean {
+    let delay: number | undefined;
+    for (const sim of this.simulators.values()) {
+      if (sim.isComplete()) continue;
+      const next = sim.nextTimerDelay();
+      if (next !== undefined && (delay === undefined || next < delay)) {
+        delay = next;
+      }
+    }
+
+    if (delay === undefined) return false;
+    this.passTime(delay);
+    return true;
+  }
+
+  /**
+   * Error for roles stuck past their deadlines, if any
+   */
+  private getMissedDeadlineError(): DistributedExecutionError | undefined {
+    const roles = Array.from(this.simulators.entries())
+      .filter(([, sim]) => sim.hasMissedDeadline())
+      .map(([role]) => role);
+
+    if (roles.length === 0) return undefined;
+    return {
+      type: 'deadline-missed',
+      message: `Deadline missed by ${roles.join(', ')} at time ${this.clock.now()}ms`,
+      roles,
+    };
+  }
+
   /**
    * Get execution traces for all roles
    */
@@ -373,6 +521,8 @@ export class DistributedSimulator {
     }
     // Clear transport queues
     this.transport.clear();
+    this.clock.reset();
+    this.replay?.restart();
     this.globalSteps = 0;
     this.reachedMaxSteps = false;
     this.deadlocked = false;
@@ -0,0 +1,202 @@
+/**
+ * Record and Replay Tests
+ *
+ * Tests that runs of each simulator replay exactly from their log:
+ * - Same decisions, same traces (wall-clock timestamps aside)
+ * - Random scheduling, random choices and payloads are replayed
+ * - Inputs from outside (time, messages, crashes) are replayed
+ * - A log the protocol no longer allows fails with a divergence
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parse } from '../parser/parser';
+import { buildCFG } from '../cfg/builder';
+import { projectAll } from '../projection/projector';
+import type { GlobalProtocolDeclaration } from '../ast/types';
+import type { CFSM } from '../projection/types';
+import { CFSMSimulator } from './cfsm-simulator';
+import { DistributedSimulator } from './distributed-simulator';
+import { Simulator } from '../runtime/simulator';
+import { ReplaySession, ReplayDivergenceError, parseReplayLog } from './replay';
+import { replay } from './replayer';
+
+function projectSource(source: string): Map<string, CFSM> {
+  const cfg = buildCFG(parse(source).declarations[0] as GlobalProtocolDeclaration);
+  return projectAll(cfg).cfsms;
+}
+
+// Traces without wall-clock timestamps (not part of a run)
+function untimed(value: unknown): unknown {
+  return JSON.parse(JSON.stringify(value, (key, v) =>
+    key === 'timestamp' || key === 'startTime' || key === 'endTime' ? undefined : v
+  ));
+}
+
+const GATHER = `
+  protocol Gather(role A, role B, role C) {
+    A -> B: Left(Int);
+    C -> B: Right(Int);
+    B -> A: Sum(Int);
+  }
+`;
+
+const randomPayloads = (roles: string[]) =>
+  new Map(roles.map(role => [role, () => Math.floor(Math.random() * 1000)]));
+
+describe('Replay - DistributedSimulator', () => {
+  it('should replay random scheduling and payloads exactly', async () => {
+    const cfsms = projectSource(GATHER);
+    const recording = new ReplaySession();
+    const simulator = new DistributedSimulator(cfsms, {
+      schedulingStrategy: 'random',
+      recordTrace: true,
+      payloads: randomPayloads(['A', 'B', 'C']),
+      replay: recording,
+    });
+    const original = await simulator.run();
+    expect(original.success).toBe(true);
+
+    const log = recording.getLog();
+    expect(log.simulator).toBe('distributed');
+    expect(log.decisions.filter(d => d.kind === 'schedule')).toHaveLength(original.globalSteps);
+    expect(log.decisions.filter(d => d.kind === 'payload')).toHaveLength(3);
+
+    const result = await replay(parseReplayLog(JSON.parse(JSON.stringify(log))), cfsms);
+    expect(result.simulator).toBe('distributed');
+    expect(result.protocolChanged).toBe(false);
+    expect(result.log.decisions).toEqual(log.decisions);
+    if (result.simulator === 'distributed') {
+      expect(result.run.success).toBe(true);
+      expect(untimed(Object.fromEntries(result.run.traces))).toEqual(untimed(Object.fromEntries(original.traces)));
+    }
+  });
+
+  it('should fail loudly when the protocol no longer allows the run', async () => {
+    const recording = new ReplaySession();
+    await new DistributedSimulator(projectSource(GATHER), { replay: recording }).run();
+
+    const changed = projectSource(GATHER.replace('Right', 'Other'));
+    const error = await replay(recording.getLog(), changed).catch(e => e);
+    expect(error).toBeInstanceOf(ReplayDivergenceError);
+    expect(error.protocolChanged).toBe(true);
+    expect(error.message).toContain('B!Right');
+  });
+
+  it('should reject a log recorded for other roles', async () => {
+    const recording = new ReplaySession();
+    await new DistributedSimulator(projectSource(GATHER), { replay: recording }).run();
+
+    const other = projectSource(`
+      protocol Pair(role A, role B) {
+        A -> B: Left(Int);
+      }
+    `);
+    await expect(replay(recording.getLog(), other)).rejects.toThrow(/roles A, B, C/);
+  });
+});
+
+describe('Replay - CFSMSimulator', () => {
+  const AUCTION = `
+    protocol Auction(role Buyer, role Seller) {
+      choice at Buyer {
+        Buyer -> Seller: Bid(Int);
+        Seller -> Buyer: Ack();
+      } or {
+        Buyer -> Seller: Quit();
+      }
+    }
+  `;
+
+  it('should replay random choices', async () => {
+    const cfsms = projectSource(AUCTION);
+    for (let i = 0; i < 5; i++) {
+      const recording = new ReplaySession();
+      const simulator = new CFSMSimulator(cfsms.get('Buyer')!, {
+        transitionStrategy: 'random',
+        recordTrace: true,
+        payloads: () => Math.random(),
+        replay: recording,
+      });
+      const original = await simulator.run();
+
+      const result = await replay(recording.getLog(), cfsms);
+      expect(result.log.decisions).toEqual(recording.getLog().decisions);
+      if (result.simulator === 'cfsm') {
+        expect(result.run.state.currentState).toBe(original.state.currentState);
+        expect(untimed(result.run.trace)).toEqual(untimed(original.trace));
+      }
+    }
+  });
+
+  it('should replay delivered messages and time', async () => {
+    const cfsms = projectSource(AUCTION);
+    const recording = new ReplaySession();
+    const simulator = new CFSMSimulator(cfsms.get('Seller')!, { replay: recording });
+    simulator.advanceTime(25);
+    simulator.deliverMessage({ id: 'm1', from: 'Buyer', to: 'Seller', label: 'Bid', payload: 7, timestamp: 0 });
+    const original = await simulator.run();
+    expect(original.success).toBe(true);
+    const kinds = recording.getLog().decisions.map(d => d.kind);
+    expect(kinds.slice(0, 2)).toEqual(['time', 'message']);
+    expect(kinds.slice(2).every(kind => kind === 'transition')).toBe(true);
+
+    const result = await replay(recording.getLog(), cfsms);
+    expect(result.log.decisions).toEqual(recording.getLog().decisions);
+    if (result.simulator === 'cfsm') {
+      expect(result.run.success).toBe(true);
+      expect(result.run.state.time).toBe(25);
+    }
+  });
+});
+
+describe('Replay - Runtime Simulator', () => {
+  it('should replay payloads and crashes', async () => {
+    const cfsms = projectSource(`
+      protocol Offload(role Master, role Worker unreliable, role Client) {
+        on crash(Worker) {
+          Master -> Client: Failed();
+        }
+        Master -> Worker: Task(Int);
+        Worker -> Master: Result(Int);
+        Master -> Client: Answer(Int);
+      }
+    `);
+    const recording = new ReplaySession();
+    const simulator = new Simulator({
+      roles: cfsms,
+      payloads: randomPayloads(['Master']),
+      replay: recording,
+      options: { recordTrace: true },
+    });
+    await simulator.step();
+    simulator.crash('Worker');
+    const original = await simulator.run();
+    expect(original.completed).toBe(true);
+
+    const result = await replay(recording.getLog(), cfsms);
+    expect(result.log.decisions).toEqual(recording.getLog().decisions);
+    if (result.simulator === 'runtime') {
+      expect(result.run.completed).toBe(true);
+      expect(untimed(result.trace.events)).toEqual(untimed(simulator.getTrace().events));
+    }
+  });
+});
+
+describe('parseReplayLog', () => {
+  it('should reject values that are not replay logs', () => {
+    expect(() => parseReplayLog({ decisions: [] })).toThrow(/Not a replay log/);
+    expect(() => parseReplayLog({ format: 'smpst-replay', version: 2 })).toThrow(/version 2/);
+  });
+
+  it('should name the first bad decision', () => {
+    const log = {
+      format: 'smpst-replay',
+      version: 1,
+      simulator: 'distributed',
+      roles: ['A', 'B'],
+      fingerprint: '00000000',
+      decisions: [{ kind: 'schedule', role: 'A' }, { kind: 'time', ms: -1 }],
+    };
+    expect(() => parseReplayLog(log)).toThrow('Decision 2: ms must be a non-negative number');
+  });
+});
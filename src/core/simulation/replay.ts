@@ -0,0 +1,451 @@
+/**
+ * Record and Replay
+ *
+ * A replay session records every decision a simulator makes that is not
+ * determined by the protocol (which role runs next, which enabled
+ * transition fires, which payload a send carries) and every input it gets
+ * from outside (time passing, messages, crashes) into a portable JSON log.
+ *
+ * Given a log, the session makes the simulator take the recorded decisions
+ * instead of its strategies, random or not: the run is re-executed exactly,
+ * states, messages, payloads and virtual time included (wall-clock
+ * timestamps are not part of a run). A decision the simulator cannot take
+ * any more, because the protocol changed, stops the replay with a
+ * ReplayDivergenceError.
+ *
+ * Usage:
+ * ```typescript
+ * const recording = new ReplaySession();
+ * await new DistributedSimulator(cfsms, { schedulingStrategy: 'random', replay: recording }).run();
+ * fs.writeFileSync('run.log', JSON.stringify(recording.getLog()));
+ *
+ * const result = await replay(parseReplayLog(JSON.parse(fs.readFileSync('run.log', 'utf-8'))), cfsms);
+ * ```
+ */
+
+import type { CFSM, CFSMAction, SendAction, ReceiveAction } from '../projection/types';
+import type { PayloadProvider } from '../predicates/types';
+import type { Message as CFSMMessage } from './cfsm-simulator-types';
+import type { Message as RuntimeMessage } from '../runtime/types';
+
+/**
+ * Simulators that record and replay runs:
+ * - cfsm: CFSMSimulator (one role)
+ * - distributed: DistributedSimulator
+ * - runtime: Simulator (runtime executors)
+ */
+export type ReplaySimulatorKind = 'cfsm' | 'distributed' | 'runtime';
+
+/**
+ * One decision of a run, in the order it was made
+ */
+export type ReplayDecision =
+  // Role that took the step (scheduling), and the state it took it from
+  // when the role makes no choice of its own (runtime executors)
+  | { kind: 'schedule'; role: string; state?: string }
+  // Transition the role fired, among those enabled (choice)
+  | { kind: 'transition'; role: string; state: string; transition: string; action: string }
+  // Payload value the role sent
+  | { kind: 'payload'; role: string; label: string; payload: unknown }
+  // Virtual time let pass from outside (advanceTime)
+  | { kind: 'time'; ms: number }
+  // Message handed to the simulator from outside (deliverMessage, injectMessage)
+  | { kind: 'message'; message: CFSMMessage | RuntimeMessage }
+  // Role crashed from outside (crash-stop failures)
+  | { kind: 'crash'; role: string };
+
+/**
+ * Simulator options that change what a run does, recorded with it
+ */
+export interface ReplayOptions {
+  strictMode?: boolean;
+  maxBufferSize?: number;
+  verifyFIFO?: boolean;
+}
+
+/**
+ * Portable replay log (JSON)
+ */
+export interface ReplayLog {
+  format: 'smpst-replay';
+  version: 1;
+  simulator: ReplaySimulatorKind;
+  roles: string[];
+  // Fingerprint of the CFSMs the run was recorded on
+  fingerprint: string;
+  options: ReplayOptions;
+  decisions: ReplayDecision[];
+}
+
+const SIMULATOR_KINDS: ReplaySimulatorKind[] = ['cfsm', 'distributed', 'runtime'];
+const DECISION_KINDS: ReplayDecision['kind'][] = ['schedule', 'transition', 'payload', 'time', 'message', 'crash'];
+
+type InputDecision = Extract<ReplayDecision, { kind: 'time' | 'message' | 'crash' }>;
+
+/**
+ * A replayed run did not follow its log
+ */
+export class ReplayDivergenceError extends Error {
+  constructor(
+    public readonly decision: number,
+    public readonly total: number,
+    reason: string,
+    public readonly protocolChanged: boolean = false
+  ) {
+    super(
+      `Replay diverged at decision ${decision + 1} of ${total}: ${reason}` +
+      (protocolChanged ? ' (the protocol has changed since the run was recorded)' : '')
+    );
+    this.name = 'ReplayDivergenceError';
+  }
+}
+
+/**
+ * Records the decisions of a run, or replays those of a log
+ *
+ * One session goes with one simulator (DistributedSimulator shares its
+ * session with the CFSMSimulator of each role). A replaying session also
+ * records what it replays: getLog() then gives back the same decisions.
+ */
+export class ReplaySession {
+  private readonly replayed?: ReplayLog;
+  private position: number = 0;
+  private decisions: ReplayDecision[] = [];
+  private header?: Omit<ReplayLog, 'decisions'>;
+
+  /**
+   * @param log - Log to replay (records a new run if omitted)
+   */
+  constructor(log?: ReplayLog) {
+    this.replayed = log;
+  }
+
+  isReplaying(): boolean {
+    return this.replayed !== undefined;
+  }
+
+  /**
+   * Bind the session to the simulator that runs on it
+   *
+   * Returns false if another simulator did already (the coordinator of
+   * the one calling): only the first one takes inputs from the log.
+   *
+   * @throws ReplayDivergenceError if the log is for other roles
+   */
+  attach(simulator: ReplaySimulatorKind, cfsms: Map<string, CFSM>, options: ReplayOptions = {}): boolean {
+    if (this.header) return false;
+
+    const roles = Array.from(cfsms.keys());
+    this.header = {
+      format: 'smpst-replay',
+      version: 1,
+      simulator,
+      roles,
+      fingerprint: fingerprintCFSMs(cfsms),
+      options: removeUndefined(options),
+    };
+
+    if (this.replayed) {
+      if (this.replayed.simulator !== simulator) {
+        throw new Error(`Cannot replay a ${this.replayed.simulator} simulator log with the ${simulator} simulator`);
+      }
+      const missing = this.replayed.roles.filter(role => !cfsms.has(role));
+      const added = roles.filter(role => !this.replayed!.roles.includes(role));
+      if (missing.length > 0 || added.length > 0) {
+        this.diverge(`the log is for roles ${this.replayed.roles.join(', ')}, the protocol has ${roles.join(', ')}`);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Whether the CFSMs replayed differ from those recorded
+   */
+  isProtocolChanged(): boolean {
+    return !!this.replayed && !!this.header && this.replayed.fingerprint !== this.header.fingerprint;
+  }
+
+  /**
+   * Record a decision made by the simulator
+   */
+  record(decision: ReplayDecision): void {
+    this.decisions.push(decision);
+  }
+
+  /**
+   * Next decision of the log, which must be of the given kind (for the
+   * given role); undefined once the log has ended
+   *
+   * @throws ReplayDivergenceError if the log made another decision there
+   */
+  next<K extends ReplayDecision['kind']>(kind: K, role?: string): Extract<ReplayDecision, { kind: K }> | undefined {
+    const decision = this.peek();
+    if (!decision) return undefined;
+
+    if (decision.kind !== kind || (role !== undefined && 'role' in decision && decision.role !== role)) {
+      this.diverge(`the run makes a ${kind} decision${role ? ` for ${role}` : ''}, the log has ${describeDecision(decision)}`);
+    }
+
+    this.position++;
+    this.record(decision);
+    return decision as Extract<ReplayDecision, { kind: K }>;
+  }
+
+  /**
+   * Next decision of the log if it is an input from outside (not recorded:
+   * the simulator records it as it applies it)
+   */
+  nextInput(): InputDecision | undefined {
+    const decision = this.peek();
+    if (!decision || (decision.kind !== 'time' && decision.kind !== 'message' && decision.kind !== 'crash')) {
+      return undefined;
+    }
+    this.position++;
+    return decision;
+  }
+
+  /**
+   * Whether every decision of the log has been replayed
+   */
+  isComplete(): boolean {
+    return !this.replayed || this.position >= this.replayed.decisions.length;
+  }
+
+  /**
+   * Decisions of the log not replayed yet
+   */
+  getRemainingDecisions(): ReplayDecision[] {
+    return this.replayed?.decisions.slice(this.position) ?? [];
+  }
+
+  /**
+   * Stop the replay: the run cannot make the next decision of the log
+   */
+  diverge(reason: string): never {
+    throw new ReplayDivergenceError(
+      this.position,
+      this.replayed?.decisions.length ?? 0,
+      reason,
+      this.isProtocolChanged()
+    );
+  }
+
+  /**
+   * Stop the replay: the decision just taken from the log is not possible
+   */
+  reject(reason: string): never {
+    throw new ReplayDivergenceError(
+      this.position - 1,
+      this.replayed?.decisions.length ?? 0,
+      reason,
+      this.isProtocolChanged()
+    );
+  }
+
+  /**
+   * Payload provider for a role: records the payloads of the provider, or
+   * replays those of the log
+   */
+  payloads(role: string, provider?: PayloadProvider): PayloadProvider | undefined {
+    if (this.replayed) {
+      return action => {
+        const decision = this.peek();
+        if (decision?.kind !== 'payload' || decision.role !== role) return undefined;
+        if (decision.label !== labelOf(action)) {
+          this.diverge(`${role} sends ${labelOf(action)}, the log has a payload for ${decision.label}`);
+        }
+        return this.next('payload', role)!.payload;
+      };
+    }
+
+    if (!provider) return undefined;
+    return (action, values) => {
+      const payload = provider(action, values);
+      if (payload !== undefined) {
+        // As it will be replayed: a JSON value
+        this.record({ kind: 'payload', role, label: labelOf(action), payload: JSON.parse(JSON.stringify(payload)) });
+      }
+      return payload;
+    };
+  }
+
+  /**
+   * The log of the run so far (from the last restart)
+   */
+  getLog(): ReplayLog {
+    if (!this.header) {
+      throw new Error('Replay session is not attached to a simulator');
+    }
+    return { ...this.header, decisions: [...this.decisions] };
+  }
+
+  /**
+   * Start over (simulator reset): record anew, or replay from the start
+   */
+  restart(): void {
+    this.position = 0;
+    this.decisions = [];
+  }
+
+  private peek(): ReplayDecision | undefined {
+    return this.replayed?.decisions[this.position];
+  }
+}
+
+/**
+ * The transition a decision just taken from the log fires, among those
+ * enabled
+ *
+ * @throws ReplayDivergenceError if it is not enabled (any more)
+ */
+export function findReplayedTransition<T extends { id: string; action: CFSMAction }>(
+  session: ReplaySession,
+  decision: Extract<ReplayDecision, { kind: 'transition' }>,
+  state: string,
+  enabled: T[]
+): T {
+  if (decision.state !== state) {
+    session.reject(`${decision.role} is in state ${state}, the log has it take ${decision.action} from ${decision.state}`);
+  }
+  const transition = enabled.find(t => t.id === decision.transition && formatAction(t.action) === decision.action);
+  if (!transition) {
+    const actions = enabled.map(t => formatAction(t.action)).join(', ');
+    session.reject(`${decision.role} cannot take ${decision.action} from state ${state} (enabled: ${actions})`);
+  }
+  return transition;
+}
+
+/**
+ * Short notation of a CFSM action (B!Order, A?Order, ...)
+ */
+export function formatAction(action: CFSMAction): string {
+  switch (action.type) {
+    case 'send':
+      return `${Array.isArray(action.to) ? action.to.join(',') : action.to}!${labelOf(action)}`;
+    case 'receive':
+      return `${action.from}?${labelOf(action)}`;
+    case 'tau':
+      return 'τ';
+    case 'choice':
+      return `choice ${action.branch}`;
+    case 'subprotocol':
+      return `do ${action.protocol}`;
+    case 'crash':
+      return `crash(${action.role})`;
+  }
+}
+
+/**
+ * One line describing a decision (for divergences and the CLI)
+ */
+export function describeDecision(decision: ReplayDecision): string {
+  switch (decision.kind) {
+    case 'schedule':
+      return `${decision.role} scheduled${decision.state ? ` at ${decision.state}` : ''}`;
+    case 'transition':
+      return `${decision.role} takes ${decision.action} from ${decision.state}`;
+    case 'payload':
+      return `${decision.role} sends ${decision.label} with ${JSON.stringify(decision.payload)}`;
+    case 'time':
+      return `${decision.ms}ms pass`;
+    case 'message': {
+      const { from, to, label } = decision.message;
+      return `${label} from ${from} handed to ${Array.isArray(to) ? to.join(', ') : to}`;
+    }
+    case 'crash':
+      return `${decision.role} crashes`;
+  }
+}
+
+/**
+ * Fingerprint of the CFSMs of a protocol (FNV-1a over their structure)
+ */
+export function fingerprintCFSMs(cfsms: Map<string, CFSM>): string {
+  const canonical = Array.from(cfsms.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([role, cfsm]) => [
+      role,
+      cfsm.initialState,
+      [...cfsm.terminalStates].sort().join(','),
+      cfsm.transitions.map(t => `${t.id}:${t.from}>${t.to}:${formatAction(t.action)}`).join(';'),
+    ].join('|'))
+    .join('\n');
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < canonical.length; i++) {
+    hash ^= canonical.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+/**
+ * Check that a value (e.g. parsed JSON) is a replay log
+ *
+ * @throws Error naming the first thing wrong with it
+ */
+export function parseReplayLog(value: unknown): ReplayLog {
+  if (!isObject(value) || value.format !== 'smpst-replay') {
+    throw new Error('Not a replay log (expected "format": "smpst-replay")');
+  }
+  if (value.version !== 1) {
+    throw new Error(`Unsupported replay log version ${String(value.version)}`);
+  }
+  if (!SIMULATOR_KINDS.includes(value.simulator as ReplaySimulatorKind)) {
+    throw new Error(`Replay log simulator must be one of ${SIMULATOR_KINDS.join(', ')}`);
+  }
+  if (!Array.isArray(value.roles) || !value.roles.every(role => typeof role === 'string')) {
+    throw new Error('Replay log roles must be an array of role names');
+  }
+  if (typeof value.fingerprint !== 'string') {
+    throw new Error('Replay log fingerprint must be a string');
+  }
+  if (value.options !== undefined && !isObject(value.options)) {
+    throw new Error('Replay log options must be an object');
+  }
+  if (!Array.isArray(value.decisions)) {
+    throw new Error('Replay log must have a "decisions" array');
+  }
+
+  value.decisions.forEach((decision: unknown, i: number) => {
+    if (!isObject(decision) || !DECISION_KINDS.includes(decision.kind as ReplayDecision['kind'])) {
+      throw new Error(`Decision ${i + 1}: kind must be one of ${DECISION_KINDS.join(', ')}`);
+    }
+    const fields: Record<ReplayDecision['kind'], string[]> = {
+      schedule: ['role'],
+      transition: ['role', 'state', 'transition', 'action'],
+      payload: ['role', 'label'],
+      time: [],
+      message: [],
+      crash: ['role'],
+    };
+    for (const field of fields[decision.kind as ReplayDecision['kind']]) {
+      if (typeof decision[field] !== 'string') {
+        throw new Error(`Decision ${i + 1}: ${field} must be a string`);
+      }
+    }
+    if (decision.kind === 'schedule' && decision.state !== undefined && typeof decision.state !== 'string') {
+      throw new Error(`Decision ${i + 1}: state must be a string`);
+    }
+    if (decision.kind === 'time' && (typeof decision.ms !== 'number' || decision.ms < 0)) {
+      throw new Error(`Decision ${i + 1}: ms must be a non-negative number`);
+    }
+    if (decision.kind === 'message' && (!isObject(decision.message) || typeof decision.message.label !== 'string')) {
+      throw new Error(`Decision ${i + 1}: message must be a message object`);
+    }
+  });
+
+  return { ...value, options: value.options ?? {} } as unknown as ReplayLog;
+}
+
+function labelOf(action: SendAction | ReceiveAction): string {
+  return action.label ?? action.message?.label ?? '';
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function removeUndefined(options: ReplayOptions): ReplayOptions {
+  return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+}
@@ -0,0 +1,106 @@
+/**
+ * Replayer
+ *
+ * Re-executes a recorded run (replay.ts) on the simulator it was recorded
+ * with, and checks that every decision of the log was replayed.
+ */
+
+import type { CFSM } from '../projection/types';
+import { CFSMSimulator } from './cfsm-simulator';
+import { DistributedSimulator } from './distributed-simulator';
+import { Simulator } from '../runtime/simulator';
+import type { CFSMRunResult, DistributedRunResult } from './cfsm-simulator-types';
+import type { SimulationStepResult, ExecutionTrace } from '../runtime/types';
+import { ReplaySession, describeDecision } from './replay';
+import type { ReplayLog } from './replay';
+
+interface ReplayOutcome {
+  // Log of the replayed run: the same decisions as the one replayed
+  log: ReplayLog;
+  // The CFSMs differ from those recorded (the log replayed nonetheless)
+  protocolChanged: boolean;
+}
+
+/**
+ * Result of a replay, by simulator
+ */
+export type ReplayResult = ReplayOutcome & (
+  | { simulator: 'cfsm'; run: CFSMRunResult }
+  | { simulator: 'distributed'; run: DistributedRunResult }
+  | { simulator: 'runtime'; run: SimulationStepResult; trace: ExecutionTrace }
+);
+
+/**
+ * Replay a run on the CFSMs of a protocol
+ *
+ * @param log - Recorded run (see parseReplayLog)
+ * @param cfsms - Role → CFSM, projected from the protocol
+ * @throws ReplayDivergenceError if the run does not follow the log
+ */
+export async function replay(log: ReplayLog, cfsms: Map<string, CFSM>): Promise<ReplayResult> {
+  const session: ReplaySession = new ReplaySession(log);
+  // Room for every decision; the run stops when the log ends
+  const maxSteps = log.decisions.length + 1;
+
+  switch (log.simulator) {
+    case 'cfsm': {
+      const role = log.roles[0];
+      const cfsm = cfsms.get(role);
+      if (!cfsm) {
+        session.diverge(`the log is for role ${role}, the protocol has ${Array.from(cfsms.keys()).join(', ')}`);
+      }
+      const simulator = new CFSMSimulator(cfsm, {
+        maxSteps,
+        maxBufferSize: log.options.maxBufferSize,
+        verifyFIFO: log.options.verifyFIFO,
+        recordTrace: true,
+        replay: session,
+      });
+      const run = await simulator.run();
+      checkComplete(session, run.error?.message);
+      return { simulator: 'cfsm', run, log: session.getLog(), protocolChanged: session.isProtocolChanged() };
+    }
+
+    case 'distributed': {
+      const simulator = new DistributedSimulator(cfsms, {
+        maxSteps,
+        maxBufferSize: log.options.maxBufferSize,
+        recordTrace: true,
+        replay: session,
+      });
+      const run = await simulator.run();
+      checkComplete(session, run.error?.message);
+      return { simulator: 'distributed', run, log: session.getLog(), protocolChanged: session.isProtocolChanged() };
+    }
+
+    case 'runtime': {
+      const simulator = new Simulator({
+        roles: cfsms,
+        replay: session,
+        options: { maxSteps, strictMode: log.options.strictMode, recordTrace: true },
+      });
+      const run = await simulator.run();
+      checkComplete(session, run.error?.message);
+      return {
+        simulator: 'runtime',
+        run,
+        trace: simulator.getTrace(),
+        log: session.getLog(),
+        protocolChanged: session.isProtocolChanged(),
+      };
+    }
+  }
+}
+
+/**
+ * A run that stopped before the end of its log diverged from it
+ */
+function checkComplete(session: ReplaySession, error?: string): void {
+  if (session.isComplete()) return;
+
+  const remaining = session.getRemainingDecisions();
+  session.diverge(
+    `the run stopped${error ? ` (${error})` : ''} with ${remaining.length} decision(s) left, ` +
+    `next: ${describeDecision(remaining[0])}`
+  );
+}
@@ -211,6 +211,8 @@ export type CFGExecutionEvent =
   | RecursionEvent
   | ParallelEvent
   | SubProtocolEvent
+  | ExceptionEvent
+  | CrashEvent
   | StateChangeEvent;
 
 /**
@@ -273,6 +275,31 @@ export interface SubProtocolEvent {
   nodeId: string;
 }
 
+/**
+ * Exception event (throw, delivered to the other participants of the try block)
+ */
+export interface ExceptionEvent {
+  type: 'exception';
+  timestamp: number;
+  from: string;
+  to: string | string[];
+  label: string;
+  payloadType?: string;
+  nodeId: string;
+  handlerNodeId: string;  // Entry of the catch handler that takes over
+}
+
+/**
+ * Crash event (an unreliable role crashed, detected while waiting for it)
+ */
+export interface CrashEvent {
+  type: 'crash';
+  timestamp: number;
+  crashed: string;
+  detector: string;
+  nodeId: string;  // Crash detection node, followed by the crash handler
+}
+
 /**
  * State transition event
  */
@@ -361,6 +388,8 @@ export type SimulatorEventType =
   | 'node-enter'           // Entering a node
   | 'node-exit'            // Leaving a node
   | 'message'              // Message action executed
+  | 'exception'            // Exception thrown and routed to its handler
+  | 'crash'                // Crash of an unreliable role detected
   | 'choice-point'         // At choice, waiting for decision
   | 'choice-selected'      // Choice made
   | 'fork'                 // Parallel fork
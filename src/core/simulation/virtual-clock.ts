@@ -0,0 +1,40 @@
+/**
+ * Virtual Clock - Deterministic Time for Timed Simulation
+ *
+ * Simulated time only moves when advanced explicitly (or by a simulator
+ * that jumps to the next timeout when nothing else can happen), so runs of
+ * timed protocols are reproducible.
+ *
+ * Each role's clock (see ClockConstraint) is derived from this global time:
+ * clock value = now - time of the role's last send/receive.
+ *
+ * Based on docs/theory/timed-session-types.md
+ */
+
+export class VirtualClock {
+  private time: number = 0;
+
+  /**
+   * Current virtual time in milliseconds
+   */
+  now(): number {
+    return this.time;
+  }
+
+  /**
+   * Let time pass
+   */
+  advance(ms: number): void {
+    if (!Number.isFinite(ms) || ms < 0) {
+      throw new Error(`Cannot advance virtual time by ${ms}ms`);
+    }
+    this.time += ms;
+  }
+
+  /**
+   * Back to time 0
+   */
+  reset(): void {
+    this.time = 0;
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Asynchronous Subtype Checker Tests
+ *
+ * Tests replacement of local types when messages are buffered:
+ * - Sends anticipated before inputs (rejected synchronously)
+ * - Anticipation over every branch of an external choice
+ * - Failing positions with the pending inputs of the supertype
+ * - Bounds, and the witness of a successful check
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parse } from '../parser/parser';
+import { buildCFG } from '../cfg/builder';
+import { project } from '../projection/projector';
+import { checkAsyncSubtype } from './async-subtype-checker';
+import { checkSubtype } from './subtype-checker';
+import type { GlobalProtocolDeclaration } from '../ast/types';
+import type { CFSM } from '../projection/types';
+
+function serverOf(body: string): CFSM {
+  const source = `protocol P(role Client, role Server) { ${body} }`;
+  return project(buildCFG(parse(source).declarations[0] as GlobalProtocolDeclaration), 'Server');
+}
+
+const REQUEST_REPLY = serverOf(`
+  Client -> Server: Req();
+  Server -> Client: Data();
+`);
+
+describe('Async Subtype Checker - Anticipation', () => {
+  it('should accept a server that sends before reading the request', () => {
+    const eager = serverOf(`
+      Server -> Client: Data();
+      Client -> Server: Req();
+    `);
+
+    const result = checkAsyncSubtype(eager, REQUEST_REPLY);
+
+    expect(result.isSubtype).toBe(true);
+    expect(result.inconclusive).toBe(false);
+    expect(result.counterexample).toBeUndefined();
+    expect(checkSubtype(eager, REQUEST_REPLY).isSubtype).toBe(false);
+  });
+
+  it('should accept every synchronous subtype', () => {
+    expect(checkAsyncSubtype(REQUEST_REPLY, REQUEST_REPLY).isSubtype).toBe(true);
+  });
+
+  it('should anticipate a send over every branch of an external choice', () => {
+    const choice = serverOf(`
+      choice at Client {
+        Client -> Server: Buy();
+        Server -> Client: Receipt();
+      } or {
+        Client -> Server: Quit();
+        Server -> Client: Receipt();
+      }
+    `);
+    const eager = serverOf(`
+      Server -> Client: Receipt();
+      choice at Client {
+        Client -> Server: Buy();
+      } or {
+        Client -> Server: Quit();
+      }
+    `);
+
+    expect(checkAsyncSubtype(eager, choice).isSubtype).toBe(true);
+  });
+
+  it('should reject a send that one branch of the supertype never makes', () => {
+    const choice = serverOf(`
+      choice at Client {
+        Client -> Server: Buy();
+        Server -> Client: Receipt();
+      } or {
+        Client -> Server: Quit();
+        Server -> Client: Bye();
+      }
+    `);
+    const eager = serverOf(`
+      Server -> Client: Receipt();
+      choice at Client {
+        Client -> Server: Buy();
+      } or {
+        Client -> Server: Quit();
+      }
+    `);
+
+    const result = checkAsyncSubtype(eager, choice);
+
+    expect(result.isSubtype).toBe(false);
+    expect(result.inconclusive).toBe(false);
+    expect(result.counterexample!.trace).toEqual([]);
+    expect(result.counterexample!.reason).toBe(
+      'Server sends Client!Receipt(), which Server never sends after Client?Quit()'
+    );
+  });
+});
+
+describe('Async Subtype Checker - Failing Positions', () => {
+  it('should reject a subtype that ends with inputs still pending', () => {
+    const result = checkAsyncSubtype(serverOf('Server -> Client: Data();'), REQUEST_REPLY);
+
+    expect(result.isSubtype).toBe(false);
+    expect(result.counterexample!.trace).toEqual(['Client!Data()']);
+    expect(result.counterexample!.superContext).toMatch(/^Client\?Req\(\)\./);
+    expect(result.counterexample!.reason).toBe('Server ends here, but Server still receives Client?Req()');
+  });
+
+  it('should reject a receiver that drops a message', () => {
+    const choice = serverOf(`
+      choice at Client {
+        Client -> Server: Buy();
+      } or {
+        Client -> Server: Quit();
+      }
+    `);
+
+    const result = checkAsyncSubtype(serverOf('Client -> Server: Buy();'), choice);
+
+    expect(result.isSubtype).toBe(false);
+    expect(result.counterexample!.reason).toBe('Server accepts Client?Quit(), but Server does not');
+  });
+});
+
+describe('Async Subtype Checker - Bounds and Witness', () => {
+  const LOOP = serverOf(`
+    rec Loop {
+      Client -> Server: Req();
+      Server -> Client: Data();
+      continue Loop;
+    }
+  `);
+
+  it('should give the simulation as witness for recursive types', () => {
+    const eager = serverOf(`
+      Server -> Client: Data();
+      rec Loop {
+        Client -> Server: Req();
+        choice at Client {
+          Client -> Server: More();
+          Server -> Client: Data();
+          continue Loop;
+        } or {
+          Client -> Server: Stop();
+        }
+      }
+    `);
+    const lazy = serverOf(`
+      rec Loop {
+        Client -> Server: Req();
+        Server -> Client: Data();
+        choice at Client {
+          Client -> Server: More();
+          continue Loop;
+        } or {
+          Client -> Server: Stop();
+        }
+      }
+    `);
+
+    const result = checkAsyncSubtype(eager, lazy);
+
+    expect(result.isSubtype).toBe(true);
+    expect(result.witness!.length).toBe(result.positions);
+    expect(result.witness![0].subStates).toEqual([eager.initialState]);
+    expect(result.witness!.some(p => p.superContext.startsWith('Client?Req().'))).toBe(true);
+  });
+
+  it('should be inconclusive when the subtype keeps sending ahead', () => {
+    const flood = serverOf(`
+      rec Loop {
+        Server -> Client: Data();
+        continue Loop;
+      }
+    `);
+
+    const result = checkAsyncSubtype(flood, LOOP, { maxAnticipation: 3 });
+
+    expect(result.isSubtype).toBe(false);
+    expect(result.inconclusive).toBe(true);
+    expect(result.counterexample!.trace).toEqual(['Client!Data()', 'Client!Data()', 'Client!Data()']);
+    expect(result.counterexample!.reason).toBe('Server sends Client!Data() ahead of more than 3 inputs of Server');
+  });
+
+  it('should be inconclusive past the maximum number of positions', () => {
+    const result = checkAsyncSubtype(LOOP, LOOP, { maxPositions: 1 });
+
+    expect(result.isSubtype).toBe(false);
+    expect(result.inconclusive).toBe(true);
+    expect(result.counterexample!.reason).toBe('Explored 1 positions without a decision');
+  });
+});
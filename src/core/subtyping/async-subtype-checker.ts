@@ -0,0 +1,306 @@
+/**
+ * Asynchronous Subtype Checker - Outputs Anticipated before Inputs
+ *
+ * Decides, up to a bound, whether a CFSM is an asynchronous subtype of
+ * another one for the same role. With asynchronous (buffered) messaging an
+ * implementation may send eagerly: `Server!Data . Server?Req` can replace
+ * `Server?Req . Server!Data`, since the Req it has not read yet waits in
+ * its buffer. The synchronous checker (subtype-checker.ts) rejects this.
+ *
+ * ============================================================================
+ * ALGORITHM
+ * ============================================================================
+ *
+ * Simulation game over pairs (sub position, supertype input context). An
+ * input context is the supertype after some inputs the subtype has
+ * overtaken: a tree of receives whose leaves are supertype positions.
+ *
+ * - Sends: for each send !m of the subtype, every branch of the context
+ *   must reach a send !m after receives only (covariant internal choice).
+ *   The receives crossed on the way stay in the context, still pending.
+ * - Receives: the receives at the root of the context (or of the supertype,
+ *   with nothing pending) must all be receives of the subtype
+ *   (contravariant external choice); each is followed in both.
+ * - Termination: both end; a subtype that ends while inputs are pending
+ *   leaves them unread (orphan messages).
+ *
+ * Positions are tau-closed state sets, as in the synchronous game. A
+ * position seen before is assumed to hold (coinduction), so once the game
+ * is fully explored its positions are a simulation relation: the witness.
+ *
+ * Asynchronous subtyping is undecidable: a subtype that keeps sending ahead
+ * makes the contexts grow forever. Contexts deeper than `maxAnticipation`
+ * inputs, or more than `maxPositions` positions, end the check as
+ * inconclusive.
+ *
+ * @reference Chen, T.-C., Dezani-Ciancaglini, M., Scalas, A., & Yoshida, N.
+ *            (2017). On the Preciseness of Subtyping in Session Types.
+ *            Logical Methods in Computer Science 13(2).
+ * @reference Lange, J., & Yoshida, N. (2017). On the Undecidability of
+ *            Asynchronous Session Subtyping. FoSSaCS 2017.
+ */
+
+import type { CFSM } from '../projection/types';
+import { positionKey, tauClosure, visibleActions, type VisibleAction } from './subtype-checker';
+import type {
+  AsyncSubtypeOptions,
+  AsyncSubtypeResult,
+  AsyncSubtypePosition,
+} from './types';
+
+/**
+ * Supertype with the inputs the subtype has overtaken still pending
+ */
+type InputContext =
+  | { kind: 'leaf'; states: Set<string> }
+  | { kind: 'input'; branches: Map<string, { action: VisibleAction; next: InputContext }> };
+
+interface GamePosition {
+  sub: Set<string>;
+  sup: InputContext;
+  trace: string[];
+}
+
+/**
+ * Why a move fails; `bounded` if only a bound stopped it
+ */
+interface Failure {
+  reason: string;
+  bounded: boolean;
+}
+
+// ============================================================================
+// CFSM Subtyping
+// ============================================================================
+
+/**
+ * Check that `sub` can safely replace `sup` when messages are buffered
+ */
+export function checkAsyncSubtype(sub: CFSM, sup: CFSM, options: AsyncSubtypeOptions = {}): AsyncSubtypeResult {
+  const mapping = options.roleMapping ?? new Map<string, string>();
+  const rename = (role: string) => mapping.get(role) ?? role;
+  const maxAnticipation = options.maxAnticipation ?? 8;
+  const maxPositions = options.maxPositions ?? 10000;
+
+  const supActionsOf = (states: Set<string>) => visibleActions(sup, states, rename);
+
+  /**
+   * The context after the subtype sends: every branch receives until it can
+   * send the same message
+   */
+  const anticipate = (
+    context: InputContext,
+    key: string,
+    send: VisibleAction,
+    received: string[]
+  ): InputContext | Failure => {
+    if (received.length > maxAnticipation) {
+      return {
+        reason: `${sub.role} sends ${send.display} ahead of more than ${maxAnticipation} inputs of ${sup.role}`,
+        bounded: true,
+      };
+    }
+
+    if (context.kind === 'input') {
+      const branches = new Map<string, { action: VisibleAction; next: InputContext }>();
+      for (const [input, { action, next }] of context.branches) {
+        const anticipated = anticipate(next, key, send, [...received, action.display]);
+        if (isFailure(anticipated)) return anticipated;
+        branches.set(input, { action, next: anticipated });
+      }
+      return { kind: 'input', branches };
+    }
+
+    const actions = supActionsOf(context.states);
+    const after = received.length > 0 ? ` after ${received.join(' · ')}` : ' here';
+    const matching = actions.get(key);
+    if (matching?.kind === 'send') {
+      if (matching.payload !== send.payload) {
+        return { reason: `${sub.role} sends ${send.display} where ${sup.role} sends ${matching.display}`, bounded: false };
+      }
+      return { kind: 'leaf', states: tauClosure(sup, matching.targets) };
+    }
+
+    const receives = [...actions].filter(([, action]) => action.kind === 'receive');
+    if (receives.length === 0) {
+      return { reason: `${sub.role} sends ${send.display}, which ${sup.role} never sends${after}`, bounded: false };
+    }
+
+    const branches = new Map<string, { action: VisibleAction; next: InputContext }>();
+    for (const [input, action] of receives) {
+      const next = anticipate({ kind: 'leaf', states: tauClosure(sup, action.targets) }, key, send, [...received, action.display]);
+      if (isFailure(next)) return next;
+      branches.set(input, { action, next });
+    }
+    return { kind: 'input', branches };
+  };
+
+  /**
+   * Successor positions, or why the position fails
+   */
+  const play = (position: GamePosition): GamePosition[] | Failure => {
+    const subActions = visibleActions(sub, position.sub, role => role);
+    const context = position.sup;
+    const supActions = context.kind === 'leaf' ? supActionsOf(context.states) : new Map<string, VisibleAction>();
+    const fail = (reason: string): Failure => ({ reason, bounded: false });
+
+    // Termination: a side that can only end needs the other to end too, with
+    // nothing left to receive (projected loops may always exit, so a side
+    // with actions left is not held to it)
+    const subEnds = [...position.sub].some(s => sub.terminalStates.includes(s));
+    const supEnds = context.kind === 'leaf' && [...context.states].some(s => sup.terminalStates.includes(s));
+    if (subEnds && subActions.size === 0 && !supEnds) {
+      return fail(context.kind === 'input'
+        ? `${sub.role} ends here, but ${sup.role} still receives ${rootInputs(context).join(', ')}`
+        : `${sub.role} ends here, but ${sup.role} continues`);
+    }
+    if (supEnds && supActions.size === 0 && !subEnds) {
+      return fail(`${sup.role} ends here, but ${sub.role} continues`);
+    }
+
+    const next: GamePosition[] = [];
+    const subSends = [...subActions].filter(([, action]) => action.kind === 'send');
+    const calls = [...subActions, ...supActions].filter(([, action]) => action.kind === 'call');
+
+    // Sub-protocol calls match exactly, with no input pending
+    if (calls.length > 0) {
+      for (const [key, call] of calls) {
+        if (!(subActions.has(key) && supActions.has(key))) {
+          return fail(`Sub-protocol call ${call.display} is not made by both ${sub.role} and ${sup.role}`);
+        }
+      }
+      for (const [key, call] of subActions) {
+        if (call.kind !== 'call') continue;
+        next.push({
+          sub: tauClosure(sub, call.targets),
+          sup: { kind: 'leaf', states: tauClosure(sup, supActions.get(key)!.targets) },
+          trace: [...position.trace, call.display],
+        });
+      }
+      return next;
+    }
+
+    // Sends: anticipated over the inputs of the supertype if need be
+    if (subSends.length > 0) {
+      for (const [key, send] of subSends) {
+        const anticipated = anticipate(context, key, send, []);
+        if (isFailure(anticipated)) return anticipated;
+        next.push({ sub: tauClosure(sub, send.targets), sup: anticipated, trace: [...position.trace, send.display] });
+      }
+      return next;
+    }
+
+    // Receives: the subtype accepts at least what the supertype accepts next
+    const inputs: Array<[string, { action: VisibleAction; next: InputContext }]> = context.kind === 'input'
+      ? [...context.branches]
+      : [...supActions]
+        .filter(([, action]) => action.kind === 'receive')
+        .map(([key, action]) => [key, { action, next: { kind: 'leaf', states: tauClosure(sup, action.targets) } }]);
+
+    const supSends = [...supActions.values()].filter(action => action.kind === 'send');
+    if (inputs.length === 0 && supSends.length > 0) {
+      return fail(`${sup.role} sends one of ${supSends.map(a => a.display).join(', ')} here, but ${sub.role} sends nothing`);
+    }
+
+    for (const [key, { action, next: after }] of inputs) {
+      const matching = subActions.get(key);
+      if (!matching || matching.kind !== 'receive') {
+        return fail(`${sup.role} accepts ${action.display}, but ${sub.role} does not`);
+      }
+      if (matching.payload !== action.payload) {
+        return fail(`${sup.role} accepts ${action.display} where ${sub.role} accepts ${matching.display}`);
+      }
+      next.push({ sub: tauClosure(sub, matching.targets), sup: after, trace: [...position.trace, matching.display] });
+    }
+    return next;
+  };
+
+  const start: GamePosition = {
+    sub: tauClosure(sub, [sub.initialState]),
+    sup: { kind: 'leaf', states: tauClosure(sup, [sup.initialState]) },
+    trace: [],
+  };
+
+  const visited = new Set<string>();
+  const witness: AsyncSubtypePosition[] = [];
+  const queue: GamePosition[] = [start];
+
+  while (queue.length > 0) {
+    const position = queue.shift()!;
+    const key = `${positionKey(position.sub)}|${contextKey(position.sup)}`;
+    if (visited.has(key)) continue;
+    visited.add(key);
+    witness.push({ subStates: [...position.sub], superContext: formatInputContext(position.sup) });
+
+    const failure = visited.size > maxPositions
+      ? { reason: `Explored ${maxPositions} positions without a decision`, bounded: true }
+      : play(position);
+
+    if (isFailure(failure)) {
+      return {
+        isSubtype: false,
+        inconclusive: failure.bounded,
+        role: sub.role,
+        superRole: sup.role,
+        counterexample: {
+          trace: position.trace,
+          subStates: [...position.sub],
+          superStates: [...leaves(position.sup)],
+          superContext: formatInputContext(position.sup),
+          reason: failure.reason,
+        },
+        positions: visited.size,
+      };
+    }
+
+    queue.push(...failure);
+  }
+
+  return {
+    isSubtype: true,
+    inconclusive: false,
+    role: sub.role,
+    superRole: sup.role,
+    witness,
+    positions: visited.size,
+  };
+}
+
+// ============================================================================
+// Input Contexts
+// ============================================================================
+
+function isFailure<T extends object>(value: T | Failure): value is Failure {
+  return 'reason' in value;
+}
+
+function rootInputs(context: Extract<InputContext, { kind: 'input' }>): string[] {
+  return [...context.branches.values()].map(({ action }) => action.display);
+}
+
+function leaves(context: InputContext): Set<string> {
+  if (context.kind === 'leaf') return context.states;
+  const states = new Set<string>();
+  for (const { next } of context.branches.values()) {
+    leaves(next).forEach(state => states.add(state));
+  }
+  return states;
+}
+
+function contextKey(context: InputContext): string {
+  if (context.kind === 'leaf') return `[${positionKey(context.states)}]`;
+  return `{${[...context.branches].map(([key, { next }]) => `${key}.${contextKey(next)}`).sort().join(';')}}`;
+}
+
+/**
+ * `q3`, `{q3,q4}` for a set of states, `Server?Ack().q3` for a pending input,
+ * `&{Server?Ok().q3, Server?No().q5}` for pending inputs of a choice
+ */
+function formatInputContext(context: InputContext): string {
+  if (context.kind === 'leaf') {
+    const states = [...context.states].sort();
+    return states.length === 1 ? states[0] : `{${states.join(',')}}`;
+  }
+  const branches = [...context.branches.values()].map(({ action, next }) => `${action.display}.${formatInputContext(next)}`);
+  return branches.length === 1 ? branches[0] : `&{${branches.join(', ')}}`;
+}
@@ -0,0 +1,23 @@
+/**
+ * Subtyping Module
+ *
+ * Decides whether a protocol version can safely replace another one,
+ * role by role, on their projected CFSMs: synchronously, or with
+ * buffered messages, where sends may be anticipated (bounded).
+ */
+
+// Types
+export type {
+  SubtypeOptions,
+  SubtypeResult,
+  SubtypeCounterexample,
+  ProtocolSubtypeResult,
+  AsyncSubtypeOptions,
+  AsyncSubtypeResult,
+  AsyncSubtypeCounterexample,
+  AsyncSubtypePosition,
+} from './types';
+
+// Checker
+export { checkSubtype, checkProtocolSubtype, checkExtension } from './subtype-checker';
+export { checkAsyncSubtype } from './async-subtype-checker';
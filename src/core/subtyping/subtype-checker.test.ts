@@ -0,0 +1,234 @@
+/**
+ * Subtype Checker Tests
+ *
+ * Tests safe replacement of protocol versions:
+ * - Covariant internal choice (fewer sends)
+ * - Contravariant external choice (more receives)
+ * - Counterexample traces
+ * - Protocol extensions resolved through the registry
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parse } from '../parser/parser';
+import { buildCFG } from '../cfg/builder';
+import { project } from '../projection/projector';
+import { ProtocolRegistry } from '../protocol-registry/registry';
+import { checkSubtype, checkProtocolSubtype, checkExtension } from './subtype-checker';
+import type { GlobalProtocolDeclaration } from '../ast/types';
+import type { CFSM } from '../projection/types';
+
+function protocolsOf(source: string): Map<string, GlobalProtocolDeclaration> {
+  const registry = new ProtocolRegistry(parse(source));
+  return new Map(registry.getProtocolNames().map(name => [name, registry.resolve(name)]));
+}
+
+function cfsmOf(protocol: GlobalProtocolDeclaration, role: string): CFSM {
+  return project(buildCFG(protocol), role);
+}
+
+const VERSIONS = `
+  protocol V1(role Client, role Server) {
+    choice at Client {
+      Client -> Server: Buy(Int);
+    } or {
+      Client -> Server: Quit();
+    }
+    Server -> Client: Done();
+  }
+
+  protocol V2(role Client, role Server) {
+    choice at Client {
+      Client -> Server: Buy(Int);
+    } or {
+      Client -> Server: Quit();
+    } or {
+      Client -> Server: Browse(String);
+    }
+    Server -> Client: Done();
+  }
+`;
+
+describe('Subtype Checker - CFSM Subtyping', () => {
+  const protocols = protocolsOf(VERSIONS);
+  const v1 = protocols.get('V1')!;
+  const v2 = protocols.get('V2')!;
+
+  it('should accept identical local types', () => {
+    const result = checkSubtype(cfsmOf(v1, 'Client'), cfsmOf(v1, 'Client'));
+    expect(result.isSubtype).toBe(true);
+    expect(result.counterexample).toBeUndefined();
+  });
+
+  it('should accept a receiver that accepts more messages (contravariant external choice)', () => {
+    const result = checkSubtype(cfsmOf(v2, 'Server'), cfsmOf(v1, 'Server'));
+    expect(result.isSubtype).toBe(true);
+  });
+
+  it('should accept a sender that sends fewer messages (covariant internal choice)', () => {
+    const result = checkSubtype(cfsmOf(v1, 'Client'), cfsmOf(v2, 'Client'));
+    expect(result.isSubtype).toBe(true);
+  });
+
+  it('should reject a sender that sends a new message, with a counterexample', () => {
+    const result = checkSubtype(cfsmOf(v2, 'Client'), cfsmOf(v1, 'Client'));
+
+    expect(result.isSubtype).toBe(false);
+    expect(result.counterexample!.trace).toEqual([]);
+    expect(result.counterexample!.reason).toContain('Server!Browse(String)');
+  });
+
+  it('should reject a receiver that drops a message', () => {
+    const result = checkSubtype(cfsmOf(v1, 'Server'), cfsmOf(v2, 'Server'));
+
+    expect(result.isSubtype).toBe(false);
+    expect(result.counterexample!.reason).toContain('Client?Browse(String)');
+  });
+
+  it('should report the trace leading to a late difference', () => {
+    const protocols = protocolsOf(`
+      protocol A(role P, role Q) {
+        P -> Q: Hello();
+        Q -> P: Data(Int);
+      }
+      protocol B(role P, role Q) {
+        P -> Q: Hello();
+        Q -> P: Data(String);
+      }
+    `);
+
+    const result = checkSubtype(cfsmOf(protocols.get('B')!, 'Q'), cfsmOf(protocols.get('A')!, 'Q'));
+
+    expect(result.isSubtype).toBe(false);
+    expect(result.counterexample!.trace).toEqual(['P?Hello()']);
+    expect(result.counterexample!.reason).toContain('P!Data(String) where Q sends P!Data(Int)');
+  });
+
+  it('should reject a local type that stops early', () => {
+    const protocols = protocolsOf(`
+      protocol Long(role P, role Q) {
+        P -> Q: M1();
+        P -> Q: M2();
+      }
+      protocol Short(role P, role Q) {
+        P -> Q: M1();
+      }
+    `);
+
+    const result = checkSubtype(cfsmOf(protocols.get('Short')!, 'P'), cfsmOf(protocols.get('Long')!, 'P'));
+
+    expect(result.isSubtype).toBe(false);
+    expect(result.counterexample!.trace).toEqual(['Q!M1()']);
+    expect(result.counterexample!.reason).toContain('P ends here');
+  });
+
+  it('should compare recursive local types', () => {
+    const protocols = protocolsOf(`
+      protocol Loop1(role P, role Q) {
+        rec X {
+          choice at P {
+            P -> Q: More();
+            continue X;
+          } or {
+            P -> Q: Stop();
+          }
+        }
+      }
+      protocol Loop2(role P, role Q) {
+        rec Y {
+          choice at P {
+            P -> Q: More();
+            continue Y;
+          } or {
+            P -> Q: Stop();
+          } or {
+            P -> Q: Abort();
+          }
+        }
+      }
+    `);
+
+    const loop1 = protocols.get('Loop1')!;
+    const loop2 = protocols.get('Loop2')!;
+    expect(checkSubtype(cfsmOf(loop1, 'P'), cfsmOf(loop2, 'P')).isSubtype).toBe(true);
+    expect(checkSubtype(cfsmOf(loop2, 'Q'), cfsmOf(loop1, 'Q')).isSubtype).toBe(true);
+
+    const result = checkSubtype(cfsmOf(loop2, 'P'), cfsmOf(loop1, 'P'));
+    expect(result.isSubtype).toBe(false);
+    expect(result.counterexample!.reason).toContain('Q!Abort()');
+  });
+});
+
+describe('Subtype Checker - Protocol Extensions', () => {
+  it('should check every role of an extension against its base protocol', () => {
+    const registry = new ProtocolRegistry(parse(`
+      protocol V1(role Client, role Server) {
+        Client -> Server: Request(Int);
+        Server -> Client: Response(Int);
+      }
+
+      protocol V2(role Client, role Server) extends V1 {
+        Client -> Server: Request(Int);
+        Server -> Client: Response(Int);
+      }
+    `));
+
+    const result = checkExtension(registry, 'V2');
+
+    expect(result.isSubtype).toBe(true);
+    expect(result.subProtocol).toBe('V2');
+    expect(result.superProtocol).toBe('V1');
+    expect(result.roles.map(r => r.role).sort()).toEqual(['Client', 'Server']);
+  });
+
+  it('should map renamed roles through the extends clause', () => {
+    const registry = new ProtocolRegistry(parse(`
+      protocol Base(role A, role B) {
+        choice at A {
+          A -> B: Left();
+        } or {
+          A -> B: Right();
+        }
+      }
+
+      protocol Narrowed(role Client, role Server) extends Base(Client, Server) {
+        choice at Client {
+          Client -> Server: Left();
+        } or {
+          Client -> Server: Right();
+        } or {
+          Client -> Server: Middle();
+        }
+      }
+    `));
+
+    const result = checkExtension(registry, 'Narrowed');
+
+    expect(result.isSubtype).toBe(false);
+    const client = result.roles.find(r => r.role === 'Client')!;
+    expect(client.superRole).toBe('A');
+    expect(client.isSubtype).toBe(false);
+    expect(client.counterexample!.reason).toContain('Server!Middle()');
+
+    // The receiver alone could be upgraded
+    expect(result.roles.find(r => r.role === 'Server')!.isSubtype).toBe(true);
+  });
+
+  it('should reject roles that the base protocol does not have', () => {
+    const protocols = protocolsOf(`
+      protocol V1(role A, role B) {
+        A -> B: M();
+      }
+      protocol V3(role A, role B, role Audit) {
+        A -> B: M();
+        B -> Audit: Log();
+      }
+    `);
+
+    const result = checkProtocolSubtype(protocols.get('V3')!, protocols.get('V1')!);
+
+    expect(result.isSubtype).toBe(false);
+    const audit = result.roles.find(r => r.role === 'Audit')!;
+    expect(audit.superRole).toBeUndefined();
+    expect(audit.counterexample!.reason).toContain('no counterpart');
+  });
+});
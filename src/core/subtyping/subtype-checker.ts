@@ -0,0 +1,357 @@
+/**
+ * Subtype Checker - Safe Replacement of Protocol Versions
+ *
+ * Decides whether each projected CFSM of one protocol (V2) is a synchronous
+ * subtype of the CFSM for the same role in another protocol (V1), i.e.
+ * whether V2 can replace V1.
+ *
+ * ============================================================================
+ * ALGORITHM
+ * ============================================================================
+ *
+ * Coinductive simulation game over pairs (sub position, super position):
+ * - Positions are tau-closed sets of CFSM states, so tau transitions and
+ *   nondeterminism after merges are handled by subset construction
+ * - Sends: every send the subtype can do must be a send of the supertype
+ *   (covariant internal choice), with the same payload type
+ * - Receives: every receive of the supertype must be a receive of the
+ *   subtype (contravariant external choice), with the same payload type
+ * - Termination: both end at the same positions
+ * - Sub-protocol calls must match exactly
+ *
+ * Only matched actions are followed, so the search is finite (pairs of
+ * state sets). The first failing position is reported with the trace that
+ * reaches it. Clock constraints of timed protocols are not compared.
+ *
+ * @reference Gay, S., & Hole, M. (2005). Subtyping for session types in the
+ *            pi calculus. Acta Informatica 42(2-3).
+ */
+
+import type { GlobalProtocolDeclaration, Message } from '../ast/types';
+import { buildCFG } from '../cfg/builder';
+import { projectAll } from '../projection/projector';
+import type { CFSM, CFSMAction } from '../projection/types';
+import type { ProtocolRegistry } from '../protocol-registry/registry';
+import { formatType, formatResolvedType } from '../type-checker/type-checker';
+import type {
+  SubtypeOptions,
+  SubtypeResult,
+  SubtypeCounterexample,
+  ProtocolSubtypeResult,
+} from './types';
+
+/**
+ * Observable action available at a position, grouped by key
+ * (key ignores the payload so that payload mismatches can be reported)
+ */
+export interface VisibleAction {
+  kind: 'send' | 'receive' | 'call';
+  display: string;
+  payload: string;
+  targets: Set<string>;
+}
+
+interface GamePosition {
+  sub: Set<string>;
+  sup: Set<string>;
+  trace: string[];
+}
+
+// ============================================================================
+// CFSM Subtyping
+// ============================================================================
+
+/**
+ * Check that `sub` can safely replace `sup`
+ */
+export function checkSubtype(sub: CFSM, sup: CFSM, options: SubtypeOptions = {}): SubtypeResult {
+  const mapping = options.roleMapping ?? new Map<string, string>();
+  const rename = (role: string) => mapping.get(role) ?? role;
+
+  const start: GamePosition = {
+    sub: tauClosure(sub, [sub.initialState]),
+    sup: tauClosure(sup, [sup.initialState]),
+    trace: [],
+  };
+
+  const visited = new Set<string>();
+  const queue: GamePosition[] = [start];
+
+  while (queue.length > 0) {
+    const position = queue.shift()!;
+    const key = `${positionKey(position.sub)}|${positionKey(position.sup)}`;
+    if (visited.has(key)) continue;
+    visited.add(key);
+
+    const subActions = visibleActions(sub, position.sub, role => role);
+    const supActions = visibleActions(sup, position.sup, rename);
+
+    const reason = comparePositions(sub, sup, position, subActions, supActions);
+    if (reason) {
+      return {
+        isSubtype: false,
+        role: sub.role,
+        superRole: sup.role,
+        counterexample: counterexample(position, reason),
+      };
+    }
+
+    // Follow every action both sides agree on
+    for (const [actionKey, action] of subActions) {
+      const matching = supActions.get(actionKey);
+      if (!matching) continue; // Extra receive of the subtype: never triggered
+
+      queue.push({
+        sub: tauClosure(sub, action.targets),
+        sup: tauClosure(sup, matching.targets),
+        trace: [...position.trace, action.display],
+      });
+    }
+  }
+
+  return { isSubtype: true, role: sub.role, superRole: sup.role };
+}
+
+/**
+ * Compare the actions at a position; returns why they are not compatible
+ */
+function comparePositions(
+  sub: CFSM,
+  sup: CFSM,
+  position: GamePosition,
+  subActions: Map<string, VisibleAction>,
+  supActions: Map<string, VisibleAction>
+): string | undefined {
+  // Covariant internal choice: no new sends
+  for (const [key, action] of subActions) {
+    if (action.kind !== 'send') continue;
+    const matching = supActions.get(key);
+    if (!matching) {
+      return `${sub.role} sends ${action.display}, which ${sup.role} never sends here`;
+    }
+    if (matching.payload !== action.payload) {
+      return `${sub.role} sends ${action.display} where ${sup.role} sends ${matching.display}`;
+    }
+  }
+
+  // Contravariant external choice: no missing receives
+  for (const [key, action] of supActions) {
+    if (action.kind !== 'receive') continue;
+    const matching = subActions.get(key);
+    if (!matching) {
+      return `${sup.role} accepts ${action.display}, but ${sub.role} does not`;
+    }
+    if (matching.payload !== action.payload) {
+      return `${sup.role} accepts ${action.display} where ${sub.role} accepts ${matching.display}`;
+    }
+  }
+
+  // Sub-protocol calls match exactly
+  for (const [key, action] of [...subActions, ...supActions]) {
+    if (action.kind === 'call' && !(subActions.has(key) && supActions.has(key))) {
+      return `Sub-protocol call ${action.display} is not made by both ${sub.role} and ${sup.role}`;
+    }
+  }
+
+  // Same termination
+  const subEnds = [...position.sub].some(s => sub.terminalStates.includes(s));
+  const supEnds = [...position.sup].some(s => sup.terminalStates.includes(s));
+  if (subEnds && !supEnds) {
+    return `${sub.role} ends here, but ${sup.role} continues`;
+  }
+  if (supEnds && !subEnds) {
+    return `${sup.role} ends here, but ${sub.role} continues`;
+  }
+
+  // Progress: where the supertype must send, the subtype must send too
+  const supSends = [...supActions.values()].filter(a => a.kind === 'send');
+  const supReceives = [...supActions.values()].filter(a => a.kind === 'receive');
+  const subSends = [...subActions.values()].filter(a => a.kind === 'send');
+  if (supSends.length > 0 && supReceives.length === 0 && subSends.length === 0) {
+    return `${sup.role} sends one of ${supSends.map(a => a.display).join(', ')} here, ` +
+      `but ${sub.role} sends nothing`;
+  }
+
+  return undefined;
+}
+
+function counterexample(position: GamePosition, reason: string): SubtypeCounterexample {
+  return {
+    trace: position.trace,
+    subStates: [...position.sub],
+    superStates: [...position.sup],
+    reason,
+  };
+}
+
+// ============================================================================
+// Protocol Subtyping
+// ============================================================================
+
+/**
+ * Check that every role of `sub` can safely replace its counterpart in `sup`
+ *
+ * @param roleMapping - roles of `sup` → roles of `sub` (default: same names)
+ */
+export function checkProtocolSubtype(
+  sub: GlobalProtocolDeclaration,
+  sup: GlobalProtocolDeclaration,
+  roleMapping: Map<string, string> = new Map()
+): ProtocolSubtypeResult {
+  const subCFSMs = projectProtocol(sub);
+  const supCFSMs = projectProtocol(sup);
+  const roles: SubtypeResult[] = [];
+  const mappedRoles = new Set<string>();
+
+  for (const { name: superRole } of sup.roles) {
+    const role = roleMapping.get(superRole) ?? superRole;
+    mappedRoles.add(role);
+
+    const subCFSM = subCFSMs.get(role);
+    if (!subCFSM) {
+      roles.push({
+        isSubtype: false,
+        role,
+        superRole,
+        counterexample: counterexample(
+          { sub: new Set(), sup: new Set(), trace: [] },
+          `Role ${role} (for ${superRole} of ${sup.name}) is not declared by ${sub.name}`
+        ),
+      });
+      continue;
+    }
+
+    roles.push(checkSubtype(subCFSM, supCFSMs.get(superRole)!, { roleMapping }));
+  }
+
+  // New roles have no counterpart that a deployment of `sup` could provide
+  for (const { name: role } of sub.roles) {
+    if (mappedRoles.has(role)) continue;
+    roles.push({
+      isSubtype: false,
+      role,
+      counterexample: counterexample(
+        { sub: new Set(), sup: new Set(), trace: [] },
+        `Role ${role} of ${sub.name} has no counterpart in ${sup.name}`
+      ),
+    });
+  }
+
+  return {
+    isSubtype: roles.every(r => r.isSubtype),
+    subProtocol: sub.name,
+    superProtocol: sup.name,
+    roles,
+  };
+}
+
+/**
+ * Check that a protocol extension can safely replace the protocol it extends
+ */
+export function checkExtension(registry: ProtocolRegistry, name: string): ProtocolSubtypeResult {
+  const { mapping } = registry.getExtensionRoleMapping(name);
+  const base = registry.getSupertype(name)!;
+  return checkProtocolSubtype(registry.resolve(name), registry.resolve(base), mapping);
+}
+
+function projectProtocol(protocol: GlobalProtocolDeclaration): Map<string, CFSM> {
+  const result = projectAll(buildCFG(protocol));
+  if (result.errors.length > 0) {
+    throw new Error(`Cannot project ${protocol.name}: ${result.errors[0].message}`);
+  }
+  return result.cfsms;
+}
+
+// ============================================================================
+// Helpers (shared with the asynchronous checker)
+// ============================================================================
+
+/**
+ * States reachable through unobservable (tau/choice) transitions
+ */
+export function tauClosure(cfsm: CFSM, states: Iterable<string>): Set<string> {
+  const closure = new Set<string>();
+  const stack = [...states];
+
+  while (stack.length > 0) {
+    const state = stack.pop()!;
+    if (closure.has(state)) continue;
+    closure.add(state);
+
+    for (const t of cfsm.transitions) {
+      if (t.from === state && (t.action.type === 'tau' || t.action.type === 'choice')) {
+        stack.push(t.to);
+      }
+    }
+  }
+
+  return closure;
+}
+
+/**
+ * Observable actions leaving a set of states, with peers renamed
+ */
+export function visibleActions(
+  cfsm: CFSM,
+  states: Set<string>,
+  rename: (role: string) => string
+): Map<string, VisibleAction> {
+  const actions = new Map<string, VisibleAction>();
+
+  for (const t of cfsm.transitions) {
+    if (!states.has(t.from)) continue;
+
+    const visible = describeAction(t.action, rename);
+    if (!visible) continue;
+
+    const existing = actions.get(visible.key);
+    if (existing) {
+      existing.targets.add(t.to);
+    } else {
+      actions.set(visible.key, { ...visible, targets: new Set([t.to]) });
+    }
+  }
+
+  return actions;
+}
+
+function describeAction(
+  action: CFSMAction,
+  rename: (role: string) => string
+): (Omit<VisibleAction, 'targets'> & { key: string }) | undefined {
+  switch (action.type) {
+    case 'send': {
+      const to = (Array.isArray(action.to) ? action.to : [action.to]).map(rename).join(',');
+      const label = action.label ?? action.message.label;
+      const payload = formatPayload(action.message);
+      return { kind: 'send', key: `${to}!${label}`, display: `${to}!${label}(${payload})`, payload };
+    }
+    case 'receive': {
+      const from = rename(action.from);
+      const label = action.label ?? action.message.label;
+      const payload = formatPayload(action.message);
+      return { kind: 'receive', key: `${from}?${label}`, display: `${from}?${label}(${payload})`, payload };
+    }
+    case 'subprotocol': {
+      const roles = Object.values(action.roleMapping).map(rename).join(', ');
+      const call = `do ${action.protocol}(${roles})`;
+      return { kind: 'call', key: call, display: call, payload: '' };
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Payload as compared: resolved (aliases expanded) when type checked
+ */
+function formatPayload(message?: Message): string {
+  if (!message?.payload) return '';
+  return message.payload.resolvedType
+    ? formatResolvedType(message.payload.resolvedType)
+    : formatType(message.payload.payloadType);
+}
+
+export function positionKey(states: Set<string>): string {
+  return [...states].sort().join(',');
+}
@@ -0,0 +1,116 @@
+/**
+ * Subtyping Types
+ *
+ * Result types for the synchronous and asynchronous subtype checkers on
+ * projected CFSMs.
+ *
+ * A local type T is a subtype of U (T ≤ U) when a process implementing T
+ * can safely replace one implementing U:
+ * - Internal choice is covariant: T may send fewer messages than U
+ * - External choice is contravariant: T must accept every message U accepts
+ *   (and may accept more)
+ *
+ * @reference Gay, S., & Hole, M. (2005). Subtyping for session types in the
+ *            pi calculus. Acta Informatica 42(2-3).
+ */
+
+/**
+ * Options for checking one CFSM against another
+ */
+export interface SubtypeOptions {
+  /**
+   * Role names of the supertype's protocol → role names of the subtype's
+   * protocol. Roles missing from the map keep their name.
+   */
+  roleMapping?: Map<string, string>;
+}
+
+/**
+ * Why a subtype check failed, and how to get there
+ */
+export interface SubtypeCounterexample {
+  /** Actions (from the subtype's point of view) leading to the failure */
+  trace: string[];
+
+  /** States of the subtype after the trace */
+  subStates: string[];
+
+  /** States of the supertype after the trace */
+  superStates: string[];
+
+  /** Human-readable reason */
+  reason: string;
+}
+
+/**
+ * Result of checking one role's CFSM
+ */
+export interface SubtypeResult {
+  isSubtype: boolean;
+  role: string;           // Role in the subtype's protocol
+  superRole?: string;     // Corresponding role in the supertype's protocol (if any)
+  counterexample?: SubtypeCounterexample;
+}
+
+/**
+ * Result of checking every role of two protocols
+ */
+export interface ProtocolSubtypeResult {
+  isSubtype: boolean;
+  subProtocol: string;
+  superProtocol: string;
+  roles: SubtypeResult[];
+}
+
+// ============================================================================
+// Asynchronous Subtyping
+// ============================================================================
+
+/**
+ * Bounds of the asynchronous subtype check (the problem is undecidable)
+ */
+export interface AsyncSubtypeOptions extends SubtypeOptions {
+  /** Maximum inputs of the supertype the subtype may overtake at once (default: 8) */
+  maxAnticipation?: number;
+
+  /** Maximum game positions to explore (default: 10000) */
+  maxPositions?: number;
+}
+
+/**
+ * Failing position of the asynchronous simulation game
+ */
+export interface AsyncSubtypeCounterexample extends SubtypeCounterexample {
+  /**
+   * Supertype at the position, with the inputs the subtype has overtaken
+   * still to be received, e.g. `Server?Ack().q3`
+   */
+  superContext: string;
+}
+
+/**
+ * A position of the asynchronous simulation game
+ */
+export interface AsyncSubtypePosition {
+  subStates: string[];
+  superContext: string;
+}
+
+/**
+ * Result of checking one role's CFSM asynchronously
+ */
+export interface AsyncSubtypeResult extends SubtypeResult {
+  /**
+   * The bound was reached before a decision: isSubtype is false, but the
+   * CFSMs may still be subtypes (the counterexample says which bound)
+   */
+  inconclusive: boolean;
+
+  counterexample?: AsyncSubtypeCounterexample;
+
+  /** Positions of the game (a simulation relation) when isSubtype holds */
+  witness?: AsyncSubtypePosition[];
+
+  /** Positions explored */
+  positions: number;
+}
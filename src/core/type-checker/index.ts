@@ -0,0 +1,25 @@
+/**
+ * Type Checker Module
+ *
+ * Resolves the payload types of a module (aliases, records, unions,
+ * optionals, collections) and checks that they are declared and that
+ * choices use each label with a single payload type.
+ */
+
+// Types
+export type {
+  TypeCheckOptions,
+  TypeCheckError,
+  TypeCheckErrorType,
+  TypeCheckResult,
+} from './types';
+
+// Checker
+export {
+  checkTypes,
+  resolveType,
+  sameResolvedType,
+  formatType,
+  formatPayload,
+  formatResolvedType,
+} from './type-checker';
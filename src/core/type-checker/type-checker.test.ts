@@ -0,0 +1,381 @@
+/**
+ * Type Checker Tests
+ *
+ * Tests that verify payload type checking:
+ * 1. Resolution of built-in, structured and declared types
+ * 2. Errors: unknown types, arity, recursive and duplicate declarations
+ * 3. Payload agreement across choice branches
+ * 4. Resolved types on projected send/receive actions
+ * 5. Declarations imported from other modules
+ * 6. Variables of message predicates
+ * 7. Operand types of message predicates
+ */
+
+import { describe, it, expect } from 'vitest';
+import { checkTypes, formatResolvedType, sameResolvedType, resolveType } from './index';
+import { parse } from '../parser/parser';
+import { buildCFG } from '../cfg/builder';
+import { projectAll } from '../projection/projector';
+import { loadModules, InMemoryModuleResolver } from '../protocol-registry/module-loader';
+import type { GlobalProtocolDeclaration, MessageTransfer, ResolvedType, TypeDeclaration } from '../ast/types';
+import type { SendAction, ReceiveAction } from '../projection/types';
+
+function errorsOf(source: string): string[] {
+  return checkTypes(parse(source)).errors.map(e => `${e.type}: ${e.message}`);
+}
+
+function payloadOf(source: string, index: number = 0): ResolvedType | undefined {
+  const module = parse(source);
+  checkTypes(module);
+  const protocol = module.declarations.find(d => d.type === 'GlobalProtocolDeclaration') as GlobalProtocolDeclaration;
+  return (protocol.body[index] as MessageTransfer).message.payload?.resolvedType;
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+describe('Type Checker - Resolution', () => {
+  it('should resolve built-in and collection types', () => {
+    const type = payloadOf(`protocol P(role A, role B) { A -> B: M(Map<String, List<Int>>); }`);
+
+    expect(type).toEqual({
+      kind: 'map',
+      key: { kind: 'primitive', name: 'String' },
+      value: { kind: 'list', element: { kind: 'primitive', name: 'Int' } },
+    });
+  });
+
+  it('should expand type declarations', () => {
+    const source = `
+      type Amount as Int;
+      type Item as { sku: String, price: Amount };
+      protocol P(role A, role B) { A -> B: Order(id: Int, items: List<Item>, note: String?); }
+    `;
+
+    expect(formatResolvedType(payloadOf(source)!)).toBe(
+      '{ id: Int, items: List<{ sku: String, price: Int }>, note: String? }'
+    );
+  });
+
+  it('should flatten unions and keep type parameters', () => {
+    const source = `
+      type Id as Int | String;
+      protocol P<type T>(role A, role B) { A -> B: M(Id | T | Int); }
+    `;
+
+    expect(payloadOf(source)).toEqual({
+      kind: 'union',
+      alternatives: [
+        { kind: 'primitive', name: 'Int' },
+        { kind: 'primitive', name: 'String' },
+        { kind: 'parameter', name: 'T' },
+      ],
+    });
+  });
+
+  it('should treat Boolean as Bool', () => {
+    expect(payloadOf(`protocol P(role A, role B) { A -> B: M(Boolean); }`))
+      .toEqual({ kind: 'primitive', name: 'Bool' });
+  });
+
+  it('should compare records and unions regardless of order', () => {
+    const resolve = (source: string) => resolveType((parse(source).declarations[0] as TypeDeclaration).typeValue);
+
+    expect(sameResolvedType(
+      resolve('type T as { a: Int, b: String | Bool };'),
+      resolve('type T as { b: Bool | String, a: Int };')
+    )).toBe(true);
+    expect(sameResolvedType(
+      resolve('type T as { a: Int };'),
+      resolve('type T as { a: Int? };')
+    )).toBe(false);
+  });
+});
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+describe('Type Checker - Errors', () => {
+  it('should accept well-typed modules', () => {
+    const result = checkTypes(parse(`
+      type Amount as Int;
+      protocol P<type T>(role A, role B) {
+        A -> B: Pay(Amount);
+        B -> A: Ack(T?);
+        do Q<Amount>(A, B);
+      }
+    `));
+
+    expect(result.valid).toBe(true);
+    expect(result.declarations.get('Amount')).toEqual({ kind: 'primitive', name: 'Int' });
+  });
+
+  it('should report unknown types where they are used', () => {
+    const result = checkTypes(parse(`protocol P(role A, role B) {
+  A -> B: Order(items: List<Item>);
+}`));
+
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({
+      type: 'unknown-type',
+      message: 'Unknown type "Item"',
+      location: { start: { line: 2, column: 29 } },
+    });
+  });
+
+  it('should report wrong numbers of type arguments', () => {
+    expect(errorsOf(`type A as Map<String>; type B as Int<String>;`)).toEqual([
+      'type-arity: Type "Map" takes 2 type arguments, got 1',
+      'type-arity: Type "Int" takes no type arguments',
+    ]);
+  });
+
+  it('should report recursive and duplicate declarations', () => {
+    expect(errorsOf(`
+      type Tree as { children: List<Tree> };
+      type A as B;
+      type B as A?;
+      type A as Int;
+    `)).toEqual([
+      'recursive-type: Type "Tree" refers to itself (Tree → Tree)',
+      'recursive-type: Type "A" refers to itself (A → B → A)',
+      'duplicate-type: Type "A" is already declared',
+    ]);
+  });
+
+  it('should report duplicate fields', () => {
+    expect(errorsOf(`protocol P(role A, role B) { A -> B: M(id: Int, id: String); }`)).toEqual([
+      'duplicate-field: Field "id" appears more than once',
+    ]);
+  });
+});
+
+// ============================================================================
+// Choice Consistency
+// ============================================================================
+
+describe('Type Checker - Choice Consistency', () => {
+  it('should require the same payload for a label in every branch', () => {
+    const result = checkTypes(parse(`protocol P(role A, role B) {
+  choice at A {
+    A -> B: Order(Int);
+  } or {
+    A -> B: Order(String);
+  } or {
+    A -> B: Order();
+  }
+}`));
+
+    expect(result.errors.map(e => e.message)).toEqual([
+      'Message "Order" carries (Int) in one branch of the choice at A but (String) in another',
+      'Message "Order" carries (Int) in one branch of the choice at A but no payload in another',
+    ]);
+    expect(result.errors[0].location?.start.line).toBe(5);
+  });
+
+  it('should compare payloads after expanding declarations', () => {
+    expect(errorsOf(`
+      type Amount as Int;
+      protocol P(role A, role B) {
+        choice at A {
+          A -> B: Pay(x: Amount, y: String);
+        } or {
+          A -> B: Pay(y: String, x: Int);
+        }
+      }
+    `)).toEqual([]);
+  });
+
+  it('should check nested messages and not repeat unknown types', () => {
+    expect(errorsOf(`
+      protocol P(role A, role B) {
+        choice at A {
+          A -> B: Go();
+          B -> A: Result(Int);
+        } or {
+          A -> B: Stop();
+          B -> A: Result(Missing);
+        }
+      }
+    `)).toEqual(['unknown-type: Unknown type "Missing"']);
+  });
+});
+
+// ============================================================================
+// Projection
+// ============================================================================
+
+describe('Type Checker - Resolved Types on Actions', () => {
+  it('should carry resolved payload types to send and receive actions', () => {
+    const module = parse(`
+      type Item as { sku: String, qty: Int };
+      protocol Shop(role Buyer, role Seller) {
+        Buyer -> Seller: Order(id: Int, items: List<Item>);
+      }
+    `);
+    checkTypes(module);
+
+    const { cfsms } = projectAll(buildCFG(module.declarations[1] as GlobalProtocolDeclaration));
+    const send = cfsms.get('Buyer')!.transitions.find(t => t.action.type === 'send')!.action as SendAction;
+    const receive = cfsms.get('Seller')!.transitions.find(t => t.action.type === 'receive')!.action as ReceiveAction;
+
+    expect(send.message.payload?.resolvedType).toEqual({
+      kind: 'record',
+      fields: [
+        { name: 'id', type: { kind: 'primitive', name: 'Int' } },
+        {
+          name: 'items',
+          type: {
+            kind: 'list',
+            element: {
+              kind: 'record',
+              fields: [
+                { name: 'sku', type: { kind: 'primitive', name: 'String' } },
+                { name: 'qty', type: { kind: 'primitive', name: 'Int' } },
+              ],
+            },
+          },
+        },
+      ],
+    });
+    expect(receive.message.payload?.resolvedType).toEqual(send.message.payload?.resolvedType);
+  });
+});
+
+// ============================================================================
+// Modules
+// ============================================================================
+
+describe('Type Checker - Imported Types', () => {
+  it('should resolve types declared in imported modules', () => {
+    const program = loadModules('shop.scr', new InMemoryModuleResolver({
+      'lib/money.scr': 'type Amount as Int;\ntype Broken as Nope;',
+    }), `import "lib/money.scr";
+protocol Shop(role Buyer, role Seller) {
+  Buyer -> Seller: Pay(Amount);
+}`);
+
+    const result = checkTypes(program.entry.module, { types: program.types });
+    const protocol = program.entry.module.declarations[1] as GlobalProtocolDeclaration;
+
+    // Errors of the imported module are its own
+    expect(result.errors).toEqual([]);
+    expect((protocol.body[0] as MessageTransfer).message.payload?.resolvedType)
+      .toEqual({ kind: 'primitive', name: 'Int' });
+  });
+});
+
+// ============================================================================
+// Predicates
+// ============================================================================
+
+describe('Type Checker - Predicate Variables', () => {
+  it('should accept variables bound by the message or an earlier one', () => {
+    expect(errorsOf(`protocol Pay(role Buyer, role Seller) {
+  Seller -> Buyer: Quote(limit: Int);
+  Buyer -> Seller: Pay(amount: Int) where amount > 0 && amount <= limit;
+}`)).toEqual([]);
+  });
+
+  it('should report unbound variables where they are used', () => {
+    const result = checkTypes(parse(`protocol Pay(role Buyer, role Seller) {
+  Buyer -> Seller: Pay(amount: Int) where amount <= limit;
+}`));
+
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({
+      type: 'unbound-variable',
+      message: 'Variable "limit" is not bound by Pay or an earlier message',
+      location: { start: { line: 2, column: 53 } },
+    });
+  });
+
+  it('should require the roles checking a predicate to know its variables', () => {
+    expect(errorsOf(`protocol Pay(role Bank, role Buyer, role Seller) {
+  Bank -> Buyer: Limit(limit: Int);
+  Buyer -> Seller: Pay(amount: Int) where amount <= limit;
+}`)).toEqual([
+      'unbound-variable: Variable "limit" is not known to Seller, which took no part in the message that binds it',
+    ]);
+  });
+
+  it('should keep variables bound in every branch that leaves a choice', () => {
+    expect(errorsOf(`protocol Pay(role A, role B) {
+  rec Loop {
+    choice at A {
+      A -> B: Offer(price: Int);
+      B -> A: Accept(price: Int);
+    } or {
+      A -> B: Counter(price: Int, note: String);
+      B -> A: Retry();
+      continue Loop;
+    }
+  }
+  A -> B: Pay(amount: Int) where amount == price;
+  A -> B: Note(text: String) where text == note;
+}`)).toEqual(['unbound-variable: Variable "note" is not bound by Note or an earlier message']);
+  });
+});
+
+describe('Type Checker - Predicate Types', () => {
+  it('should accept predicates over operands of the right types', () => {
+    expect(errorsOf(`type Order as { total: Double, note: String? };
+protocol Pay(role Buyer, role Seller) {
+  Buyer -> Seller: Place(order: Order, rush: Bool);
+  Seller -> Buyer: Quote(limit: Int, currency: String);
+  Buyer -> Seller: Pay(amount: Int) where amount > 0 && amount * 2 <= limit + 1 && !rush;
+  Buyer -> Seller: Tip(amount: Double) where order.note == null || order.note >= "a";
+  Buyer -> Seller: Confirm(currency: String) where currency + "" == "EUR" && -order.total < 0;
+}`)).toEqual([]);
+  });
+
+  it('should report comparisons on non-numeric fields where they are used', () => {
+    const result = checkTypes(parse(`protocol Pay(role Buyer, role Seller) {
+  Buyer -> Seller: Pay(amount: String) where amount > 0;
+}`));
+
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({
+      type: 'predicate-type',
+      message: 'Predicate of Pay: > expects two numbers or two strings, got amount (String) and 0 (Int)',
+      location: { start: { line: 2, column: 46 } },
+    });
+  });
+
+  it('should report operands of the wrong type', () => {
+    expect(errorsOf(`protocol Pay(role Buyer, role Seller) {
+  Seller -> Buyer: Quote(limit: Int, open: Bool);
+  Buyer -> Seller: Pay(note: String) where note - 1 > 0;
+  Buyer -> Seller: Ask(question: String) where open && question;
+  Buyer -> Seller: Bid(amount: Int) where !amount;
+}`)).toEqual([
+      'predicate-type: Predicate of Pay: - expects two numbers, got note (String) and 1 (Int)',
+      'predicate-type: Predicate of Ask: && expects two booleans, got open (Bool) and question (String)',
+      'predicate-type: Predicate of Bid: ! expects a boolean, got amount (Int)',
+    ]);
+  });
+
+  it('should report unknown fields and fields of non-records', () => {
+    expect(errorsOf(`type Order as { total: Double };
+protocol Pay(role Buyer, role Seller) {
+  Buyer -> Seller: Place(order: Order, count: Int) where order.price > 0 && count.value > 0;
+}`)).toEqual([
+      'predicate-type: Predicate of Place: order ({ total: Double }) has no field "price"',
+      'predicate-type: Predicate of Place: count (Int) is not a record',
+    ]);
+  });
+
+  it('should report predicates that are not booleans', () => {
+    expect(errorsOf(`protocol Pay(role Buyer, role Seller) {
+  Buyer -> Seller: Pay(amount: Int) where amount + 1;
+}`)).toEqual(['predicate-type: Predicate of Pay is not a boolean: amount + 1 (Int)']);
+  });
+
+  it('should leave operands of unknown types unchecked', () => {
+    expect(errorsOf(`protocol Pay<type T>(role Buyer, role Seller) {
+  Buyer -> Seller: Pay(amount: T, code: Int | String) where amount > 0 && code == 1 && code > limit;
+}`)).toEqual(['unbound-variable: Variable "limit" is not bound by Pay or an earlier message']);
+  });
+});
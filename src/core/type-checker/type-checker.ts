@@ -0,0 +1,758 @@
+/**
+ * Type Checker - Payload Types of a Module
+ *
+ * Gives payload types their meaning and checks them:
+ * - Type declarations are aliases, expanded (across modules with the
+ *   `types` option) and checked for cycles
+ * - Built-in types: Int, Long, Float, Double, Bool (alias Boolean), String,
+ *   List<T>, Set<T>, Map<K, V>
+ * - Structured types: records ({ id: Int }, and named payloads
+ *   Order(id: Int)), unions (Int | String), optionals (Int?)
+ * - Type parameters of the enclosing protocol (<type T>) stand for
+ *   themselves
+ * - A label used in several branches of a choice must carry the same
+ *   payload type in each (the receiver tells branches apart by label only)
+ * - The variables of a message predicate (`where amount <= limit`) must be
+ *   named arguments of the message or of an earlier one, known to both its
+ *   sender and receivers (each checks the predicate at runtime)
+ * - A message predicate must be well typed against the payload types of
+ *   its variables: operators get operands of the kinds they take (numbers
+ *   for arithmetic, two numbers or two strings for comparisons, booleans
+ *   for `&&`, `||`, `!`), fields exist on the records they are read from,
+ *   and the whole predicate is a boolean
+ *
+ * Every payload of the module gets its `resolvedType`, which the CFG
+ * builder and projection carry along on message actions, for code
+ * generation and the runtime.
+ *
+ * Types are compared structurally: record fields and union alternatives
+ * in any order.
+ */
+
+import type {
+  Module,
+  Type,
+  TypeDeclaration,
+  ResolvedType,
+  PrimitiveTypeName,
+  Payload,
+  Message,
+  Choice,
+  GlobalInteraction,
+  Expression,
+  BinaryOperator,
+  SourceLocation,
+} from '../ast/types';
+import type { TypeCheckOptions, TypeCheckResult, TypeCheckError } from './types';
+import { freeVariables, formatExpression } from '../predicates/evaluator';
+
+const PRIMITIVES: Record<string, PrimitiveTypeName> = {
+  Int: 'Int',
+  Long: 'Long',
+  Float: 'Float',
+  Double: 'Double',
+  Bool: 'Bool',
+  Boolean: 'Bool',
+  String: 'String',
+};
+
+const COLLECTIONS: Record<string, number> = {
+  List: 1,
+  Set: 1,
+  Map: 2,
+};
+
+// ============================================================================
+// Module Checking
+// ============================================================================
+
+/**
+ * Check (and resolve) every type of a module
+ *
+ * Errors in imported declarations are left to the check of their own module.
+ */
+export function checkTypes(module: Module, options: TypeCheckOptions = {}): TypeCheckResult {
+  const own = new Map<string, TypeDeclaration>();
+  const errors: TypeCheckError[] = [];
+
+  for (const decl of module.declarations) {
+    if (decl.type !== 'TypeDeclaration') continue;
+    if (own.has(decl.name)) {
+      errors.push({
+        type: 'duplicate-type',
+        message: `Type "${decl.name}" is already declared`,
+        location: decl.location,
+      });
+      continue;
+    }
+    own.set(decl.name, decl);
+  }
+
+  const resolver = new TypeResolver(new Map([...(options.types ?? []), ...own]), own, errors);
+
+  // Type declarations
+  const declarations = new Map<string, ResolvedType>();
+  for (const name of own.keys()) {
+    declarations.set(name, resolver.resolveDeclaration(name));
+  }
+
+  // Payloads and type arguments of protocols
+  for (const decl of module.declarations) {
+    if (decl.type === 'ImportDeclaration' || decl.type === 'TypeDeclaration') continue;
+
+    const parameters = new Set(decl.parameters.filter(p => p.kind === 'type').map(p => p.name));
+    if (decl.type === 'ProtocolExtension') {
+      decl.typeArguments?.forEach(t => resolver.resolve(t, parameters));
+    }
+
+    const body = decl.type === 'ProtocolExtension' ? decl.refinements : decl.body;
+    visit(body, node => {
+      switch (node.type) {
+        case 'Payload':
+          (node as Payload).resolvedType = resolver.resolve(node.payloadType, parameters);
+          return false;
+        case 'Do':
+        case 'ProtocolCall':
+          node.typeArguments?.forEach((t: Type) => resolver.resolve(t, parameters));
+          return true;
+        default:
+          return true;
+      }
+    });
+
+    visit(body, node => {
+      if (node.type === 'Choice') checkChoice(node, errors);
+      return true;
+    });
+
+    if (decl.type === 'GlobalProtocolDeclaration') {
+      checkPredicateScopes(decl.body, new Map(), errors);
+    }
+  }
+
+  errors.sort((a, b) => (a.location?.start.offset ?? 0) - (b.location?.start.offset ?? 0));
+  return { valid: errors.length === 0, errors, declarations };
+}
+
+/**
+ * Resolve a type outside of a module check (errors are ignored)
+ *
+ * @param types - visible type declarations, by name
+ * @param parameters - type parameters in scope
+ */
+export function resolveType(
+  type: Type,
+  types: Map<string, TypeDeclaration> = new Map(),
+  parameters: string[] = []
+): ResolvedType {
+  return new TypeResolver(types, new Map(), []).resolve(type, new Set(parameters));
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+class TypeResolver {
+  private readonly resolved = new Map<string, ResolvedType>();
+  private readonly resolving: string[] = [];
+  private readonly cyclic = new Set<string>();
+
+  /** Declarations whose errors are reported here (not imported ones) */
+  private reporting = true;
+
+  constructor(
+    private readonly declarations: Map<string, TypeDeclaration>,
+    private readonly own: Map<string, TypeDeclaration>,
+    private readonly errors: TypeCheckError[]
+  ) {}
+
+  resolveDeclaration(name: string, reference?: SourceLocation): ResolvedType {
+    const cached = this.resolved.get(name);
+    if (cached) return cached;
+
+    const decl = this.declarations.get(name)!;
+    if (this.resolving.includes(name)) {
+      const cycle = [...this.resolving.slice(this.resolving.indexOf(name)), name];
+      if (!this.cyclic.has(name)) {
+        this.cyclic.add(name);
+        this.report({
+          type: 'recursive-type',
+          message: `Type "${name}" refers to itself (${cycle.join(' → ')})`,
+          location: reference ?? decl.location,
+        });
+      }
+      return { kind: 'unknown', name };
+    }
+
+    const reporting = this.reporting;
+    this.reporting = reporting && this.own.get(name) === decl;
+    this.resolving.push(name);
+
+    const type = this.resolve(decl.typeValue, new Set());
+
+    this.resolving.pop();
+    this.reporting = reporting;
+    this.resolved.set(name, type);
+    return type;
+  }
+
+  resolve(type: Type, parameters: Set<string>): ResolvedType {
+    switch (type.type) {
+      case 'SimpleType':
+        return this.resolveName(type.name, [], parameters, type.location);
+      case 'ParametricType':
+        return this.resolveName(
+          type.name,
+          type.arguments.map(t => this.resolve(t, parameters)),
+          parameters,
+          type.location
+        );
+      case 'RecordType': {
+        const fields: Array<{ name: string; type: ResolvedType }> = [];
+        for (const field of type.fields) {
+          if (fields.some(f => f.name === field.name)) {
+            this.report({
+              type: 'duplicate-field',
+              message: `Field "${field.name}" appears more than once`,
+              location: field.location,
+            });
+            continue;
+          }
+          fields.push({ name: field.name, type: this.resolve(field.fieldType, parameters) });
+        }
+        return { kind: 'record', fields };
+      }
+      case 'UnionType': {
+        const alternatives: ResolvedType[] = [];
+        for (const alternative of type.alternatives) {
+          const resolved = this.resolve(alternative, parameters);
+          for (const t of resolved.kind === 'union' ? resolved.alternatives : [resolved]) {
+            if (!alternatives.some(a => sameResolvedType(a, t))) alternatives.push(t);
+          }
+        }
+        return alternatives.length === 1 ? alternatives[0] : { kind: 'union', alternatives };
+      }
+      case 'OptionalType': {
+        const value = this.resolve(type.valueType, parameters);
+        return value.kind === 'optional' ? value : { kind: 'optional', value };
+      }
+    }
+  }
+
+  private resolveName(
+    name: string,
+    args: ResolvedType[],
+    parameters: Set<string>,
+    location: SourceLocation | undefined
+  ): ResolvedType {
+    const arity = (expected: number): boolean => {
+      if (args.length === expected) return true;
+      this.report({
+        type: 'type-arity',
+        message: expected === 0
+          ? `Type "${name}" takes no type arguments`
+          : `Type "${name}" takes ${expected} type argument${expected > 1 ? 's' : ''}, got ${args.length}`,
+        location,
+      });
+      return false;
+    };
+
+    if (parameters.has(name)) {
+      return arity(0) ? { kind: 'parameter', name } : { kind: 'unknown', name };
+    }
+    if (this.declarations.has(name)) {
+      return arity(0) ? this.resolveDeclaration(name, location) : { kind: 'unknown', name };
+    }
+    if (name in PRIMITIVES) {
+      return arity(0) ? { kind: 'primitive', name: PRIMITIVES[name] } : { kind: 'unknown', name };
+    }
+    if (name in COLLECTIONS) {
+      if (!arity(COLLECTIONS[name])) return { kind: 'unknown', name };
+      return name === 'Map'
+        ? { kind: 'map', key: args[0], value: args[1] }
+        : { kind: name === 'List' ? 'list' : 'set', element: args[0] };
+    }
+
+    this.report({
+      type: 'unknown-type',
+      message: `Unknown type "${name}"`,
+      location,
+    });
+    return { kind: 'unknown', name };
+  }
+
+  private report(error: TypeCheckError): void {
+    if (this.reporting) this.errors.push(error);
+  }
+}
+
+// ============================================================================
+// Choice Consistency
+// ============================================================================
+
+/**
+ * The same label must carry the same payload in every branch
+ */
+function checkChoice(choice: Choice, errors: TypeCheckError[]): void {
+  const seen = new Map<string, Message>();
+
+  for (const branch of choice.branches) {
+    const labels = new Map<string, Message>();
+    visit(branch.body, node => {
+      if (node.type === 'Message' && !labels.has(node.label)) labels.set(node.label, node);
+      return true;
+    });
+
+    for (const [label, message] of labels) {
+      const other = seen.get(label);
+      if (!other) {
+        seen.set(label, message);
+        continue;
+      }
+
+      const a = other.payload?.resolvedType;
+      const b = message.payload?.resolvedType;
+      if ((a && hasUnknown(a)) || (b && hasUnknown(b))) continue; // Already reported
+      if (a && b ? sameResolvedType(a, b) : a === b) continue;
+
+      errors.push({
+        type: 'payload-mismatch',
+        message:
+          `Message "${label}" carries ${describePayload(a)} in one branch of the choice at ${choice.at} ` +
+          `but ${describePayload(b)} in another`,
+        location: message.location,
+      });
+    }
+  }
+}
+
+function describePayload(type: ResolvedType | undefined): string {
+  return type ? `(${formatResolvedType(type)})` : 'no payload';
+}
+
+function hasUnknown(type: ResolvedType): boolean {
+  switch (type.kind) {
+    case 'unknown':
+      return true;
+    case 'list':
+    case 'set':
+      return hasUnknown(type.element);
+    case 'map':
+      return hasUnknown(type.key) || hasUnknown(type.value);
+    case 'optional':
+      return hasUnknown(type.value);
+    case 'record':
+      return type.fields.some(f => hasUnknown(f.type));
+    case 'union':
+      return type.alternatives.some(hasUnknown);
+    default:
+      return false;
+  }
+}
+
+// ============================================================================
+// Predicate Scopes
+// ============================================================================
+
+/**
+ * Variables bound so far: their payload types, and the roles that know
+ * their values (the sender and receivers of the binding message)
+ */
+type Scope = Map<string, Binding>;
+
+interface Binding {
+  roles: Set<string>;
+  type?: ResolvedType;
+}
+
+/**
+ * Check the variables of the predicates in `body`, given those bound
+ * before it
+ *
+ * @returns the variables bound after `body`: after a choice, those bound in
+ *          every branch that leaves it (not by `continue`)
+ */
+function checkPredicateScopes(body: GlobalInteraction[], scope: Scope, errors: TypeCheckError[]): Scope {
+  let current: Scope = new Map(scope);
+
+  for (const node of body) {
+    switch (node.type) {
+      case 'MessageTransfer':
+      case 'TimedMessage': {
+        const roles = [node.from, ...(Array.isArray(node.to) ? node.to : [node.to])];
+        const fields = messageFields(node.message);
+        if (node.message.predicate) {
+          checkPredicateVariables(node.message, roles, fields, current, errors);
+          checkPredicateTypes(node.message, fields, current, errors);
+        }
+        for (const [field, type] of fields) current.set(field, { roles: new Set(roles), type });
+        break;
+      }
+      case 'Choice': {
+        const exits = node.branches
+          .map(branch => ({ branch, after: checkPredicateScopes(branch.body, current, errors) }))
+          .filter(({ branch }) => branch.body[branch.body.length - 1]?.type !== 'Continue')
+          .map(({ after }) => after);
+        if (exits.length > 0) current = intersectScopes(exits);
+        break;
+      }
+      case 'Parallel':
+        for (const branch of node.branches) {
+          for (const [name, binding] of checkPredicateScopes(branch.body, current, errors)) {
+            const roles = new Set([...(current.get(name)?.roles ?? []), ...binding.roles]);
+            current.set(name, { roles, type: binding.type });
+          }
+        }
+        break;
+      case 'Recursion':
+        current = checkPredicateScopes(node.body as GlobalInteraction[], current, errors);
+        break;
+      case 'Try':
+        checkPredicateScopes(node.body as GlobalInteraction[], current, errors);
+        for (const handler of node.catchHandlers) {
+          checkPredicateScopes(handler.body as GlobalInteraction[], current, errors);
+        }
+        break;
+      case 'Timeout':
+      case 'CrashHandler':
+      case 'Foreach': // May run no iteration
+        checkPredicateScopes(node.body as GlobalInteraction[], current, errors);
+        break;
+    }
+  }
+
+  return current;
+}
+
+function checkPredicateVariables(
+  message: Message,
+  roles: string[],
+  fields: Map<string, ResolvedType | undefined>,
+  scope: Scope,
+  errors: TypeCheckError[]
+): void {
+  for (const name of freeVariables(message.predicate!)) {
+    if (fields.has(name)) continue;
+
+    const location = variableLocation(message.predicate!, name) ?? message.location;
+    const known = scope.get(name);
+    if (!known) {
+      errors.push({
+        type: 'unbound-variable',
+        message: `Variable "${name}" is not bound by ${message.label} or an earlier message`,
+        location,
+      });
+      continue;
+    }
+
+    const unaware = roles.filter(role => !known.roles.has(role));
+    if (unaware.length > 0) {
+      errors.push({
+        type: 'unbound-variable',
+        message:
+          `Variable "${name}" is not known to ${unaware.join(', ')}, ` +
+          `which took no part in the message that binds it`,
+        location,
+      });
+    }
+  }
+}
+
+/**
+ * Variables bound by a message: its named arguments, with their types
+ */
+function messageFields(message: Message): Map<string, ResolvedType | undefined> {
+  const type = message.payload?.payloadType;
+  const resolved = message.payload?.resolvedType;
+  if (type?.type !== 'RecordType') return new Map();
+  return new Map(type.fields.map(f => [
+    f.name,
+    resolved?.kind === 'record' ? resolved.fields.find(r => r.name === f.name)?.type : undefined,
+  ]));
+}
+
+function intersectScopes(scopes: Scope[]): Scope {
+  const [first, ...rest] = scopes;
+  const result: Scope = new Map();
+  for (const [name, binding] of first) {
+    if (!rest.every(scope => scope.has(name))) continue;
+    const others = rest.map(scope => scope.get(name)!);
+    result.set(name, {
+      roles: new Set([...binding.roles].filter(role => others.every(other => other.roles.has(role)))),
+      // Bound with different types in different branches: left unchecked
+      type: others.every(other => sameOptionalType(binding.type, other.type)) ? binding.type : undefined,
+    });
+  }
+  return result;
+}
+
+function sameOptionalType(a: ResolvedType | undefined, b: ResolvedType | undefined): boolean {
+  return a && b ? sameResolvedType(a, b) : a === b;
+}
+
+function variableLocation(expression: Expression, name: string): SourceLocation | undefined {
+  let location: SourceLocation | undefined;
+  visit(expression, node => {
+    if (!location && node.type === 'VariableExpression' && node.name === name) location = node.location;
+    return !location;
+  });
+  return location;
+}
+
+// ============================================================================
+// Predicate Types
+// ============================================================================
+
+/**
+ * What an operand is at runtime (values are JSON-like), or undefined when
+ * the type does not tell (type parameters, unions of several kinds, null)
+ */
+type ValueKind = 'number' | 'string' | 'boolean' | 'record' | 'collection';
+
+const NUMERIC: PrimitiveTypeName[] = ['Int', 'Long', 'Float', 'Double'];
+
+const BOOL: ResolvedType = { kind: 'primitive', name: 'Bool' };
+
+/**
+ * Check that the predicate of a message is a well-typed boolean
+ */
+function checkPredicateTypes(
+  message: Message,
+  fields: Map<string, ResolvedType | undefined>,
+  scope: Scope,
+  errors: TypeCheckError[]
+): void {
+  const variables = new Map([...scope].map(([name, binding]) => [name, binding.type]));
+  for (const [name, type] of fields) variables.set(name, type);
+
+  const predicate = message.predicate!;
+  const type = predicateType(predicate, variables, message.label, errors);
+  if (type && valueKind(type) !== undefined && valueKind(type) !== 'boolean') {
+    errors.push({
+      type: 'predicate-type',
+      message: `Predicate of ${message.label} is not a boolean: ${describeOperand(predicate, type)}`,
+      location: predicate.location ?? message.location,
+    });
+  }
+}
+
+/**
+ * Type of an expression, reporting ill-typed operations; undefined when
+ * unknown (unbound variables are reported by checkPredicateVariables)
+ */
+function predicateType(
+  expression: Expression,
+  variables: Map<string, ResolvedType | undefined>,
+  label: string,
+  errors: TypeCheckError[]
+): ResolvedType | undefined {
+  const report = (message: string): undefined => {
+    errors.push({ type: 'predicate-type', message: `Predicate of ${label}: ${message}`, location: expression.location });
+    return undefined;
+  };
+
+  switch (expression.type) {
+    case 'LiteralExpression': {
+      const value = expression.value;
+      if (typeof value === 'number') return { kind: 'primitive', name: Number.isInteger(value) ? 'Int' : 'Double' };
+      if (typeof value === 'string') return { kind: 'primitive', name: 'String' };
+      if (typeof value === 'boolean') return BOOL;
+      return undefined;
+    }
+
+    case 'VariableExpression':
+      return variables.get(expression.name);
+
+    case 'FieldExpression': {
+      const object = predicateType(expression.object, variables, label, errors);
+      const record = object && recordOf(object);
+      if (!object || valueKind(object) === undefined) return undefined;
+      if (!record) {
+        return report(`${describeOperand(expression.object, object)} is not a record`);
+      }
+      const field = record.fields.find(f => f.name === expression.field);
+      if (!field) {
+        return report(`${describeOperand(expression.object, object)} has no field "${expression.field}"`);
+      }
+      return field.type;
+    }
+
+    case 'UnaryExpression': {
+      const operand = predicateType(expression.operand, variables, label, errors);
+      const expected: ValueKind = expression.operator === '!' ? 'boolean' : 'number';
+      const kind = operand && valueKind(operand);
+      if (operand && kind !== undefined && kind !== expected) {
+        return report(`${expression.operator} expects a ${expected}, got ${describeOperand(expression.operand, operand)}`);
+      }
+      return expression.operator === '!' ? BOOL : operand;
+    }
+
+    case 'BinaryExpression': {
+      const left = predicateType(expression.left, variables, label, errors);
+      const right = predicateType(expression.right, variables, label, errors);
+      const leftKind = left && valueKind(left);
+      const rightKind = right && valueKind(right);
+      const operands = `${describeOperand(expression.left, left)} and ${describeOperand(expression.right, right)}`;
+      const expects = (kinds: ValueKind[]): boolean =>
+        (leftKind === undefined || kinds.includes(leftKind)) && (rightKind === undefined || kinds.includes(rightKind));
+
+      switch (expression.operator) {
+        case '==':
+        case '!=':
+          return BOOL;
+        case '&&':
+        case '||':
+          return expects(['boolean']) ? BOOL : report(`${expression.operator} expects two booleans, got ${operands}`);
+        default:
+          if (!orderable(expression.operator)) {
+            return expects(['number']) ? left ?? right : report(`${expression.operator} expects two numbers, got ${operands}`);
+          }
+          if (!expects(['number', 'string']) || (leftKind && rightKind && leftKind !== rightKind)) {
+            return report(`${expression.operator} expects two numbers or two strings, got ${operands}`);
+          }
+          return expression.operator === '+' ? left ?? right : BOOL;
+      }
+    }
+  }
+}
+
+/**
+ * Operators taking two numbers or two strings (comparisons and `+`)
+ */
+function orderable(operator: BinaryOperator): boolean {
+  return ['<', '<=', '>', '>=', '+'].includes(operator);
+}
+
+function valueKind(type: ResolvedType): ValueKind | undefined {
+  switch (type.kind) {
+    case 'primitive':
+      return NUMERIC.includes(type.name) ? 'number' : type.name === 'Bool' ? 'boolean' : 'string';
+    case 'list':
+    case 'set':
+      return 'collection';
+    case 'record':
+      return 'record';
+    case 'optional': // Compared with null first (`x == null || x > 0`)
+      return valueKind(type.value);
+    case 'union': {
+      const kinds = new Set(type.alternatives.map(valueKind));
+      return kinds.size === 1 ? [...kinds][0] : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function recordOf(type: ResolvedType): Extract<ResolvedType, { kind: 'record' }> | undefined {
+  if (type.kind === 'record') return type;
+  if (type.kind === 'optional') return recordOf(type.value);
+  return undefined;
+}
+
+function describeOperand(expression: Expression, type: ResolvedType | undefined): string {
+  return type ? `${formatExpression(expression)} (${formatResolvedType(type)})` : formatExpression(expression);
+}
+
+// ============================================================================
+// Comparison and Formatting
+// ============================================================================
+
+/**
+ * Structural equality (record fields and union alternatives in any order)
+ */
+export function sameResolvedType(a: ResolvedType, b: ResolvedType): boolean {
+  return typeKey(a) === typeKey(b);
+}
+
+function typeKey(type: ResolvedType): string {
+  switch (type.kind) {
+    case 'record':
+      return `{${type.fields.map(f => `${f.name}:${typeKey(f.type)}`).sort().join(',')}}`;
+    case 'union':
+      return `(${type.alternatives.map(typeKey).sort().join('|')})`;
+    default:
+      return formatResolvedType(type);
+  }
+}
+
+/**
+ * A resolved type in Scribble syntax (aliases expanded)
+ */
+export function formatResolvedType(type: ResolvedType): string {
+  switch (type.kind) {
+    case 'primitive':
+    case 'parameter':
+    case 'unknown':
+      return type.name;
+    case 'list':
+      return `List<${formatResolvedType(type.element)}>`;
+    case 'set':
+      return `Set<${formatResolvedType(type.element)}>`;
+    case 'map':
+      return `Map<${formatResolvedType(type.key)}, ${formatResolvedType(type.value)}>`;
+    case 'optional':
+      return type.value.kind === 'union'
+        ? `(${formatResolvedType(type.value)})?`
+        : `${formatResolvedType(type.value)}?`;
+    case 'record':
+      return type.fields.length > 0
+        ? `{ ${type.fields.map(f => `${f.name}: ${formatResolvedType(f.type)}`).join(', ')} }`
+        : '{}';
+    case 'union':
+      return type.alternatives.map(formatResolvedType).join(' | ');
+  }
+}
+
+/**
+ * A type as written in Scribble
+ */
+export function formatType(type: Type): string {
+  switch (type.type) {
+    case 'SimpleType':
+      return type.name;
+    case 'ParametricType':
+      return `${type.name}<${type.arguments.map(formatType).join(', ')}>`;
+    case 'RecordType':
+      return type.fields.length > 0
+        ? `{ ${type.fields.map(f => `${f.name}: ${formatType(f.fieldType)}`).join(', ')} }`
+        : '{}';
+    case 'UnionType':
+      return type.alternatives.map(formatType).join(' | ');
+    case 'OptionalType':
+      return `${formatType(type.valueType)}?`;
+  }
+}
+
+/**
+ * A payload as written between the parentheses of a message: records as
+ * named arguments (`id: Int, items: List<Item>`)
+ */
+export function formatPayload(payload: Payload): string {
+  const type = payload.payloadType;
+  return type.type === 'RecordType' && type.fields.length > 0
+    ? type.fields.map(f => `${f.name}: ${formatType(f.fieldType)}`).join(', ')
+    : formatType(type);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Visit the AST nodes under `node`, depth first; `enter` returns whether
+ * to visit the children of a node
+ */
+function visit(node: unknown, enter: (node: any) => boolean): void {
+  if (Array.isArray(node)) {
+    for (const child of node) visit(child, enter);
+    return;
+  }
+  if (node === null || typeof node !== 'object') return;
+
+  const typed = 'type' in node && typeof (node as any).type === 'string';
+  if (typed && !enter(node)) return;
+
+  for (const [key, child] of Object.entries(node)) {
+    if (key !== 'location' && key !== 'resolvedType') visit(child, enter);
+  }
+}
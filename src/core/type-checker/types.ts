@@ -0,0 +1,46 @@
+/**
+ * Type Checker Types
+ *
+ * Result types for checking the payload types of a module: type
+ * declarations, message payloads, exception payloads, type arguments and
+ * the variables and operand types of message predicates.
+ * Resolved types themselves are part of the AST (see ResolvedType), as the
+ * checker attaches them to payloads.
+ */
+
+import type { ResolvedType, SourceLocation, TypeDeclaration } from '../ast/types';
+
+/**
+ * Options for checking a module
+ */
+export interface TypeCheckOptions {
+  /**
+   * Type declarations visible from the module besides its own, by name
+   * (e.g. `LoadedProgram.types`, where imported ones are qualified)
+   */
+  types?: Map<string, TypeDeclaration>;
+}
+
+export type TypeCheckErrorType =
+  | 'unknown-type'      // Name that is neither built in, declared nor a type parameter
+  | 'type-arity'        // Wrong number of type arguments (List<Int, Int>, Int<String>)
+  | 'recursive-type'    // Type declaration that refers to itself
+  | 'duplicate-type'    // Type declared twice in the module
+  | 'duplicate-field'   // Record (or named payload) with the same field twice
+  | 'payload-mismatch'  // Same label with different payloads in the branches of a choice
+  | 'unbound-variable'  // Predicate variable not bound by an earlier message, or unknown to a role
+  | 'predicate-type';   // Predicate operand of the wrong type, unknown field, or non-boolean predicate
+
+export interface TypeCheckError {
+  type: TypeCheckErrorType;
+  message: string;
+  location?: SourceLocation;
+}
+
+export interface TypeCheckResult {
+  valid: boolean;
+  errors: TypeCheckError[];
+
+  /** Resolved type of each type declaration of the module, by name */
+  declarations: Map<string, ResolvedType>;
+}
@@ -52,9 +52,13 @@ export {
 } from './liveness';
 export type {
   SendReceivePair,
+  OrphanedMessage,
+  StuckParticipant,
   OrphanFreedomResult,
   StateGraph,
+  StateGraphEdge,
   ProgressResult,
+  LivenessOptions,
   FIFOSimulationResult,
   BoundedBuffersResult,
   LivenessResult,
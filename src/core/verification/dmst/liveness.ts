@@ -9,10 +9,31 @@
  * 3. Eventual Delivery: Messages in FIFO buffers are eventually consumed
  *
  * This module implements liveness verification for DMst protocols.
+ *
+ * The participants of a protocol are its declared roles and the dynamic
+ * participants it creates or invites (`Manager creates Worker as w1`).
+ * Dynamic participants have no projection of their own in `projectAll`,
+ * so the missing ones are projected with `projectDynamicParticipant`.
+ *
+ * The checks work at three levels:
+ * - Local: every send of a CFSM has a matching receive in the recipient,
+ *   and no reachable local state is a dead end
+ * - Global: the CFSMs run asynchronously with one FIFO buffer per channel
+ *   (sender→receiver); every reachable configuration must be able to
+ *   terminate with empty buffers
+ * - CFG: a dynamic participant is only talked to after it is invited, and
+ *   every participant that is created is also invited
+ *
+ * Violations come with a counterexample trace. Local traces are CFSM
+ * actions (`w1!Task`, `Manager?Result`), global traces name the participant
+ * taking each step (`Manager: w1!Task`), and CFG traces list the global
+ * actions along the path (`Manager creates Worker as w1`).
  */
 
-import type { CFG } from '../../cfg/types';
-import type { CFSM } from '../../projection/types';
+import type { CFG, Action } from '../../cfg/types';
+import type { CFSM, CFSMTransition } from '../../projection/types';
+import { projectAll } from '../../projection/projector';
+import { projectDynamicParticipant } from '../../projection/dmst-projector';
 
 // ============================================================================
 // Orphan Message Freedom (Part 1 of Theorem 29)
@@ -21,7 +42,9 @@ import type { CFSM } from '../../projection/types';
 /**
  * Extract all send/receive pairs from projected CFSMs.
  *
- * Each send action should have a corresponding receive action.
+ * Each send action should have a corresponding receive action. A multicast
+ * send gives one pair per recipient; the receive is a transition of the
+ * recipient's CFSM receiving the same label from the sender.
  *
  * @param projections - Map of projected CFSMs for all roles
  * @returns Array of send/receive pairs
@@ -29,11 +52,44 @@ import type { CFSM } from '../../projection/types';
 export function extractSendReceivePairs(
   projections: Map<string, CFSM>
 ): SendReceivePair[] {
-  // TODO: Implement send/receive pair extraction
-  // For each send action in any CFSM, find matching receive in target CFSM
-  // Account for dynamic participants (may have multiple instances)
+  const pairs: SendReceivePair[] = [];
+
+  for (const [participant, cfsm] of projections) {
+    const traces = localTraces(cfsm);
+
+    for (const t of cfsm.transitions) {
+      if (t.action.type !== 'send' || !traces.has(t.from)) continue;
+      const label = t.action.message.label;
+      const recipients = Array.isArray(t.action.to) ? t.action.to : [t.action.to];
+
+      for (const to of recipients) {
+        // A message to oneself is a local step, received as it is sent
+        const receive = to === participant ? t : projections.get(to)?.transitions.find(r =>
+          r.action.type === 'receive' &&
+          r.action.from === participant &&
+          r.action.message.label === label
+        );
 
-  return [];
+        pairs.push({
+          send: {
+            from: participant,
+            to,
+            label,
+            cfsmState: t.from,
+            trace: [...traces.get(t.from)!, localLabel(t)],
+          },
+          receive: receive && {
+            from: participant,
+            to,
+            label,
+            cfsmState: receive === t ? t.to : receive.from,
+          },
+        });
+      }
+    }
+  }
+
+  return pairs;
 }
 
 /**
@@ -45,15 +101,22 @@ export function extractSendReceivePairs(
  * @returns Result indicating orphan messages if any
  */
 export function checkOrphanFreedom(pairs: SendReceivePair[]): OrphanFreedomResult {
-  // TODO: Implement orphan freedom check
-  // For each pair, verify:
-  // - Send exists → receive exists
-  // - Labels match
-  // - Dynamic participants properly matched
+  const orphanedMessages: OrphanedMessage[] = [];
+
+  for (const { send, receive } of pairs) {
+    if (receive) continue;
+    orphanedMessages.push({
+      from: send.from,
+      to: send.to,
+      label: send.label,
+      trace: send.trace ?? [],
+      reason: `${send.to} never receives ${send.label} from ${send.from}`,
+    });
+  }
 
   return {
-    hasOrphans: false,
-    orphanedMessages: [],
+    hasOrphans: orphanedMessages.length > 0,
+    orphanedMessages: uniqueMessages(orphanedMessages),
   };
 }
 
@@ -72,10 +135,38 @@ export function checkOrphanFreedom(pairs: SendReceivePair[]): OrphanFreedomResul
 export function buildParticipantStateGraphs(
   projections: Map<string, CFSM>
 ): Map<string, StateGraph> {
-  // TODO: Implement state graph construction
-  // For each CFSM, build LTS showing all reachable states
+  const graphs = new Map<string, StateGraph>();
+
+  for (const [participant, cfsm] of projections) {
+    const states = new Set<string>([cfsm.initialState]);
+    const transitions = new Map<string, string[]>();
+    const edges = new Map<string, StateGraphEdge[]>();
+    const queue = [cfsm.initialState];
+
+    while (queue.length > 0) {
+      const state = queue.shift()!;
+      const out = cfsm.transitions.filter(t => t.from === state);
+      transitions.set(state, [...new Set(out.map(t => t.to))]);
+      edges.set(state, out.map(t => ({ action: localLabel(t), to: t.to })));
+
+      for (const t of out) {
+        if (!states.has(t.to)) {
+          states.add(t.to);
+          queue.push(t.to);
+        }
+      }
+    }
 
-  return new Map();
+    graphs.set(participant, {
+      initialState: cfsm.initialState,
+      states,
+      transitions,
+      edges,
+      terminalStates: new Set(cfsm.terminalStates.filter(s => states.has(s))),
+    });
+  }
+
+  return graphs;
 }
 
 /**
@@ -91,14 +182,25 @@ export function buildParticipantStateGraphs(
 export function checkParticipantProgress(
   stateGraphs: Map<string, StateGraph>
 ): ProgressResult {
-  // TODO: Implement participant progress check
-  // For each participant's state graph:
-  // - Check all reachable states
-  // - Verify each state is terminal OR has outgoing transition
+  const stuckParticipants: StuckParticipant[] = [];
+
+  for (const [participant, graph] of stateGraphs) {
+    const stuckStates = [...graph.states].filter(state =>
+      !graph.terminalStates.has(state) && (graph.transitions.get(state) ?? []).length === 0
+    );
+    if (stuckStates.length === 0) continue;
+
+    stuckParticipants.push({
+      participant,
+      stuckStates,
+      trace: pathTo(graph, stuckStates[0]),
+      reason: `${participant} has no action in non-terminal state ${stuckStates[0]}`,
+    });
+  }
 
   return {
-    allCanProgress: true,
-    stuckParticipants: [],
+    allCanProgress: stuckParticipants.length === 0,
+    stuckParticipants,
   };
 }
 
@@ -110,43 +212,168 @@ export function checkParticipantProgress(
  * Simulate FIFO buffer behavior for message delivery.
  *
  * Models asynchronous message passing with FIFO buffers per channel.
+ * Every reachable configuration of the participants' CFSMs and the buffers
+ * is explored. A configuration where no step is possible must have every
+ * participant able to terminate and every buffer empty; any other dead
+ * configuration reports the messages left in the buffers as orphans and
+ * the participants still waiting as stuck. From every configuration, a
+ * configuration with empty buffers must remain reachable.
+ *
+ * A send onto a buffer holding `bufferBound` messages is not explored; its
+ * channel is reported in `unboundedBuffers`.
  *
  * @param cfg - Global protocol CFG
+ * @param options - Buffer bound, state limit and projections to reuse
  * @returns Simulation result showing message delivery
  */
-export function simulateFIFODelivery(cfg: CFG): FIFOSimulationResult {
-  // TODO: Implement FIFO buffer simulation
-  // Simulate execution:
-  // - Messages go into FIFO buffer when sent
-  // - Messages consumed from buffer when received
-  // - Track buffer sizes over time
-  // - Verify all messages eventually delivered
+export function simulateFIFODelivery(
+  cfg: CFG,
+  options: LivenessOptions = {}
+): FIFOSimulationResult {
+  const projections = projectParticipants(cfg, options.projections);
+  const machines = [...projections].map(([participant, cfsm]) => machineOf(participant, cfsm));
+  const bufferBound = options.bufferBound ?? 3;
+  const maxStates = options.maxStates ?? 10000;
+
+  const configs: Configuration[] = [];
+  const index = new Map<string, number>();
+  const successors: number[][] = [];
+  const unbounded = new Set<string>();
+  const orphanedMessages: OrphanedMessage[] = [];
+  const stuckParticipants: StuckParticipant[] = [];
+  let maxBufferSize = 0;
+  let complete = true;
+
+  const visit = (config: Configuration): number => {
+    const key = configurationKey(config);
+    let id = index.get(key);
+    if (id === undefined) {
+      id = configs.length;
+      index.set(key, id);
+      configs.push(config);
+      successors.push([]);
+      for (const buffer of config.buffers.values()) {
+        maxBufferSize = Math.max(maxBufferSize, buffer.length);
+      }
+    }
+    return id;
+  };
+
+  visit({
+    positions: machines.map(m => m.closure([m.initialState])),
+    buffers: new Map(),
+  });
+
+  for (let id = 0; id < configs.length; id++) {
+    if (configs.length >= maxStates) {
+      complete = false;
+      break;
+    }
 
+    const config = configs[id];
+    const steps = enabledSteps(machines, config, bufferBound, unbounded);
+
+    for (const step of steps) {
+      const next = visit({ ...step.config, parent: id, step: step.label });
+      successors[id].push(next);
+    }
+
+    if (steps.length > 0 || hasBlockedSend(machines, config, bufferBound)) continue;
+
+    // Dead configuration
+    const trace = globalTrace(configs, id);
+    for (const [channel, buffer] of config.buffers) {
+      const [from, to] = channel.split('->');
+      for (const label of buffer) {
+        orphanedMessages.push({
+          from,
+          to,
+          label,
+          trace,
+          reason: `${label} from ${from} is never received by ${to}`,
+        });
+      }
+    }
+    machines.forEach((machine, i) => {
+      if (machine.canTerminate(config.positions[i])) return;
+      stuckParticipants.push({
+        participant: machine.participant,
+        stuckStates: config.positions[i],
+        trace,
+        reason: waitingReason(machine, config.positions[i]),
+      });
+    });
+  }
+
+  // Every configuration must be able to empty its buffers again
+  let drainable = true;
+  if (complete) {
+    const canDrain = new Set<number>();
+    configs.forEach((config, id) => {
+      if ([...config.buffers.values()].every(b => b.length === 0)) canDrain.add(id);
+    });
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (let id = 0; id < configs.length; id++) {
+        if (!canDrain.has(id) && successors[id].some(s => canDrain.has(s))) {
+          canDrain.add(id);
+          changed = true;
+        }
+      }
+    }
+
+    const stuck = configs.findIndex((_, id) => !canDrain.has(id));
+    if (stuck >= 0) {
+      drainable = false;
+      const trace = globalTrace(configs, stuck);
+      for (const [channel, buffer] of configs[stuck].buffers) {
+        const [from, to] = channel.split('->');
+        for (const label of buffer) {
+          orphanedMessages.push({
+            from,
+            to,
+            label,
+            trace,
+            reason: `${label} from ${from} can never be received by ${to}`,
+          });
+        }
+      }
+    }
+  }
+
+  const orphans = uniqueMessages(orphanedMessages);
   return {
-    allMessagesDelivered: true,
-    maxBufferSize: 0,
-    unboundedBuffers: [],
+    allMessagesDelivered: drainable && orphans.length === 0,
+    maxBufferSize,
+    unboundedBuffers: [...unbounded],
+    orphanedMessages: orphans,
+    stuckParticipants: uniqueParticipants(stuckParticipants),
+    statesExplored: configs.length,
+    complete,
   };
 }
 
 /**
  * Check bounded buffer property for updatable recursion.
  *
- * Ensures updatable recursion doesn't cause unbounded buffer growth.
+ * Ensures updatable recursion doesn't cause unbounded buffer growth: an
+ * updatable recursion is unbounded when one of the channels its loop sends
+ * on fills up to the buffer bound in the FIFO simulation.
  *
  * @param cfg - CFG containing updatable recursion
+ * @param options - Buffer bound, state limit and projections to reuse
  * @returns Result indicating bounded buffers or not
  */
-export function checkBoundedBuffers(cfg: CFG): BoundedBuffersResult {
-  // TODO: Implement bounded buffer check
-  // For updatable recursions:
-  // - Check that buffer size doesn't grow unboundedly over iterations
-  // - Verify messages from previous iterations are consumed
-
-  return {
-    buffersBounded: true,
-    unboundedRecursions: [],
-  };
+export function checkBoundedBuffers(
+  cfg: CFG,
+  options: LivenessOptions = {}
+): BoundedBuffersResult {
+  if (updatableRecursions(cfg).length === 0) {
+    return { buffersBounded: true, unboundedRecursions: [] };
+  }
+  const simulation = simulateFIFODelivery(cfg, options);
+  return boundedBuffers(cfg, simulation.unboundedBuffers);
 }
 
 // ============================================================================
@@ -163,26 +390,527 @@ export function checkBoundedBuffers(cfg: CFG): BoundedBuffersResult {
  *
  * @param cfg - Global protocol CFG
  * @param projections - Local projections for all roles
+ * @param options - Buffer bound and state limit of the FIFO simulation
  * @returns Liveness verification result
  */
 export function verifyLiveness(
   cfg: CFG,
-  projections: Map<string, CFSM>
+  projections: Map<string, CFSM>,
+  options: Omit<LivenessOptions, 'projections'> = {}
 ): LivenessResult {
-  // TODO: Implement Theorem 29 verification
-  // 1. Check orphan freedom
-  // 2. Check participant progress
-  // 3. Check eventual delivery
+  const all = projectParticipants(cfg, projections);
+
+  const pairs = checkOrphanFreedom(extractSendReceivePairs(all));
+  const progress = checkParticipantProgress(buildParticipantStateGraphs(all));
+  const invitations = checkInvitations(cfg);
+  const simulation = simulateFIFODelivery(cfg, { ...options, projections: all });
+  const buffers = boundedBuffers(cfg, simulation.unboundedBuffers);
+
+  const orphanedMessages = uniqueMessages([
+    ...invitations.orphanedMessages,
+    ...pairs.orphanedMessages,
+    ...simulation.orphanedMessages,
+  ]);
+  const stuckParticipants = uniqueParticipants([
+    ...invitations.stuckParticipants,
+    ...progress.stuckParticipants,
+    ...simulation.stuckParticipants,
+  ]);
+
+  const orphanFree = orphanedMessages.length === 0;
+  const noStuckParticipants = stuckParticipants.length === 0;
+  const eventualDelivery = simulation.allMessagesDelivered && buffers.buffersBounded;
+
+  let reason: string | undefined;
+  if (!orphanFree) {
+    reason = `Orphan message: ${orphanedMessages[0].reason}`;
+  } else if (!noStuckParticipants) {
+    reason = `Stuck participant: ${stuckParticipants[0].reason}`;
+  } else if (!eventualDelivery) {
+    reason = buffers.buffersBounded
+      ? 'Buffered messages can never all be delivered'
+      : `Unbounded buffers in updatable recursion ${buffers.unboundedRecursions.join(', ')}`;
+  } else if (!simulation.complete) {
+    reason = `State space exceeds ${simulation.statesExplored} configurations; result is partial`;
+  }
+
+  return {
+    isLive: orphanFree && noStuckParticipants && eventualDelivery,
+    orphanFree,
+    noStuckParticipants,
+    eventualDelivery,
+    orphanedMessages,
+    stuckParticipants,
+    unboundedRecursions: buffers.unboundedRecursions,
+    reason,
+  };
+}
+
+// ============================================================================
+// Participants
+// ============================================================================
+
+/**
+ * Projections of every participant: the given ones, completed with
+ * projections of the dynamic participants
+ */
+function projectParticipants(
+  cfg: CFG,
+  projections?: Map<string, CFSM>
+): Map<string, CFSM> {
+  const all = new Map(projections ?? projectAll(cfg).cfsms);
+
+  for (const participant of participantsOf(cfg)) {
+    if (!all.has(participant)) {
+      all.set(participant, projectDynamicParticipant(cfg, participant));
+    }
+  }
+
+  return all;
+}
+
+/**
+ * Declared roles, then every other participant in order of appearance
+ */
+function participantsOf(cfg: CFG): string[] {
+  const participants = new Set(cfg.roles);
+
+  for (const node of cfg.nodes) {
+    if (node.type !== 'action') continue;
+    const action = node.action;
+    switch (action.kind) {
+      case 'message':
+        participants.add(action.from);
+        for (const to of recipientsOf(action.to)) participants.add(to);
+        break;
+      case 'create-participants':
+        participants.add(action.instanceName ?? action.roleName);
+        break;
+      case 'invitation':
+        participants.add(action.invitee);
+        break;
+    }
+  }
+
+  return [...participants];
+}
+
+// ============================================================================
+// Invitations
+// ============================================================================
+
+/**
+ * Check, along every path of the CFG, that a dynamic participant is invited
+ * before any message to or from it, and that every participant created is
+ * invited before the protocol ends
+ */
+function checkInvitations(cfg: CFG): {
+  orphanedMessages: OrphanedMessage[];
+  stuckParticipants: StuckParticipant[];
+} {
+  const orphanedMessages: OrphanedMessage[] = [];
+  const stuckParticipants: StuckParticipant[] = [];
+
+  const dynamic = new Set<string>();
+  const creators = new Map<string, string>();
+  for (const node of cfg.nodes) {
+    if (node.type !== 'action') continue;
+    const action = node.action;
+    if (action.kind === 'create-participants') {
+      const created = action.instanceName ?? action.roleName;
+      creators.set(created, action.creator);
+      if (!cfg.roles.includes(created)) dynamic.add(created);
+    } else if (action.kind === 'invitation' && !cfg.roles.includes(action.invitee)) {
+      dynamic.add(action.invitee);
+    }
+  }
+  if (dynamic.size === 0) return { orphanedMessages, stuckParticipants };
+
+  interface PathState {
+    node: string;
+    created: string[];
+    invited: string[];
+    trace: string[];
+  }
+
+  const nodes = new Map(cfg.nodes.map(n => [n.id, n]));
+  const seen = new Set<string>();
+  const queue: PathState[] = [{ node: cfg.initialNode, created: [], invited: [], trace: [] }];
+
+  while (queue.length > 0) {
+    let { node: id, created, invited, trace } = queue.shift()!;
+    const key = `${id}|${created.join(',')}|${invited.join(',')}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const node = nodes.get(id);
+    if (node?.type === 'terminal') {
+      for (const participant of created) {
+        if (invited.includes(participant)) continue;
+        stuckParticipants.push({
+          participant,
+          stuckStates: [],
+          trace,
+          reason: `${participant} is created by ${creators.get(participant)} but never invited`,
+        });
+      }
+    }
+
+    if (node?.type === 'action') {
+      const action = node.action;
+      const label = cfgActionLabel(action);
+      if (label) trace = [...trace, label];
+
+      if (action.kind === 'message') {
+        for (const to of recipientsOf(action.to)) {
+          const absent = [action.from, to].find(p => dynamic.has(p) && !invited.includes(p));
+          if (!absent) continue;
+          orphanedMessages.push({
+            from: action.from,
+            to,
+            label: action.message.label,
+            trace,
+            reason: `${action.message.label} from ${action.from} to ${to} is sent before ${absent} is invited`,
+          });
+        }
+      } else if (action.kind === 'create-participants') {
+        created = [...new Set([...created, action.instanceName ?? action.roleName])].sort();
+      } else if (action.kind === 'invitation') {
+        invited = [...new Set([...invited, action.invitee])].sort();
+      }
+    }
+
+    for (const edge of cfg.edges) {
+      if (edge.from === id) queue.push({ node: edge.to, created, invited, trace });
+    }
+  }
 
   return {
-    isLive: false,
-    orphanFree: false,
-    noStuckParticipants: false,
-    eventualDelivery: false,
-    reason: 'Liveness verification not yet implemented (Phase 6)',
+    orphanedMessages: uniqueMessages(orphanedMessages),
+    stuckParticipants: uniqueParticipants(stuckParticipants),
   };
 }
 
+// ============================================================================
+// Bounded Buffers
+// ============================================================================
+
+function updatableRecursions(cfg: CFG): { label: string; node: string }[] {
+  return cfg.nodes.flatMap(node =>
+    node.type === 'action' && node.action.kind === 'updatable-recursion'
+      ? [{ label: node.action.label, node: node.id }]
+      : []
+  );
+}
+
+/**
+ * Updatable recursions whose loop sends on a channel that filled up
+ *
+ * The loop of a recursion is every node on a cycle through it: reachable
+ * from it, and leading back to it.
+ */
+function boundedBuffers(cfg: CFG, unboundedChannels: string[]): BoundedBuffersResult {
+  const unbounded = new Set(unboundedChannels);
+  const unboundedRecursions: string[] = [];
+
+  if (unbounded.size > 0) {
+    const forward = reachability(cfg, 'forward');
+    const backward = reachability(cfg, 'backward');
+
+    for (const { label, node } of updatableRecursions(cfg)) {
+      const enclosing = cfg.nodes.find(n =>
+        n.type === 'recursive' && n.label === label && forward(n.id).has(node)
+      );
+      const head = enclosing?.id ?? node;
+      const reachable = forward(head);
+      const returning = backward(head);
+
+      const sendsOnUnbounded = cfg.nodes.some(n => {
+        if (n.type !== 'action' || n.action.kind !== 'message') return false;
+        if (!reachable.has(n.id) || !returning.has(n.id)) return false;
+        const from = n.action.from;
+        return recipientsOf(n.action.to).some(to => unbounded.has(`${from}->${to}`));
+      });
+      if (sendsOnUnbounded) unboundedRecursions.push(label);
+    }
+  }
+
+  return {
+    buffersBounded: unboundedRecursions.length === 0,
+    unboundedRecursions,
+  };
+}
+
+function reachability(cfg: CFG, direction: 'forward' | 'backward'): (node: string) => Set<string> {
+  const next = new Map<string, string[]>();
+  for (const edge of cfg.edges) {
+    const [from, to] = direction === 'forward' ? [edge.from, edge.to] : [edge.to, edge.from];
+    next.set(from, [...(next.get(from) ?? []), to]);
+  }
+
+  return (start: string) => {
+    const reached = new Set<string>();
+    const stack = [...(next.get(start) ?? [])];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (reached.has(node)) continue;
+      reached.add(node);
+      stack.push(...(next.get(node) ?? []));
+    }
+    return reached;
+  };
+}
+
+// ============================================================================
+// Asynchronous Semantics
+// ============================================================================
+
+/**
+ * A participant's CFSM, stepped on sets of states: tau and choice
+ * transitions are silent, and the states a sequence of actions can lead to
+ * are tracked together (as in the subtyping check)
+ */
+interface Machine {
+  participant: string;
+  initialState: string;
+  closure(states: string[]): string[];
+  canTerminate(states: string[]): boolean;
+  visible(states: string[]): CFSMTransition[];
+}
+
+function machineOf(participant: string, cfsm: CFSM): Machine {
+  const outgoing = new Map<string, CFSMTransition[]>();
+  for (const t of cfsm.transitions) {
+    outgoing.set(t.from, [...(outgoing.get(t.from) ?? []), t]);
+  }
+  const terminal = new Set(cfsm.terminalStates);
+  const silent = (t: CFSMTransition) => t.action.type === 'tau' || t.action.type === 'choice';
+
+  return {
+    participant,
+    initialState: cfsm.initialState,
+    closure(states) {
+      const reached = new Set(states);
+      const stack = [...states];
+      while (stack.length > 0) {
+        for (const t of outgoing.get(stack.pop()!) ?? []) {
+          if (silent(t) && !reached.has(t.to)) {
+            reached.add(t.to);
+            stack.push(t.to);
+          }
+        }
+      }
+      return [...reached].sort();
+    },
+    canTerminate: states => states.some(s => terminal.has(s)),
+    visible: states => states.flatMap(s => (outgoing.get(s) ?? []).filter(t => !silent(t))),
+  };
+}
+
+interface Configuration {
+  /** Tau-closed state set of each participant */
+  positions: string[][];
+  /** Messages in transit, by channel `from->to` */
+  buffers: Map<string, string[]>;
+  parent?: number;
+  step?: string;
+}
+
+function configurationKey(config: Configuration): string {
+  const buffers = [...config.buffers]
+    .filter(([, buffer]) => buffer.length > 0)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([channel, buffer]) => `${channel}=${buffer.join(',')}`);
+  return `${config.positions.map(p => p.join(',')).join('|')}#${buffers.join(';')}`;
+}
+
+/**
+ * Steps possible in a configuration: a send whose buffers have room, a
+ * receive of the message at the head of its buffer, or a sub-protocol call
+ */
+function enabledSteps(
+  machines: Machine[],
+  config: Configuration,
+  bufferBound: number,
+  unbounded: Set<string>
+): { label: string; config: Configuration }[] {
+  const steps: { label: string; config: Configuration }[] = [];
+
+  machines.forEach((machine, i) => {
+    const groups = new Map<string, CFSMTransition[]>();
+    for (const t of machine.visible(config.positions[i])) {
+      const key = localLabel(t);
+      groups.set(key, [...(groups.get(key) ?? []), t]);
+    }
+
+    for (const [label, transitions] of groups) {
+      const action = transitions[0].action;
+      const buffers = new Map(config.buffers);
+
+      if (action.type === 'send') {
+        const channels = recipientsOf(action.to)
+          .filter(to => to !== machine.participant)
+          .map(to => `${machine.participant}->${to}`);
+        const full = channels.filter(c => (buffers.get(c) ?? []).length >= bufferBound);
+        if (full.length > 0) {
+          full.forEach(c => unbounded.add(c));
+          continue;
+        }
+        for (const channel of channels) {
+          buffers.set(channel, [...(buffers.get(channel) ?? []), action.message.label]);
+        }
+      } else if (action.type === 'receive') {
+        const channel = `${action.from}->${machine.participant}`;
+        const buffer = buffers.get(channel) ?? [];
+        if (buffer[0] !== action.message.label) continue;
+        buffers.set(channel, buffer.slice(1));
+      }
+
+      const positions = [...config.positions];
+      positions[i] = machine.closure([...new Set(transitions.map(t => t.to))]);
+      steps.push({ label: `${machine.participant}: ${label}`, config: { positions, buffers } });
+    }
+  });
+
+  return steps;
+}
+
+/**
+ * Whether some send is held back only by the buffer bound
+ */
+function hasBlockedSend(machines: Machine[], config: Configuration, bufferBound: number): boolean {
+  return machines.some((machine, i) =>
+    machine.visible(config.positions[i]).some(t =>
+      t.action.type === 'send' &&
+      recipientsOf(t.action.to).some(to =>
+        (config.buffers.get(`${machine.participant}->${to}`) ?? []).length >= bufferBound
+      )
+    )
+  );
+}
+
+function globalTrace(configs: Configuration[], id: number): string[] {
+  const trace: string[] = [];
+  for (let c: Configuration | undefined = configs[id]; c?.step; c = configs[c.parent!]) {
+    trace.unshift(c.step);
+  }
+  return trace;
+}
+
+function waitingReason(machine: Machine, states: string[]): string {
+  const receives = machine.visible(states).flatMap(t =>
+    t.action.type === 'receive' ? [`${t.action.message.label} from ${t.action.from}`] : []
+  );
+  return receives.length > 0
+    ? `${machine.participant} waits for ${[...new Set(receives)].join(' or ')}`
+    : `${machine.participant} has no action in ${states.join(', ')}`;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function recipientsOf(to: string | string[]): string[] {
+  return Array.isArray(to) ? to : [to];
+}
+
+/**
+ * Action of a transition in CFSM notation: `B!Label`, `A?Label`, `τ`
+ */
+function localLabel(t: CFSMTransition): string {
+  const action = t.action;
+  switch (action.type) {
+    case 'send':
+      return `${recipientsOf(action.to).join(',')}!${action.message.label}`;
+    case 'receive':
+      return `${action.from}?${action.message.label}`;
+    case 'subprotocol':
+      return `do ${action.protocol}`;
+    case 'choice':
+      return `choice ${action.branch}`;
+    default:
+      return 'τ';
+  }
+}
+
+function cfgActionLabel(action: Action): string | undefined {
+  switch (action.kind) {
+    case 'dynamic-role-declaration':
+      return `new role ${action.roleName}`;
+    case 'message':
+      return `${action.from} → ${recipientsOf(action.to).join(', ')}: ${action.message.label}`;
+    case 'create-participants':
+      return `${action.creator} creates ${action.roleName}${action.instanceName ? ` as ${action.instanceName}` : ''}`;
+    case 'invitation':
+      return `${action.inviter} invites ${action.invitee}`;
+    case 'protocol-call':
+      return `${action.caller} calls ${action.protocol}(${action.roleArguments.join(', ')})`;
+    case 'subprotocol':
+      return `do ${action.protocol}(${action.roleArguments.join(', ')})`;
+    case 'updatable-recursion':
+      return `continue ${action.label} with update`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Shortest local trace to every reachable state of a CFSM
+ */
+function localTraces(cfsm: CFSM): Map<string, string[]> {
+  const traces = new Map<string, string[]>([[cfsm.initialState, []]]);
+  const queue = [cfsm.initialState];
+
+  while (queue.length > 0) {
+    const state = queue.shift()!;
+    for (const t of cfsm.transitions) {
+      if (t.from !== state || traces.has(t.to)) continue;
+      const label = localLabel(t);
+      traces.set(t.to, label === 'τ' ? traces.get(state)! : [...traces.get(state)!, label]);
+      queue.push(t.to);
+    }
+  }
+
+  return traces;
+}
+
+function pathTo(graph: StateGraph, target: string): string[] {
+  const traces = new Map<string, string[]>([[graph.initialState, []]]);
+  const queue = [graph.initialState];
+
+  while (queue.length > 0) {
+    const state = queue.shift()!;
+    if (state === target) break;
+    for (const edge of graph.edges.get(state) ?? []) {
+      if (traces.has(edge.to)) continue;
+      const trace = traces.get(state)!;
+      traces.set(edge.to, edge.action === 'τ' ? trace : [...trace, edge.action]);
+      queue.push(edge.to);
+    }
+  }
+
+  return traces.get(target) ?? [];
+}
+
+function uniqueMessages(messages: OrphanedMessage[]): OrphanedMessage[] {
+  const seen = new Set<string>();
+  return messages.filter(m => {
+    const key = `${m.from}->${m.to}:${m.label}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function uniqueParticipants(participants: StuckParticipant[]): StuckParticipant[] {
+  const seen = new Set<string>();
+  return participants.filter(p => {
+    if (seen.has(p.participant)) return false;
+    seen.add(p.participant);
+    return true;
+  });
+}
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -193,6 +921,8 @@ export interface SendReceivePair {
     to: string;
     label: string;
     cfsmState: string;
+    /** Sender's local actions up to and including the send */
+    trace?: string[];
   };
   receive?: {
     from: string;
@@ -202,33 +932,69 @@ export interface SendReceivePair {
   };
 }
 
+/**
+ * A message that is never received, with the trace that sends it
+ */
+export interface OrphanedMessage {
+  from: string;
+  to: string;
+  label: string;
+  trace: string[];
+  reason: string;
+}
+
+/**
+ * A participant that can neither progress nor terminate, with the trace
+ * that leaves it there
+ */
+export interface StuckParticipant {
+  participant: string;
+  stuckStates: string[];
+  trace: string[];
+  reason: string;
+}
+
 export interface OrphanFreedomResult {
   hasOrphans: boolean;
-  orphanedMessages: {
-    from: string;
-    to: string;
-    label: string;
-  }[];
+  orphanedMessages: OrphanedMessage[];
 }
 
 export interface StateGraph {
+  initialState: string;
   states: Set<string>;
   transitions: Map<string, string[]>; // state -> reachable states
+  edges: Map<string, StateGraphEdge[]>; // state -> labelled transitions
   terminalStates: Set<string>;
 }
 
+export interface StateGraphEdge {
+  action: string;
+  to: string;
+}
+
 export interface ProgressResult {
   allCanProgress: boolean;
-  stuckParticipants: {
-    participant: string;
-    stuckStates: string[];
-  }[];
+  stuckParticipants: StuckParticipant[];
+}
+
+export interface LivenessOptions {
+  /** Messages a channel may hold before its growth is reported (default 3) */
+  bufferBound?: number;
+  /** Configurations explored before giving up (default 10000) */
+  maxStates?: number;
+  /** Projections to use instead of projecting the CFG */
+  projections?: Map<string, CFSM>;
 }
 
 export interface FIFOSimulationResult {
   allMessagesDelivered: boolean;
   maxBufferSize: number;
   unboundedBuffers: string[]; // Channel names with unbounded growth
+  orphanedMessages: OrphanedMessage[];
+  stuckParticipants: StuckParticipant[];
+  statesExplored: number;
+  /** False if the state limit was reached */
+  complete: boolean;
 }
 
 export interface BoundedBuffersResult {
@@ -241,5 +1007,8 @@ export interface LivenessResult {
   orphanFree: boolean;
   noStuckParticipants: boolean;
   eventualDelivery: boolean;
+  orphanedMessages: OrphanedMessage[];
+  stuckParticipants: StuckParticipant[];
+  unboundedRecursions: string[];
   reason?: string;
 }
@@ -12,7 +12,7 @@
  */
 
 import type { CFG, Action, isUpdatableRecursionAction } from '../../cfg/types';
-import { combineProtocols, checkChannelDisjointness } from '../../cfg/combining-operator';
+import { interleavingCompose, checkChannelDisjointness } from '../../cfg/combining-operator';
 import { verifyProtocol } from '../verifier';
 
 // ============================================================================
@@ -117,9 +117,9 @@ export function checkSafeProtocolUpdate(cfg: CFG): SafeUpdateResult {
  * - Actions must use disjoint channels
  *
  * ALGORITHM:
- * 1. Combine G and G_update using combining operator ♢
- * 2. Check channel disjointness (safety requirement)
- * 3. Return combined CFG if safe, throw error otherwise
+ * 1. Check channel disjointness (safety requirement)
+ * 2. Interleave G and G_update (interleavingCompose)
+ * 3. Return the interleaving if safe, throw error otherwise
  *
  * @param recursionBody - The main recursion body G
  * @param updateBody - The update body G_update
@@ -127,22 +127,16 @@ export function checkSafeProtocolUpdate(cfg: CFG): SafeUpdateResult {
  * @throws Error if combining fails (channel conflicts)
  */
 export function compute1Unfolding(recursionBody: CFG, updateBody: CFG): CFG {
-  // Use combining operator to interleave G and G_update
-  const combineResult = combineProtocols(recursionBody, updateBody);
-
-  if (!combineResult.success) {
-    throw new Error(
-      `Cannot combine protocols: ${combineResult.error}\n` +
-      `Channel conflicts: ${combineResult.channelCheck.conflicts.length}`
-    );
-  }
+  // Definition 14 only asks for disjoint channels: a role may send in both
+  // G and G_update (combineProtocols would refuse it, for verifyProtocol)
+  const channelCheck = checkChannelDisjointness(recursionBody, updateBody);
 
-  if (!combineResult.combined) {
-    throw new Error('Combining operator returned success but no combined CFG');
+  if (!channelCheck.isDisjoint) {
+    throw new Error(`Cannot combine protocols: Channel conflicts detected: ${channelCheck.conflicts.length} races`);
   }
 
-  // The combined CFG is the 1-unfolding
-  return combineResult.combined;
+  // The interleaving of G and G_update is the 1-unfolding
+  return interleavingCompose(recursionBody, updateBody);
 }
 
 // ============================================================================
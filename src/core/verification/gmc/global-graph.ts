@@ -0,0 +1,127 @@
+/**
+ * Global Graph Synthesis
+ *
+ * The global graph of a GMC system is its synchronous transition system
+ * with interleavings folded: an interaction concurrent with all those of a
+ * choice commutes with each of them (branching property), so drawing the
+ * choice first and leaving the interaction for later loses no behaviour.
+ *
+ * At each node the first interaction is drawn with every interaction that
+ * does not commute with it (its alternatives), and the rest are postponed.
+ * A node is still fully expanded when the drawn interactions only lead
+ * back to nodes already in the graph, so that a loop of some roles cannot
+ * postpone the others forever.
+ *
+ * What is left is a choreography: each node with several outgoing
+ * interactions is either a choice of one role or a point where several
+ * roles proceed independently.
+ *
+ * @reference Lange, J., Tuosto, E., & Yoshida, N. (2015). From Communicating
+ *            Machines to Graphical Choreographies. POPL 2015, §4.
+ */
+
+import { formatInteraction, isConcurrent, isFinal, type SynchronousTS, type TSEdge } from './transition-system';
+
+export interface GlobalGraph {
+  roles: string[];
+  /** Entry node */
+  initial: string;
+  nodes: GlobalGraphNode[];
+  edges: GlobalGraphEdge[];
+}
+
+export interface GlobalGraphNode {
+  /** `g0`, `g1`, ... in order of discovery */
+  id: string;
+  /** Local state of each role */
+  configuration: Record<string, string>;
+  /** Every role can terminate here */
+  final: boolean;
+  /** Role choosing between the outgoing interactions */
+  chooser?: string;
+  /** Some interactions enabled here are concurrent with those drawn, and postponed */
+  concurrent?: boolean;
+}
+
+export interface GlobalGraphEdge {
+  from: string;
+  to: string;
+  sender: string;
+  receivers: string[];
+  message: string;
+  /** `A → B: m` */
+  label: string;
+}
+
+/**
+ * Synthesize the global graph of a system from its transition system
+ */
+export function synthesizeGlobalGraph(ts: SynchronousTS): GlobalGraph {
+  const nodes: GlobalGraphNode[] = [];
+  const edges: GlobalGraphEdge[] = [];
+  const ids = new Map<number, GlobalGraphNode>();
+  const queue: number[] = [];
+
+  const nodeOf = (configuration: number): string => {
+    let node = ids.get(configuration);
+    if (!node) {
+      node = {
+        id: `g${ids.size}`,
+        configuration: ts.configurations[configuration].states,
+        final: isFinal(ts, configuration),
+      };
+      ids.set(configuration, node);
+      nodes.push(node);
+      queue.push(configuration);
+    }
+    return node.id;
+  };
+
+  const initial = nodeOf(0);
+
+  while (queue.length > 0) {
+    const configuration = queue.shift()!;
+    const node = ids.get(configuration)!;
+
+    const out = ts.edges[configuration];
+    const drawn = alternatives(ts, out);
+    const closesLoop = drawn.every(edge => ids.has(edge.to));
+    const taken = closesLoop ? out : drawn;
+
+    if (drawn.length < out.length) node.concurrent = true;
+    if (drawn.length > 1 && new Set(drawn.map(edge => edge.interaction.sender)).size === 1) {
+      node.chooser = drawn[0].interaction.sender;
+    }
+
+    for (const { interaction, to } of taken) {
+      edges.push({
+        from: node.id,
+        to: nodeOf(to),
+        sender: interaction.sender,
+        receivers: interaction.receivers,
+        message: interaction.message,
+        label: formatInteraction(interaction),
+      });
+    }
+  }
+
+  return { roles: ts.roles, initial, nodes, edges };
+}
+
+/**
+ * The first interaction and, transitively, every one that does not commute
+ * with those already taken
+ */
+function alternatives(ts: SynchronousTS, out: TSEdge[]): TSEdge[] {
+  if (out.length === 0) return [];
+  const taken = [out[0]];
+  let rest = out.slice(1);
+  let changed = true;
+  while (changed) {
+    const dependent = rest.filter(edge => taken.some(other => !isConcurrent(ts, edge, other)));
+    changed = dependent.length > 0;
+    taken.push(...dependent);
+    rest = rest.filter(edge => !dependent.includes(edge));
+  }
+  return taken;
+}
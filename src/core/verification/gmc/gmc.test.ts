@@ -0,0 +1,187 @@
+/**
+ * Generalised Multiparty Compatibility Tests
+ *
+ * Tests the GMC check on systems of CFSMs (Lange, Tuosto & Yoshida, POPL 2015):
+ * - Projections of well-formed protocols are GMC
+ * - Hand-written machines are checked without a global protocol
+ * - Representability, branching and deadlock violations, with traces
+ * - Global graph synthesis: choices, and concurrent interactions folded
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parse } from '../../parser/parser';
+import { buildCFG } from '../../cfg/builder';
+import { projectAll } from '../../projection/projector';
+import type { GlobalProtocolDeclaration } from '../../ast/types';
+import type { CFSM, CFSMTransition } from '../../projection/types';
+import { checkGMC, formatInteraction } from './index';
+
+/**
+ * Helper: Create a CFSM from its transitions, written `q0 -B!Msg-> q1`
+ * (initial q0, terminal qf)
+ */
+function machine(role: string, ...transitions: string[]): CFSM {
+  const parsed = transitions.map((line, i): CFSMTransition => {
+    const [, from, peer, direction, label, to] = line.match(/^(\w+) -(\w+)([!?])(\w+)-> (\w+)$/)!;
+    const message = { type: 'Message' as const, label };
+    return {
+      id: `t${i}`,
+      from,
+      to,
+      action: direction === '!'
+        ? { type: 'send', to: peer, message }
+        : { type: 'receive', from: peer, message },
+    };
+  });
+  const states = new Set(['q0', 'qf', ...parsed.flatMap(t => [t.from, t.to])]);
+  return {
+    role,
+    protocolName: 'System',
+    parameters: [],
+    states: [...states].map(id => ({ id })),
+    transitions: parsed,
+    initialState: 'q0',
+    terminalStates: ['qf'],
+  };
+}
+
+function projections(source: string): Map<string, CFSM> {
+  const cfg = buildCFG(parse(source).declarations[0] as GlobalProtocolDeclaration);
+  return projectAll(cfg).cfsms;
+}
+
+describe('GMC - Compatible Systems', () => {
+  it('should accept the projections of a protocol and rebuild its interactions', () => {
+    const result = checkGMC(projections(`protocol Login(role Client, role Server) {
+  Client -> Server: Credentials(String);
+  choice at Server {
+    Server -> Client: Welcome();
+  } or {
+    Server -> Client: Denied();
+  }
+}`));
+
+    expect(result.gmc).toBe(true);
+    expect(result.violations).toEqual([]);
+
+    const graph = result.globalGraph!;
+    expect(graph.edges.map(e => e.label)).toEqual([
+      'Client → Server: Credentials',
+      'Server → Client: Welcome',
+      'Server → Client: Denied',
+    ]);
+    expect(graph.nodes.find(n => n.chooser)?.chooser).toBe('Server');
+    expect(graph.nodes.filter(n => n.final)).toHaveLength(2);
+  });
+
+  it('should check hand-written machines with no global protocol', () => {
+    // Each team owns one machine: a client polling a server until it is done
+    const client = machine('Client',
+      'q0 -Server!Poll-> q1',
+      'q1 -Server?Pending-> q0',
+      'q1 -Server?Ready-> qf'
+    );
+    const server = machine('Server',
+      'q0 -Client?Poll-> q1',
+      'q1 -Client!Pending-> q0',
+      'q1 -Client!Ready-> qf'
+    );
+
+    const result = checkGMC([client, server]);
+
+    expect(result.gmc).toBe(true);
+    expect(result.globalGraph!.edges.map(e => `${e.from} ${e.label} ${e.to}`)).toEqual([
+      'g0 Client → Server: Poll g1',
+      'g1 Server → Client: Pending g0',
+      'g1 Server → Client: Ready g2',
+    ]);
+  });
+
+  it('should fold concurrent interactions into one order', () => {
+    // The coordinator takes the two votes in either order
+    const coordinator = machine('Coordinator',
+      'q0 -P1?Vote-> q1', 'q1 -P2?Vote-> qf',
+      'q0 -P2?Vote-> q2', 'q2 -P1?Vote-> qf'
+    );
+    const p1 = machine('P1', 'q0 -Coordinator!Vote-> qf');
+    const p2 = machine('P2', 'q0 -Coordinator!Vote-> qf');
+
+    const result = checkGMC([coordinator, p1, p2]);
+
+    expect(result.gmc).toBe(true);
+    expect(result.transitionSystem.interactions).toBe(4);
+    const graph = result.globalGraph!;
+    expect(graph.nodes[0].concurrent).toBe(true);
+    expect(graph.edges.map(e => e.label)).toEqual(['P1 → Coordinator: Vote', 'P2 → Coordinator: Vote']);
+  });
+});
+
+describe('GMC - Violations', () => {
+  it('should reject a machine with a branch no run of the system takes', () => {
+    const a = machine('A', 'q0 -B!Data-> qf');
+    const b = machine('B', 'q0 -A?Data-> qf', 'q0 -A?Extra-> qf');
+
+    const result = checkGMC([a, b]);
+
+    expect(result.gmc).toBe(false);
+    expect(result.representable).toBe(false);
+    expect(result.globalGraph).toBeUndefined();
+    expect(result.violations[0]).toMatchObject({
+      type: 'representability',
+      roles: ['B'],
+      localTrace: ['A?Extra'],
+    });
+  });
+
+  it('should reject a choice a third role cannot learn', () => {
+    // A picks Left or Right with B; C is told Go either way, but must
+    // answer Ack after Left and Nack after Right
+    const a = machine('A',
+      'q0 -B!Left-> q1', 'q1 -C!Go-> q2', 'q2 -C?Ack-> qf',
+      'q0 -B!Right-> q3', 'q3 -C!Go-> q4', 'q4 -C?Nack-> qf'
+    );
+    const b = machine('B', 'q0 -A?Left-> qf', 'q0 -A?Right-> qf');
+    const c = machine('C', 'q0 -A?Go-> q1', 'q1 -A!Ack-> qf', 'q1 -A!Nack-> qf');
+
+    const result = checkGMC([a, b, c]);
+
+    expect(result.branching).toBe(false);
+    const violation = result.violations.find(v => v.type === 'branching')!;
+    expect(violation.roles).toEqual(['C']);
+    expect(violation.message).toContain('A?Go');
+    expect(violation.trace).toEqual([]);
+  });
+
+  it('should reject interactions of different senders that do not commute', () => {
+    // A and B both start by sending to each other
+    const a = machine('A', 'q0 -B!Ping-> q1', 'q1 -B?Pong-> qf', 'q0 -B?Pong-> q2', 'q2 -B!Ping-> qf');
+    const b = machine('B', 'q0 -A?Ping-> q1', 'q1 -A!Pong-> qf', 'q0 -A!Pong-> q2', 'q2 -A?Ping-> q3');
+
+    const result = checkGMC([a, b]);
+
+    const violation = result.violations.find(v => v.type === 'branching')!;
+    expect(violation.message).toContain('neither concurrent nor a choice of one role');
+  });
+
+  it('should report a deadlock with the interactions leading to it', () => {
+    const a = machine('A', 'q0 -B!Hello-> q1', 'q1 -B?Reply-> qf');
+    const b = machine('B', 'q0 -A?Hello-> q1', 'q1 -A?Done-> qf');
+
+    const result = checkGMC([a, b]);
+
+    expect(result.deadlockFree).toBe(false);
+    const deadlock = result.violations.find(v => v.type === 'deadlock')!;
+    expect(deadlock.roles).toEqual(['A', 'B']);
+    expect(deadlock.trace.map(formatInteraction)).toEqual(['A → B: Hello']);
+    expect(deadlock.configuration).toEqual({ A: 'q1', B: 'q1' });
+  });
+
+  it('should not accept a system it could not fully explore', () => {
+    const result = checkGMC(projections(`protocol Steps(role A, role B) {
+  A -> B: One(); A -> B: Two(); A -> B: Three();
+}`), { maxStates: 2 });
+
+    expect(result.transitionSystem.complete).toBe(false);
+    expect(result.gmc).toBe(false);
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * Generalised Multiparty Compatibility (GMC)
+ *
+ * Checks a system of CFSMs directly, without a global protocol: a system
+ * that is GMC behaves as the projections of some global graph, which is
+ * synthesised from its synchronous transition system TS(S).
+ *
+ * REPRESENTABILITY (Definition 3.4):
+ * (i)  every machine has exactly the traces of TS(S) projected on its role
+ * (ii) every branch of a machine is taken in some run of TS(S): for each
+ *      local state q and each action q may perform, some reachable
+ *      configuration with the machine at q performs that action
+ *
+ * BRANCHING PROPERTY (Definition 3.5): two different interactions enabled
+ * in the same configuration are either
+ * - concurrent: they commute, each one still enabled after the other and
+ *   both orders reaching the same configuration, or
+ * - a choice of their common sender A, after which every other role B
+ *   either behaves the same on both sides, or learns the choice by
+ *   receiving different messages first
+ *
+ * A configuration where some role has not terminated and no interaction is
+ * enabled is reported as a deadlock.
+ *
+ * Each violation carries the interactions leading to where it occurs.
+ *
+ * @reference Lange, J., Tuosto, E., & Yoshida, N. (2015). From Communicating
+ *            Machines to Graphical Choreographies. POPL 2015.
+ */
+
+import type { CFSM } from '../../projection/types';
+import {
+  buildSynchronousTS,
+  canTerminate,
+  formatInteraction,
+  isConcurrent,
+  isFinal,
+  localLabel,
+  localMoves,
+  machineAutomaton,
+  pathTo,
+  projectedAutomaton,
+  roleLabel,
+  traceDifference,
+  type Interaction,
+  type SynchronousTS,
+  type TSEdge,
+} from './transition-system';
+import { synthesizeGlobalGraph, type GlobalGraph } from './global-graph';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type GMCViolationType = 'representability' | 'branching' | 'deadlock';
+
+export interface GMCViolation {
+  type: GMCViolationType;
+  message: string;
+  /** Roles at fault */
+  roles: string[];
+  /** Interactions from the initial configuration to the violation */
+  trace: Interaction[];
+  /** Local states of the configuration where it occurs */
+  configuration?: Record<string, string>;
+  /** Local trace a machine has and the system does not, or the reverse */
+  localTrace?: string[];
+}
+
+export interface GMCOptions {
+  /** Maximum configurations of TS(S) to explore (default: 10000) */
+  maxStates?: number;
+}
+
+export interface GMCResult {
+  /** Whether the system is generalised multiparty compatible */
+  gmc: boolean;
+  representable: boolean;
+  branching: boolean;
+  deadlockFree: boolean;
+  violations: GMCViolation[];
+  /** Global graph of the system (only when it is GMC) */
+  globalGraph?: GlobalGraph;
+  transitionSystem: {
+    configurations: number;
+    interactions: number;
+    /** False if exploration stopped at maxStates (results are partial) */
+    complete: boolean;
+  };
+}
+
+// ============================================================================
+// GMC Check
+// ============================================================================
+
+/**
+ * Check generalised multiparty compatibility of a system of CFSMs
+ *
+ * @param cfsms - One machine per role (e.g. `projectAll(cfg).cfsms`)
+ */
+export function checkGMC(cfsms: CFSM[] | Map<string, CFSM>, options: GMCOptions = {}): GMCResult {
+  const ts = buildSynchronousTS(cfsms, options.maxStates ?? 10000);
+
+  const representability = checkRepresentability(ts);
+  const branching = checkBranchingProperty(ts);
+  const deadlocks = findDeadlocks(ts);
+  const gmc = ts.complete && representability.length === 0 && branching.length === 0 && deadlocks.length === 0;
+
+  return {
+    gmc,
+    representable: representability.length === 0,
+    branching: branching.length === 0,
+    deadlockFree: deadlocks.length === 0,
+    violations: [...representability, ...branching, ...deadlocks],
+    ...(gmc && { globalGraph: synthesizeGlobalGraph(ts) }),
+    transitionSystem: {
+      configurations: ts.configurations.length,
+      interactions: ts.edges.reduce((sum, out) => sum + out.length, 0),
+      complete: ts.complete,
+    },
+  };
+}
+
+/**
+ * Representability (i) and (ii)
+ */
+export function checkRepresentability(ts: SynchronousTS): GMCViolation[] {
+  const violations: GMCViolation[] = [];
+
+  for (const role of ts.roles) {
+    const machine = ts.machines.get(role)!;
+
+    // (i) Same traces as the projection of TS(S)
+    const difference = traceDifference(
+      machineAutomaton(machine), machine.initialState,
+      projectedAutomaton(ts, role), 0
+    );
+    if (difference) {
+      const trace = difference.trace.join(' · ');
+      violations.push({
+        type: 'representability',
+        message: difference.onlyIn === 'left'
+          ? `${role} can perform ${trace}, but no run of the system lets it`
+          : `The system lets ${role} perform ${trace}, but its machine cannot`,
+        roles: [role],
+        trace: [],
+        localTrace: difference.trace,
+      });
+      continue;
+    }
+
+    // (ii) Every branch is taken from some configuration
+    const taken = new Set<string>();
+    const occurs = new Map<string, number>();
+    ts.configurations.forEach(({ states }, id) => {
+      if (!occurs.has(states[role])) occurs.set(states[role], id);
+      for (const edge of ts.edges[id]) {
+        const transition = edge.interaction.transitions[role];
+        if (transition) taken.add(`${states[role]}|${transition}`);
+      }
+    });
+
+    for (const [state, id] of occurs) {
+      for (const move of localMoves(machine, state)) {
+        if (taken.has(`${state}|${move.id}`)) continue;
+        violations.push({
+          type: 'representability',
+          message: `${role} can perform ${localLabel(move)} at ${state}, but no run of the system takes that branch`,
+          roles: [role],
+          trace: pathTo(ts, id),
+          configuration: ts.configurations[id].states,
+        });
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Branching property: every pair of enabled interactions is concurrent or a
+ * well-branched choice
+ */
+export function checkBranchingProperty(ts: SynchronousTS): GMCViolation[] {
+  const violations: GMCViolation[] = [];
+
+  ts.edges.forEach((out, id) => {
+    for (let i = 0; i < out.length; i++) {
+      for (let j = i + 1; j < out.length; j++) {
+        const violation = checkPair(ts, id, out[i], out[j]);
+        if (violation) violations.push(violation);
+      }
+    }
+  });
+
+  return violations;
+}
+
+function checkPair(ts: SynchronousTS, id: number, left: TSEdge, right: TSEdge): GMCViolation | undefined {
+  const a = left.interaction;
+  const b = right.interaction;
+  const at = {
+    trace: pathTo(ts, id),
+    configuration: ts.configurations[id].states,
+  };
+
+  if (isConcurrent(ts, left, right)) return undefined;
+
+  if (a.sender !== b.sender) {
+    const participants = new Set([a.sender, ...a.receivers]);
+    const shared = [b.sender, ...b.receivers].filter(role => participants.has(role));
+    return {
+      type: 'branching',
+      message: `${formatInteraction(a)} and ${formatInteraction(b)} are both enabled, but they are neither concurrent nor a choice of one role`,
+      roles: shared.length > 0 ? shared : [a.sender, b.sender],
+      ...at,
+    };
+  }
+
+  // Same interaction, different transitions: nondeterminism, not a choice
+  if (formatInteraction(a) === formatInteraction(b)) return undefined;
+
+  // A choice of the sender: every other role must behave the same after
+  // both branches, or learn the branch by what it receives first
+  for (const role of ts.roles) {
+    if (role === a.sender) continue;
+
+    const difference = traceDifference(
+      projectedAutomaton(ts, role), left.to,
+      projectedAutomaton(ts, role), right.to
+    );
+    const same = !difference &&
+      roleLabel(a, role) === roleLabel(b, role);
+    if (same) continue;
+
+    const first = [firstActions(ts, role, left), firstActions(ts, role, right)];
+    const send = first.flat().find(label => label.includes('!'));
+    if (send) {
+      return {
+        type: 'branching',
+        message: `${role} behaves differently after ${a.sender} chooses between ${formatInteraction(a)} and ${formatInteraction(b)}, but sends ${send} before learning which`,
+        roles: [role],
+        ...at,
+      };
+    }
+
+    const ambiguous = first[0].filter(label => first[1].includes(label));
+    if (ambiguous.length > 0) {
+      return {
+        type: 'branching',
+        message: `${role} behaves differently after ${a.sender} chooses between ${formatInteraction(a)} and ${formatInteraction(b)}, but can receive ${ambiguous.join(', ')} first in both`,
+        roles: [role],
+        ...at,
+      };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * First actions of a role along the runs that start with an edge
+ */
+function firstActions(ts: SynchronousTS, role: string, edge: TSEdge): string[] {
+  const own = roleLabel(edge.interaction, role);
+  if (own) return [own];
+
+  const actions = new Set<string>();
+  const seen = new Set([edge.to]);
+  const stack = [edge.to];
+  while (stack.length > 0) {
+    for (const next of ts.edges[stack.pop()!]) {
+      const label = roleLabel(next.interaction, role);
+      if (label) {
+        actions.add(label);
+      } else if (!seen.has(next.to)) {
+        seen.add(next.to);
+        stack.push(next.to);
+      }
+    }
+  }
+  return [...actions];
+}
+
+/**
+ * Configurations with no interaction where some role has not terminated
+ */
+function findDeadlocks(ts: SynchronousTS): GMCViolation[] {
+  const violations: GMCViolation[] = [];
+
+  ts.configurations.forEach(({ states }, id) => {
+    if (ts.edges[id].length > 0 || isFinal(ts, id)) return;
+    const waiting = ts.roles.filter(role => !canTerminate(ts.machines.get(role)!, states[role]));
+    violations.push({
+      type: 'deadlock',
+      message: `Deadlock at ${ts.roles.map(role => `${role}@${states[role]}`).join(', ')}: no interaction is enabled`,
+      roles: waiting,
+      trace: pathTo(ts, id),
+      configuration: states,
+    });
+  });
+
+  return violations;
+}
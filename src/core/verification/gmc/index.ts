@@ -0,0 +1,37 @@
+/**
+ * GMC Verification Module
+ *
+ * Checks systems of CFSMs bottom-up, without a global protocol, by
+ * generalised multiparty compatibility from Lange, Tuosto & Yoshida
+ * (POPL 2015). The machines may come from `projectAll` or be written by
+ * hand, one per team or service.
+ *
+ * - Synchronous transition system TS(S) (transition-system.ts)
+ * - Representability and branching property (gmc.ts)
+ * - Global graph synthesis (global-graph.ts)
+ *
+ * Usage:
+ * ```typescript
+ * import { checkGMC } from './verification/gmc';
+ *
+ * const result = checkGMC([clientMachine, serverMachine]);
+ * if (result.gmc) {
+ *   console.log(result.globalGraph!.edges.map(e => e.label));
+ * } else {
+ *   console.log(result.violations.map(v => v.message));
+ * }
+ * ```
+ */
+
+export {
+  checkGMC,
+  checkRepresentability,
+  checkBranchingProperty,
+} from './gmc';
+export type { GMCViolation, GMCViolationType, GMCOptions, GMCResult } from './gmc';
+
+export { buildSynchronousTS, pathTo, formatInteraction } from './transition-system';
+export type { Interaction, Configuration, TSEdge, SynchronousTS } from './transition-system';
+
+export { synthesizeGlobalGraph } from './global-graph';
+export type { GlobalGraph, GlobalGraphNode, GlobalGraphEdge } from './global-graph';
@@ -0,0 +1,353 @@
+/**
+ * Synchronous Transition System of a CFSM System
+ *
+ * TS(S) has a configuration for each tuple of local states reachable by
+ * synchronous interactions: A → B: m fires when A can send m to B and B can
+ * receive m from A, and both move together. A multicast A → B, C: m fires
+ * when every receiver can receive it.
+ *
+ * Silent transitions (τ, internal choice, sub-protocol calls) are not
+ * interactions: a machine may take them at any time, so the moves of a
+ * local state are the sends and receives of every state in its τ-closure,
+ * and a local state is final if its τ-closure holds a terminal state.
+ *
+ * Traces of a machine, and projections of TS(S) on a role, are compared as
+ * prefix-closed languages over local actions `B!m` and `A?m`.
+ *
+ * @reference Lange, J., Tuosto, E., & Yoshida, N. (2015). From Communicating
+ *            Machines to Graphical Choreographies. POPL 2015, §3.
+ */
+
+import type { CFSM, CFSMTransition, ReceiveAction, SendAction } from '../../projection/types';
+
+/**
+ * A synchronous interaction: one send and its receives
+ */
+export interface Interaction {
+  sender: string;
+  receivers: string[];
+  message: string;
+  /** Transition taken by each participant, by role */
+  transitions: Record<string, string>;
+}
+
+/**
+ * A configuration of the system: the local state of each role
+ */
+export interface Configuration {
+  id: number;
+  states: Record<string, string>;
+}
+
+export interface TSEdge {
+  interaction: Interaction;
+  to: number;
+}
+
+export interface SynchronousTS {
+  /** Roles, in the order the machines were given */
+  roles: string[];
+  machines: Map<string, CFSM>;
+  /** Configurations; the initial one is 0 */
+  configurations: Configuration[];
+  /** Outgoing interactions of each configuration */
+  edges: TSEdge[][];
+  /** Configuration each one was first reached from, and how (BFS tree) */
+  parents: Array<{ from: number; interaction: Interaction } | undefined>;
+  /** False if exploration stopped at maxStates */
+  complete: boolean;
+}
+
+/**
+ * Build the synchronous transition system of a set of CFSMs
+ */
+export function buildSynchronousTS(
+  cfsms: CFSM[] | Map<string, CFSM>,
+  maxStates: number = 10000
+): SynchronousTS {
+  const machines = new Map([...cfsms.values()].map(cfsm => [cfsm.role, cfsm]));
+  const roles = [...machines.keys()];
+
+  const configurations: Configuration[] = [];
+  const edges: TSEdge[][] = [];
+  const parents: SynchronousTS['parents'] = [];
+  const ids = new Map<string, number>();
+  let complete = true;
+
+  const configurationOf = (states: Record<string, string>): number | undefined => {
+    const key = roles.map(role => states[role]).join('|');
+    let id = ids.get(key);
+    if (id === undefined) {
+      if (configurations.length >= maxStates) {
+        complete = false;
+        return undefined;
+      }
+      id = configurations.length;
+      ids.set(key, id);
+      configurations.push({ id, states });
+      edges.push([]);
+    }
+    return id;
+  };
+
+  configurationOf(Object.fromEntries(roles.map(role => [role, machines.get(role)!.initialState])));
+  parents.push(undefined);
+
+  for (let i = 0; i < configurations.length; i++) {
+    const { states } = configurations[i];
+
+    for (const interaction of enabledInteractions(machines, states)) {
+      const next = { ...states };
+      for (const [role, transitionId] of Object.entries(interaction.transitions)) {
+        next[role] = machines.get(role)!.transitions.find(t => t.id === transitionId)!.to;
+      }
+
+      const before = configurations.length;
+      const to = configurationOf(next);
+      if (to === undefined) continue;
+      if (configurations.length > before) parents.push({ from: i, interaction });
+      edges[i].push({ interaction, to });
+    }
+  }
+
+  return { roles, machines, configurations, edges, parents, complete };
+}
+
+/**
+ * Interactions from the initial configuration to a configuration
+ */
+export function pathTo(ts: SynchronousTS, id: number): Interaction[] {
+  const path: Interaction[] = [];
+  for (let parent = ts.parents[id]; parent; parent = ts.parents[parent.from]) {
+    path.unshift(parent.interaction);
+  }
+  return path;
+}
+
+/**
+ * Whether two interactions enabled in the same configuration commute: each
+ * is still enabled after the other, and both orders reach the same
+ * configuration
+ */
+export function isConcurrent(ts: SynchronousTS, left: TSEdge, right: TSEdge): boolean {
+  const after = (edge: TSEdge, other: TSEdge) =>
+    ts.edges[edge.to].filter(next => sameInteraction(next.interaction, other.interaction)).map(next => next.to);
+  const viaLeft = after(left, right);
+  return viaLeft.length > 0 && after(right, left).some(to => viaLeft.includes(to));
+}
+
+function sameInteraction(a: Interaction, b: Interaction): boolean {
+  return formatInteraction(a) === formatInteraction(b);
+}
+
+/**
+ * Whether every role of a configuration can terminate silently
+ */
+export function isFinal(ts: SynchronousTS, id: number): boolean {
+  const { states } = ts.configurations[id];
+  return ts.roles.every(role => canTerminate(ts.machines.get(role)!, states[role]));
+}
+
+function enabledInteractions(machines: Map<string, CFSM>, states: Record<string, string>): Interaction[] {
+  const interactions: Interaction[] = [];
+
+  for (const [sender, machine] of machines) {
+    for (const send of localMoves(machine, states[sender])) {
+      if (send.action.type !== 'send') continue;
+      const action = send.action as SendAction;
+      const receivers = Array.isArray(action.to) ? action.to : [action.to];
+      const message = action.message.label;
+
+      // One receive per receiver; a receiver with several matching receives
+      // yields one interaction for each
+      let choices: Array<Record<string, string>> = [{ [sender]: send.id }];
+      for (const receiver of receivers) {
+        const receiverMachine = machines.get(receiver);
+        const receives = receiverMachine
+          ? localMoves(receiverMachine, states[receiver]).filter(t =>
+              t.action.type === 'receive' &&
+              (t.action as ReceiveAction).from === sender &&
+              (t.action as ReceiveAction).message.label === message
+            )
+          : [];
+        choices = choices.flatMap(chosen => receives.map(t => ({ ...chosen, [receiver]: t.id })));
+      }
+
+      for (const transitions of choices) {
+        interactions.push({ sender, receivers, message, transitions });
+      }
+    }
+  }
+
+  return interactions;
+}
+
+// ============================================================================
+// Local Moves
+// ============================================================================
+
+/**
+ * Whether a transition is a send or receive (anything else is silent)
+ */
+export function isVisible(transition: CFSMTransition): boolean {
+  return transition.action.type === 'send' || transition.action.type === 'receive';
+}
+
+/**
+ * States reachable from a state by silent transitions (including itself)
+ */
+export function tauClosure(machine: CFSM, state: string): Set<string> {
+  const closure = new Set([state]);
+  const stack = [state];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    for (const t of machine.transitions) {
+      if (t.from === current && !isVisible(t) && !closure.has(t.to)) {
+        closure.add(t.to);
+        stack.push(t.to);
+      }
+    }
+  }
+  return closure;
+}
+
+/**
+ * Whether a machine can reach a terminal state from a state by silent steps
+ */
+export function canTerminate(machine: CFSM, state: string): boolean {
+  return [...tauClosure(machine, state)].some(s => machine.terminalStates.includes(s));
+}
+
+/**
+ * Sends and receives a machine can perform from a state, after any silent steps
+ */
+export function localMoves(machine: CFSM, state: string): CFSMTransition[] {
+  const closure = tauClosure(machine, state);
+  return machine.transitions.filter(t => closure.has(t.from) && isVisible(t));
+}
+
+/**
+ * Local action of a transition: `B!m` for a send to B, `A?m` for a receive from A
+ */
+export function localLabel(transition: CFSMTransition): string {
+  const action = transition.action;
+  if (action.type === 'send') {
+    return `${Array.isArray(action.to) ? action.to.join(',') : action.to}!${action.message.label}`;
+  }
+  if (action.type === 'receive') return `${action.from}?${action.message.label}`;
+  return action.type;
+}
+
+/**
+ * Action of a role in an interaction, as a local action label
+ */
+export function roleLabel(interaction: Interaction, role: string): string | undefined {
+  if (interaction.sender === role) return `${interaction.receivers.join(',')}!${interaction.message}`;
+  if (interaction.receivers.includes(role)) return `${interaction.sender}?${interaction.message}`;
+  return undefined;
+}
+
+export function formatInteraction(interaction: Interaction): string {
+  return `${interaction.sender} → ${interaction.receivers.join(', ')}: ${interaction.message}`;
+}
+
+// ============================================================================
+// Trace Languages
+// ============================================================================
+
+/**
+ * A labelled transition system with silent steps (label undefined)
+ */
+interface Automaton<S> {
+  key(state: S): string;
+  steps(state: S): Array<{ label?: string; to: S }>;
+}
+
+/**
+ * Shortest trace one automaton can perform and the other cannot, or
+ * undefined if both have the same traces (prefix-closed languages)
+ */
+export function traceDifference<S, T>(
+  left: Automaton<S>,
+  leftStart: S,
+  right: Automaton<T>,
+  rightStart: T
+): { trace: string[]; onlyIn: 'left' | 'right' } | undefined {
+  const start: [S[], T[]] = [closure(left, [leftStart]), closure(right, [rightStart])];
+  const seen = new Set([pairKey(left, right, start)]);
+  const queue: Array<{ sets: [S[], T[]]; trace: string[] }> = [{ sets: start, trace: [] }];
+
+  while (queue.length > 0) {
+    const { sets: [ls, rs], trace } = queue.shift()!;
+    const leftMoves = labelledMoves(left, ls);
+    const rightMoves = labelledMoves(right, rs);
+
+    for (const label of new Set([...leftMoves.keys(), ...rightMoves.keys()])) {
+      const l = leftMoves.get(label);
+      const r = rightMoves.get(label);
+      if (!l) return { trace: [...trace, label], onlyIn: 'right' };
+      if (!r) return { trace: [...trace, label], onlyIn: 'left' };
+
+      const next: [S[], T[]] = [closure(left, l), closure(right, r)];
+      const key = pairKey(left, right, next);
+      if (!seen.has(key)) {
+        seen.add(key);
+        queue.push({ sets: next, trace: [...trace, label] });
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * The machine of a role, as an automaton over its local actions
+ */
+export function machineAutomaton(machine: CFSM): Automaton<string> {
+  return {
+    key: state => state,
+    steps: state => machine.transitions
+      .filter(t => t.from === state)
+      .map(t => ({ label: isVisible(t) ? localLabel(t) : undefined, to: t.to })),
+  };
+}
+
+/**
+ * TS(S) seen by one role: its interactions are its local actions, all
+ * others are silent
+ */
+export function projectedAutomaton(ts: SynchronousTS, role: string): Automaton<number> {
+  return {
+    key: id => String(id),
+    steps: id => ts.edges[id].map(edge => ({ label: roleLabel(edge.interaction, role), to: edge.to })),
+  };
+}
+
+function closure<S>(automaton: Automaton<S>, states: S[]): S[] {
+  const result = new Map(states.map(s => [automaton.key(s), s]));
+  const stack = [...states];
+  while (stack.length > 0) {
+    for (const { label, to } of automaton.steps(stack.pop()!)) {
+      const key = automaton.key(to);
+      if (label === undefined && !result.has(key)) {
+        result.set(key, to);
+        stack.push(to);
+      }
+    }
+  }
+  return [...result.values()];
+}
+
+function labelledMoves<S>(automaton: Automaton<S>, states: S[]): Map<string, S[]> {
+  const moves = new Map<string, S[]>();
+  for (const state of states) {
+    for (const { label, to } of automaton.steps(state)) {
+      if (label !== undefined) moves.set(label, [...(moves.get(label) ?? []), to]);
+    }
+  }
+  return moves;
+}
+
+function pairKey<S, T>(left: Automaton<S>, right: Automaton<T>, [ls, rs]: [S[], T[]]): string {
+  return `${ls.map(s => left.key(s)).sort().join(',')}/${rs.map(s => right.key(s)).sort().join(',')}`;
+}
@@ -0,0 +1,209 @@
+/**
+ * LTL to Generalised Büchi Automata
+ *
+ * Tableau construction of Gerth, Peled, Vardi & Wolper: a formula in
+ * negation normal form is expanded into nodes, each a set of formulas that
+ * must hold now (`old`) and from the next position on (`next`). Nodes with
+ * the same obligations are merged, so the automaton is built on the fly.
+ *
+ * - States: the nodes; a run entering a node must satisfy its literals
+ * - Initial: the nodes expanded from the formula itself
+ * - Acceptance: one set per φ U ψ subformula, of the nodes that do not
+ *   promise it or already fulfil it (ψ holds). An accepting run visits
+ *   every set infinitely often, so no until is postponed forever.
+ *
+ * @reference Gerth, R., Peled, D., Vardi, M. Y., & Wolper, P. (1995). Simple
+ *            On-the-fly Automatic Verification of Linear Temporal Logic.
+ *            PSTV 1995.
+ */
+
+import type { LTLAtom, NNFFormula } from './formula';
+import { formatAtom } from './formula';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BuchiLiteral {
+  atom: LTLAtom;
+  negated: boolean;
+}
+
+export interface BuchiState {
+  id: number;
+  /** Literals a position must satisfy for a run to enter the state */
+  literals: BuchiLiteral[];
+}
+
+/**
+ * Generalised Büchi automaton: accepts the runs that visit each acceptance
+ * set infinitely often (every run, if there are no sets)
+ */
+export interface BuchiAutomaton {
+  states: BuchiState[];
+  /** States a run may start in */
+  initial: number[];
+  /** Successors of each state */
+  edges: number[][];
+  /** Acceptance sets, as state ids */
+  acceptance: number[][];
+}
+
+// ============================================================================
+// Construction
+// ============================================================================
+
+interface TableauNode {
+  /** Nodes this one is entered from (-1: the start of a run) */
+  incoming: Set<number>;
+  pending: Map<string, NNFFormula>;
+  old: Map<string, NNFFormula>;
+  next: Map<string, NNFFormula>;
+}
+
+const INIT = -1;
+
+/**
+ * Build a generalised Büchi automaton accepting the runs satisfying a
+ * formula in negation normal form
+ */
+export function buildBuchi(formula: NNFFormula): BuchiAutomaton {
+  const nodes: TableauNode[] = [];
+
+  const expand = (node: TableauNode): void => {
+    if (node.pending.size === 0) {
+      const same = nodes.find(other => sameKeys(other.old, node.old) && sameKeys(other.next, node.next));
+      if (same) {
+        node.incoming.forEach(id => same.incoming.add(id));
+        return;
+      }
+      const id = nodes.length;
+      nodes.push(node);
+      expand({ incoming: new Set([id]), pending: new Map(node.next), old: new Map(), next: new Map() });
+      return;
+    }
+
+    const [key, current] = node.pending.entries().next().value!;
+    node.pending.delete(key);
+    if (node.old.has(key)) return expand(node);
+
+    switch (current.type) {
+      case 'false':
+        return;
+      case 'true':
+        node.old.set(key, current);
+        return expand(node);
+      case 'atom': {
+        if (node.old.has(keyOf({ ...current, negated: !current.negated }))) return;
+        node.old.set(key, current);
+        return expand(node);
+      }
+      case 'and':
+        node.old.set(key, current);
+        return expand(withPending(node, [current.left, current.right]));
+      case 'next':
+        node.old.set(key, current);
+        node.next.set(keyOf(current.operand), current.operand);
+        return expand(node);
+      case 'or':
+      case 'until':
+      case 'release': {
+        node.old.set(key, current);
+        // φ ∨ ψ:   φ now, or ψ now
+        // φ U ψ:   φ now and φ U ψ next, or ψ now
+        // φ R ψ:   ψ now and φ R ψ next, or φ and ψ now
+        const [first, second] = current.type === 'release'
+          ? [[current.right], [current.left, current.right]]
+          : [[current.left], [current.right]];
+        const split = copy(node);
+        if (current.type !== 'or') split.next.set(key, current);
+        expand(withPending(split, first));
+        return expand(withPending(node, second));
+      }
+    }
+  };
+
+  expand({ incoming: new Set([INIT]), pending: new Map([[keyOf(formula), formula]]), old: new Map(), next: new Map() });
+
+  const states: BuchiState[] = nodes.map((node, id) => ({
+    id,
+    literals: [...node.old.values()]
+      .filter((f): f is Extract<NNFFormula, { type: 'atom' }> => f.type === 'atom')
+      .map(({ atom, negated }) => ({ atom, negated })),
+  }));
+
+  const edges = nodes.map((): number[] => []);
+  nodes.forEach((node, id) => {
+    for (const from of node.incoming) {
+      if (from !== INIT) edges[from].push(id);
+    }
+  });
+
+  const untils = subformulas(formula).flatMap(f => (f.type === 'until' ? [f] : []));
+  const acceptance = untils.map(until => {
+    const promise = keyOf(until);
+    const fulfilment = keyOf(until.right);
+    return nodes
+      .map((node, id) => (!node.old.has(promise) || node.old.has(fulfilment) ? id : -1))
+      .filter(id => id >= 0);
+  });
+
+  return {
+    states,
+    initial: nodes.map((node, id) => (node.incoming.has(INIT) ? id : -1)).filter(id => id >= 0),
+    edges,
+    acceptance,
+  };
+}
+
+function withPending(node: TableauNode, formulas: NNFFormula[]): TableauNode {
+  for (const formula of formulas) {
+    const key = keyOf(formula);
+    if (!node.old.has(key)) node.pending.set(key, formula);
+  }
+  return node;
+}
+
+function copy(node: TableauNode): TableauNode {
+  return {
+    incoming: new Set(node.incoming),
+    pending: new Map(node.pending),
+    old: new Map(node.old),
+    next: new Map(node.next),
+  };
+}
+
+function sameKeys(a: Map<string, NNFFormula>, b: Map<string, NNFFormula>): boolean {
+  return a.size === b.size && [...a.keys()].every(key => b.has(key));
+}
+
+/**
+ * Structural key of a formula
+ */
+function keyOf(formula: NNFFormula): string {
+  switch (formula.type) {
+    case 'true':
+    case 'false':
+      return formula.type;
+    case 'atom':
+      return `${formula.negated ? '!' : ''}${formatAtom(formula.atom)}`;
+    case 'next':
+      return `X(${keyOf(formula.operand)})`;
+    default:
+      return `(${keyOf(formula.left)} ${formula.type} ${keyOf(formula.right)})`;
+  }
+}
+
+function subformulas(formula: NNFFormula): NNFFormula[] {
+  switch (formula.type) {
+    case 'next':
+      return [formula, ...subformulas(formula.operand)];
+    case 'and':
+    case 'or':
+    case 'until':
+    case 'release':
+      return [formula, ...subformulas(formula.left), ...subformulas(formula.right)];
+    default:
+      return [formula];
+  }
+}
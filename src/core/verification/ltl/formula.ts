@@ -0,0 +1,342 @@
+/**
+ * LTL Formulas over Protocol Executions
+ *
+ * Atomic propositions are events of the last communication of a run, and
+ * the state the run has reached:
+ *
+ *   Buyer!Order     Buyer sent Order (to any receiver)
+ *   Seller?Order    Seller received Order (from any sender)
+ *   end             every role has terminated
+ *   true, false
+ *
+ * Operators, loosest first (binary temporal operators are right-associative):
+ *
+ *   φ <-> ψ                         equivalence
+ *   φ -> ψ                          implication (right-associative)
+ *   φ || ψ, φ | ψ                   disjunction
+ *   φ && ψ, φ & ψ                   conjunction
+ *   φ U ψ, φ R ψ, φ W ψ             until, release, weak until
+ *   !φ, X φ, F φ, G φ, <> φ, [] φ   negation, next, eventually, always
+ *
+ * Example: `G(Buyer!Order -> F Seller?Order)`
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LTLAtom =
+  | { type: 'send'; role: string; label: string }
+  | { type: 'receive'; role: string; label: string }
+  | { type: 'end' };
+
+export type LTLFormula =
+  | { type: 'true' }
+  | { type: 'false' }
+  | { type: 'atom'; atom: LTLAtom }
+  | { type: 'not'; operand: LTLFormula }
+  | { type: 'next'; operand: LTLFormula }
+  | { type: 'eventually'; operand: LTLFormula }
+  | { type: 'always'; operand: LTLFormula }
+  | { type: 'and' | 'or' | 'implies' | 'iff'; left: LTLFormula; right: LTLFormula }
+  | { type: 'until' | 'release' | 'weak-until'; left: LTLFormula; right: LTLFormula };
+
+/**
+ * Syntax error in a formula, at a line and column (1-based) of its text
+ */
+export class LTLSyntaxError extends Error {
+  constructor(message: string, public readonly column: number, public readonly line: number = 1) {
+    super(message);
+    this.name = 'LTLSyntaxError';
+  }
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+interface Token {
+  kind: 'atom' | 'word' | 'symbol' | 'eof';
+  text: string;
+  column: number;
+}
+
+const SYMBOLS = ['<->', '->', '&&', '||', '[]', '<>', '&', '|', '!', '(', ')'];
+const UNARY = new Map<string, 'not' | 'next' | 'eventually' | 'always'>([
+  ['!', 'not'], ['X', 'next'], ['F', 'eventually'], ['G', 'always'], ['<>', 'eventually'], ['[]', 'always'],
+]);
+const BINARY_TEMPORAL = new Map<string, 'until' | 'release' | 'weak-until'>([
+  ['U', 'until'], ['R', 'release'], ['W', 'weak-until'],
+]);
+const OPERATOR_WORDS = new Set(['X', 'F', 'G', 'U', 'R', 'W']);
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++;
+      continue;
+    }
+
+    const column = i + 1;
+    // `G!end` is always-not-end rather than an event of a role G
+    const event = /^([A-Za-z_]\w*)([!?])([A-Za-z_]\w*)/.exec(text.slice(i));
+    if (event && !(event[2] === '!' && OPERATOR_WORDS.has(event[1]))) {
+      tokens.push({ kind: 'atom', text: event[0], column });
+      i += event[0].length;
+      continue;
+    }
+
+    const word = /^[A-Za-z_]\w*/.exec(text.slice(i));
+    if (word) {
+      tokens.push({ kind: 'word', text: word[0], column });
+      i += word[0].length;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find(s => text.startsWith(s, i));
+    if (!symbol) throw new LTLSyntaxError(`Unexpected character '${text[i]}'`, column);
+    tokens.push({ kind: 'symbol', text: symbol, column });
+    i += symbol.length;
+  }
+
+  tokens.push({ kind: 'eof', text: '', column: text.length + 1 });
+  return tokens;
+}
+
+/**
+ * Parse an LTL formula
+ *
+ * @throws LTLSyntaxError if the text is not a formula
+ */
+export function parseLTL(text: string): LTLFormula {
+  const tokens = tokenize(text);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const accept = (...texts: string[]): boolean => {
+    const token = peek();
+    if (token.kind !== 'atom' && token.kind !== 'eof' && texts.includes(token.text)) {
+      position++;
+      return true;
+    }
+    return false;
+  };
+  const describe = (token: Token) => token.kind === 'eof' ? 'end of formula' : `'${token.text}'`;
+
+  const iff = (): LTLFormula => {
+    const left = implies();
+    return accept('<->') ? { type: 'iff', left, right: iff() } : left;
+  };
+
+  const implies = (): LTLFormula => {
+    const left = or();
+    return accept('->') ? { type: 'implies', left, right: implies() } : left;
+  };
+
+  const or = (): LTLFormula => {
+    let left = and();
+    while (accept('||', '|')) left = { type: 'or', left, right: and() };
+    return left;
+  };
+
+  const and = (): LTLFormula => {
+    let left = temporal();
+    while (accept('&&', '&')) left = { type: 'and', left, right: temporal() };
+    return left;
+  };
+
+  const temporal = (): LTLFormula => {
+    const left = unary();
+    const token = peek();
+    const operator = token.kind === 'word' ? BINARY_TEMPORAL.get(token.text) : undefined;
+    if (operator) {
+      position++;
+      return { type: operator, left, right: temporal() };
+    }
+    return left;
+  };
+
+  const unary = (): LTLFormula => {
+    const token = peek();
+    const operator = token.kind === 'atom' ? undefined : UNARY.get(token.text);
+    if (operator) {
+      position++;
+      return { type: operator, operand: unary() };
+    }
+    return primary();
+  };
+
+  const primary = (): LTLFormula => {
+    const token = peek();
+
+    if (token.kind === 'atom') {
+      position++;
+      const [, role, direction, label] = /^(\w+)([!?])(\w+)$/.exec(token.text)!;
+      return { type: 'atom', atom: { type: direction === '!' ? 'send' : 'receive', role, label } };
+    }
+
+    if (accept('(')) {
+      const formula = iff();
+      if (!accept(')')) throw new LTLSyntaxError(`Expected ')' but found ${describe(peek())}`, peek().column);
+      return formula;
+    }
+
+    if (token.kind === 'word' && !BINARY_TEMPORAL.has(token.text)) {
+      position++;
+      if (token.text === 'true') return { type: 'true' };
+      if (token.text === 'false') return { type: 'false' };
+      if (token.text === 'end') return { type: 'atom', atom: { type: 'end' } };
+      throw new LTLSyntaxError(
+        `Unknown proposition '${token.text}' (expected Role!Message, Role?Message, end, true or false)`,
+        token.column
+      );
+    }
+
+    throw new LTLSyntaxError(`Expected a formula but found ${describe(token)}`, token.column);
+  };
+
+  const formula = iff();
+  if (peek().kind !== 'eof') {
+    throw new LTLSyntaxError(`Unexpected ${describe(peek())} after formula`, peek().column);
+  }
+  return formula;
+}
+
+// ============================================================================
+// Printing
+// ============================================================================
+
+const PRECEDENCE: Record<LTLFormula['type'], number> = {
+  iff: 0, implies: 1, or: 2, and: 3, until: 4, release: 4, 'weak-until': 4,
+  not: 5, next: 5, eventually: 5, always: 5, atom: 6, true: 6, false: 6,
+};
+
+const OPERATORS: Record<string, string> = {
+  iff: '<->', implies: '->', or: '||', and: '&&', until: 'U', release: 'R', 'weak-until': 'W',
+  not: '!', next: 'X ', eventually: 'F ', always: 'G ',
+};
+
+export function formatAtom(atom: LTLAtom): string {
+  switch (atom.type) {
+    case 'send': return `${atom.role}!${atom.label}`;
+    case 'receive': return `${atom.role}?${atom.label}`;
+    case 'end': return 'end';
+  }
+}
+
+/**
+ * Print a formula, with the parentheses it needs to parse back the same
+ */
+export function formatLTL(formula: LTLFormula): string {
+  const wrap = (operand: LTLFormula, minimum: number) =>
+    PRECEDENCE[operand.type] < minimum ? `(${formatLTL(operand)})` : formatLTL(operand);
+
+  switch (formula.type) {
+    case 'true':
+    case 'false':
+      return formula.type;
+    case 'atom':
+      return formatAtom(formula.atom);
+    case 'not':
+    case 'next':
+    case 'eventually':
+    case 'always':
+      return `${OPERATORS[formula.type]}${wrap(formula.operand, PRECEDENCE.not)}`;
+    default: {
+      // Right-associative operators take an operand of the same level on
+      // the right, left-associative ones on the left
+      const level = PRECEDENCE[formula.type];
+      const rightAssociative = formula.type !== 'and' && formula.type !== 'or';
+      const left = wrap(formula.left, rightAssociative ? level + 1 : level);
+      const right = wrap(formula.right, rightAssociative ? level : level + 1);
+      return `${left} ${OPERATORS[formula.type]} ${right}`;
+    }
+  }
+}
+
+// ============================================================================
+// Negation Normal Form
+// ============================================================================
+
+/**
+ * Formulas with negation on atoms only, and no operators but ∧, ∨, X, U, R
+ */
+export type NNFFormula =
+  | { type: 'true' }
+  | { type: 'false' }
+  | { type: 'atom'; atom: LTLAtom; negated: boolean }
+  | { type: 'next'; operand: NNFFormula }
+  | { type: 'and' | 'or' | 'until' | 'release'; left: NNFFormula; right: NNFFormula };
+
+/**
+ * Rewrite a formula (or its negation) in negation normal form
+ *
+ *   F φ = true U φ      G φ = false R φ      φ W ψ = ψ R (φ ∨ ψ)
+ *   ¬(φ U ψ) = ¬φ R ¬ψ  ¬(φ R ψ) = ¬φ U ¬ψ   ¬X φ = X ¬φ
+ */
+export function toNegationNormalForm(formula: LTLFormula, negate = false): NNFFormula {
+  const nnf = toNegationNormalForm;
+
+  switch (formula.type) {
+    case 'true':
+    case 'false':
+      return { type: (formula.type === 'true') !== negate ? 'true' : 'false' };
+    case 'atom':
+      return { type: 'atom', atom: formula.atom, negated: negate };
+    case 'not':
+      return nnf(formula.operand, !negate);
+    case 'next':
+      return { type: 'next', operand: nnf(formula.operand, negate) };
+    case 'eventually':
+      return nnf({ type: 'until', left: { type: 'true' }, right: formula.operand }, negate);
+    case 'always':
+      return nnf({ type: 'release', left: { type: 'false' }, right: formula.operand }, negate);
+    case 'and':
+    case 'or': {
+      const type = (formula.type === 'and') !== negate ? 'and' : 'or';
+      return { type, left: nnf(formula.left, negate), right: nnf(formula.right, negate) };
+    }
+    case 'implies':
+      return nnf({ type: 'or', left: { type: 'not', operand: formula.left }, right: formula.right }, negate);
+    case 'iff':
+      return nnf({
+        type: 'and',
+        left: { type: 'implies', left: formula.left, right: formula.right },
+        right: { type: 'implies', left: formula.right, right: formula.left },
+      }, negate);
+    case 'until':
+    case 'release': {
+      const type = (formula.type === 'until') !== negate ? 'until' : 'release';
+      return { type, left: nnf(formula.left, negate), right: nnf(formula.right, negate) };
+    }
+    case 'weak-until':
+      return nnf({
+        type: 'release',
+        left: formula.right,
+        right: { type: 'or', left: formula.left, right: formula.right },
+      }, negate);
+  }
+}
+
+/**
+ * Atoms a formula mentions
+ */
+export function atomsOf(formula: LTLFormula): LTLAtom[] {
+  switch (formula.type) {
+    case 'true':
+    case 'false':
+      return [];
+    case 'atom':
+      return [formula.atom];
+    case 'not':
+    case 'next':
+    case 'eventually':
+    case 'always':
+      return atomsOf(formula.operand);
+    default:
+      return [...atomsOf(formula.left), ...atomsOf(formula.right)];
+  }
+}
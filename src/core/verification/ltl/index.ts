@@ -0,0 +1,37 @@
+/**
+ * LTL Verification Module
+ *
+ * Checks temporal properties of protocols, written in LTL over the events
+ * of their runs, on the global state space explored by the ContextReducer.
+ * Business-level requirements such as "every order reaches the seller"
+ * are beyond safety and deadlock freedom.
+ *
+ * - Formula syntax, printing and negation normal form (formula.ts)
+ * - Translation to generalised Büchi automata (buchi.ts)
+ * - Product construction, emptiness check and lasso counterexamples
+ *   (model-checker.ts)
+ * - Sidecar property files (properties.ts)
+ *
+ * Usage:
+ * ```typescript
+ * import { checkLTL, formatCounterexample } from './verification/ltl';
+ *
+ * const context = createInitialContext(projectAll(cfg).cfsms);
+ * const result = checkLTL(context, 'G(Buyer!Order -> F Seller?Order)');
+ * if (!result.holds) {
+ *   console.log(formatCounterexample(result.counterexample!));
+ * }
+ * ```
+ */
+
+export { checkLTL, formatCounterexample } from './model-checker';
+export type { LTLResult, LTLCounterexample } from './model-checker';
+
+export { parseLTL, formatLTL, formatAtom, toNegationNormalForm, atomsOf, LTLSyntaxError } from './formula';
+export type { LTLFormula, LTLAtom, NNFFormula } from './formula';
+
+export { buildBuchi } from './buchi';
+export type { BuchiAutomaton, BuchiState, BuchiLiteral } from './buchi';
+
+export { parseProperties } from './properties';
+export type { LTLProperty } from './properties';
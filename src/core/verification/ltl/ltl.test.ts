@@ -0,0 +1,182 @@
+/**
+ * LTL Model Checking Tests
+ *
+ * Tests temporal properties over the runs of protocols:
+ * - Formula syntax: precedence, printing, errors with their column
+ * - Properties that hold on every run, and lasso counterexamples of those
+ *   that fail (a cycle repeated forever, or a run that stops)
+ * - Events of multicasts, warnings for atoms no run can satisfy
+ * - Sidecar property files
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { parse } from '../../parser/parser';
+import { buildCFG } from '../../cfg/builder';
+import { projectAll } from '../../projection/projector';
+import { createInitialContext } from '../../safety/utils';
+import type { GlobalProtocolDeclaration } from '../../ast/types';
+import type { TypingContext, Communication } from '../../safety/types';
+import {
+  checkLTL,
+  formatCounterexample,
+  parseLTL,
+  formatLTL,
+  parseProperties,
+  LTLSyntaxError,
+} from './index';
+
+function contextOf(source: string): TypingContext {
+  const cfg = buildCFG(parse(source).declarations[0] as GlobalProtocolDeclaration);
+  return createInitialContext(projectAll(cfg).cfsms);
+}
+
+function steps(communications: Communication[]): string[] {
+  return communications.map(c => `${c.sender}->${c.receiver}:${c.message}`);
+}
+
+const ordering = contextOf(`protocol Ordering(role Buyer, role Seller, role Auditor) {
+  rec Loop {
+    choice at Buyer {
+      Buyer -> Seller: Order();
+      Seller -> Auditor: Log();
+      continue Loop;
+    } or {
+      Buyer -> Seller: Quit();
+    }
+  }
+}`);
+
+describe('LTL - Formulas', () => {
+  it('should parse with temporal operators binding tighter than connectives', () => {
+    expect(parseLTL('G(Buyer!Order -> F Seller?Order)')).toEqual({
+      type: 'always',
+      operand: {
+        type: 'implies',
+        left: { type: 'atom', atom: { type: 'send', role: 'Buyer', label: 'Order' } },
+        right: {
+          type: 'eventually',
+          operand: { type: 'atom', atom: { type: 'receive', role: 'Seller', label: 'Order' } },
+        },
+      },
+    });
+    expect(formatLTL(parseLTL('!A!x U B?y && end || [] <> C!z'))).toBe('!A!x U B?y && end || G F C!z');
+  });
+
+  it('should print formulas that parse back the same', () => {
+    for (const text of ['(A!x U B!y) U C!z', 'A!x -> (B!y -> C!z)', '(A!x -> B!y) -> C!z', '!(A!x && B?y) <-> X A!x', 'G!end']) {
+      const formula = parseLTL(text);
+      expect(parseLTL(formatLTL(formula))).toEqual(formula);
+    }
+  });
+
+  it('should report syntax errors with their column', () => {
+    expect(() => parseLTL('F (Buyer!Order')).toThrow(LTLSyntaxError);
+    try {
+      parseLTL('G(Buyer!Order -> F Seller)');
+      expect.unreachable();
+    } catch (error) {
+      expect((error as LTLSyntaxError).column).toBe(20);
+      expect((error as LTLSyntaxError).message).toContain("Unknown proposition 'Seller'");
+    }
+  });
+});
+
+describe('LTL - Model Checking', () => {
+  it('should verify a response property on every run', () => {
+    const result = checkLTL(ordering, 'G(Buyer!Order -> F Auditor?Log)');
+
+    expect(result.holds).toBe(true);
+    expect(result.counterexample).toBeUndefined();
+    expect(result.warnings).toEqual([]);
+    expect(result.diagnostics.statesExplored).toBe(3);
+  });
+
+  it('should give a run that stops as the counterexample of an eventuality', () => {
+    const result = checkLTL(ordering, 'F Auditor?Log');
+
+    expect(result.holds).toBe(false);
+    expect(steps(result.counterexample!.prefix)).toEqual(['Buyer->Seller:Quit']);
+    expect(result.counterexample!.cycle).toEqual([]);
+    expect(formatCounterexample(result.counterexample!)).toMatch(/^Buyer → Seller: Quit, then stop at Γ\(/);
+  });
+
+  it('should give a lasso when a loop can postpone termination forever', () => {
+    const result = checkLTL(ordering, 'F end');
+
+    expect(result.holds).toBe(false);
+    const { prefix, cycle } = result.counterexample!;
+    expect(steps([...prefix, ...cycle])).toEqual([
+      'Buyer->Seller:Order',
+      'Seller->Auditor:Log',
+      'Buyer->Seller:Order',
+    ]);
+    expect(steps(cycle)).toEqual(['Seller->Auditor:Log', 'Buyer->Seller:Order']);
+    expect(formatCounterexample(result.counterexample!)).toContain('then repeat Seller → Auditor: Log; Buyer → Seller: Order forever');
+  });
+
+  it('should hold the events of a communication at its own position', () => {
+    expect(checkLTL(ordering, 'Buyer!Order || Buyer!Quit').holds).toBe(true);
+    expect(checkLTL(ordering, 'G(Buyer!Order -> X Seller!Log)').holds).toBe(true);
+    expect(checkLTL(ordering, 'G(Buyer!Order -> X Buyer!Order)').holds).toBe(false);
+    expect(checkLTL(ordering, '!Auditor?Log U Buyer!Order').holds).toBe(false);
+    expect(checkLTL(ordering, '!Auditor?Log W Buyer!Order').holds).toBe(true);
+  });
+
+  it('should make every receiver of a multicast receive at once', () => {
+    const context = contextOf(`protocol News(role P, role S1, role S2) {
+  P -> S1, S2: News();
+  S1 -> P: Ack();
+}`);
+
+    expect(checkLTL(context, 'S1?News && S2?News').holds).toBe(true);
+    expect(checkLTL(context, 'G(P!News -> F P?Ack) && F G end').holds).toBe(true);
+  });
+
+  it('should warn about atoms no run can satisfy', () => {
+    const result = checkLTL(ordering, 'G !(Sellr?Order || Seller?Ordr)');
+
+    expect(result.holds).toBe(true);
+    expect(result.warnings).toEqual([
+      'Sellr?Order: unknown role Sellr',
+      'Seller?Ordr: Seller never receives Ordr',
+    ]);
+  });
+});
+
+describe('LTL - Property Files', () => {
+  it('should read named and unnamed properties, skipping comments', () => {
+    const properties = parseProperties(`# Orders
+order-logged: G(Buyer!Order -> F Auditor?Log)
+
+// Termination
+F end
+`);
+
+    expect(properties.map(p => [p.name, p.text, p.line])).toEqual([
+      ['order-logged', 'G(Buyer!Order -> F Auditor?Log)', 2],
+      ['F end', 'F end', 5],
+    ]);
+  });
+
+  it('should report the line and column of an invalid formula', () => {
+    try {
+      parseProperties('ok: F end\n  bad: G(Buyer!Order ->)\n');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(LTLSyntaxError);
+      expect((error as LTLSyntaxError).line).toBe(2);
+      expect((error as LTLSyntaxError).column).toBe(24);
+    }
+  });
+
+  it('should check the properties of an example protocol', () => {
+    const context = contextOf(readFileSync('examples/buyer-seller-agency.scr', 'utf-8'));
+    const properties = parseProperties(readFileSync('examples/buyer-seller-agency.ltl', 'utf-8'));
+
+    expect(properties.map(p => p.name)).toEqual(['order-invoiced', 'approved-before-invoice', 'terminates']);
+    for (const property of properties) {
+      expect(checkLTL(context, property.formula).holds).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,395 @@
+/**
+ * LTL Model Checking of Protocol Executions
+ *
+ * Checks a property φ on every run of a typing context, by the
+ * automata-theoretic approach of Vardi & Wolper:
+ *
+ * 1. The reachable contexts are explored with the ContextReducer (every
+ *    interleaving: partial-order reduction does not preserve X or the
+ *    events themselves)
+ * 2. ¬φ is translated into a generalised Büchi automaton (buchi.ts)
+ * 3. Their product is searched for a reachable strongly connected
+ *    component that meets every acceptance set: a run violating φ
+ *
+ * A run is the sequence of communications an execution performs, one
+ * position each: the events of the communication hold there (`A!m` for
+ * the sender, `B?m` for each receiver), and `end` holds if every role has
+ * terminated in the context it reaches. A run that stops, because every
+ * role has terminated or because it is stuck, stays at its last context
+ * forever with no event.
+ *
+ * A counterexample is a lasso: the communications leading to a cycle,
+ * and the cycle repeated forever (empty for a run that stops).
+ *
+ * Every scheduler is considered, including unfair ones that always take
+ * the same branch of a loop.
+ *
+ * @reference Vardi, M. Y., & Wolper, P. (1986). An Automata-Theoretic
+ *            Approach to Automatic Program Verification. LICS 1986.
+ */
+
+import type { TypingContext, Communication } from '../../safety/types';
+import type { SendAction, ReceiveAction } from '../../projection/types';
+import { exploreContexts, pendingRoles, type StateSpace } from '../../safety/progress-checker';
+import { formatContext } from '../../safety/utils';
+import {
+  parseLTL,
+  formatLTL,
+  formatAtom,
+  toNegationNormalForm,
+  atomsOf,
+  type LTLFormula,
+  type LTLAtom,
+} from './formula';
+import { buildBuchi, type BuchiAutomaton, type BuchiLiteral } from './buchi';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LTLCounterexample {
+  /** Communications from the initial context to the start of the cycle */
+  prefix: Communication[];
+  /** Communications repeated forever (empty: the run stops at `context`) */
+  cycle: Communication[];
+  /** Context where the cycle starts */
+  context: TypingContext;
+}
+
+export interface LTLResult {
+  /** The property, as printed by formatLTL */
+  formula: string;
+  /** Whether every run satisfies the property */
+  holds: boolean;
+  /** A run violating the property */
+  counterexample?: LTLCounterexample;
+  /** Atoms that no run can make true (an unknown role or message) */
+  warnings: string[];
+  diagnostics: {
+    checkTime: number;
+    /** Reachable contexts */
+    statesExplored: number;
+    /** States of the Büchi automaton of the negated property */
+    automatonStates: number;
+    /** Reachable states of the product */
+    productStates: number;
+  };
+}
+
+// ============================================================================
+// Model Checking
+// ============================================================================
+
+/**
+ * Check an LTL property on every run of a context
+ *
+ * @param context - Initial typing context (e.g. `createInitialContext(projectAll(cfg).cfsms)`)
+ * @param property - Formula, or its text
+ * @throws LTLSyntaxError if the text is not a formula
+ */
+export function checkLTL(context: TypingContext, property: LTLFormula | string): LTLResult {
+  const startTime = Date.now();
+  const formula = typeof property === 'string' ? parseLTL(property) : property;
+
+  const space = exploreContexts(context, false);
+  const automaton = buildBuchi(toNegationNormalForm(formula, true));
+  const product = buildProduct(space, automaton);
+  const lasso = findAcceptingLasso(product, automaton);
+
+  return {
+    formula: formatLTL(formula),
+    holds: !lasso,
+    ...(lasso && { counterexample: toCounterexample(space, product, lasso) }),
+    warnings: unusedAtoms(context, formula),
+    diagnostics: {
+      checkTime: Date.now() - startTime,
+      statesExplored: space.contexts.length,
+      automatonStates: automaton.states.length,
+      productStates: product.states.length,
+    },
+  };
+}
+
+/**
+ * Describe a counterexample on one line
+ */
+export function formatCounterexample(counterexample: LTLCounterexample): string {
+  const steps = (communications: Communication[]) => communications.map(formatStep).join('; ');
+  const prefix = counterexample.prefix.length > 0 ? `${steps(counterexample.prefix)}, then ` : '';
+
+  return counterexample.cycle.length > 0
+    ? `${prefix}repeat ${steps(counterexample.cycle)} forever`
+    : `${prefix}stop at ${formatContext(counterexample.context)}`;
+}
+
+// ============================================================================
+// Runs
+// ============================================================================
+
+/**
+ * A position of a run: a context, and the communication that reached it
+ * (none once the run has stopped)
+ */
+interface Position {
+  context: number;
+  event?: Communication;
+}
+
+function receiversOf(communication: Communication): string[] {
+  return communication.multicast?.map(m => m.receiver) ?? [communication.receiver];
+}
+
+function formatStep(communication: Communication): string {
+  return `${communication.sender} → ${receiversOf(communication).join(', ')}: ${communication.message}`;
+}
+
+/**
+ * Whether a literal holds at a position (`ended`: contexts where every role
+ * has terminated)
+ */
+function satisfies(ended: boolean[], position: Position, { atom, negated }: BuchiLiteral): boolean {
+  return holds(ended, position, atom) !== negated;
+}
+
+function holds(ended: boolean[], { context, event }: Position, atom: LTLAtom): boolean {
+  switch (atom.type) {
+    case 'end':
+      return ended[context];
+    case 'send':
+      return event !== undefined && event.sender === atom.role && event.message === atom.label;
+    case 'receive':
+      return event !== undefined && receiversOf(event).includes(atom.role) && event.message === atom.label;
+  }
+}
+
+// ============================================================================
+// Product
+// ============================================================================
+
+interface Product {
+  positions: Position[];
+  /** Position and automaton state of each product state */
+  states: Array<{ position: number; buchi: number }>;
+  edges: number[][];
+  /** Product state each one was first reached from (-1 for initial states) */
+  parents: number[];
+}
+
+/**
+ * Product of the runs of a state space with an automaton, explored
+ * breadth-first from the initial context
+ */
+function buildProduct(space: StateSpace, automaton: BuchiAutomaton): Product {
+  const ended = space.contexts.map((context, i) => space.edges[i].length === 0 && pendingRoles(context).length === 0);
+  const product: Product = { positions: [], states: [], edges: [], parents: [] };
+  const positionIds = new Map<string, number>();
+  const stateIds = new Map<string, number>();
+
+  const positionOf = (context: number, event?: Communication): number => {
+    const key = event ? `${context}|${formatStep(event)}` : `${context}`;
+    let id = positionIds.get(key);
+    if (id === undefined) {
+      id = product.positions.length;
+      positionIds.set(key, id);
+      product.positions.push({ context, event });
+    }
+    return id;
+  };
+
+  const successors = (position: number): number[] => {
+    const { context } = product.positions[position];
+    const edges = space.edges[context];
+    return edges.length > 0
+      ? edges.map(edge => positionOf(edge.to, edge.communication))
+      : [positionOf(context)];
+  };
+
+  const stateOf = (position: number, buchi: number, parent: number): number => {
+    const key = `${position}:${buchi}`;
+    let id = stateIds.get(key);
+    if (id === undefined) {
+      id = product.states.length;
+      stateIds.set(key, id);
+      product.states.push({ position, buchi });
+      product.edges.push([]);
+      product.parents.push(parent);
+    }
+    return id;
+  };
+
+  const enters = (position: number, buchi: number) =>
+    automaton.states[buchi].literals.every(literal => satisfies(ended, product.positions[position], literal));
+
+  for (const first of successors(positionOf(0))) {
+    for (const buchi of automaton.initial) {
+      if (enters(first, buchi)) stateOf(first, buchi, -1);
+    }
+  }
+
+  for (let id = 0; id < product.states.length; id++) {
+    const { position, buchi } = product.states[id];
+    for (const next of successors(position)) {
+      for (const target of automaton.edges[buchi]) {
+        if (enters(next, target)) product.edges[id].push(stateOf(next, target, id));
+      }
+    }
+  }
+
+  return product;
+}
+
+// ============================================================================
+// Emptiness
+// ============================================================================
+
+interface Lasso {
+  /** Product states from an initial state to the cycle entry */
+  prefix: number[];
+  /** Product states of the cycle, after the entry and back to it */
+  cycle: number[];
+}
+
+/**
+ * A reachable cycle meeting every acceptance set, if there is one
+ *
+ * Found among the strongly connected components of the product (Tarjan):
+ * an accepting component has an internal edge and a state of each set.
+ */
+function findAcceptingLasso(product: Product, automaton: BuchiAutomaton): Lasso | undefined {
+  const sets = automaton.acceptance.map(set => new Set(set));
+
+  for (const component of stronglyConnected(product)) {
+    const members = new Set(component);
+    const cyclic = component.some(v => product.edges[v].some(to => members.has(to)));
+    const accepting = sets.every(set => component.some(v => set.has(product.states[v].buchi)));
+    if (!cyclic || !accepting) continue;
+
+    // Components are sorted, and states numbered breadth-first: the first
+    // member is the closest to an initial state
+    const entry = component[0];
+    const prefix: number[] = [];
+    for (let v = entry; v !== -1; v = product.parents[v]) prefix.unshift(v);
+
+    const route = (from: number, isTarget: (v: number) => boolean): number[] => {
+      const previous = new Map<number, number>();
+      const queue = [from];
+      while (queue.length > 0) {
+        const at = queue.shift()!;
+        for (const to of product.edges[at]) {
+          if (!members.has(to) || previous.has(to)) continue;
+          previous.set(to, at);
+          if (isTarget(to)) {
+            const path = [to];
+            for (let v = at; v !== from; v = previous.get(v)!) path.unshift(v);
+            return path;
+          }
+          queue.push(to);
+        }
+      }
+      return [];
+    };
+
+    const cycle: number[] = [];
+    let at = entry;
+    for (const set of sets) {
+      if ([entry, ...cycle].some(v => set.has(product.states[v].buchi))) continue;
+      const path = route(at, v => set.has(product.states[v].buchi));
+      cycle.push(...path);
+      at = path[path.length - 1];
+    }
+    if (at !== entry || cycle.length === 0) cycle.push(...route(at, v => v === entry));
+
+    return { prefix, cycle };
+  }
+
+  return undefined;
+}
+
+/**
+ * Strongly connected components (Tarjan) of the product, each sorted
+ */
+function stronglyConnected(product: Product): number[][] {
+  const components: number[][] = [];
+  const index = new Map<number, number>();
+  const low = new Map<number, number>();
+  const onStack = new Set<number>();
+  const stack: number[] = [];
+
+  const connect = (v: number): void => {
+    index.set(v, index.size);
+    low.set(v, index.get(v)!);
+    stack.push(v);
+    onStack.add(v);
+
+    for (const to of product.edges[v]) {
+      if (!index.has(to)) {
+        connect(to);
+        low.set(v, Math.min(low.get(v)!, low.get(to)!));
+      } else if (onStack.has(to)) {
+        low.set(v, Math.min(low.get(v)!, index.get(to)!));
+      }
+    }
+
+    if (low.get(v) === index.get(v)) {
+      const component: number[] = [];
+      let w: number;
+      do {
+        w = stack.pop()!;
+        onStack.delete(w);
+        component.push(w);
+      } while (w !== v);
+      components.push(component.sort((a, b) => a - b));
+    }
+  };
+
+  for (let v = 0; v < product.states.length; v++) {
+    if (!index.has(v)) connect(v);
+  }
+
+  return components;
+}
+
+function toCounterexample(space: StateSpace, product: Product, lasso: Lasso): LTLCounterexample {
+  const events = (states: number[]) => states
+    .map(v => product.positions[product.states[v].position].event)
+    .filter((event): event is Communication => event !== undefined);
+
+  const entry = lasso.prefix[lasso.prefix.length - 1];
+  return {
+    prefix: events(lasso.prefix),
+    cycle: events(lasso.cycle),
+    context: space.contexts[product.positions[product.states[entry].position].context],
+  };
+}
+
+// ============================================================================
+// Warnings
+// ============================================================================
+
+/**
+ * Atoms of a formula naming a role that does not exist, or a message the
+ * role never sends or receives
+ */
+function unusedAtoms(context: TypingContext, formula: LTLFormula): string[] {
+  const warnings = new Set<string>();
+
+  for (const atom of atomsOf(formula)) {
+    if (atom.type === 'end') continue;
+
+    const instance = context.cfsms.get(atom.role);
+    if (!instance) {
+      warnings.add(`${formatAtom(atom)}: unknown role ${atom.role}`);
+      continue;
+    }
+
+    const used = instance.machine.transitions.some(({ action }) =>
+      action.type === atom.type &&
+      (action as SendAction | ReceiveAction).message.label === atom.label
+    );
+    if (!used) {
+      warnings.add(`${formatAtom(atom)}: ${atom.role} never ${atom.type}s ${atom.label}`);
+    }
+  }
+
+  return [...warnings];
+}
@@ -0,0 +1,53 @@
+/**
+ * Property Files
+ *
+ * LTL properties of a protocol live in a sidecar file next to it
+ * (`two-phase.scr` → `two-phase.ltl`), one per line, optionally named:
+ *
+ * ```
+ * # Every order reaches the seller
+ * order-delivered: G(Buyer!Order -> F Seller?Order)
+ * F Auditor?Log
+ * ```
+ *
+ * Blank lines and lines starting with `#` or `//` are ignored. An unnamed
+ * property is named after its formula.
+ */
+
+import { parseLTL, LTLSyntaxError, type LTLFormula } from './formula';
+
+export interface LTLProperty {
+  name: string;
+  /** Formula as written */
+  text: string;
+  formula: LTLFormula;
+  /** Line of the file (1-based) */
+  line: number;
+}
+
+/**
+ * Parse the properties of a property file
+ *
+ * @throws LTLSyntaxError at the line and column of the first invalid formula
+ */
+export function parseProperties(source: string): LTLProperty[] {
+  const properties: LTLProperty[] = [];
+
+  source.split(/\r?\n/).forEach((content, i) => {
+    const trimmed = content.trim();
+    if (trimmed === '' || trimmed.startsWith('#') || trimmed.startsWith('//')) return;
+
+    const named = /^([\w-]+)\s*:\s*/.exec(trimmed);
+    const text = named ? trimmed.slice(named[0].length) : trimmed;
+    const offset = content.indexOf(trimmed) + (named ? named[0].length : 0);
+
+    try {
+      properties.push({ name: named ? named[1] : text, text, formula: parseLTL(text), line: i + 1 });
+    } catch (error) {
+      if (!(error instanceof LTLSyntaxError)) throw error;
+      throw new LTLSyntaxError(error.message, error.column + offset, i + 1);
+    }
+  });
+
+  return properties;
+}
@@ -263,6 +263,41 @@ export interface MergeViolation {
   branches: { [branchLabel: string]: string }; // Branch label -> merge node ID
 }
 
+// ============================================================================
+// Deadline Satisfiability Results (Timed Session Types)
+// ============================================================================
+
+export interface DeadlineResult {
+  isSatisfiable: boolean;
+  violations: DeadlineViolation[];
+}
+
+export interface DeadlineViolation {
+  nodeId: string;     // Timed message action node
+  role: string;       // Role (clock) whose deadline cannot be met
+  label: string;      // Message label
+  deadline: number;   // Upper bound in ms
+  earliest: number;   // Least time (ms) that must elapse on the role's clock
+  description: string;
+}
+
+// ============================================================================
+// Crash Tolerance Results (Crash-Stop Failures)
+// ============================================================================
+
+export interface CrashToleranceResult {
+  isTolerant: boolean;
+  violations: CrashViolation[];
+}
+
+export interface CrashViolation {
+  type: 'undetected-crash' | 'uninformed-role';
+  nodeId: string;     // Message from the crashed role, or crash detection node
+  crashed: string;    // Unreliable role that crashes
+  role: string;       // Surviving role left behind
+  description: string;
+}
+
 // ============================================================================
 // Complete Verification
 // ============================================================================
@@ -284,6 +319,8 @@ export interface CompleteVerification {
   selfCommunication: SelfCommunicationResult;
   emptyChoiceBranch: EmptyChoiceBranchResult;
   mergeReachability: MergeReachabilityResult;
+  deadlines: DeadlineResult;
+  crashTolerance: CrashToleranceResult;
 }
 
 // ============================================================================
@@ -306,6 +343,8 @@ export interface VerificationOptions {
   checkSelfCommunication?: boolean;  // Default: true
   checkEmptyChoiceBranch?: boolean;  // Default: true
   checkMergeReachability?: boolean;  // Default: true
+  checkDeadlines?: boolean;          // Default: true
+  checkCrashTolerance?: boolean;     // Default: true
   strictMode?: boolean;              // Fail on warnings too
 }
 
@@ -325,5 +364,7 @@ export const DEFAULT_VERIFICATION_OPTIONS: VerificationOptions = {
   checkSelfCommunication: true,
   checkEmptyChoiceBranch: true,
   checkMergeReachability: true,
+  checkDeadlines: true,
+  checkCrashTolerance: true,
   strictMode: false,
 };
@@ -8,6 +8,7 @@
 import { describe, it, expect } from 'vitest';
 import { parse } from '../parser/parser';
 import { buildCFG } from '../cfg/builder';
+import type { GlobalProtocolDeclaration } from '../ast/types';
 import {
   detectDeadlock,
   checkLiveness,
@@ -25,6 +26,8 @@ import {
   checkSelfCommunication,
   checkEmptyChoiceBranch,
   checkMergeReachability,
+  checkDeadlineSatisfiability,
+  checkCrashTolerance,
 } from './verifier';
 
 // ============================================================================
@@ -754,9 +757,11 @@ describe('Complete Protocol Verification', () => {
     expect(Object.keys(result)).toContain('selfCommunication');
     expect(Object.keys(result)).toContain('emptyChoiceBranch');
     expect(Object.keys(result)).toContain('mergeReachability');
+    expect(Object.keys(result)).toContain('deadlines');
+    expect(Object.keys(result)).toContain('crashTolerance');
 
-    // All 16 checks should be present (1 structural + 5 base + 3 P0 + 3 P1 + 3 P2 + 1 P3 = 16)
-    expect(Object.keys(result).length).toBe(16);
+    // All 18 checks should be present (1 structural + 5 base + 3 P0 + 3 P1 + 3 P2 + 1 P3 + 1 timed + 1 crash = 18)
+    expect(Object.keys(result).length).toBe(18);
 
     // Each result should have expected structure
     expect(result.deadlock).toHaveProperty('hasDeadlock');
@@ -1665,3 +1670,124 @@ describe('Merge Node Reachability', () => {
     expect(result.violations[0].description).toContain('do not converge');
   });
 });
+
+describe('Deadline Satisfiability', () => {
+  it('should accept deadlines that some schedule can meet', () => {
+    const source = `
+      protocol Quote(role Client, role Server) {
+        Client -> Server: Request() within 5s;
+        timeout(2s) {
+          Server -> Client: Busy();
+        }
+        Server -> Client: Response() within 500ms;
+        Client -> Server: Ack() within 1s;
+      }
+    `;
+    const cfg = buildCFG(parse(source).declarations[0] as GlobalProtocolDeclaration);
+    const result = checkDeadlineSatisfiability(cfg);
+
+    expect(result.isSatisfiable).toBe(true);
+    expect(result.violations).toHaveLength(0);
+  });
+
+  it('should detect a deadline that expires before its timeout can fire', () => {
+    const source = `
+      protocol Quote(role Client, role Server) {
+        Client -> Server: Request();
+        timeout(10s) {
+          Server -> Client: Busy() within 5s;
+        }
+        Server -> Client: Response();
+      }
+    `;
+    const cfg = buildCFG(parse(source).declarations[0] as GlobalProtocolDeclaration);
+    const result = checkDeadlineSatisfiability(cfg);
+
+    expect(result.isSatisfiable).toBe(false);
+    expect(result.violations.map(v => v.role).sort()).toEqual(['Client', 'Server']);
+
+    const violation = result.violations.find(v => v.role === 'Server')!;
+    expect(violation.label).toBe('Busy');
+    expect(violation.deadline).toBe(5000);
+    expect(violation.earliest).toBe(10000);
+    expect(violation.description).toContain('Deadline violation');
+  });
+
+  it('should report deadlines as part of complete verification', () => {
+    const source = `
+      protocol Plain(role A, role B) {
+        A -> B: Msg();
+      }
+    `;
+    const result = verifyProtocol(buildCFG(parse(source).declarations[0] as GlobalProtocolDeclaration));
+
+    expect(result.deadlines.isSatisfiable).toBe(true);
+  });
+});
+
+describe('Crash Tolerance', () => {
+  const build = (source: string) => buildCFG(parse(source).declarations[0] as GlobalProtocolDeclaration);
+
+  it('should accept a protocol whose crashes are all handled', () => {
+    const cfg = build(`
+      protocol Offload(role Master, role Worker unreliable, role Client) {
+        Client -> Master: Job(Int);
+        on crash(Worker) {
+          Master -> Client: Failed();
+        }
+        Master -> Worker: Task(Int);
+        Worker -> Master: Result(Int);
+        Master -> Client: Answer(Int);
+      }
+    `);
+    const result = checkCrashTolerance(cfg);
+
+    expect(result.isTolerant).toBe(true);
+    expect(result.violations).toEqual([]);
+    expect(verifyProtocol(cfg).liveness.isLive).toBe(true);
+  });
+
+  it('should report a role waiting for an unreliable role without a handler', () => {
+    const cfg = build(`
+      protocol Offload(role Master, role Worker unreliable) {
+        Master -> Worker: Task(Int);
+        Worker -> Master: Result(Int);
+      }
+    `);
+    const result = checkCrashTolerance(cfg);
+
+    expect(result.isTolerant).toBe(false);
+    expect(result.violations).toMatchObject([
+      { type: 'undetected-crash', crashed: 'Worker', role: 'Master' },
+    ]);
+    expect(result.violations[0].description).toContain("on crash(Worker)");
+  });
+
+  it('should report a role of the guarded block left out of the handler', () => {
+    const cfg = build(`
+      protocol Offload(role Master, role Worker unreliable, role Client, role Log) {
+        on crash(Worker) {
+          Master -> Log: Failed();
+        }
+        Worker -> Master: Result(Int);
+        Master -> Client: Answer(Int);
+      }
+    `);
+    const result = checkCrashTolerance(cfg);
+
+    expect(result.violations).toMatchObject([
+      { type: 'uninformed-role', crashed: 'Worker', role: 'Client' },
+    ]);
+  });
+
+  it('should not check protocols without unreliable roles', () => {
+    const cfg = build(`
+      protocol Plain(role A, role B) {
+        A -> B: Msg();
+        B -> A: Reply();
+      }
+    `);
+
+    expect(verifyProtocol(cfg).crashTolerance).toEqual({ isTolerant: true, violations: [] });
+  });
+});
@@ -4,7 +4,7 @@
  */
 
 import type { CFG, Node, Edge, ForkNode, ActionNode, BranchNode, RecursiveNode } from '../cfg/types';
-import { isForkNode, isJoinNode, isActionNode, isMessageAction, isTerminalNode, isBranchNode, isRecursiveNode, isCreateParticipantsAction, isInvitationAction, isDynamicRoleDeclarationAction } from '../cfg/types';
+import { isForkNode, isJoinNode, isActionNode, isMessageAction, isTerminalNode, isBranchNode, isRecursiveNode, isCreateParticipantsAction, isInvitationAction, isDynamicRoleDeclarationAction, isSubProtocolAction, isProtocolCallAction, isCrashDetectionAction } from '../cfg/types';
 import type {
   DeadlockResult,
   DeadlockCycle,
@@ -34,6 +34,10 @@ import type {
   EmptyBranchViolation,
   MergeReachabilityResult,
   MergeViolation,
+  DeadlineResult,
+  DeadlineViolation,
+  CrashToleranceResult,
+  CrashViolation,
   CompleteVerification,
   VerificationOptions,
 } from './types';
@@ -927,7 +931,11 @@ function getRolesAndInstancesInPath(
     }
 
     // Follow all outgoing edges (except back to branch node)
-    const outgoing = cfg.edges.filter(e => e.from === nodeId && e.to !== branchNodeId);
+    // A throw leaves the choice: its handler is shared by all branches
+    // (and so does a crash: see checkCrashTolerance)
+    const outgoing = cfg.edges.filter(
+      e => e.from === nodeId && e.to !== branchNodeId && e.edgeType !== 'exception' && e.edgeType !== 'crash'
+    );
     for (const edge of outgoing) {
       queue.push(edge.to);
     }
@@ -1406,7 +1414,7 @@ export function checkMergeReachability(cfg: CFG): MergeReachabilityResult {
 
     for (const edge of branchEdges) {
       const branchLabel = edge.label || edge.to;
-      const { mergeNode, hasContinue } = findMergeNodeAndContinue(cfg, edge.to);
+      const { mergeNode, hasContinue, hasThrow } = findMergeNodeAndContinue(cfg, edge.to);
 
       if (hasContinue) {
         hasContinueBranch = true;
@@ -1416,13 +1424,16 @@ export function checkMergeReachability(cfg: CFG): MergeReachabilityResult {
         branchMerges[branchLabel] = mergeNode.id;
       } else if (hasContinue) {
         branchMerges[branchLabel] = 'continue';
+      } else if (hasThrow) {
+        branchMerges[branchLabel] = 'throw';
       } else {
         branchMerges[branchLabel] = 'none';
       }
     }
 
     // Check if all branches reach the same merge
-    const mergeIds = Object.values(branchMerges);
+    // Branches aborted by a throw leave the choice through a catch handler instead
+    const mergeIds = Object.values(branchMerges).filter(id => id !== 'throw');
     const uniqueMerges = new Set(mergeIds);
 
     // DMst: If any branch has 'continue' (updatable recursion), allow non-convergence
@@ -1445,14 +1456,16 @@ export function checkMergeReachability(cfg: CFG): MergeReachabilityResult {
  * Find the merge node reachable from a starting node and detect continue edges
  *
  * DMst Extension: Also detects if path contains 'continue' edges (updatable recursion)
+ * Exception handling: 'exception' edges are not followed; hasThrow reports them
  */
 function findMergeNodeAndContinue(
   cfg: CFG,
   startNodeId: string
-): { mergeNode: Node | null; hasContinue: boolean } {
+): { mergeNode: Node | null; hasContinue: boolean; hasThrow: boolean } {
   const visited = new Set<string>();
   const queue: string[] = [startNodeId];
   let hasContinue = false;
+  let hasThrow = false;
 
   while (queue.length > 0) {
     const nodeId = queue.shift()!;
@@ -1464,12 +1477,12 @@ function findMergeNodeAndContinue(
 
     // If this is a merge node, return it
     if (node.type === 'merge') {
-      return { mergeNode: node, hasContinue };
+      return { mergeNode: node, hasContinue, hasThrow };
     }
 
     // If this is a terminal node, no merge found
     if (isTerminalNode(node)) {
-      return { mergeNode: null, hasContinue };
+      return { mergeNode: null, hasContinue, hasThrow };
     }
 
     // Check for continue edges (DMst updatable recursion)
@@ -1479,14 +1492,21 @@ function findMergeNodeAndContinue(
       // Don't follow continue edges to avoid loops
     }
 
-    // Follow outgoing edges (but not continue edges to avoid loops)
-    const outgoing = cfg.edges.filter(e => e.from === nodeId && e.edgeType !== 'continue');
+    // A throw leaves the choice through the handler of its try block
+    if (cfg.edges.some(e => e.from === nodeId && e.edgeType === 'exception')) {
+      hasThrow = true;
+    }
+
+    // Follow outgoing edges (but not continue edges to avoid loops, nor exception or crash edges)
+    const outgoing = cfg.edges.filter(
+      e => e.from === nodeId && e.edgeType !== 'continue' && e.edgeType !== 'exception' && e.edgeType !== 'crash'
+    );
     for (const edge of outgoing) {
       queue.push(edge.to);
     }
   }
 
-  return { mergeNode: null, hasContinue };
+  return { mergeNode: null, hasContinue, hasThrow };
 }
 
 /**
@@ -1497,6 +1517,318 @@ function findMergeNode(cfg: CFG, startNodeId: string): Node | null {
   return findMergeNodeAndContinue(cfg, startNodeId).mergeNode;
 }
 
+// ============================================================================
+// Deadline Satisfiability (Timed Session Types)
+// ============================================================================
+
+/**
+ * Bound on the number of CFG paths explored by checkDeadlineSatisfiability
+ */
+const MAX_DEADLINE_PATHS = 1000;
+
+/**
+ * Event of a timing path: a send or receive of one role.
+ * `after` lists lower bounds t(event) ≥ t(pred) + weight.
+ */
+interface TimedEvent {
+  role: string;
+  after: { pred: number; weight: number }[];
+}
+
+interface TimingPath {
+  events: TimedEvent[];
+  last: Map<string, number>; // role -> its last event (clock reset)
+}
+
+/**
+ * Check that every deadline can be met by some schedule
+ *
+ * Every role's clock measures the time since its last send or receive
+ * (see ClockConstraint). Along each path of the CFG (recursion unrolled
+ * once), sends and receives form a partial order with lower bounds:
+ * program order per role, send before receive, and r ≥ d on timeout
+ * handlers. A deadline r ≤ d on an event e cannot be met when the longest
+ * lower-bound path from r's previous event to e exceeds d: however fast
+ * every role acts, more than d elapses on r's clock.
+ *
+ * Deadlines are checked one at a time; par blocks and sub-protocols reset
+ * the clocks of their roles to an unknown time.
+ */
+export function checkDeadlineSatisfiability(cfg: CFG): DeadlineResult {
+  const violations: DeadlineViolation[] = [];
+
+  // Untimed protocols have nothing to check
+  if (!cfg.edges.some(e => e.clockConstraints && e.clockConstraints.length > 0)) {
+    return { isSatisfiable: true, violations };
+  }
+
+  const reported = new Set<string>();
+  let paths = 0;
+
+  const freshEvent = (path: TimingPath, role: string, after: TimedEvent['after']): number => {
+    path.events.push({ role, after });
+    const id = path.events.length - 1;
+    path.last.set(role, id);
+    return id;
+  };
+
+  const forget = (path: TimingPath, roles: string[]): void => {
+    // Reset at an unknown time: no lower bound relates it to earlier events
+    for (const role of roles) {
+      freshEvent(path, role, []);
+    }
+  };
+
+  const checkUpperBounds = (path: TimingPath, edge: Edge, action: ActionNode, events: Map<string, number>): void => {
+    for (const constraint of edge.clockConstraints ?? []) {
+      if (constraint.operator === '>=') continue;
+      const event = events.get(constraint.clock);
+      if (event === undefined) continue;
+
+      const previous = previousEvent(path, event);
+      const earliest = longestPath(path.events, previous, event);
+      const missed = constraint.operator === '<'
+        ? earliest >= constraint.bound
+        : earliest > constraint.bound;
+      const key = `${action.id}:${constraint.clock}:${constraint.operator}${constraint.bound}`;
+      if (!missed || reported.has(key)) continue;
+      reported.add(key);
+
+      const message = isMessageAction(action.action) ? action.action : undefined;
+      const label = message?.label ?? action.id;
+      const verb = message?.from === constraint.clock ? 'send' : 'receive';
+      violations.push({
+        nodeId: action.id,
+        role: constraint.clock,
+        label,
+        deadline: constraint.bound,
+        earliest,
+        description: `Deadline violation: ${constraint.clock} must ${verb} "${label}" ${constraint.operator === '<' ? 'before' : 'within'} ${constraint.bound}ms of its previous action, but at least ${earliest}ms always elapse. No schedule can meet this deadline.`,
+      });
+    }
+  };
+
+  const visit = (nodeId: string, path: TimingPath, visited: Set<string>): void => {
+    if (paths >= MAX_DEADLINE_PATHS) return;
+
+    const node = cfg.nodes.find(n => n.id === nodeId);
+    if (!node || isTerminalNode(node) || visited.has(nodeId)) {
+      paths++;
+      return;
+    }
+    visited.add(nodeId);
+
+    // Skip par blocks: their roles continue from an unknown time
+    if (isForkNode(node)) {
+      const join = cfg.nodes.find(n => isJoinNode(n) && n.parallel_id === node.parallel_id);
+      if (!join) {
+        paths++;
+        return;
+      }
+      forget(path, Array.from(getRolesInBranch(cfg, getNodesUntil(cfg, node.id, join.id))));
+      nodeId = join.id;
+    }
+
+    const outgoing = cfg.edges.filter(
+      e => e.from === nodeId && e.edgeType !== 'continue'
+    );
+    if (outgoing.length === 0) {
+      paths++;
+      return;
+    }
+
+    for (const edge of outgoing) {
+      const next: TimingPath = outgoing.length > 1
+        ? { events: path.events.map(e => ({ ...e, after: [...e.after] })), last: new Map(path.last) }
+        : path;
+      const target = cfg.nodes.find(n => n.id === edge.to);
+
+      if (target && isActionNode(target)) {
+        const action = target.action;
+        if (isMessageAction(action)) {
+          // Lower bounds of this edge (timeout handlers) on each role's event
+          const lowerBound = (role: string): TimedEvent['after'] =>
+            (edge.clockConstraints ?? [])
+              .filter(c => c.clock === role && c.operator === '>=')
+              .map(c => ({ pred: next.last.get(role) ?? -1, weight: c.bound }));
+          const programOrder = (role: string): TimedEvent['after'] =>
+            next.last.has(role) ? [{ pred: next.last.get(role)!, weight: 0 }] : [];
+
+          const events = new Map<string, number>();
+          const send = freshEvent(next, action.from, [...programOrder(action.from), ...lowerBound(action.from)]);
+          events.set(action.from, send);
+          const receivers = typeof action.to === 'string' ? [action.to] : action.to;
+          for (const receiver of receivers) {
+            if (receiver === action.from) continue;
+            const after = [{ pred: send, weight: 0 }, ...programOrder(receiver), ...lowerBound(receiver)];
+            events.set(receiver, freshEvent(next, receiver, after));
+          }
+
+          checkUpperBounds(next, edge, target, events);
+        } else if (isSubProtocolAction(action)) {
+          forget(next, action.roleArguments);
+        } else if (isProtocolCallAction(action)) {
+          forget(next, [action.caller, ...action.roleArguments]);
+        }
+      }
+
+      visit(edge.to, next, new Set(visited));
+    }
+  };
+
+  visit(cfg.initialNode, { events: [], last: new Map() }, new Set());
+
+  return {
+    isSatisfiable: violations.length === 0,
+    violations,
+  };
+}
+
+/**
+ * Previous event of the same role (its last clock reset), or -1 for the
+ * start of the protocol
+ */
+function previousEvent(path: TimingPath, event: number): number {
+  const role = path.events[event].role;
+  for (let i = event - 1; i >= 0; i--) {
+    if (path.events[i].role === role) return i;
+  }
+  return -1;
+}
+
+/**
+ * Longest lower-bound path from one event to another (-1 is the protocol
+ * start, which precedes every event). Events are in topological order.
+ */
+function longestPath(events: TimedEvent[], from: number, to: number): number {
+  const distance = new Map<number, number>([[from, 0]]);
+  for (let i = from + 1; i <= to; i++) {
+    let best: number | undefined = from === -1 ? 0 : undefined;
+    for (const { pred, weight } of events[i].after) {
+      const d = distance.get(pred);
+      if (d !== undefined && (best === undefined || d + weight > best)) {
+        best = d + weight;
+      }
+    }
+    if (best !== undefined) distance.set(i, best);
+  }
+  return distance.get(to) ?? 0;
+}
+
+// ============================================================================
+// Crash Tolerance (Crash-Stop Failures)
+// ============================================================================
+
+/**
+ * Check that the protocol still makes progress when unreliable roles crash
+ *
+ * The crash paths are part of the CFG (see CrashHandler): deadlock and
+ * liveness are checked on them like on any other path. What they cannot
+ * see is a crash where no handler is: an unreliable role may crash at any
+ * point, so
+ * - every role waiting for a message from an unreliable role must be able
+ *   to detect its crash: the message is guarded by an `on crash` handler
+ *   whose detector is that role, or that involves it
+ * - every surviving role that takes part in the rest of a guarded block
+ *   must take part in its crash handler, or it is never told to stop
+ *   waiting for the rest of the block
+ */
+export function checkCrashTolerance(cfg: CFG): CrashToleranceResult {
+  const violations: CrashViolation[] = [];
+  const unreliable = new Set(cfg.unreliableRoles ?? []);
+
+  if (unreliable.size === 0) {
+    return { isTolerant: true, violations };
+  }
+
+  // Guarded message node -> roles that find out about its sender's crash
+  const informed = new Map<string, Set<string>>();
+
+  for (const branchNode of cfg.nodes.filter(isBranchNode)) {
+    const crashEdge = cfg.edges.find(e => e.from === branchNode.id && e.edgeType === 'crash');
+    if (!crashEdge) continue;
+
+    const detection = cfg.nodes.find(n => n.id === crashEdge.to);
+    if (!detection || !isActionNode(detection) || !isCrashDetectionAction(detection.action)) continue;
+    const crashed = detection.action.crashed;
+
+    const handlerRoles = getRolesReachableFrom(cfg, detection.id);
+    for (const edge of cfg.edges.filter(e => e.from === branchNode.id && e.edgeType === 'branch')) {
+      informed.set(edge.to, handlerRoles);
+
+      for (const role of getRolesReachableFrom(cfg, edge.to)) {
+        if (role === crashed || handlerRoles.has(role)) continue;
+        violations.push({
+          type: 'uninformed-role',
+          nodeId: detection.id,
+          crashed,
+          role,
+          description: `${role} is never told that ${crashed} crashed: it takes part in the rest of the block ` +
+            `guarded by 'on crash(${crashed})' but not in the handler, so it may wait forever.`,
+        });
+      }
+    }
+  }
+
+  for (const node of cfg.nodes) {
+    if (!isActionNode(node) || !isMessageAction(node.action)) continue;
+    const action = node.action;
+    if (!unreliable.has(action.from)) continue;
+
+    const receivers = typeof action.to === 'string' ? [action.to] : action.to;
+    for (const receiver of receivers) {
+      if (informed.get(node.id)?.has(receiver)) continue;
+      violations.push({
+        type: 'undetected-crash',
+        nodeId: node.id,
+        crashed: action.from,
+        role: receiver,
+        description: `${receiver} waits forever for ${action.label} from ${action.from} if ${action.from} crashes ` +
+          `before sending it. Guard it with an 'on crash(${action.from})' handler that ${receiver} detects or takes part in.`,
+      });
+    }
+  }
+
+  return {
+    isTolerant: violations.length === 0,
+    violations,
+  };
+}
+
+/**
+ * Roles of the actions reachable from a node (recursion included)
+ */
+function getRolesReachableFrom(cfg: CFG, startNodeId: string): Set<string> {
+  const roles = new Set<string>();
+  const visited = new Set<string>();
+  const queue: string[] = [startNodeId];
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    if (visited.has(nodeId)) continue;
+    visited.add(nodeId);
+
+    const node = cfg.nodes.find(n => n.id === nodeId);
+    if (node && isActionNode(node)) {
+      const action = node.action;
+      if (isMessageAction(action)) {
+        roles.add(action.from);
+        (typeof action.to === 'string' ? [action.to] : action.to).forEach(r => roles.add(r));
+      } else if (isSubProtocolAction(action)) {
+        action.roleArguments.forEach(r => roles.add(r));
+      } else if (isCrashDetectionAction(action)) {
+        roles.add(action.detector);
+      }
+    }
+
+    for (const edge of cfg.edges.filter(e => e.from === nodeId)) {
+      queue.push(edge.to);
+    }
+  }
+
+  return roles;
+}
+
 // ============================================================================
 // Complete Verification
 // ============================================================================
@@ -1551,6 +1883,12 @@ export function verifyProtocol(
     mergeReachability: opts.checkMergeReachability
       ? checkMergeReachability(cfg)
       : { isValid: true, violations: [] },
+    deadlines: opts.checkDeadlines
+      ? checkDeadlineSatisfiability(cfg)
+      : { isSatisfiable: true, violations: [] },
+    crashTolerance: opts.checkCrashTolerance
+      ? checkCrashTolerance(cfg)
+      : { isTolerant: true, violations: [] },
   };
 }
 
@@ -1720,6 +2058,26 @@ export function summarizeVerification(verification: CompleteVerification): {
     });
   }
 
+  // Check deadlines (timed session types)
+  if (!verification.deadlines.isSatisfiable) {
+    verification.deadlines.violations.forEach(v => {
+      errors.push({
+        type: 'unmeetable-deadline',
+        message: v.description,
+      });
+    });
+  }
+
+  // Check crash tolerance (crash-stop failures)
+  if (!verification.crashTolerance.isTolerant) {
+    verification.crashTolerance.violations.forEach(v => {
+      errors.push({
+        type: 'crash-tolerance',
+        message: v.description,
+      });
+    });
+  }
+
   return {
     isValid: errors.length === 0,
     errors,
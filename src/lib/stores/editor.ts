@@ -1,13 +1,19 @@
 /**
  * Svelte stores for IDE state management
  */
-import { writable, derived } from 'svelte/store';
+import { writable, derived, get } from 'svelte/store';
 import type { ProtocolExample } from '../data/examples';
 
 // Editor state
 export const editorContent = writable<string>('');
 export const selectedExample = writable<ProtocolExample | null>(null);
 
+// Virtual file system for imports: path → source of the other documents,
+// such as saved protocols (`import "Auth.scr";`); the editor content is
+// the module at EDITOR_PATH
+export const EDITOR_PATH = 'main.scr';
+export const workspaceFiles = writable<Record<string, string>>({});
+
 // UI state
 export const activeTab = writable<'verification' | 'projection' | 'errors'>('verification');
 export const libraryOpen = writable<boolean>(true);
@@ -123,27 +129,48 @@ export async function parseProtocol(content: string) {
 
   try {
     // Dynamic imports
-    const { parse } = await import('../../core/parser/parser');
+    const { ModuleLoader, InMemoryModuleResolver } = await import('../../core/protocol-registry/module-loader');
+    const { formatSyntaxDiagnostic } = await import('../../core/parser/syntax-diagnostics');
+    const { checkTypes } = await import('../../core/type-checker');
     const { buildCFG } = await import('../../core/cfg/builder');
     const { verifyProtocol } = await import('../../core/verification/verifier');
     const { projectAll } = await import('../../core/projection/projector');
     const { serializeCFSM } = await import('../../core/serializer/cfsm-serializer');
 
-    // 1. Parse Scribble
-    const ast = parse(content);
-
-    if (!ast || ast.type !== 'Module') {
-      throw new Error('Expected module from parser');
-    }
+    // 1. Parse Scribble, with the workspace files it imports (every syntax
+    //    error at once; declarations with errors are left out, the others
+    //    are still verified)
+    const resolver = new InMemoryModuleResolver({ ...get(workspaceFiles), [EDITOR_PATH]: content });
+    const program = new ModuleLoader(resolver).load(EDITOR_PATH, content, { recover: true });
+    const ast = program.entry.module;
+    const syntaxErrors = [...program.modules.values()].flatMap(module =>
+      module.syntaxErrors.map(d =>
+        `Syntax error${module === program.entry ? '' : ` in ${module.path}`} at line ${d.location.start.line}, column ${d.location.start.column}: ${formatSyntaxDiagnostic(d)}`
+      )
+    );
 
-    if (!ast.declarations || ast.declarations.length === 0) {
-      throw new Error('No protocol declarations found');
+    const protocol = ast.declarations.find(d => d.type === 'GlobalProtocolDeclaration');
+    if (!protocol) {
+      if (syntaxErrors.length > 0) {
+        throw new Error(syntaxErrors.join('\n'));
+      }
+      throw new Error(
+        ast.declarations.length === 0
+          ? 'No protocol declarations found'
+          : 'Expected global protocol declaration'
+      );
     }
 
-    const protocol = ast.declarations[0];
-    if (protocol.type !== 'GlobalProtocolDeclaration') {
-      throw new Error('Expected global protocol declaration');
+    // Payload types (resolved onto the messages the CFG carries), imported
+    // ones included
+    for (const module of program.modules.values()) {
+      if (module !== program.entry) checkTypes(module.module, { types: program.types });
     }
+    const typeErrors = checkTypes(ast, { types: program.types }).errors.map(e =>
+      e.location
+        ? `Type error at line ${e.location.start.line}, column ${e.location.start.column}: ${e.message}`
+        : `Type error: ${e.message}`
+    );
 
     // 2. Build CFG
     const cfg = buildCFG(protocol);
@@ -158,7 +185,7 @@ export async function parseProtocol(content: string) {
     const roles = projectionResult.roles;
 
     // 5. Collect errors and warnings from verification
-    const errors: string[] = [];
+    const errors: string[] = [...syntaxErrors, ...typeErrors];
     const warnings: string[] = [];
 
     // Deadlock
@@ -197,7 +224,7 @@ export async function parseProtocol(content: string) {
     }
 
     // 6. Update stores
-    parseStatus.set('success');
+    parseStatus.set(syntaxErrors.length > 0 ? 'error' : 'success');
     verificationResult.set({
       deadlockFree: !result.deadlock.hasDeadlock,
       livenessSatisfied: result.liveness.isLive,
@@ -255,7 +282,7 @@ export async function parseProtocol(content: string) {
 
     // 6. Initialize simulation with CFG
     const { initializeSimulation } = await import('./simulation');
-    await initializeSimulation(cfg);
+    await initializeSimulation(cfg, program.registry);
 
     // TODO: 7. Generate TypeScript (future)
 
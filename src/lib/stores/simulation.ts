@@ -3,6 +3,7 @@
  */
 import { writable, derived, get } from 'svelte/store';
 import type { CFG } from '../../core/cfg/types';
+import type { IProtocolRegistry } from '../../core/protocol-registry/registry';
 import type { CFGExecutionState, CFGStepResult } from '../../core/simulation/types';
 
 // Simulation mode
@@ -42,9 +43,10 @@ playbackSpeed.subscribe(speed => {
 });
 
 /**
- * Initialize simulator with a CFG
+ * Initialize simulator with a CFG (and the protocols its `do` statements
+ * may call)
  */
-export async function initializeSimulation(cfg: CFG) {
+export async function initializeSimulation(cfg: CFG, protocolRegistry?: IProtocolRegistry) {
   // Clean up existing simulator
   stopSimulation();
 
@@ -55,7 +57,8 @@ export async function initializeSimulation(cfg: CFG) {
   simulator = new CFGSimulator(cfg, {
     choiceStrategy: 'manual',
     maxSteps: 1000,
-    recordTrace: true
+    recordTrace: true,
+    protocolRegistry
   });
 
   currentCFG.set(cfg);